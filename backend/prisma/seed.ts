@@ -16,6 +16,7 @@ const prisma = new PrismaClient();
  * - Admin user
  * - Sample customer users
  * - Sample products across categories
+ * - Opening stock for sample products
  *
  * Usage:
  *   npm run db:seed
@@ -222,6 +223,24 @@ async function main() {
     console.log(`   ✓ ${created.name} (${created.category})`);
   }
 
+  // ==========================================================================
+  // Seed Stock
+  // ==========================================================================
+  console.log('\n📦 Creating opening stock...');
+
+  // A few products start low so the catalog shows the low-stock indicator.
+  // Existing stock rows are left untouched on re-seed.
+  const lowStock: Record<string, number> = { 'prod-020': 4, 'prod-026': 6 };
+
+  for (const product of products) {
+    await prisma.stockItem.upsert({
+      where: { productId: product.id },
+      update: {},
+      create: { productId: product.id, onHand: lowStock[product.id] ?? 100 },
+    });
+  }
+  console.log(`   ✓ Stock for ${products.length} products`);
+
   // ==========================================================================
   // Seed Promotions
   // ==========================================================================
@@ -15,10 +15,21 @@ import { DatabaseModule } from './database/database.module';
 // Auth Module
 import { AuthModule } from './auth/auth.module';
 
+// Audit (global)
+import { AuditModule } from './audit/audit.module';
+
+// Domain events: outbox and event bus (global)
+import { EventsModule } from './events/events.module';
+
+// Scheduled jobs (global)
+import { SchedulerModule } from './scheduler/scheduler.module';
+
 // Domain Modules
 import { UserModule } from './user/user.module';
 import { AddressModule } from './address/address.module';
 import { CatalogModule } from './catalog/catalog.module';
+import { CatalogAdminModule } from './catalog-admin/catalog-admin.module';
+import { InventoryModule } from './inventory/inventory.module';
 import { OrderModule } from './order/order.module';
 import { PrescriptionModule } from './prescription/prescription.module';
 import { ConsultationModule } from './consultation/consultation.module';
@@ -27,11 +38,10 @@ import { PaymentModule } from './payment/payment.module';
 import { NewsletterModule } from './newsletter/newsletter.module';
 import { PromotionModule } from './promotions/promotion.module';
 import { ArticleModule } from './articles/article.module';
+import { FileModule } from './files/file.module';
 
-// Support Services
-import { PaymentService } from './payment/payment.service';
-import { NotificationService } from './notification/notification.service';
-import { AuditService } from './audit/audit.service';
+// Support Modules
+import { NotificationModule } from './notification/notification.module';
 
 @Module({
   imports: [
@@ -48,10 +58,21 @@ import { AuditService } from './audit/audit.service';
     // Auth Module
     AuthModule,
 
+    // Audit (global)
+    AuditModule,
+
+    // Domain events: outbox and event bus (global)
+    EventsModule,
+
+    // Scheduled jobs (global)
+    SchedulerModule,
+
     // Domain Modules
     UserModule,
     AddressModule,
     CatalogModule,
+    CatalogAdminModule,
+    InventoryModule,
     OrderModule,
     PrescriptionModule,
     ConsultationModule,
@@ -60,17 +81,16 @@ import { AuditService } from './audit/audit.service';
     NewsletterModule,
     PromotionModule,
     ArticleModule,
+    FileModule,
+
+    // Support Modules
+    NotificationModule,
   ],
   controllers: [HealthController],
   providers: [
     // Common Services
     Logger,
-
-    // Support Services (available for injection across modules)
-    PaymentService,
-    NotificationService,
-    AuditService,
   ],
-  exports: [Logger, PaymentService, NotificationService, AuditService],
+  exports: [Logger],
 })
 export class AppModule {}
@@ -0,0 +1,110 @@
+import { Controller, Get, Headers, Param, Query, UseGuards } from '@nestjs/common';
+import { ApiResponse, PaginatedResponse } from '../common/api/api-response';
+import { JwtAuthGuard } from '../auth/guards/jwt-auth.guard';
+import { RolesGuard } from '../auth/guards/roles.guard';
+import { Roles } from '../auth/decorators/roles.decorator';
+import { UserRole } from '../auth/interfaces/auth-user.interface';
+import { AuditService } from './audit.service';
+import {
+  AuditChainVerificationDto,
+  AuditLogEntryDto,
+  AuditLogQueryDto,
+  toAuditChainVerificationDto,
+  toAuditLogEntryDto,
+} from './dto';
+
+/**
+ * Audit Admin Controller
+ *
+ * Read-only search over the audit log, and verification of its hash chain.
+ *
+ * GET /api/v1/admin/audit-logs
+ * GET /api/v1/admin/audit-logs/verify
+ * GET /api/v1/admin/audit-logs/:resource/:resourceId
+ */
+@Controller('admin/audit-logs')
+@UseGuards(JwtAuthGuard, RolesGuard)
+@Roles(UserRole.ADMIN)
+export class AuditAdminController {
+  constructor(private readonly auditService: AuditService) {}
+
+  /**
+   * Search audit entries, most recent first
+   * GET /api/v1/admin/audit-logs
+   */
+  @Get()
+  async search(
+    @Query() query: AuditLogQueryDto,
+    @Headers('x-correlation-id') correlationId?: string,
+  ): Promise<PaginatedResponse<AuditLogEntryDto>> {
+    const result = await this.auditService.getAuditLogs({
+      userId: query.actorId,
+      resource: query.resource,
+      resourceId: query.resourceId,
+      action: query.action,
+      eventType: query.eventType,
+      startDate: query.from ? new Date(query.from) : undefined,
+      endDate: query.to ? endOfRange(query.to) : undefined,
+      page: query.page,
+      limit: query.limit,
+    });
+
+    return ApiResponse.paginated(
+      result.items.map(toAuditLogEntryDto),
+      {
+        page: result.page,
+        limit: result.limit,
+        total: result.total,
+        totalPages: result.totalPages,
+        hasNextPage: result.hasNextPage,
+        hasPreviousPage: result.hasPreviousPage,
+      },
+      'Audit logs retrieved successfully',
+      correlationId,
+    );
+  }
+
+  /**
+   * Walk the hash chain and report the first broken link
+   * GET /api/v1/admin/audit-logs/verify
+   *
+   * A broken chain is still a 200: the report is the result.
+   */
+  @Get('verify')
+  async verify(
+    @Headers('x-correlation-id') correlationId?: string,
+  ): Promise<ApiResponse<AuditChainVerificationDto>> {
+    const verification = await this.auditService.verifyChain(correlationId);
+    return ApiResponse.success(
+      toAuditChainVerificationDto(verification),
+      verification.valid ? 'Audit chain intact' : 'Audit chain broken',
+    );
+  }
+
+  /**
+   * Everything recorded about one resource, most recent first
+   * GET /api/v1/admin/audit-logs/:resource/:resourceId
+   */
+  @Get(':resource/:resourceId')
+  async getResourceTrail(
+    @Param('resource') resource: string,
+    @Param('resourceId') resourceId: string,
+  ): Promise<ApiResponse<AuditLogEntryDto[]>> {
+    const entries = await this.auditService.getResourceAuditTrail(resource, resourceId);
+    return ApiResponse.success(
+      entries.map(toAuditLogEntryDto),
+      'Audit trail retrieved successfully',
+    );
+  }
+}
+
+/**
+ * A bare date (2026-03-01) as "to" covers that whole day
+ */
+function endOfRange(value: string): Date {
+  const date = new Date(value);
+  if (/^\d{4}-\d{2}-\d{2}$/.test(value)) {
+    date.setUTCHours(23, 59, 59, 999);
+  }
+  return date;
+}
@@ -0,0 +1,34 @@
+import { Global, Module } from '@nestjs/common';
+import { APP_INTERCEPTOR } from '@nestjs/core';
+import { AuthModule } from '../auth/auth.module';
+import { AuditLogRepositoryProvider } from '../database/repository.providers';
+import { AuditAdminController } from './audit-admin.controller';
+import { AuditService } from './audit.service';
+import { DomainEventAuditHandler } from './domain-event-audit.handler';
+import { AuditInterceptor } from './interceptors/audit.interceptor';
+
+/**
+ * Audit Module
+ *
+ * Global so any module can inject AuditService without importing this module.
+ * DomainEventAuditHandler records every domain event, and AuditInterceptor
+ * (applied to every route) records calls to routes marked @Audited. Admins
+ * search the log through AuditAdminController.
+ *
+ * Repository Selection:
+ * - 'memory': InMemoryAuditLogRepository
+ * - 'prisma': PrismaAuditLogRepository
+ */
+@Global()
+@Module({
+  imports: [AuthModule],
+  controllers: [AuditAdminController],
+  providers: [
+    AuditService,
+    AuditLogRepositoryProvider,
+    DomainEventAuditHandler,
+    { provide: APP_INTERCEPTOR, useClass: AuditInterceptor },
+  ],
+  exports: [AuditService],
+})
+export class AuditModule {}
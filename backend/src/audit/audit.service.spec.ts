@@ -0,0 +1,269 @@
+import { AuditService } from './audit.service';
+import { DomainEventAuditHandler } from './domain-event-audit.handler';
+import { InMemoryAuditLogRepository } from './repositories/in-memory-audit-log.repository';
+import { AuditLogEntry, createAuditLogEntry, sealAuditLogEntry } from './domain';
+import { IAuditLogRepository } from './repositories';
+import { EventBus } from '../events/event-bus';
+import { InMemoryOutboxRepository } from '../events/repositories/in-memory-outbox.repository';
+import { createOrderConfirmedEvent } from '../order/domain';
+import { Money } from '../catalog/domain/money';
+
+/**
+ * Audit Service Tests
+ *
+ * Verifies:
+ * - Entries are persisted with actor, resource, metadata and correlation ID
+ * - Search filters combine, and results are paginated most recent first
+ * - Domain events are recorded with their event ID and correlation ID
+ * - Entries are hash-chained, and verification reports the first broken link
+ */
+describe('AuditService', () => {
+  let repository: InMemoryAuditLogRepository;
+  let service: AuditService;
+
+  beforeEach(() => {
+    repository = new InMemoryAuditLogRepository();
+    service = new AuditService(repository);
+  });
+
+  it('persists an entry for each logged event', async () => {
+    await service.logDataChange('admin-1', 'product', 'prod-1', 'update', {
+      price: { before: 10, after: 12 },
+    });
+    await service.logSecurityEvent('login_failed', { phoneNumber: '+919876543210' });
+
+    const { items, total } = await service.getAuditLogs();
+    expect(total).toBe(2);
+    expect(items).toEqual(
+      expect.arrayContaining([
+        expect.objectContaining({
+          actorId: 'admin-1',
+          action: 'product_update',
+          resource: 'product',
+          resourceId: 'prod-1',
+          eventType: 'data_change',
+          metadata: { changes: { price: { before: 10, after: 12 } } },
+        }),
+        expect.objectContaining({
+          actorId: 'system',
+          action: 'login_failed',
+          resource: 'security',
+          resourceId: null,
+          eventType: 'security',
+        }),
+      ]),
+    );
+  });
+
+  it('filters by actor, resource, action, event type and date range', async () => {
+    const at = (iso: string) => new Date(iso);
+    await repository.append(
+      createAuditLogEntry(
+        {
+          actorId: 'admin-1',
+          action: 'product_create',
+          resource: 'product',
+          resourceId: 'p1',
+          eventType: 'data_change',
+        },
+        at('2026-03-01T10:00:00Z'),
+      ),
+    );
+    await repository.append(
+      createAuditLogEntry(
+        {
+          actorId: 'admin-2',
+          action: 'product_update',
+          resource: 'product',
+          resourceId: 'p1',
+          eventType: 'data_change',
+        },
+        at('2026-03-02T10:00:00Z'),
+      ),
+    );
+    await repository.append(
+      createAuditLogEntry(
+        {
+          actorId: 'admin-1',
+          action: 'login',
+          resource: 'user',
+          resourceId: 'admin-1',
+          eventType: 'user_action',
+        },
+        at('2026-03-03T10:00:00Z'),
+      ),
+    );
+
+    const byActor = await service.getAuditLogs({ userId: 'admin-1' });
+    expect(byActor.items.map((entry) => entry.action)).toEqual(['login', 'product_create']);
+
+    const byResource = await service.getAuditLogs({
+      resource: 'product',
+      action: 'product_update',
+    });
+    expect(byResource.items).toHaveLength(1);
+    expect(byResource.items[0].actorId).toBe('admin-2');
+
+    const byType = await service.getAuditLogs({ eventType: 'user_action' });
+    expect(byType.total).toBe(1);
+
+    const byDate = await service.getAuditLogs({
+      startDate: at('2026-03-02T00:00:00Z'),
+      endDate: at('2026-03-02T23:59:59Z'),
+    });
+    expect(byDate.items.map((entry) => entry.action)).toEqual(['product_update']);
+
+    const trail = await service.getResourceAuditTrail('product', 'p1');
+    expect(trail.map((entry) => entry.action)).toEqual(['product_update', 'product_create']);
+  });
+
+  it('paginates most recent first', async () => {
+    for (let day = 1; day <= 5; day++) {
+      await repository.append(
+        createAuditLogEntry(
+          { actorId: 'system', action: `job_${day}`, resource: 'system', eventType: 'system' },
+          new Date(`2026-03-0${day}T00:00:00Z`),
+        ),
+      );
+    }
+
+    const second = await service.getAuditLogs({ page: 2, limit: 2 });
+    expect(second.items.map((entry) => entry.action)).toEqual(['job_3', 'job_2']);
+    expect(second).toMatchObject({
+      total: 5,
+      page: 2,
+      limit: 2,
+      totalPages: 3,
+      hasNextPage: true,
+      hasPreviousPage: true,
+    });
+  });
+
+  it('records domain events with their event ID and correlation ID', async () => {
+    const handler = new DomainEventAuditHandler(
+      new EventBus(new InMemoryOutboxRepository()),
+      service,
+    );
+    const event = {
+      ...createOrderConfirmedEvent({
+        orderId: 'order-1',
+        userId: 'user-1',
+        total: Money.fromMajorUnits(100, 'INR'),
+        items: [],
+      }),
+      correlationId: 'corr-1',
+    };
+
+    await handler.handle(event, { eventId: 'event-1', attempt: 1 });
+
+    const [entry] = await service.getResourceAuditTrail('domain_event', 'event-1');
+    expect(entry).toMatchObject({
+      actorId: 'user-1',
+      action: event.type,
+      correlationId: 'corr-1',
+    });
+    expect(entry.metadata).toMatchObject({ orderId: 'order-1' });
+  });
+
+  describe('hash chain', () => {
+    /** Chain of `count` entries, as the repository would have stored them */
+    function buildChain(count: number): AuditLogEntry[] {
+      const chain: AuditLogEntry[] = [];
+      for (let i = 1; i <= count; i++) {
+        const entry = createAuditLogEntry(
+          {
+            actorId: 'admin-1',
+            action: 'prescription_approve',
+            resource: 'prescription',
+            resourceId: `rx-${i}`,
+            eventType: 'user_action',
+            metadata: { outcome: 'success', params: { id: `rx-${i}` } },
+          },
+          new Date(`2026-03-0${i}T00:00:00Z`),
+        );
+        chain.push(sealAuditLogEntry(entry, chain[chain.length - 1] ?? null));
+      }
+      return chain;
+    }
+
+    function serviceOver(chain: AuditLogEntry[]): AuditService {
+      const stored: Pick<IAuditLogRepository, 'findChainAfter'> = {
+        findChainAfter: async (afterSequence, limit) =>
+          chain.filter((entry) => entry.sequence > afterSequence).slice(0, limit),
+      };
+      return new AuditService(stored as IAuditLogRepository);
+    }
+
+    it('chains each appended entry to the one before it', async () => {
+      await service.logSystemEvent('job_1', {});
+      await service.logSystemEvent('job_2', {});
+
+      const {
+        items: [second, first],
+      } = await service.getAuditLogs();
+      expect(first).toMatchObject({ sequence: 1, prevHash: null });
+      expect(second).toMatchObject({ sequence: 2, prevHash: first.hash });
+      expect(first.hash).toMatch(/^[0-9a-f]{64}$/);
+
+      await expect(service.verifyChain()).resolves.toMatchObject({
+        valid: true,
+        entriesChecked: 2,
+        lastVerifiedSequence: 2,
+        lastVerifiedHash: second.hash,
+        firstBreak: null,
+      });
+    });
+
+    it('reports an edited entry', async () => {
+      const chain = buildChain(3);
+      chain[1] = { ...chain[1], actorId: 'admin-2' };
+
+      const verification = await serviceOver(chain).verifyChain();
+
+      expect(verification).toMatchObject({
+        valid: false,
+        entriesChecked: 1,
+        lastVerifiedSequence: 1,
+        firstBreak: { sequence: 2, entryId: chain[1].id, reason: 'hash_mismatch' },
+      });
+    });
+
+    it('reports an edited entry whose hash was recomputed', async () => {
+      const chain = buildChain(3);
+      const originalHash = chain[1].hash;
+      chain[1] = sealAuditLogEntry({ ...chain[1], actorId: 'admin-2' }, chain[0]);
+
+      const verification = await serviceOver(chain).verifyChain();
+
+      expect(verification.firstBreak).toMatchObject({
+        sequence: 3,
+        reason: 'prev_hash_mismatch',
+        expected: chain[1].hash,
+        actual: originalHash,
+      });
+    });
+
+    it('reports a removed entry', async () => {
+      const chain = buildChain(3);
+      chain.splice(1, 1);
+
+      const verification = await serviceOver(chain).verifyChain();
+
+      expect(verification.firstBreak).toMatchObject({
+        sequence: 3,
+        reason: 'sequence_gap',
+        expected: 2,
+        actual: 3,
+      });
+    });
+
+    it('hashes metadata independently of key order', async () => {
+      const [entry] = buildChain(1);
+      const reordered = { ...entry, metadata: { params: { id: 'rx-1' }, outcome: 'success' } };
+
+      const verification = await serviceOver([reordered]).verifyChain();
+
+      expect(verification.valid).toBe(true);
+    });
+  });
+});
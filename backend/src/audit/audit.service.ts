@@ -1,11 +1,38 @@
-import { Injectable } from '@nestjs/common';
+import { Inject, Injectable } from '@nestjs/common';
+import { logWithCorrelation } from '../common/logging/logger';
+import {
+  AuditChainBreak,
+  AuditEventType,
+  AuditLogEntry,
+  SYSTEM_ACTOR,
+  createAuditLogEntry,
+  findAuditChainBreak,
+} from './domain';
+import { AUDIT_LOG_REPOSITORY, IAuditLogRepository } from './repositories';
+
+/** Page size when the caller gives none */
+const DEFAULT_LIMIT = 50;
+const MAX_LIMIT = 200;
+
+/** Entries returned by getResourceAuditTrail */
+const TRAIL_LIMIT = 500;
+
+/** Entries read per query while verifying the chain */
+const VERIFY_BATCH_SIZE = 500;
 
 /**
  * Audit Service
  *
  * Handles audit logging for compliance and debugging.
  * This is a cross-cutting service available to other modules.
- * Currently contains placeholder implementations.
+ *
+ * Entries are written to the append-only audit log (audit_logs). A failed
+ * write is thrown to the caller, which decides what it means: direct callers
+ * (e.g. catalog admin) fail the operation, event handlers retry, and
+ * AuditInterceptor logs it at ERROR and still returns the handler's result.
+ *
+ * Entries are hash-chained; verifyChain() proves the log has not been
+ * edited or had entries removed since they were written.
  *
  * Audit events include:
  * - User actions (login, logout, profile updates)
@@ -15,17 +42,31 @@ import { Injectable } from '@nestjs/common';
  */
 @Injectable()
 export class AuditService {
+  constructor(
+    @Inject(AUDIT_LOG_REPOSITORY)
+    private readonly auditLogRepository: IAuditLogRepository,
+  ) {}
+
   /**
    * Log an audit event
    */
   async log(event: AuditEvent): Promise<void> {
-    // TODO: Implement with database/logging service
-    console.log(`[AUDIT] ${event.action}`, {
-      userId: event.userId,
-      resource: event.resource,
-      resourceId: event.resourceId,
-      timestamp: new Date().toISOString(),
-      metadata: event.metadata,
+    const entry = await this.auditLogRepository.append(
+      createAuditLogEntry({
+        actorId: event.userId,
+        action: event.action,
+        resource: event.resource,
+        resourceId: event.resourceId,
+        eventType: event.eventType,
+        metadata: event.metadata,
+        correlationId: event.correlationId,
+      }),
+    );
+    logWithCorrelation('INFO', entry.correlationId ?? entry.id, 'Audit', 'AuditService', {
+      action: entry.action,
+      actorId: entry.actorId,
+      resource: entry.resource,
+      resourceId: entry.resourceId,
     });
   }
 
@@ -56,6 +97,7 @@ export class AuditService {
     resourceId: string,
     action: 'create' | 'update' | 'delete',
     changes?: Record<string, unknown>,
+    correlationId?: string,
   ): Promise<void> {
     await this.log({
       userId,
@@ -64,6 +106,7 @@ export class AuditService {
       resourceId,
       eventType: 'data_change',
       metadata: { changes },
+      correlationId,
     });
   }
 
@@ -76,7 +119,7 @@ export class AuditService {
     userId?: string,
   ): Promise<void> {
     await this.log({
-      userId: userId || 'system',
+      userId: userId || SYSTEM_ACTOR,
       action,
       resource: 'security',
       eventType: 'security',
@@ -89,7 +132,7 @@ export class AuditService {
    */
   async logSystemEvent(action: string, details: Record<string, unknown>): Promise<void> {
     await this.log({
-      userId: 'system',
+      userId: SYSTEM_ACTOR,
       action,
       resource: 'system',
       eventType: 'system',
@@ -98,44 +141,154 @@ export class AuditService {
   }
 
   /**
-   * Get audit logs with filters
+   * Get audit logs with filters, most recent first
    */
-  async getAuditLogs(filters: AuditLogFilters): Promise<unknown[]> {
-    // TODO: Implement with database
-    return [];
+  async getAuditLogs(filters: AuditLogFilters = {}): Promise<AuditLogPage> {
+    const page = Math.max(1, filters.page ?? 1);
+    const limit = Math.min(MAX_LIMIT, Math.max(1, filters.limit ?? DEFAULT_LIMIT));
+
+    const { items, total } = await this.auditLogRepository.search({
+      actorId: filters.userId,
+      resource: filters.resource,
+      resourceId: filters.resourceId,
+      action: filters.action,
+      eventType: filters.eventType,
+      from: filters.startDate,
+      to: filters.endDate,
+      offset: (page - 1) * limit,
+      limit,
+    });
+
+    const totalPages = Math.ceil(total / limit) || 1;
+    return {
+      items,
+      total,
+      page,
+      limit,
+      totalPages,
+      hasNextPage: page < totalPages,
+      hasPreviousPage: page > 1,
+    };
+  }
+
+  /**
+   * Get audit logs for a specific resource, most recent first
+   */
+  async getResourceAuditTrail(resource: string, resourceId: string): Promise<AuditLogEntry[]> {
+    const { items } = await this.auditLogRepository.search({
+      resource,
+      resourceId,
+      offset: 0,
+      limit: TRAIL_LIMIT,
+    });
+    return items;
   }
 
   /**
-   * Get audit logs for a specific resource
+   * Walk the hash chain from the first entry and stop at the first broken link
    */
-  async getResourceAuditTrail(resource: string, resourceId: string): Promise<unknown[]> {
-    // TODO: Implement with database
-    return [];
+  async verifyChain(correlationId?: string): Promise<AuditChainVerification> {
+    let previous: AuditLogEntry | null = null;
+    let entriesChecked = 0;
+    let firstBreak: AuditChainBreak | null = null;
+
+    while (!firstBreak) {
+      const batch = await this.auditLogRepository.findChainAfter(
+        previous?.sequence ?? 0,
+        VERIFY_BATCH_SIZE,
+      );
+      for (const entry of batch) {
+        firstBreak = findAuditChainBreak(entry, previous);
+        if (firstBreak) {
+          break;
+        }
+        previous = entry;
+        entriesChecked++;
+      }
+      if (batch.length < VERIFY_BATCH_SIZE) {
+        break;
+      }
+    }
+
+    const verification: AuditChainVerification = {
+      valid: firstBreak === null,
+      entriesChecked,
+      lastVerifiedSequence: previous?.sequence ?? null,
+      lastVerifiedHash: previous?.hash ?? null,
+      firstBreak,
+      verifiedAt: new Date(),
+    };
+
+    logWithCorrelation(
+      firstBreak ? 'ERROR' : 'INFO',
+      correlationId ?? 'audit-verify',
+      firstBreak ? 'Audit chain broken' : 'Audit chain verified',
+      'AuditService',
+      { entriesChecked, lastVerifiedSequence: verification.lastVerifiedSequence, firstBreak },
+    );
+    return verification;
   }
 }
 
 /**
  * Audit event structure
  */
-interface AuditEvent {
+export interface AuditEvent {
+  /** Acting user, or 'system' */
   userId: string;
   action: string;
   resource: string;
   resourceId?: string;
-  eventType: 'user_action' | 'data_change' | 'security' | 'system';
+  eventType: AuditEventType;
   metadata?: Record<string, unknown>;
+  correlationId?: string;
 }
 
 /**
  * Filters for querying audit logs
  */
-interface AuditLogFilters {
+export interface AuditLogFilters {
+  /** Acting user */
   userId?: string;
   resource?: string;
+  resourceId?: string;
   action?: string;
-  eventType?: string;
+  eventType?: AuditEventType;
+  /** Inclusive */
   startDate?: Date;
+  /** Inclusive */
   endDate?: Date;
   page?: number;
   limit?: number;
 }
+
+/**
+ * One page of audit log entries
+ */
+export interface AuditLogPage {
+  items: AuditLogEntry[];
+  total: number;
+  page: number;
+  limit: number;
+  totalPages: number;
+  hasNextPage: boolean;
+  hasPreviousPage: boolean;
+}
+
+/**
+ * Outcome of walking the audit hash chain
+ */
+export interface AuditChainVerification {
+  valid: boolean;
+  /** Entries whose links held, from the start of the chain */
+  entriesChecked: number;
+  /**
+   * Last entry whose link held. Keep these from each run: a later run ending
+   * before this sequence means entries were removed from the end.
+   */
+  lastVerifiedSequence: number | null;
+  lastVerifiedHash: string | null;
+  /** First link that did not hold; null when the chain is intact */
+  firstBreak: AuditChainBreak | null;
+  verifiedAt: Date;
+}
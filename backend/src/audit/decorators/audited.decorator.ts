@@ -0,0 +1,21 @@
+import { SetMetadata } from '@nestjs/common';
+
+export const AUDITED_KEY = 'audited';
+
+export interface AuditedRoute {
+  resource: string;
+  action: string;
+}
+
+/**
+ * Decorator to record every call to a route in the audit log
+ *
+ * AuditInterceptor (registered globally by AuditModule) records the acting
+ * user, route params, the request body with secrets redacted, the outcome
+ * and the correlation ID. The entry's action is `${resource}_${action}`.
+ *
+ * Usage:
+ *   @Audited('prescription', 'approve')
+ */
+export const Audited = (resource: string, action: string) =>
+  SetMetadata(AUDITED_KEY, { resource, action } satisfies AuditedRoute);
@@ -0,0 +1,44 @@
+import { Injectable, OnModuleInit } from '@nestjs/common';
+import { EventBus } from '../events/event-bus';
+import {
+  ALL_EVENTS,
+  DomainEventHandler,
+  EventHandlingContext,
+} from '../events/domain-event-handler.interface';
+import { DomainEvent } from '../events/domain';
+import { AuditService } from './audit.service';
+import { SYSTEM_ACTOR } from './domain';
+
+/**
+ * Domain Event Audit Handler
+ *
+ * Records every domain event in the audit log.
+ */
+@Injectable()
+export class DomainEventAuditHandler implements DomainEventHandler, OnModuleInit {
+  readonly name = 'audit';
+  readonly eventTypes = [ALL_EVENTS];
+
+  constructor(
+    private readonly eventBus: EventBus,
+    private readonly auditService: AuditService,
+  ) {}
+
+  onModuleInit(): void {
+    this.eventBus.subscribe(this);
+  }
+
+  async handle(event: DomainEvent, context: EventHandlingContext): Promise<void> {
+    const { type, occurredAt, correlationId, ...data } = event as DomainEvent &
+      Record<string, unknown>;
+    await this.auditService.log({
+      userId: typeof data.userId === 'string' ? data.userId : SYSTEM_ACTOR,
+      action: type,
+      resource: 'domain_event',
+      resourceId: context.eventId,
+      eventType: 'data_change',
+      metadata: { ...data, occurredAt: occurredAt.toISOString() },
+      correlationId,
+    });
+  }
+}
@@ -0,0 +1,129 @@
+import { createHash } from 'crypto';
+import { AuditLogEntry, UnsealedAuditLogEntry } from './audit-log-entry';
+
+/**
+ * Audit Hash Chain
+ *
+ * Every entry stores the hash of the entry before it, and its own hash covers
+ * that link. Editing an entry changes its hash; deleting or reordering one
+ * breaks the sequence or the next entry's prevHash. Verification walks the
+ * chain from the first entry and stops at the first link that does not hold.
+ *
+ * Removing entries from the end of the chain leaves a valid, shorter chain;
+ * comparing the last verified sequence and hash against an earlier
+ * verification (or an export) catches that.
+ */
+
+/**
+ * Why a link failed verification
+ * - sequence_gap: the sequence does not follow the previous entry's (an entry was removed)
+ * - prev_hash_mismatch: prevHash is not the previous entry's hash
+ * - hash_mismatch: the entry's content no longer matches its hash (it was edited)
+ */
+export type AuditChainBreakReason = 'sequence_gap' | 'prev_hash_mismatch' | 'hash_mismatch';
+
+export interface AuditChainBreak {
+  readonly sequence: number;
+  readonly entryId: string;
+  readonly reason: AuditChainBreakReason;
+  readonly expected: string | number | null;
+  readonly actual: string | number | null;
+}
+
+/**
+ * Add an entry to the chain after `previous` (null for the first entry)
+ */
+export function sealAuditLogEntry(
+  entry: UnsealedAuditLogEntry,
+  previous: AuditLogEntry | null,
+): AuditLogEntry {
+  const sequence = previous ? previous.sequence + 1 : 1;
+  const prevHash = previous ? previous.hash : null;
+  return { ...entry, sequence, prevHash, hash: hashAuditLogEntry(entry, sequence, prevHash) };
+}
+
+/**
+ * Check one link: `entry` against the entry stored before it
+ *
+ * @returns The break, or null if the link holds
+ */
+export function findAuditChainBreak(
+  entry: AuditLogEntry,
+  previous: AuditLogEntry | null,
+): AuditChainBreak | null {
+  const link = (
+    reason: AuditChainBreakReason,
+    expected: string | number | null,
+    actual: string | number | null,
+  ) => ({
+    sequence: entry.sequence,
+    entryId: entry.id,
+    reason,
+    expected,
+    actual,
+  });
+
+  const expectedSequence = previous ? previous.sequence + 1 : 1;
+  if (entry.sequence !== expectedSequence) {
+    return link('sequence_gap', expectedSequence, entry.sequence);
+  }
+
+  const expectedPrevHash = previous ? previous.hash : null;
+  if (entry.prevHash !== expectedPrevHash) {
+    return link('prev_hash_mismatch', expectedPrevHash, entry.prevHash);
+  }
+
+  const expectedHash = hashAuditLogEntry(entry, entry.sequence, entry.prevHash);
+  if (entry.hash !== expectedHash) {
+    return link('hash_mismatch', expectedHash, entry.hash);
+  }
+
+  return null;
+}
+
+// ==========================================================================
+// Private Helpers
+// ==========================================================================
+
+function hashAuditLogEntry(
+  entry: UnsealedAuditLogEntry,
+  sequence: number,
+  prevHash: string | null,
+): string {
+  const content = canonicalJson({
+    sequence,
+    prevHash,
+    id: entry.id,
+    actorId: entry.actorId,
+    action: entry.action,
+    resource: entry.resource,
+    resourceId: entry.resourceId,
+    eventType: entry.eventType,
+    metadata: entry.metadata,
+    correlationId: entry.correlationId,
+    createdAt: entry.createdAt.toISOString(),
+  });
+  return createHash('sha256').update(content).digest('hex');
+}
+
+/**
+ * JSON with object keys sorted, so an entry hashes the same after a round
+ * trip through the database (jsonb does not keep key order)
+ */
+function canonicalJson(value: unknown): string {
+  return JSON.stringify(sortKeys(JSON.parse(JSON.stringify(value ?? null))));
+}
+
+function sortKeys(value: unknown): unknown {
+  if (Array.isArray(value)) {
+    return value.map(sortKeys);
+  }
+  if (value !== null && typeof value === 'object') {
+    return Object.fromEntries(
+      Object.keys(value)
+        .sort()
+        .map((key) => [key, sortKeys((value as Record<string, unknown>)[key])]),
+    );
+  }
+  return value;
+}
@@ -0,0 +1,84 @@
+import { randomUUID } from 'crypto';
+
+/**
+ * Kind of audited activity
+ */
+export type AuditEventType = 'user_action' | 'data_change' | 'security' | 'system';
+
+export const AUDIT_EVENT_TYPES: readonly AuditEventType[] = [
+  'user_action',
+  'data_change',
+  'security',
+  'system',
+];
+
+/** Actor recorded for work not done on behalf of a user */
+export const SYSTEM_ACTOR = 'system';
+
+/** Actor recorded for an unauthenticated request */
+export const ANONYMOUS_ACTOR = 'anonymous';
+
+/**
+ * Audit Log Entry
+ *
+ * One audited action: who did what to which resource, and when. Entries are
+ * append-only: nothing updates or deletes them, so the log can be relied on
+ * for prescription and payment compliance reviews.
+ *
+ * Each stored entry is sealed into a hash chain (see audit-chain.ts), so an
+ * edited, removed or reordered entry is detectable.
+ */
+export interface AuditLogEntry extends UnsealedAuditLogEntry {
+  /** Position in the chain, from 1 with no gaps */
+  readonly sequence: number;
+  /** hash of the entry before this one; null for the first */
+  readonly prevHash: string | null;
+  /** SHA-256 (hex) of this entry's content, sequence and prevHash */
+  readonly hash: string;
+}
+
+/**
+ * Entry content before it is appended to the chain
+ */
+export interface UnsealedAuditLogEntry {
+  readonly id: string;
+  /** User ID, SYSTEM_ACTOR or ANONYMOUS_ACTOR */
+  readonly actorId: string;
+  /** What happened, e.g. product_update or PrescriptionApproved */
+  readonly action: string;
+  /** Kind of thing acted on, e.g. product, prescription, domain_event */
+  readonly resource: string;
+  readonly resourceId: string | null;
+  readonly eventType: AuditEventType;
+  readonly metadata: Readonly<Record<string, unknown>> | null;
+  /** Request or event correlation ID, to join the entry with application logs */
+  readonly correlationId: string | null;
+  readonly createdAt: Date;
+}
+
+export interface NewAuditLogEntry {
+  actorId: string;
+  action: string;
+  resource: string;
+  resourceId?: string | null;
+  eventType: AuditEventType;
+  metadata?: Record<string, unknown> | null;
+  correlationId?: string | null;
+}
+
+export function createAuditLogEntry(
+  data: NewAuditLogEntry,
+  now: Date = new Date(),
+): UnsealedAuditLogEntry {
+  return {
+    id: randomUUID(),
+    actorId: data.actorId,
+    action: data.action,
+    resource: data.resource,
+    resourceId: data.resourceId ?? null,
+    eventType: data.eventType,
+    metadata: data.metadata ?? null,
+    correlationId: data.correlationId ?? null,
+    createdAt: now,
+  };
+}
@@ -0,0 +1,16 @@
+export {
+  type AuditEventType,
+  type AuditLogEntry,
+  type UnsealedAuditLogEntry,
+  type NewAuditLogEntry,
+  AUDIT_EVENT_TYPES,
+  SYSTEM_ACTOR,
+  ANONYMOUS_ACTOR,
+  createAuditLogEntry,
+} from './audit-log-entry';
+export {
+  type AuditChainBreak,
+  type AuditChainBreakReason,
+  sealAuditLogEntry,
+  findAuditChainBreak,
+} from './audit-chain';
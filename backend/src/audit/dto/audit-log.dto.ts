@@ -0,0 +1,119 @@
+import { Type } from 'class-transformer';
+import {
+  IsDateString,
+  IsIn,
+  IsInt,
+  IsOptional,
+  IsString,
+  Max,
+  MaxLength,
+  Min,
+} from 'class-validator';
+import { AuditChainVerification } from '../audit.service';
+import { AUDIT_EVENT_TYPES, AuditChainBreak, AuditEventType, AuditLogEntry } from '../domain';
+
+/**
+ * Audit Log DTOs
+ *
+ * API request/response shapes for the admin audit log search.
+ */
+
+/**
+ * Query parameters for audit log search
+ */
+export class AuditLogQueryDto {
+  /** Acting user ID, or 'system' */
+  @IsOptional()
+  @IsString()
+  @MaxLength(100)
+  actorId?: string;
+
+  @IsOptional()
+  @IsString()
+  @MaxLength(100)
+  resource?: string;
+
+  @IsOptional()
+  @IsString()
+  @MaxLength(100)
+  resourceId?: string;
+
+  @IsOptional()
+  @IsString()
+  @MaxLength(100)
+  action?: string;
+
+  @IsOptional()
+  @IsIn(AUDIT_EVENT_TYPES)
+  eventType?: AuditEventType;
+
+  /** ISO 8601 date or date-time, inclusive */
+  @IsOptional()
+  @IsDateString()
+  from?: string;
+
+  /** ISO 8601 date or date-time, inclusive */
+  @IsOptional()
+  @IsDateString()
+  to?: string;
+
+  @IsOptional()
+  @IsInt()
+  @Min(1)
+  @Type(() => Number)
+  page: number = 1;
+
+  @IsOptional()
+  @IsInt()
+  @Min(1)
+  @Max(200)
+  @Type(() => Number)
+  limit: number = 50;
+}
+
+export interface AuditLogEntryDto {
+  id: string;
+  actorId: string;
+  action: string;
+  resource: string;
+  resourceId: string | null;
+  eventType: AuditEventType;
+  metadata: Record<string, unknown> | null;
+  correlationId: string | null;
+  createdAt: string; // ISO 8601 string
+  sequence: number;
+  prevHash: string | null;
+  hash: string;
+}
+
+export function toAuditLogEntryDto(entry: AuditLogEntry): AuditLogEntryDto {
+  return {
+    id: entry.id,
+    actorId: entry.actorId,
+    action: entry.action,
+    resource: entry.resource,
+    resourceId: entry.resourceId,
+    eventType: entry.eventType,
+    metadata: entry.metadata ? { ...entry.metadata } : null,
+    correlationId: entry.correlationId,
+    createdAt: entry.createdAt.toISOString(),
+    sequence: entry.sequence,
+    prevHash: entry.prevHash,
+    hash: entry.hash,
+  };
+}
+
+export interface AuditChainVerificationDto {
+  valid: boolean;
+  entriesChecked: number;
+  lastVerifiedSequence: number | null;
+  lastVerifiedHash: string | null;
+  firstBreak: AuditChainBreak | null;
+  verifiedAt: string; // ISO 8601 string
+}
+
+export function toAuditChainVerificationDto(
+  verification: AuditChainVerification,
+): AuditChainVerificationDto {
+  return { ...verification, verifiedAt: verification.verifiedAt.toISOString() };
+}
@@ -0,0 +1,7 @@
+export {
+  AuditLogQueryDto,
+  AuditLogEntryDto,
+  AuditChainVerificationDto,
+  toAuditLogEntryDto,
+  toAuditChainVerificationDto,
+} from './audit-log.dto';
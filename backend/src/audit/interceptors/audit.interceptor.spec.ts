@@ -0,0 +1,213 @@
+import { CallHandler, ExecutionContext } from '@nestjs/common';
+import { Reflector } from '@nestjs/core';
+import { lastValueFrom, of, throwError } from 'rxjs';
+import { AuditInterceptor } from './audit.interceptor';
+import { AuditService } from '../audit.service';
+import { Audited } from '../decorators/audited.decorator';
+import { ANONYMOUS_ACTOR } from '../domain';
+import { REDACTED } from '../redaction';
+import { InMemoryAuditLogRepository } from '../repositories/in-memory-audit-log.repository';
+import { PrescriptionNotFoundException } from '../../prescription/exceptions/prescription.exceptions';
+import { AuthUser, UserRole } from '../../auth/interfaces/auth-user.interface';
+
+/**
+ * Audit Interceptor Tests
+ *
+ * Verifies:
+ * - Calls to @Audited handlers are recorded with actor, route, params and body
+ * - Sensitive body fields are redacted
+ * - Failed calls are recorded with the error code and the error is rethrown
+ * - A failed audit write never changes the handler's outcome
+ * - Handlers without @Audited are not recorded
+ */
+class TestController {
+  @Audited('prescription', 'approve')
+  approve(): void {}
+
+  @Audited('user', 'create')
+  create(): void {}
+
+  list(): void {}
+}
+
+const admin: AuthUser = {
+  id: 'admin-1',
+  phoneNumber: '+919876543210',
+  email: null,
+  role: UserRole.ADMIN,
+  roles: [UserRole.ADMIN],
+};
+
+function httpContext(
+  handler: () => void,
+  request: Partial<{
+    user: AuthUser;
+    params: Record<string, string>;
+    body: unknown;
+    method: string;
+    path: string;
+    route: { path: string };
+  }>,
+): ExecutionContext {
+  const req = { headers: { 'x-correlation-id': 'corr-1' }, params: {}, method: 'POST', ...request };
+  return {
+    getType: () => 'http',
+    getHandler: () => handler,
+    switchToHttp: () => ({ getRequest: () => req }),
+  } as unknown as ExecutionContext;
+}
+
+function handlerReturning(value: unknown): CallHandler {
+  return { handle: () => of(value) };
+}
+
+function handlerThrowing(error: unknown): CallHandler {
+  return { handle: () => throwError(() => error) };
+}
+
+describe('AuditInterceptor', () => {
+  let repository: InMemoryAuditLogRepository;
+  let auditService: AuditService;
+  let interceptor: AuditInterceptor;
+
+  beforeEach(() => {
+    repository = new InMemoryAuditLogRepository();
+    auditService = new AuditService(repository);
+    interceptor = new AuditInterceptor(new Reflector(), auditService);
+  });
+
+  it('records a successful call with actor, route and params', async () => {
+    const context = httpContext(TestController.prototype.approve, {
+      user: admin,
+      params: { id: 'rx-1' },
+      body: { notes: 'Looks fine' },
+      route: { path: '/api/v1/admin/prescriptions/:id/approve' },
+    });
+
+    const result = await lastValueFrom(
+      interceptor.intercept(context, handlerReturning({ success: true })),
+    );
+
+    expect(result).toEqual({ success: true });
+    const { items } = await auditService.getAuditLogs();
+    expect(items).toHaveLength(1);
+    expect(items[0]).toMatchObject({
+      actorId: 'admin-1',
+      action: 'prescription_approve',
+      resource: 'prescription',
+      resourceId: 'rx-1',
+      eventType: 'user_action',
+      correlationId: 'corr-1',
+      metadata: {
+        outcome: 'success',
+        route: 'POST /api/v1/admin/prescriptions/:id/approve',
+        actorRole: UserRole.ADMIN,
+        params: { id: 'rx-1' },
+        body: { notes: 'Looks fine' },
+      },
+    });
+  });
+
+  it('takes the resource ID from the response when the route has no :id', async () => {
+    const context = httpContext(TestController.prototype.create, {
+      body: { phoneNumber: '+919876543210', password: 'hunter22' },
+      path: '/api/v1/users',
+    });
+
+    await lastValueFrom(
+      interceptor.intercept(context, handlerReturning({ success: true, data: { id: 'user-9' } })),
+    );
+
+    const { items } = await auditService.getAuditLogs();
+    expect(items[0]).toMatchObject({
+      actorId: ANONYMOUS_ACTOR,
+      resourceId: 'user-9',
+      metadata: {
+        route: 'POST /api/v1/users',
+        actorRole: null,
+        body: { phoneNumber: '+919876543210', password: REDACTED },
+      },
+    });
+  });
+
+  it('redacts sensitive keys without dropping look-alike fields', async () => {
+    const context = httpContext(TestController.prototype.create, {
+      body: {
+        newPassword: 'hunter22',
+        pin: '1234',
+        pincode: '560001',
+        shippingAddress: { line1: '12 MG Road', pincode: '560001' },
+      },
+      path: '/api/v1/users',
+    });
+
+    await lastValueFrom(interceptor.intercept(context, handlerReturning({ success: true })));
+
+    const { items } = await auditService.getAuditLogs();
+    expect(items[0].metadata).toMatchObject({
+      body: {
+        newPassword: REDACTED,
+        pin: REDACTED,
+        pincode: '560001',
+        shippingAddress: { line1: '12 MG Road', pincode: '560001' },
+      },
+    });
+  });
+
+  it('records a failed call and rethrows the original error', async () => {
+    const error = new PrescriptionNotFoundException('rx-404');
+    const context = httpContext(TestController.prototype.approve, {
+      user: admin,
+      params: { id: 'rx-404' },
+    });
+
+    await expect(
+      lastValueFrom(interceptor.intercept(context, handlerThrowing(error))),
+    ).rejects.toBe(error);
+
+    const { items } = await auditService.getAuditLogs();
+    expect(items[0]).toMatchObject({
+      resourceId: 'rx-404',
+      metadata: { outcome: 'failure', errorCode: 'PRESCRIPTION_NOT_FOUND', statusCode: 404 },
+    });
+  });
+
+  it('rethrows the original error when the audit entry cannot be written', async () => {
+    jest.spyOn(auditService, 'log').mockRejectedValue(new Error('database unavailable'));
+    const error = new Error('boom');
+    const context = httpContext(TestController.prototype.approve, { user: admin });
+
+    await expect(
+      lastValueFrom(interceptor.intercept(context, handlerThrowing(error))),
+    ).rejects.toBe(error);
+  });
+
+  it('returns the result and logs when the audit entry for a success cannot be written', async () => {
+    jest.spyOn(auditService, 'log').mockRejectedValue(new Error('database unavailable'));
+    const logSpy = jest.spyOn(console, 'log').mockImplementation(() => undefined);
+    const result = { success: true, data: { id: 'rx-1' } };
+    const context = httpContext(TestController.prototype.approve, {
+      user: admin,
+      params: { id: 'rx-1' },
+    });
+
+    await expect(
+      lastValueFrom(interceptor.intercept(context, handlerReturning(result))),
+    ).resolves.toBe(result);
+
+    expect(auditService.log).toHaveBeenCalledTimes(1);
+    const logged = logSpy.mock.calls.map((call) => String(call[0])).join('\n');
+    expect(logged).toContain('ERROR');
+    expect(logged).toContain('Audit entry could not be written');
+    logSpy.mockRestore();
+  });
+
+  it('does not record handlers without @Audited', async () => {
+    const context = httpContext(TestController.prototype.list, { user: admin });
+
+    await lastValueFrom(interceptor.intercept(context, handlerReturning([])));
+
+    const { total } = await auditService.getAuditLogs();
+    expect(total).toBe(0);
+  });
+});
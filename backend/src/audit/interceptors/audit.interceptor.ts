@@ -0,0 +1,138 @@
+import {
+  CallHandler,
+  ExecutionContext,
+  HttpException,
+  Injectable,
+  NestInterceptor,
+} from '@nestjs/common';
+import { Reflector } from '@nestjs/core';
+import { Request } from 'express';
+import { Observable, catchError, concatMap, from, map, throwError } from 'rxjs';
+import { AuthUser } from '../../auth/interfaces/auth-user.interface';
+import { BusinessException } from '../../common/exceptions/business.exception';
+import { getCorrelationId } from '../../common/interceptors/correlation-id.interceptor';
+import { logWithCorrelation } from '../../common/logging/logger';
+import { AuditService } from '../audit.service';
+import { AUDITED_KEY, AuditedRoute } from '../decorators/audited.decorator';
+import { ANONYMOUS_ACTOR } from '../domain';
+import { redactSensitive } from '../redaction';
+
+/**
+ * Audit Interceptor
+ *
+ * Records calls to routes marked @Audited. Guards run first, so the acting
+ * user is known; calls rejected by a guard never reach the handler and are
+ * not recorded here.
+ *
+ * The resource ID is the :id route param, or the `id` of the returned data
+ * for routes without one (e.g. creates).
+ *
+ * The entry is written before the response is sent. The handler's outcome
+ * always wins: if the entry cannot be written the failure is logged at ERROR
+ * and the handler's result is returned (or its error rethrown), since the
+ * change has already been made and failing the request would only invite a
+ * retry. Such a change is missing from the audit log; the ERROR log is the
+ * only record of it.
+ */
+@Injectable()
+export class AuditInterceptor implements NestInterceptor {
+  constructor(
+    private readonly reflector: Reflector,
+    private readonly auditService: AuditService,
+  ) {}
+
+  intercept(context: ExecutionContext, next: CallHandler): Observable<unknown> {
+    const route = this.reflector.get<AuditedRoute | undefined>(AUDITED_KEY, context.getHandler());
+    if (!route || context.getType() !== 'http') {
+      return next.handle();
+    }
+
+    const request = context.switchToHttp().getRequest<Request & { user?: AuthUser }>();
+
+    return next.handle().pipe(
+      concatMap((data) =>
+        from(this.recordSafely(route, request, { outcome: 'success' }, data)).pipe(map(() => data)),
+      ),
+      catchError((error: unknown) =>
+        from(this.recordSafely(route, request, { outcome: 'failure', ...describe(error) })).pipe(
+          concatMap(() => throwError(() => error)),
+        ),
+      ),
+    );
+  }
+
+  // ==========================================================================
+  // Private Helpers
+  // ==========================================================================
+
+  /**
+   * Records the call, logging rather than propagating a failed write
+   */
+  private async recordSafely(
+    route: AuditedRoute,
+    request: Request & { user?: AuthUser },
+    outcome: Record<string, unknown>,
+    data?: unknown,
+  ): Promise<void> {
+    try {
+      await this.record(route, request, outcome, data);
+    } catch (auditError) {
+      logWithCorrelation(
+        'ERROR',
+        getCorrelationId(request),
+        'Audit entry could not be written',
+        'AuditInterceptor',
+        {
+          action: `${route.resource}_${route.action}`,
+          outcome: outcome.outcome,
+          error: auditError instanceof Error ? auditError.message : String(auditError),
+        },
+      );
+    }
+  }
+
+  private async record(
+    route: AuditedRoute,
+    request: Request & { user?: AuthUser },
+    outcome: Record<string, unknown>,
+    data?: unknown,
+  ): Promise<void> {
+    const params = { ...request.params };
+    await this.auditService.log({
+      userId: request.user?.id ?? ANONYMOUS_ACTOR,
+      action: `${route.resource}_${route.action}`,
+      resource: route.resource,
+      resourceId: params.id ?? resultId(data),
+      eventType: 'user_action',
+      metadata: {
+        ...outcome,
+        route: `${request.method} ${request.route?.path ?? request.path}`,
+        actorRole: request.user?.role ?? null,
+        params,
+        body: redactSensitive(request.body ?? null),
+      },
+      correlationId: getCorrelationId(request),
+    });
+  }
+}
+
+/**
+ * Error code and status as the client sees them (see GlobalExceptionFilter)
+ */
+function describe(error: unknown): { errorCode: string; statusCode: number } {
+  if (error instanceof BusinessException) {
+    return { errorCode: error.errorCode, statusCode: error.getStatus() };
+  }
+  if (error instanceof HttpException) {
+    return { errorCode: 'HTTP_ERROR', statusCode: error.getStatus() };
+  }
+  return { errorCode: 'INTERNAL_ERROR', statusCode: 500 };
+}
+
+/**
+ * `id` of an ApiResponse's data, if it has one
+ */
+function resultId(result: unknown): string | undefined {
+  const data = (result as { data?: { id?: unknown } } | null)?.data;
+  return typeof data?.id === 'string' ? data.id : undefined;
+}
@@ -0,0 +1,34 @@
+/** Shown in place of a redacted value */
+export const REDACTED = '[REDACTED]';
+
+/**
+ * Field names whose values never reach the audit log. Short names are
+ * matched whole, so `pincode` or `shippingAddress` are kept.
+ */
+const SENSITIVE_KEY =
+  /^(pass|passcode|pin|otp|cvv)$|password|secret|token|api[-_]?key|credential|authorization/i;
+
+/** Nesting below this is dropped rather than walked */
+const MAX_DEPTH = 5;
+
+/**
+ * Copy of a request body safe to store: values of sensitive-looking keys
+ * are replaced with REDACTED, at any depth
+ */
+export function redactSensitive(value: unknown, depth = 0): unknown {
+  if (depth > MAX_DEPTH) {
+    return REDACTED;
+  }
+  if (Array.isArray(value)) {
+    return value.map((item) => redactSensitive(item, depth + 1));
+  }
+  if (value && typeof value === 'object' && !(value instanceof Date)) {
+    return Object.fromEntries(
+      Object.entries(value).map(([key, item]) => [
+        key,
+        SENSITIVE_KEY.test(key) ? REDACTED : redactSensitive(item, depth + 1),
+      ]),
+    );
+  }
+  return value;
+}
@@ -0,0 +1,47 @@
+import { AuditEventType, AuditLogEntry, UnsealedAuditLogEntry } from '../domain';
+
+/**
+ * Audit log search; every criterion is optional and they combine with AND
+ */
+export interface AuditLogQuery {
+  actorId?: string;
+  resource?: string;
+  resourceId?: string;
+  action?: string;
+  eventType?: AuditEventType;
+  /** Inclusive */
+  from?: Date;
+  /** Inclusive */
+  to?: Date;
+  offset: number;
+  limit: number;
+}
+
+export interface AuditLogSearchResult {
+  /** Most recent first */
+  items: AuditLogEntry[];
+  /** Matching entries across all pages */
+  total: number;
+}
+
+/**
+ * Audit Log Repository Interface
+ *
+ * Append-only: there is deliberately no update or delete.
+ */
+export interface IAuditLogRepository {
+  /**
+   * Seal the entry onto the end of the hash chain and store it. Appends are
+   * serialized, so two writers never chain onto the same entry.
+   */
+  append(entry: UnsealedAuditLogEntry): Promise<AuditLogEntry>;
+
+  search(query: AuditLogQuery): Promise<AuditLogSearchResult>;
+
+  /**
+   * Entries with a sequence above `afterSequence`, in chain order
+   */
+  findChainAfter(afterSequence: number, limit: number): Promise<AuditLogEntry[]>;
+}
+
+export const AUDIT_LOG_REPOSITORY = 'AUDIT_LOG_REPOSITORY';
@@ -0,0 +1,56 @@
+import { Injectable } from '@nestjs/common';
+import { AuditLogEntry, UnsealedAuditLogEntry, sealAuditLogEntry } from '../domain';
+import {
+  AuditLogQuery,
+  AuditLogSearchResult,
+  IAuditLogRepository,
+} from './audit-log-repository.interface';
+
+/**
+ * In-Memory Audit Log Repository
+ *
+ * Development and test implementation. Data resets on restart.
+ */
+@Injectable()
+export class InMemoryAuditLogRepository implements IAuditLogRepository {
+  private entries: AuditLogEntry[] = [];
+
+  async append(entry: UnsealedAuditLogEntry): Promise<AuditLogEntry> {
+    const sealed = sealAuditLogEntry(entry, this.entries[this.entries.length - 1] ?? null);
+    this.entries.push(sealed);
+    return sealed;
+  }
+
+  async search(query: AuditLogQuery): Promise<AuditLogSearchResult> {
+    const matching = this.entries
+      .filter((entry) => this.matches(entry, query))
+      .sort((a, b) => b.createdAt.getTime() - a.createdAt.getTime() || b.sequence - a.sequence);
+    return {
+      items: matching.slice(query.offset, query.offset + query.limit),
+      total: matching.length,
+    };
+  }
+
+  async findChainAfter(afterSequence: number, limit: number): Promise<AuditLogEntry[]> {
+    return this.entries.filter((entry) => entry.sequence > afterSequence).slice(0, limit);
+  }
+
+  /**
+   * Clear all entries (for testing)
+   */
+  clear(): void {
+    this.entries = [];
+  }
+
+  private matches(entry: AuditLogEntry, query: AuditLogQuery): boolean {
+    return (
+      (query.actorId === undefined || entry.actorId === query.actorId) &&
+      (query.resource === undefined || entry.resource === query.resource) &&
+      (query.resourceId === undefined || entry.resourceId === query.resourceId) &&
+      (query.action === undefined || entry.action === query.action) &&
+      (query.eventType === undefined || entry.eventType === query.eventType) &&
+      (query.from === undefined || entry.createdAt >= query.from) &&
+      (query.to === undefined || entry.createdAt <= query.to)
+    );
+  }
+}
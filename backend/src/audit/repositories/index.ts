@@ -0,0 +1,8 @@
+export {
+  AUDIT_LOG_REPOSITORY,
+  IAuditLogRepository,
+  AuditLogQuery,
+  AuditLogSearchResult,
+} from './audit-log-repository.interface';
+export { InMemoryAuditLogRepository } from './in-memory-audit-log.repository';
+export { PrismaAuditLogRepository } from './prisma-audit-log.repository';
@@ -0,0 +1,104 @@
+import { Injectable } from '@nestjs/common';
+import { AuditLog as PrismaAuditLog, Prisma } from '@prisma/client';
+import { PrismaService } from '../../database/prisma.service';
+import { AuditEventType, AuditLogEntry, UnsealedAuditLogEntry, sealAuditLogEntry } from '../domain';
+import {
+  AuditLogQuery,
+  AuditLogSearchResult,
+  IAuditLogRepository,
+} from './audit-log-repository.interface';
+
+/** Advisory lock key held while an entry is chained; any constant works */
+const AUDIT_CHAIN_LOCK = 4_210_001;
+
+/**
+ * Prisma Audit Log Repository
+ *
+ * Only inserts and reads; the application never updates or deletes rows.
+ *
+ * Appends take a transaction-scoped advisory lock, so instances chain one at
+ * a time; the unique sequence is a backstop if the lock is ever bypassed.
+ */
+@Injectable()
+export class PrismaAuditLogRepository implements IAuditLogRepository {
+  constructor(private readonly prisma: PrismaService) {}
+
+  async append(entry: UnsealedAuditLogEntry): Promise<AuditLogEntry> {
+    const created = await this.prisma.getClient().$transaction(async (tx) => {
+      await tx.$executeRaw`SELECT pg_advisory_xact_lock(${AUDIT_CHAIN_LOCK})`;
+
+      const last = await tx.auditLog.findFirst({ orderBy: { sequence: 'desc' } });
+      const sealed = sealAuditLogEntry(entry, last ? this.toDomain(last) : null);
+
+      return tx.auditLog.create({
+        data: {
+          id: sealed.id,
+          sequence: sealed.sequence,
+          actorId: sealed.actorId,
+          action: sealed.action,
+          resource: sealed.resource,
+          resourceId: sealed.resourceId,
+          eventType: sealed.eventType,
+          metadata: (sealed.metadata as Prisma.InputJsonObject | null) ?? Prisma.JsonNull,
+          correlationId: sealed.correlationId,
+          createdAt: sealed.createdAt,
+          prevHash: sealed.prevHash,
+          hash: sealed.hash,
+        },
+      });
+    });
+    return this.toDomain(created);
+  }
+
+  async search(query: AuditLogQuery): Promise<AuditLogSearchResult> {
+    const where: Prisma.AuditLogWhereInput = {
+      actorId: query.actorId,
+      resource: query.resource,
+      resourceId: query.resourceId,
+      action: query.action,
+      eventType: query.eventType,
+      createdAt: query.from || query.to ? { gte: query.from, lte: query.to } : undefined,
+    };
+
+    const [items, total] = await Promise.all([
+      this.prisma.auditLog.findMany({
+        where,
+        orderBy: [{ createdAt: 'desc' }, { sequence: 'desc' }],
+        skip: query.offset,
+        take: query.limit,
+      }),
+      this.prisma.auditLog.count({ where }),
+    ]);
+    return { items: items.map((entry) => this.toDomain(entry)), total };
+  }
+
+  async findChainAfter(afterSequence: number, limit: number): Promise<AuditLogEntry[]> {
+    const entries = await this.prisma.auditLog.findMany({
+      where: { sequence: { gt: afterSequence } },
+      orderBy: { sequence: 'asc' },
+      take: limit,
+    });
+    return entries.map((entry) => this.toDomain(entry));
+  }
+
+  // ==========================================================================
+  // Private Helpers
+  // ==========================================================================
+
+  private toDomain(entry: PrismaAuditLog): AuditLogEntry {
+    return {
+      id: entry.id,
+      actorId: entry.actorId,
+      action: entry.action,
+      resource: entry.resource,
+      resourceId: entry.resourceId,
+      eventType: entry.eventType as AuditEventType,
+      metadata: entry.metadata as Record<string, unknown> | null,
+      correlationId: entry.correlationId,
+      createdAt: entry.createdAt,
+      sequence: entry.sequence,
+      prevHash: entry.prevHash,
+      hash: entry.hash,
+    };
+  }
+}
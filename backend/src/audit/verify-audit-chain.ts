@@ -0,0 +1,45 @@
+import { Module } from '@nestjs/common';
+import { ConfigModule } from '@nestjs/config';
+import { NestFactory } from '@nestjs/core';
+import { DatabaseModule } from '../database/database.module';
+import { AuditService } from './audit.service';
+import { AUDIT_LOG_REPOSITORY, PrismaAuditLogRepository } from './repositories';
+
+/**
+ * Audit Chain Verification Script
+ *
+ * Walks the audit_logs hash chain and prints the result as JSON. Exits 1 if
+ * a link is broken, so it can run from cron or CI.
+ *
+ * Usage:
+ *   npm run audit:verify
+ *   node dist/audit/verify-audit-chain.js   (production build)
+ *
+ * Reads DATABASE_URL from the environment or .env; the in-memory audit log
+ * does not outlive the application, so there is nothing to verify without it.
+ */
+@Module({
+  imports: [ConfigModule.forRoot({ envFilePath: ['.env.local', '.env'] }), DatabaseModule],
+  providers: [AuditService, { provide: AUDIT_LOG_REPOSITORY, useClass: PrismaAuditLogRepository }],
+})
+class AuditVerificationModule {}
+
+async function main(): Promise<void> {
+  const app = await NestFactory.createApplicationContext(AuditVerificationModule, {
+    logger: ['error', 'warn'],
+  });
+  try {
+    const verification = await app.get(AuditService).verifyChain();
+    console.log(JSON.stringify(verification, null, 2));
+    if (!verification.valid) {
+      process.exitCode = 1;
+    }
+  } finally {
+    await app.close();
+  }
+}
+
+main().catch((error) => {
+  console.error('Audit chain verification failed:', error);
+  process.exit(1);
+});
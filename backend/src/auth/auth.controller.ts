@@ -1,5 +1,6 @@
 import { Controller, Post, Body, HttpCode, HttpStatus, Headers } from '@nestjs/common';
 import { AuthService } from './auth.service';
+import { OtpService } from './otp.service';
 import { ApiResponse } from '../common/api/api-response';
 import { Public } from './decorators/public.decorator';
 import {
@@ -9,6 +10,10 @@ import {
   LoginResponseDto,
   RefreshTokenDto,
   RefreshTokenResponseDto,
+  RequestOtpDto,
+  RequestOtpResponseDto,
+  VerifyOtpDto,
+  VerifyOtpResponseDto,
 } from './dto';
 import { randomUUID } from 'crypto';
 
@@ -22,10 +27,15 @@ import { randomUUID } from 'crypto';
  * - POST /auth/register - Register new user with phone + password
  * - POST /auth/login - Login with phone + password
  * - POST /auth/refresh - Refresh token (placeholder)
+ * - POST /auth/otp/request - Send a sign-in code by SMS
+ * - POST /auth/otp/verify - Sign in (or register) with the code
  */
 @Controller('auth')
 export class AuthController {
-  constructor(private readonly authService: AuthService) {}
+  constructor(
+    private readonly authService: AuthService,
+    private readonly otpService: OtpService,
+  ) {}
 
   /**
    * Register a new user with phone number and password
@@ -83,4 +93,42 @@ export class AuthController {
     const result = await this.authService.refreshToken(refreshDto, corrId);
     return ApiResponse.success(result, 'Token refreshed successfully');
   }
+
+  /**
+   * Send a one-time sign-in code to a phone number
+   *
+   * Works for unregistered numbers too: verifying the code registers them.
+   *
+   * @param requestDto - Phone number
+   * @returns When the code expires and when another can be requested
+   */
+  @Post('otp/request')
+  @Public()
+  @HttpCode(HttpStatus.OK)
+  async requestOtp(
+    @Body() requestDto: RequestOtpDto,
+    @Headers('x-correlation-id') correlationId?: string,
+  ): Promise<ApiResponse<RequestOtpResponseDto>> {
+    const corrId = correlationId || randomUUID();
+    const result = await this.otpService.requestOtp(requestDto, corrId);
+    return ApiResponse.success(result, 'Verification code sent');
+  }
+
+  /**
+   * Sign in with a one-time code
+   *
+   * @param verifyDto - Phone number, code, and a name for new accounts
+   * @returns The same tokens as login, and whether the account is new
+   */
+  @Post('otp/verify')
+  @Public()
+  @HttpCode(HttpStatus.OK)
+  async verifyOtp(
+    @Body() verifyDto: VerifyOtpDto,
+    @Headers('x-correlation-id') correlationId?: string,
+  ): Promise<ApiResponse<VerifyOtpResponseDto>> {
+    const corrId = correlationId || randomUUID();
+    const result = await this.otpService.verifyOtp(verifyDto, corrId);
+    return ApiResponse.success(result, 'Login successful');
+  }
 }
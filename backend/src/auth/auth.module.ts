@@ -12,7 +12,12 @@ import { PrismaCredentialRepository } from './credentials/prisma-credential.repo
 import { REFRESH_TOKEN_REPOSITORY } from './refresh-tokens/refresh-token-repository.interface';
 import { InMemoryRefreshTokenRepository } from './refresh-tokens/in-memory-refresh-token.repository';
 import { PrismaRefreshTokenRepository } from './refresh-tokens/prisma-refresh-token.repository';
+import { OTP_CHALLENGE_REPOSITORY } from './otp/otp-challenge-repository.interface';
+import { InMemoryOtpChallengeRepository } from './otp/in-memory-otp-challenge.repository';
+import { PrismaOtpChallengeRepository } from './otp/prisma-otp-challenge.repository';
+import { OtpService } from './otp.service';
 import { UserModule } from '../user/user.module';
+import { NotificationModule } from '../notification/notification.module';
 import { getJwtConfig } from './config/jwt.config';
 import { PrismaService, isPrismaEnabled } from '../database';
 
@@ -24,6 +29,7 @@ import { PrismaService, isPrismaEnabled } from '../database';
  * Responsibilities:
  * - User registration with password
  * - User login with password
+ * - Phone sign-in and registration with an SMS one-time code
  * - Password hashing (pluggable implementation)
  * - Credential storage
  * - JWT token generation and validation
@@ -32,6 +38,7 @@ import { PrismaService, isPrismaEnabled } from '../database';
  *
  * Dependencies:
  * - UserModule: For user identity management
+ * - NotificationModule: SMS delivery of one-time codes
  * - JwtModule: For token generation/validation
  *
  * Design decisions:
@@ -43,14 +50,13 @@ import { PrismaService, isPrismaEnabled } from '../database';
  * - JWT config is centralized and env-based
  *
  * Future extensions:
- * - Refresh token support
- * - OTP verification (new provider, same interface pattern)
  * - Social login (OAuth providers)
  * - Session management
  */
 @Module({
   imports: [
     forwardRef(() => UserModule), // For user identity management
+    forwardRef(() => NotificationModule), // SMS for one-time codes; it uses our guards
 
     // JWT configuration
     JwtModule.registerAsync({
@@ -69,6 +75,7 @@ import { PrismaService, isPrismaEnabled } from '../database';
   controllers: [AuthController],
   providers: [
     AuthService,
+    OtpService,
     JwtAuthGuard,
     RolesGuard,
 
@@ -102,6 +109,18 @@ import { PrismaService, isPrismaEnabled } from '../database';
       inject: [PrismaService],
     },
 
+    // One-time code storage - prisma when enabled, otherwise in-memory
+    {
+      provide: OTP_CHALLENGE_REPOSITORY,
+      useFactory: (prismaService: PrismaService) => {
+        if (isPrismaEnabled()) {
+          return new PrismaOtpChallengeRepository(prismaService);
+        }
+        return new InMemoryOtpChallengeRepository();
+      },
+      inject: [PrismaService],
+    },
+
     // Register guards globally (optional - can also use @UseGuards per controller)
     // Uncomment to enable global auth:
     // { provide: APP_GUARD, useClass: JwtAuthGuard },
@@ -2,7 +2,7 @@ import { Injectable, Inject } from '@nestjs/common';
 import { JwtService } from '@nestjs/jwt';
 import { randomBytes } from 'crypto';
 import { UserService } from '../user/user.service';
-import { canAuthenticate } from '../user/domain';
+import { User, canAuthenticate } from '../user/domain';
 import { PASSWORD_HASHER, IPasswordHasher } from './interfaces/password-hasher.interface';
 import {
   CREDENTIAL_REPOSITORY,
@@ -56,9 +56,9 @@ const REFRESH_TOKEN_EXPIRY_DAYS = 7;
  * - Depends on JwtService for token generation
  * - Does NOT expose password hashes
  *
+ * Phone OTP sign-in lives in OtpService and ends in issueTokens().
+ *
  * Future extensions:
- * - Refresh token support
- * - OTP generation and verification
  * - Social login handling
  */
 @Injectable()
@@ -159,8 +159,7 @@ export class AuthService {
    * 3. Check user can authenticate (status check)
    * 4. Find password credential
    * 5. Verify password
-   * 6. Generate JWT access token
-   * 7. Return token and user info
+   * 6. Issue access and refresh tokens (issueTokens)
    *
    * Security notes:
    * - Uses timing-safe password comparison
@@ -211,7 +210,24 @@ export class AuthService {
       throw new InvalidCredentialsException();
     }
 
-    // 5. Generate JWT access token
+    // 5. Issue access and refresh tokens
+    const response = await this.issueTokens(user);
+
+    logWithCorrelation('INFO', correlationId, 'Login successful', 'AuthService', {
+      userId: user.id,
+      phoneNumber: normalizedPhone,
+    });
+
+    return response;
+  }
+
+  /**
+   * Issue an access token and a refresh token for an authenticated user
+   *
+   * Used by every sign-in method (password, OTP), so they all return the
+   * same session. The caller has already checked the user can authenticate.
+   */
+  async issueTokens(user: User): Promise<LoginResponseDto> {
     const jwtConfig = getJwtConfig();
     const payload: JwtPayload = {
       sub: user.id,
@@ -222,16 +238,8 @@ export class AuthService {
     };
 
     const accessToken = this.jwtService.sign(payload);
-
-    // 6. Generate and persist refresh token
     const refreshToken = await this.createRefreshToken(user.id);
 
-    logWithCorrelation('INFO', correlationId, 'Login successful', 'AuthService', {
-      userId: user.id,
-      phoneNumber: normalizedPhone,
-    });
-
-    // 7. Return tokens and user info
     return {
       accessToken,
       refreshToken,
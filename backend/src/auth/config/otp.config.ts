@@ -0,0 +1,51 @@
+import { getJwtConfig } from './jwt.config';
+
+/**
+ * OTP Configuration
+ *
+ * One-time codes sent by SMS for phone sign-in and registration.
+ *
+ * Security notes:
+ * - Codes are stored as an HMAC keyed with OTP_SECRET (falls back to
+ *   JWT_SECRET), so a database dump alone does not reveal or brute-force them
+ * - Each code allows a few wrong guesses, then a new one must be requested
+ * - Requests per number are limited by a resend cooldown and an hourly cap
+ */
+export interface OtpConfig {
+  /** Digits per code */
+  length: number;
+
+  /** How long a code can be used */
+  ttlSeconds: number;
+
+  /** Wrong guesses allowed per code */
+  maxAttempts: number;
+
+  /** Minimum wait between two codes for the same number */
+  resendCooldownSeconds: number;
+
+  /** Codes sent to one number per rolling hour */
+  maxRequestsPerHour: number;
+
+  /** HMAC key for stored codes */
+  secret: string;
+}
+
+function readInt(name: string, fallback: number, min: number): number {
+  const value = parseInt(process.env[name] || String(fallback), 10);
+  return Number.isNaN(value) ? fallback : Math.max(min, value);
+}
+
+/**
+ * Get OTP configuration from environment
+ */
+export function getOtpConfig(): OtpConfig {
+  return {
+    length: Math.min(10, readInt('OTP_LENGTH', 6, 4)),
+    ttlSeconds: readInt('OTP_TTL_SECONDS', 300, 30),
+    maxAttempts: readInt('OTP_MAX_ATTEMPTS', 5, 1),
+    resendCooldownSeconds: readInt('OTP_RESEND_COOLDOWN_SECONDS', 60, 0),
+    maxRequestsPerHour: readInt('OTP_MAX_REQUESTS_PER_HOUR', 5, 1),
+    secret: process.env.OTP_SECRET || getJwtConfig().secret,
+  };
+}
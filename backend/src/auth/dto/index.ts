@@ -3,3 +3,10 @@ export { RegisterUserDto, RegisterUserResponseDto } from './register-user.dto';
 export { LoginDto, LoginResponseDto } from './login.dto';
 
 export { RefreshTokenDto, RefreshTokenResponseDto } from './refresh-token.dto';
+
+export {
+  RequestOtpDto,
+  RequestOtpResponseDto,
+  VerifyOtpDto,
+  VerifyOtpResponseDto,
+} from './otp.dto';
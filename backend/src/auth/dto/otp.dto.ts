@@ -0,0 +1,56 @@
+import { LoginResponseDto } from './login.dto';
+
+/**
+ * OTP DTOs
+ *
+ * Data structures for phone sign-in and registration with a one-time code.
+ */
+
+/**
+ * Input DTO for requesting a code
+ */
+export interface RequestOtpDto {
+  /** Phone number the code is sent to */
+  phoneNumber: string;
+}
+
+/**
+ * Response DTO after a code was sent
+ *
+ * Same for registered and unregistered numbers, so it does not reveal
+ * which numbers have accounts.
+ */
+export interface RequestOtpResponseDto {
+  /** Normalized phone number the code was sent to */
+  phoneNumber: string;
+
+  /** Seconds until the code expires */
+  expiresIn: number;
+
+  /** Seconds until another code can be requested */
+  resendAfter: number;
+}
+
+/**
+ * Input DTO for verifying a code
+ */
+export interface VerifyOtpDto {
+  /** Phone number the code was sent to */
+  phoneNumber: string;
+
+  /** The code from the SMS */
+  code: string;
+
+  /** Name for a new account (ignored for registered numbers) */
+  name?: string;
+}
+
+/**
+ * Response DTO for a verified code
+ *
+ * The same tokens as a password login.
+ */
+export interface VerifyOtpResponseDto extends LoginResponseDto {
+  /** True if this verification registered the number */
+  isNewUser: boolean;
+}
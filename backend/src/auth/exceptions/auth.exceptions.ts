@@ -1,3 +1,4 @@
+import { HttpStatus } from '@nestjs/common';
 import { BusinessException } from '../../common/exceptions/business.exception';
 
 /**
@@ -126,6 +127,61 @@ export class RefreshTokenRevokedException extends BusinessException {
   }
 }
 
+/**
+ * Thrown when a one-time code is wrong, already used, or was never sent
+ */
+export class InvalidOtpException extends BusinessException {
+  constructor(attemptsRemaining?: number) {
+    super(
+      'AUTH_INVALID_OTP',
+      'Invalid verification code',
+      HttpStatus.UNAUTHORIZED,
+      attemptsRemaining === undefined ? undefined : { attemptsRemaining },
+    );
+  }
+}
+
+/**
+ * Thrown when a one-time code has expired
+ */
+export class OtpExpiredException extends BusinessException {
+  constructor() {
+    super(
+      'AUTH_OTP_EXPIRED',
+      'Verification code has expired. Please request a new one.',
+      HttpStatus.UNAUTHORIZED,
+    );
+  }
+}
+
+/**
+ * Thrown when a code has had too many wrong guesses
+ */
+export class OtpAttemptsExceededException extends BusinessException {
+  constructor() {
+    super(
+      'AUTH_OTP_ATTEMPTS_EXCEEDED',
+      'Too many incorrect attempts. Please request a new code.',
+      HttpStatus.TOO_MANY_REQUESTS,
+    );
+  }
+}
+
+/**
+ * Thrown when a new code is requested too soon after the last one, or
+ * too many codes were sent to the number in the last hour
+ */
+export class OtpRequestTooSoonException extends BusinessException {
+  constructor(retryAfterSeconds: number) {
+    super(
+      'AUTH_OTP_REQUEST_TOO_SOON',
+      `Please wait ${retryAfterSeconds} seconds before requesting another code`,
+      HttpStatus.TOO_MANY_REQUESTS,
+      { retryAfterSeconds },
+    );
+  }
+}
+
 /**
  * Mask phone number for logging (show last 4 digits only)
  */
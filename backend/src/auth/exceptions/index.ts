@@ -8,4 +8,8 @@ export {
   InvalidRefreshTokenException,
   RefreshTokenExpiredException,
   RefreshTokenRevokedException,
+  InvalidOtpException,
+  OtpExpiredException,
+  OtpAttemptsExceededException,
+  OtpRequestTooSoonException,
 } from './auth.exceptions';
@@ -0,0 +1,254 @@
+import { JwtService } from '@nestjs/jwt';
+import { AuthService } from './auth.service';
+import { OtpService } from './otp.service';
+import { BcryptPasswordHasher } from './infrastructure/bcrypt-password-hasher';
+import { InMemoryCredentialRepository } from './credentials/in-memory-credential.repository';
+import { InMemoryRefreshTokenRepository } from './refresh-tokens/in-memory-refresh-token.repository';
+import { InMemoryOtpChallengeRepository } from './otp/in-memory-otp-challenge.repository';
+import {
+  AccountNotActiveException,
+  InvalidOtpException,
+  OtpAttemptsExceededException,
+  OtpExpiredException,
+  OtpRequestTooSoonException,
+} from './exceptions';
+import { JwtPayload } from './config/jwt.config';
+import { UserService } from '../user/user.service';
+import { UserStatus } from '../user/domain';
+import { InMemoryUserRepository } from '../user/repositories/in-memory-user.repository';
+import { NotificationService } from '../notification/notification.service';
+import { NotificationPreferencesService } from '../notification/notification-preferences.service';
+import { InMemoryNotificationRepository } from '../notification/repositories/in-memory-notification.repository';
+import { InMemoryNotificationPreferencesRepository } from '../notification/repositories/in-memory-notification-preferences.repository';
+import { NotificationChannel, NotificationStatus } from '../notification/domain';
+import { ChannelProvider, OutgoingMessage } from '../notification/channels';
+
+/**
+ * OtpService Tests
+ *
+ * Verifies:
+ * - A code is sent by SMS; only its hash and a masked copy of the SMS are
+ *   stored
+ * - Verifying registers unknown numbers and signs in known ones, with the
+ *   same tokens as a password login
+ * - Codes are single-use, expire, and die after too many wrong guesses
+ * - Requests are limited by a resend cooldown and an hourly cap
+ *
+ * Uses the default OTP settings: 6 digits, 5 minutes, 5 attempts, 60 s
+ * cooldown, 5 codes per hour.
+ */
+describe('OtpService', () => {
+  const PHONE = '+919876543210';
+  const correlationId = 'test-correlation-id';
+
+  let otpService: OtpService;
+  let authService: AuthService;
+  let userService: UserService;
+  let jwtService: JwtService;
+  let challengeRepository: InMemoryOtpChallengeRepository;
+  let notificationRepository: InMemoryNotificationRepository;
+  let notificationService: NotificationService;
+  let sentSms: OutgoingMessage[];
+
+  beforeEach(() => {
+    jest.useFakeTimers({
+      now: new Date('2026-03-01T10:00:00Z'),
+      doNotFake: ['nextTick', 'setImmediate', 'queueMicrotask'],
+    });
+
+    userService = new UserService(new InMemoryUserRepository());
+    jwtService = new JwtService({
+      secret: 'test-jwt-secret-for-testing-only',
+      signOptions: { expiresIn: '15m', issuer: 'janta-pharmacy' },
+    });
+    authService = new AuthService(
+      userService,
+      jwtService,
+      new BcryptPasswordHasher(),
+      new InMemoryCredentialRepository(),
+      new InMemoryRefreshTokenRepository(),
+    );
+    notificationRepository = new InMemoryNotificationRepository();
+    sentSms = [];
+    const smsProvider: ChannelProvider = {
+      name: 'test-sms',
+      send: async (message) => {
+        sentSms.push(message);
+        return { providerMessageId: null };
+      },
+    };
+    notificationService = new NotificationService(
+      notificationRepository,
+      userService,
+      new NotificationPreferencesService(new InMemoryNotificationPreferencesRepository()),
+      smsProvider,
+    );
+    challengeRepository = new InMemoryOtpChallengeRepository();
+    otpService = new OtpService(challengeRepository, authService, userService, notificationService);
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  /** Request a code and return it as the SMS carried it */
+  async function requestCode(phoneNumber = PHONE): Promise<string> {
+    const send = jest.spyOn(notificationService, 'sendLoginOtp');
+    await otpService.requestOtp({ phoneNumber }, correlationId);
+    const code = send.mock.calls[send.mock.calls.length - 1][0].code;
+    send.mockRestore();
+    return code;
+  }
+
+  function wrongCode(code: string): string {
+    return code === '000000' ? '111111' : '000000';
+  }
+
+  it('sends the code by SMS and stores only its hash and a masked copy', async () => {
+    const response = await otpService.requestOtp({ phoneNumber: '9876543210' }, correlationId);
+
+    expect(response).toEqual({ phoneNumber: PHONE, expiresIn: 300, resendAfter: 60 });
+
+    expect(sentSms).toHaveLength(1);
+    expect(sentSms[0].to).toBe(PHONE);
+    const code = sentSms[0].body.match(/^(\d{6}) is your/)?.[1];
+    expect(code).toBeDefined();
+
+    const stored = await notificationRepository.findById(sentSms[0].id);
+    expect(stored).toMatchObject({
+      channel: NotificationChannel.SMS,
+      recipient: PHONE,
+      userId: null,
+      templateKey: 'LOGIN_OTP',
+      status: NotificationStatus.SENT,
+      provider: 'test-sms',
+    });
+    expect(stored?.body).toMatch(/^\*{6} is your/);
+    expect(JSON.stringify(stored)).not.toContain(code);
+    expect(await notificationRepository.claimDue(new Date(), 10, new Date())).toEqual([]);
+
+    const challenge = await challengeRepository.findLatestByPhoneNumber(PHONE);
+    expect(challenge?.codeHash).toMatch(/^[0-9a-f]{64}$/);
+    expect(challenge?.codeHash).not.toContain(code);
+  });
+
+  it('registers an unknown number and signs it in', async () => {
+    const code = await requestCode();
+
+    const result = await otpService.verifyOtp(
+      { phoneNumber: PHONE, code, name: 'Asha' },
+      correlationId,
+    );
+
+    expect(result.isNewUser).toBe(true);
+    expect(result.tokenType).toBe('Bearer');
+    const user = await userService.getUserByPhoneNumber(PHONE);
+    expect(user).toMatchObject({ name: 'Asha', phoneNumber: PHONE });
+    expect(result.user.id).toBe(user?.id);
+    expect(jwtService.verify<JwtPayload>(result.accessToken).sub).toBe(user?.id);
+  });
+
+  it('signs in a registered number with tokens that refresh like a password login', async () => {
+    const existing = await authService.registerUser(
+      { phoneNumber: PHONE, password: 'SecurePass123' },
+      correlationId,
+    );
+    const code = await requestCode();
+
+    const result = await otpService.verifyOtp({ phoneNumber: PHONE, code }, correlationId);
+
+    expect(result.isNewUser).toBe(false);
+    expect(result.user.id).toBe(existing.userId);
+    await expect(
+      authService.refreshToken({ refreshToken: result.refreshToken }, correlationId),
+    ).resolves.toMatchObject({ tokenType: 'Bearer' });
+  });
+
+  it('accepts each code once', async () => {
+    const code = await requestCode();
+    await otpService.verifyOtp({ phoneNumber: PHONE, code }, correlationId);
+
+    await expect(
+      otpService.verifyOtp({ phoneNumber: PHONE, code }, correlationId),
+    ).rejects.toBeInstanceOf(InvalidOtpException);
+  });
+
+  it('rejects a code after it expires', async () => {
+    const code = await requestCode();
+    jest.advanceTimersByTime(300_000);
+
+    await expect(
+      otpService.verifyOtp({ phoneNumber: PHONE, code }, correlationId),
+    ).rejects.toBeInstanceOf(OtpExpiredException);
+  });
+
+  it('counts wrong guesses and refuses the right code once they are used up', async () => {
+    const code = await requestCode();
+
+    const first = otpService.verifyOtp(
+      { phoneNumber: PHONE, code: wrongCode(code) },
+      correlationId,
+    );
+    await expect(first).rejects.toBeInstanceOf(InvalidOtpException);
+    await expect(first).rejects.toMatchObject({ details: { attemptsRemaining: 4 } });
+
+    for (let i = 0; i < 3; i++) {
+      await expect(
+        otpService.verifyOtp({ phoneNumber: PHONE, code: wrongCode(code) }, correlationId),
+      ).rejects.toBeInstanceOf(InvalidOtpException);
+    }
+    await expect(
+      otpService.verifyOtp({ phoneNumber: PHONE, code: wrongCode(code) }, correlationId),
+    ).rejects.toBeInstanceOf(OtpAttemptsExceededException);
+
+    await expect(
+      otpService.verifyOtp({ phoneNumber: PHONE, code }, correlationId),
+    ).rejects.toBeInstanceOf(OtpAttemptsExceededException);
+  });
+
+  it('enforces the resend cooldown, and a new code replaces the old one', async () => {
+    const firstCode = await requestCode();
+
+    const tooSoon = otpService.requestOtp({ phoneNumber: PHONE }, correlationId);
+    await expect(tooSoon).rejects.toBeInstanceOf(OtpRequestTooSoonException);
+    await expect(tooSoon).rejects.toMatchObject({ details: { retryAfterSeconds: 60 } });
+
+    jest.advanceTimersByTime(60_000);
+    const secondCode = await requestCode();
+
+    if (firstCode !== secondCode) {
+      await expect(
+        otpService.verifyOtp({ phoneNumber: PHONE, code: firstCode }, correlationId),
+      ).rejects.toBeInstanceOf(InvalidOtpException);
+    }
+    await expect(
+      otpService.verifyOtp({ phoneNumber: PHONE, code: secondCode }, correlationId),
+    ).resolves.toMatchObject({ isNewUser: true });
+  });
+
+  it('caps the codes sent to one number per hour', async () => {
+    for (let i = 0; i < 5; i++) {
+      await requestCode();
+      jest.advanceTimersByTime(60_000);
+    }
+
+    const capped = otpService.requestOtp({ phoneNumber: PHONE }, correlationId);
+    await expect(capped).rejects.toBeInstanceOf(OtpRequestTooSoonException);
+    await expect(capped).rejects.toMatchObject({ details: { retryAfterSeconds: 3600 - 300 } });
+
+    await expect(requestCode('+919876543211')).resolves.toMatch(/^\d{6}$/);
+  });
+
+  it('does not sign in a suspended account', async () => {
+    const { userId } = await authService.registerUser(
+      { phoneNumber: PHONE, password: 'SecurePass123' },
+      correlationId,
+    );
+    await userService.updateUserStatus(userId, UserStatus.SUSPENDED, correlationId);
+    const code = await requestCode();
+
+    await expect(
+      otpService.verifyOtp({ phoneNumber: PHONE, code }, correlationId),
+    ).rejects.toBeInstanceOf(AccountNotActiveException);
+  });
+});
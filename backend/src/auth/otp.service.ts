@@ -0,0 +1,232 @@
+import { Inject, Injectable } from '@nestjs/common';
+import { createHmac, randomInt, timingSafeEqual } from 'crypto';
+import { UserService } from '../user/user.service';
+import { canAuthenticate, isValidPhoneNumber, normalizePhoneNumber } from '../user/domain';
+import { NotificationService } from '../notification/notification.service';
+import { AuthService } from './auth.service';
+import { OTP_CHALLENGE_REPOSITORY, IOtpChallengeRepository } from './otp';
+import { OtpConfig, getOtpConfig } from './config/otp.config';
+import { RequestOtpDto, RequestOtpResponseDto, VerifyOtpDto, VerifyOtpResponseDto } from './dto';
+import {
+  AccountNotActiveException,
+  InvalidOtpException,
+  InvalidPhoneNumberFormatException,
+  OtpAttemptsExceededException,
+  OtpExpiredException,
+  OtpRequestTooSoonException,
+} from './exceptions';
+import { logWithCorrelation } from '../common/logging/logger';
+
+const HOUR_MS = 60 * 60 * 1000;
+
+/**
+ * OTP Service
+ *
+ * Phone sign-in with a one-time code sent by SMS. Verifying the code signs
+ * the user in; for a number with no account it registers one first.
+ *
+ * Flow:
+ * 1. requestOtp: check the cooldown and hourly cap, store a keyed hash of a
+ *    fresh code, send the SMS (NotificationService, LOGIN_OTP template)
+ * 2. verifyOtp: check the latest code for the number, consume it, find or
+ *    create the user, and issue the same tokens as a password login
+ *
+ * Security notes:
+ * - Codes are random (crypto.randomInt) and stored only as an HMAC; the
+ *   SMS is kept in the notification log with the code masked
+ * - Every guess is counted before it is checked; after maxAttempts the code
+ *   is dead and a new one must be requested
+ * - A new code supersedes the previous one
+ * - requestOtp answers the same for registered and unregistered numbers
+ * - Codes are never logged (the console SMS driver prints the message itself
+ *   in development)
+ */
+@Injectable()
+export class OtpService {
+  private readonly config: OtpConfig = getOtpConfig();
+
+  constructor(
+    @Inject(OTP_CHALLENGE_REPOSITORY)
+    private readonly otpChallengeRepository: IOtpChallengeRepository,
+    private readonly authService: AuthService,
+    private readonly userService: UserService,
+    private readonly notificationService: NotificationService,
+  ) {}
+
+  /**
+   * Send a sign-in code to a phone number
+   */
+  async requestOtp(dto: RequestOtpDto, correlationId: string): Promise<RequestOtpResponseDto> {
+    if (!dto.phoneNumber || !isValidPhoneNumber(dto.phoneNumber)) {
+      throw new InvalidPhoneNumberFormatException();
+    }
+    const phoneNumber = normalizePhoneNumber(dto.phoneNumber);
+    const now = new Date();
+
+    // Resend cooldown, then the hourly cap
+    const recent = await this.otpChallengeRepository.findCreatedSince(
+      phoneNumber,
+      new Date(now.getTime() - HOUR_MS),
+    );
+    const latest = recent[recent.length - 1];
+    const cooldownEnds = latest
+      ? latest.createdAt.getTime() + this.config.resendCooldownSeconds * 1000
+      : 0;
+    const capEnds =
+      recent.length >= this.config.maxRequestsPerHour ? recent[0].createdAt.getTime() + HOUR_MS : 0;
+    const retryAt = Math.max(cooldownEnds, capEnds);
+    if (retryAt > now.getTime()) {
+      logWithCorrelation('WARN', correlationId, 'OTP request throttled', 'OtpService', {
+        phoneNumber,
+        sentLastHour: recent.length,
+      });
+      throw new OtpRequestTooSoonException(Math.ceil((retryAt - now.getTime()) / 1000));
+    }
+
+    const code = this.generateCode();
+    const challenge = await this.otpChallengeRepository.create({
+      phoneNumber,
+      codeHash: this.hashCode(phoneNumber, code),
+      expiresAt: new Date(now.getTime() + this.config.ttlSeconds * 1000),
+    });
+
+    const user = await this.userService.getUserByPhoneNumber(phoneNumber);
+    await this.notificationService.sendLoginOtp({
+      phoneNumber,
+      code,
+      expiresInMinutes: Math.ceil(this.config.ttlSeconds / 60),
+      challengeId: challenge.id,
+      userId: user?.id ?? null,
+      correlationId,
+    });
+
+    logWithCorrelation('INFO', correlationId, 'OTP sent', 'OtpService', {
+      phoneNumber,
+      challengeId: challenge.id,
+      registered: user !== null,
+    });
+
+    return {
+      phoneNumber,
+      expiresIn: this.config.ttlSeconds,
+      resendAfter: this.config.resendCooldownSeconds,
+    };
+  }
+
+  /**
+   * Check a code and sign in, registering the number if it has no account
+   *
+   * Flow:
+   * 1. Find the latest code sent to the number
+   * 2. Count the guess; refuse once the attempts are used up
+   * 3. Check expiry, then the code itself
+   * 4. Consume the code (only one request can)
+   * 5. Find the user, or create one for the number
+   * 6. Check the user can authenticate, then issue tokens
+   */
+  async verifyOtp(dto: VerifyOtpDto, correlationId: string): Promise<VerifyOtpResponseDto> {
+    if (!dto.phoneNumber || !isValidPhoneNumber(dto.phoneNumber) || typeof dto.code !== 'string') {
+      throw new InvalidOtpException();
+    }
+    const phoneNumber = normalizePhoneNumber(dto.phoneNumber);
+    const now = new Date();
+
+    // 1. Latest code
+    const challenge = await this.otpChallengeRepository.findLatestByPhoneNumber(phoneNumber);
+    if (!challenge || challenge.consumedAt) {
+      logWithCorrelation('WARN', correlationId, 'OTP failed: no active code', 'OtpService', {
+        phoneNumber,
+      });
+      throw new InvalidOtpException();
+    }
+
+    // 2. Count the guess
+    const attempts = await this.otpChallengeRepository.recordAttempt(challenge.id);
+    if (attempts > this.config.maxAttempts) {
+      logWithCorrelation('WARN', correlationId, 'OTP failed: attempts exceeded', 'OtpService', {
+        phoneNumber,
+        challengeId: challenge.id,
+      });
+      throw new OtpAttemptsExceededException();
+    }
+
+    // 3. Expiry, then the code
+    if (challenge.expiresAt <= now) {
+      throw new OtpExpiredException();
+    }
+    if (!this.matches(challenge.codeHash, this.hashCode(phoneNumber, dto.code.trim()))) {
+      logWithCorrelation('WARN', correlationId, 'OTP failed: wrong code', 'OtpService', {
+        phoneNumber,
+        challengeId: challenge.id,
+        attempts,
+      });
+      const remaining = this.config.maxAttempts - attempts;
+      if (remaining <= 0) {
+        throw new OtpAttemptsExceededException();
+      }
+      throw new InvalidOtpException(remaining);
+    }
+
+    // 4. Consume
+    if (!(await this.otpChallengeRepository.consume(challenge.id, now))) {
+      throw new InvalidOtpException();
+    }
+
+    // 5. Find or register the user
+    let user = await this.userService.getUserByPhoneNumber(phoneNumber);
+    const isNewUser = user === null;
+    if (!user) {
+      const created = await this.userService.createUser(
+        { phoneNumber, name: dto.name },
+        correlationId,
+      );
+      user = await this.userService.getUserEntity(created.id);
+    }
+    if (!user) {
+      throw new Error(`User ${phoneNumber} could not be loaded after registration`);
+    }
+
+    // 6. Status check and tokens
+    if (!canAuthenticate(user.status)) {
+      logWithCorrelation(
+        'WARN',
+        correlationId,
+        'OTP login failed: account not active',
+        'OtpService',
+        {
+          userId: user.id,
+          status: user.status,
+        },
+      );
+      throw new AccountNotActiveException();
+    }
+
+    const tokens = await this.authService.issueTokens(user);
+
+    logWithCorrelation('INFO', correlationId, 'OTP login successful', 'OtpService', {
+      userId: user.id,
+      isNewUser,
+    });
+
+    return { ...tokens, isNewUser };
+  }
+
+  // ==========================================================================
+  // Private Helpers
+  // ==========================================================================
+
+  private generateCode(): string {
+    return String(randomInt(0, 10 ** this.config.length)).padStart(this.config.length, '0');
+  }
+
+  /**
+   * Keyed hash, bound to the number so a hash cannot be replayed for another
+   */
+  private hashCode(phoneNumber: string, code: string): string {
+    return createHmac('sha256', this.config.secret).update(`${phoneNumber}:${code}`).digest('hex');
+  }
+
+  private matches(storedHash: string, candidateHash: string): boolean {
+    return timingSafeEqual(Buffer.from(storedHash, 'hex'), Buffer.from(candidateHash, 'hex'));
+  }
+}
@@ -0,0 +1,69 @@
+import { Injectable } from '@nestjs/common';
+import { randomUUID } from 'crypto';
+import { OtpChallenge, CreateOtpChallengeData } from './otp-challenge.entity';
+import { IOtpChallengeRepository } from './otp-challenge-repository.interface';
+
+/**
+ * In-Memory OTP Challenge Repository
+ *
+ * Development and test implementation. Data resets on restart.
+ */
+@Injectable()
+export class InMemoryOtpChallengeRepository implements IOtpChallengeRepository {
+  private challenges: OtpChallenge[] = [];
+
+  async create(data: CreateOtpChallengeData): Promise<OtpChallenge> {
+    const challenge: OtpChallenge = {
+      id: randomUUID(),
+      phoneNumber: data.phoneNumber,
+      codeHash: data.codeHash,
+      expiresAt: data.expiresAt,
+      attempts: 0,
+      consumedAt: null,
+      createdAt: new Date(),
+    };
+    this.challenges.push(challenge);
+    return challenge;
+  }
+
+  async findLatestByPhoneNumber(phoneNumber: string): Promise<OtpChallenge | null> {
+    const forNumber = this.challenges.filter((challenge) => challenge.phoneNumber === phoneNumber);
+    return forNumber[forNumber.length - 1] ?? null;
+  }
+
+  async findCreatedSince(phoneNumber: string, since: Date): Promise<OtpChallenge[]> {
+    return this.challenges.filter(
+      (challenge) => challenge.phoneNumber === phoneNumber && challenge.createdAt >= since,
+    );
+  }
+
+  async recordAttempt(id: string): Promise<number> {
+    let attempts = 0;
+    this.challenges = this.challenges.map((challenge) => {
+      if (challenge.id !== id) {
+        return challenge;
+      }
+      attempts = challenge.attempts + 1;
+      return { ...challenge, attempts };
+    });
+    return attempts;
+  }
+
+  async consume(id: string, consumedAt: Date): Promise<boolean> {
+    const challenge = this.challenges.find((candidate) => candidate.id === id);
+    if (!challenge || challenge.consumedAt) {
+      return false;
+    }
+    this.challenges = this.challenges.map((candidate) =>
+      candidate.id === id ? { ...candidate, consumedAt } : candidate,
+    );
+    return true;
+  }
+
+  /**
+   * Clear all challenges (for testing)
+   */
+  clear(): void {
+    this.challenges = [];
+  }
+}
@@ -0,0 +1,7 @@
+export { OtpChallenge, CreateOtpChallengeData } from './otp-challenge.entity';
+export {
+  OTP_CHALLENGE_REPOSITORY,
+  IOtpChallengeRepository,
+} from './otp-challenge-repository.interface';
+export { InMemoryOtpChallengeRepository } from './in-memory-otp-challenge.repository';
+export { PrismaOtpChallengeRepository } from './prisma-otp-challenge.repository';
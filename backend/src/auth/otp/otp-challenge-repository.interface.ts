@@ -0,0 +1,46 @@
+import { OtpChallenge, CreateOtpChallengeData } from './otp-challenge.entity';
+
+/**
+ * Injection token for the OTP challenge repository
+ */
+export const OTP_CHALLENGE_REPOSITORY = Symbol('OTP_CHALLENGE_REPOSITORY');
+
+/**
+ * OTP Challenge Repository Interface
+ *
+ * Defines the contract for OTP challenge storage.
+ *
+ * Design notes:
+ * - Attempts and consumption are updated atomically, so parallel guesses
+ *   cannot exceed the attempt limit or use one code twice
+ * - Challenges are not deleted after use: the hourly request cap counts them
+ */
+export interface IOtpChallengeRepository {
+  /**
+   * Create a new challenge
+   */
+  create(data: CreateOtpChallengeData): Promise<OtpChallenge>;
+
+  /**
+   * Most recently created challenge for a phone number
+   * @returns Challenge or null if none was ever sent
+   */
+  findLatestByPhoneNumber(phoneNumber: string): Promise<OtpChallenge | null>;
+
+  /**
+   * Challenges created for a phone number at or after `since`, oldest first
+   */
+  findCreatedSince(phoneNumber: string, since: Date): Promise<OtpChallenge[]>;
+
+  /**
+   * Count one guess, before it is checked
+   * @returns Guesses including this one
+   */
+  recordAttempt(id: string): Promise<number>;
+
+  /**
+   * Mark the challenge used
+   * @returns false if it was already used
+   */
+  consume(id: string, consumedAt: Date): Promise<boolean>;
+}
@@ -0,0 +1,49 @@
+/**
+ * OTP Challenge Entity
+ *
+ * One code sent to one phone number. The latest challenge for a number is
+ * the only one that can be verified; requesting a new code supersedes it.
+ *
+ * Design decisions:
+ * - Only a keyed hash of the code is stored, never the code itself
+ * - Not linked to a user: the number may not be registered yet
+ * - Challenges are kept after use, so the hourly request cap can count them
+ *
+ * Lifecycle: created → consumed (correct code), or dead once expired or
+ * attempts reach the limit.
+ */
+
+/**
+ * OTP Challenge entity
+ */
+export interface OtpChallenge {
+  /** Unique identifier */
+  readonly id: string;
+
+  /** Normalized phone number the code was sent to */
+  readonly phoneNumber: string;
+
+  /** HMAC of the code (hex) */
+  readonly codeHash: string;
+
+  /** When the code stops working */
+  readonly expiresAt: Date;
+
+  /** Guesses so far, right or wrong */
+  readonly attempts: number;
+
+  /** When the code was used (null if unused) */
+  readonly consumedAt: Date | null;
+
+  /** When the code was sent */
+  readonly createdAt: Date;
+}
+
+/**
+ * Data required to create an OTP challenge
+ */
+export interface CreateOtpChallengeData {
+  phoneNumber: string;
+  codeHash: string;
+  expiresAt: Date;
+}
@@ -0,0 +1,76 @@
+import { Injectable } from '@nestjs/common';
+import { OtpChallenge as PrismaOtpChallenge } from '@prisma/client';
+import { PrismaService } from '../../database/prisma.service';
+import { OtpChallenge, CreateOtpChallengeData } from './otp-challenge.entity';
+import { IOtpChallengeRepository } from './otp-challenge-repository.interface';
+
+/**
+ * Prisma OTP Challenge Repository
+ *
+ * Production implementation using PostgreSQL via Prisma. Attempts are
+ * incremented in the database and consumption is a conditional update, so
+ * concurrent requests on other instances see the same counts.
+ */
+@Injectable()
+export class PrismaOtpChallengeRepository implements IOtpChallengeRepository {
+  constructor(private readonly prisma: PrismaService) {}
+
+  async create(data: CreateOtpChallengeData): Promise<OtpChallenge> {
+    const challenge = await this.prisma.otpChallenge.create({
+      data: {
+        phoneNumber: data.phoneNumber,
+        codeHash: data.codeHash,
+        expiresAt: data.expiresAt,
+      },
+    });
+    return this.toDomain(challenge);
+  }
+
+  async findLatestByPhoneNumber(phoneNumber: string): Promise<OtpChallenge | null> {
+    const challenge = await this.prisma.otpChallenge.findFirst({
+      where: { phoneNumber },
+      orderBy: { createdAt: 'desc' },
+    });
+    return challenge ? this.toDomain(challenge) : null;
+  }
+
+  async findCreatedSince(phoneNumber: string, since: Date): Promise<OtpChallenge[]> {
+    const challenges = await this.prisma.otpChallenge.findMany({
+      where: { phoneNumber, createdAt: { gte: since } },
+      orderBy: { createdAt: 'asc' },
+    });
+    return challenges.map((challenge) => this.toDomain(challenge));
+  }
+
+  async recordAttempt(id: string): Promise<number> {
+    const challenge = await this.prisma.otpChallenge.update({
+      where: { id },
+      data: { attempts: { increment: 1 } },
+    });
+    return challenge.attempts;
+  }
+
+  async consume(id: string, consumedAt: Date): Promise<boolean> {
+    const { count } = await this.prisma.otpChallenge.updateMany({
+      where: { id, consumedAt: null },
+      data: { consumedAt },
+    });
+    return count === 1;
+  }
+
+  // ==========================================================================
+  // Private Helpers
+  // ==========================================================================
+
+  private toDomain(challenge: PrismaOtpChallenge): OtpChallenge {
+    return {
+      id: challenge.id,
+      phoneNumber: challenge.phoneNumber,
+      codeHash: challenge.codeHash,
+      expiresAt: challenge.expiresAt,
+      attempts: challenge.attempts,
+      consumedAt: challenge.consumedAt,
+      createdAt: challenge.createdAt,
+    };
+  }
+}
@@ -0,0 +1,276 @@
+import {
+  Body,
+  Controller,
+  Get,
+  Header,
+  Headers,
+  HttpCode,
+  HttpStatus,
+  Param,
+  Patch,
+  Post,
+  Put,
+  Query,
+  StreamableFile,
+  UploadedFile,
+  UseGuards,
+  UseInterceptors,
+} from '@nestjs/common';
+import { FileInterceptor } from '@nestjs/platform-express';
+import { Readable } from 'stream';
+import { ApiResponse, PaginatedResponse, PaginationMeta } from '../common/api/api-response';
+import { JwtAuthGuard } from '../auth/guards/jwt-auth.guard';
+import { RolesGuard } from '../auth/guards/roles.guard';
+import { Roles } from '../auth/decorators/roles.decorator';
+import { CurrentUser } from '../auth/decorators/current-user.decorator';
+import { UserRole } from '../auth/interfaces/auth-user.interface';
+import { UploadedFilePayload } from '../files/dto';
+import { CatalogAdminService } from './catalog-admin.service';
+import { ProductCsvService } from './product-csv.service';
+import { PRODUCT_IMPORT_MAX_BYTES } from './csv/product-csv';
+import { ProductImportFileRequiredException } from './exceptions';
+import {
+  AdminProductDto,
+  ChangePriceDto,
+  CreateProductDto,
+  ProductImportReport,
+  SetFeaturedDto,
+  UpdateProductDto,
+} from './dto';
+
+/**
+ * Catalog Admin Controller
+ *
+ * Product management for admins. Every change is audit logged.
+ *
+ * GET   /api/v1/admin/catalog/products
+ * GET   /api/v1/admin/catalog/products/export
+ * POST  /api/v1/admin/catalog/products/import?dryRun=true
+ * GET   /api/v1/admin/catalog/products/:id
+ * POST  /api/v1/admin/catalog/products
+ * PATCH /api/v1/admin/catalog/products/:id
+ * PUT   /api/v1/admin/catalog/products/:id/price
+ * PUT   /api/v1/admin/catalog/products/:id/featured
+ * POST  /api/v1/admin/catalog/products/:id/deactivate
+ * POST  /api/v1/admin/catalog/products/:id/reactivate
+ */
+@Controller('admin/catalog/products')
+@UseGuards(JwtAuthGuard, RolesGuard)
+@Roles(UserRole.ADMIN)
+export class CatalogAdminController {
+  constructor(
+    private readonly catalogAdminService: CatalogAdminService,
+    private readonly productCsvService: ProductCsvService,
+  ) {}
+
+  /**
+   * List products, including inactive ones unless includeInactive=false
+   * GET /api/v1/admin/catalog/products
+   */
+  @Get()
+  async listProducts(
+    @Query('search') search?: string,
+    @Query('category') category?: string,
+    @Query('includeInactive') includeInactive?: string,
+    @Query('page') page?: string,
+    @Query('limit') limit?: string,
+    @Headers('x-correlation-id') correlationId?: string,
+  ): Promise<PaginatedResponse<AdminProductDto>> {
+    const result = await this.catalogAdminService.listProducts({
+      search: search?.trim() || undefined,
+      category: category?.trim() || undefined,
+      includeInactive: includeInactive?.toLowerCase() !== 'false',
+      page: this.parseIntParam(page, 1),
+      limit: this.parseIntParam(limit, 20),
+    });
+
+    const pagination: PaginationMeta = {
+      page: result.page,
+      limit: result.limit,
+      total: result.total,
+      totalPages: result.totalPages,
+      hasNextPage: result.hasNextPage,
+      hasPreviousPage: result.hasPreviousPage,
+    };
+
+    return ApiResponse.paginated(
+      result.items,
+      pagination,
+      'Products retrieved successfully',
+      correlationId,
+    );
+  }
+
+  /**
+   * Download the whole catalog as CSV (streamed page by page)
+   * GET /api/v1/admin/catalog/products/export
+   */
+  @Get('export')
+  @Header('Cache-Control', 'no-store')
+  exportProducts(): StreamableFile {
+    return new StreamableFile(Readable.from(this.productCsvService.export()), {
+      type: 'text/csv; charset=utf-8',
+      disposition: 'attachment; filename="products.csv"',
+    });
+  }
+
+  /**
+   * Import products from CSV (multipart/form-data: `file`), upserting by id.
+   * With dryRun=true only validates and reports what would change.
+   * POST /api/v1/admin/catalog/products/import
+   */
+  @Post('import')
+  @HttpCode(HttpStatus.OK)
+  @UseInterceptors(
+    FileInterceptor('file', { limits: { fileSize: PRODUCT_IMPORT_MAX_BYTES, files: 1 } }),
+  )
+  async importProducts(
+    @CurrentUser('id') adminId: string,
+    @UploadedFile() file: UploadedFilePayload | undefined,
+    @Query('dryRun') dryRun?: string,
+    @Headers('x-correlation-id') correlationId?: string,
+  ): Promise<ApiResponse<ProductImportReport>> {
+    if (!file) {
+      throw new ProductImportFileRequiredException();
+    }
+    const csv = file.buffer.toString('utf8');
+
+    if (dryRun?.toLowerCase() === 'true') {
+      const report = await this.productCsvService.dryRun(adminId, csv);
+      return ApiResponse.success(report, 'Import validated (dry run)');
+    }
+    const report = await this.productCsvService.import(adminId, csv, correlationId);
+    return ApiResponse.success(report, 'Products imported successfully');
+  }
+
+  /**
+   * Get a product, active or not
+   * GET /api/v1/admin/catalog/products/:id
+   */
+  @Get(':id')
+  async getProduct(@Param('id') productId: string): Promise<ApiResponse<AdminProductDto>> {
+    const product = await this.catalogAdminService.getProduct(productId);
+    return ApiResponse.success(product, 'Product retrieved successfully');
+  }
+
+  /**
+   * Create a product
+   * POST /api/v1/admin/catalog/products
+   */
+  @Post()
+  async createProduct(
+    @CurrentUser('id') adminId: string,
+    @Body() dto: CreateProductDto,
+    @Headers('x-correlation-id') correlationId?: string,
+  ): Promise<ApiResponse<AdminProductDto>> {
+    const product = await this.catalogAdminService.createProduct(adminId, dto, correlationId);
+    return ApiResponse.success(product, 'Product created successfully');
+  }
+
+  /**
+   * Update name, description, category or prescription requirement
+   * PATCH /api/v1/admin/catalog/products/:id
+   */
+  @Patch(':id')
+  async updateProduct(
+    @CurrentUser('id') adminId: string,
+    @Param('id') productId: string,
+    @Body() dto: UpdateProductDto,
+    @Headers('x-correlation-id') correlationId?: string,
+  ): Promise<ApiResponse<AdminProductDto>> {
+    const product = await this.catalogAdminService.updateProduct(
+      adminId,
+      productId,
+      dto,
+      correlationId,
+    );
+    return ApiResponse.success(product, 'Product updated successfully');
+  }
+
+  /**
+   * Change price
+   * PUT /api/v1/admin/catalog/products/:id/price
+   */
+  @Put(':id/price')
+  async changePrice(
+    @CurrentUser('id') adminId: string,
+    @Param('id') productId: string,
+    @Body() dto: ChangePriceDto,
+    @Headers('x-correlation-id') correlationId?: string,
+  ): Promise<ApiResponse<AdminProductDto>> {
+    const product = await this.catalogAdminService.changePrice(
+      adminId,
+      productId,
+      dto.price,
+      correlationId,
+    );
+    return ApiResponse.success(product, 'Product price updated successfully');
+  }
+
+  /**
+   * Feature or un-feature
+   * PUT /api/v1/admin/catalog/products/:id/featured
+   */
+  @Put(':id/featured')
+  async setFeatured(
+    @CurrentUser('id') adminId: string,
+    @Param('id') productId: string,
+    @Body() dto: SetFeaturedDto,
+    @Headers('x-correlation-id') correlationId?: string,
+  ): Promise<ApiResponse<AdminProductDto>> {
+    const product = await this.catalogAdminService.setFeatured(
+      adminId,
+      productId,
+      dto.featured,
+      correlationId,
+    );
+    return ApiResponse.success(product, 'Product featured flag updated successfully');
+  }
+
+  /**
+   * Soft-deactivate (hide from storefront)
+   * POST /api/v1/admin/catalog/products/:id/deactivate
+   */
+  @Post(':id/deactivate')
+  @HttpCode(HttpStatus.OK)
+  async deactivateProduct(
+    @CurrentUser('id') adminId: string,
+    @Param('id') productId: string,
+    @Headers('x-correlation-id') correlationId?: string,
+  ): Promise<ApiResponse<AdminProductDto>> {
+    const product = await this.catalogAdminService.deactivateProduct(
+      adminId,
+      productId,
+      correlationId,
+    );
+    return ApiResponse.success(product, 'Product deactivated successfully');
+  }
+
+  /**
+   * Reactivate a deactivated product
+   * POST /api/v1/admin/catalog/products/:id/reactivate
+   */
+  @Post(':id/reactivate')
+  @HttpCode(HttpStatus.OK)
+  async reactivateProduct(
+    @CurrentUser('id') adminId: string,
+    @Param('id') productId: string,
+    @Headers('x-correlation-id') correlationId?: string,
+  ): Promise<ApiResponse<AdminProductDto>> {
+    const product = await this.catalogAdminService.reactivateProduct(
+      adminId,
+      productId,
+      correlationId,
+    );
+    return ApiResponse.success(product, 'Product reactivated successfully');
+  }
+
+  /**
+   * Parse string to integer with default
+   */
+  private parseIntParam(value: string | undefined, defaultValue: number): number {
+    if (!value) return defaultValue;
+    const parsed = parseInt(value, 10);
+    return isNaN(parsed) ? defaultValue : parsed;
+  }
+}
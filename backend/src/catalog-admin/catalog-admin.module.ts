@@ -0,0 +1,26 @@
+import { Module } from '@nestjs/common';
+import { CatalogAdminController } from './catalog-admin.controller';
+import { CatalogAdminService } from './catalog-admin.service';
+import { ProductCsvService } from './product-csv.service';
+import { AuthModule } from '../auth/auth.module';
+import { CatalogModule } from '../catalog/catalog.module';
+
+/**
+ * Catalog Admin Module
+ *
+ * Admin product management: create, update details, change price,
+ * feature/un-feature, deactivate/reactivate, and bulk CSV import/export.
+ *
+ * Writes go through CatalogModule's product write repository, which shares
+ * its store with the read repository, so changes are visible to the
+ * storefront immediately. Every change is recorded via AuditService.
+ */
+@Module({
+  imports: [
+    AuthModule, // For JwtAuthGuard
+    CatalogModule, // Product repositories
+  ],
+  controllers: [CatalogAdminController],
+  providers: [CatalogAdminService, ProductCsvService],
+})
+export class CatalogAdminModule {}
@@ -0,0 +1,206 @@
+import { CatalogAdminService } from './catalog-admin.service';
+import { InvalidProductDataException } from './exceptions';
+import { InMemoryProductRepository } from '../catalog/repositories/in-memory-product.repository';
+import { CatalogQueryService } from '../catalog/catalog-query.service';
+import { ProductCategory } from '../catalog/domain';
+import { ProductAlreadyExistsException, ProductNotFoundException } from '../catalog/exceptions';
+import { AuditService } from '../audit/audit.service';
+import { InMemoryAuditLogRepository } from '../audit/repositories/in-memory-audit-log.repository';
+import { InventoryService } from '../inventory/inventory.service';
+import { InMemoryStockRepository } from '../inventory/repositories/in-memory-stock.repository';
+
+/**
+ * CatalogAdminService tests
+ *
+ * Verifies:
+ * - Products can be created, updated, repriced, featured and deactivated
+ * - Changes are visible to the storefront query service
+ * - Validation of names, prices and prescription categories
+ * - Each change is audit logged with before/after values; no-op changes are not
+ */
+describe('CatalogAdminService', () => {
+  let service: CatalogAdminService;
+  let repository: InMemoryProductRepository;
+  let catalogQueryService: CatalogQueryService;
+  let auditService: AuditService;
+  let logDataChange: jest.SpyInstance;
+
+  const adminId = 'admin-1';
+
+  const newProduct = {
+    id: 'prod-new',
+    name: 'Zinc 50mg',
+    description: 'Zinc supplement',
+    category: ProductCategory.SUPPLEMENTS,
+    price: 120.5,
+    requiresPrescription: false,
+  };
+
+  beforeEach(() => {
+    repository = new InMemoryProductRepository();
+    auditService = new AuditService(new InMemoryAuditLogRepository());
+    logDataChange = jest.spyOn(auditService, 'logDataChange').mockResolvedValue();
+    service = new CatalogAdminService(repository, repository, auditService);
+    catalogQueryService = new CatalogQueryService(
+      repository,
+      new InventoryService(new InMemoryStockRepository()),
+    );
+  });
+
+  afterEach(() => {
+    repository.clear();
+  });
+
+  describe('createProduct', () => {
+    it('creates a product and audits it', async () => {
+      const created = await service.createProduct(adminId, newProduct);
+
+      expect(created).toMatchObject({
+        id: 'prod-new',
+        name: 'Zinc 50mg',
+        price: { amount: 120.5, currency: 'INR' },
+        isFeatured: false,
+        isActive: true,
+      });
+      expect((await catalogQueryService.getProductById('prod-new')).name).toBe('Zinc 50mg');
+      expect(logDataChange).toHaveBeenCalledWith(
+        adminId,
+        'product',
+        'prod-new',
+        'create',
+        expect.objectContaining({ after: expect.objectContaining({ name: 'Zinc 50mg' }) }),
+        undefined,
+      );
+    });
+
+    it('generates an ID when none is given', async () => {
+      const { id, ...withoutId } = newProduct;
+      const created = await service.createProduct(adminId, withoutId);
+
+      expect(created.id).not.toBe(id);
+      expect(await repository.findById(created.id)).not.toBeNull();
+    });
+
+    it('rejects a duplicate ID', async () => {
+      await expect(
+        service.createProduct(adminId, { ...newProduct, id: 'prod-001' }),
+      ).rejects.toThrow(ProductAlreadyExistsException);
+    });
+
+    it('rejects blank names and prescription categories sold without prescription', async () => {
+      await expect(service.createProduct(adminId, { ...newProduct, name: '   ' })).rejects.toThrow(
+        InvalidProductDataException,
+      );
+      await expect(
+        service.createProduct(adminId, {
+          ...newProduct,
+          category: ProductCategory.PRESCRIPTION,
+          requiresPrescription: false,
+        }),
+      ).rejects.toThrow(InvalidProductDataException);
+      expect(logDataChange).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('updates', () => {
+    it('updates details and audits only the changed fields', async () => {
+      const updated = await service.updateProduct(adminId, 'prod-001', {
+        name: 'Paracetamol 650mg',
+        category: ProductCategory.GENERAL,
+      });
+
+      expect(updated.name).toBe('Paracetamol 650mg');
+      expect(logDataChange).toHaveBeenCalledWith(
+        adminId,
+        'product',
+        'prod-001',
+        'update',
+        {
+          name: { from: 'Paracetamol 500mg', to: 'Paracetamol 650mg' },
+        },
+        undefined,
+      );
+    });
+
+    it('changes the price seen by the storefront', async () => {
+      await service.changePrice(adminId, 'prod-001', 30);
+
+      expect((await catalogQueryService.getProductById('prod-001')).price.amount).toBe(30);
+      expect(logDataChange).toHaveBeenCalledWith(
+        adminId,
+        'product',
+        'prod-001',
+        'update',
+        {
+          price: { from: { amount: 25, currency: 'INR' }, to: { amount: 30, currency: 'INR' } },
+        },
+        undefined,
+      );
+    });
+
+    it('rejects a non-positive price', async () => {
+      await expect(service.changePrice(adminId, 'prod-001', 0)).rejects.toThrow(
+        InvalidProductDataException,
+      );
+    });
+
+    it('toggles the featured flag', async () => {
+      const featured = await service.setFeatured(adminId, 'prod-001', true);
+      expect(featured.isFeatured).toBe(true);
+
+      const unfeatured = await service.setFeatured(adminId, 'prod-001', false);
+      expect(unfeatured.isFeatured).toBe(false);
+    });
+
+    it('does not write or audit a change that alters nothing', async () => {
+      const before = await service.getProduct('prod-001');
+
+      const after = await service.changePrice(adminId, 'prod-001', before.price.amount);
+
+      expect(after.updatedAt).toBe(before.updatedAt);
+      expect(logDataChange).not.toHaveBeenCalled();
+    });
+
+    it('throws for an unknown product', async () => {
+      await expect(service.setFeatured(adminId, 'unknown', true)).rejects.toThrow(
+        ProductNotFoundException,
+      );
+    });
+  });
+
+  describe('deactivation', () => {
+    it('hides a deactivated product from the storefront but not from admins', async () => {
+      await service.deactivateProduct(adminId, 'prod-001');
+
+      await expect(catalogQueryService.getProductById('prod-001')).rejects.toThrow(
+        ProductNotFoundException,
+      );
+      expect((await service.getProduct('prod-001')).isActive).toBe(false);
+
+      const all = await service.listProducts({ search: 'Paracetamol' });
+      expect(all.items.map((p) => p.id)).toContain('prod-001');
+      const activeOnly = await service.listProducts({
+        search: 'Paracetamol',
+        includeInactive: false,
+      });
+      expect(activeOnly.items.map((p) => p.id)).not.toContain('prod-001');
+    });
+
+    it('reactivates a product', async () => {
+      await service.deactivateProduct(adminId, 'prod-001');
+      await service.reactivateProduct(adminId, 'prod-001');
+
+      expect((await catalogQueryService.getProductById('prod-001')).isActive).toBe(true);
+      expect(logDataChange).toHaveBeenLastCalledWith(
+        adminId,
+        'product',
+        'prod-001',
+        'update',
+        {
+          isActive: { from: false, to: true },
+        },
+        undefined,
+      );
+    });
+  });
+});
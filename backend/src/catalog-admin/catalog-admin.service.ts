@@ -0,0 +1,436 @@
+import { Inject, Injectable } from '@nestjs/common';
+import { randomUUID } from 'crypto';
+import {
+  PRODUCT_REPOSITORY,
+  PRODUCT_WRITE_REPOSITORY,
+  IProductRepository,
+  IProductWriteRepository,
+} from '../catalog/repositories';
+import {
+  CreateProductData,
+  Money,
+  Product,
+  ProductCategory,
+  UpdateProductData,
+  categoryRequiresPrescription,
+  createProduct,
+  getAllCategories,
+  updateProduct,
+} from '../catalog/domain';
+import { ProductSearchCriteria } from '../catalog/queries';
+import {
+  InvalidProductCategoryException,
+  ProductAlreadyExistsException,
+  ProductNotFoundException,
+} from '../catalog/exceptions';
+import { AuditService } from '../audit/audit.service';
+import { logWithCorrelation } from '../common/logging/logger';
+import { AdminProductDto, AdminProductListResult, toAdminProductDto } from './dto';
+import { InvalidProductDataException } from './exceptions';
+
+/**
+ * Admin Product List Parameters
+ */
+export interface AdminProductListParams {
+  search?: string;
+  category?: string;
+  /** Include deactivated products (default: true) */
+  includeInactive?: boolean;
+  page?: number;
+  limit?: number;
+}
+
+/**
+ * New product input (price in rupees)
+ */
+export interface CreateProductInput {
+  id?: string;
+  name: string;
+  description?: string | null;
+  category: ProductCategory;
+  price: number;
+  requiresPrescription: boolean;
+  isFeatured?: boolean;
+}
+
+/**
+ * Editable product details; price, featured and active flags have their own operations
+ */
+export interface UpdateProductDetailsInput {
+  name?: string;
+  description?: string | null;
+  category?: ProductCategory;
+  requiresPrescription?: boolean;
+}
+
+/**
+ * Full product state for an upsert (bulk import); price already in Money.
+ * An omitted description keeps the existing one.
+ */
+export interface UpsertProductInput {
+  id?: string;
+  name: string;
+  description?: string | null;
+  category: ProductCategory;
+  price: Money;
+  requiresPrescription: boolean;
+  isFeatured: boolean;
+  isActive: boolean;
+}
+
+export type ProductUpsertOutcome = 'created' | 'updated' | 'unchanged';
+
+/**
+ * Catalog Admin Service
+ *
+ * Creates and changes catalog products on behalf of admins.
+ *
+ * Design decisions:
+ * - Products are never deleted; deactivation hides them from the storefront
+ * - Every change that alters a product is audit logged with before/after values
+ * - Changes that alter nothing are not written or audited
+ * - Products in prescription categories must require a prescription
+ */
+@Injectable()
+export class CatalogAdminService {
+  constructor(
+    @Inject(PRODUCT_REPOSITORY)
+    private readonly productRepository: IProductRepository,
+    @Inject(PRODUCT_WRITE_REPOSITORY)
+    private readonly productWriteRepository: IProductWriteRepository,
+    private readonly auditService: AuditService,
+  ) {}
+
+  /**
+   * List products, including inactive ones unless excluded
+   */
+  async listProducts(params: AdminProductListParams = {}): Promise<AdminProductListResult> {
+    const criteria = ProductSearchCriteria.create({
+      searchText: params.search,
+      category: params.category ? this.parseCategory(params.category) : null,
+      activeOnly: params.includeInactive === false,
+      page: params.page,
+      limit: params.limit,
+    });
+
+    const result = await this.productRepository.search(criteria);
+
+    return {
+      items: result.items.map(toAdminProductDto),
+      total: result.total,
+      page: result.page,
+      limit: result.limit,
+      totalPages: result.totalPages,
+      hasNextPage: result.hasNextPage,
+      hasPreviousPage: result.hasPreviousPage,
+    };
+  }
+
+  /**
+   * Get a product, active or not
+   * @throws ProductNotFoundException if the product does not exist
+   */
+  async getProduct(productId: string): Promise<AdminProductDto> {
+    return toAdminProductDto(await this.findProduct(productId));
+  }
+
+  /**
+   * Add a product to the catalog
+   * @throws ProductAlreadyExistsException if the ID is already taken
+   */
+  async createProduct(
+    adminId: string,
+    input: CreateProductInput,
+    correlationId?: string,
+  ): Promise<AdminProductDto> {
+    const productId = input.id ?? randomUUID();
+    if (await this.productRepository.findById(productId)) {
+      throw new ProductAlreadyExistsException(productId);
+    }
+
+    this.assertName(input.name);
+    this.assertPrescriptionRule(input.category, input.requiresPrescription);
+
+    const product = await this.insertProduct(
+      adminId,
+      {
+        id: productId,
+        name: input.name,
+        description: input.description ?? null,
+        category: input.category,
+        price: this.toMoney(input.price),
+        requiresPrescription: input.requiresPrescription,
+        isFeatured: input.isFeatured ?? false,
+      },
+      correlationId,
+    );
+
+    return toAdminProductDto(product);
+  }
+
+  /**
+   * Change name, description, category or prescription requirement
+   */
+  async updateProduct(
+    adminId: string,
+    productId: string,
+    input: UpdateProductDetailsInput,
+    correlationId?: string,
+  ): Promise<AdminProductDto> {
+    const product = await this.findProduct(productId);
+
+    if (input.name !== undefined) {
+      this.assertName(input.name);
+    }
+    this.assertPrescriptionRule(
+      input.category ?? product.category,
+      input.requiresPrescription ?? product.requiresPrescription,
+    );
+
+    return toAdminProductDto(await this.applyChanges(adminId, product, input, correlationId));
+  }
+
+  /**
+   * Change a product's price (in rupees)
+   */
+  async changePrice(
+    adminId: string,
+    productId: string,
+    price: number,
+    correlationId?: string,
+  ): Promise<AdminProductDto> {
+    const product = await this.findProduct(productId);
+    return toAdminProductDto(
+      await this.applyChanges(adminId, product, { price: this.toMoney(price) }, correlationId),
+    );
+  }
+
+  /**
+   * Feature or un-feature a product on the homepage
+   */
+  async setFeatured(
+    adminId: string,
+    productId: string,
+    featured: boolean,
+    correlationId?: string,
+  ): Promise<AdminProductDto> {
+    const product = await this.findProduct(productId);
+    return toAdminProductDto(
+      await this.applyChanges(adminId, product, { isFeatured: featured }, correlationId),
+    );
+  }
+
+  /**
+   * Hide a product from the storefront (soft delete)
+   */
+  async deactivateProduct(
+    adminId: string,
+    productId: string,
+    correlationId?: string,
+  ): Promise<AdminProductDto> {
+    const product = await this.findProduct(productId);
+    return toAdminProductDto(
+      await this.applyChanges(adminId, product, { isActive: false }, correlationId),
+    );
+  }
+
+  /**
+   * Return a deactivated product to the storefront
+   */
+  async reactivateProduct(
+    adminId: string,
+    productId: string,
+    correlationId?: string,
+  ): Promise<AdminProductDto> {
+    const product = await this.findProduct(productId);
+    return toAdminProductDto(
+      await this.applyChanges(adminId, product, { isActive: true }, correlationId),
+    );
+  }
+
+  /**
+   * Create the product, or overwrite every given field of the existing one
+   * (bulk import). With dryRun, reports the outcome without writing or auditing.
+   */
+  async upsertProduct(
+    adminId: string,
+    input: UpsertProductInput,
+    options: { dryRun?: boolean; correlationId?: string } = {},
+  ): Promise<ProductUpsertOutcome> {
+    this.assertName(input.name);
+    this.assertPrescriptionRule(input.category, input.requiresPrescription);
+
+    const existing = input.id ? await this.productRepository.findById(input.id) : null;
+
+    if (!existing) {
+      if (!options.dryRun) {
+        await this.insertProduct(
+          adminId,
+          {
+            id: input.id ?? randomUUID(),
+            name: input.name,
+            description: input.description ?? null,
+            category: input.category,
+            price: input.price,
+            requiresPrescription: input.requiresPrescription,
+            isFeatured: input.isFeatured,
+            isActive: input.isActive,
+          },
+          options.correlationId,
+        );
+      }
+      return 'created';
+    }
+
+    const changes: UpdateProductData = {
+      name: input.name,
+      description: input.description,
+      category: input.category,
+      price: input.price,
+      requiresPrescription: input.requiresPrescription,
+      isFeatured: input.isFeatured,
+      isActive: input.isActive,
+    };
+    if (this.changedFields(existing, updateProduct(existing, changes)).length === 0) {
+      return 'unchanged';
+    }
+    if (!options.dryRun) {
+      await this.applyChanges(adminId, existing, changes, options.correlationId);
+    }
+    return 'updated';
+  }
+
+  // ==========================================================================
+  // Private Helpers
+  // ==========================================================================
+
+  private async findProduct(productId: string): Promise<Product> {
+    const product = await this.productRepository.findById(productId);
+    if (!product) {
+      throw new ProductNotFoundException(productId);
+    }
+    return product;
+  }
+
+  private async insertProduct(
+    adminId: string,
+    data: CreateProductData,
+    correlationId?: string,
+  ): Promise<Product> {
+    const product = await this.productWriteRepository.create(createProduct(data));
+    const productId = product.id.toString();
+
+    await this.auditService.logDataChange(
+      adminId,
+      'product',
+      productId,
+      'create',
+      { after: this.toAuditValues(product) },
+      correlationId,
+    );
+    this.log(correlationId, `Product created: ${product.name}`, adminId, productId);
+
+    return product;
+  }
+
+  /**
+   * Persist and audit changes; a no-op change leaves the product untouched
+   */
+  private async applyChanges(
+    adminId: string,
+    product: Product,
+    changes: UpdateProductData,
+    correlationId?: string,
+  ): Promise<Product> {
+    const updated = updateProduct(product, changes);
+    const changed = this.changedFields(product, updated);
+    if (changed.length === 0) {
+      return product;
+    }
+
+    const saved = await this.productWriteRepository.update(updated);
+    const productId = saved.id.toString();
+    const before = this.toAuditValues(product);
+    const after = this.toAuditValues(saved);
+
+    await this.auditService.logDataChange(
+      adminId,
+      'product',
+      productId,
+      'update',
+      Object.fromEntries(
+        changed.map((field) => [field, { from: before[field], to: after[field] }]),
+      ),
+      correlationId,
+    );
+    this.log(correlationId, `Product updated: ${changed.join(', ')}`, adminId, productId);
+
+    return saved;
+  }
+
+  private changedFields(before: Product, after: Product): string[] {
+    const beforeValues = this.toAuditValues(before);
+    const afterValues = this.toAuditValues(after);
+    return Object.keys(afterValues).filter(
+      (field) => JSON.stringify(beforeValues[field]) !== JSON.stringify(afterValues[field]),
+    );
+  }
+
+  private toAuditValues(product: Product): Record<string, unknown> {
+    return {
+      name: product.name,
+      description: product.description,
+      category: product.category,
+      price: product.price.toJSON(),
+      requiresPrescription: product.requiresPrescription,
+      isFeatured: product.isFeatured,
+      isActive: product.isActive,
+    };
+  }
+
+  private toMoney(priceInRupees: number): Money {
+    if (!Number.isFinite(priceInRupees) || priceInRupees <= 0) {
+      throw new InvalidProductDataException('Price must be greater than zero', {
+        price: priceInRupees,
+      });
+    }
+    return Money.fromMajorUnits(priceInRupees);
+  }
+
+  private assertName(name: string): void {
+    if (name.trim().length === 0) {
+      throw new InvalidProductDataException('Product name cannot be empty');
+    }
+  }
+
+  private assertPrescriptionRule(category: ProductCategory, requiresPrescription: boolean): void {
+    if (categoryRequiresPrescription(category) && !requiresPrescription) {
+      throw new InvalidProductDataException(
+        `Products in category ${category} must require a prescription`,
+        { category },
+      );
+    }
+  }
+
+  private parseCategory(categoryCode: string): ProductCategory {
+    const upperCode = categoryCode.toUpperCase();
+    if (!getAllCategories().includes(upperCode as ProductCategory)) {
+      throw new InvalidProductCategoryException(categoryCode);
+    }
+    return upperCode as ProductCategory;
+  }
+
+  private log(
+    correlationId: string | undefined,
+    message: string,
+    adminId: string,
+    productId: string,
+  ): void {
+    if (correlationId) {
+      logWithCorrelation('INFO', correlationId, message, 'CatalogAdminService', {
+        adminId,
+        productId,
+      });
+    }
+  }
+}
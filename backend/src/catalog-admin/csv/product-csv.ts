@@ -0,0 +1,284 @@
+import {
+  Money,
+  Product,
+  ProductCategory,
+  categoryRequiresPrescription,
+} from '../../catalog/domain';
+import { UpsertProductInput } from '../catalog-admin.service';
+import { ProductImportRowError } from '../dto';
+import { CsvSyntaxError, parseCsv } from '../../common/csv/csv-parser';
+
+/**
+ * Product CSV format
+ *
+ * Header row required; column order is free. `id` and `description` are
+ * optional columns: rows without an id create new products, and a missing
+ * description column keeps existing descriptions. Prices are in paise.
+ *
+ * Rows are numbered as in a spreadsheet: the header is row 1.
+ */
+export const PRODUCT_CSV_COLUMNS = [
+  'id',
+  'name',
+  'description',
+  'category',
+  'pricePaise',
+  'requiresPrescription',
+  'featured',
+  'active',
+] as const;
+
+const REQUIRED_COLUMNS = [
+  'name',
+  'category',
+  'pricePaise',
+  'requiresPrescription',
+  'featured',
+  'active',
+];
+
+export const PRODUCT_IMPORT_MAX_BYTES = 1024 * 1024;
+export const PRODUCT_IMPORT_MAX_ROWS = 5000;
+
+/** Prices are stored as a 32-bit integer column */
+const MAX_PRICE_PAISE = 2_147_483_647;
+const PRODUCT_ID_PATTERN = /^[A-Za-z0-9][A-Za-z0-9-]{0,63}$/;
+const BOOLEAN_VALUES: Record<string, boolean> = {
+  true: true,
+  yes: true,
+  '1': true,
+  false: false,
+  no: false,
+  '0': false,
+};
+
+/** Leading characters spreadsheets treat as a formula */
+const FORMULA_PREFIX = /^[=+\-@\t\r]/;
+
+export interface ParsedProductRow {
+  row: number;
+  input: UpsertProductInput;
+}
+
+/**
+ * Parse and validate a product CSV. Returns every valid row and every error;
+ * a file-level problem (bad header, unterminated quote) is reported on row 1
+ * or the row where it starts.
+ */
+export function parseProductCsv(text: string): {
+  rows: ParsedProductRow[];
+  errors: ProductImportRowError[];
+} {
+  let records: string[][];
+  try {
+    records = parseCsv(text.replace(/^\uFEFF/, ''));
+  } catch (error) {
+    if (error instanceof CsvSyntaxError) {
+      return { rows: [], errors: [{ row: error.row, field: null, message: error.message }] };
+    }
+    throw error;
+  }
+
+  const isBlank = (record: string[]) => record.every((cell) => cell.trim() === '');
+  const [header, ...data] = records;
+  if (!header || isBlank(header)) {
+    return { rows: [], errors: [{ row: 1, field: null, message: 'CSV file is empty' }] };
+  }
+
+  const columns = header.map((cell) => cell.trim());
+  const missing = REQUIRED_COLUMNS.filter((column) => !columns.includes(column));
+  const unknown = columns.filter(
+    (column) => !(PRODUCT_CSV_COLUMNS as readonly string[]).includes(column),
+  );
+  if (missing.length > 0 || unknown.length > 0) {
+    const problems = [
+      missing.length > 0 ? `missing columns: ${missing.join(', ')}` : null,
+      unknown.length > 0 ? `unknown columns: ${unknown.join(', ')}` : null,
+    ].filter(Boolean);
+    return {
+      rows: [],
+      errors: [{ row: 1, field: null, message: `Invalid header (${problems.join('; ')})` }],
+    };
+  }
+  const dataRows = data
+    .map((cells, index) => ({ row: index + 2, cells }))
+    .filter(({ cells }) => !isBlank(cells));
+  if (dataRows.length === 0) {
+    return { rows: [], errors: [{ row: 1, field: null, message: 'CSV file has no product rows' }] };
+  }
+  if (dataRows.length > PRODUCT_IMPORT_MAX_ROWS) {
+    return {
+      rows: [],
+      errors: [
+        { row: 1, field: null, message: `CSV file has more than ${PRODUCT_IMPORT_MAX_ROWS} rows` },
+      ],
+    };
+  }
+
+  const rows: ParsedProductRow[] = [];
+  const errors: ProductImportRowError[] = [];
+  const seenIds = new Map<string, number>();
+
+  for (const { row, cells } of dataRows) {
+    const record = Object.fromEntries(columns.map((column, i) => [column, cells[i] ?? '']));
+    const result = parseProductRow(record, row);
+
+    const id = record.id?.trim();
+    if (id) {
+      const firstRow = seenIds.get(id);
+      if (firstRow !== undefined) {
+        result.errors.push({
+          row,
+          field: 'id',
+          message: `Duplicate id (first used on row ${firstRow})`,
+        });
+      } else {
+        seenIds.set(id, row);
+      }
+    }
+
+    if (result.errors.length > 0) {
+      errors.push(...result.errors);
+    } else {
+      rows.push({ row, input: result.input! });
+    }
+  }
+
+  return { rows, errors };
+}
+
+/**
+ * Validate one data row against ProductCategory, Money and catalog rules
+ */
+function parseProductRow(
+  record: Record<string, string>,
+  row: number,
+): { input?: UpsertProductInput; errors: ProductImportRowError[] } {
+  const errors: ProductImportRowError[] = [];
+  const fail = (field: string, message: string) => errors.push({ row, field, message });
+
+  const id = record.id?.trim() || undefined;
+  if (id !== undefined && !PRODUCT_ID_PATTERN.test(id)) {
+    fail('id', 'id may contain only letters, digits and hyphens (max 64)');
+  }
+
+  const name = fromCell(record.name).trim();
+  if (name.length === 0) {
+    fail('name', 'name is required');
+  } else if (name.length > 200) {
+    fail('name', 'name must be at most 200 characters');
+  }
+
+  let description: string | null | undefined;
+  if ('description' in record) {
+    description = fromCell(record.description).trim() || null;
+    if (description && description.length > 2000) {
+      fail('description', 'description must be at most 2000 characters');
+    }
+  }
+
+  const categoryCode = record.category.trim().toUpperCase();
+  const category = Object.values(ProductCategory).includes(categoryCode as ProductCategory)
+    ? (categoryCode as ProductCategory)
+    : null;
+  if (!category) {
+    fail('category', `Invalid category: ${record.category.trim() || '(blank)'}`);
+  }
+
+  let price: Money | null = null;
+  const pricePaise = record.pricePaise.trim();
+  if (!/^\d+$/.test(pricePaise)) {
+    fail('pricePaise', 'pricePaise must be a whole number of paise');
+  } else if (Number(pricePaise) > MAX_PRICE_PAISE) {
+    fail('pricePaise', `pricePaise must be at most ${MAX_PRICE_PAISE}`);
+  } else {
+    price = Money.fromMinorUnits(Number(pricePaise));
+    if (price.isZero()) {
+      fail('pricePaise', 'pricePaise must be greater than zero');
+    }
+  }
+
+  const requiresPrescription = parseBoolean(
+    record.requiresPrescription,
+    'requiresPrescription',
+    fail,
+  );
+  const isFeatured = parseBoolean(record.featured, 'featured', fail);
+  const isActive = parseBoolean(record.active, 'active', fail);
+
+  if (category && requiresPrescription === false && categoryRequiresPrescription(category)) {
+    fail('requiresPrescription', `Products in category ${category} must require a prescription`);
+  }
+
+  if (errors.length > 0) {
+    return { errors };
+  }
+
+  return {
+    input: {
+      id,
+      name,
+      description,
+      category: category!,
+      price: price!,
+      requiresPrescription: requiresPrescription!,
+      isFeatured: isFeatured!,
+      isActive: isActive!,
+    },
+    errors,
+  };
+}
+
+function parseBoolean(
+  value: string,
+  field: string,
+  fail: (field: string, message: string) => void,
+): boolean | null {
+  const parsed = BOOLEAN_VALUES[value.trim().toLowerCase()];
+  if (parsed === undefined) {
+    fail(field, `${field} must be true or false`);
+    return null;
+  }
+  return parsed;
+}
+
+/**
+ * One CSV line (with trailing newline) for a product
+ */
+export function productToCsvLine(product: Product): string {
+  return toCsvLine([
+    product.id.toString(),
+    toCell(product.name),
+    toCell(product.description ?? ''),
+    product.category,
+    String(product.price.getAmountInMinorUnits()),
+    String(product.requiresPrescription),
+    String(product.isFeatured),
+    String(product.isActive),
+  ]);
+}
+
+export function productCsvHeaderLine(): string {
+  return toCsvLine([...PRODUCT_CSV_COLUMNS]);
+}
+
+function toCsvLine(values: string[]): string {
+  return (
+    values
+      .map((value) => (/[",\r\n]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value))
+      .join(',') + '\r\n'
+  );
+}
+
+/**
+ * Free text is prefixed with ' when a spreadsheet would run it as a formula;
+ * fromCell strips that prefix again so exports re-import unchanged.
+ */
+function toCell(value: string): string {
+  return FORMULA_PREFIX.test(value) ? `'${value}` : value;
+}
+
+function fromCell(value: string | undefined): string {
+  const cell = value ?? '';
+  return cell.startsWith("'") && FORMULA_PREFIX.test(cell.slice(1)) ? cell.slice(1) : cell;
+}
@@ -0,0 +1,137 @@
+import {
+  IsBoolean,
+  IsEnum,
+  IsNotEmpty,
+  IsNumber,
+  IsOptional,
+  IsPositive,
+  IsString,
+  Length,
+  Matches,
+} from 'class-validator';
+import { PRODUCT_CATEGORY_METADATA, Product, ProductCategory } from '../../catalog/domain';
+import { PriceDto } from '../../catalog/dto';
+
+/**
+ * Admin Product DTOs
+ *
+ * Request and response shapes for catalog management.
+ * Prices are accepted in major units (rupees).
+ */
+
+/**
+ * Product as seen by admins: includes inactive products and timestamps
+ */
+export interface AdminProductDto {
+  id: string;
+  name: string;
+  description: string | null;
+  category: string;
+  categoryLabel: string;
+  price: PriceDto;
+  requiresPrescription: boolean;
+  isFeatured: boolean;
+  isActive: boolean;
+  createdAt: string; // ISO 8601 string
+  updatedAt: string; // ISO 8601 string
+}
+
+export interface AdminProductListResult {
+  items: AdminProductDto[];
+  total: number;
+  page: number;
+  limit: number;
+  totalPages: number;
+  hasNextPage: boolean;
+  hasPreviousPage: boolean;
+}
+
+export class CreateProductDto {
+  /** Optional SKU-style ID; a UUID is generated when omitted */
+  @IsOptional()
+  @IsString()
+  @Length(1, 64)
+  @Matches(/^[A-Za-z0-9][A-Za-z0-9-]*$/, {
+    message: 'id may contain only letters, digits and hyphens',
+  })
+  id?: string;
+
+  @IsString()
+  @IsNotEmpty()
+  @Length(1, 200)
+  name: string;
+
+  @IsOptional()
+  @IsString()
+  @Length(0, 2000)
+  description?: string | null;
+
+  @IsEnum(ProductCategory)
+  category: ProductCategory;
+
+  @IsNumber({ maxDecimalPlaces: 2 })
+  @IsPositive()
+  price: number;
+
+  @IsBoolean()
+  requiresPrescription: boolean;
+
+  @IsOptional()
+  @IsBoolean()
+  isFeatured?: boolean;
+}
+
+export class UpdateProductDto {
+  @IsOptional()
+  @IsString()
+  @IsNotEmpty()
+  @Length(1, 200)
+  name?: string;
+
+  @IsOptional()
+  @IsString()
+  @Length(0, 2000)
+  description?: string | null;
+
+  @IsOptional()
+  @IsEnum(ProductCategory)
+  category?: ProductCategory;
+
+  @IsOptional()
+  @IsBoolean()
+  requiresPrescription?: boolean;
+}
+
+export class ChangePriceDto {
+  @IsNumber({ maxDecimalPlaces: 2 })
+  @IsPositive()
+  price: number;
+}
+
+export class SetFeaturedDto {
+  @IsBoolean()
+  featured: boolean;
+}
+
+/**
+ * Convert domain Product to AdminProductDto
+ */
+export function toAdminProductDto(product: Product): AdminProductDto {
+  return {
+    id: product.id.toString(),
+    name: product.name,
+    description: product.description,
+    category: product.category,
+    categoryLabel: PRODUCT_CATEGORY_METADATA[product.category].label,
+    price: {
+      amount: product.price.getAmount(),
+      currency: product.price.getCurrency(),
+      formatted: product.price.format(),
+    },
+    requiresPrescription: product.requiresPrescription,
+    isFeatured: product.isFeatured,
+    isActive: product.isActive,
+    createdAt: product.createdAt.toISOString(),
+    updatedAt: product.updatedAt.toISOString(),
+  };
+}
@@ -0,0 +1,10 @@
+export {
+  AdminProductDto,
+  AdminProductListResult,
+  CreateProductDto,
+  UpdateProductDto,
+  ChangePriceDto,
+  SetFeaturedDto,
+  toAdminProductDto,
+} from './admin-product.dto';
+export { ProductImportRowError, ProductImportReport } from './product-import.dto';
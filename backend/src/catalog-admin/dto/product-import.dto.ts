@@ -0,0 +1,26 @@
+/**
+ * Product CSV import DTOs
+ */
+
+/**
+ * One validation problem in an import file.
+ * `row` counts the header as row 1; `field` is null for file-level problems.
+ */
+export interface ProductImportRowError {
+  row: number;
+  field: string | null;
+  message: string;
+}
+
+/**
+ * Outcome of a product import. For a dry run the counts are what the
+ * import would do; nothing is written.
+ */
+export interface ProductImportReport {
+  dryRun: boolean;
+  totalRows: number;
+  created: number;
+  updated: number;
+  unchanged: number;
+  errors: ProductImportRowError[];
+}
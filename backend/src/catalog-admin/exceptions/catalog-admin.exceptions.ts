@@ -0,0 +1,40 @@
+import { HttpStatus } from '@nestjs/common';
+import { BusinessException } from '../../common/exceptions/business.exception';
+import { ProductImportRowError } from '../dto';
+
+/**
+ * Admin catalog exceptions
+ */
+
+/**
+ * Thrown when product data breaks a catalog rule
+ * (blank name, prescription category sold without prescription)
+ */
+export class InvalidProductDataException extends BusinessException {
+  constructor(message: string, details?: Record<string, unknown>) {
+    super('INVALID_PRODUCT_DATA', message, HttpStatus.BAD_REQUEST, details);
+  }
+}
+
+/**
+ * Thrown when an import request has no CSV file attached
+ */
+export class ProductImportFileRequiredException extends BusinessException {
+  constructor() {
+    super('PRODUCT_IMPORT_FILE_REQUIRED', 'A CSV file is required', HttpStatus.BAD_REQUEST);
+  }
+}
+
+/**
+ * Thrown when applying an import whose file fails validation; nothing is imported
+ */
+export class ProductImportInvalidException extends BusinessException {
+  constructor(errors: ProductImportRowError[]) {
+    super(
+      'PRODUCT_IMPORT_INVALID',
+      `Import file has ${errors.length} error(s); no products were imported`,
+      HttpStatus.BAD_REQUEST,
+      { errors },
+    );
+  }
+}
@@ -0,0 +1,5 @@
+export {
+  InvalidProductDataException,
+  ProductImportFileRequiredException,
+  ProductImportInvalidException,
+} from './catalog-admin.exceptions';
@@ -0,0 +1,32 @@
+/**
+ * Catalog Admin Module Public API
+ */
+
+// Module
+export { CatalogAdminModule } from './catalog-admin.module';
+
+// Service
+export {
+  CatalogAdminService,
+  AdminProductListParams,
+  CreateProductInput,
+  UpdateProductDetailsInput,
+  UpsertProductInput,
+  ProductUpsertOutcome,
+} from './catalog-admin.service';
+export { ProductCsvService } from './product-csv.service';
+
+// DTOs
+export {
+  AdminProductDto,
+  AdminProductListResult,
+  ProductImportReport,
+  ProductImportRowError,
+} from './dto';
+
+// Exceptions
+export {
+  InvalidProductDataException,
+  ProductImportFileRequiredException,
+  ProductImportInvalidException,
+} from './exceptions';
@@ -0,0 +1,186 @@
+import { ProductCsvService } from './product-csv.service';
+import { CatalogAdminService } from './catalog-admin.service';
+import { ProductImportInvalidException } from './exceptions';
+import { InMemoryProductRepository } from '../catalog/repositories/in-memory-product.repository';
+import { AuditService } from '../audit/audit.service';
+import { InMemoryAuditLogRepository } from '../audit/repositories/in-memory-audit-log.repository';
+
+/**
+ * ProductCsvService tests
+ *
+ * Verifies:
+ * - Dry run reports per-row errors and predicted outcomes without writing
+ * - Import is all-or-nothing on validation and upserts by id with audit logging
+ * - Export covers the whole catalog and re-imports unchanged
+ * - Quoted fields and spreadsheet formula escaping
+ */
+describe('ProductCsvService', () => {
+  let service: ProductCsvService;
+  let repository: InMemoryProductRepository;
+  let logDataChange: jest.SpyInstance;
+
+  const adminId = 'admin-1';
+  const header = 'id,name,description,category,pricePaise,requiresPrescription,featured,active';
+
+  const csv = (...rows: string[]) => [header, ...rows].join('\n');
+
+  async function exportCsv(): Promise<string> {
+    let text = '';
+    for await (const chunk of service.export()) {
+      text += chunk;
+    }
+    return text;
+  }
+
+  beforeEach(() => {
+    repository = new InMemoryProductRepository();
+    const auditService = new AuditService(new InMemoryAuditLogRepository());
+    logDataChange = jest.spyOn(auditService, 'logDataChange').mockResolvedValue();
+    service = new ProductCsvService(
+      repository,
+      new CatalogAdminService(repository, repository, auditService),
+    );
+  });
+
+  afterEach(() => {
+    repository.clear();
+  });
+
+  describe('dryRun', () => {
+    it('reports per-row errors against category, price and catalog rules', async () => {
+      const report = await service.dryRun(
+        adminId,
+        csv(
+          'prod-100,Zinc,,SUPPLEMENTS,12050,false,false,true',
+          'prod-101,Bad category,,SWEETS,100,false,false,true',
+          'prod-102,Bad price,,GENERAL,12.50,false,false,true',
+          'prod-103,Rx without prescription,,PRESCRIPTION,100,false,false,true',
+          'prod-104,,,GENERAL,100,maybe,false,true',
+          'prod-100,Duplicate,,GENERAL,100,false,false,true',
+        ),
+      );
+
+      expect(report.totalRows).toBe(6);
+      expect(report.created).toBe(1);
+      expect(report.errors.map((e) => [e.row, e.field])).toEqual([
+        [3, 'category'],
+        [4, 'pricePaise'],
+        [5, 'requiresPrescription'],
+        [6, 'name'],
+        [6, 'requiresPrescription'],
+        [7, 'id'],
+      ]);
+      expect(await repository.findById('prod-100')).toBeNull();
+    });
+
+    it('predicts created, updated and unchanged rows without writing', async () => {
+      const exported = (await exportCsv()).split('\r\n').find((l) => l.startsWith('prod-001,'))!;
+
+      const report = await service.dryRun(
+        adminId,
+        csv(
+          exported,
+          'prod-002,Renamed,,GENERAL,1000,false,false,true',
+          ',Brand new,,GENERAL,1000,false,false,true',
+        ),
+      );
+
+      expect(report).toMatchObject({
+        dryRun: true,
+        created: 1,
+        updated: 1,
+        unchanged: 1,
+        errors: [],
+      });
+      expect((await repository.findById('prod-002'))!.name).not.toBe('Renamed');
+      expect(logDataChange).not.toHaveBeenCalled();
+    });
+
+    it('reports a missing required column on the header row', async () => {
+      const report = await service.dryRun(adminId, 'id,name,category\nprod-1,X,GENERAL');
+
+      expect(report.errors).toEqual([
+        expect.objectContaining({
+          row: 1,
+          field: null,
+          message: expect.stringContaining('pricePaise'),
+        }),
+      ]);
+    });
+  });
+
+  describe('import', () => {
+    it('imports nothing when any row is invalid', async () => {
+      await expect(
+        service.import(
+          adminId,
+          csv(
+            'prod-100,Zinc,,SUPPLEMENTS,12050,false,false,true',
+            'prod-101,Bad,,SWEETS,100,false,false,true',
+          ),
+        ),
+      ).rejects.toThrow(ProductImportInvalidException);
+
+      expect(await repository.findById('prod-100')).toBeNull();
+    });
+
+    it('upserts by id and audits each change', async () => {
+      const report = await service.import(
+        adminId,
+        csv(
+          'prod-100,Zinc,"Zinc, 50mg",SUPPLEMENTS,12050,false,true,true',
+          'prod-001,Paracetamol 500mg,,GENERAL,3000,false,false,false',
+        ),
+      );
+
+      expect(report).toMatchObject({ dryRun: false, created: 1, updated: 1, unchanged: 0 });
+      const created = (await repository.findById('prod-100'))!;
+      expect(created.description).toBe('Zinc, 50mg');
+      expect(created.price.getAmountInMinorUnits()).toBe(12050);
+      expect(created.isFeatured).toBe(true);
+      const updated = (await repository.findById('prod-001'))!;
+      expect(updated.price.getAmountInMinorUnits()).toBe(3000);
+      expect(updated.isActive).toBe(false);
+      expect(logDataChange).toHaveBeenCalledTimes(2);
+    });
+
+    it('keeps descriptions when the column is omitted', async () => {
+      const before = (await repository.findById('prod-001'))!;
+
+      await service.import(
+        adminId,
+        'id,name,category,pricePaise,requiresPrescription,featured,active\n' +
+          'prod-001,Paracetamol 650mg,GENERAL,2500,false,false,true',
+      );
+
+      const after = (await repository.findById('prod-001'))!;
+      expect(after.name).toBe('Paracetamol 650mg');
+      expect(after.description).toBe(before.description);
+    });
+  });
+
+  describe('export', () => {
+    it('exports every product, including inactive ones, and re-imports unchanged', async () => {
+      repository.deactivateProduct('prod-002');
+      const total = repository.size();
+
+      const text = await exportCsv();
+
+      expect(text.split('\r\n')[0]).toBe(header);
+      expect(text.trimEnd().split('\r\n')).toHaveLength(total + 1);
+
+      const report = await service.import(adminId, text);
+      expect(report).toMatchObject({ created: 0, updated: 0, unchanged: total });
+    });
+
+    it('escapes text a spreadsheet would run as a formula and round-trips it', async () => {
+      await service.import(adminId, csv('prod-100,=HYPERLINK(1),,GENERAL,100,false,false,true'));
+
+      const line = (await exportCsv()).split('\r\n').find((l) => l.startsWith('prod-100,'));
+      expect(line).toContain(",'=HYPERLINK(1),");
+
+      await service.import(adminId, (await exportCsv()).replace(/\r\n$/, ''));
+      expect((await repository.findById('prod-100'))!.name).toBe('=HYPERLINK(1)');
+    });
+  });
+});
@@ -0,0 +1,112 @@
+import { Inject, Injectable } from '@nestjs/common';
+import { PRODUCT_REPOSITORY, IProductRepository } from '../catalog/repositories';
+import { ProductSearchCriteria } from '../catalog/queries';
+import { logWithCorrelation } from '../common/logging/logger';
+import { CatalogAdminService, ProductUpsertOutcome } from './catalog-admin.service';
+import { parseProductCsv, productCsvHeaderLine, productToCsvLine } from './csv/product-csv';
+import { ProductImportReport } from './dto';
+import { ProductImportInvalidException } from './exceptions';
+
+/**
+ * Product CSV Service
+ *
+ * Bulk product import (upsert by id) and catalog export for merchandising
+ * spreadsheets. See csv/product-csv.ts for the file format.
+ *
+ * Import is validate-then-apply: the whole file is checked first and nothing
+ * is written if any row fails. Rows are then upserted one at a time through
+ * CatalogAdminService, so each created or changed product is audit logged.
+ */
+@Injectable()
+export class ProductCsvService {
+  private static readonly EXPORT_PAGE_SIZE = 100;
+
+  constructor(
+    @Inject(PRODUCT_REPOSITORY)
+    private readonly productRepository: IProductRepository,
+    private readonly catalogAdminService: CatalogAdminService,
+  ) {}
+
+  /**
+   * Validate a CSV and report what importing it would do
+   */
+  async dryRun(adminId: string, csv: string): Promise<ProductImportReport> {
+    const { rows, errors } = parseProductCsv(csv);
+    const report = this.emptyReport(true, rows.length + this.countRows(errors));
+    report.errors = errors;
+
+    for (const { input } of rows) {
+      this.tally(
+        report,
+        await this.catalogAdminService.upsertProduct(adminId, input, { dryRun: true }),
+      );
+    }
+    return report;
+  }
+
+  /**
+   * Validate and apply a CSV as an upsert
+   * @throws ProductImportInvalidException if any row fails validation
+   */
+  async import(adminId: string, csv: string, correlationId?: string): Promise<ProductImportReport> {
+    const { rows, errors } = parseProductCsv(csv);
+    if (errors.length > 0) {
+      throw new ProductImportInvalidException(errors);
+    }
+
+    const report = this.emptyReport(false, rows.length);
+    for (const { input } of rows) {
+      this.tally(
+        report,
+        await this.catalogAdminService.upsertProduct(adminId, input, { correlationId }),
+      );
+    }
+
+    if (correlationId) {
+      logWithCorrelation(
+        'INFO',
+        correlationId,
+        `Product import: ${report.created} created, ${report.updated} updated, ${report.unchanged} unchanged`,
+        'ProductCsvService',
+        { adminId },
+      );
+    }
+    return report;
+  }
+
+  /**
+   * The whole catalog (active and inactive) as CSV lines, one page at a time
+   */
+  async *export(): AsyncGenerator<string> {
+    yield productCsvHeaderLine();
+
+    for (let page = 1; ; page++) {
+      const result = await this.productRepository.search(
+        ProductSearchCriteria.create({
+          activeOnly: false,
+          page,
+          limit: ProductCsvService.EXPORT_PAGE_SIZE,
+        }),
+      );
+      for (const product of result.items) {
+        yield productToCsvLine(product);
+      }
+      if (!result.hasNextPage) {
+        return;
+      }
+    }
+  }
+
+  private emptyReport(dryRun: boolean, totalRows: number): ProductImportReport {
+    return { dryRun, totalRows, created: 0, updated: 0, unchanged: 0, errors: [] };
+  }
+
+  private tally(report: ProductImportReport, outcome: ProductUpsertOutcome): void {
+    report[outcome]++;
+  }
+
+  /** Distinct data rows with errors (file-level errors on row 1 are not rows) */
+  private countRows(errors: { row: number }[]): number {
+    return new Set(errors.map((error) => error.row).filter((row) => row > 1)).size;
+  }
+}
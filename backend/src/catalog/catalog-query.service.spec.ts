@@ -2,6 +2,9 @@ import { CatalogQueryService, ProductListParams } from './catalog-query.service'
 import { InMemoryProductRepository } from './repositories/in-memory-product.repository';
 import { Product, ProductCategory, Money, createProduct } from './domain';
 import { ProductNotFoundException, InvalidProductCategoryException } from './exceptions';
+import { InventoryService } from '../inventory/inventory.service';
+import { InMemoryStockRepository } from '../inventory/repositories/in-memory-stock.repository';
+import { StockStatus } from '../inventory/domain';
 
 /**
  * CatalogQueryService Tests
@@ -21,13 +24,15 @@ import { ProductNotFoundException, InvalidProductCategoryException } from './exc
 describe('CatalogQueryService', () => {
   let service: CatalogQueryService;
   let repository: InMemoryProductRepository;
+  let stockRepository: InMemoryStockRepository;
 
   const correlationId = 'test-correlation-id';
 
   beforeEach(() => {
     // Fresh repository with sample data for each test
     repository = new InMemoryProductRepository();
-    service = new CatalogQueryService(repository);
+    stockRepository = new InMemoryStockRepository();
+    service = new CatalogQueryService(repository, new InventoryService(stockRepository));
   });
 
   afterEach(() => {
@@ -399,6 +404,33 @@ describe('CatalogQueryService', () => {
     });
   });
 
+  describe('stock indicator', () => {
+    it('should report stock status on product details', async () => {
+      const inStock = await service.getProductById('prod-001', correlationId);
+      const lowStock = await service.getProductById('prod-008', correlationId);
+
+      expect(inStock.stockStatus).toBe(StockStatus.IN_STOCK);
+      expect(lowStock.stockStatus).toBe(StockStatus.LOW_STOCK);
+    });
+
+    it('should report out of stock when nothing is available', async () => {
+      await stockRepository.setStock('prod-002', { onHand: 0 });
+
+      const result = await service.listProducts({}, correlationId);
+
+      const product = result.items.find((p) => p.id === 'prod-002');
+      expect(product?.stockStatus).toBe(StockStatus.OUT_OF_STOCK);
+    });
+
+    it('should treat products without stock records as out of stock', async () => {
+      stockRepository.clear();
+
+      const result = await service.getProductById('prod-001', correlationId);
+
+      expect(result.stockStatus).toBe(StockStatus.OUT_OF_STOCK);
+    });
+  });
+
   describe('getCategories', () => {
     it('should return all product categories', async () => {
       const categories = await service.getCategories();
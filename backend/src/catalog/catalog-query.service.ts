@@ -12,6 +12,7 @@ import {
 import { ProductSearchCriteria, ProductSearchResult } from './queries';
 import { ProductNotFoundException, InvalidProductCategoryException } from './exceptions';
 import { logWithCorrelation } from '../common/logging/logger';
+import { InventoryService } from '../inventory/inventory.service';
 
 /**
  * Product List Query Parameters
@@ -56,7 +57,7 @@ export interface ProductListResult {
  * Provides application-level logic for fetching products.
  *
  * Design decisions:
- * - Depends only on ProductRepository interface
+ * - Depends on ProductRepository interface; stock indicators come from InventoryService
  * - Returns DTOs, not domain entities (for API safety)
  * - Handles not-found cases with domain exceptions
  * - Logs significant operations with correlation IDs
@@ -67,6 +68,7 @@ export class CatalogQueryService {
   constructor(
     @Inject(PRODUCT_REPOSITORY)
     private readonly productRepository: IProductRepository,
+    private readonly inventoryService: InventoryService,
   ) {}
 
   /**
@@ -113,8 +115,14 @@ export class CatalogQueryService {
       );
     }
 
+    const stockStatuses = await this.inventoryService.getStockStatuses(
+      result.items.map((product) => product.id.toString()),
+    );
+
     return {
-      items: result.items.map(toProductSummaryDto),
+      items: result.items.map((product) =>
+        toProductSummaryDto(product, stockStatuses.get(product.id.toString())!),
+      ),
       total: result.total,
       page: result.page,
       limit: result.limit,
@@ -149,7 +157,8 @@ export class CatalogQueryService {
       );
     }
 
-    return toProductDto(product);
+    const stockStatus = await this.inventoryService.getStockStatus(productId);
+    return toProductDto(product, stockStatus);
   }
 
   /**
@@ -1,14 +1,17 @@
-import { Module } from '@nestjs/common';
+import { Module, forwardRef } from '@nestjs/common';
 import { CatalogController } from './catalog.controller';
 import { CatalogQueryService } from './catalog-query.service';
 import { PRODUCT_REPOSITORY } from './repositories/product-repository.interface';
+import { PRODUCT_WRITE_REPOSITORY } from './repositories/product-write-repository.interface';
 import { ProductRepositoryProvider } from '../database/repository.providers';
+import { InventoryModule } from '../inventory/inventory.module';
 
 /**
  * Catalog Module
  *
  * Handles product catalog for the pharmacy.
- * Currently provides READ-ONLY access to products.
+ * Provides READ-ONLY access to products; the write repository is exported
+ * for CatalogAdminModule.
  *
  * Responsibilities:
  * - Product lookup by ID
@@ -17,9 +20,8 @@ import { ProductRepositoryProvider } from '../database/repository.providers';
  * - Category information
  *
  * Boundaries:
- * - Does NOT handle inventory (stock levels, availability)
- * - Does NOT handle pricing changes (admin operation)
- * - Does NOT handle product creation/updates (admin operation)
+ * - Does NOT manage inventory; stock indicators come from InventoryModule
+ * - Does NOT handle product creation, updates or pricing (CatalogAdminModule)
  * - Other modules depend on this for product information
  *
  * Repository Selection:
@@ -28,13 +30,21 @@ import { ProductRepositoryProvider } from '../database/repository.providers';
  * - 'prisma': PrismaProductRepository (production, dev with DB)
  */
 @Module({
+  imports: [forwardRef(() => InventoryModule)],
   controllers: [CatalogController],
-  providers: [CatalogQueryService, ProductRepositoryProvider],
+  providers: [
+    CatalogQueryService,
+    ProductRepositoryProvider,
+    // Same instance as PRODUCT_REPOSITORY so admin writes are visible to reads
+    { provide: PRODUCT_WRITE_REPOSITORY, useExisting: PRODUCT_REPOSITORY },
+  ],
   exports: [
     // Export query service for other modules
     CatalogQueryService,
     // Export repository token for testing
     PRODUCT_REPOSITORY,
+    // Export write repository for the admin catalog module
+    PRODUCT_WRITE_REPOSITORY,
   ],
 })
 export class CatalogModule {}
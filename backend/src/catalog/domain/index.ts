@@ -18,4 +18,11 @@ export {
 } from './product-category';
 
 // Entity and factory
-export { Product, CreateProductData, createProduct, productToDTO } from './product.entity';
+export {
+  Product,
+  CreateProductData,
+  UpdateProductData,
+  createProduct,
+  updateProduct,
+  productToDTO,
+} from './product.entity';
@@ -6,7 +6,7 @@ import { ProductCategory } from './product-category';
  * Product Entity
  *
  * Represents a product in the pharmacy catalog.
- * This is a read-only view of a product for the catalog.
+ * Created and changed only through the admin catalog module (updateProduct).
  *
  * Design decisions:
  * - ProductId is a value object for type safety
@@ -86,6 +86,45 @@ export function createProduct(data: CreateProductData, now: Date = new Date()):
   };
 }
 
+/**
+ * Fields an admin may change on an existing Product
+ */
+export interface UpdateProductData {
+  name?: string;
+  description?: string | null;
+  category?: ProductCategory;
+  price?: Money;
+  requiresPrescription?: boolean;
+  isFeatured?: boolean;
+  isActive?: boolean;
+}
+
+/**
+ * Apply changes to a Product, returning the updated Product
+ * Ensures the same invariants as createProduct
+ */
+export function updateProduct(
+  product: Product,
+  changes: UpdateProductData,
+  now: Date = new Date(),
+): Product {
+  if (changes.name !== undefined && changes.name.trim().length === 0) {
+    throw new Error('Product name cannot be empty');
+  }
+
+  return {
+    ...product,
+    name: changes.name !== undefined ? changes.name.trim() : product.name,
+    description: changes.description !== undefined ? changes.description : product.description,
+    category: changes.category ?? product.category,
+    price: changes.price ?? product.price,
+    requiresPrescription: changes.requiresPrescription ?? product.requiresPrescription,
+    isFeatured: changes.isFeatured ?? product.isFeatured,
+    isActive: changes.isActive ?? product.isActive,
+    updatedAt: now,
+  };
+}
+
 /**
  * Convert Product to a plain serializable object
  */
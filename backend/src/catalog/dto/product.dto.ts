@@ -1,4 +1,5 @@
 import { ProductCategory, PRODUCT_CATEGORY_METADATA } from '../domain';
+import { StockStatus } from '../../inventory/domain';
 
 /**
  * Product DTOs
@@ -21,6 +22,7 @@ export interface ProductDto {
   requiresPrescription: boolean;
   isFeatured: boolean;
   isActive: boolean;
+  stockStatus: StockStatus;
 }
 
 /**
@@ -44,6 +46,7 @@ export interface ProductSummaryDto {
   price: PriceDto;
   requiresPrescription: boolean;
   isFeatured: boolean;
+  stockStatus: StockStatus;
 }
 
 /**
@@ -58,16 +61,19 @@ export interface CategoryDto {
 /**
  * Convert domain Product to ProductDto for API response
  */
-export function toProductDto(product: {
-  id: { toString(): string };
-  name: string;
-  description: string | null;
-  category: ProductCategory;
-  price: { getAmount(): number; getCurrency(): string; format(): string };
-  requiresPrescription: boolean;
-  isFeatured: boolean;
-  isActive: boolean;
-}): ProductDto {
+export function toProductDto(
+  product: {
+    id: { toString(): string };
+    name: string;
+    description: string | null;
+    category: ProductCategory;
+    price: { getAmount(): number; getCurrency(): string; format(): string };
+    requiresPrescription: boolean;
+    isFeatured: boolean;
+    isActive: boolean;
+  },
+  stockStatus: StockStatus,
+): ProductDto {
   return {
     id: product.id.toString(),
     name: product.name,
@@ -82,21 +88,25 @@ export function toProductDto(product: {
     requiresPrescription: product.requiresPrescription,
     isFeatured: product.isFeatured,
     isActive: product.isActive,
+    stockStatus,
   };
 }
 
 /**
  * Convert domain Product to ProductSummaryDto for listings
  */
-export function toProductSummaryDto(product: {
-  id: { toString(): string };
-  name: string;
-  description: string | null;
-  category: ProductCategory;
-  price: { getAmount(): number; getCurrency(): string; format(): string };
-  requiresPrescription: boolean;
-  isFeatured: boolean;
-}): ProductSummaryDto {
+export function toProductSummaryDto(
+  product: {
+    id: { toString(): string };
+    name: string;
+    description: string | null;
+    category: ProductCategory;
+    price: { getAmount(): number; getCurrency(): string; format(): string };
+    requiresPrescription: boolean;
+    isFeatured: boolean;
+  },
+  stockStatus: StockStatus,
+): ProductSummaryDto {
   return {
     id: product.id.toString(),
     name: product.name,
@@ -110,6 +120,7 @@ export function toProductSummaryDto(product: {
     },
     requiresPrescription: product.requiresPrescription,
     isFeatured: product.isFeatured,
+    stockStatus,
   };
 }
 
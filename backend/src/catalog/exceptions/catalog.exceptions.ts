@@ -17,6 +17,15 @@ export class ProductNotFoundException extends BusinessException {
   }
 }
 
+/**
+ * Thrown when creating a product with an ID that is already taken
+ */
+export class ProductAlreadyExistsException extends BusinessException {
+  constructor(productId: string) {
+    super('PRODUCT_ALREADY_EXISTS', `Product already exists: ${productId}`, HttpStatus.CONFLICT);
+  }
+}
+
 /**
  * Thrown when a product is inactive and cannot be accessed
  */
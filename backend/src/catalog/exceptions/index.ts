@@ -1,5 +1,6 @@
 export {
   ProductNotFoundException,
+  ProductAlreadyExistsException,
   ProductNotAvailableException,
   InvalidProductCategoryException,
   InvalidProductIdException,
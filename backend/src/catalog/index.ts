@@ -37,11 +37,17 @@ export {
 } from './domain';
 
 // Repository interface (for dependency injection)
-export { PRODUCT_REPOSITORY, IProductRepository } from './repositories';
+export {
+  PRODUCT_REPOSITORY,
+  IProductRepository,
+  PRODUCT_WRITE_REPOSITORY,
+  IProductWriteRepository,
+} from './repositories';
 
 // Exceptions
 export {
   ProductNotFoundException,
+  ProductAlreadyExistsException,
   ProductNotAvailableException,
   InvalidProductCategoryException,
   InvalidProductIdException,
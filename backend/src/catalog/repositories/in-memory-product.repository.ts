@@ -1,6 +1,8 @@
 import { Injectable } from '@nestjs/common';
 import { IProductRepository } from './product-repository.interface';
+import { IProductWriteRepository } from './product-write-repository.interface';
 import { Product, ProductCategory, Money, createProduct } from '../domain';
+import { ProductAlreadyExistsException, ProductNotFoundException } from '../exceptions';
 import { ProductSearchCriteria, ProductSearchResult, createSearchResult } from '../queries';
 
 /**
@@ -17,7 +19,7 @@ import { ProductSearchCriteria, ProductSearchResult, createSearchResult } from '
  * - No persistence across restarts
  */
 @Injectable()
-export class InMemoryProductRepository implements IProductRepository {
+export class InMemoryProductRepository implements IProductRepository, IProductWriteRepository {
   private readonly products: Map<string, Product> = new Map();
 
   constructor() {
@@ -68,6 +70,24 @@ export class InMemoryProductRepository implements IProductRepository {
     return results.length;
   }
 
+  async create(product: Product): Promise<Product> {
+    const productId = product.id.toString();
+    if (this.products.has(productId)) {
+      throw new ProductAlreadyExistsException(productId);
+    }
+    this.products.set(productId, product);
+    return product;
+  }
+
+  async update(product: Product): Promise<Product> {
+    const productId = product.id.toString();
+    if (!this.products.has(productId)) {
+      throw new ProductNotFoundException(productId);
+    }
+    this.products.set(productId, product);
+    return product;
+  }
+
   /**
    * Apply filtering options to product list
    */
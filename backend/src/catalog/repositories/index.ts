@@ -1,4 +1,8 @@
 export { PRODUCT_REPOSITORY, IProductRepository } from './product-repository.interface';
+export {
+  PRODUCT_WRITE_REPOSITORY,
+  IProductWriteRepository,
+} from './product-write-repository.interface';
 
 export { InMemoryProductRepository } from './in-memory-product.repository';
 export { PrismaProductRepository } from './prisma-product.repository';
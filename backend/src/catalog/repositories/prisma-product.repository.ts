@@ -1,7 +1,9 @@
 import { Injectable } from '@nestjs/common';
 import { PrismaService } from '../../database/prisma.service';
 import { IProductRepository } from './product-repository.interface';
+import { IProductWriteRepository } from './product-write-repository.interface';
 import { Product, ProductCategory, Money, createProduct } from '../domain';
+import { ProductAlreadyExistsException, ProductNotFoundException } from '../exceptions';
 import { ProductSearchCriteria, ProductSearchResult, createSearchResult } from '../queries';
 import {
   Product as PrismaProduct,
@@ -22,7 +24,7 @@ import {
  * - Pagination with accurate total counts
  */
 @Injectable()
-export class PrismaProductRepository implements IProductRepository {
+export class PrismaProductRepository implements IProductRepository, IProductWriteRepository {
   constructor(private readonly prisma: PrismaService) {}
 
   async findById(productId: string): Promise<Product | null> {
@@ -68,6 +70,35 @@ export class PrismaProductRepository implements IProductRepository {
     return this.prisma.product.count({ where });
   }
 
+  async create(product: Product): Promise<Product> {
+    try {
+      const created = await this.prisma.product.create({
+        data: { id: product.id.toString(), ...this.toPersistence(product) },
+      });
+      return this.toDomain(created);
+    } catch (error) {
+      if (this.hasErrorCode(error, 'P2002')) {
+        throw new ProductAlreadyExistsException(product.id.toString());
+      }
+      throw error;
+    }
+  }
+
+  async update(product: Product): Promise<Product> {
+    try {
+      const updated = await this.prisma.product.update({
+        where: { id: product.id.toString() },
+        data: this.toPersistence(product),
+      });
+      return this.toDomain(updated);
+    } catch (error) {
+      if (this.hasErrorCode(error, 'P2025')) {
+        throw new ProductNotFoundException(product.id.toString());
+      }
+      throw error;
+    }
+  }
+
   // ==========================================================================
   // Private Helpers
   // ==========================================================================
@@ -114,7 +145,7 @@ export class PrismaProductRepository implements IProductRepository {
    * Convert Prisma product to domain Product
    */
   private toDomain(prismaProduct: PrismaProduct): Product {
-    return createProduct(
+    const product = createProduct(
       {
         id: prismaProduct.id,
         name: prismaProduct.name,
@@ -127,6 +158,32 @@ export class PrismaProductRepository implements IProductRepository {
       },
       prismaProduct.createdAt,
     );
+    return { ...product, updatedAt: prismaProduct.updatedAt };
+  }
+
+  /**
+   * Convert domain Product to Prisma columns (excluding ID and timestamps)
+   */
+  private toPersistence(product: Product) {
+    return {
+      name: product.name,
+      description: product.description,
+      category: this.toPrismaCategory(product.category),
+      priceAmount: product.price.getAmountInMinorUnits(),
+      priceCurrency: product.price.getCurrency(),
+      requiresPrescription: product.requiresPrescription,
+      isFeatured: product.isFeatured,
+      isActive: product.isActive,
+    };
+  }
+
+  private hasErrorCode(error: unknown, code: string): boolean {
+    return (
+      typeof error === 'object' &&
+      error !== null &&
+      'code' in error &&
+      (error as { code: string }).code === code
+    );
   }
 
   /**
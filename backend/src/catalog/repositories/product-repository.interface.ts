@@ -11,7 +11,7 @@ export const PRODUCT_REPOSITORY = Symbol('PRODUCT_REPOSITORY');
  *
  * Defines the contract for product data access.
  * This interface is READ-ONLY for the catalog module.
- * Write operations would be in a separate admin/inventory module.
+ * Writes go through IProductWriteRepository, used by the admin catalog module.
  *
  * Design notes:
  * - All methods are async for consistency
@@ -0,0 +1,29 @@
+import { Product } from '../domain';
+
+/**
+ * Injection token for the Product write repository
+ */
+export const PRODUCT_WRITE_REPOSITORY = Symbol('PRODUCT_WRITE_REPOSITORY');
+
+/**
+ * Product Write Repository Interface
+ *
+ * Write side of the product store, used only by the admin catalog module.
+ * Both implementations serve reads and writes from the same store, so
+ * CatalogModule binds this token to the PRODUCT_REPOSITORY instance.
+ *
+ * Products are never deleted; deactivation is an update of isActive.
+ */
+export interface IProductWriteRepository {
+  /**
+   * Insert a new product
+   * @throws ProductAlreadyExistsException if the ID is already taken
+   */
+  create(product: Product): Promise<Product>;
+
+  /**
+   * Persist changes to an existing product
+   * @throws ProductNotFoundException if the product does not exist
+   */
+  update(product: Product): Promise<Product>;
+}
@@ -2,6 +2,9 @@
 export * from './api/api-response';
 export * from './api/api-error';
 
+// CSV
+export * from './csv/csv-parser';
+
 // Exceptions
 export * from './exceptions/business.exception';
 
@@ -0,0 +1,34 @@
+import { HttpStatus } from '@nestjs/common';
+import { BusinessException } from '../common/exceptions/business.exception';
+
+/**
+ * Compliance artifact ownership exception
+ *
+ * Thrown when a user tries to link a prescription or consultation request
+ * that belongs to someone else to their order.
+ */
+export class ComplianceArtifactOwnershipException extends BusinessException {
+  constructor(artifactType: 'PRESCRIPTION' | 'CONSULTATION_REQUEST', artifactId: string) {
+    super(
+      'COMPLIANCE_ARTIFACT_OWNERSHIP_MISMATCH',
+      `${artifactType === 'PRESCRIPTION' ? 'Prescription' : 'Consultation request'} '${artifactId}' does not belong to the order owner`,
+      HttpStatus.FORBIDDEN,
+    );
+  }
+}
+
+/**
+ * Rejected compliance artifact exception
+ *
+ * Thrown when linking a REJECTED prescription or consultation request.
+ * A rejected artifact can never satisfy the compliance gate (ADR-0055).
+ */
+export class RejectedComplianceArtifactException extends BusinessException {
+  constructor(artifactType: 'PRESCRIPTION' | 'CONSULTATION_REQUEST', artifactId: string) {
+    super(
+      'COMPLIANCE_ARTIFACT_REJECTED',
+      `${artifactType === 'PRESCRIPTION' ? 'Prescription' : 'Consultation request'} '${artifactId}' was rejected and cannot be linked to an order`,
+      HttpStatus.CONFLICT,
+    );
+  }
+}
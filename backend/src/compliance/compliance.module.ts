@@ -1,5 +1,7 @@
 import { Module, forwardRef } from '@nestjs/common';
 import { OrderComplianceService } from './order-compliance.service';
+import { OrderComplianceLinkService } from './order-compliance-link.service';
+import { OrderComplianceController } from './order-compliance.controller';
 import { ORDER_PRESCRIPTION_LINK_REPOSITORY } from './order-prescription-link-repository.interface';
 import { ORDER_CONSULTATION_LINK_REPOSITORY } from './order-consultation-link-repository.interface';
 import { InMemoryOrderPrescriptionLinkRepository } from './in-memory-order-prescription-link.repository';
@@ -8,6 +10,7 @@ import { PrismaOrderPrescriptionLinkRepository } from './prisma-order-prescripti
 import { PrismaOrderConsultationLinkRepository } from './prisma-order-consultation-link.repository';
 import { PrismaService } from '../database/prisma.service';
 import { getRepositoryType } from '../database/repository.providers';
+import { AuthModule } from '../auth/auth.module';
 import { OrderModule } from '../order/order.module';
 import { CatalogModule } from '../catalog/catalog.module';
 import { PrescriptionModule } from '../prescription/prescription.module';
@@ -17,17 +20,21 @@ import { ConsultationModule } from '../consultation/consultation.module';
  * Compliance Module (ADR-0055)
  *
  * Provides the fulfilment gate: OrderComplianceService.
+ * Exposes customer endpoints to link prescriptions and consultations to orders.
  * Payment logic must NOT import this module.
  */
 @Module({
   imports: [
+    AuthModule, // For JwtAuthGuard
     forwardRef(() => OrderModule),
     CatalogModule,
     PrescriptionModule,
     ConsultationModule,
   ],
+  controllers: [OrderComplianceController],
   providers: [
     OrderComplianceService,
+    OrderComplianceLinkService,
     {
       provide: ORDER_PRESCRIPTION_LINK_REPOSITORY,
       useFactory: (prisma: PrismaService) => {
@@ -0,0 +1,34 @@
+import { IsNotEmpty, IsString, Length } from 'class-validator';
+import { ComplianceStatus } from './compliance-status';
+
+/**
+ * Link an existing prescription to an order
+ */
+export class LinkOrderPrescriptionDto {
+  @IsString()
+  @IsNotEmpty()
+  @Length(1, 100)
+  prescriptionId!: string;
+}
+
+/**
+ * Link an existing consultation request to an order
+ */
+export class LinkOrderConsultationDto {
+  @IsString()
+  @IsNotEmpty()
+  @Length(1, 100)
+  consultationRequestId!: string;
+}
+
+/**
+ * Compliance snapshot returned after a link is created.
+ * Mirrors the compliance block on GET /orders/:id.
+ */
+export interface OrderComplianceDto {
+  orderId: string;
+  requiresPrescription: boolean;
+  status: ComplianceStatus;
+  prescriptions: { id: string; status: string; rejectionReason: string | null }[];
+  consultations: { id: string; status: string }[];
+}
@@ -0,0 +1,212 @@
+import { OrderComplianceLinkService } from './order-compliance-link.service';
+import { OrderComplianceService } from './order-compliance.service';
+import { ComplianceStatus } from './compliance-status';
+import { InMemoryOrderRepository } from '../order/repositories/in-memory-order.repository';
+import { InMemoryProductRepository } from '../catalog/repositories/in-memory-product.repository';
+import { InMemoryPrescriptionRepository } from '../prescription/repositories/in-memory-prescription.repository';
+import { InMemoryConsultationRequestRepository } from '../consultation/repositories/in-memory-consultation-request.repository';
+import { InMemoryOrderPrescriptionLinkRepository } from './in-memory-order-prescription-link.repository';
+import { InMemoryOrderConsultationLinkRepository } from './in-memory-order-consultation-link.repository';
+import { OrderStatus } from '../order/domain';
+import { createOrderItem } from '../order/domain/order-item';
+import { PrescriptionStatus } from '../prescription/domain';
+import { ConsultationStatus } from '../consultation/domain';
+import { PrescriptionNotFoundException } from '../prescription/exceptions';
+import { ConsultationRequestNotFoundException } from '../consultation/exceptions';
+import {
+  OrderTerminalStateException,
+  UnauthorizedOrderAccessException,
+} from '../order/exceptions/order.exceptions';
+import {
+  ComplianceArtifactOwnershipException,
+  RejectedComplianceArtifactException,
+} from './compliance.exceptions';
+
+/**
+ * OrderComplianceLinkService tests (ADR-0055).
+ *
+ * Verifies:
+ * - Linking an owned prescription or consultation unblocks the compliance gate once approved
+ * - Order and artifact ownership are both enforced
+ * - REJECTED artifacts and terminal orders are refused
+ * - Linking is idempotent
+ */
+describe('OrderComplianceLinkService', () => {
+  let service: OrderComplianceLinkService;
+  let complianceService: OrderComplianceService;
+  let orderRepository: InMemoryOrderRepository;
+  let productRepository: InMemoryProductRepository;
+  let prescriptionRepository: InMemoryPrescriptionRepository;
+  let consultationRepository: InMemoryConsultationRequestRepository;
+  let prescriptionLinkRepository: InMemoryOrderPrescriptionLinkRepository;
+  let consultationLinkRepository: InMemoryOrderConsultationLinkRepository;
+
+  const userId = 'user-1';
+  const otherUserId = 'user-2';
+  const prescriptionProductId = 'prod-003'; // Amoxicillin - prescription required
+
+  beforeEach(() => {
+    orderRepository = new InMemoryOrderRepository();
+    productRepository = new InMemoryProductRepository();
+    prescriptionRepository = new InMemoryPrescriptionRepository();
+    consultationRepository = new InMemoryConsultationRequestRepository();
+    prescriptionLinkRepository = new InMemoryOrderPrescriptionLinkRepository();
+    consultationLinkRepository = new InMemoryOrderConsultationLinkRepository();
+
+    complianceService = new OrderComplianceService(
+      orderRepository,
+      productRepository,
+      prescriptionRepository,
+      consultationRepository,
+      prescriptionLinkRepository,
+      consultationLinkRepository,
+    );
+    service = new OrderComplianceLinkService(
+      orderRepository,
+      prescriptionRepository,
+      consultationRepository,
+      prescriptionLinkRepository,
+      consultationLinkRepository,
+      complianceService,
+    );
+  });
+
+  async function createPrescriptionOrder(
+    status: OrderStatus = OrderStatus.CONFIRMED,
+  ): Promise<string> {
+    const order = await orderRepository.createOrder(userId, OrderStatus.DRAFT);
+    const product = await productRepository.findById(prescriptionProductId);
+    await orderRepository.addItem(
+      order.id,
+      createOrderItem({
+        productId: product!.id.toString(),
+        productName: product!.name,
+        unitPrice: product!.price,
+        quantity: 1,
+      }),
+    );
+    await orderRepository.updateStatus(order.id, status, { actorId: 'test-setup' });
+    return order.id;
+  }
+
+  it('links an owned prescription and reports PENDING until it is approved', async () => {
+    const orderId = await createPrescriptionOrder();
+    const prescription = await prescriptionRepository.save({ userId, fileReference: 'file-1' });
+
+    const result = await service.linkPrescription(orderId, prescription.id, userId);
+
+    expect(result.requiresPrescription).toBe(true);
+    expect(result.status).toBe(ComplianceStatus.PENDING);
+    expect(result.prescriptions).toEqual([
+      { id: prescription.id, status: PrescriptionStatus.PENDING, rejectionReason: null },
+    ]);
+
+    await prescriptionRepository.updateStatus(prescription.id, {
+      status: PrescriptionStatus.APPROVED,
+      reviewedAt: new Date(),
+    });
+    expect(await complianceService.canFulfil(orderId)).toBe(true);
+  });
+
+  it('links an owned consultation request', async () => {
+    const orderId = await createPrescriptionOrder();
+    const consultation = await consultationRepository.save({ userId });
+    await consultationRepository.updateStatus(consultation.id, {
+      status: ConsultationStatus.APPROVED,
+      reviewedAt: new Date(),
+    });
+
+    const result = await service.linkConsultation(orderId, consultation.id, userId);
+
+    expect(result.status).toBe(ComplianceStatus.APPROVED);
+    expect(result.consultations).toEqual([
+      { id: consultation.id, status: ConsultationStatus.APPROVED },
+    ]);
+  });
+
+  it('is idempotent when the same prescription is linked twice', async () => {
+    const orderId = await createPrescriptionOrder();
+    const prescription = await prescriptionRepository.save({ userId, fileReference: 'file-1' });
+
+    await service.linkPrescription(orderId, prescription.id, userId);
+    const result = await service.linkPrescription(orderId, prescription.id, userId);
+
+    expect(result.prescriptions).toHaveLength(1);
+  });
+
+  it('rejects linking to an order owned by another user', async () => {
+    const orderId = await createPrescriptionOrder();
+    const prescription = await prescriptionRepository.save({
+      userId: otherUserId,
+      fileReference: 'file-1',
+    });
+
+    await expect(service.linkPrescription(orderId, prescription.id, otherUserId)).rejects.toThrow(
+      UnauthorizedOrderAccessException,
+    );
+  });
+
+  it('rejects linking an artifact owned by another user', async () => {
+    const orderId = await createPrescriptionOrder();
+    const prescription = await prescriptionRepository.save({
+      userId: otherUserId,
+      fileReference: 'file-1',
+    });
+    const consultation = await consultationRepository.save({ userId: otherUserId });
+
+    await expect(service.linkPrescription(orderId, prescription.id, userId)).rejects.toThrow(
+      ComplianceArtifactOwnershipException,
+    );
+    await expect(service.linkConsultation(orderId, consultation.id, userId)).rejects.toThrow(
+      ComplianceArtifactOwnershipException,
+    );
+  });
+
+  it('rejects linking a REJECTED prescription', async () => {
+    const orderId = await createPrescriptionOrder();
+    const prescription = await prescriptionRepository.save({ userId, fileReference: 'file-1' });
+    await prescriptionRepository.updateStatus(prescription.id, {
+      status: PrescriptionStatus.REJECTED,
+      reviewedAt: new Date(),
+      rejectionReason: 'Unreadable',
+    });
+
+    await expect(service.linkPrescription(orderId, prescription.id, userId)).rejects.toThrow(
+      RejectedComplianceArtifactException,
+    );
+    expect(await prescriptionLinkRepository.findPrescriptionIdsByOrderId(orderId)).toEqual([]);
+  });
+
+  it('rejects linking a REJECTED consultation request', async () => {
+    const orderId = await createPrescriptionOrder();
+    const consultation = await consultationRepository.save({ userId });
+    await consultationRepository.updateStatus(consultation.id, {
+      status: ConsultationStatus.REJECTED,
+      reviewedAt: new Date(),
+    });
+
+    await expect(service.linkConsultation(orderId, consultation.id, userId)).rejects.toThrow(
+      RejectedComplianceArtifactException,
+    );
+  });
+
+  it('rejects unknown artifacts', async () => {
+    const orderId = await createPrescriptionOrder();
+
+    await expect(service.linkPrescription(orderId, 'missing', userId)).rejects.toThrow(
+      PrescriptionNotFoundException,
+    );
+    await expect(service.linkConsultation(orderId, 'missing', userId)).rejects.toThrow(
+      ConsultationRequestNotFoundException,
+    );
+  });
+
+  it('rejects linking to an order in a terminal state', async () => {
+    const orderId = await createPrescriptionOrder(OrderStatus.CANCELLED);
+    const prescription = await prescriptionRepository.save({ userId, fileReference: 'file-1' });
+
+    await expect(service.linkPrescription(orderId, prescription.id, userId)).rejects.toThrow(
+      OrderTerminalStateException,
+    );
+  });
+});
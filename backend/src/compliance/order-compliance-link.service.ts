@@ -0,0 +1,188 @@
+import { Inject, Injectable } from '@nestjs/common';
+import {
+  ORDER_REPOSITORY,
+  IOrderRepository,
+} from '../order/repositories/order-repository.interface';
+import { OrderDto } from '../order/dto/order.dto';
+import { isTerminalStatus } from '../order/domain';
+import {
+  OrderNotFoundException,
+  OrderTerminalStateException,
+  UnauthorizedOrderAccessException,
+} from '../order/exceptions/order.exceptions';
+import { PRESCRIPTION_REPOSITORY } from '../prescription/repositories/prescription-repository.interface';
+import { IPrescriptionRepository } from '../prescription/repositories/prescription-repository.interface';
+import { PrescriptionStatus } from '../prescription/domain';
+import { PrescriptionNotFoundException } from '../prescription/exceptions';
+import { CONSULTATION_REQUEST_REPOSITORY } from '../consultation/repositories/consultation-request-repository.interface';
+import { IConsultationRequestRepository } from '../consultation/repositories/consultation-request-repository.interface';
+import { ConsultationStatus } from '../consultation/domain';
+import { ConsultationRequestNotFoundException } from '../consultation/exceptions';
+import { IOrderPrescriptionLinkRepository } from './order-prescription-link-repository.interface';
+import { ORDER_PRESCRIPTION_LINK_REPOSITORY } from './order-prescription-link-repository.interface';
+import { IOrderConsultationLinkRepository } from './order-consultation-link-repository.interface';
+import { ORDER_CONSULTATION_LINK_REPOSITORY } from './order-consultation-link-repository.interface';
+import { OrderComplianceService } from './order-compliance.service';
+import { ComplianceStatus } from './compliance-status';
+import { OrderComplianceDto } from './order-compliance-link.dto';
+import {
+  ComplianceArtifactOwnershipException,
+  RejectedComplianceArtifactException,
+} from './compliance.exceptions';
+import { logWithCorrelation } from '../common/logging/logger';
+
+/**
+ * Order Compliance Link Service (ADR-0055)
+ *
+ * Attaches compliance artifacts (prescriptions, consultation requests) to an order
+ * so that OrderComplianceService can evaluate them.
+ *
+ * Rules:
+ * - Order must exist, belong to the user and not be in a terminal state
+ * - Artifact must exist and belong to the same user as the order
+ * - REJECTED artifacts cannot be linked (they can never satisfy the gate)
+ * - Linking the same artifact twice is a no-op
+ */
+@Injectable()
+export class OrderComplianceLinkService {
+  constructor(
+    @Inject(ORDER_REPOSITORY)
+    private readonly orderRepository: IOrderRepository,
+    @Inject(PRESCRIPTION_REPOSITORY)
+    private readonly prescriptionRepository: IPrescriptionRepository,
+    @Inject(CONSULTATION_REQUEST_REPOSITORY)
+    private readonly consultationRepository: IConsultationRequestRepository,
+    @Inject(ORDER_PRESCRIPTION_LINK_REPOSITORY)
+    private readonly prescriptionLinkRepository: IOrderPrescriptionLinkRepository,
+    @Inject(ORDER_CONSULTATION_LINK_REPOSITORY)
+    private readonly consultationLinkRepository: IOrderConsultationLinkRepository,
+    private readonly orderComplianceService: OrderComplianceService,
+  ) {}
+
+  /**
+   * Link an existing prescription to the user's order.
+   */
+  async linkPrescription(
+    orderId: string,
+    prescriptionId: string,
+    userId: string,
+    correlationId?: string,
+  ): Promise<OrderComplianceDto> {
+    await this.getLinkableOrder(orderId, userId, correlationId);
+
+    const prescription = await this.prescriptionRepository.findById(prescriptionId);
+    if (!prescription) {
+      throw new PrescriptionNotFoundException(prescriptionId);
+    }
+    if (prescription.userId !== userId) {
+      throw new ComplianceArtifactOwnershipException('PRESCRIPTION', prescriptionId);
+    }
+    if (prescription.status === PrescriptionStatus.REJECTED) {
+      throw new RejectedComplianceArtifactException('PRESCRIPTION', prescriptionId);
+    }
+
+    const linkedIds = await this.prescriptionLinkRepository.findPrescriptionIdsByOrderId(orderId);
+    if (!linkedIds.includes(prescriptionId)) {
+      await this.prescriptionLinkRepository.addLink(orderId, prescriptionId);
+    }
+
+    if (correlationId) {
+      logWithCorrelation(
+        'INFO',
+        correlationId,
+        'Prescription linked to order',
+        'OrderComplianceLinkService',
+        {
+          orderId,
+          prescriptionId,
+          userId,
+        },
+      );
+    }
+
+    return this.getOrderCompliance(orderId);
+  }
+
+  /**
+   * Link an existing consultation request to the user's order.
+   */
+  async linkConsultation(
+    orderId: string,
+    consultationRequestId: string,
+    userId: string,
+    correlationId?: string,
+  ): Promise<OrderComplianceDto> {
+    await this.getLinkableOrder(orderId, userId, correlationId);
+
+    const consultation = await this.consultationRepository.findById(consultationRequestId);
+    if (!consultation) {
+      throw new ConsultationRequestNotFoundException(consultationRequestId);
+    }
+    if (consultation.userId !== userId) {
+      throw new ComplianceArtifactOwnershipException('CONSULTATION_REQUEST', consultationRequestId);
+    }
+    if (consultation.status === ConsultationStatus.REJECTED) {
+      throw new RejectedComplianceArtifactException('CONSULTATION_REQUEST', consultationRequestId);
+    }
+
+    const linkedIds =
+      await this.consultationLinkRepository.findConsultationRequestIdsByOrderId(orderId);
+    if (!linkedIds.includes(consultationRequestId)) {
+      await this.consultationLinkRepository.addLink(orderId, consultationRequestId);
+    }
+
+    if (correlationId) {
+      logWithCorrelation(
+        'INFO',
+        correlationId,
+        'Consultation linked to order',
+        'OrderComplianceLinkService',
+        {
+          orderId,
+          consultationRequestId,
+          userId,
+        },
+      );
+    }
+
+    return this.getOrderCompliance(orderId);
+  }
+
+  private async getLinkableOrder(
+    orderId: string,
+    userId: string,
+    correlationId?: string,
+  ): Promise<OrderDto> {
+    const order = await this.orderRepository.findById(orderId);
+    if (!order) {
+      throw new OrderNotFoundException(orderId);
+    }
+    if (order.userId !== userId) {
+      if (correlationId) {
+        logWithCorrelation(
+          'WARN',
+          correlationId,
+          'Unauthorized compliance link attempt',
+          'OrderComplianceLinkService',
+          { orderId, requestingUserId: userId, ownerUserId: order.userId },
+        );
+      }
+      throw new UnauthorizedOrderAccessException();
+    }
+    if (isTerminalStatus(order.status)) {
+      throw new OrderTerminalStateException(orderId, order.status);
+    }
+    return order;
+  }
+
+  private async getOrderCompliance(orderId: string): Promise<OrderComplianceDto> {
+    const info = await this.orderComplianceService.getComplianceInfo(orderId);
+    return {
+      orderId,
+      requiresPrescription: info !== null,
+      status: info?.status ?? ComplianceStatus.APPROVED,
+      prescriptions: info?.prescriptions ?? [],
+      consultations: info?.consultations ?? [],
+    };
+  }
+}
@@ -0,0 +1,74 @@
+import {
+  Body,
+  Controller,
+  Headers,
+  HttpCode,
+  HttpStatus,
+  Param,
+  Post,
+  UseGuards,
+} from '@nestjs/common';
+import { ApiResponse } from '../common/api/api-response';
+import { JwtAuthGuard } from '../auth/guards/jwt-auth.guard';
+import { CurrentUser } from '../auth/decorators/current-user.decorator';
+import { AuthUser } from '../auth/interfaces/auth-user.interface';
+import { OrderComplianceLinkService } from './order-compliance-link.service';
+import {
+  LinkOrderConsultationDto,
+  LinkOrderPrescriptionDto,
+  OrderComplianceDto,
+} from './order-compliance-link.dto';
+
+/**
+ * Order Compliance Controller (ADR-0055)
+ *
+ * Lets customers attach their own compliance artifacts to an order.
+ * Routes live under /orders but are owned by the compliance module.
+ */
+@Controller('orders')
+@UseGuards(JwtAuthGuard)
+export class OrderComplianceController {
+  constructor(private readonly orderComplianceLinkService: OrderComplianceLinkService) {}
+
+  /**
+   * Link a prescription to an order
+   * POST /api/v1/orders/:id/prescriptions
+   */
+  @Post(':id/prescriptions')
+  @HttpCode(HttpStatus.OK)
+  async linkPrescription(
+    @Param('id') orderId: string,
+    @Body() dto: LinkOrderPrescriptionDto,
+    @CurrentUser() user: AuthUser,
+    @Headers('x-correlation-id') correlationId: string,
+  ): Promise<ApiResponse<OrderComplianceDto>> {
+    const compliance = await this.orderComplianceLinkService.linkPrescription(
+      orderId,
+      dto.prescriptionId,
+      user.id,
+      correlationId,
+    );
+    return ApiResponse.success(compliance, 'Prescription linked to order');
+  }
+
+  /**
+   * Link a consultation request to an order
+   * POST /api/v1/orders/:id/consultations
+   */
+  @Post(':id/consultations')
+  @HttpCode(HttpStatus.OK)
+  async linkConsultation(
+    @Param('id') orderId: string,
+    @Body() dto: LinkOrderConsultationDto,
+    @CurrentUser() user: AuthUser,
+    @Headers('x-correlation-id') correlationId: string,
+  ): Promise<ApiResponse<OrderComplianceDto>> {
+    const compliance = await this.orderComplianceLinkService.linkConsultation(
+      orderId,
+      dto.consultationRequestId,
+      user.id,
+      correlationId,
+    );
+    return ApiResponse.success(compliance, 'Consultation linked to order');
+  }
+}
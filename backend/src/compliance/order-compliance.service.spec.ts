@@ -73,7 +73,7 @@ describe('OrderComplianceService', () => {
       });
       await orderRepository.addItem(order.id, item);
     }
-    await orderRepository.updateStatus(order.id, status);
+    await orderRepository.updateStatus(order.id, status, { actorId: 'test-setup' });
     const updated = await orderRepository.findById(order.id);
     return updated!.id;
   }
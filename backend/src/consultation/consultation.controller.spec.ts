@@ -0,0 +1,26 @@
+import 'reflect-metadata';
+import { GUARDS_METADATA } from '@nestjs/common/constants';
+import { ROLES_KEY } from '../auth/decorators/roles.decorator';
+import { JwtAuthGuard } from '../auth/guards/jwt-auth.guard';
+import { RolesGuard } from '../auth/guards/roles.guard';
+import { UserRole } from '../auth/interfaces/auth-user.interface';
+import { ConsultationAdminController, ConsultationController } from './consultation.controller';
+
+describe('ConsultationController - User endpoints', () => {
+  it('should protect endpoints with JwtAuthGuard', () => {
+    const guards = Reflect.getMetadata(GUARDS_METADATA, ConsultationController) as unknown[];
+    expect(guards).toEqual(expect.arrayContaining([JwtAuthGuard]));
+  });
+});
+
+describe('ConsultationAdminController - Admin endpoints', () => {
+  it('should protect admin endpoints with JwtAuthGuard and RolesGuard', () => {
+    const guards = Reflect.getMetadata(GUARDS_METADATA, ConsultationAdminController) as unknown[];
+    expect(guards).toEqual(expect.arrayContaining([JwtAuthGuard, RolesGuard]));
+  });
+
+  it('should allow ADMIN and PHARMACIST roles', () => {
+    const roles = Reflect.getMetadata(ROLES_KEY, ConsultationAdminController) as UserRole[];
+    expect(roles).toEqual(expect.arrayContaining([UserRole.ADMIN, UserRole.PHARMACIST]));
+  });
+});
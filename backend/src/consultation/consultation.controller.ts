@@ -0,0 +1,115 @@
+import {
+  Body,
+  Controller,
+  Get,
+  HttpCode,
+  HttpStatus,
+  Param,
+  Post,
+  UseGuards,
+} from '@nestjs/common';
+import { ApiResponse } from '../common/api/api-response';
+import { JwtAuthGuard } from '../auth/guards/jwt-auth.guard';
+import { RolesGuard } from '../auth/guards/roles.guard';
+import { Roles } from '../auth/decorators/roles.decorator';
+import { CurrentUser } from '../auth/decorators/current-user.decorator';
+import { UserRole } from '../auth/interfaces/auth-user.interface';
+import {
+  ConsultationRequestDto,
+  RejectConsultationRequestDto,
+  SubmitConsultationRequestDto,
+} from './dto';
+import { SubmitConsultationRequestUseCase } from './use-cases/submit-consultation-request.use-case';
+import { GetMyConsultationRequestsUseCase } from './use-cases/get-my-consultation-requests.use-case';
+import { GetPendingConsultationRequestsUseCase } from './use-cases/get-pending-consultation-requests.use-case';
+import { ReviewConsultationRequestUseCase } from './use-cases/review-consultation-request.use-case';
+
+/**
+ * Consultation Controller (User)
+ */
+@Controller('consultations')
+@UseGuards(JwtAuthGuard)
+export class ConsultationController {
+  constructor(
+    private readonly submitConsultationRequestUseCase: SubmitConsultationRequestUseCase,
+    private readonly getMyConsultationRequestsUseCase: GetMyConsultationRequestsUseCase,
+  ) {}
+
+  /**
+   * Request a doctor consultation
+   * POST /api/v1/consultations
+   */
+  @Post()
+  @HttpCode(HttpStatus.CREATED)
+  async submit(
+    @CurrentUser('id') userId: string,
+    @Body() dto: SubmitConsultationRequestDto,
+  ): Promise<ApiResponse<ConsultationRequestDto>> {
+    const request = await this.submitConsultationRequestUseCase.execute(userId, dto);
+    return ApiResponse.success(request, 'Consultation requested successfully');
+  }
+
+  /**
+   * List my consultation requests
+   * GET /api/v1/consultations
+   */
+  @Get()
+  async getMyConsultationRequests(
+    @CurrentUser('id') userId: string,
+  ): Promise<ApiResponse<ConsultationRequestDto[]>> {
+    const requests = await this.getMyConsultationRequestsUseCase.execute(userId);
+    return ApiResponse.success(requests, 'Consultation requests retrieved successfully');
+  }
+}
+
+/**
+ * Consultation Admin Controller
+ *
+ * Admins and pharmacists review consultation requests (ADR-0055 compliance path B).
+ */
+@Controller('admin/consultations')
+@UseGuards(JwtAuthGuard, RolesGuard)
+@Roles(UserRole.ADMIN, UserRole.PHARMACIST)
+export class ConsultationAdminController {
+  constructor(
+    private readonly getPendingConsultationRequestsUseCase: GetPendingConsultationRequestsUseCase,
+    private readonly reviewConsultationRequestUseCase: ReviewConsultationRequestUseCase,
+  ) {}
+
+  /**
+   * List pending consultation requests
+   * GET /api/v1/admin/consultations/pending
+   */
+  @Get('pending')
+  async getPending(): Promise<ApiResponse<ConsultationRequestDto[]>> {
+    const requests = await this.getPendingConsultationRequestsUseCase.execute();
+    return ApiResponse.success(requests, 'Pending consultation requests retrieved successfully');
+  }
+
+  /**
+   * Approve consultation request
+   * POST /api/v1/admin/consultations/:id/approve
+   */
+  @Post(':id/approve')
+  async approve(@Param('id') id: string): Promise<ApiResponse<ConsultationRequestDto>> {
+    const request = await this.reviewConsultationRequestUseCase.execute(id, 'APPROVE');
+    return ApiResponse.success(request, 'Consultation request approved successfully');
+  }
+
+  /**
+   * Reject consultation request
+   * POST /api/v1/admin/consultations/:id/reject
+   */
+  @Post(':id/reject')
+  async reject(
+    @Param('id') id: string,
+    @Body() dto: RejectConsultationRequestDto,
+  ): Promise<ApiResponse<ConsultationRequestDto>> {
+    const request = await this.reviewConsultationRequestUseCase.execute(
+      id,
+      'REJECT',
+      dto.rejectionReason,
+    );
+    return ApiResponse.success(request, 'Consultation request rejected');
+  }
+}
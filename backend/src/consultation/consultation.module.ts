@@ -1,11 +1,28 @@
 import { Module } from '@nestjs/common';
+import { AuthModule } from '../auth/auth.module';
+import { ConsultationAdminController, ConsultationController } from './consultation.controller';
 import { CONSULTATION_REQUEST_REPOSITORY } from './repositories/consultation-request-repository.interface';
 import { InMemoryConsultationRequestRepository } from './repositories/in-memory-consultation-request.repository';
 import { PrismaConsultationRequestRepository } from './repositories/prisma-consultation-request.repository';
+import { SubmitConsultationRequestUseCase } from './use-cases/submit-consultation-request.use-case';
+import { GetMyConsultationRequestsUseCase } from './use-cases/get-my-consultation-requests.use-case';
+import { GetPendingConsultationRequestsUseCase } from './use-cases/get-pending-consultation-requests.use-case';
+import { ReviewConsultationRequestUseCase } from './use-cases/review-consultation-request.use-case';
 import { PrismaService } from '../database/prisma.service';
 import { getRepositoryType } from '../database/repository.providers';
 
+/**
+ * Consultation Module (ADR-0055 compliance path B)
+ *
+ * Handles doctor consultation requests:
+ * - Customers request a consultation with symptoms and notes
+ * - Admins / pharmacists approve or reject pending requests
+ *
+ * Does not reference orders; linking happens in the compliance module.
+ */
 @Module({
+  imports: [AuthModule],
+  controllers: [ConsultationController, ConsultationAdminController],
   providers: [
     {
       provide: CONSULTATION_REQUEST_REPOSITORY,
@@ -17,6 +34,10 @@ import { getRepositoryType } from '../database/repository.providers';
       },
       inject: [PrismaService],
     },
+    SubmitConsultationRequestUseCase,
+    GetMyConsultationRequestsUseCase,
+    GetPendingConsultationRequestsUseCase,
+    ReviewConsultationRequestUseCase,
   ],
   exports: [CONSULTATION_REQUEST_REPOSITORY],
 })
@@ -14,6 +14,10 @@ export enum ConsultationStatus {
 export interface ConsultationRequest {
   readonly id: string;
   readonly userId: string;
+  /** Symptoms described by the customer */
+  readonly symptoms: string | null;
+  /** Additional notes for the doctor (medication history, preferred callback time, etc.) */
+  readonly notes: string | null;
   readonly status: ConsultationStatus;
   readonly createdAt: Date;
   readonly reviewedAt: Date | null;
@@ -22,6 +26,8 @@ export interface ConsultationRequest {
 
 export interface CreateConsultationRequestData {
   userId: string;
+  symptoms?: string | null;
+  notes?: string | null;
 }
 
 export interface UpdateConsultationStatusData {
@@ -29,3 +35,20 @@ export interface UpdateConsultationStatusData {
   reviewedAt: Date;
   rejectionReason?: string | null;
 }
+
+export function createConsultationRequest(
+  id: string,
+  data: CreateConsultationRequestData,
+  now: Date = new Date(),
+): ConsultationRequest {
+  return {
+    id,
+    userId: data.userId,
+    symptoms: data.symptoms ?? null,
+    notes: data.notes ?? null,
+    status: ConsultationStatus.PENDING,
+    createdAt: now,
+    reviewedAt: null,
+    rejectionReason: null,
+  };
+}
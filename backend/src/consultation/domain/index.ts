@@ -3,4 +3,5 @@ export {
   type ConsultationRequest,
   type CreateConsultationRequestData,
   type UpdateConsultationStatusData,
+  createConsultationRequest,
 } from './consultation-request.entity';
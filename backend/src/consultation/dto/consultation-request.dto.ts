@@ -0,0 +1,45 @@
+import { IsNotEmpty, IsOptional, IsString, Length } from 'class-validator';
+import { ConsultationRequest, ConsultationStatus } from '../domain';
+
+export interface ConsultationRequestDto {
+  id: string;
+  userId: string;
+  symptoms: string | null;
+  notes: string | null;
+  status: ConsultationStatus;
+  createdAt: string;
+  reviewedAt: string | null;
+  rejectionReason: string | null;
+}
+
+export class SubmitConsultationRequestDto {
+  @IsString()
+  @IsNotEmpty()
+  @Length(1, 1000)
+  symptoms: string;
+
+  @IsOptional()
+  @IsString()
+  @Length(1, 1000)
+  notes?: string;
+}
+
+export class RejectConsultationRequestDto {
+  @IsString()
+  @IsNotEmpty()
+  @Length(1, 500)
+  rejectionReason: string;
+}
+
+export function toConsultationRequestDto(request: ConsultationRequest): ConsultationRequestDto {
+  return {
+    id: request.id,
+    userId: request.userId,
+    symptoms: request.symptoms,
+    notes: request.notes,
+    status: request.status,
+    createdAt: request.createdAt.toISOString(),
+    reviewedAt: request.reviewedAt ? request.reviewedAt.toISOString() : null,
+    rejectionReason: request.rejectionReason,
+  };
+}
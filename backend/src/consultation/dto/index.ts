@@ -0,0 +1,6 @@
+export {
+  ConsultationRequestDto,
+  SubmitConsultationRequestDto,
+  RejectConsultationRequestDto,
+  toConsultationRequestDto,
+} from './consultation-request.dto';
@@ -0,0 +1,23 @@
+import { HttpStatus } from '@nestjs/common';
+import { BusinessException } from '../../common/exceptions/business.exception';
+import { ConsultationStatus } from '../domain';
+
+export class ConsultationRequestNotFoundException extends BusinessException {
+  constructor(id: string) {
+    super(
+      'CONSULTATION_REQUEST_NOT_FOUND',
+      `Consultation request '${id}' not found`,
+      HttpStatus.NOT_FOUND,
+    );
+  }
+}
+
+export class InvalidConsultationStatusException extends BusinessException {
+  constructor(currentStatus: ConsultationStatus, targetStatus: ConsultationStatus) {
+    super(
+      'INVALID_CONSULTATION_STATUS',
+      `Cannot transition consultation request from '${currentStatus}' to '${targetStatus}'`,
+      HttpStatus.CONFLICT,
+    );
+  }
+}
@@ -0,0 +1,4 @@
+export {
+  ConsultationRequestNotFoundException,
+  InvalidConsultationStatusException,
+} from './consultation.exceptions';
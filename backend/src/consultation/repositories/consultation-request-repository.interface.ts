@@ -9,6 +9,7 @@ export interface IConsultationRequestRepository {
   save(data: CreateConsultationRequestData): Promise<ConsultationRequest>;
   findById(id: string): Promise<ConsultationRequest | null>;
   findByUserId(userId: string): Promise<ConsultationRequest[]>;
+  findPending(): Promise<ConsultationRequest[]>;
   updateStatus(id: string, data: UpdateConsultationStatusData): Promise<ConsultationRequest | null>;
 }
 
@@ -5,6 +5,7 @@ import {
   CreateConsultationRequestData,
   UpdateConsultationStatusData,
   ConsultationStatus,
+  createConsultationRequest,
 } from '../domain';
 import { IConsultationRequestRepository } from './consultation-request-repository.interface';
 
@@ -14,14 +15,7 @@ export class InMemoryConsultationRequestRepository implements IConsultationReque
 
   async save(data: CreateConsultationRequestData): Promise<ConsultationRequest> {
     const id = randomUUID();
-    const request: ConsultationRequest = {
-      id,
-      userId: data.userId,
-      status: ConsultationStatus.PENDING,
-      createdAt: new Date(),
-      reviewedAt: null,
-      rejectionReason: null,
-    };
+    const request = createConsultationRequest(id, data);
     this.requests.set(id, request);
     return request;
   }
@@ -36,6 +30,12 @@ export class InMemoryConsultationRequestRepository implements IConsultationReque
       .sort((a, b) => b.createdAt.getTime() - a.createdAt.getTime());
   }
 
+  async findPending(): Promise<ConsultationRequest[]> {
+    return Array.from(this.requests.values())
+      .filter((r) => r.status === ConsultationStatus.PENDING)
+      .sort((a, b) => a.createdAt.getTime() - b.createdAt.getTime());
+  }
+
   async updateStatus(
     id: string,
     data: UpdateConsultationStatusData,
@@ -51,4 +51,8 @@ export class InMemoryConsultationRequestRepository implements IConsultationReque
     this.requests.set(id, updated);
     return updated;
   }
+
+  clear(): void {
+    this.requests.clear();
+  }
 }
@@ -0,0 +1,6 @@
+export {
+  CONSULTATION_REQUEST_REPOSITORY,
+  IConsultationRequestRepository,
+} from './consultation-request-repository.interface';
+export { InMemoryConsultationRequestRepository } from './in-memory-consultation-request.repository';
+export { PrismaConsultationRequestRepository } from './prisma-consultation-request.repository';
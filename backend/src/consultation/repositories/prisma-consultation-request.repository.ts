@@ -8,13 +8,29 @@ import {
 } from '../domain';
 import { IConsultationRequestRepository } from './consultation-request-repository.interface';
 
+type PrismaConsultationRequestRecord = {
+  id: string;
+  userId: string;
+  symptoms: string | null;
+  notes: string | null;
+  status: string;
+  createdAt: Date;
+  reviewedAt: Date | null;
+  rejectionReason: string | null;
+};
+
 @Injectable()
 export class PrismaConsultationRequestRepository implements IConsultationRequestRepository {
   constructor(private readonly prisma: PrismaService) {}
 
   async save(data: CreateConsultationRequestData): Promise<ConsultationRequest> {
     const row = await this.prisma.consultationRequest.create({
-      data: { userId: data.userId, status: 'PENDING' },
+      data: {
+        userId: data.userId,
+        symptoms: data.symptoms ?? null,
+        notes: data.notes ?? null,
+        status: 'PENDING',
+      },
     });
     return this.toDomain(row);
   }
@@ -29,9 +45,15 @@ export class PrismaConsultationRequestRepository implements IConsultationRequest
       where: { userId },
       orderBy: { createdAt: 'desc' },
     });
-    return rows.map((r: { id: string; userId: string; status: string; createdAt: Date; reviewedAt: Date | null; rejectionReason: string | null }) =>
-      this.toDomain(r),
-    );
+    return rows.map((r: PrismaConsultationRequestRecord) => this.toDomain(r));
+  }
+
+  async findPending(): Promise<ConsultationRequest[]> {
+    const rows = await this.prisma.consultationRequest.findMany({
+      where: { status: 'PENDING' },
+      orderBy: { createdAt: 'asc' },
+    });
+    return rows.map((r: PrismaConsultationRequestRecord) => this.toDomain(r));
   }
 
   async updateStatus(
@@ -53,17 +75,12 @@ export class PrismaConsultationRequestRepository implements IConsultationRequest
     }
   }
 
-  private toDomain(row: {
-    id: string;
-    userId: string;
-    status: string;
-    createdAt: Date;
-    reviewedAt: Date | null;
-    rejectionReason: string | null;
-  }): ConsultationRequest {
+  private toDomain(row: PrismaConsultationRequestRecord): ConsultationRequest {
     return {
       id: row.id,
       userId: row.userId,
+      symptoms: row.symptoms,
+      notes: row.notes,
       status: row.status as ConsultationStatus,
       createdAt: row.createdAt,
       reviewedAt: row.reviewedAt,
@@ -0,0 +1,102 @@
+import { InMemoryConsultationRequestRepository } from '../repositories/in-memory-consultation-request.repository';
+import { SubmitConsultationRequestUseCase } from './submit-consultation-request.use-case';
+import { GetMyConsultationRequestsUseCase } from './get-my-consultation-requests.use-case';
+import { GetPendingConsultationRequestsUseCase } from './get-pending-consultation-requests.use-case';
+import { ReviewConsultationRequestUseCase } from './review-consultation-request.use-case';
+import { ConsultationStatus } from '../domain';
+import {
+  ConsultationRequestNotFoundException,
+  InvalidConsultationStatusException,
+} from '../exceptions';
+
+describe('Consultation Use Cases', () => {
+  let repository: InMemoryConsultationRequestRepository;
+  let submitUseCase: SubmitConsultationRequestUseCase;
+  let getMyUseCase: GetMyConsultationRequestsUseCase;
+  let getPendingUseCase: GetPendingConsultationRequestsUseCase;
+  let reviewUseCase: ReviewConsultationRequestUseCase;
+
+  beforeEach(() => {
+    repository = new InMemoryConsultationRequestRepository();
+    submitUseCase = new SubmitConsultationRequestUseCase(repository);
+    getMyUseCase = new GetMyConsultationRequestsUseCase(repository);
+    getPendingUseCase = new GetPendingConsultationRequestsUseCase(repository);
+    reviewUseCase = new ReviewConsultationRequestUseCase(repository);
+  });
+
+  afterEach(() => {
+    repository.clear();
+  });
+
+  it('creates a pending consultation request with symptoms and notes', async () => {
+    const result = await submitUseCase.execute('user-1', {
+      symptoms: ' Fever for three days ',
+      notes: 'Call after 6pm',
+    });
+
+    expect(result.userId).toBe('user-1');
+    expect(result.status).toBe(ConsultationStatus.PENDING);
+    expect(result.symptoms).toBe('Fever for three days');
+    expect(result.notes).toBe('Call after 6pm');
+  });
+
+  it('stores missing notes as null', async () => {
+    const result = await submitUseCase.execute('user-1', { symptoms: 'Cough' });
+    expect(result.notes).toBeNull();
+  });
+
+  it('returns consultation requests for authenticated user only', async () => {
+    await submitUseCase.execute('user-1', { symptoms: 'Cough' });
+    await submitUseCase.execute('user-2', { symptoms: 'Headache' });
+
+    const mine = await getMyUseCase.execute('user-1');
+
+    expect(mine).toHaveLength(1);
+    expect(mine[0].userId).toBe('user-1');
+  });
+
+  it('returns only pending requests for admin review', async () => {
+    const first = await submitUseCase.execute('user-1', { symptoms: 'Cough' });
+    await submitUseCase.execute('user-2', { symptoms: 'Headache' });
+    await reviewUseCase.execute(first.id, 'APPROVE');
+
+    const pending = await getPendingUseCase.execute();
+
+    expect(pending).toHaveLength(1);
+    expect(pending[0].userId).toBe('user-2');
+  });
+
+  it('allows admin to approve a pending request', async () => {
+    const created = await submitUseCase.execute('user-1', { symptoms: 'Cough' });
+
+    const reviewed = await reviewUseCase.execute(created.id, 'APPROVE');
+
+    expect(reviewed.status).toBe(ConsultationStatus.APPROVED);
+    expect(reviewed.reviewedAt).not.toBeNull();
+    expect(reviewed.rejectionReason).toBeNull();
+  });
+
+  it('allows admin to reject a pending request with a reason', async () => {
+    const created = await submitUseCase.execute('user-1', { symptoms: 'Cough' });
+
+    const reviewed = await reviewUseCase.execute(created.id, 'REJECT', 'Needs in-person visit');
+
+    expect(reviewed.status).toBe(ConsultationStatus.REJECTED);
+    expect(reviewed.rejectionReason).toBe('Needs in-person visit');
+  });
+
+  it('prevents invalid transitions once reviewed', async () => {
+    const created = await submitUseCase.execute('user-1', { symptoms: 'Cough' });
+    await reviewUseCase.execute(created.id, 'APPROVE');
+
+    await expect(reviewUseCase.execute(created.id, 'REJECT', 'Too late')).rejects.toThrow(
+      InvalidConsultationStatusException,
+    );
+  });
+
+  it('throws when reviewing an unknown request', async () => {
+    await expect(reviewUseCase.execute('missing', 'APPROVE')).rejects.toThrow(
+      ConsultationRequestNotFoundException,
+    );
+  });
+});
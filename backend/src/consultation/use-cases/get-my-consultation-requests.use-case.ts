@@ -0,0 +1,21 @@
+import { Inject, Injectable } from '@nestjs/common';
+import { CONSULTATION_REQUEST_REPOSITORY, IConsultationRequestRepository } from '../repositories';
+import { ConsultationRequestDto, toConsultationRequestDto } from '../dto';
+
+/**
+ * GetMyConsultationRequestsUseCase
+ *
+ * Returns consultation requests owned by the authenticated user.
+ */
+@Injectable()
+export class GetMyConsultationRequestsUseCase {
+  constructor(
+    @Inject(CONSULTATION_REQUEST_REPOSITORY)
+    private readonly consultationRepository: IConsultationRequestRepository,
+  ) {}
+
+  async execute(userId: string): Promise<ConsultationRequestDto[]> {
+    const requests = await this.consultationRepository.findByUserId(userId);
+    return requests.map((request) => toConsultationRequestDto(request));
+  }
+}
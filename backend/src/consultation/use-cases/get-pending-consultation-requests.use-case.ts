@@ -0,0 +1,21 @@
+import { Inject, Injectable } from '@nestjs/common';
+import { CONSULTATION_REQUEST_REPOSITORY, IConsultationRequestRepository } from '../repositories';
+import { ConsultationRequestDto, toConsultationRequestDto } from '../dto';
+
+/**
+ * GetPendingConsultationRequestsUseCase
+ *
+ * Returns all consultation requests awaiting review.
+ */
+@Injectable()
+export class GetPendingConsultationRequestsUseCase {
+  constructor(
+    @Inject(CONSULTATION_REQUEST_REPOSITORY)
+    private readonly consultationRepository: IConsultationRequestRepository,
+  ) {}
+
+  async execute(): Promise<ConsultationRequestDto[]> {
+    const requests = await this.consultationRepository.findPending();
+    return requests.map((request) => toConsultationRequestDto(request));
+  }
+}
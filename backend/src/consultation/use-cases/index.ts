@@ -0,0 +1,7 @@
+export { SubmitConsultationRequestUseCase } from './submit-consultation-request.use-case';
+export { GetMyConsultationRequestsUseCase } from './get-my-consultation-requests.use-case';
+export { GetPendingConsultationRequestsUseCase } from './get-pending-consultation-requests.use-case';
+export {
+  ReviewConsultationRequestUseCase,
+  ConsultationReviewDecision,
+} from './review-consultation-request.use-case';
@@ -0,0 +1,53 @@
+import { Inject, Injectable } from '@nestjs/common';
+import { CONSULTATION_REQUEST_REPOSITORY, IConsultationRequestRepository } from '../repositories';
+import { ConsultationRequestDto, toConsultationRequestDto } from '../dto';
+import { ConsultationStatus } from '../domain';
+import {
+  ConsultationRequestNotFoundException,
+  InvalidConsultationStatusException,
+} from '../exceptions';
+
+export type ConsultationReviewDecision = 'APPROVE' | 'REJECT';
+
+/**
+ * ReviewConsultationRequestUseCase
+ *
+ * Approves or rejects a pending consultation request.
+ */
+@Injectable()
+export class ReviewConsultationRequestUseCase {
+  constructor(
+    @Inject(CONSULTATION_REQUEST_REPOSITORY)
+    private readonly consultationRepository: IConsultationRequestRepository,
+  ) {}
+
+  async execute(
+    consultationRequestId: string,
+    decision: ConsultationReviewDecision,
+    rejectionReason?: string,
+  ): Promise<ConsultationRequestDto> {
+    const request = await this.consultationRepository.findById(consultationRequestId);
+    if (!request) {
+      throw new ConsultationRequestNotFoundException(consultationRequestId);
+    }
+
+    const status =
+      decision === 'APPROVE' ? ConsultationStatus.APPROVED : ConsultationStatus.REJECTED;
+
+    if (request.status !== ConsultationStatus.PENDING) {
+      throw new InvalidConsultationStatusException(request.status, status);
+    }
+
+    const updated = await this.consultationRepository.updateStatus(consultationRequestId, {
+      status,
+      reviewedAt: new Date(),
+      rejectionReason: decision === 'REJECT' ? (rejectionReason ?? null) : null,
+    });
+
+    if (!updated) {
+      throw new ConsultationRequestNotFoundException(consultationRequestId);
+    }
+
+    return toConsultationRequestDto(updated);
+  }
+}
@@ -0,0 +1,32 @@
+import { Inject, Injectable } from '@nestjs/common';
+import { CONSULTATION_REQUEST_REPOSITORY, IConsultationRequestRepository } from '../repositories';
+import {
+  ConsultationRequestDto,
+  SubmitConsultationRequestDto,
+  toConsultationRequestDto,
+} from '../dto';
+
+/**
+ * SubmitConsultationRequestUseCase
+ *
+ * Creates a new consultation request in PENDING status for authenticated user.
+ */
+@Injectable()
+export class SubmitConsultationRequestUseCase {
+  constructor(
+    @Inject(CONSULTATION_REQUEST_REPOSITORY)
+    private readonly consultationRepository: IConsultationRequestRepository,
+  ) {}
+
+  async execute(
+    userId: string,
+    dto: SubmitConsultationRequestDto,
+  ): Promise<ConsultationRequestDto> {
+    const request = await this.consultationRepository.save({
+      userId,
+      symptoms: dto.symptoms.trim(),
+      notes: dto.notes?.trim() || null,
+    });
+    return toConsultationRequestDto(request);
+  }
+}
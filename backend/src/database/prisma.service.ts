@@ -75,6 +75,10 @@ export class PrismaService implements OnModuleInit, OnModuleDestroy {
     return this.getClient().refreshToken;
   }
 
+  get otpChallenge() {
+    return this.getClient().otpChallenge;
+  }
+
   get prescription() {
     return this.getClient().prescription;
   }
@@ -99,6 +103,10 @@ export class PrismaService implements OnModuleInit, OnModuleDestroy {
     return this.getClient().consultationRequest;
   }
 
+  get orderStatusHistory() {
+    return this.getClient().orderStatusHistory;
+  }
+
   get orderPrescriptionLink() {
     return this.getClient().orderPrescriptionLink;
   }
@@ -111,6 +119,18 @@ export class PrismaService implements OnModuleInit, OnModuleDestroy {
     return this.getClient().paymentIntent;
   }
 
+  get refund() {
+    return this.getClient().refund;
+  }
+
+  get paymentWebhookEvent() {
+    return this.getClient().paymentWebhookEvent;
+  }
+
+  get paymentReminder() {
+    return this.getClient().paymentReminder;
+  }
+
   get newsletterSubscriber() {
     return this.getClient().newsletterSubscriber;
   }
@@ -122,4 +142,48 @@ export class PrismaService implements OnModuleInit, OnModuleDestroy {
   get healthArticle() {
     return this.getClient().healthArticle;
   }
+
+  get storedFile() {
+    return this.getClient().storedFile;
+  }
+
+  get stockItem() {
+    return this.getClient().stockItem;
+  }
+
+  get stockReservation() {
+    return this.getClient().stockReservation;
+  }
+
+  get productBatch() {
+    return this.getClient().productBatch;
+  }
+
+  get batchAllocation() {
+    return this.getClient().batchAllocation;
+  }
+
+  get shipment() {
+    return this.getClient().shipment;
+  }
+
+  get shipmentTrackingEvent() {
+    return this.getClient().shipmentTrackingEvent;
+  }
+
+  get outboxMessage() {
+    return this.getClient().outboxMessage;
+  }
+
+  get notification() {
+    return this.getClient().notification;
+  }
+
+  get notificationPreferences() {
+    return this.getClient().notificationPreferences;
+  }
+
+  get auditLog() {
+    return this.getClient().auditLog;
+  }
 }
@@ -32,6 +32,21 @@ import { PAYMENT_INTENT_REPOSITORY } from '../payment/repositories/payment-inten
 import { InMemoryPaymentIntentRepository } from '../payment/repositories/in-memory-payment-intent.repository';
 import { PrismaPaymentIntentRepository } from '../payment/repositories/prisma-payment-intent.repository';
 
+// Refund repositories
+import { REFUND_REPOSITORY } from '../payment/repositories/refund-repository.interface';
+import { InMemoryRefundRepository } from '../payment/repositories/in-memory-refund.repository';
+import { PrismaRefundRepository } from '../payment/repositories/prisma-refund.repository';
+
+// Payment webhook event repositories
+import { PAYMENT_WEBHOOK_EVENT_REPOSITORY } from '../payment/repositories/payment-webhook-event-repository.interface';
+import { InMemoryPaymentWebhookEventRepository } from '../payment/repositories/in-memory-payment-webhook-event.repository';
+import { PrismaPaymentWebhookEventRepository } from '../payment/repositories/prisma-payment-webhook-event.repository';
+
+// Payment reminder repositories
+import { PAYMENT_REMINDER_REPOSITORY } from '../payment/repositories/payment-reminder-repository.interface';
+import { InMemoryPaymentReminderRepository } from '../payment/repositories/in-memory-payment-reminder.repository';
+import { PrismaPaymentReminderRepository } from '../payment/repositories/prisma-payment-reminder.repository';
+
 // Newsletter repositories
 import { NEWSLETTER_REPOSITORY } from '../newsletter/repositories/newsletter-repository.interface';
 import { InMemoryNewsletterRepository } from '../newsletter/repositories/in-memory-newsletter.repository';
@@ -47,6 +62,42 @@ import { HEALTH_ARTICLE_REPOSITORY } from '../articles/repositories/health-artic
 import { InMemoryHealthArticleRepository } from '../articles/repositories/in-memory-health-article.repository';
 import { PrismaHealthArticleRepository } from '../articles/repositories/prisma-health-article.repository';
 
+// Stored file repositories
+import { STORED_FILE_REPOSITORY } from '../files/repositories/stored-file-repository.interface';
+import { InMemoryStoredFileRepository } from '../files/repositories/in-memory-stored-file.repository';
+import { PrismaStoredFileRepository } from '../files/repositories/prisma-stored-file.repository';
+
+// Stock repositories
+import { STOCK_REPOSITORY } from '../inventory/repositories/stock-repository.interface';
+import { InMemoryStockRepository } from '../inventory/repositories/in-memory-stock.repository';
+import { PrismaStockRepository } from '../inventory/repositories/prisma-stock.repository';
+
+// Shipment repositories
+import { SHIPMENT_REPOSITORY } from '../shipment/repositories/shipment-repository.interface';
+import { InMemoryShipmentRepository } from '../shipment/repositories/in-memory-shipment.repository';
+import { PrismaShipmentRepository } from '../shipment/repositories/prisma-shipment.repository';
+
+// Outbox repositories
+import {
+  OUTBOX_REPOSITORY,
+  IOutboxRepository,
+} from '../events/repositories/outbox-repository.interface';
+import { InMemoryOutboxRepository } from '../events/repositories/in-memory-outbox.repository';
+import { PrismaOutboxRepository } from '../events/repositories/prisma-outbox.repository';
+
+// Notification repositories
+import { NOTIFICATION_REPOSITORY } from '../notification/repositories/notification-repository.interface';
+import { InMemoryNotificationRepository } from '../notification/repositories/in-memory-notification.repository';
+import { PrismaNotificationRepository } from '../notification/repositories/prisma-notification.repository';
+import { NOTIFICATION_PREFERENCES_REPOSITORY } from '../notification/repositories/notification-preferences-repository.interface';
+import { InMemoryNotificationPreferencesRepository } from '../notification/repositories/in-memory-notification-preferences.repository';
+import { PrismaNotificationPreferencesRepository } from '../notification/repositories/prisma-notification-preferences.repository';
+
+// Audit repositories
+import { AUDIT_LOG_REPOSITORY } from '../audit/repositories/audit-log-repository.interface';
+import { InMemoryAuditLogRepository } from '../audit/repositories/in-memory-audit-log.repository';
+import { PrismaAuditLogRepository } from '../audit/repositories/prisma-audit-log.repository';
+
 /**
  * Repository Type Configuration
  *
@@ -132,13 +183,14 @@ export const PrescriptionRepositoryProvider: Provider = {
 
 export const OrderRepositoryProvider: Provider = {
   provide: ORDER_REPOSITORY,
-  useFactory: (prismaService: PrismaService) => {
+  useFactory: (prismaService: PrismaService, outboxRepository: IOutboxRepository) => {
     if (isPrismaEnabled()) {
       return new PrismaOrderRepository(prismaService);
     }
-    return new InMemoryOrderRepository();
+    // Status changes write their events to the in-memory outbox
+    return new InMemoryOrderRepository(outboxRepository);
   },
-  inject: [PrismaService],
+  inject: [PrismaService, OUTBOX_REPOSITORY],
 };
 
 // =============================================================================
@@ -162,15 +214,63 @@ export const ProductRepositoryProvider: Provider = {
 
 export const PaymentIntentRepositoryProvider: Provider = {
   provide: PAYMENT_INTENT_REPOSITORY,
-  useFactory: (prismaService: PrismaService) => {
+  useFactory: (prismaService: PrismaService, outboxRepository: IOutboxRepository) => {
     if (isPrismaEnabled()) {
       return new PrismaPaymentIntentRepository(prismaService);
     }
-    return new InMemoryPaymentIntentRepository();
+    // Intent changes write their events to the in-memory outbox
+    return new InMemoryPaymentIntentRepository(outboxRepository);
+  },
+  inject: [PrismaService, OUTBOX_REPOSITORY],
+};
+
+// =============================================================================
+// Refund Repository Provider
+// =============================================================================
+
+export const RefundRepositoryProvider: Provider = {
+  provide: REFUND_REPOSITORY,
+  useFactory: (prismaService: PrismaService, outboxRepository: IOutboxRepository) => {
+    if (isPrismaEnabled()) {
+      return new PrismaRefundRepository(prismaService);
+    }
+    // Refund changes write their events to the in-memory outbox
+    return new InMemoryRefundRepository(outboxRepository);
+  },
+  inject: [PrismaService, OUTBOX_REPOSITORY],
+};
+
+// =============================================================================
+// Payment Webhook Event Repository Provider
+// =============================================================================
+
+export const PaymentWebhookEventRepositoryProvider: Provider = {
+  provide: PAYMENT_WEBHOOK_EVENT_REPOSITORY,
+  useFactory: (prismaService: PrismaService) => {
+    if (isPrismaEnabled()) {
+      return new PrismaPaymentWebhookEventRepository(prismaService);
+    }
+    return new InMemoryPaymentWebhookEventRepository();
   },
   inject: [PrismaService],
 };
 
+// =============================================================================
+// Payment Reminder Repository Provider
+// =============================================================================
+
+export const PaymentReminderRepositoryProvider: Provider = {
+  provide: PAYMENT_REMINDER_REPOSITORY,
+  useFactory: (prismaService: PrismaService, outboxRepository: IOutboxRepository) => {
+    if (isPrismaEnabled()) {
+      return new PrismaPaymentReminderRepository(prismaService);
+    }
+    // Reminders write their event to the in-memory outbox
+    return new InMemoryPaymentReminderRepository(outboxRepository);
+  },
+  inject: [PrismaService, OUTBOX_REPOSITORY],
+};
+
 // =============================================================================
 // Newsletter Repository Provider
 // =============================================================================
@@ -215,3 +315,108 @@ export const HealthArticleRepositoryProvider: Provider = {
   },
   inject: [PrismaService],
 };
+
+// =============================================================================
+// Stored File Repository Provider
+// =============================================================================
+
+export const StoredFileRepositoryProvider: Provider = {
+  provide: STORED_FILE_REPOSITORY,
+  useFactory: (prismaService: PrismaService) => {
+    if (isPrismaEnabled()) {
+      return new PrismaStoredFileRepository(prismaService);
+    }
+    return new InMemoryStoredFileRepository();
+  },
+  inject: [PrismaService],
+};
+
+// =============================================================================
+// Stock Repository Provider
+// =============================================================================
+
+export const StockRepositoryProvider: Provider = {
+  provide: STOCK_REPOSITORY,
+  useFactory: (prismaService: PrismaService) => {
+    if (isPrismaEnabled()) {
+      return new PrismaStockRepository(prismaService);
+    }
+    return new InMemoryStockRepository();
+  },
+  inject: [PrismaService],
+};
+
+// =============================================================================
+// Shipment Repository Provider
+// =============================================================================
+
+export const ShipmentRepositoryProvider: Provider = {
+  provide: SHIPMENT_REPOSITORY,
+  useFactory: (prismaService: PrismaService) => {
+    if (isPrismaEnabled()) {
+      return new PrismaShipmentRepository(prismaService);
+    }
+    return new InMemoryShipmentRepository();
+  },
+  inject: [PrismaService],
+};
+
+// =============================================================================
+// Outbox Repository Provider
+// =============================================================================
+
+export const OutboxRepositoryProvider: Provider = {
+  provide: OUTBOX_REPOSITORY,
+  useFactory: (prismaService: PrismaService) => {
+    if (isPrismaEnabled()) {
+      return new PrismaOutboxRepository(prismaService);
+    }
+    return new InMemoryOutboxRepository();
+  },
+  inject: [PrismaService],
+};
+
+// =============================================================================
+// Notification Repository Provider
+// =============================================================================
+
+export const NotificationRepositoryProvider: Provider = {
+  provide: NOTIFICATION_REPOSITORY,
+  useFactory: (prismaService: PrismaService) => {
+    if (isPrismaEnabled()) {
+      return new PrismaNotificationRepository(prismaService);
+    }
+    return new InMemoryNotificationRepository();
+  },
+  inject: [PrismaService],
+};
+
+// =============================================================================
+// Notification Preferences Repository Provider
+// =============================================================================
+
+export const NotificationPreferencesRepositoryProvider: Provider = {
+  provide: NOTIFICATION_PREFERENCES_REPOSITORY,
+  useFactory: (prismaService: PrismaService) => {
+    if (isPrismaEnabled()) {
+      return new PrismaNotificationPreferencesRepository(prismaService);
+    }
+    return new InMemoryNotificationPreferencesRepository();
+  },
+  inject: [PrismaService],
+};
+
+// =============================================================================
+// Audit Log Repository Provider
+// =============================================================================
+
+export const AuditLogRepositoryProvider: Provider = {
+  provide: AUDIT_LOG_REPOSITORY,
+  useFactory: (prismaService: PrismaService) => {
+    if (isPrismaEnabled()) {
+      return new PrismaAuditLogRepository(prismaService);
+    }
+    return new InMemoryAuditLogRepository();
+  },
+  inject: [PrismaService],
+};
@@ -0,0 +1,36 @@
+/**
+ * Outbox Configuration
+ *
+ * Polling and retry settings for the outbox dispatcher.
+ */
+
+export interface OutboxConfig {
+  /** How often the dispatcher polls for due messages; 0 disables polling */
+  pollIntervalMs: number;
+  /** Messages claimed per poll */
+  batchSize: number;
+  /** How long a claimed message is hidden from other dispatchers */
+  leaseMs: number;
+  /** Failed attempts after which a message is dead-lettered */
+  maxAttempts: number;
+  /** Delay before the first retry; doubles on each further attempt */
+  retryBaseDelayMs: number;
+}
+
+function readInt(name: string, fallback: number, min: number): number {
+  const value = parseInt(process.env[name] || String(fallback), 10);
+  return Number.isNaN(value) ? fallback : Math.max(min, value);
+}
+
+/**
+ * Get outbox configuration from environment
+ */
+export function getOutboxConfig(): OutboxConfig {
+  return {
+    pollIntervalMs: readInt('OUTBOX_POLL_INTERVAL_MS', 2000, 0),
+    batchSize: readInt('OUTBOX_BATCH_SIZE', 50, 1),
+    leaseMs: readInt('OUTBOX_LEASE_MS', 60_000, 1000),
+    maxAttempts: readInt('OUTBOX_MAX_ATTEMPTS', 5, 1),
+    retryBaseDelayMs: readInt('OUTBOX_RETRY_BASE_DELAY_MS', 30_000, 0),
+  };
+}
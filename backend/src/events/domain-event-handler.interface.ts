@@ -0,0 +1,29 @@
+import { DomainEvent } from './domain';
+
+/**
+ * Subscribe to every event type
+ */
+export const ALL_EVENTS = '*';
+
+export interface EventHandlingContext {
+  /** Outbox message ID; stable across retries, for de-duplication */
+  eventId: string;
+  /** 1 on first delivery */
+  attempt: number;
+}
+
+/**
+ * Domain Event Handler
+ *
+ * Handlers are called at least once per event and must be idempotent.
+ * Throwing marks the delivery as failed; the dispatcher retries later.
+ *
+ * Register with EventBus.subscribe, usually from the handler's onModuleInit.
+ */
+export interface DomainEventHandler {
+  /** Unique, stable name; recorded on the outbox message once handled */
+  readonly name: string;
+  /** Event types to receive, or [ALL_EVENTS] */
+  readonly eventTypes: readonly string[];
+  handle(event: DomainEvent, context: EventHandlingContext): Promise<void>;
+}
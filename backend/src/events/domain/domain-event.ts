@@ -0,0 +1,15 @@
+/**
+ * Base interface for all domain events
+ *
+ * Domain events are facts that happened within a domain, named in past tense
+ * (OrderConfirmed, not ConfirmOrder). Each domain defines its own event types;
+ * the events module only needs these fields to route and persist them.
+ */
+export interface DomainEvent {
+  /** Event type discriminator */
+  readonly type: string;
+  /** When the event occurred */
+  readonly occurredAt: Date;
+  /** Correlation ID for tracing */
+  readonly correlationId?: string;
+}
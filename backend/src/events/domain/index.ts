@@ -0,0 +1,12 @@
+export { type DomainEvent } from './domain-event';
+
+export {
+  OutboxStatus,
+  type OutboxMessage,
+  type RetryPolicy,
+  createOutboxMessage,
+  toDomainEvent,
+  markOutboxProcessed,
+  recordOutboxFailure,
+  requeueOutboxMessage,
+} from './outbox-message.entity';
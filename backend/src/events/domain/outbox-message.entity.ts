@@ -0,0 +1,144 @@
+import { randomUUID } from 'crypto';
+import { DomainEvent } from './domain-event';
+
+/**
+ * Outbox Message
+ *
+ * A domain event stored in the same transaction as the state change that
+ * raised it, then delivered to subscribed handlers by the dispatcher.
+ *
+ * Delivery is at-least-once: a handler that succeeded is recorded in
+ * deliveredTo and skipped on retry, but a crash between a handler finishing
+ * and the message being saved delivers it again. Handlers must be idempotent.
+ *
+ * Lifecycle: PENDING → PROCESSED once every handler has succeeded, or
+ * PENDING → DEAD_LETTER after the last allowed attempt fails. Dead letters
+ * can be requeued by an admin.
+ */
+export enum OutboxStatus {
+  PENDING = 'PENDING',
+  PROCESSED = 'PROCESSED',
+  DEAD_LETTER = 'DEAD_LETTER',
+}
+
+export interface OutboxMessage {
+  readonly id: string;
+  readonly eventType: string;
+  /** The event as JSON (dates as ISO strings) */
+  readonly payload: Record<string, unknown>;
+  readonly correlationId: string | null;
+  readonly occurredAt: Date;
+  readonly status: OutboxStatus;
+  /** Failed delivery attempts so far */
+  readonly attempts: number;
+  /** Names of handlers that have handled the event */
+  readonly deliveredTo: readonly string[];
+  readonly lastError: string | null;
+  /** Not dispatched before this time (retry backoff, or a dispatcher's lease) */
+  readonly nextAttemptAt: Date;
+  readonly processedAt: Date | null;
+  readonly createdAt: Date;
+}
+
+export interface RetryPolicy {
+  /** Failed attempts after which the message is dead-lettered */
+  maxAttempts: number;
+  /** Delay before the first retry; doubles on each further attempt */
+  baseDelayMs: number;
+}
+
+/**
+ * New pending message for an event, due immediately
+ */
+export function createOutboxMessage(event: DomainEvent, now: Date = new Date()): OutboxMessage {
+  return {
+    id: randomUUID(),
+    eventType: event.type,
+    payload: JSON.parse(JSON.stringify(event)) as Record<string, unknown>,
+    correlationId: event.correlationId ?? null,
+    occurredAt: event.occurredAt,
+    status: OutboxStatus.PENDING,
+    attempts: 0,
+    deliveredTo: [],
+    lastError: null,
+    nextAttemptAt: now,
+    processedAt: null,
+    createdAt: now,
+  };
+}
+
+/**
+ * The event as handlers receive it, with occurredAt restored to a Date
+ */
+export function toDomainEvent(message: OutboxMessage): DomainEvent {
+  return {
+    ...message.payload,
+    type: message.eventType,
+    occurredAt: message.occurredAt,
+    correlationId: message.correlationId ?? undefined,
+  };
+}
+
+/**
+ * Every remaining handler succeeded
+ */
+export function markOutboxProcessed(
+  message: OutboxMessage,
+  deliveredTo: readonly string[],
+  now: Date = new Date(),
+): OutboxMessage {
+  return {
+    ...message,
+    status: OutboxStatus.PROCESSED,
+    deliveredTo,
+    lastError: null,
+    processedAt: now,
+  };
+}
+
+/**
+ * At least one handler failed: schedule a retry with exponential backoff,
+ * or dead-letter the message once attempts are used up
+ */
+export function recordOutboxFailure(
+  message: OutboxMessage,
+  deliveredTo: readonly string[],
+  error: string,
+  policy: RetryPolicy,
+  now: Date = new Date(),
+): OutboxMessage {
+  const attempts = message.attempts + 1;
+  if (attempts >= policy.maxAttempts) {
+    return {
+      ...message,
+      status: OutboxStatus.DEAD_LETTER,
+      attempts,
+      deliveredTo,
+      lastError: error,
+    };
+  }
+
+  return {
+    ...message,
+    attempts,
+    deliveredTo,
+    lastError: error,
+    nextAttemptAt: new Date(now.getTime() + policy.baseDelayMs * 2 ** (attempts - 1)),
+  };
+}
+
+/**
+ * Put a dead letter back in the queue with a fresh set of attempts.
+ * Handlers that already succeeded are still skipped.
+ */
+export function requeueOutboxMessage(
+  message: OutboxMessage,
+  now: Date = new Date(),
+): OutboxMessage {
+  return {
+    ...message,
+    status: OutboxStatus.PENDING,
+    attempts: 0,
+    nextAttemptAt: now,
+  };
+}
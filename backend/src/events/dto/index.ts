@@ -0,0 +1 @@
+export { DeadLetterQueryDto, OutboxMessageDto, toOutboxMessageDto } from './outbox-message.dto';
@@ -0,0 +1,49 @@
+import { IsInt, IsOptional, Max, Min } from 'class-validator';
+import { Type } from 'class-transformer';
+import { OutboxMessage, OutboxStatus } from '../domain';
+
+/**
+ * Query for the dead-letter list
+ */
+export class DeadLetterQueryDto {
+  @IsOptional()
+  @IsInt()
+  @Min(1)
+  @Max(200)
+  @Type(() => Number)
+  limit: number = 50;
+}
+
+/**
+ * Outbox message as shown to admins
+ */
+export interface OutboxMessageDto {
+  id: string;
+  eventType: string;
+  payload: Record<string, unknown>;
+  correlationId: string | null;
+  occurredAt: string;
+  status: OutboxStatus;
+  attempts: number;
+  /** Handlers that have already handled the event */
+  deliveredTo: string[];
+  lastError: string | null;
+  nextAttemptAt: string;
+  createdAt: string;
+}
+
+export function toOutboxMessageDto(message: OutboxMessage): OutboxMessageDto {
+  return {
+    id: message.id,
+    eventType: message.eventType,
+    payload: message.payload,
+    correlationId: message.correlationId,
+    occurredAt: message.occurredAt.toISOString(),
+    status: message.status,
+    attempts: message.attempts,
+    deliveredTo: [...message.deliveredTo],
+    lastError: message.lastError,
+    nextAttemptAt: message.nextAttemptAt.toISOString(),
+    createdAt: message.createdAt.toISOString(),
+  };
+}
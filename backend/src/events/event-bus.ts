@@ -0,0 +1,49 @@
+import { Inject, Injectable } from '@nestjs/common';
+import { DomainEvent, createOutboxMessage } from './domain';
+import { OUTBOX_REPOSITORY, IOutboxRepository } from './repositories';
+import { ALL_EVENTS, DomainEventHandler } from './domain-event-handler.interface';
+
+/**
+ * Event Bus
+ *
+ * In-process registry of domain event handlers. Events are never handed to
+ * handlers directly: they go through the outbox and OutboxDispatcher delivers
+ * them, so a handler failure never rolls back the change that raised the event.
+ */
+@Injectable()
+export class EventBus {
+  private readonly handlers: DomainEventHandler[] = [];
+
+  constructor(
+    @Inject(OUTBOX_REPOSITORY)
+    private readonly outboxRepository: IOutboxRepository,
+  ) {}
+
+  /**
+   * @throws Error if a handler with the same name is already subscribed
+   */
+  subscribe(handler: DomainEventHandler): void {
+    if (this.handlers.some((existing) => existing.name === handler.name)) {
+      throw new Error(`Event handler '${handler.name}' is already subscribed`);
+    }
+    this.handlers.push(handler);
+  }
+
+  handlersFor(eventType: string): DomainEventHandler[] {
+    return this.handlers.filter(
+      (handler) =>
+        handler.eventTypes.includes(eventType) || handler.eventTypes.includes(ALL_EVENTS),
+    );
+  }
+
+  /**
+   * Queue events that are not part of a repository transaction
+   */
+  async publish(events: readonly DomainEvent[]): Promise<void> {
+    if (events.length === 0) {
+      return;
+    }
+    const now = new Date();
+    await this.outboxRepository.add(events.map((event) => createOutboxMessage(event, now)));
+  }
+}
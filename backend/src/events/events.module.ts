@@ -0,0 +1,32 @@
+import { Global, Module } from '@nestjs/common';
+import { EventBus } from './event-bus';
+import { OutboxDispatcher } from './outbox-dispatcher';
+import { OutboxAdminController } from './outbox-admin.controller';
+import { OUTBOX_REPOSITORY } from './repositories';
+import { OutboxRepositoryProvider } from '../database/repository.providers';
+import { AuthModule } from '../auth/auth.module';
+
+/**
+ * Events Module
+ *
+ * Transactional outbox and in-process event bus for domain events.
+ *
+ * - Repositories write events to the outbox in the same transaction as the
+ *   state change that raised them (OUTBOX_REPOSITORY for in-memory mode).
+ * - Handlers subscribe through EventBus; OutboxDispatcher delivers to them
+ *   at least once, with retries and a dead-letter view (OutboxAdminController).
+ *
+ * Global so any module can register handlers without importing this module.
+ *
+ * Repository Selection:
+ * - 'memory': InMemoryOutboxRepository
+ * - 'prisma': PrismaOutboxRepository
+ */
+@Global()
+@Module({
+  imports: [AuthModule], // For JwtAuthGuard
+  controllers: [OutboxAdminController],
+  providers: [EventBus, OutboxDispatcher, OutboxRepositoryProvider],
+  exports: [EventBus, OutboxDispatcher, OUTBOX_REPOSITORY],
+})
+export class EventsModule {}
@@ -0,0 +1,4 @@
+export {
+  OutboxMessageNotFoundException,
+  OutboxMessageNotDeadLetteredException,
+} from './outbox.exceptions';
@@ -0,0 +1,21 @@
+import { HttpStatus } from '@nestjs/common';
+import { BusinessException } from '../../common/exceptions/business.exception';
+
+export class OutboxMessageNotFoundException extends BusinessException {
+  constructor(id: string) {
+    super('OUTBOX_MESSAGE_NOT_FOUND', `Outbox message '${id}' not found`, HttpStatus.NOT_FOUND, {
+      id,
+    });
+  }
+}
+
+export class OutboxMessageNotDeadLetteredException extends BusinessException {
+  constructor(id: string, status: string) {
+    super(
+      'OUTBOX_MESSAGE_NOT_DEAD_LETTERED',
+      `Outbox message '${id}' is ${status}; only dead letters can be requeued`,
+      HttpStatus.CONFLICT,
+      { id, status },
+    );
+  }
+}
@@ -0,0 +1,30 @@
+/**
+ * Events Module Public API
+ */
+
+// Module
+export { EventsModule } from './events.module';
+
+// Event bus and dispatcher
+export { EventBus } from './event-bus';
+export { OutboxDispatcher, DispatchSummary } from './outbox-dispatcher';
+export {
+  ALL_EVENTS,
+  DomainEventHandler,
+  EventHandlingContext,
+} from './domain-event-handler.interface';
+
+// Domain
+export { DomainEvent, OutboxMessage, OutboxStatus, createOutboxMessage } from './domain';
+
+// Repository
+export { OUTBOX_REPOSITORY, IOutboxRepository, toOutboxRecord } from './repositories';
+
+// DTOs
+export { OutboxMessageDto } from './dto';
+
+// Exceptions
+export {
+  OutboxMessageNotFoundException,
+  OutboxMessageNotDeadLetteredException,
+} from './exceptions';
@@ -0,0 +1,62 @@
+import {
+  Controller,
+  Get,
+  Headers,
+  HttpCode,
+  HttpStatus,
+  Param,
+  Post,
+  Query,
+  UseGuards,
+} from '@nestjs/common';
+import { ApiResponse } from '../common/api/api-response';
+import { JwtAuthGuard } from '../auth/guards/jwt-auth.guard';
+import { RolesGuard } from '../auth/guards/roles.guard';
+import { Roles } from '../auth/decorators/roles.decorator';
+import { UserRole } from '../auth/interfaces/auth-user.interface';
+import { OutboxDispatcher } from './outbox-dispatcher';
+import { DeadLetterQueryDto, OutboxMessageDto, toOutboxMessageDto } from './dto';
+
+/**
+ * Outbox Admin Controller
+ *
+ * Dead-letter view for domain events whose handlers kept failing.
+ *
+ * GET  /api/v1/admin/events/dead-letters
+ * POST /api/v1/admin/events/dead-letters/:id/requeue
+ */
+@Controller('admin/events/dead-letters')
+@UseGuards(JwtAuthGuard, RolesGuard)
+@Roles(UserRole.ADMIN)
+export class OutboxAdminController {
+  constructor(private readonly outboxDispatcher: OutboxDispatcher) {}
+
+  /**
+   * Dead-lettered events, most recent first
+   * GET /api/v1/admin/events/dead-letters
+   */
+  @Get()
+  async getDeadLetters(
+    @Query() query: DeadLetterQueryDto,
+  ): Promise<ApiResponse<OutboxMessageDto[]>> {
+    const messages = await this.outboxDispatcher.getDeadLetters(query.limit);
+    return ApiResponse.success(
+      messages.map(toOutboxMessageDto),
+      'Dead letters retrieved successfully',
+    );
+  }
+
+  /**
+   * Requeue a dead letter; handlers that already succeeded are skipped
+   * POST /api/v1/admin/events/dead-letters/:id/requeue
+   */
+  @Post(':id/requeue')
+  @HttpCode(HttpStatus.OK)
+  async requeue(
+    @Param('id') id: string,
+    @Headers('x-correlation-id') correlationId: string,
+  ): Promise<ApiResponse<OutboxMessageDto>> {
+    const message = await this.outboxDispatcher.requeue(id, correlationId);
+    return ApiResponse.success(toOutboxMessageDto(message), 'Event requeued successfully');
+  }
+}
@@ -0,0 +1,167 @@
+import { OutboxDispatcher } from './outbox-dispatcher';
+import { EventBus } from './event-bus';
+import { InMemoryOutboxRepository } from './repositories/in-memory-outbox.repository';
+import { ALL_EVENTS, DomainEventHandler } from './domain-event-handler.interface';
+import { DomainEvent, OutboxStatus } from './domain';
+import { OutboxMessageNotDeadLetteredException } from './exceptions';
+
+/**
+ * OutboxDispatcher tests
+ *
+ * Verifies:
+ * - Delivery to subscribed handlers (by type and ALL_EVENTS)
+ * - Retries with backoff go only to handlers that failed
+ * - Dead-lettering after max attempts, and requeueing
+ * - Claimed messages are not delivered twice
+ * - A failed polling run is logged and the next tick still delivers
+ */
+describe('OutboxDispatcher', () => {
+  let outbox: InMemoryOutboxRepository;
+  let eventBus: EventBus;
+  let dispatcher: OutboxDispatcher;
+
+  // Dispatch times are relative to a moment just after the events are published
+  const start = new Date(Date.now() + 1000);
+  const later = (ms: number) => new Date(start.getTime() + ms);
+
+  const orderCancelled = {
+    type: 'ORDER_CANCELLED',
+    occurredAt: new Date('2026-01-01T10:00:00Z'),
+    correlationId: 'corr-1',
+    orderId: 'order-1',
+    userId: 'user-1',
+  };
+
+  function recordingHandler(
+    name: string,
+    eventTypes: string[],
+    failTimes = 0,
+  ): DomainEventHandler & { received: DomainEvent[] } {
+    let failures = 0;
+    const received: DomainEvent[] = [];
+    return {
+      name,
+      eventTypes,
+      received,
+      async handle(event) {
+        if (failures < failTimes) {
+          failures++;
+          throw new Error(`${name} unavailable`);
+        }
+        received.push(event);
+      },
+    };
+  }
+
+  beforeEach(() => {
+    outbox = new InMemoryOutboxRepository();
+    eventBus = new EventBus(outbox);
+    dispatcher = new OutboxDispatcher(outbox, eventBus);
+  });
+
+  afterEach(() => {
+    outbox.clear();
+  });
+
+  it('delivers events to handlers subscribed to the type or to all events', async () => {
+    const inventory = recordingHandler('inventory', ['ORDER_CANCELLED']);
+    const notifications = recordingHandler('notifications', ['ORDER_CONFIRMED']);
+    const audit = recordingHandler('audit', [ALL_EVENTS]);
+    [inventory, notifications, audit].forEach((handler) => eventBus.subscribe(handler));
+    await eventBus.publish([orderCancelled]);
+
+    const summary = await dispatcher.dispatchPending(later(0));
+
+    expect(summary).toEqual({ processed: 1, retrying: 0, deadLettered: 0 });
+    expect(inventory.received).toEqual([orderCancelled]);
+    expect(audit.received).toHaveLength(1);
+    expect(notifications.received).toHaveLength(0);
+  });
+
+  it('retries only the handlers that failed, after a backoff', async () => {
+    const inventory = recordingHandler('inventory', ['ORDER_CANCELLED'], 1);
+    const audit = recordingHandler('audit', [ALL_EVENTS]);
+    eventBus.subscribe(inventory);
+    eventBus.subscribe(audit);
+    await eventBus.publish([orderCancelled]);
+
+    expect(await dispatcher.dispatchPending(later(0))).toMatchObject({ retrying: 1 });
+    expect(await dispatcher.dispatchPending(later(10_000))).toMatchObject({ processed: 0 });
+    expect(await dispatcher.dispatchPending(later(90_000))).toMatchObject({ processed: 1 });
+
+    expect(inventory.received).toHaveLength(1);
+    expect(audit.received).toHaveLength(1);
+  });
+
+  it('dead-letters a message after the last attempt and can requeue it', async () => {
+    const inventory = recordingHandler('inventory', ['ORDER_CANCELLED'], 5);
+    eventBus.subscribe(inventory);
+    await eventBus.publish([orderCancelled]);
+
+    for (let hour = 0; hour < 5; hour++) {
+      await dispatcher.dispatchPending(later(hour * 60 * 60 * 1000));
+    }
+
+    const [deadLetter] = await dispatcher.getDeadLetters();
+    expect(deadLetter).toMatchObject({
+      eventType: 'ORDER_CANCELLED',
+      status: OutboxStatus.DEAD_LETTER,
+      attempts: 5,
+      lastError: 'inventory: inventory unavailable',
+    });
+
+    await dispatcher.requeue(deadLetter.id);
+    await dispatcher.dispatchPending(later(6 * 60 * 60 * 1000));
+
+    expect(inventory.received).toHaveLength(1);
+    expect(await dispatcher.getDeadLetters()).toHaveLength(0);
+    await expect(dispatcher.requeue(deadLetter.id)).rejects.toThrow(
+      OutboxMessageNotDeadLetteredException,
+    );
+  });
+
+  it('does not hand out a claimed message again until its lease expires', async () => {
+    await eventBus.publish([orderCancelled]);
+
+    const first = await outbox.claimDue(later(0), 10, later(60_000));
+    const second = await outbox.claimDue(later(1_000), 10, later(61_000));
+
+    expect(first).toHaveLength(1);
+    expect(second).toHaveLength(0);
+  });
+
+  it('marks events without handlers as processed', async () => {
+    await eventBus.publish([orderCancelled]);
+
+    expect(await dispatcher.dispatchPending(later(0))).toMatchObject({ processed: 1 });
+  });
+
+  it('logs a failed polling run and delivers on the next tick', async () => {
+    jest.useFakeTimers({ doNotFake: ['nextTick', 'setImmediate', 'queueMicrotask'] });
+    const log = jest.spyOn(console, 'log').mockImplementation(() => undefined);
+    try {
+      const handler = recordingHandler('notifications', ['ORDER_CANCELLED']);
+      eventBus.subscribe(handler);
+      await eventBus.publish([orderCancelled]);
+      jest.spyOn(outbox, 'claimDue').mockRejectedValueOnce(new Error('connection refused'));
+      dispatcher.onModuleInit();
+
+      await jest.advanceTimersByTimeAsync(2000);
+      expect(handler.received).toHaveLength(0);
+      expect(log).toHaveBeenCalledWith(expect.stringContaining('Outbox dispatch failed'));
+
+      await jest.advanceTimersByTimeAsync(2000);
+      expect(handler.received).toHaveLength(1);
+    } finally {
+      dispatcher.onModuleDestroy();
+      log.mockRestore();
+      jest.useRealTimers();
+    }
+  });
+
+  it('rejects two handlers with the same name', () => {
+    eventBus.subscribe(recordingHandler('audit', [ALL_EVENTS]));
+
+    expect(() => eventBus.subscribe(recordingHandler('audit', ['ORDER_CANCELLED']))).toThrow();
+  });
+});
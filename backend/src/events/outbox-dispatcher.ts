@@ -0,0 +1,198 @@
+import { randomUUID } from 'crypto';
+import { Inject, Injectable, OnModuleDestroy, OnModuleInit } from '@nestjs/common';
+import { logWithCorrelation } from '../common/logging/logger';
+import {
+  OutboxMessage,
+  OutboxStatus,
+  markOutboxProcessed,
+  recordOutboxFailure,
+  requeueOutboxMessage,
+  toDomainEvent,
+} from './domain';
+import { OUTBOX_REPOSITORY, IOutboxRepository } from './repositories';
+import { EventBus } from './event-bus';
+import { OutboxConfig, getOutboxConfig } from './config/outbox.config';
+import {
+  OutboxMessageNotDeadLetteredException,
+  OutboxMessageNotFoundException,
+} from './exceptions';
+
+/**
+ * Outcome of one dispatch run
+ */
+export interface DispatchSummary {
+  processed: number;
+  retrying: number;
+  deadLettered: number;
+}
+
+/**
+ * Outbox Dispatcher
+ *
+ * Polls the outbox and delivers each due message to the handlers subscribed
+ * to its type. Handlers that succeed are recorded on the message; if any
+ * fail, the message is retried later (exponential backoff) for the remaining
+ * handlers only, and dead-lettered after OUTBOX_MAX_ATTEMPTS.
+ *
+ * Runs in every API instance; claims keep instances from delivering the same
+ * message concurrently. A polling run that fails (e.g. the database is
+ * unreachable) is logged and tried again on the next tick.
+ */
+@Injectable()
+export class OutboxDispatcher implements OnModuleInit, OnModuleDestroy {
+  private readonly config: OutboxConfig = getOutboxConfig();
+  private timer?: NodeJS.Timeout;
+  private running = false;
+
+  constructor(
+    @Inject(OUTBOX_REPOSITORY)
+    private readonly outboxRepository: IOutboxRepository,
+    private readonly eventBus: EventBus,
+  ) {}
+
+  onModuleInit(): void {
+    if (this.config.pollIntervalMs > 0) {
+      this.timer = setInterval(() => void this.poll(), this.config.pollIntervalMs);
+      this.timer.unref();
+    }
+  }
+
+  onModuleDestroy(): void {
+    if (this.timer) {
+      clearInterval(this.timer);
+    }
+  }
+
+  /**
+   * Deliver all messages due now. Skipped if a run is already in progress.
+   */
+  async dispatchPending(now: Date = new Date()): Promise<DispatchSummary> {
+    const summary: DispatchSummary = { processed: 0, retrying: 0, deadLettered: 0 };
+    if (this.running) {
+      return summary;
+    }
+
+    this.running = true;
+    try {
+      const leaseUntil = new Date(now.getTime() + this.config.leaseMs);
+      const messages = await this.outboxRepository.claimDue(now, this.config.batchSize, leaseUntil);
+
+      for (const message of messages) {
+        const delivered = await this.deliver(message, now);
+        if (delivered.status === OutboxStatus.PROCESSED) {
+          summary.processed++;
+        } else if (delivered.status === OutboxStatus.DEAD_LETTER) {
+          summary.deadLettered++;
+        } else {
+          summary.retrying++;
+        }
+      }
+    } finally {
+      this.running = false;
+    }
+    return summary;
+  }
+
+  /**
+   * Dead letters, most recent first
+   */
+  async getDeadLetters(limit = 50): Promise<OutboxMessage[]> {
+    return this.outboxRepository.findByStatus(OutboxStatus.DEAD_LETTER, limit);
+  }
+
+  /**
+   * Queue a dead letter for immediate redelivery
+   * @throws OutboxMessageNotFoundException
+   * @throws OutboxMessageNotDeadLetteredException if the message is not dead-lettered
+   */
+  async requeue(id: string, correlationId?: string): Promise<OutboxMessage> {
+    const message = await this.outboxRepository.findById(id);
+    if (!message) {
+      throw new OutboxMessageNotFoundException(id);
+    }
+    if (message.status !== OutboxStatus.DEAD_LETTER) {
+      throw new OutboxMessageNotDeadLetteredException(id, message.status);
+    }
+
+    const requeued = await this.outboxRepository.save(requeueOutboxMessage(message));
+    if (correlationId) {
+      logWithCorrelation('INFO', correlationId, 'Dead letter requeued', 'OutboxDispatcher', {
+        id,
+        eventType: message.eventType,
+      });
+    }
+    return requeued;
+  }
+
+  // ==========================================================================
+  // Private Helpers
+  // ==========================================================================
+
+  /**
+   * Timer tick: never rejects, so a failed run cannot crash the process
+   */
+  private async poll(): Promise<void> {
+    try {
+      await this.dispatchPending();
+    } catch (error) {
+      logWithCorrelation(
+        'ERROR',
+        `outbox-${randomUUID()}`,
+        'Outbox dispatch failed',
+        'OutboxDispatcher',
+        {
+          error: error instanceof Error ? error.message : String(error),
+        },
+      );
+    }
+  }
+
+  private async deliver(message: OutboxMessage, now: Date): Promise<OutboxMessage> {
+    const event = toDomainEvent(message);
+    const deliveredTo = [...message.deliveredTo];
+    const errors: string[] = [];
+
+    const handlers = this.eventBus
+      .handlersFor(message.eventType)
+      .filter((handler) => !deliveredTo.includes(handler.name));
+
+    for (const handler of handlers) {
+      try {
+        await handler.handle(event, { eventId: message.id, attempt: message.attempts + 1 });
+        deliveredTo.push(handler.name);
+      } catch (error) {
+        errors.push(`${handler.name}: ${error instanceof Error ? error.message : String(error)}`);
+      }
+    }
+
+    const updated =
+      errors.length === 0
+        ? markOutboxProcessed(message, deliveredTo, now)
+        : recordOutboxFailure(
+            message,
+            deliveredTo,
+            errors.join('; '),
+            { maxAttempts: this.config.maxAttempts, baseDelayMs: this.config.retryBaseDelayMs },
+            now,
+          );
+
+    if (errors.length > 0) {
+      logWithCorrelation(
+        updated.status === OutboxStatus.DEAD_LETTER ? 'ERROR' : 'WARN',
+        message.correlationId ?? message.id,
+        updated.status === OutboxStatus.DEAD_LETTER
+          ? 'Event dead-lettered'
+          : 'Event delivery failed; will retry',
+        'OutboxDispatcher',
+        {
+          id: message.id,
+          eventType: message.eventType,
+          attempts: updated.attempts,
+          errors,
+        },
+      );
+    }
+
+    return this.outboxRepository.save(updated);
+  }
+}
@@ -0,0 +1,60 @@
+import { Injectable } from '@nestjs/common';
+import { OutboxMessage, OutboxStatus } from '../domain';
+import { IOutboxRepository } from './outbox-repository.interface';
+
+/**
+ * In-Memory Outbox Repository
+ *
+ * Development and test implementation. Data resets on restart.
+ * InMemoryOrderRepository writes to it directly when given one.
+ */
+@Injectable()
+export class InMemoryOutboxRepository implements IOutboxRepository {
+  private messages: Map<string, OutboxMessage> = new Map();
+
+  async add(messages: readonly OutboxMessage[]): Promise<void> {
+    for (const message of messages) {
+      this.messages.set(message.id, message);
+    }
+  }
+
+  async claimDue(now: Date, limit: number, leaseUntil: Date): Promise<OutboxMessage[]> {
+    const due = [...this.messages.values()]
+      .filter(
+        (message) =>
+          message.status === OutboxStatus.PENDING &&
+          message.nextAttemptAt.getTime() <= now.getTime(),
+      )
+      .sort((a, b) => a.createdAt.getTime() - b.createdAt.getTime())
+      .slice(0, limit);
+
+    return due.map((message) => {
+      const claimed = { ...message, nextAttemptAt: leaseUntil };
+      this.messages.set(message.id, claimed);
+      return claimed;
+    });
+  }
+
+  async save(message: OutboxMessage): Promise<OutboxMessage> {
+    this.messages.set(message.id, message);
+    return message;
+  }
+
+  async findById(id: string): Promise<OutboxMessage | null> {
+    return this.messages.get(id) ?? null;
+  }
+
+  async findByStatus(status: OutboxStatus, limit: number): Promise<OutboxMessage[]> {
+    return [...this.messages.values()]
+      .filter((message) => message.status === status)
+      .sort((a, b) => b.createdAt.getTime() - a.createdAt.getTime())
+      .slice(0, limit);
+  }
+
+  /**
+   * Clear all messages (for testing)
+   */
+  clear(): void {
+    this.messages.clear();
+  }
+}
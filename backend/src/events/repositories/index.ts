@@ -0,0 +1,3 @@
+export { OUTBOX_REPOSITORY, IOutboxRepository } from './outbox-repository.interface';
+export { InMemoryOutboxRepository } from './in-memory-outbox.repository';
+export { PrismaOutboxRepository, toOutboxRecord } from './prisma-outbox.repository';
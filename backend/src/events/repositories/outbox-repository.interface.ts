@@ -0,0 +1,29 @@
+import { OutboxMessage, OutboxStatus } from '../domain';
+
+/**
+ * Outbox Repository Interface
+ *
+ * Events raised by a state change are written by that change's repository in
+ * the same transaction (see PrismaOrderRepository.updateStatus). add() is for
+ * events that have no state change of their own to share a transaction with.
+ */
+export interface IOutboxRepository {
+  add(messages: readonly OutboxMessage[]): Promise<void>;
+
+  /**
+   * Claim pending messages due at `now`, oldest first. Claimed messages are
+   * not due again until `leaseUntil`, so concurrent dispatchers skip them.
+   */
+  claimDue(now: Date, limit: number, leaseUntil: Date): Promise<OutboxMessage[]>;
+
+  save(message: OutboxMessage): Promise<OutboxMessage>;
+
+  findById(id: string): Promise<OutboxMessage | null>;
+
+  /**
+   * Most recently created first
+   */
+  findByStatus(status: OutboxStatus, limit: number): Promise<OutboxMessage[]>;
+}
+
+export const OUTBOX_REPOSITORY = 'OUTBOX_REPOSITORY';
@@ -0,0 +1,119 @@
+import { Injectable } from '@nestjs/common';
+import {
+  Prisma,
+  OutboxMessage as PrismaOutboxMessage,
+  OutboxStatus as PrismaOutboxStatus,
+} from '@prisma/client';
+import { PrismaService } from '../../database/prisma.service';
+import { OutboxMessage, OutboxStatus } from '../domain';
+import { IOutboxRepository } from './outbox-repository.interface';
+
+/**
+ * Row for an outbox message. Repositories that raise events use this to
+ * insert them inside their own transaction.
+ */
+export function toOutboxRecord(message: OutboxMessage): Prisma.OutboxMessageCreateManyInput {
+  return {
+    id: message.id,
+    eventType: message.eventType,
+    payload: message.payload as Prisma.InputJsonObject,
+    correlationId: message.correlationId,
+    occurredAt: message.occurredAt,
+    status: message.status as PrismaOutboxStatus,
+    attempts: message.attempts,
+    deliveredTo: [...message.deliveredTo],
+    lastError: message.lastError,
+    nextAttemptAt: message.nextAttemptAt,
+    processedAt: message.processedAt,
+    createdAt: message.createdAt,
+  };
+}
+
+/**
+ * Prisma Outbox Repository
+ *
+ * Claims use a conditional update on nextAttemptAt, so when two dispatchers
+ * race for a message only one gets it.
+ */
+@Injectable()
+export class PrismaOutboxRepository implements IOutboxRepository {
+  constructor(private readonly prisma: PrismaService) {}
+
+  async add(messages: readonly OutboxMessage[]): Promise<void> {
+    await this.prisma.outboxMessage.createMany({ data: messages.map(toOutboxRecord) });
+  }
+
+  async claimDue(now: Date, limit: number, leaseUntil: Date): Promise<OutboxMessage[]> {
+    const due = await this.prisma.outboxMessage.findMany({
+      where: { status: PrismaOutboxStatus.PENDING, nextAttemptAt: { lte: now } },
+      orderBy: { createdAt: 'asc' },
+      take: limit,
+    });
+
+    const claimed: OutboxMessage[] = [];
+    for (const message of due) {
+      const { count } = await this.prisma.outboxMessage.updateMany({
+        where: {
+          id: message.id,
+          status: PrismaOutboxStatus.PENDING,
+          nextAttemptAt: message.nextAttemptAt,
+        },
+        data: { nextAttemptAt: leaseUntil },
+      });
+      if (count === 1) {
+        claimed.push(this.toDomain({ ...message, nextAttemptAt: leaseUntil }));
+      }
+    }
+    return claimed;
+  }
+
+  async save(message: OutboxMessage): Promise<OutboxMessage> {
+    const saved = await this.prisma.outboxMessage.update({
+      where: { id: message.id },
+      data: {
+        status: message.status as PrismaOutboxStatus,
+        attempts: message.attempts,
+        deliveredTo: [...message.deliveredTo],
+        lastError: message.lastError,
+        nextAttemptAt: message.nextAttemptAt,
+        processedAt: message.processedAt,
+      },
+    });
+    return this.toDomain(saved);
+  }
+
+  async findById(id: string): Promise<OutboxMessage | null> {
+    const message = await this.prisma.outboxMessage.findUnique({ where: { id } });
+    return message ? this.toDomain(message) : null;
+  }
+
+  async findByStatus(status: OutboxStatus, limit: number): Promise<OutboxMessage[]> {
+    const messages = await this.prisma.outboxMessage.findMany({
+      where: { status: status as PrismaOutboxStatus },
+      orderBy: { createdAt: 'desc' },
+      take: limit,
+    });
+    return messages.map((message) => this.toDomain(message));
+  }
+
+  // ==========================================================================
+  // Private Helpers
+  // ==========================================================================
+
+  private toDomain(message: PrismaOutboxMessage): OutboxMessage {
+    return {
+      id: message.id,
+      eventType: message.eventType,
+      payload: message.payload as Record<string, unknown>,
+      correlationId: message.correlationId,
+      occurredAt: message.occurredAt,
+      status: message.status as OutboxStatus,
+      attempts: message.attempts,
+      deliveredTo: message.deliveredTo,
+      lastError: message.lastError,
+      nextAttemptAt: message.nextAttemptAt,
+      processedAt: message.processedAt,
+      createdAt: message.createdAt,
+    };
+  }
+}
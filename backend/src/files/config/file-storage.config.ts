@@ -0,0 +1,77 @@
+/**
+ * File Storage Configuration
+ *
+ * Centralized upload and download settings for the files module.
+ *
+ * Security notes:
+ * - FILE_URL_SIGNING_SECRET should be set via environment variable in production
+ * - Download URLs are short-lived (5 minutes by default)
+ * - Only image and PDF uploads are accepted
+ */
+
+export type FileStorageDriver = 'local' | 's3';
+
+export interface FileStorageConfig {
+  /** Storage backend for file content */
+  driver: FileStorageDriver;
+
+  /** Root directory for the local-disk driver */
+  localRoot: string;
+
+  /** Bucket and optional key prefix for the S3-compatible driver */
+  s3Bucket: string;
+  s3KeyPrefix: string;
+
+  /** Maximum accepted upload size in bytes */
+  maxSizeBytes: number;
+
+  /** Accepted MIME types */
+  allowedMimeTypes: string[];
+
+  /** Secret used to sign download URLs */
+  signingSecret: string;
+
+  /** Lifetime of a signed download URL in seconds */
+  downloadUrlTtlSeconds: number;
+
+  /** Public base URL of the API, used to build download URLs */
+  publicBaseUrl: string;
+}
+
+export const DEFAULT_ALLOWED_MIME_TYPES = [
+  'image/jpeg',
+  'image/png',
+  'image/webp',
+  'application/pdf',
+];
+
+/**
+ * Get file storage configuration from environment
+ */
+export function getFileStorageConfig(): FileStorageConfig {
+  const signingSecret = process.env.FILE_URL_SIGNING_SECRET;
+
+  if (!signingSecret && process.env.NODE_ENV === 'production') {
+    throw new Error('FILE_URL_SIGNING_SECRET must be set in production');
+  }
+
+  return {
+    driver: process.env.FILE_STORAGE_DRIVER === 's3' ? 's3' : 'local',
+    localRoot: process.env.FILE_STORAGE_LOCAL_ROOT || './storage/uploads',
+    s3Bucket: process.env.FILE_STORAGE_S3_BUCKET || '',
+    s3KeyPrefix: process.env.FILE_STORAGE_S3_PREFIX || '',
+
+    // 5 MB is enough for a phone photo of a prescription or payment screenshot
+    maxSizeBytes: parseInt(process.env.FILE_MAX_SIZE_BYTES || '5242880', 10),
+
+    allowedMimeTypes: DEFAULT_ALLOWED_MIME_TYPES,
+
+    // Use env variable or fallback for development
+    signingSecret: signingSecret || 'dev-file-signing-secret-do-not-use-in-production',
+
+    downloadUrlTtlSeconds: parseInt(process.env.FILE_DOWNLOAD_URL_TTL_SECONDS || '300', 10),
+
+    publicBaseUrl:
+      process.env.API_PUBLIC_URL || `http://localhost:${process.env.PORT || 3001}/api/v1`,
+  };
+}
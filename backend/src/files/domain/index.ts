@@ -0,0 +1,6 @@
+export {
+  FilePurpose,
+  type StoredFile,
+  type CreateStoredFileData,
+  createStoredFile,
+} from './stored-file.entity';
@@ -0,0 +1,55 @@
+/**
+ * Stored File Aggregate
+ *
+ * Metadata for a user-uploaded file. The bytes live in the configured
+ * file storage (local disk, S3-compatible bucket); only the opaque
+ * storage key is kept here.
+ *
+ * The file id is the opaque reference handed back to clients and stored
+ * on Prescription.fileReference / PaymentIntent.proofReference.
+ */
+export enum FilePurpose {
+  PRESCRIPTION = 'PRESCRIPTION',
+  PAYMENT_PROOF = 'PAYMENT_PROOF',
+}
+
+export interface StoredFile {
+  readonly id: string;
+  readonly ownerId: string;
+  readonly purpose: FilePurpose;
+  readonly originalName: string;
+  readonly mimeType: string;
+  readonly sizeBytes: number;
+  /** SHA-256 of the file content (hex) */
+  readonly checksum: string;
+  readonly storageKey: string;
+  readonly createdAt: Date;
+}
+
+export interface CreateStoredFileData {
+  ownerId: string;
+  purpose: FilePurpose;
+  originalName: string;
+  mimeType: string;
+  sizeBytes: number;
+  checksum: string;
+  storageKey: string;
+}
+
+export function createStoredFile(
+  id: string,
+  data: CreateStoredFileData,
+  now: Date = new Date(),
+): StoredFile {
+  return {
+    id,
+    ownerId: data.ownerId,
+    purpose: data.purpose,
+    originalName: data.originalName,
+    mimeType: data.mimeType,
+    sizeBytes: data.sizeBytes,
+    checksum: data.checksum,
+    storageKey: data.storageKey,
+    createdAt: now,
+  };
+}
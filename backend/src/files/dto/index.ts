@@ -0,0 +1,8 @@
+export {
+  StoredFileDto,
+  FileDownloadUrlDto,
+  UploadFileDto,
+  DownloadFileQueryDto,
+  UploadedFilePayload,
+  toStoredFileDto,
+} from './stored-file.dto';
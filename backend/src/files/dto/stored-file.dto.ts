@@ -0,0 +1,59 @@
+import { IsEnum, IsNotEmpty, IsNumberString, IsString } from 'class-validator';
+import { FilePurpose, StoredFile } from '../domain';
+
+export interface StoredFileDto {
+  id: string;
+  purpose: FilePurpose;
+  originalName: string;
+  mimeType: string;
+  sizeBytes: number;
+  checksum: string;
+  createdAt: string;
+}
+
+export interface FileDownloadUrlDto {
+  url: string;
+  expiresAt: string;
+}
+
+/**
+ * Multipart form fields accompanying an upload (the file itself is the `file` part)
+ */
+export class UploadFileDto {
+  @IsEnum(FilePurpose)
+  purpose: FilePurpose;
+}
+
+/**
+ * Query string of a signed download URL
+ */
+export class DownloadFileQueryDto {
+  @IsNumberString()
+  expires: string;
+
+  @IsString()
+  @IsNotEmpty()
+  signature: string;
+}
+
+/**
+ * Uploaded file as handed over by the multipart interceptor (multer)
+ */
+export interface UploadedFilePayload {
+  originalname: string;
+  mimetype: string;
+  size: number;
+  buffer: Buffer;
+}
+
+export function toStoredFileDto(file: StoredFile): StoredFileDto {
+  return {
+    id: file.id,
+    purpose: file.purpose,
+    originalName: file.originalName,
+    mimeType: file.mimeType,
+    sizeBytes: file.sizeBytes,
+    checksum: file.checksum,
+    createdAt: file.createdAt.toISOString(),
+  };
+}
@@ -0,0 +1,73 @@
+import { HttpStatus } from '@nestjs/common';
+import { BusinessException } from '../../common/exceptions/business.exception';
+import { FilePurpose } from '../domain';
+
+export class FileNotFoundException extends BusinessException {
+  constructor(id: string) {
+    super('FILE_NOT_FOUND', `File '${id}' not found`, HttpStatus.NOT_FOUND);
+  }
+}
+
+export class FileAccessDeniedException extends BusinessException {
+  constructor(id: string) {
+    super('FILE_ACCESS_DENIED', `You do not have access to file '${id}'`, HttpStatus.FORBIDDEN);
+  }
+}
+
+export class FileRequiredException extends BusinessException {
+  constructor() {
+    super('FILE_REQUIRED', 'A non-empty file must be uploaded', HttpStatus.BAD_REQUEST);
+  }
+}
+
+export class FileTooLargeException extends BusinessException {
+  constructor(sizeBytes: number, maxSizeBytes: number) {
+    super(
+      'FILE_TOO_LARGE',
+      `File is ${sizeBytes} bytes; the maximum allowed is ${maxSizeBytes} bytes`,
+      HttpStatus.PAYLOAD_TOO_LARGE,
+      { sizeBytes, maxSizeBytes },
+    );
+  }
+}
+
+export class UnsupportedFileTypeException extends BusinessException {
+  constructor(mimeType: string, allowedMimeTypes: string[]) {
+    super(
+      'FILE_TYPE_NOT_ALLOWED',
+      `File type '${mimeType}' is not allowed`,
+      HttpStatus.UNSUPPORTED_MEDIA_TYPE,
+      { allowedMimeTypes },
+    );
+  }
+}
+
+export class FileContentMismatchException extends BusinessException {
+  constructor(mimeType: string) {
+    super(
+      'FILE_CONTENT_MISMATCH',
+      `File content does not match declared type '${mimeType}'`,
+      HttpStatus.UNSUPPORTED_MEDIA_TYPE,
+    );
+  }
+}
+
+export class FilePurposeMismatchException extends BusinessException {
+  constructor(id: string, expected: FilePurpose) {
+    super(
+      'FILE_PURPOSE_MISMATCH',
+      `File '${id}' was not uploaded as ${expected}`,
+      HttpStatus.BAD_REQUEST,
+    );
+  }
+}
+
+export class InvalidFileDownloadLinkException extends BusinessException {
+  constructor() {
+    super(
+      'FILE_DOWNLOAD_LINK_INVALID',
+      'Download link is invalid or has expired',
+      HttpStatus.FORBIDDEN,
+    );
+  }
+}
@@ -0,0 +1,10 @@
+export {
+  FileNotFoundException,
+  FileAccessDeniedException,
+  FileRequiredException,
+  FileTooLargeException,
+  UnsupportedFileTypeException,
+  FileContentMismatchException,
+  FilePurposeMismatchException,
+  InvalidFileDownloadLinkException,
+} from './file.exceptions';
@@ -0,0 +1,119 @@
+import {
+  Body,
+  Controller,
+  Get,
+  Header,
+  Headers,
+  HttpCode,
+  HttpStatus,
+  Param,
+  Post,
+  Query,
+  StreamableFile,
+  UploadedFile,
+  UseGuards,
+  UseInterceptors,
+} from '@nestjs/common';
+import { FileInterceptor } from '@nestjs/platform-express';
+import { ApiResponse } from '../common/api/api-response';
+import { JwtAuthGuard } from '../auth/guards/jwt-auth.guard';
+import { Public } from '../auth/decorators/public.decorator';
+import { CurrentUser } from '../auth/decorators/current-user.decorator';
+import { AuthUser } from '../auth/interfaces/auth-user.interface';
+import { FileService } from './file.service';
+import { getFileStorageConfig } from './config/file-storage.config';
+import {
+  DownloadFileQueryDto,
+  FileDownloadUrlDto,
+  StoredFileDto,
+  UploadFileDto,
+  UploadedFilePayload,
+  toStoredFileDto,
+} from './dto';
+
+/**
+ * File Controller
+ *
+ * Upload prescription images / UPI proofs and fetch them back through
+ * short-lived signed URLs.
+ */
+@Controller('files')
+@UseGuards(JwtAuthGuard)
+export class FileController {
+  constructor(private readonly fileService: FileService) {}
+
+  /**
+   * Upload a file (multipart/form-data: `file` + `purpose`)
+   * POST /api/v1/files
+   */
+  @Post()
+  @HttpCode(HttpStatus.CREATED)
+  @UseInterceptors(
+    FileInterceptor('file', {
+      limits: { fileSize: getFileStorageConfig().maxSizeBytes, files: 1 },
+    }),
+  )
+  async upload(
+    @CurrentUser('id') userId: string,
+    @Body() dto: UploadFileDto,
+    @UploadedFile() file: UploadedFilePayload | undefined,
+    @Headers('x-correlation-id') correlationId: string,
+  ): Promise<ApiResponse<StoredFileDto>> {
+    const stored = await this.fileService.upload(userId, dto.purpose, file, correlationId);
+    return ApiResponse.success(toStoredFileDto(stored), 'File uploaded successfully');
+  }
+
+  /**
+   * Get file metadata (owner or admin)
+   * GET /api/v1/files/:id
+   */
+  @Get(':id')
+  async getFile(
+    @Param('id') id: string,
+    @CurrentUser() user: AuthUser,
+  ): Promise<ApiResponse<StoredFileDto>> {
+    const file = await this.fileService.getFile(id, user);
+    return ApiResponse.success(toStoredFileDto(file), 'File retrieved successfully');
+  }
+
+  /**
+   * Create a time-limited download URL (owner or admin)
+   * POST /api/v1/files/:id/download-url
+   */
+  @Post(':id/download-url')
+  @HttpCode(HttpStatus.OK)
+  async createDownloadUrl(
+    @Param('id') id: string,
+    @CurrentUser() user: AuthUser,
+  ): Promise<ApiResponse<FileDownloadUrlDto>> {
+    const downloadUrl = await this.fileService.createDownloadUrl(id, user);
+    return ApiResponse.success(downloadUrl, 'Download URL created successfully');
+  }
+
+  /**
+   * Download file content via a signed URL
+   * GET /api/v1/files/:id/content?expires=...&signature=...
+   *
+   * Public: the signature is the authorisation, so the URL can be opened
+   * directly in a browser tab or <img>.
+   */
+  @Public()
+  @Get(':id/content')
+  @Header('Cache-Control', 'private, no-store')
+  @Header('X-Content-Type-Options', 'nosniff')
+  async download(
+    @Param('id') id: string,
+    @Query() query: DownloadFileQueryDto,
+  ): Promise<StreamableFile> {
+    const { file, content } = await this.fileService.getSignedContent(
+      id,
+      query.expires,
+      query.signature,
+    );
+    return new StreamableFile(content, {
+      type: file.mimeType,
+      length: content.length,
+      disposition: `inline; filename="${encodeURIComponent(file.originalName)}"`,
+    });
+  }
+}
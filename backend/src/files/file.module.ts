@@ -0,0 +1,50 @@
+import { Module } from '@nestjs/common';
+import { AuthModule } from '../auth/auth.module';
+import { FileController } from './file.controller';
+import { FileService } from './file.service';
+import { StoredFileRepositoryProvider } from '../database/repository.providers';
+import { FILE_STORAGE } from './storage/file-storage.interface';
+import { LocalDiskFileStorage } from './storage/local-disk-file.storage';
+import {
+  S3_COMPATIBLE_CLIENT,
+  S3CompatibleClient,
+  S3CompatibleFileStorage,
+} from './storage/s3-compatible-file.storage';
+import { getFileStorageConfig } from './config/file-storage.config';
+
+/**
+ * File Module
+ *
+ * Stores uploaded prescription images and UPI payment proofs.
+ * - FILE_STORAGE_DRIVER=local (default): files under FILE_STORAGE_LOCAL_ROOT
+ * - FILE_STORAGE_DRIVER=s3: requires an S3_COMPATIBLE_CLIENT provider
+ *
+ * Exports FileService so prescription and payment modules can validate
+ * client-supplied file references.
+ */
+@Module({
+  imports: [AuthModule],
+  controllers: [FileController],
+  providers: [
+    StoredFileRepositoryProvider,
+    {
+      provide: FILE_STORAGE,
+      useFactory: (s3Client?: S3CompatibleClient) => {
+        const config = getFileStorageConfig();
+        if (config.driver === 's3') {
+          if (!s3Client || !config.s3Bucket) {
+            throw new Error(
+              'FILE_STORAGE_DRIVER=s3 requires FILE_STORAGE_S3_BUCKET and an S3_COMPATIBLE_CLIENT provider',
+            );
+          }
+          return new S3CompatibleFileStorage(s3Client, config.s3Bucket, config.s3KeyPrefix);
+        }
+        return new LocalDiskFileStorage(config.localRoot);
+      },
+      inject: [{ token: S3_COMPATIBLE_CLIENT, optional: true }],
+    },
+    FileService,
+  ],
+  exports: [FileService],
+})
+export class FileModule {}
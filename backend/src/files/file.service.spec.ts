@@ -0,0 +1,247 @@
+import { createHash } from 'crypto';
+import { FileService } from './file.service';
+import { FilePurpose } from './domain';
+import { InMemoryStoredFileRepository } from './repositories/in-memory-stored-file.repository';
+import { InMemoryFileStorage } from './storage/in-memory-file.storage';
+import { UploadedFilePayload } from './dto';
+import {
+  FileAccessDeniedException,
+  FileContentMismatchException,
+  FileNotFoundException,
+  FilePurposeMismatchException,
+  FileRequiredException,
+  FileTooLargeException,
+  InvalidFileDownloadLinkException,
+  UnsupportedFileTypeException,
+} from './exceptions';
+import { AuthUser, UserRole } from '../auth/interfaces/auth-user.interface';
+
+/**
+ * FileService tests
+ *
+ * Verifies:
+ * - Uploads are validated (size, MIME type, content signature) and checksummed
+ * - Only the owner and admins can read metadata or get download URLs
+ * - Signed download URLs expire and cannot be tampered with
+ * - References are only attachable by their owner for the uploaded purpose
+ */
+describe('FileService', () => {
+  let service: FileService;
+  let repository: InMemoryStoredFileRepository;
+  let storage: InMemoryFileStorage;
+
+  const owner = authUser('user-1', UserRole.CUSTOMER);
+  const otherUser = authUser('user-2', UserRole.CUSTOMER);
+  const admin = authUser('admin-1', UserRole.ADMIN);
+
+  const png = Buffer.from([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a, 0x01, 0x02]);
+  const pdf = Buffer.from('%PDF-1.7\n...');
+
+  function authUser(id: string, role: UserRole): AuthUser {
+    return { id, phoneNumber: '9999999999', email: null, role, roles: [role] };
+  }
+
+  function payload(
+    buffer: Buffer,
+    mimetype: string,
+    originalname = 'upload.png',
+  ): UploadedFilePayload {
+    return { originalname, mimetype, size: buffer.length, buffer };
+  }
+
+  function queryOf(url: string): { expires: string; signature: string } {
+    const params = new URL(url).searchParams;
+    return { expires: params.get('expires')!, signature: params.get('signature')! };
+  }
+
+  beforeEach(() => {
+    repository = new InMemoryStoredFileRepository();
+    storage = new InMemoryFileStorage();
+    service = new FileService(repository, storage);
+  });
+
+  afterEach(() => {
+    delete process.env.FILE_MAX_SIZE_BYTES;
+    repository.clear();
+    storage.clear();
+  });
+
+  describe('upload', () => {
+    it('stores content with a SHA-256 checksum and returns an opaque reference', async () => {
+      const file = await service.upload(
+        owner.id,
+        FilePurpose.PRESCRIPTION,
+        payload(png, 'image/png', '../../etc/rx.png'),
+      );
+
+      expect(file.ownerId).toBe(owner.id);
+      expect(file.purpose).toBe(FilePurpose.PRESCRIPTION);
+      expect(file.sizeBytes).toBe(png.length);
+      expect(file.checksum).toBe(createHash('sha256').update(png).digest('hex'));
+      expect(file.originalName).toBe('rx.png');
+      expect(file.storageKey).not.toContain('rx.png');
+      expect(await storage.get(file.storageKey)).toEqual(png);
+    });
+
+    it('accepts PDFs', async () => {
+      const file = await service.upload(
+        owner.id,
+        FilePurpose.PAYMENT_PROOF,
+        payload(pdf, 'application/pdf', 'proof.pdf'),
+      );
+      expect(file.mimeType).toBe('application/pdf');
+    });
+
+    it('rejects a missing or empty file', async () => {
+      await expect(service.upload(owner.id, FilePurpose.PRESCRIPTION, undefined)).rejects.toThrow(
+        FileRequiredException,
+      );
+      await expect(
+        service.upload(owner.id, FilePurpose.PRESCRIPTION, payload(Buffer.alloc(0), 'image/png')),
+      ).rejects.toThrow(FileRequiredException);
+    });
+
+    it('rejects files over the size limit', async () => {
+      process.env.FILE_MAX_SIZE_BYTES = '4';
+
+      await expect(
+        service.upload(owner.id, FilePurpose.PRESCRIPTION, payload(png, 'image/png')),
+      ).rejects.toThrow(FileTooLargeException);
+    });
+
+    it('rejects MIME types outside the allow-list', async () => {
+      await expect(
+        service.upload(owner.id, FilePurpose.PRESCRIPTION, payload(png, 'text/html')),
+      ).rejects.toThrow(UnsupportedFileTypeException);
+    });
+
+    it('rejects content that does not match the declared type', async () => {
+      await expect(
+        service.upload(owner.id, FilePurpose.PRESCRIPTION, payload(pdf, 'image/jpeg')),
+      ).rejects.toThrow(FileContentMismatchException);
+      expect(await repository.findById('anything')).toBeNull();
+    });
+  });
+
+  describe('access control', () => {
+    it('lets the owner and admins read metadata, but not other users', async () => {
+      const file = await service.upload(
+        owner.id,
+        FilePurpose.PRESCRIPTION,
+        payload(png, 'image/png'),
+      );
+
+      await expect(service.getFile(file.id, owner)).resolves.toMatchObject({ id: file.id });
+      await expect(service.getFile(file.id, admin)).resolves.toMatchObject({ id: file.id });
+      await expect(service.getFile(file.id, otherUser)).rejects.toThrow(FileAccessDeniedException);
+      await expect(service.getFile('missing', owner)).rejects.toThrow(FileNotFoundException);
+    });
+
+    it('does not issue download URLs to other users', async () => {
+      const file = await service.upload(
+        owner.id,
+        FilePurpose.PRESCRIPTION,
+        payload(png, 'image/png'),
+      );
+
+      await expect(service.createDownloadUrl(file.id, otherUser)).rejects.toThrow(
+        FileAccessDeniedException,
+      );
+    });
+  });
+
+  describe('signed download URLs', () => {
+    it('resolves a valid URL to the file content', async () => {
+      const file = await service.upload(
+        owner.id,
+        FilePurpose.PRESCRIPTION,
+        payload(png, 'image/png'),
+      );
+      const now = new Date('2026-01-01T10:00:00Z');
+
+      const { url, expiresAt } = await service.createDownloadUrl(file.id, admin, now);
+      const { expires, signature } = queryOf(url);
+      const result = await service.getSignedContent(file.id, expires, signature, now);
+
+      expect(url).toContain(`/files/${file.id}/content?`);
+      expect(new Date(expiresAt).getTime()).toBeGreaterThan(now.getTime());
+      expect(result.content).toEqual(png);
+      expect(result.file.mimeType).toBe('image/png');
+    });
+
+    it('rejects expired URLs', async () => {
+      const file = await service.upload(
+        owner.id,
+        FilePurpose.PRESCRIPTION,
+        payload(png, 'image/png'),
+      );
+      const issuedAt = new Date('2026-01-01T10:00:00Z');
+
+      const { url } = await service.createDownloadUrl(file.id, owner, issuedAt);
+      const { expires, signature } = queryOf(url);
+
+      await expect(
+        service.getSignedContent(file.id, expires, signature, new Date('2026-01-01T11:00:00Z')),
+      ).rejects.toThrow(InvalidFileDownloadLinkException);
+    });
+
+    it('rejects tampered URLs', async () => {
+      const first = await service.upload(
+        owner.id,
+        FilePurpose.PRESCRIPTION,
+        payload(png, 'image/png'),
+      );
+      const second = await service.upload(
+        owner.id,
+        FilePurpose.PRESCRIPTION,
+        payload(png, 'image/png'),
+      );
+      const now = new Date('2026-01-01T10:00:00Z');
+
+      const { url } = await service.createDownloadUrl(first.id, owner, now);
+      const { expires, signature } = queryOf(url);
+
+      await expect(service.getSignedContent(second.id, expires, signature, now)).rejects.toThrow(
+        InvalidFileDownloadLinkException,
+      );
+      await expect(
+        service.getSignedContent(first.id, String(Number(expires) + 3600), signature, now),
+      ).rejects.toThrow(InvalidFileDownloadLinkException);
+      await expect(
+        service.getSignedContent(first.id, expires, 'not-a-signature', now),
+      ).rejects.toThrow(InvalidFileDownloadLinkException);
+    });
+  });
+
+  describe('getAttachableFile', () => {
+    it('returns the file for its owner and purpose', async () => {
+      const file = await service.upload(
+        owner.id,
+        FilePurpose.PRESCRIPTION,
+        payload(png, 'image/png'),
+      );
+
+      await expect(
+        service.getAttachableFile(file.id, owner.id, FilePurpose.PRESCRIPTION),
+      ).resolves.toMatchObject({ id: file.id });
+    });
+
+    it('rejects unknown, foreign and wrong-purpose references', async () => {
+      const file = await service.upload(
+        owner.id,
+        FilePurpose.PRESCRIPTION,
+        payload(png, 'image/png'),
+      );
+
+      await expect(
+        service.getAttachableFile('free-text', owner.id, FilePurpose.PRESCRIPTION),
+      ).rejects.toThrow(FileNotFoundException);
+      await expect(
+        service.getAttachableFile(file.id, otherUser.id, FilePurpose.PRESCRIPTION),
+      ).rejects.toThrow(FileAccessDeniedException);
+      await expect(
+        service.getAttachableFile(file.id, owner.id, FilePurpose.PAYMENT_PROOF),
+      ).rejects.toThrow(FilePurposeMismatchException);
+    });
+  });
+});
@@ -0,0 +1,221 @@
+import { Inject, Injectable } from '@nestjs/common';
+import { createHash, createHmac, randomUUID, timingSafeEqual } from 'crypto';
+import * as path from 'path';
+import { AuthUser, UserRole } from '../auth/interfaces/auth-user.interface';
+import { FilePurpose, StoredFile } from './domain';
+import { STORED_FILE_REPOSITORY, IStoredFileRepository } from './repositories';
+import { FILE_STORAGE, IFileStorage } from './storage';
+import { FileDownloadUrlDto, UploadedFilePayload } from './dto';
+import {
+  FileAccessDeniedException,
+  FileContentMismatchException,
+  FileNotFoundException,
+  FilePurposeMismatchException,
+  FileRequiredException,
+  FileTooLargeException,
+  InvalidFileDownloadLinkException,
+  UnsupportedFileTypeException,
+} from './exceptions';
+import { getFileStorageConfig } from './config/file-storage.config';
+import { logWithCorrelation } from '../common/logging/logger';
+
+/**
+ * Leading bytes expected for each accepted MIME type. The declared type
+ * comes from the client, so content is checked before anything is stored.
+ */
+const FILE_SIGNATURES: Record<string, (content: Buffer) => boolean> = {
+  'image/jpeg': (content) => startsWith(content, [0xff, 0xd8, 0xff]),
+  'image/png': (content) => startsWith(content, [0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a]),
+  'image/webp': (content) =>
+    content.subarray(0, 4).toString('latin1') === 'RIFF' &&
+    content.subarray(8, 12).toString('latin1') === 'WEBP',
+  'application/pdf': (content) => content.subarray(0, 5).toString('latin1') === '%PDF-',
+};
+
+function startsWith(content: Buffer, bytes: number[]): boolean {
+  return content.length >= bytes.length && bytes.every((byte, index) => content[index] === byte);
+}
+
+/**
+ * File Service
+ *
+ * Owns uploaded files (prescription images, UPI payment proofs):
+ * - Validates size, MIME type and content signature on upload
+ * - Stores content via the configured FILE_STORAGE and a SHA-256 checksum
+ * - Hands out the file id as an opaque reference
+ * - Issues short-lived HMAC-signed download URLs to the owner and admins
+ *
+ * Other modules use getAttachableFile() to check a client-supplied
+ * reference before persisting it.
+ */
+@Injectable()
+export class FileService {
+  constructor(
+    @Inject(STORED_FILE_REPOSITORY)
+    private readonly storedFileRepository: IStoredFileRepository,
+    @Inject(FILE_STORAGE)
+    private readonly fileStorage: IFileStorage,
+  ) {}
+
+  /**
+   * Validate and store an uploaded file for its owner.
+   */
+  async upload(
+    ownerId: string,
+    purpose: FilePurpose,
+    file: UploadedFilePayload | undefined,
+    correlationId?: string,
+  ): Promise<StoredFile> {
+    const config = getFileStorageConfig();
+
+    if (!file || !file.buffer || file.buffer.length === 0) {
+      throw new FileRequiredException();
+    }
+    if (file.buffer.length > config.maxSizeBytes) {
+      throw new FileTooLargeException(file.buffer.length, config.maxSizeBytes);
+    }
+    if (!config.allowedMimeTypes.includes(file.mimetype)) {
+      throw new UnsupportedFileTypeException(file.mimetype, config.allowedMimeTypes);
+    }
+    const matchesSignature = FILE_SIGNATURES[file.mimetype];
+    if (matchesSignature && !matchesSignature(file.buffer)) {
+      throw new FileContentMismatchException(file.mimetype);
+    }
+
+    const checksum = createHash('sha256').update(file.buffer).digest('hex');
+    const storageKey = `${purpose.toLowerCase()}/${ownerId}/${randomUUID()}`;
+
+    await this.fileStorage.put(storageKey, file.buffer, file.mimetype);
+
+    let stored: StoredFile;
+    try {
+      stored = await this.storedFileRepository.save({
+        ownerId,
+        purpose,
+        originalName: this.sanitizeName(file.originalname),
+        mimeType: file.mimetype,
+        sizeBytes: file.buffer.length,
+        checksum,
+        storageKey,
+      });
+    } catch (error) {
+      // Do not leave orphaned content behind if metadata could not be saved
+      await this.fileStorage.delete(storageKey);
+      throw error;
+    }
+
+    if (correlationId) {
+      logWithCorrelation('INFO', correlationId, 'File uploaded', 'FileService', {
+        fileId: stored.id,
+        ownerId,
+        purpose,
+        sizeBytes: stored.sizeBytes,
+      });
+    }
+
+    return stored;
+  }
+
+  /**
+   * Get file metadata. Only the owner and admins may see it.
+   */
+  async getFile(id: string, requester: AuthUser): Promise<StoredFile> {
+    const file = await this.storedFileRepository.findById(id);
+    if (!file) {
+      throw new FileNotFoundException(id);
+    }
+    if (file.ownerId !== requester.id && requester.role !== UserRole.ADMIN) {
+      throw new FileAccessDeniedException(id);
+    }
+    return file;
+  }
+
+  /**
+   * Issue a time-limited download URL for the owner or an admin.
+   */
+  async createDownloadUrl(
+    id: string,
+    requester: AuthUser,
+    now: Date = new Date(),
+  ): Promise<FileDownloadUrlDto> {
+    const file = await this.getFile(id, requester);
+    const config = getFileStorageConfig();
+
+    const expires = Math.floor(now.getTime() / 1000) + config.downloadUrlTtlSeconds;
+    const signature = this.sign(file.id, expires);
+    const query = new URLSearchParams({ expires: String(expires), signature });
+
+    return {
+      url: `${config.publicBaseUrl}/files/${file.id}/content?${query.toString()}`,
+      expiresAt: new Date(expires * 1000).toISOString(),
+    };
+  }
+
+  /**
+   * Resolve a signed download URL to the file and its content.
+   */
+  async getSignedContent(
+    id: string,
+    expires: string,
+    signature: string,
+    now: Date = new Date(),
+  ): Promise<{ file: StoredFile; content: Buffer }> {
+    const expiresAt = Number(expires);
+    if (!Number.isInteger(expiresAt) || expiresAt * 1000 < now.getTime()) {
+      throw new InvalidFileDownloadLinkException();
+    }
+    if (!this.isValidSignature(id, expiresAt, signature)) {
+      throw new InvalidFileDownloadLinkException();
+    }
+
+    const file = await this.storedFileRepository.findById(id);
+    if (!file) {
+      throw new FileNotFoundException(id);
+    }
+    const content = await this.fileStorage.get(file.storageKey);
+    if (!content) {
+      throw new FileNotFoundException(id);
+    }
+    return { file, content };
+  }
+
+  /**
+   * Check that a client-supplied file reference can be attached to a
+   * record owned by `ownerId` (e.g. a prescription or UPI proof).
+   */
+  async getAttachableFile(
+    reference: string,
+    ownerId: string,
+    purpose: FilePurpose,
+  ): Promise<StoredFile> {
+    const file = await this.storedFileRepository.findById(reference);
+    if (!file) {
+      throw new FileNotFoundException(reference);
+    }
+    if (file.ownerId !== ownerId) {
+      throw new FileAccessDeniedException(reference);
+    }
+    if (file.purpose !== purpose) {
+      throw new FilePurposeMismatchException(reference, purpose);
+    }
+    return file;
+  }
+
+  private sign(id: string, expires: number): string {
+    return createHmac('sha256', getFileStorageConfig().signingSecret)
+      .update(`${id}.${expires}`)
+      .digest('hex');
+  }
+
+  private isValidSignature(id: string, expires: number, signature: string): boolean {
+    const expected = Buffer.from(this.sign(id, expires), 'hex');
+    const actual = Buffer.from(signature, 'hex');
+    return actual.length === expected.length && timingSafeEqual(actual, expected);
+  }
+
+  /** Keep only the base name; never trust client paths */
+  private sanitizeName(originalName: string | undefined): string {
+    const name = path.basename((originalName ?? '').replace(/\\/g, '/')).trim();
+    return name.slice(0, 255) || 'upload';
+  }
+}
@@ -0,0 +1,28 @@
+import { Injectable } from '@nestjs/common';
+import { randomUUID } from 'crypto';
+import { StoredFile, CreateStoredFileData, createStoredFile } from '../domain';
+import { IStoredFileRepository } from './stored-file-repository.interface';
+
+@Injectable()
+export class InMemoryStoredFileRepository implements IStoredFileRepository {
+  private readonly files: Map<string, StoredFile> = new Map();
+
+  async save(data: CreateStoredFileData): Promise<StoredFile> {
+    const id = randomUUID();
+    const file = createStoredFile(id, data);
+    this.files.set(id, file);
+    return file;
+  }
+
+  async findById(id: string): Promise<StoredFile | null> {
+    return this.files.get(id) ?? null;
+  }
+
+  async delete(id: string): Promise<void> {
+    this.files.delete(id);
+  }
+
+  clear(): void {
+    this.files.clear();
+  }
+}
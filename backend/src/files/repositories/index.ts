@@ -0,0 +1,3 @@
+export { STORED_FILE_REPOSITORY, IStoredFileRepository } from './stored-file-repository.interface';
+export { InMemoryStoredFileRepository } from './in-memory-stored-file.repository';
+export { PrismaStoredFileRepository } from './prisma-stored-file.repository';
@@ -0,0 +1,69 @@
+import { Injectable } from '@nestjs/common';
+import { PrismaService } from '../../database/prisma.service';
+import { StoredFile, CreateStoredFileData, FilePurpose } from '../domain';
+import { IStoredFileRepository } from './stored-file-repository.interface';
+
+type PrismaStoredFileRecord = {
+  id: string;
+  ownerId: string;
+  purpose: FilePurpose;
+  originalName: string;
+  mimeType: string;
+  sizeBytes: number;
+  checksum: string;
+  storageKey: string;
+  createdAt: Date;
+};
+
+type PrismaStoredFileClient = {
+  create(args: { data: CreateStoredFileData }): Promise<PrismaStoredFileRecord>;
+  findUnique(args: { where: { id: string } }): Promise<PrismaStoredFileRecord | null>;
+  deleteMany(args: { where: { id: string } }): Promise<{ count: number }>;
+};
+
+@Injectable()
+export class PrismaStoredFileRepository implements IStoredFileRepository {
+  constructor(private readonly prisma: PrismaService) {}
+
+  async save(data: CreateStoredFileData): Promise<StoredFile> {
+    const file = await this.storedFileClient.create({
+      data: {
+        ownerId: data.ownerId,
+        purpose: data.purpose,
+        originalName: data.originalName,
+        mimeType: data.mimeType,
+        sizeBytes: data.sizeBytes,
+        checksum: data.checksum,
+        storageKey: data.storageKey,
+      },
+    });
+    return this.toDomain(file);
+  }
+
+  async findById(id: string): Promise<StoredFile | null> {
+    const file = await this.storedFileClient.findUnique({ where: { id } });
+    return file ? this.toDomain(file) : null;
+  }
+
+  async delete(id: string): Promise<void> {
+    await this.storedFileClient.deleteMany({ where: { id } });
+  }
+
+  private get storedFileClient(): PrismaStoredFileClient {
+    return (this.prisma as PrismaService & { storedFile: PrismaStoredFileClient }).storedFile;
+  }
+
+  private toDomain(file: PrismaStoredFileRecord): StoredFile {
+    return {
+      id: file.id,
+      ownerId: file.ownerId,
+      purpose: file.purpose,
+      originalName: file.originalName,
+      mimeType: file.mimeType,
+      sizeBytes: file.sizeBytes,
+      checksum: file.checksum,
+      storageKey: file.storageKey,
+      createdAt: file.createdAt,
+    };
+  }
+}
@@ -0,0 +1,12 @@
+import { StoredFile, CreateStoredFileData } from '../domain';
+
+/**
+ * Stored File Repository Interface
+ */
+export interface IStoredFileRepository {
+  save(data: CreateStoredFileData): Promise<StoredFile>;
+  findById(id: string): Promise<StoredFile | null>;
+  delete(id: string): Promise<void>;
+}
+
+export const STORED_FILE_REPOSITORY = 'STORED_FILE_REPOSITORY';
@@ -0,0 +1,24 @@
+/**
+ * Inventory Configuration
+ *
+ * Batch expiry rules for the inventory module.
+ */
+
+export interface InventoryConfig {
+  /**
+   * Minimum remaining shelf life (days) for a batch to be sold.
+   * Batches expiring sooner are blocked from sale and from fulfilment.
+   */
+  minShelfLifeDays: number;
+}
+
+/**
+ * Get inventory configuration from environment
+ */
+export function getInventoryConfig(): InventoryConfig {
+  const minShelfLifeDays = parseInt(process.env.INVENTORY_MIN_SHELF_LIFE_DAYS || '30', 10);
+
+  return {
+    minShelfLifeDays: Number.isNaN(minShelfLifeDays) ? 30 : Math.max(0, minShelfLifeDays),
+  };
+}
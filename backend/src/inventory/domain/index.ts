@@ -0,0 +1,23 @@
+export {
+  StockStatus,
+  DEFAULT_LOW_STOCK_THRESHOLD,
+  type StockItem,
+  type SetStockData,
+  createStockItem,
+  availableQuantity,
+  getStockStatus,
+} from './stock-item.entity';
+export {
+  StockReservationStatus,
+  type StockReservation,
+  type StockReservationLine,
+} from './stock-reservation.entity';
+export {
+  type ProductBatch,
+  type ReceiveBatchData,
+  type BatchAllocation,
+  getSaleCutoff,
+  isBatchSellable,
+  blockedQuantity,
+  allocateFefo,
+} from './product-batch.entity';
@@ -0,0 +1,92 @@
+/**
+ * Product Batch
+ *
+ * A manufacturer lot of one product, received into stock. `quantity` is what
+ * remains on hand from this batch; stock item `onHand` includes it.
+ *
+ * A batch is sellable only while its expiry is after the sale cutoff
+ * (now + minimum remaining shelf life). Quantity in expired or soon-to-expire
+ * batches is blocked from sale.
+ *
+ * Products with no batches are untracked: their stock is sold without
+ * batch allocation.
+ */
+export interface ProductBatch {
+  readonly id: string;
+  readonly productId: string;
+  readonly batchNumber: string;
+  readonly manufacturedAt: Date;
+  readonly expiresAt: Date;
+  readonly quantity: number;
+  readonly createdAt: Date;
+  readonly updatedAt: Date;
+}
+
+export interface ReceiveBatchData {
+  batchNumber: string;
+  manufacturedAt: Date;
+  expiresAt: Date;
+  quantity: number;
+}
+
+/**
+ * Quantity of one batch shipped with one order (recall traceability)
+ */
+export interface BatchAllocation {
+  readonly id: string;
+  readonly orderId: string;
+  readonly productId: string;
+  readonly batchId: string;
+  readonly batchNumber: string;
+  readonly expiresAt: Date;
+  readonly quantity: number;
+  readonly createdAt: Date;
+}
+
+/**
+ * Earliest expiry that may still be sold at `now`
+ */
+export function getSaleCutoff(now: Date, minShelfLifeDays: number): Date {
+  return new Date(now.getTime() + minShelfLifeDays * 24 * 60 * 60 * 1000);
+}
+
+export function isBatchSellable(batch: ProductBatch, saleCutoff: Date): boolean {
+  return batch.expiresAt.getTime() > saleCutoff.getTime();
+}
+
+/**
+ * On-hand quantity held in batches that can no longer be sold
+ */
+export function blockedQuantity(batches: ProductBatch[], saleCutoff: Date): number {
+  return batches
+    .filter((batch) => !isBatchSellable(batch, saleCutoff))
+    .reduce((sum, batch) => sum + batch.quantity, 0);
+}
+
+/**
+ * First-expiring-first-out allocation of `quantity` across sellable batches.
+ * Returns the planned lines and any quantity the batches could not cover.
+ */
+export function allocateFefo(
+  batches: ProductBatch[],
+  quantity: number,
+  saleCutoff: Date,
+): { lines: { batch: ProductBatch; quantity: number }[]; shortfall: number } {
+  const candidates = batches
+    .filter((batch) => batch.quantity > 0 && isBatchSellable(batch, saleCutoff))
+    .sort(
+      (a, b) =>
+        a.expiresAt.getTime() - b.expiresAt.getTime() ||
+        a.createdAt.getTime() - b.createdAt.getTime(),
+    );
+
+  const lines: { batch: ProductBatch; quantity: number }[] = [];
+  let remaining = quantity;
+  for (const batch of candidates) {
+    if (remaining === 0) break;
+    const take = Math.min(batch.quantity, remaining);
+    lines.push({ batch, quantity: take });
+    remaining -= take;
+  }
+  return { lines, shortfall: remaining };
+}
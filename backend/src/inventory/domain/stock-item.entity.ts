@@ -0,0 +1,62 @@
+/**
+ * Stock Item
+ *
+ * Per-product inventory. `reserved` is stock held by confirmed orders that
+ * have not shipped yet; only `onHand - reserved` can be sold.
+ *
+ * Products without a stock item are treated as out of stock.
+ */
+export enum StockStatus {
+  IN_STOCK = 'IN_STOCK',
+  LOW_STOCK = 'LOW_STOCK',
+  OUT_OF_STOCK = 'OUT_OF_STOCK',
+}
+
+/** Available quantity at or below which a product is reported as LOW_STOCK */
+export const DEFAULT_LOW_STOCK_THRESHOLD = 10;
+
+export interface StockItem {
+  readonly productId: string;
+  readonly onHand: number;
+  readonly reserved: number;
+  readonly lowStockThreshold: number;
+  readonly updatedAt: Date;
+}
+
+export interface SetStockData {
+  onHand: number;
+  lowStockThreshold?: number;
+}
+
+export function createStockItem(
+  productId: string,
+  data: SetStockData,
+  now: Date = new Date(),
+): StockItem {
+  return {
+    productId,
+    onHand: data.onHand,
+    reserved: 0,
+    lowStockThreshold: data.lowStockThreshold ?? DEFAULT_LOW_STOCK_THRESHOLD,
+    updatedAt: now,
+  };
+}
+
+/**
+ * Quantity that can still be sold.
+ * `blocked` is on-hand quantity in expired or soon-to-expire batches.
+ */
+export function availableQuantity(stock: StockItem | null, blocked = 0): number {
+  if (!stock) return 0;
+  return Math.max(0, stock.onHand - stock.reserved - blocked);
+}
+
+/**
+ * Customer-facing stock indicator
+ */
+export function getStockStatus(stock: StockItem | null, blocked = 0): StockStatus {
+  const available = availableQuantity(stock, blocked);
+  if (available === 0) return StockStatus.OUT_OF_STOCK;
+  if (available <= stock!.lowStockThreshold) return StockStatus.LOW_STOCK;
+  return StockStatus.IN_STOCK;
+}
@@ -0,0 +1,33 @@
+/**
+ * Stock Reservation
+ *
+ * Quantity of one product held for one order.
+ *
+ * Lifecycle:
+ * - RESERVED: created when the order is confirmed
+ * - RELEASED: order cancelled, quantity returned to available stock
+ * - COMMITTED: order shipped, quantity removed from on-hand stock
+ */
+export enum StockReservationStatus {
+  RESERVED = 'RESERVED',
+  RELEASED = 'RELEASED',
+  COMMITTED = 'COMMITTED',
+}
+
+export interface StockReservation {
+  readonly id: string;
+  readonly orderId: string;
+  readonly productId: string;
+  readonly quantity: number;
+  readonly status: StockReservationStatus;
+  readonly createdAt: Date;
+  readonly updatedAt: Date;
+}
+
+/**
+ * One order line to reserve
+ */
+export interface StockReservationLine {
+  productId: string;
+  quantity: number;
+}
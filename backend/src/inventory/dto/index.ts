@@ -0,0 +1,7 @@
+export {
+  ReceiveBatchDto,
+  ProductBatchDto,
+  BatchAllocationDto,
+  toProductBatchDto,
+  toBatchAllocationDto,
+} from './product-batch.dto';
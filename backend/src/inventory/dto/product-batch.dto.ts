@@ -0,0 +1,74 @@
+import { IsDateString, IsInt, IsNotEmpty, IsString, MaxLength, Min } from 'class-validator';
+import { BatchAllocation, ProductBatch } from '../domain';
+
+/**
+ * Request body for POST /admin/inventory/products/:productId/batches
+ */
+export class ReceiveBatchDto {
+  /** Manufacturer batch / lot number as printed on the pack */
+  @IsString()
+  @IsNotEmpty()
+  @MaxLength(64)
+  batchNumber!: string;
+
+  /** ISO 8601 date */
+  @IsDateString()
+  manufacturedAt!: string;
+
+  /** ISO 8601 date */
+  @IsDateString()
+  expiresAt!: string;
+
+  @IsInt()
+  @Min(1)
+  quantity!: number;
+}
+
+/**
+ * Batch with remaining quantity; `sellable` is false once the batch is
+ * within the minimum shelf life of its expiry.
+ */
+export interface ProductBatchDto {
+  id: string;
+  productId: string;
+  batchNumber: string;
+  manufacturedAt: string;
+  expiresAt: string;
+  quantity: number;
+  sellable: boolean;
+}
+
+/**
+ * Quantity of a batch shipped with an order
+ */
+export interface BatchAllocationDto {
+  orderId: string;
+  productId: string;
+  batchNumber: string;
+  expiresAt: string;
+  quantity: number;
+  allocatedAt: string;
+}
+
+export function toProductBatchDto(batch: ProductBatch, sellable: boolean): ProductBatchDto {
+  return {
+    id: batch.id,
+    productId: batch.productId,
+    batchNumber: batch.batchNumber,
+    manufacturedAt: batch.manufacturedAt.toISOString(),
+    expiresAt: batch.expiresAt.toISOString(),
+    quantity: batch.quantity,
+    sellable,
+  };
+}
+
+export function toBatchAllocationDto(allocation: BatchAllocation): BatchAllocationDto {
+  return {
+    orderId: allocation.orderId,
+    productId: allocation.productId,
+    batchNumber: allocation.batchNumber,
+    expiresAt: allocation.expiresAt.toISOString(),
+    quantity: allocation.quantity,
+    allocatedAt: allocation.createdAt.toISOString(),
+  };
+}
@@ -0,0 +1,7 @@
+export {
+  InsufficientStockException,
+  InvalidStockQuantityException,
+  InvalidBatchException,
+  DuplicateBatchException,
+  InsufficientSellableBatchesException,
+} from './inventory.exceptions';
@@ -0,0 +1,52 @@
+import { HttpStatus } from '@nestjs/common';
+import { BusinessException } from '../../common/exceptions/business.exception';
+
+export class InsufficientStockException extends BusinessException {
+  constructor(productId: string, requested: number, available: number) {
+    super(
+      'INSUFFICIENT_STOCK',
+      `Only ${available} unit(s) of product '${productId}' available; ${requested} requested`,
+      HttpStatus.CONFLICT,
+      { productId, requested, available },
+    );
+  }
+}
+
+export class InvalidStockQuantityException extends BusinessException {
+  constructor(productId: string, onHand: number, reserved: number) {
+    super(
+      'INVALID_STOCK_QUANTITY',
+      `On-hand stock for product '${productId}' cannot be ${onHand}; ${reserved} unit(s) are reserved`,
+      HttpStatus.BAD_REQUEST,
+      { productId, onHand, reserved },
+    );
+  }
+}
+
+export class InvalidBatchException extends BusinessException {
+  constructor(message: string, details?: Record<string, unknown>) {
+    super('INVALID_BATCH', message, HttpStatus.BAD_REQUEST, details);
+  }
+}
+
+export class DuplicateBatchException extends BusinessException {
+  constructor(productId: string, batchNumber: string) {
+    super(
+      'DUPLICATE_BATCH',
+      `Batch '${batchNumber}' has already been received for product '${productId}'`,
+      HttpStatus.CONFLICT,
+      { productId, batchNumber },
+    );
+  }
+}
+
+export class InsufficientSellableBatchesException extends BusinessException {
+  constructor(productId: string, requested: number, allocatable: number) {
+    super(
+      'INSUFFICIENT_SELLABLE_BATCHES',
+      `Only ${allocatable} unit(s) of product '${productId}' are in unexpired batches; ${requested} required`,
+      HttpStatus.CONFLICT,
+      { productId, requested, allocatable },
+    );
+  }
+}
@@ -0,0 +1,34 @@
+/**
+ * Inventory Module Public API
+ *
+ * Export only what other modules need.
+ */
+
+// Module
+export { InventoryModule } from './inventory.module';
+
+// Service (stock checks and order reservations)
+export { InventoryService } from './inventory.service';
+
+// Domain exports (for type safety)
+export {
+  StockStatus,
+  StockItem,
+  StockReservation,
+  StockReservationStatus,
+  StockReservationLine,
+  ProductBatch,
+  BatchAllocation,
+} from './domain';
+
+// DTOs
+export { ProductBatchDto, BatchAllocationDto } from './dto';
+
+// Exceptions
+export {
+  InsufficientStockException,
+  InvalidStockQuantityException,
+  InvalidBatchException,
+  DuplicateBatchException,
+  InsufficientSellableBatchesException,
+} from './exceptions';
@@ -0,0 +1,97 @@
+import { Body, Controller, Get, Headers, Param, Post, UseGuards } from '@nestjs/common';
+import { ApiResponse } from '../common/api/api-response';
+import { JwtAuthGuard } from '../auth/guards/jwt-auth.guard';
+import { RolesGuard } from '../auth/guards/roles.guard';
+import { Roles } from '../auth/decorators/roles.decorator';
+import { UserRole } from '../auth/interfaces/auth-user.interface';
+import { CatalogQueryService } from '../catalog/catalog-query.service';
+import { ProductNotFoundException } from '../catalog/exceptions';
+import { InventoryService } from './inventory.service';
+import { BatchAllocationDto, ProductBatchDto, ReceiveBatchDto } from './dto';
+
+/**
+ * Inventory Admin Controller
+ *
+ * Batch receiving and recall tracing for pharmacy staff.
+ *
+ * POST /api/v1/admin/inventory/products/:productId/batches
+ * GET  /api/v1/admin/inventory/products/:productId/batches
+ * GET  /api/v1/admin/inventory/orders/:orderId/batches
+ * GET  /api/v1/admin/inventory/batches/:batchNumber/allocations
+ */
+@Controller('admin/inventory')
+@UseGuards(JwtAuthGuard, RolesGuard)
+@Roles(UserRole.ADMIN, UserRole.PHARMACIST)
+export class InventoryAdminController {
+  constructor(
+    private readonly inventoryService: InventoryService,
+    private readonly catalogQueryService: CatalogQueryService,
+  ) {}
+
+  /**
+   * Receive a batch into stock
+   * POST /api/v1/admin/inventory/products/:productId/batches
+   */
+  @Post('products/:productId/batches')
+  async receiveBatch(
+    @Param('productId') productId: string,
+    @Body() dto: ReceiveBatchDto,
+    @Headers('x-correlation-id') correlationId: string,
+  ): Promise<ApiResponse<ProductBatchDto>> {
+    await this.assertProductExists(productId);
+    const batch = await this.inventoryService.receiveBatch(
+      productId,
+      {
+        batchNumber: dto.batchNumber,
+        manufacturedAt: new Date(dto.manufacturedAt),
+        expiresAt: new Date(dto.expiresAt),
+        quantity: dto.quantity,
+      },
+      correlationId,
+    );
+    return ApiResponse.success(batch, 'Batch received successfully');
+  }
+
+  /**
+   * List a product's batches, earliest expiry first
+   * GET /api/v1/admin/inventory/products/:productId/batches
+   */
+  @Get('products/:productId/batches')
+  async listBatches(
+    @Param('productId') productId: string,
+  ): Promise<ApiResponse<ProductBatchDto[]>> {
+    await this.assertProductExists(productId);
+    const batches = await this.inventoryService.listBatches(productId);
+    return ApiResponse.success(batches, 'Batches retrieved successfully');
+  }
+
+  /**
+   * Batches shipped with an order
+   * GET /api/v1/admin/inventory/orders/:orderId/batches
+   */
+  @Get('orders/:orderId/batches')
+  async getOrderBatches(
+    @Param('orderId') orderId: string,
+  ): Promise<ApiResponse<BatchAllocationDto[]>> {
+    const allocations = await this.inventoryService.getOrderBatchAllocations(orderId);
+    return ApiResponse.success(allocations, 'Order batches retrieved successfully');
+  }
+
+  /**
+   * Every shipment that drew from a batch number (recall tracing)
+   * GET /api/v1/admin/inventory/batches/:batchNumber/allocations
+   */
+  @Get('batches/:batchNumber/allocations')
+  async traceBatch(
+    @Param('batchNumber') batchNumber: string,
+  ): Promise<ApiResponse<BatchAllocationDto[]>> {
+    const allocations = await this.inventoryService.traceBatch(batchNumber);
+    return ApiResponse.success(allocations, 'Batch allocations retrieved successfully');
+  }
+
+  private async assertProductExists(productId: string): Promise<void> {
+    if (!(await this.catalogQueryService.productExists(productId))) {
+      throw new ProductNotFoundException(productId);
+    }
+  }
+}
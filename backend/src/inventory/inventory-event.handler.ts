@@ -0,0 +1,32 @@
+import { Injectable, OnModuleInit } from '@nestjs/common';
+import { EventBus } from '../events/event-bus';
+import { DomainEventHandler } from '../events/domain-event-handler.interface';
+import { DomainEvent } from '../events/domain';
+import type { OrderCancelledEvent } from '../order/domain';
+import { InventoryService } from './inventory.service';
+
+/**
+ * Inventory Event Handler
+ *
+ * Returns an order's reserved stock to available when the order is
+ * cancelled. Releasing is idempotent, so redelivery is harmless.
+ */
+@Injectable()
+export class InventoryEventHandler implements DomainEventHandler, OnModuleInit {
+  readonly name = 'inventory';
+  readonly eventTypes = ['ORDER_CANCELLED'];
+
+  constructor(
+    private readonly eventBus: EventBus,
+    private readonly inventoryService: InventoryService,
+  ) {}
+
+  onModuleInit(): void {
+    this.eventBus.subscribe(this);
+  }
+
+  async handle(event: DomainEvent): Promise<void> {
+    const { orderId, correlationId } = event as OrderCancelledEvent;
+    await this.inventoryService.releaseForOrder(orderId, correlationId);
+  }
+}
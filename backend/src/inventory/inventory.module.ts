@@ -0,0 +1,38 @@
+import { Module, forwardRef } from '@nestjs/common';
+import { InventoryService } from './inventory.service';
+import { InventoryAdminController } from './inventory-admin.controller';
+import { InventoryEventHandler } from './inventory-event.handler';
+import { STOCK_REPOSITORY } from './repositories/stock-repository.interface';
+import { StockRepositoryProvider } from '../database/repository.providers';
+import { AuthModule } from '../auth/auth.module';
+import { CatalogModule } from '../catalog/catalog.module';
+
+/**
+ * Inventory Module
+ *
+ * Per-product stock levels, order stock reservations, and medicine batches
+ * with expiry (FEFO allocation on shipping, recall tracing).
+ *
+ * Used by:
+ * - CatalogModule: in-stock / low-stock indicators
+ * - OrderModule: availability checks, reserve on confirm, commit on ship
+ *
+ * Events: InventoryEventHandler releases reserved stock on ORDER_CANCELLED.
+ *
+ * Admin APIs: receive/list batches, order batches, batch recall trace
+ * (InventoryAdminController, ADMIN and PHARMACIST).
+ *
+ * Repository Selection:
+ * - 'memory': InMemoryStockRepository (seeded for the sample products)
+ * - 'prisma': PrismaStockRepository
+ */
+@Module({
+  imports: [
+    AuthModule, // For JwtAuthGuard
+    forwardRef(() => CatalogModule), // Product existence for batch receiving
+  ],
+  controllers: [InventoryAdminController],
+  providers: [InventoryService, InventoryEventHandler, StockRepositoryProvider],
+  exports: [InventoryService, STOCK_REPOSITORY],
+})
+export class InventoryModule {}
@@ -0,0 +1,285 @@
+import { InventoryService } from './inventory.service';
+import { InMemoryStockRepository } from './repositories/in-memory-stock.repository';
+import { StockReservationStatus, StockStatus } from './domain';
+import {
+  DuplicateBatchException,
+  InsufficientSellableBatchesException,
+  InsufficientStockException,
+  InvalidBatchException,
+  InvalidStockQuantityException,
+} from './exceptions';
+
+/**
+ * InventoryService tests
+ *
+ * Verifies:
+ * - Stock indicators (in stock / low stock / out of stock)
+ * - Reservations are all-or-nothing and idempotent per order
+ * - Release returns stock to available; commit deducts it from on-hand
+ * - On-hand stock cannot be set below the reserved quantity
+ * - Batches: receiving, expiry blocking, FEFO allocation on commit, recall tracing
+ */
+describe('InventoryService', () => {
+  let service: InventoryService;
+  let repository: InMemoryStockRepository;
+
+  const day = 24 * 60 * 60 * 1000;
+  const daysFromNow = (days: number) => new Date(Date.now() + days * day);
+
+  function batch(batchNumber: string, quantity: number, expiresInDays: number) {
+    return {
+      batchNumber,
+      manufacturedAt: daysFromNow(-200),
+      expiresAt: daysFromNow(expiresInDays),
+      quantity,
+    };
+  }
+
+  /** Received directly so tests can set up batches that are already past the cutoff */
+  async function seedBatch(productId: string, batchNumber: string, qty: number, days: number) {
+    await repository.receiveBatch(productId, batch(batchNumber, qty, days));
+  }
+
+  beforeEach(() => {
+    repository = new InMemoryStockRepository();
+    service = new InventoryService(repository);
+  });
+
+  afterEach(() => {
+    delete process.env.INVENTORY_MIN_SHELF_LIFE_DAYS;
+    repository.clear();
+  });
+
+  describe('stock status', () => {
+    it('reports IN_STOCK, LOW_STOCK and OUT_OF_STOCK from available quantity', async () => {
+      await repository.setStock('prod-001', { onHand: 11 });
+      await repository.setStock('prod-002', { onHand: 10 });
+      await repository.setStock('prod-003', { onHand: 0 });
+
+      const statuses = await service.getStockStatuses(['prod-001', 'prod-002', 'prod-003']);
+
+      expect(statuses.get('prod-001')).toBe(StockStatus.IN_STOCK);
+      expect(statuses.get('prod-002')).toBe(StockStatus.LOW_STOCK);
+      expect(statuses.get('prod-003')).toBe(StockStatus.OUT_OF_STOCK);
+    });
+
+    it('treats unknown products as out of stock', async () => {
+      expect(await service.getStockStatus('unknown')).toBe(StockStatus.OUT_OF_STOCK);
+      await expect(service.assertAvailable('unknown', 1)).rejects.toThrow(
+        InsufficientStockException,
+      );
+    });
+
+    it('excludes reserved stock from availability', async () => {
+      await repository.setStock('prod-001', { onHand: 5 });
+      await service.reserveForOrder('order-1', [{ productId: 'prod-001', quantity: 5 }]);
+
+      expect(await service.getStockStatus('prod-001')).toBe(StockStatus.OUT_OF_STOCK);
+      await expect(service.assertAvailable('prod-001', 1)).rejects.toThrow(
+        InsufficientStockException,
+      );
+    });
+  });
+
+  describe('reserveForOrder', () => {
+    it('merges duplicate lines for the same product', async () => {
+      const reservations = await service.reserveForOrder('order-1', [
+        { productId: 'prod-001', quantity: 2 },
+        { productId: 'prod-001', quantity: 3 },
+      ]);
+
+      expect(reservations).toHaveLength(1);
+      expect(reservations[0].quantity).toBe(5);
+      expect((await repository.findByProductId('prod-001'))!.reserved).toBe(5);
+    });
+
+    it('reserves nothing when any line is short', async () => {
+      await expect(
+        service.reserveForOrder('order-1', [
+          { productId: 'prod-001', quantity: 2 },
+          { productId: 'prod-008', quantity: 5 },
+        ]),
+      ).rejects.toThrow(InsufficientStockException);
+
+      expect((await repository.findByProductId('prod-001'))!.reserved).toBe(0);
+      expect(await repository.findReservationsByOrderId('order-1')).toEqual([]);
+    });
+
+    it('is idempotent for an order that already holds a reservation', async () => {
+      const lines = [{ productId: 'prod-001', quantity: 2 }];
+      await service.reserveForOrder('order-1', lines);
+      await service.reserveForOrder('order-1', lines);
+
+      expect((await repository.findByProductId('prod-001'))!.reserved).toBe(2);
+    });
+  });
+
+  describe('releaseForOrder / commitForOrder', () => {
+    beforeEach(async () => {
+      await service.reserveForOrder('order-1', [{ productId: 'prod-001', quantity: 4 }]);
+    });
+
+    it('returns released stock to available', async () => {
+      const released = await service.releaseForOrder('order-1');
+
+      expect(released[0].status).toBe(StockReservationStatus.RELEASED);
+      const stock = await repository.findByProductId('prod-001');
+      expect(stock).toMatchObject({ onHand: 100, reserved: 0 });
+    });
+
+    it('deducts committed stock from on-hand', async () => {
+      const committed = await service.commitForOrder('order-1');
+
+      expect(committed[0].status).toBe(StockReservationStatus.COMMITTED);
+      const stock = await repository.findByProductId('prod-001');
+      expect(stock).toMatchObject({ onHand: 96, reserved: 0 });
+    });
+
+    it('settles a reservation only once', async () => {
+      await service.commitForOrder('order-1');
+
+      expect(await service.releaseForOrder('order-1')).toEqual([]);
+      expect(await service.commitForOrder('order-1')).toEqual([]);
+      expect((await repository.findByProductId('prod-001'))!.onHand).toBe(96);
+    });
+  });
+
+  describe('setStock', () => {
+    it('updates on-hand stock and threshold', async () => {
+      const item = await service.setStock('prod-001', 40, 5);
+
+      expect(item).toMatchObject({ onHand: 40, lowStockThreshold: 5 });
+    });
+
+    it('rejects on-hand stock below the reserved quantity', async () => {
+      await service.reserveForOrder('order-1', [{ productId: 'prod-001', quantity: 30 }]);
+
+      await expect(service.setStock('prod-001', 20)).rejects.toThrow(InvalidStockQuantityException);
+    });
+  });
+
+  describe('batches', () => {
+    beforeEach(async () => {
+      await repository.setStock('prod-005', { onHand: 0 });
+    });
+
+    it('adds a received batch to on-hand stock', async () => {
+      const received = await service.receiveBatch('prod-005', batch('B-100', 50, 365));
+
+      expect(received).toMatchObject({ batchNumber: 'B-100', quantity: 50, sellable: true });
+      expect((await repository.findByProductId('prod-005'))!.onHand).toBe(50);
+    });
+
+    it('rejects invalid, expired and duplicate batches', async () => {
+      await expect(service.receiveBatch('prod-005', batch('B-1', 0, 365))).rejects.toThrow(
+        InvalidBatchException,
+      );
+      await expect(service.receiveBatch('prod-005', batch('B-1', 10, -1))).rejects.toThrow(
+        InvalidBatchException,
+      );
+      await expect(
+        service.receiveBatch('prod-005', {
+          ...batch('B-1', 10, 365),
+          manufacturedAt: daysFromNow(400),
+        }),
+      ).rejects.toThrow(InvalidBatchException);
+
+      await service.receiveBatch('prod-005', batch('B-1', 10, 365));
+      await expect(service.receiveBatch('prod-005', batch('B-1', 5, 365))).rejects.toThrow(
+        DuplicateBatchException,
+      );
+    });
+
+    it('blocks quantity in batches within the minimum shelf life from sale', async () => {
+      await seedBatch('prod-005', 'B-SOON', 30, 10);
+      await seedBatch('prod-005', 'B-LATER', 5, 200);
+
+      await expect(service.assertAvailable('prod-005', 6)).rejects.toThrow(
+        InsufficientStockException,
+      );
+      await expect(service.assertAvailable('prod-005', 5)).resolves.toBeUndefined();
+      expect(await service.getStockStatus('prod-005')).toBe(StockStatus.LOW_STOCK);
+
+      const batches = await service.listBatches('prod-005');
+      expect(batches.map((b) => [b.batchNumber, b.sellable])).toEqual([
+        ['B-SOON', false],
+        ['B-LATER', true],
+      ]);
+    });
+
+    it('honours INVENTORY_MIN_SHELF_LIFE_DAYS', async () => {
+      process.env.INVENTORY_MIN_SHELF_LIFE_DAYS = '5';
+      await seedBatch('prod-005', 'B-SOON', 30, 10);
+
+      expect(await service.getStockStatus('prod-005')).toBe(StockStatus.IN_STOCK);
+    });
+
+    it('does not reserve blocked quantity', async () => {
+      await seedBatch('prod-005', 'B-SOON', 30, 10);
+
+      await expect(
+        service.reserveForOrder('order-1', [{ productId: 'prod-005', quantity: 1 }]),
+      ).rejects.toThrow(InsufficientStockException);
+    });
+
+    it('allocates first-expiring-first-out on commit and records batch numbers', async () => {
+      await seedBatch('prod-005', 'B-LATE', 20, 300);
+      await seedBatch('prod-005', 'B-EARLY', 3, 60);
+      await seedBatch('prod-005', 'B-MID', 20, 120);
+      await service.reserveForOrder('order-1', [{ productId: 'prod-005', quantity: 8 }]);
+
+      await service.commitForOrder('order-1');
+
+      const allocations = await service.getOrderBatchAllocations('order-1');
+      expect(allocations.map((a) => [a.batchNumber, a.quantity])).toEqual([
+        ['B-EARLY', 3],
+        ['B-MID', 5],
+      ]);
+      const remaining = await service.listBatches('prod-005');
+      expect(remaining.map((b) => [b.batchNumber, b.quantity])).toEqual([
+        ['B-EARLY', 0],
+        ['B-MID', 15],
+        ['B-LATE', 20],
+      ]);
+      expect((await repository.findByProductId('prod-005'))!.onHand).toBe(35);
+    });
+
+    it('refuses to commit when a reserved batch expired before shipping', async () => {
+      await seedBatch('prod-005', 'B-1', 10, 60);
+      await service.reserveForOrder('order-1', [{ productId: 'prod-005', quantity: 4 }]);
+      process.env.INVENTORY_MIN_SHELF_LIFE_DAYS = '90';
+
+      await expect(service.commitForOrder('order-1')).rejects.toThrow(
+        InsufficientSellableBatchesException,
+      );
+
+      const [reservation] = await repository.findReservationsByOrderId('order-1');
+      expect(reservation.status).toBe(StockReservationStatus.RESERVED);
+      expect(await service.getOrderBatchAllocations('order-1')).toEqual([]);
+    });
+
+    it('ships untracked products without batch allocation', async () => {
+      await service.reserveForOrder('order-1', [{ productId: 'prod-001', quantity: 2 }]);
+
+      await service.commitForOrder('order-1');
+
+      expect(await service.getOrderBatchAllocations('order-1')).toEqual([]);
+      expect((await repository.findByProductId('prod-001'))!.onHand).toBe(98);
+    });
+
+    it('traces every order that shipped a batch number', async () => {
+      await seedBatch('prod-005', 'B-RECALL', 10, 200);
+      await service.reserveForOrder('order-1', [{ productId: 'prod-005', quantity: 2 }]);
+      await service.reserveForOrder('order-2', [{ productId: 'prod-005', quantity: 3 }]);
+      await service.commitForOrder('order-1');
+      await service.commitForOrder('order-2');
+
+      const trace = await service.traceBatch('B-RECALL');
+
+      expect(trace.map((a) => [a.orderId, a.quantity])).toEqual([
+        ['order-1', 2],
+        ['order-2', 3],
+      ]);
+    });
+  });
+});
@@ -0,0 +1,288 @@
+import { Inject, Injectable } from '@nestjs/common';
+import { STOCK_REPOSITORY, IStockRepository } from './repositories';
+import {
+  StockItem,
+  StockReservation,
+  StockReservationLine,
+  StockStatus,
+  ProductBatch,
+  ReceiveBatchData,
+  availableQuantity,
+  getStockStatus,
+  getSaleCutoff,
+  isBatchSellable,
+  blockedQuantity,
+} from './domain';
+import {
+  InsufficientStockException,
+  InvalidStockQuantityException,
+  InvalidBatchException,
+  DuplicateBatchException,
+} from './exceptions';
+import {
+  BatchAllocationDto,
+  ProductBatchDto,
+  toBatchAllocationDto,
+  toProductBatchDto,
+} from './dto';
+import { getInventoryConfig } from './config/inventory.config';
+import { logWithCorrelation } from '../common/logging/logger';
+
+/**
+ * Inventory Service
+ *
+ * Owns per-product stock and order reservations.
+ *
+ * Stock flow for an order:
+ * - Cart add / quantity update: checked against available stock (no hold)
+ * - Confirmation: all lines reserved atomically
+ * - Cancellation: reservation released back to available stock
+ * - Shipping: reservation committed (deducted from on-hand), batches
+ *   allocated first-expiring-first-out and recorded for recalls
+ *
+ * Quantity in batches expiring within the minimum shelf life
+ * (INVENTORY_MIN_SHELF_LIFE_DAYS) is blocked from sale and fulfilment.
+ *
+ * Other modules depend on this service; it does not depend on catalog or orders.
+ */
+@Injectable()
+export class InventoryService {
+  constructor(
+    @Inject(STOCK_REPOSITORY)
+    private readonly stockRepository: IStockRepository,
+  ) {}
+
+  // ============================================================
+  // QUERIES
+  // ============================================================
+
+  /**
+   * Stock indicator for a single product
+   */
+  async getStockStatus(productId: string): Promise<StockStatus> {
+    const [stock, batches] = await Promise.all([
+      this.stockRepository.findByProductId(productId),
+      this.stockRepository.findBatchesByProductIds([productId]),
+    ]);
+    return getStockStatus(stock, blockedQuantity(batches, this.saleCutoff()));
+  }
+
+  /**
+   * Stock indicators for a batch of products (catalog listings)
+   */
+  async getStockStatuses(productIds: string[]): Promise<Map<string, StockStatus>> {
+    const [items, batches] = await Promise.all([
+      this.stockRepository.findByProductIds(productIds),
+      this.stockRepository.findBatchesByProductIds(productIds),
+    ]);
+    const byProduct = new Map(items.map((item) => [item.productId, item]));
+    const saleCutoff = this.saleCutoff();
+    return new Map(
+      productIds.map((productId) => [
+        productId,
+        getStockStatus(
+          byProduct.get(productId) ?? null,
+          blockedQuantity(
+            batches.filter((batch) => batch.productId === productId),
+            saleCutoff,
+          ),
+        ),
+      ]),
+    );
+  }
+
+  /**
+   * Ensure a quantity of a product can currently be sold
+   * @throws InsufficientStockException
+   */
+  async assertAvailable(productId: string, quantity: number): Promise<void> {
+    const [stock, batches] = await Promise.all([
+      this.stockRepository.findByProductId(productId),
+      this.stockRepository.findBatchesByProductIds([productId]),
+    ]);
+    const available = availableQuantity(stock, blockedQuantity(batches, this.saleCutoff()));
+    if (available < quantity) {
+      throw new InsufficientStockException(productId, quantity, available);
+    }
+  }
+
+  /**
+   * Batches of a product, earliest expiry first
+   */
+  async listBatches(productId: string): Promise<ProductBatchDto[]> {
+    const batches = await this.stockRepository.findBatchesByProductIds([productId]);
+    const saleCutoff = this.saleCutoff();
+    return batches.map((batch) => this.toBatchDto(batch, saleCutoff));
+  }
+
+  /**
+   * Batches shipped with an order
+   */
+  async getOrderBatchAllocations(orderId: string): Promise<BatchAllocationDto[]> {
+    const allocations = await this.stockRepository.findAllocationsByOrderId(orderId);
+    return allocations.map(toBatchAllocationDto);
+  }
+
+  /**
+   * Every shipment that drew from a batch number (recall tracing)
+   */
+  async traceBatch(batchNumber: string): Promise<BatchAllocationDto[]> {
+    const allocations = await this.stockRepository.findAllocationsByBatchNumber(batchNumber);
+    return allocations.map(toBatchAllocationDto);
+  }
+
+  // ============================================================
+  // COMMANDS
+  // ============================================================
+
+  /**
+   * Set on-hand stock for a product (restock / stock count)
+   * @throws InvalidStockQuantityException if below the reserved quantity
+   */
+  async setStock(
+    productId: string,
+    onHand: number,
+    lowStockThreshold?: number,
+  ): Promise<StockItem> {
+    const existing = await this.stockRepository.findByProductId(productId);
+    const reserved = existing?.reserved ?? 0;
+    if (!Number.isInteger(onHand) || onHand < reserved) {
+      throw new InvalidStockQuantityException(productId, onHand, reserved);
+    }
+    return this.stockRepository.setStock(productId, { onHand, lowStockThreshold });
+  }
+
+  /**
+   * Receive a batch into stock; its quantity is added to on-hand.
+   * @throws InvalidBatchException for invalid dates or quantity, or an already-expired batch
+   * @throws DuplicateBatchException if the batch number was already received for the product
+   */
+  async receiveBatch(
+    productId: string,
+    data: ReceiveBatchData,
+    correlationId?: string,
+  ): Promise<ProductBatchDto> {
+    const batchNumber = data.batchNumber.trim();
+    if (!batchNumber) {
+      throw new InvalidBatchException('Batch number is required');
+    }
+    if (!Number.isInteger(data.quantity) || data.quantity <= 0) {
+      throw new InvalidBatchException('Batch quantity must be a positive integer', {
+        quantity: data.quantity,
+      });
+    }
+    if (data.expiresAt.getTime() <= data.manufacturedAt.getTime()) {
+      throw new InvalidBatchException('Batch expiry must be after its manufacture date', {
+        manufacturedAt: data.manufacturedAt.toISOString(),
+        expiresAt: data.expiresAt.toISOString(),
+      });
+    }
+    const now = new Date();
+    if (data.manufacturedAt.getTime() > now.getTime()) {
+      throw new InvalidBatchException('Batch manufacture date cannot be in the future');
+    }
+    if (data.expiresAt.getTime() <= now.getTime()) {
+      throw new InvalidBatchException('Batch has already expired', {
+        expiresAt: data.expiresAt.toISOString(),
+      });
+    }
+    if (await this.stockRepository.findBatch(productId, batchNumber)) {
+      throw new DuplicateBatchException(productId, batchNumber);
+    }
+
+    const batch = await this.stockRepository.receiveBatch(productId, { ...data, batchNumber });
+
+    if (correlationId) {
+      logWithCorrelation('INFO', correlationId, 'Batch received', 'InventoryService', {
+        productId,
+        batchNumber,
+        quantity: batch.quantity,
+        expiresAt: batch.expiresAt.toISOString(),
+      });
+    }
+
+    return this.toBatchDto(batch, this.saleCutoff(now));
+  }
+
+  /**
+   * Reserve stock for every line of a confirmed order (all-or-nothing).
+   * Idempotent: an order that already holds a reservation keeps it.
+   * @throws InsufficientStockException
+   */
+  async reserveForOrder(
+    orderId: string,
+    lines: StockReservationLine[],
+    correlationId?: string,
+  ): Promise<StockReservation[]> {
+    const reservations = await this.stockRepository.reserve(
+      orderId,
+      this.mergeLines(lines),
+      this.saleCutoff(),
+    );
+
+    if (correlationId) {
+      logWithCorrelation('INFO', correlationId, 'Stock reserved for order', 'InventoryService', {
+        orderId,
+        lines: reservations.map((r) => ({ productId: r.productId, quantity: r.quantity })),
+      });
+    }
+
+    return reservations;
+  }
+
+  /**
+   * Release an order's reservation (cancellation). No-op if nothing is reserved.
+   */
+  async releaseForOrder(orderId: string, correlationId?: string): Promise<StockReservation[]> {
+    const released = await this.stockRepository.release(orderId);
+
+    if (correlationId && released.length > 0) {
+      logWithCorrelation('INFO', correlationId, 'Stock released for order', 'InventoryService', {
+        orderId,
+        lineCount: released.length,
+      });
+    }
+
+    return released;
+  }
+
+  /**
+   * Deduct an order's reservation from on-hand stock (shipping), allocating
+   * batch-tracked products first-expiring-first-out.
+   * No-op if nothing is reserved.
+   * @throws InsufficientSellableBatchesException if unexpired batches cannot cover a line
+   */
+  async commitForOrder(orderId: string, correlationId?: string): Promise<StockReservation[]> {
+    const committed = await this.stockRepository.commit(orderId, this.saleCutoff());
+
+    if (correlationId && committed.length > 0) {
+      const allocations = await this.stockRepository.findAllocationsByOrderId(orderId);
+      logWithCorrelation('INFO', correlationId, 'Stock committed for order', 'InventoryService', {
+        orderId,
+        lineCount: committed.length,
+        batches: allocations.map((a) => ({ batchNumber: a.batchNumber, quantity: a.quantity })),
+      });
+    }
+
+    return committed;
+  }
+
+  private saleCutoff(now: Date = new Date()): Date {
+    return getSaleCutoff(now, getInventoryConfig().minShelfLifeDays);
+  }
+
+  private toBatchDto(batch: ProductBatch, saleCutoff: Date): ProductBatchDto {
+    return toProductBatchDto(batch, isBatchSellable(batch, saleCutoff));
+  }
+
+  /**
+   * Combine lines for the same product so each product is reserved once
+   */
+  private mergeLines(lines: StockReservationLine[]): StockReservationLine[] {
+    const merged = new Map<string, number>();
+    for (const line of lines) {
+      merged.set(line.productId, (merged.get(line.productId) ?? 0) + line.quantity);
+    }
+    return Array.from(merged, ([productId, quantity]) => ({ productId, quantity }));
+  }
+}
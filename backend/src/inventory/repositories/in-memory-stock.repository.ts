@@ -0,0 +1,258 @@
+import { Injectable } from '@nestjs/common';
+import { randomUUID } from 'crypto';
+import {
+  StockItem,
+  SetStockData,
+  StockReservation,
+  StockReservationLine,
+  StockReservationStatus,
+  ProductBatch,
+  ReceiveBatchData,
+  BatchAllocation,
+  createStockItem,
+  availableQuantity,
+  blockedQuantity,
+  allocateFefo,
+} from '../domain';
+import { InsufficientStockException, InsufficientSellableBatchesException } from '../exceptions';
+import { IStockRepository } from './stock-repository.interface';
+
+/**
+ * In-Memory Stock Repository
+ *
+ * Pre-populated with (untracked, batch-less) stock for the sample products of
+ * InMemoryProductRepository.
+ * Operations run synchronously between awaits, so reserve/release/commit are atomic.
+ */
+@Injectable()
+export class InMemoryStockRepository implements IStockRepository {
+  private readonly stock: Map<string, StockItem> = new Map();
+  private readonly reservations: Map<string, StockReservation> = new Map();
+  private readonly batches: Map<string, ProductBatch> = new Map();
+  private readonly allocations: Map<string, BatchAllocation> = new Map();
+
+  constructor() {
+    this.seedSampleStock();
+  }
+
+  async findByProductId(productId: string): Promise<StockItem | null> {
+    return this.stock.get(productId) ?? null;
+  }
+
+  async findByProductIds(productIds: string[]): Promise<StockItem[]> {
+    return productIds
+      .map((productId) => this.stock.get(productId))
+      .filter((item): item is StockItem => item !== undefined);
+  }
+
+  async setStock(productId: string, data: SetStockData): Promise<StockItem> {
+    const existing = this.stock.get(productId);
+    const item: StockItem = existing
+      ? {
+          ...existing,
+          onHand: data.onHand,
+          lowStockThreshold: data.lowStockThreshold ?? existing.lowStockThreshold,
+          updatedAt: new Date(),
+        }
+      : createStockItem(productId, data);
+    this.stock.set(productId, item);
+    return item;
+  }
+
+  async reserve(
+    orderId: string,
+    lines: StockReservationLine[],
+    saleCutoff: Date,
+  ): Promise<StockReservation[]> {
+    const existing = this.findByOrder(orderId, StockReservationStatus.RESERVED);
+    if (existing.length > 0) {
+      return existing;
+    }
+
+    // Check every line before touching anything (all-or-nothing)
+    for (const line of lines) {
+      const available = availableQuantity(
+        this.stock.get(line.productId) ?? null,
+        blockedQuantity(this.findBatches(line.productId), saleCutoff),
+      );
+      if (available < line.quantity) {
+        throw new InsufficientStockException(line.productId, line.quantity, available);
+      }
+    }
+
+    const now = new Date();
+    return lines.map((line) => {
+      const item = this.stock.get(line.productId)!;
+      this.stock.set(line.productId, {
+        ...item,
+        reserved: item.reserved + line.quantity,
+        updatedAt: now,
+      });
+
+      const reservation: StockReservation = {
+        id: randomUUID(),
+        orderId,
+        productId: line.productId,
+        quantity: line.quantity,
+        status: StockReservationStatus.RESERVED,
+        createdAt: now,
+        updatedAt: now,
+      };
+      this.reservations.set(reservation.id, reservation);
+      return reservation;
+    });
+  }
+
+  async release(orderId: string): Promise<StockReservation[]> {
+    return this.settle(orderId, StockReservationStatus.RELEASED, (item, quantity) => ({
+      ...item,
+      reserved: item.reserved - quantity,
+    }));
+  }
+
+  async commit(orderId: string, saleCutoff: Date): Promise<StockReservation[]> {
+    // Plan every batch allocation before touching anything (all-or-nothing)
+    const plans = this.findByOrder(orderId, StockReservationStatus.RESERVED).map((reservation) => {
+      const batches = this.findBatches(reservation.productId);
+      if (batches.length === 0) return { reservation, lines: [] };
+
+      const { lines, shortfall } = allocateFefo(batches, reservation.quantity, saleCutoff);
+      if (shortfall > 0) {
+        throw new InsufficientSellableBatchesException(
+          reservation.productId,
+          reservation.quantity,
+          reservation.quantity - shortfall,
+        );
+      }
+      return { reservation, lines };
+    });
+
+    const now = new Date();
+    for (const { reservation, lines } of plans) {
+      for (const line of lines) {
+        this.batches.set(line.batch.id, {
+          ...line.batch,
+          quantity: line.batch.quantity - line.quantity,
+          updatedAt: now,
+        });
+        const allocation: BatchAllocation = {
+          id: randomUUID(),
+          orderId,
+          productId: reservation.productId,
+          batchId: line.batch.id,
+          batchNumber: line.batch.batchNumber,
+          expiresAt: line.batch.expiresAt,
+          quantity: line.quantity,
+          createdAt: now,
+        };
+        this.allocations.set(allocation.id, allocation);
+      }
+    }
+
+    return this.settle(orderId, StockReservationStatus.COMMITTED, (item, quantity) => ({
+      ...item,
+      onHand: item.onHand - quantity,
+      reserved: item.reserved - quantity,
+    }));
+  }
+
+  async findReservationsByOrderId(orderId: string): Promise<StockReservation[]> {
+    return this.findByOrder(orderId);
+  }
+
+  async receiveBatch(productId: string, data: ReceiveBatchData): Promise<ProductBatch> {
+    const now = new Date();
+    const batch: ProductBatch = {
+      id: randomUUID(),
+      productId,
+      batchNumber: data.batchNumber,
+      manufacturedAt: data.manufacturedAt,
+      expiresAt: data.expiresAt,
+      quantity: data.quantity,
+      createdAt: now,
+      updatedAt: now,
+    };
+    this.batches.set(batch.id, batch);
+
+    const item = this.stock.get(productId) ?? createStockItem(productId, { onHand: 0 }, now);
+    this.stock.set(productId, { ...item, onHand: item.onHand + data.quantity, updatedAt: now });
+
+    return batch;
+  }
+
+  async findBatch(productId: string, batchNumber: string): Promise<ProductBatch | null> {
+    return this.findBatches(productId).find((batch) => batch.batchNumber === batchNumber) ?? null;
+  }
+
+  async findBatchesByProductIds(productIds: string[]): Promise<ProductBatch[]> {
+    return productIds
+      .flatMap((productId) => this.findBatches(productId))
+      .sort((a, b) => a.expiresAt.getTime() - b.expiresAt.getTime());
+  }
+
+  async findAllocationsByOrderId(orderId: string): Promise<BatchAllocation[]> {
+    return Array.from(this.allocations.values()).filter(
+      (allocation) => allocation.orderId === orderId,
+    );
+  }
+
+  async findAllocationsByBatchNumber(batchNumber: string): Promise<BatchAllocation[]> {
+    return Array.from(this.allocations.values()).filter(
+      (allocation) => allocation.batchNumber === batchNumber,
+    );
+  }
+
+  clear(): void {
+    this.stock.clear();
+    this.reservations.clear();
+    this.batches.clear();
+    this.allocations.clear();
+  }
+
+  private settle(
+    orderId: string,
+    status: StockReservationStatus,
+    apply: (item: StockItem, quantity: number) => StockItem,
+  ): StockReservation[] {
+    const now = new Date();
+    return this.findByOrder(orderId, StockReservationStatus.RESERVED).map((reservation) => {
+      const item = this.stock.get(reservation.productId);
+      if (item) {
+        this.stock.set(item.productId, { ...apply(item, reservation.quantity), updatedAt: now });
+      }
+      const settled: StockReservation = { ...reservation, status, updatedAt: now };
+      this.reservations.set(settled.id, settled);
+      return settled;
+    });
+  }
+
+  private findBatches(productId: string): ProductBatch[] {
+    return Array.from(this.batches.values()).filter((batch) => batch.productId === productId);
+  }
+
+  private findByOrder(orderId: string, status?: StockReservationStatus): StockReservation[] {
+    return Array.from(this.reservations.values()).filter(
+      (reservation) =>
+        reservation.orderId === orderId && (status === undefined || reservation.status === status),
+    );
+  }
+
+  /**
+   * Seed stock for the sample products (prod-001 … prod-013)
+   */
+  private seedSampleStock(): void {
+    const lowStock: Record<string, number> = {
+      'prod-008': 4, // Blood Pressure Monitor
+      'prod-012': 6, // Baby Diapers
+    };
+
+    const now = new Date();
+    for (let index = 1; index <= 13; index++) {
+      const productId = `prod-${String(index).padStart(3, '0')}`;
+      this.stock.set(
+        productId,
+        createStockItem(productId, { onHand: lowStock[productId] ?? 100 }, now),
+      );
+    }
+  }
+}
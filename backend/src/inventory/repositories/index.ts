@@ -0,0 +1,3 @@
+export { STOCK_REPOSITORY, IStockRepository } from './stock-repository.interface';
+export { InMemoryStockRepository } from './in-memory-stock.repository';
+export { PrismaStockRepository } from './prisma-stock.repository';
@@ -0,0 +1,333 @@
+import { Injectable } from '@nestjs/common';
+import {
+  Prisma,
+  StockItem as PrismaStockItem,
+  StockReservation as PrismaStockReservation,
+  StockReservationStatus as PrismaStockReservationStatus,
+  ProductBatch as PrismaProductBatch,
+  BatchAllocation as PrismaBatchAllocation,
+} from '@prisma/client';
+import { PrismaService } from '../../database/prisma.service';
+import {
+  StockItem,
+  SetStockData,
+  StockReservation,
+  StockReservationLine,
+  StockReservationStatus,
+  ProductBatch,
+  ReceiveBatchData,
+  BatchAllocation,
+  DEFAULT_LOW_STOCK_THRESHOLD,
+  allocateFefo,
+} from '../domain';
+import { InsufficientStockException, InsufficientSellableBatchesException } from '../exceptions';
+import { IStockRepository } from './stock-repository.interface';
+
+/**
+ * Prisma Stock Repository
+ *
+ * Reservation, release and commit each run in a single transaction.
+ * Reservation uses a conditional UPDATE so concurrent checkouts can never
+ * push reserved above sellable on-hand (on-hand minus quantity in batches
+ * expiring on or before the sale cutoff).
+ * Commit allocates batches with guarded decrements, so two shipments can
+ * never draw the same units from a batch.
+ */
+@Injectable()
+export class PrismaStockRepository implements IStockRepository {
+  constructor(private readonly prisma: PrismaService) {}
+
+  async findByProductId(productId: string): Promise<StockItem | null> {
+    const item = await this.prisma.stockItem.findUnique({ where: { productId } });
+    return item ? this.toDomain(item) : null;
+  }
+
+  async findByProductIds(productIds: string[]): Promise<StockItem[]> {
+    const items = await this.prisma.stockItem.findMany({
+      where: { productId: { in: productIds } },
+    });
+    return items.map((item) => this.toDomain(item));
+  }
+
+  async setStock(productId: string, data: SetStockData): Promise<StockItem> {
+    const item = await this.prisma.stockItem.upsert({
+      where: { productId },
+      update: {
+        onHand: data.onHand,
+        ...(data.lowStockThreshold !== undefined && {
+          lowStockThreshold: data.lowStockThreshold,
+        }),
+      },
+      create: {
+        productId,
+        onHand: data.onHand,
+        lowStockThreshold: data.lowStockThreshold ?? DEFAULT_LOW_STOCK_THRESHOLD,
+      },
+    });
+    return this.toDomain(item);
+  }
+
+  async reserve(
+    orderId: string,
+    lines: StockReservationLine[],
+    saleCutoff: Date,
+  ): Promise<StockReservation[]> {
+    return this.prisma.getClient().$transaction(async (tx) => {
+      const existing = await tx.stockReservation.findMany({
+        where: { orderId, status: PrismaStockReservationStatus.RESERVED },
+      });
+      if (existing.length > 0) {
+        return existing.map((reservation) => this.toReservationDomain(reservation));
+      }
+
+      for (const line of lines) {
+        const updated = await tx.$executeRaw`
+          UPDATE "stock_items"
+          SET "reserved" = "reserved" + ${line.quantity}, "updated_at" = NOW()
+          WHERE "product_id" = ${line.productId}
+            AND "on_hand" - "reserved" - COALESCE((
+              SELECT SUM("quantity") FROM "product_batches"
+              WHERE "product_id" = ${line.productId} AND "expires_at" <= ${saleCutoff}
+            ), 0) >= ${line.quantity}`;
+
+        if (updated === 0) {
+          // Throwing rolls back the lines already reserved
+          const stock = await tx.stockItem.findUnique({ where: { productId: line.productId } });
+          const blocked = await tx.productBatch.aggregate({
+            where: { productId: line.productId, expiresAt: { lte: saleCutoff } },
+            _sum: { quantity: true },
+          });
+          const available = stock
+            ? Math.max(0, stock.onHand - stock.reserved - (blocked._sum.quantity ?? 0))
+            : 0;
+          throw new InsufficientStockException(line.productId, line.quantity, available);
+        }
+      }
+
+      const reservations: PrismaStockReservation[] = [];
+      for (const line of lines) {
+        reservations.push(
+          await tx.stockReservation.create({
+            data: {
+              orderId,
+              productId: line.productId,
+              quantity: line.quantity,
+              status: PrismaStockReservationStatus.RESERVED,
+            },
+          }),
+        );
+      }
+      return reservations.map((reservation) => this.toReservationDomain(reservation));
+    });
+  }
+
+  async release(orderId: string): Promise<StockReservation[]> {
+    return this.settle(orderId, PrismaStockReservationStatus.RELEASED, async (tx, reservation) => {
+      await tx.stockItem.update({
+        where: { productId: reservation.productId },
+        data: { reserved: { decrement: reservation.quantity } },
+      });
+    });
+  }
+
+  async commit(orderId: string, saleCutoff: Date): Promise<StockReservation[]> {
+    return this.settle(orderId, PrismaStockReservationStatus.COMMITTED, async (tx, reservation) => {
+      await tx.stockItem.update({
+        where: { productId: reservation.productId },
+        data: {
+          onHand: { decrement: reservation.quantity },
+          reserved: { decrement: reservation.quantity },
+        },
+      });
+      await this.allocateBatches(tx, reservation, saleCutoff);
+    });
+  }
+
+  async findReservationsByOrderId(orderId: string): Promise<StockReservation[]> {
+    const reservations = await this.prisma.stockReservation.findMany({
+      where: { orderId },
+      orderBy: { createdAt: 'asc' },
+    });
+    return reservations.map((reservation) => this.toReservationDomain(reservation));
+  }
+
+  async receiveBatch(productId: string, data: ReceiveBatchData): Promise<ProductBatch> {
+    return this.prisma.getClient().$transaction(async (tx) => {
+      const batch = await tx.productBatch.create({
+        data: {
+          productId,
+          batchNumber: data.batchNumber,
+          manufacturedAt: data.manufacturedAt,
+          expiresAt: data.expiresAt,
+          quantity: data.quantity,
+        },
+      });
+      await tx.stockItem.upsert({
+        where: { productId },
+        update: { onHand: { increment: data.quantity } },
+        create: { productId, onHand: data.quantity },
+      });
+      return this.toBatchDomain(batch);
+    });
+  }
+
+  async findBatch(productId: string, batchNumber: string): Promise<ProductBatch | null> {
+    const batch = await this.prisma.productBatch.findUnique({
+      where: { productId_batchNumber: { productId, batchNumber } },
+    });
+    return batch ? this.toBatchDomain(batch) : null;
+  }
+
+  async findBatchesByProductIds(productIds: string[]): Promise<ProductBatch[]> {
+    const batches = await this.prisma.productBatch.findMany({
+      where: { productId: { in: productIds } },
+      orderBy: [{ expiresAt: 'asc' }, { createdAt: 'asc' }],
+    });
+    return batches.map((batch) => this.toBatchDomain(batch));
+  }
+
+  async findAllocationsByOrderId(orderId: string): Promise<BatchAllocation[]> {
+    const allocations = await this.prisma.batchAllocation.findMany({
+      where: { orderId },
+      orderBy: { createdAt: 'asc' },
+    });
+    return allocations.map((allocation) => this.toAllocationDomain(allocation));
+  }
+
+  async findAllocationsByBatchNumber(batchNumber: string): Promise<BatchAllocation[]> {
+    const allocations = await this.prisma.batchAllocation.findMany({
+      where: { batchNumber },
+      orderBy: { createdAt: 'asc' },
+    });
+    return allocations.map((allocation) => this.toAllocationDomain(allocation));
+  }
+
+  /**
+   * FEFO allocation of one committed line. Untracked products (no batches) are skipped.
+   * Throwing rolls back the whole commit.
+   */
+  private async allocateBatches(
+    tx: Prisma.TransactionClient,
+    reservation: PrismaStockReservation,
+    saleCutoff: Date,
+  ): Promise<void> {
+    const batches = await tx.productBatch.findMany({
+      where: { productId: reservation.productId },
+    });
+    if (batches.length === 0) return;
+
+    const { lines, shortfall } = allocateFefo(
+      batches.map((batch) => this.toBatchDomain(batch)),
+      reservation.quantity,
+      saleCutoff,
+    );
+    if (shortfall > 0) {
+      throw new InsufficientSellableBatchesException(
+        reservation.productId,
+        reservation.quantity,
+        reservation.quantity - shortfall,
+      );
+    }
+
+    let allocated = 0;
+    for (const line of lines) {
+      // Guarded decrement: a concurrent shipment may have drawn from the same batch
+      const { count } = await tx.productBatch.updateMany({
+        where: { id: line.batch.id, quantity: { gte: line.quantity } },
+        data: { quantity: { decrement: line.quantity } },
+      });
+      if (count === 0) {
+        throw new InsufficientSellableBatchesException(
+          reservation.productId,
+          reservation.quantity,
+          allocated,
+        );
+      }
+      allocated += line.quantity;
+      await tx.batchAllocation.create({
+        data: {
+          orderId: reservation.orderId,
+          productId: reservation.productId,
+          batchId: line.batch.id,
+          batchNumber: line.batch.batchNumber,
+          expiresAt: line.batch.expiresAt,
+          quantity: line.quantity,
+        },
+      });
+    }
+  }
+
+  private async settle(
+    orderId: string,
+    status: PrismaStockReservationStatus,
+    apply: (tx: Prisma.TransactionClient, reservation: PrismaStockReservation) => Promise<void>,
+  ): Promise<StockReservation[]> {
+    return this.prisma.getClient().$transaction(async (tx) => {
+      const reservations = await tx.stockReservation.findMany({
+        where: { orderId, status: PrismaStockReservationStatus.RESERVED },
+      });
+
+      const settled: PrismaStockReservation[] = [];
+      for (const reservation of reservations) {
+        // Guard on status so a concurrent settle cannot apply the same line twice
+        const { count } = await tx.stockReservation.updateMany({
+          where: { id: reservation.id, status: PrismaStockReservationStatus.RESERVED },
+          data: { status },
+        });
+        if (count === 0) continue;
+
+        await apply(tx, reservation);
+        settled.push({ ...reservation, status });
+      }
+      return settled.map((reservation) => this.toReservationDomain(reservation));
+    });
+  }
+
+  private toDomain(item: PrismaStockItem): StockItem {
+    return {
+      productId: item.productId,
+      onHand: item.onHand,
+      reserved: item.reserved,
+      lowStockThreshold: item.lowStockThreshold,
+      updatedAt: item.updatedAt,
+    };
+  }
+
+  private toBatchDomain(batch: PrismaProductBatch): ProductBatch {
+    return {
+      id: batch.id,
+      productId: batch.productId,
+      batchNumber: batch.batchNumber,
+      manufacturedAt: batch.manufacturedAt,
+      expiresAt: batch.expiresAt,
+      quantity: batch.quantity,
+      createdAt: batch.createdAt,
+      updatedAt: batch.updatedAt,
+    };
+  }
+
+  private toAllocationDomain(allocation: PrismaBatchAllocation): BatchAllocation {
+    return {
+      id: allocation.id,
+      orderId: allocation.orderId,
+      productId: allocation.productId,
+      batchId: allocation.batchId,
+      batchNumber: allocation.batchNumber,
+      expiresAt: allocation.expiresAt,
+      quantity: allocation.quantity,
+      createdAt: allocation.createdAt,
+    };
+  }
+
+  private toReservationDomain(reservation: PrismaStockReservation): StockReservation {
+    return {
+      id: reservation.id,
+      orderId: reservation.orderId,
+      productId: reservation.productId,
+      quantity: reservation.quantity,
+      status: reservation.status as StockReservationStatus,
+      createdAt: reservation.createdAt,
+      updatedAt: reservation.updatedAt,
+    };
+  }
+}
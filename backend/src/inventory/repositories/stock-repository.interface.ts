@@ -0,0 +1,65 @@
+import {
+  StockItem,
+  SetStockData,
+  StockReservation,
+  StockReservationLine,
+  ProductBatch,
+  ReceiveBatchData,
+  BatchAllocation,
+} from '../domain';
+
+/**
+ * Stock Repository Interface
+ *
+ * reserve/release/commit must be atomic: either every line of the order is
+ * applied or none is.
+ *
+ * `saleCutoff` is the earliest batch expiry that may still be sold; quantity
+ * in batches expiring on or before it is blocked.
+ */
+export interface IStockRepository {
+  findByProductId(productId: string): Promise<StockItem | null>;
+  findByProductIds(productIds: string[]): Promise<StockItem[]>;
+
+  /** Create or update on-hand quantity (and optional threshold) for a product */
+  setStock(productId: string, data: SetStockData): Promise<StockItem>;
+
+  /**
+   * Reserve every line for the order against sellable stock.
+   * Returns the existing RESERVED lines if the order already holds a reservation.
+   * @throws InsufficientStockException if any line cannot be satisfied
+   */
+  reserve(
+    orderId: string,
+    lines: StockReservationLine[],
+    saleCutoff: Date,
+  ): Promise<StockReservation[]>;
+
+  /** Return RESERVED lines of the order to available stock; returns the released lines */
+  release(orderId: string): Promise<StockReservation[]>;
+
+  /**
+   * Deduct RESERVED lines of the order from on-hand stock; returns the committed lines.
+   * Batch-tracked products are allocated first-expiring-first-out from sellable
+   * batches and the allocations are recorded.
+   * @throws InsufficientSellableBatchesException if sellable batches cannot cover a line
+   */
+  commit(orderId: string, saleCutoff: Date): Promise<StockReservation[]>;
+
+  findReservationsByOrderId(orderId: string): Promise<StockReservation[]>;
+
+  // Batches
+
+  /** Record a received batch and add its quantity to on-hand stock */
+  receiveBatch(productId: string, data: ReceiveBatchData): Promise<ProductBatch>;
+
+  findBatch(productId: string, batchNumber: string): Promise<ProductBatch | null>;
+
+  /** Batches of the given products, earliest expiry first */
+  findBatchesByProductIds(productIds: string[]): Promise<ProductBatch[]>;
+
+  findAllocationsByOrderId(orderId: string): Promise<BatchAllocation[]>;
+  findAllocationsByBatchNumber(batchNumber: string): Promise<BatchAllocation[]>;
+}
+
+export const STOCK_REPOSITORY = 'STOCK_REPOSITORY';
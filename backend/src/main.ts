@@ -11,6 +11,8 @@ async function bootstrap(): Promise<void> {
 
   const app = await NestFactory.create(AppModule, {
     logger: logger,
+    // Payment webhook signatures are computed over the raw request body
+    rawBody: true,
   });
 
   // Global prefix for all routes
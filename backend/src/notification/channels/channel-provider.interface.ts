@@ -0,0 +1,35 @@
+import { NotificationChannel } from '../domain';
+
+/**
+ * A rendered message ready to hand to a provider
+ */
+export interface OutgoingMessage {
+  /** Notification ID; providers that accept a client reference get this */
+  readonly id: string;
+  readonly channel: NotificationChannel;
+  /** Email address or phone number */
+  readonly to: string;
+  /** Email subject; null for SMS */
+  readonly subject: string | null;
+  readonly body: string;
+}
+
+export interface ChannelDeliveryResult {
+  /** The provider's ID for the message, if it returns one */
+  providerMessageId: string | null;
+}
+
+/**
+ * Channel Provider Port
+ *
+ * Delivers messages on one channel. send() resolves once the provider has
+ * accepted the message and throws if it has not; the dispatcher retries.
+ */
+export interface ChannelProvider {
+  /** Recorded on the notification, e.g. 'smtp' */
+  readonly name: string;
+  send(message: OutgoingMessage): Promise<ChannelDeliveryResult>;
+}
+
+export const EMAIL_CHANNEL_PROVIDER = 'EMAIL_CHANNEL_PROVIDER';
+export const SMS_CHANNEL_PROVIDER = 'SMS_CHANNEL_PROVIDER';
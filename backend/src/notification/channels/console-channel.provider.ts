@@ -0,0 +1,26 @@
+import { logWithCorrelation } from '../../common/logging/logger';
+import {
+  ChannelDeliveryResult,
+  ChannelProvider,
+  OutgoingMessage,
+} from './channel-provider.interface';
+
+/**
+ * Console channel provider
+ *
+ * Writes messages to the application log instead of sending them. The
+ * default for local development, where it is the only way to read an OTP.
+ */
+export class ConsoleChannelProvider implements ChannelProvider {
+  readonly name = 'console';
+
+  async send(message: OutgoingMessage): Promise<ChannelDeliveryResult> {
+    logWithCorrelation('INFO', message.id, 'Notification sent', 'ConsoleChannelProvider', {
+      channel: message.channel,
+      to: message.to,
+      subject: message.subject,
+      body: message.body,
+    });
+    return { providerMessageId: null };
+  }
+}
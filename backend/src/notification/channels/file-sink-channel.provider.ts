@@ -0,0 +1,29 @@
+import { promises as fs } from 'fs';
+import * as path from 'path';
+import {
+  ChannelDeliveryResult,
+  ChannelProvider,
+  OutgoingMessage,
+} from './channel-provider.interface';
+
+/**
+ * File-sink channel provider
+ *
+ * Appends each message to a JSON-lines file, for staging environments and
+ * end-to-end tests that need to read what would have been sent.
+ */
+export class FileSinkChannelProvider implements ChannelProvider {
+  readonly name = 'file';
+  private readonly filePath: string;
+
+  constructor(filePath: string) {
+    this.filePath = path.resolve(filePath);
+  }
+
+  async send(message: OutgoingMessage): Promise<ChannelDeliveryResult> {
+    await fs.mkdir(path.dirname(this.filePath), { recursive: true });
+    const line = JSON.stringify({ ...message, sentAt: new Date().toISOString() });
+    await fs.appendFile(this.filePath, line + '\n');
+    return { providerMessageId: message.id };
+  }
+}
@@ -0,0 +1,11 @@
+export {
+  EMAIL_CHANNEL_PROVIDER,
+  SMS_CHANNEL_PROVIDER,
+  ChannelProvider,
+  ChannelDeliveryResult,
+  OutgoingMessage,
+} from './channel-provider.interface';
+export { ConsoleChannelProvider } from './console-channel.provider';
+export { FileSinkChannelProvider } from './file-sink-channel.provider';
+export { SmtpEmailProvider } from './smtp-email.provider';
+export { SmsGatewayProvider } from './sms-gateway.provider';
@@ -0,0 +1,54 @@
+import type { SmsGatewayConfig } from '../config/notification.config';
+import {
+  ChannelDeliveryResult,
+  ChannelProvider,
+  OutgoingMessage,
+} from './channel-provider.interface';
+
+const REQUEST_TIMEOUT_MS = 10_000;
+
+/**
+ * SMS gateway provider
+ *
+ * POSTs each message as JSON ({ to, sender, message, reference }) to an
+ * HTTP SMS gateway with a bearer API key. Any non-2xx response is a failure;
+ * the gateway's message ID is read from `id` or `messageId` if present.
+ */
+export class SmsGatewayProvider implements ChannelProvider {
+  readonly name = 'sms-gateway';
+
+  constructor(private readonly config: SmsGatewayConfig) {}
+
+  async send(message: OutgoingMessage): Promise<ChannelDeliveryResult> {
+    const response = await fetch(this.config.url, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        Authorization: `Bearer ${this.config.apiKey}`,
+      },
+      body: JSON.stringify({
+        to: message.to,
+        sender: this.config.senderId,
+        message: message.body,
+        reference: message.id,
+      }),
+      signal: AbortSignal.timeout(REQUEST_TIMEOUT_MS),
+    });
+
+    const text = await response.text();
+    if (!response.ok) {
+      throw new Error(`SMS gateway responded ${response.status}: ${text.slice(0, 200)}`);
+    }
+    return { providerMessageId: readMessageId(text) };
+  }
+}
+
+function readMessageId(responseText: string): string | null {
+  try {
+    const body = JSON.parse(responseText) as { id?: unknown; messageId?: unknown };
+    const id = body.id ?? body.messageId;
+    return id === undefined || id === null ? null : String(id);
+  } catch {
+    return null;
+  }
+}
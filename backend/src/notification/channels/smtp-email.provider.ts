@@ -0,0 +1,37 @@
+import { createTransport, Transporter } from 'nodemailer';
+import type { SmtpConfig } from '../config/notification.config';
+import {
+  ChannelDeliveryResult,
+  ChannelProvider,
+  OutgoingMessage,
+} from './channel-provider.interface';
+
+/**
+ * SMTP email provider
+ *
+ * Sends plain-text email through the configured SMTP relay. The transport
+ * is created once and reuses its connection.
+ */
+export class SmtpEmailProvider implements ChannelProvider {
+  readonly name = 'smtp';
+  private readonly transporter: Transporter;
+
+  constructor(private readonly config: SmtpConfig) {
+    this.transporter = createTransport({
+      host: config.host,
+      port: config.port,
+      secure: config.secure,
+      auth: config.user ? { user: config.user, pass: config.password } : undefined,
+    });
+  }
+
+  async send(message: OutgoingMessage): Promise<ChannelDeliveryResult> {
+    const info = await this.transporter.sendMail({
+      from: this.config.from,
+      to: message.to,
+      subject: message.subject ?? '',
+      text: message.body,
+    });
+    return { providerMessageId: info.messageId ?? null };
+  }
+}
@@ -0,0 +1,123 @@
+/**
+ * Notification Configuration
+ *
+ * Selects the provider behind each channel and sets delivery retries.
+ *
+ * Drivers:
+ * - console (default): messages are written to the application log
+ * - file: messages are appended as JSON lines to NOTIFICATION_FILE_SINK_PATH
+ * - smtp (email) / gateway (SMS): real delivery, settings below
+ *
+ * Security notes:
+ * - SMTP_PASSWORD and SMS_GATEWAY_API_KEY must be set via environment variables
+ */
+
+export type EmailDriver = 'console' | 'file' | 'smtp';
+export type SmsDriver = 'console' | 'file' | 'gateway';
+
+export interface SmtpConfig {
+  host: string;
+  port: number;
+  /** Connect over TLS from the start (port 465) rather than STARTTLS */
+  secure: boolean;
+  user: string;
+  password: string;
+  /** From address, e.g. "Pharmacy <orders@example.com>" */
+  from: string;
+}
+
+export interface SmsGatewayConfig {
+  /** Endpoint messages are POSTed to as JSON */
+  url: string;
+  /** Sent as a bearer token */
+  apiKey: string;
+  /** Registered sender ID */
+  senderId: string;
+}
+
+export interface NotificationConfig {
+  emailDriver: EmailDriver;
+  smsDriver: SmsDriver;
+  smtp: SmtpConfig;
+  smsGateway: SmsGatewayConfig;
+  /** JSON-lines file used by the file driver */
+  fileSinkPath: string;
+  /** Locale used when a template has no version for the user's locale */
+  defaultLocale: string;
+  /** How often queued messages are sent; 0 disables the timer */
+  dispatchIntervalMs: number;
+  /** Messages claimed per run */
+  batchSize: number;
+  /** How long a claimed message is hidden from other instances */
+  leaseMs: number;
+  /** Failed attempts after which a message is marked FAILED */
+  maxAttempts: number;
+  /** Delay before the first retry; doubles on each further attempt */
+  retryBaseDelayMs: number;
+}
+
+function readInt(name: string, fallback: number, min: number): number {
+  const value = parseInt(process.env[name] || String(fallback), 10);
+  return Number.isNaN(value) ? fallback : Math.max(min, value);
+}
+
+function readDriver<T extends string>(name: string, allowed: readonly T[]): T {
+  const driver = (process.env[name] || 'console') as T;
+  if (!allowed.includes(driver)) {
+    throw new Error(`Unknown ${name} '${driver}'`);
+  }
+  return driver;
+}
+
+/**
+ * Get notification configuration from environment
+ */
+export function getNotificationConfig(): NotificationConfig {
+  const emailDriver = readDriver<EmailDriver>('NOTIFICATION_EMAIL_DRIVER', [
+    'console',
+    'file',
+    'smtp',
+  ]);
+  const smsDriver = readDriver<SmsDriver>('NOTIFICATION_SMS_DRIVER', [
+    'console',
+    'file',
+    'gateway',
+  ]);
+
+  const smtp: SmtpConfig = {
+    host: process.env.SMTP_HOST || '',
+    port: readInt('SMTP_PORT', 587, 1),
+    secure: process.env.SMTP_SECURE === 'true',
+    user: process.env.SMTP_USER || '',
+    password: process.env.SMTP_PASSWORD || '',
+    from: process.env.NOTIFICATION_EMAIL_FROM || 'Pharmacy <no-reply@localhost>',
+  };
+  if (emailDriver === 'smtp' && !smtp.host) {
+    throw new Error('NOTIFICATION_EMAIL_DRIVER=smtp requires SMTP_HOST');
+  }
+
+  const smsGateway: SmsGatewayConfig = {
+    url: process.env.SMS_GATEWAY_URL || '',
+    apiKey: process.env.SMS_GATEWAY_API_KEY || '',
+    senderId: process.env.SMS_SENDER_ID || 'PHARMA',
+  };
+  if (smsDriver === 'gateway' && (!smsGateway.url || !smsGateway.apiKey)) {
+    throw new Error(
+      'NOTIFICATION_SMS_DRIVER=gateway requires SMS_GATEWAY_URL and SMS_GATEWAY_API_KEY',
+    );
+  }
+
+  return {
+    emailDriver,
+    smsDriver,
+    smtp,
+    smsGateway,
+    fileSinkPath: process.env.NOTIFICATION_FILE_SINK_PATH || './storage/notifications.jsonl',
+    defaultLocale: process.env.NOTIFICATION_DEFAULT_LOCALE || 'en',
+    dispatchIntervalMs: readInt('NOTIFICATION_DISPATCH_INTERVAL_MS', 5000, 0),
+    batchSize: readInt('NOTIFICATION_BATCH_SIZE', 50, 1),
+    leaseMs: readInt('NOTIFICATION_LEASE_MS', 60_000, 1000),
+    maxAttempts: readInt('NOTIFICATION_MAX_ATTEMPTS', 5, 1),
+    retryBaseDelayMs: readInt('NOTIFICATION_RETRY_BASE_DELAY_MS', 60_000, 0),
+  };
+}
@@ -0,0 +1,22 @@
+export { NotificationChannel } from './notification-channel';
+export { NotificationCategory } from './notification-category';
+
+export {
+  NotificationStatus,
+  type Notification,
+  type NewNotification,
+  createNotification,
+  markNotificationSent,
+  markNotificationRead,
+  recordNotificationFailure,
+} from './notification.entity';
+
+export {
+  type ChannelSelection,
+  type NotificationPreferences,
+  type NotificationPreferencesChanges,
+  DEFAULT_CATEGORY_CHANNELS,
+  defaultNotificationPreferences,
+  updateNotificationPreferences,
+  isChannelEnabled,
+} from './notification-preferences.entity';
@@ -0,0 +1,13 @@
+/**
+ * Notification Category
+ *
+ * What a message is about. Customers choose the channels for each category
+ * (see NotificationPreferences). Account and security messages such as
+ * password resets have no category and are always sent.
+ */
+export enum NotificationCategory {
+  ORDER_UPDATES = 'ORDER_UPDATES',
+  PAYMENT_UPDATES = 'PAYMENT_UPDATES',
+  PRESCRIPTION_REVIEWS = 'PRESCRIPTION_REVIEWS',
+  MARKETING = 'MARKETING',
+}
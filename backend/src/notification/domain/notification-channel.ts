@@ -0,0 +1,12 @@
+/**
+ * Notification Channel
+ *
+ * How a message reaches the customer. EMAIL and SMS each have one configured
+ * provider (see notification.config.ts); IN_APP messages are stored in the
+ * customer's inbox and need no delivery.
+ */
+export enum NotificationChannel {
+  EMAIL = 'EMAIL',
+  SMS = 'SMS',
+  IN_APP = 'IN_APP',
+}
@@ -0,0 +1,89 @@
+import { NotificationCategory } from './notification-category';
+import { NotificationChannel } from './notification-channel';
+
+/**
+ * Channels switched on for one category
+ */
+export type ChannelSelection = Readonly<Record<NotificationChannel, boolean>>;
+
+/**
+ * Notification Preferences
+ *
+ * Which channels a customer wants for each category of message. Users who
+ * never saved preferences get the defaults: every channel for service
+ * messages, nothing for marketing until they opt in.
+ */
+export interface NotificationPreferences {
+  readonly userId: string;
+  readonly categories: Readonly<Record<NotificationCategory, ChannelSelection>>;
+  readonly updatedAt: Date;
+}
+
+/**
+ * Partial change: only the categories and channels given are updated
+ */
+export type NotificationPreferencesChanges = Partial<
+  Record<NotificationCategory, Partial<Record<NotificationChannel, boolean>>>
+>;
+
+const ALL_CHANNELS: ChannelSelection = {
+  [NotificationChannel.EMAIL]: true,
+  [NotificationChannel.SMS]: true,
+  [NotificationChannel.IN_APP]: true,
+};
+
+const NO_CHANNELS: ChannelSelection = {
+  [NotificationChannel.EMAIL]: false,
+  [NotificationChannel.SMS]: false,
+  [NotificationChannel.IN_APP]: false,
+};
+
+export const DEFAULT_CATEGORY_CHANNELS: Readonly<Record<NotificationCategory, ChannelSelection>> = {
+  [NotificationCategory.ORDER_UPDATES]: ALL_CHANNELS,
+  [NotificationCategory.PAYMENT_UPDATES]: ALL_CHANNELS,
+  [NotificationCategory.PRESCRIPTION_REVIEWS]: ALL_CHANNELS,
+  [NotificationCategory.MARKETING]: NO_CHANNELS,
+};
+
+/**
+ * Preferences for a user who has not saved any
+ */
+export function defaultNotificationPreferences(
+  userId: string,
+  now: Date = new Date(),
+): NotificationPreferences {
+  return { userId, categories: DEFAULT_CATEGORY_CHANNELS, updatedAt: now };
+}
+
+/**
+ * Apply a partial change. Categories saved before a category or channel
+ * existed pick up its default.
+ */
+export function updateNotificationPreferences(
+  preferences: NotificationPreferences,
+  changes: NotificationPreferencesChanges,
+  now: Date = new Date(),
+): NotificationPreferences {
+  const categories = {} as Record<NotificationCategory, ChannelSelection>;
+  for (const category of Object.values(NotificationCategory)) {
+    categories[category] = {
+      ...DEFAULT_CATEGORY_CHANNELS[category],
+      ...preferences.categories[category],
+      ...changes[category],
+    };
+  }
+  return { ...preferences, categories, updatedAt: now };
+}
+
+/**
+ * Whether the customer wants messages of `category` on `channel`
+ */
+export function isChannelEnabled(
+  preferences: NotificationPreferences,
+  category: NotificationCategory,
+  channel: NotificationChannel,
+): boolean {
+  return (
+    preferences.categories[category]?.[channel] ?? DEFAULT_CATEGORY_CHANNELS[category][channel]
+  );
+}
@@ -0,0 +1,146 @@
+import { randomUUID } from 'crypto';
+import type { RetryPolicy } from '../../events/domain';
+import { NotificationChannel } from './notification-channel';
+
+/**
+ * Notification
+ *
+ * One message to one recipient on one channel. The same row is the delivery
+ * queue entry and, once sent or given up on, the customer's notification log.
+ *
+ * Lifecycle: QUEUED → SENT, or QUEUED → FAILED after the last allowed attempt.
+ * A failed attempt leaves the message QUEUED with a later nextAttemptAt
+ * (exponential backoff, same policy shape as the outbox).
+ *
+ * IN_APP messages are created SENT: storing them is the delivery. readAt is
+ * set when the customer opens them in the inbox.
+ *
+ * dedupeKey makes queueing idempotent: an event handler that is delivered
+ * twice queues each message once.
+ */
+export enum NotificationStatus {
+  QUEUED = 'QUEUED',
+  SENT = 'SENT',
+  FAILED = 'FAILED',
+}
+
+export interface Notification {
+  readonly id: string;
+  /** Customer the message is about; null for messages sent to a bare address */
+  readonly userId: string | null;
+  readonly channel: NotificationChannel;
+  /** Email address, phone number, or the user ID for IN_APP */
+  readonly recipient: string;
+  /** Template the message was rendered from; null for ad hoc messages */
+  readonly templateKey: string | null;
+  readonly templateVersion: number | null;
+  readonly locale: string | null;
+  /** Email subject or in-app title; null for SMS */
+  readonly subject: string | null;
+  readonly body: string;
+  readonly dedupeKey: string | null;
+  readonly status: NotificationStatus;
+  /** Failed delivery attempts so far */
+  readonly attempts: number;
+  readonly lastError: string | null;
+  /** Not sent before this time (retry backoff, or a dispatcher's lease) */
+  readonly nextAttemptAt: Date;
+  /** Provider that delivered the message, and its message ID if it returns one */
+  readonly provider: string | null;
+  readonly providerMessageId: string | null;
+  readonly sentAt: Date | null;
+  /** When the customer read an in-app message */
+  readonly readAt: Date | null;
+  readonly createdAt: Date;
+}
+
+export interface NewNotification {
+  userId: string | null;
+  channel: NotificationChannel;
+  recipient: string;
+  templateKey?: string | null;
+  templateVersion?: number | null;
+  locale?: string | null;
+  subject?: string | null;
+  body: string;
+  dedupeKey?: string | null;
+}
+
+/**
+ * New queued message, due immediately
+ */
+export function createNotification(data: NewNotification, now: Date = new Date()): Notification {
+  return {
+    id: randomUUID(),
+    userId: data.userId,
+    channel: data.channel,
+    recipient: data.recipient,
+    templateKey: data.templateKey ?? null,
+    templateVersion: data.templateVersion ?? null,
+    locale: data.locale ?? null,
+    subject: data.subject ?? null,
+    body: data.body,
+    dedupeKey: data.dedupeKey ?? null,
+    status: NotificationStatus.QUEUED,
+    attempts: 0,
+    lastError: null,
+    nextAttemptAt: now,
+    provider: null,
+    providerMessageId: null,
+    sentAt: null,
+    readAt: null,
+    createdAt: now,
+  };
+}
+
+/**
+ * The provider accepted the message
+ */
+export function markNotificationSent(
+  notification: Notification,
+  provider: string,
+  providerMessageId: string | null,
+  now: Date = new Date(),
+): Notification {
+  return {
+    ...notification,
+    status: NotificationStatus.SENT,
+    lastError: null,
+    provider,
+    providerMessageId,
+    sentAt: now,
+  };
+}
+
+/**
+ * The provider failed: schedule a retry with exponential backoff, or mark
+ * the message FAILED once attempts are used up
+ */
+export function recordNotificationFailure(
+  notification: Notification,
+  error: string,
+  policy: RetryPolicy,
+  now: Date = new Date(),
+): Notification {
+  const attempts = notification.attempts + 1;
+  if (attempts >= policy.maxAttempts) {
+    return { ...notification, status: NotificationStatus.FAILED, attempts, lastError: error };
+  }
+
+  return {
+    ...notification,
+    attempts,
+    lastError: error,
+    nextAttemptAt: new Date(now.getTime() + policy.baseDelayMs * 2 ** (attempts - 1)),
+  };
+}
+
+/**
+ * The customer opened an in-app message; reading it again changes nothing
+ */
+export function markNotificationRead(
+  notification: Notification,
+  now: Date = new Date(),
+): Notification {
+  return notification.readAt ? notification : { ...notification, readAt: now };
+}
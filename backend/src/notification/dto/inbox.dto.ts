@@ -0,0 +1,57 @@
+import { Type } from 'class-transformer';
+import { IsInt, IsOptional, Max, Min } from 'class-validator';
+import { Notification } from '../domain';
+
+/**
+ * Inbox DTOs
+ *
+ * API request/response shapes for the in-app inbox.
+ */
+
+const DEFAULT_LIMIT = 20;
+const MAX_LIMIT = 50;
+
+/**
+ * Query parameters for the inbox
+ */
+export class InboxQueryDto {
+  @IsOptional()
+  @IsInt()
+  @Min(1)
+  @Max(MAX_LIMIT)
+  @Type(() => Number)
+  limit: number = DEFAULT_LIMIT;
+}
+
+export interface InboxNotificationDto {
+  id: string;
+  /** Template the message came from, e.g. ORDER_SHIPPED; null for ad hoc messages */
+  type: string | null;
+  title: string | null;
+  body: string;
+  read: boolean;
+  createdAt: string; // ISO 8601 string
+  readAt: string | null; // ISO 8601 string
+}
+
+export interface InboxDto {
+  notifications: InboxNotificationDto[];
+  /** Unread messages in the whole inbox, not just this page */
+  unreadCount: number;
+}
+
+export interface MarkAllReadResultDto {
+  marked: number;
+}
+
+export function toInboxNotificationDto(notification: Notification): InboxNotificationDto {
+  return {
+    id: notification.id,
+    type: notification.templateKey,
+    title: notification.subject,
+    body: notification.body,
+    read: notification.readAt !== null,
+    createdAt: notification.createdAt.toISOString(),
+    readAt: notification.readAt?.toISOString() ?? null,
+  };
+}
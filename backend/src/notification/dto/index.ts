@@ -0,0 +1,13 @@
+export {
+  InboxQueryDto,
+  InboxDto,
+  InboxNotificationDto,
+  MarkAllReadResultDto,
+  toInboxNotificationDto,
+} from './inbox.dto';
+export {
+  NotificationPreferencesDto,
+  CategoryChannelsDto,
+  UpdateNotificationPreferencesDto,
+  toNotificationPreferencesDto,
+} from './notification-preferences.dto';
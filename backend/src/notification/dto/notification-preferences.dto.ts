@@ -0,0 +1,70 @@
+import { Type } from 'class-transformer';
+import { IsBoolean, IsOptional, ValidateNested } from 'class-validator';
+import { ChannelSelection, NotificationPreferences } from '../domain';
+
+/**
+ * Notification Preferences DTOs
+ *
+ * API request/response shapes for the channels a customer wants per category.
+ */
+
+export interface NotificationPreferencesDto {
+  categories: {
+    ORDER_UPDATES: ChannelSelection;
+    PAYMENT_UPDATES: ChannelSelection;
+    PRESCRIPTION_REVIEWS: ChannelSelection;
+    MARKETING: ChannelSelection;
+  };
+  updatedAt: string; // ISO 8601 string
+}
+
+/**
+ * Channel switches for one category; channels left out are unchanged
+ */
+export class CategoryChannelsDto {
+  @IsOptional()
+  @IsBoolean()
+  EMAIL?: boolean;
+
+  @IsOptional()
+  @IsBoolean()
+  SMS?: boolean;
+
+  @IsOptional()
+  @IsBoolean()
+  IN_APP?: boolean;
+}
+
+/**
+ * Categories left out are unchanged
+ */
+export class UpdateNotificationPreferencesDto {
+  @IsOptional()
+  @ValidateNested()
+  @Type(() => CategoryChannelsDto)
+  ORDER_UPDATES?: CategoryChannelsDto;
+
+  @IsOptional()
+  @ValidateNested()
+  @Type(() => CategoryChannelsDto)
+  PAYMENT_UPDATES?: CategoryChannelsDto;
+
+  @IsOptional()
+  @ValidateNested()
+  @Type(() => CategoryChannelsDto)
+  PRESCRIPTION_REVIEWS?: CategoryChannelsDto;
+
+  @IsOptional()
+  @ValidateNested()
+  @Type(() => CategoryChannelsDto)
+  MARKETING?: CategoryChannelsDto;
+}
+
+export function toNotificationPreferencesDto(
+  preferences: NotificationPreferences,
+): NotificationPreferencesDto {
+  return {
+    categories: preferences.categories,
+    updatedAt: preferences.updatedAt.toISOString(),
+  };
+}
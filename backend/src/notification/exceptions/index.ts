@@ -0,0 +1 @@
+export { NotificationNotFoundException } from './notification.exceptions';
@@ -0,0 +1,17 @@
+import { HttpStatus } from '@nestjs/common';
+import { BusinessException } from '../../common/exceptions/business.exception';
+
+/**
+ * Notification not found exception
+ *
+ * Also thrown for another user's notification, so IDs cannot be probed.
+ */
+export class NotificationNotFoundException extends BusinessException {
+  constructor(notificationId: string) {
+    super(
+      'NOTIFICATION_NOT_FOUND',
+      `Notification with id '${notificationId}' not found`,
+      HttpStatus.NOT_FOUND,
+    );
+  }
+}
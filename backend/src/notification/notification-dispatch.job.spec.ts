@@ -0,0 +1,169 @@
+import { promises as fs } from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { NotificationDispatchJob } from './notification-dispatch.job';
+import { InMemoryNotificationRepository } from './repositories/in-memory-notification.repository';
+import {
+  ChannelDeliveryResult,
+  ChannelProvider,
+  FileSinkChannelProvider,
+  OutgoingMessage,
+} from './channels';
+import { NotificationChannel, NotificationStatus, createNotification } from './domain';
+import { JobScheduler } from '../scheduler/job-scheduler';
+import { ManualClock } from '../scheduler/clock';
+
+const MINUTE = 60_000;
+
+/**
+ * Provider that records what it is given and fails the first `failures` sends
+ */
+class RecordingProvider implements ChannelProvider {
+  readonly sent: OutgoingMessage[] = [];
+
+  constructor(
+    readonly name: string,
+    private failures = 0,
+  ) {}
+
+  async send(message: OutgoingMessage): Promise<ChannelDeliveryResult> {
+    if (this.failures > 0) {
+      this.failures--;
+      throw new Error('connection refused');
+    }
+    this.sent.push(message);
+    return { providerMessageId: `${this.name}-${this.sent.length}` };
+  }
+}
+
+/**
+ * Notification Dispatch Job Tests
+ *
+ * Runs the job through JobScheduler with a ManualClock, using the default
+ * retry policy (5 attempts, backoff from 1 minute).
+ */
+describe('NotificationDispatchJob', () => {
+  let clock: ManualClock;
+  let scheduler: JobScheduler;
+  let repository: InMemoryNotificationRepository;
+  let email: RecordingProvider;
+  let sms: RecordingProvider;
+
+  const start = new Date('2026-02-01T10:00:00Z');
+
+  function setUp(emailFailures = 0) {
+    clock = new ManualClock(start);
+    scheduler = new JobScheduler(clock);
+    repository = new InMemoryNotificationRepository();
+    email = new RecordingProvider('smtp', emailFailures);
+    sms = new RecordingProvider('sms-gateway');
+    new NotificationDispatchJob(scheduler, repository, email, sms).onModuleInit();
+  }
+
+  async function queue(channel: NotificationChannel) {
+    return repository.enqueue(
+      createNotification(
+        {
+          userId: 'user-1',
+          channel,
+          recipient: channel === NotificationChannel.EMAIL ? 'asha@example.com' : '+919876543210',
+          subject: channel === NotificationChannel.EMAIL ? 'Hello' : null,
+          body: 'Body',
+        },
+        start,
+      ),
+    );
+  }
+
+  async function runAfter(ms: number) {
+    clock.set(new Date(start.getTime() + ms));
+    const run = await scheduler.runJob('notification-delivery', 'test-correlation-id');
+    expect(run.status).toBe('SUCCEEDED');
+    return run.result;
+  }
+
+  it('sends each queued message through its channel provider once', async () => {
+    setUp();
+    const queuedEmail = await queue(NotificationChannel.EMAIL);
+    await queue(NotificationChannel.SMS);
+
+    expect(await runAfter(0)).toEqual({ sent: 2, retrying: 0, failed: 0 });
+    expect(await runAfter(MINUTE)).toEqual({ sent: 0, retrying: 0, failed: 0 });
+
+    expect(email.sent).toEqual([
+      {
+        id: queuedEmail.id,
+        channel: NotificationChannel.EMAIL,
+        to: 'asha@example.com',
+        subject: 'Hello',
+        body: 'Body',
+      },
+    ]);
+    expect(sms.sent).toHaveLength(1);
+    expect(await repository.findById(queuedEmail.id)).toMatchObject({
+      status: NotificationStatus.SENT,
+      provider: 'smtp',
+      providerMessageId: 'smtp-1',
+      sentAt: start,
+    });
+  });
+
+  it('retries a failed send with backoff', async () => {
+    setUp(2);
+    const queued = await queue(NotificationChannel.EMAIL);
+
+    expect(await runAfter(0)).toEqual({ sent: 0, retrying: 1, failed: 0 });
+    expect(await repository.findById(queued.id)).toMatchObject({
+      status: NotificationStatus.QUEUED,
+      attempts: 1,
+      lastError: 'smtp: connection refused',
+      nextAttemptAt: new Date(start.getTime() + MINUTE),
+    });
+
+    // Second attempt after 1 minute, third after a further 2
+    expect(await runAfter(MINUTE)).toEqual({ sent: 0, retrying: 1, failed: 0 });
+    expect(await runAfter(2 * MINUTE)).toEqual({ sent: 0, retrying: 0, failed: 0 });
+    expect(await runAfter(3 * MINUTE)).toEqual({ sent: 1, retrying: 0, failed: 0 });
+    expect((await repository.findById(queued.id))!.status).toBe(NotificationStatus.SENT);
+  });
+
+  it('marks a message FAILED after the last attempt', async () => {
+    setUp(10);
+    const queued = await queue(NotificationChannel.EMAIL);
+
+    for (const minutes of [0, 1, 3, 7]) {
+      expect(await runAfter(minutes * MINUTE)).toEqual({ sent: 0, retrying: 1, failed: 0 });
+    }
+    expect(await runAfter(15 * MINUTE)).toEqual({ sent: 0, retrying: 0, failed: 1 });
+    expect(await repository.findById(queued.id)).toMatchObject({
+      status: NotificationStatus.FAILED,
+      attempts: 5,
+    });
+    expect(await runAfter(60 * MINUTE)).toEqual({ sent: 0, retrying: 0, failed: 0 });
+  });
+
+  it('appends messages to the file sink as JSON lines', async () => {
+    const dir = await fs.mkdtemp(path.join(os.tmpdir(), 'notifications-'));
+    const file = path.join(dir, 'sink', 'notifications.jsonl');
+    const provider = new FileSinkChannelProvider(file);
+    try {
+      const message = {
+        id: 'n-1',
+        channel: NotificationChannel.SMS,
+        to: '+919876543210',
+        subject: null,
+        body: 'Your code is 123456',
+      };
+      await provider.send(message);
+      await provider.send({ ...message, id: 'n-2' });
+
+      const lines = (await fs.readFile(file, 'utf8')).trim().split('\n');
+      expect(lines.map((line) => JSON.parse(line))).toEqual([
+        expect.objectContaining(message),
+        expect.objectContaining({ id: 'n-2' }),
+      ]);
+    } finally {
+      await fs.rm(dir, { recursive: true, force: true });
+    }
+  });
+});
@@ -0,0 +1,128 @@
+import { Inject, Injectable, OnModuleInit } from '@nestjs/common';
+import { logWithCorrelation } from '../common/logging/logger';
+import { JobScheduler } from '../scheduler/job-scheduler';
+import { ScheduledJob } from '../scheduler/scheduled-job.interface';
+import {
+  Notification,
+  NotificationChannel,
+  NotificationStatus,
+  markNotificationSent,
+  recordNotificationFailure,
+} from './domain';
+import { NOTIFICATION_REPOSITORY, INotificationRepository } from './repositories';
+import { EMAIL_CHANNEL_PROVIDER, SMS_CHANNEL_PROVIDER, ChannelProvider } from './channels';
+import { NotificationConfig, getNotificationConfig } from './config/notification.config';
+
+/**
+ * Outcome of one delivery run
+ */
+export interface NotificationDispatchSummary {
+  sent: number;
+  retrying: number;
+  failed: number;
+}
+
+/**
+ * Notification Dispatch Job
+ *
+ * Sends queued notifications through the provider for their channel. A
+ * provider error leaves the message queued for a later run (exponential
+ * backoff); after NOTIFICATION_MAX_ATTEMPTS it is marked FAILED and stays
+ * in the customer's history as such.
+ *
+ * Claims keep two instances from sending the same message concurrently.
+ */
+@Injectable()
+export class NotificationDispatchJob implements ScheduledJob, OnModuleInit {
+  readonly name = 'notification-delivery';
+  private readonly config: NotificationConfig = getNotificationConfig();
+  readonly intervalMs = this.config.dispatchIntervalMs;
+  /** IN_APP messages are stored SENT and never queued, so have no provider */
+  private readonly providers: Partial<Record<NotificationChannel, ChannelProvider>>;
+
+  constructor(
+    private readonly jobScheduler: JobScheduler,
+    @Inject(NOTIFICATION_REPOSITORY)
+    private readonly notificationRepository: INotificationRepository,
+    @Inject(EMAIL_CHANNEL_PROVIDER)
+    emailProvider: ChannelProvider,
+    @Inject(SMS_CHANNEL_PROVIDER)
+    smsProvider: ChannelProvider,
+  ) {
+    this.providers = {
+      [NotificationChannel.EMAIL]: emailProvider,
+      [NotificationChannel.SMS]: smsProvider,
+    };
+  }
+
+  onModuleInit(): void {
+    this.jobScheduler.register(this);
+  }
+
+  async run(now: Date, correlationId: string): Promise<NotificationDispatchSummary> {
+    const summary: NotificationDispatchSummary = { sent: 0, retrying: 0, failed: 0 };
+    const leaseUntil = new Date(now.getTime() + this.config.leaseMs);
+    const due = await this.notificationRepository.claimDue(now, this.config.batchSize, leaseUntil);
+
+    for (const notification of due) {
+      const delivered = await this.deliver(notification, now, correlationId);
+      if (delivered.status === NotificationStatus.SENT) {
+        summary.sent++;
+      } else if (delivered.status === NotificationStatus.FAILED) {
+        summary.failed++;
+      } else {
+        summary.retrying++;
+      }
+    }
+    return summary;
+  }
+
+  // ==========================================================================
+  // Private Helpers
+  // ==========================================================================
+
+  private async deliver(
+    notification: Notification,
+    now: Date,
+    correlationId: string,
+  ): Promise<Notification> {
+    const provider = this.providers[notification.channel];
+    const providerName = provider?.name ?? notification.channel;
+    let updated: Notification;
+    try {
+      if (!provider) {
+        throw new Error(`No provider for channel ${notification.channel}`);
+      }
+      const { providerMessageId } = await provider.send({
+        id: notification.id,
+        channel: notification.channel,
+        to: notification.recipient,
+        subject: notification.subject,
+        body: notification.body,
+      });
+      updated = markNotificationSent(notification, provider.name, providerMessageId, now);
+    } catch (error) {
+      updated = recordNotificationFailure(
+        notification,
+        `${providerName}: ${error instanceof Error ? error.message : String(error)}`,
+        { maxAttempts: this.config.maxAttempts, baseDelayMs: this.config.retryBaseDelayMs },
+        now,
+      );
+      logWithCorrelation(
+        updated.status === NotificationStatus.FAILED ? 'ERROR' : 'WARN',
+        correlationId,
+        updated.status === NotificationStatus.FAILED
+          ? 'Notification failed'
+          : 'Notification delivery failed; will retry',
+        'NotificationDispatchJob',
+        {
+          id: notification.id,
+          channel: notification.channel,
+          attempts: updated.attempts,
+          error: updated.lastError,
+        },
+      );
+    }
+    return this.notificationRepository.save(updated);
+  }
+}
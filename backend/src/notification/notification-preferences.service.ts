@@ -0,0 +1,47 @@
+import { Inject, Injectable } from '@nestjs/common';
+import {
+  NotificationPreferences,
+  NotificationPreferencesChanges,
+  defaultNotificationPreferences,
+  updateNotificationPreferences,
+} from './domain';
+import {
+  NOTIFICATION_PREFERENCES_REPOSITORY,
+  INotificationPreferencesRepository,
+} from './repositories';
+
+/**
+ * Notification Preferences Service
+ *
+ * Reads and updates the channels each customer wants per category.
+ * NotificationService consults it before queueing a message.
+ */
+@Injectable()
+export class NotificationPreferencesService {
+  constructor(
+    @Inject(NOTIFICATION_PREFERENCES_REPOSITORY)
+    private readonly preferencesRepository: INotificationPreferencesRepository,
+  ) {}
+
+  /**
+   * A user's preferences, or the defaults if they never saved any
+   */
+  async getPreferences(userId: string): Promise<NotificationPreferences> {
+    const saved = await this.preferencesRepository.findByUserId(userId);
+    return saved
+      ? updateNotificationPreferences(saved, {}, saved.updatedAt)
+      : defaultNotificationPreferences(userId);
+  }
+
+  /**
+   * Switch channels on or off; categories and channels not mentioned keep
+   * their current setting
+   */
+  async updatePreferences(
+    userId: string,
+    changes: NotificationPreferencesChanges,
+  ): Promise<NotificationPreferences> {
+    const current = await this.getPreferences(userId);
+    return this.preferencesRepository.save(updateNotificationPreferences(current, changes));
+  }
+}
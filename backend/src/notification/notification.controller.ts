@@ -0,0 +1,118 @@
+import {
+  Body,
+  Controller,
+  Get,
+  HttpCode,
+  HttpStatus,
+  Param,
+  Post,
+  Put,
+  Query,
+  UseGuards,
+} from '@nestjs/common';
+import { JwtAuthGuard } from '../auth/guards/jwt-auth.guard';
+import { CurrentUser } from '../auth/decorators/current-user.decorator';
+import { ApiResponse } from '../common/api/api-response';
+import { NotificationService } from './notification.service';
+import { NotificationPreferencesService } from './notification-preferences.service';
+import {
+  InboxDto,
+  InboxNotificationDto,
+  InboxQueryDto,
+  MarkAllReadResultDto,
+  NotificationPreferencesDto,
+  UpdateNotificationPreferencesDto,
+  toInboxNotificationDto,
+  toNotificationPreferencesDto,
+} from './dto';
+
+/**
+ * Notification Controller
+ *
+ * The authenticated user's in-app inbox and notification preferences.
+ */
+@Controller('notifications')
+@UseGuards(JwtAuthGuard)
+export class NotificationController {
+  constructor(
+    private readonly notificationService: NotificationService,
+    private readonly preferencesService: NotificationPreferencesService,
+  ) {}
+
+  /**
+   * Get current user's in-app notifications and unread count
+   * GET /api/v1/notifications
+   */
+  @Get()
+  async getInbox(
+    @CurrentUser('id') userId: string,
+    @Query() query: InboxQueryDto,
+  ): Promise<ApiResponse<InboxDto>> {
+    const inbox = await this.notificationService.getInbox(userId, query.limit);
+    return ApiResponse.success(
+      {
+        notifications: inbox.notifications.map(toInboxNotificationDto),
+        unreadCount: inbox.unreadCount,
+      },
+      'Notifications retrieved successfully',
+    );
+  }
+
+  /**
+   * Get current user's notification preferences
+   * GET /api/v1/notifications/preferences
+   */
+  @Get('preferences')
+  async getPreferences(
+    @CurrentUser('id') userId: string,
+  ): Promise<ApiResponse<NotificationPreferencesDto>> {
+    const preferences = await this.preferencesService.getPreferences(userId);
+    return ApiResponse.success(
+      toNotificationPreferencesDto(preferences),
+      'Notification preferences retrieved successfully',
+    );
+  }
+
+  /**
+   * Update current user's notification preferences
+   * PUT /api/v1/notifications/preferences
+   */
+  @Put('preferences')
+  async updatePreferences(
+    @CurrentUser('id') userId: string,
+    @Body() dto: UpdateNotificationPreferencesDto,
+  ): Promise<ApiResponse<NotificationPreferencesDto>> {
+    const preferences = await this.preferencesService.updatePreferences(userId, dto);
+    return ApiResponse.success(
+      toNotificationPreferencesDto(preferences),
+      'Notification preferences updated successfully',
+    );
+  }
+
+  /**
+   * Mark all of current user's notifications as read
+   * POST /api/v1/notifications/read-all
+   */
+  @Post('read-all')
+  @HttpCode(HttpStatus.OK)
+  async markAllAsRead(
+    @CurrentUser('id') userId: string,
+  ): Promise<ApiResponse<MarkAllReadResultDto>> {
+    const marked = await this.notificationService.markAllAsRead(userId);
+    return ApiResponse.success({ marked }, 'Notifications marked as read');
+  }
+
+  /**
+   * Mark one notification as read
+   * POST /api/v1/notifications/:id/read
+   */
+  @Post(':id/read')
+  @HttpCode(HttpStatus.OK)
+  async markAsRead(
+    @CurrentUser('id') userId: string,
+    @Param('id') notificationId: string,
+  ): Promise<ApiResponse<InboxNotificationDto>> {
+    const notification = await this.notificationService.markAsRead(userId, notificationId);
+    return ApiResponse.success(toInboxNotificationDto(notification), 'Notification marked as read');
+  }
+}
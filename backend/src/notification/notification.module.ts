@@ -0,0 +1,87 @@
+import { Module, forwardRef } from '@nestjs/common';
+import { AuthModule } from '../auth/auth.module';
+import { UserModule } from '../user/user.module';
+import {
+  NotificationPreferencesRepositoryProvider,
+  NotificationRepositoryProvider,
+} from '../database/repository.providers';
+import { NotificationController } from './notification.controller';
+import { NotificationService } from './notification.service';
+import { NotificationPreferencesService } from './notification-preferences.service';
+import { NotificationDispatchJob } from './notification-dispatch.job';
+import { OrderNotificationHandler } from './order-notification.handler';
+import { PaymentNotificationHandler } from './payment-notification.handler';
+import { PrescriptionNotificationHandler } from './prescription-notification.handler';
+import {
+  EMAIL_CHANNEL_PROVIDER,
+  SMS_CHANNEL_PROVIDER,
+  ConsoleChannelProvider,
+  FileSinkChannelProvider,
+  SmsGatewayProvider,
+  SmtpEmailProvider,
+} from './channels';
+import { getNotificationConfig } from './config/notification.config';
+
+/**
+ * Notification Module
+ *
+ * Customer email, SMS and in-app inbox. Event handlers turn order, payment
+ * and prescription events into templated messages; NotificationDispatchJob
+ * (scheduler, 'notification-delivery') sends them with retries. Customers
+ * pick channels per category (NotificationPreferencesService) and read
+ * in-app messages through NotificationController.
+ *
+ * Providers per channel:
+ * - NOTIFICATION_EMAIL_DRIVER=console (default) | file | smtp
+ * - NOTIFICATION_SMS_DRIVER=console (default) | file | gateway
+ *
+ * Repository Selection:
+ * - 'memory': InMemoryNotificationRepository, InMemoryNotificationPreferencesRepository
+ * - 'prisma': PrismaNotificationRepository, PrismaNotificationPreferencesRepository
+ *
+ * Exports NotificationService for modules that send messages directly.
+ */
+@Module({
+  imports: [forwardRef(() => AuthModule), UserModule],
+  controllers: [NotificationController],
+  providers: [
+    NotificationService,
+    NotificationPreferencesService,
+    NotificationRepositoryProvider,
+    NotificationPreferencesRepositoryProvider,
+    NotificationDispatchJob,
+    {
+      provide: EMAIL_CHANNEL_PROVIDER,
+      useFactory: () => {
+        const config = getNotificationConfig();
+        switch (config.emailDriver) {
+          case 'smtp':
+            return new SmtpEmailProvider(config.smtp);
+          case 'file':
+            return new FileSinkChannelProvider(config.fileSinkPath);
+          default:
+            return new ConsoleChannelProvider();
+        }
+      },
+    },
+    {
+      provide: SMS_CHANNEL_PROVIDER,
+      useFactory: () => {
+        const config = getNotificationConfig();
+        switch (config.smsDriver) {
+          case 'gateway':
+            return new SmsGatewayProvider(config.smsGateway);
+          case 'file':
+            return new FileSinkChannelProvider(config.fileSinkPath);
+          default:
+            return new ConsoleChannelProvider();
+        }
+      },
+    },
+    OrderNotificationHandler,
+    PaymentNotificationHandler,
+    PrescriptionNotificationHandler,
+  ],
+  exports: [NotificationService],
+})
+export class NotificationModule {}
@@ -0,0 +1,300 @@
+import { NotificationService } from './notification.service';
+import { OrderNotificationHandler } from './order-notification.handler';
+import { NotificationPreferencesService } from './notification-preferences.service';
+import { InMemoryNotificationRepository } from './repositories/in-memory-notification.repository';
+import { InMemoryNotificationPreferencesRepository } from './repositories/in-memory-notification-preferences.repository';
+import { NotificationNotFoundException } from './exceptions';
+import { NotificationChannel, NotificationStatus } from './domain';
+import { ChannelProvider } from './channels';
+import { NOTIFICATION_TEMPLATE_KEYS, NOTIFICATION_TEMPLATES, findTemplate } from './templates';
+import { UserService } from '../user/user.service';
+import { InMemoryUserRepository } from '../user/repositories/in-memory-user.repository';
+import { EventBus } from '../events/event-bus';
+import { InMemoryOutboxRepository } from '../events/repositories/in-memory-outbox.repository';
+import { createOrderConfirmedEvent } from '../order/domain';
+import { Money } from '../catalog/domain/money';
+
+/**
+ * Notification Service Tests
+ *
+ * Verifies:
+ * - Templates render per channel, with the locale falling back to English
+ * - Email is skipped for users without an address
+ * - Channels switched off in the user's preferences are skipped
+ * - In-app messages land in the inbox already sent, and can be marked read
+ * - Queueing is idempotent per dedupe key, so redelivered events are safe
+ * - The queued messages are the user's history
+ * - Sign-in codes are sent at once and never stored unmasked
+ */
+describe('NotificationService', () => {
+  let service: NotificationService;
+  let notificationRepository: InMemoryNotificationRepository;
+  let userRepository: InMemoryUserRepository;
+  let preferencesService: NotificationPreferencesService;
+  let smsProvider: ChannelProvider;
+
+  beforeEach(() => {
+    notificationRepository = new InMemoryNotificationRepository();
+    userRepository = new InMemoryUserRepository();
+    preferencesService = new NotificationPreferencesService(
+      new InMemoryNotificationPreferencesRepository(),
+    );
+    smsProvider = { name: 'sms-gateway', send: async () => ({ providerMessageId: 'sms-1' }) };
+    service = new NotificationService(
+      notificationRepository,
+      new UserService(userRepository),
+      preferencesService,
+      smsProvider,
+    );
+  });
+
+  it('has an English template for every message type', () => {
+    for (const key of NOTIFICATION_TEMPLATE_KEYS) {
+      expect(findTemplate(key, 'en', 'en').locale).toBe('en');
+    }
+    for (const template of NOTIFICATION_TEMPLATES) {
+      expect(template.email ?? template.sms).toBeDefined();
+    }
+  });
+
+  it('queues an email and an SMS rendered from the order template', async () => {
+    const user = await userRepository.create({
+      phoneNumber: '+919876543210',
+      email: 'asha@example.com',
+      name: 'Asha',
+    });
+
+    await service.sendOrderConfirmation(
+      'order-1',
+      user.id,
+      { amount: 1250.5, currency: 'INR' },
+      3,
+      'event-1',
+    );
+
+    const history = await service.getNotificationHistory(user.id);
+    const email = history.find((message) => message.channel === NotificationChannel.EMAIL)!;
+    const sms = history.find((message) => message.channel === NotificationChannel.SMS)!;
+    expect(email).toMatchObject({
+      channel: NotificationChannel.EMAIL,
+      recipient: 'asha@example.com',
+      subject: 'Order order-1 confirmed',
+      templateKey: 'ORDER_CONFIRMED',
+      templateVersion: 1,
+      locale: 'en',
+      status: NotificationStatus.QUEUED,
+      dedupeKey: 'event-1:EMAIL',
+    });
+    expect(email.body).toContain('Hi Asha,');
+    expect(email.body).toContain('(3 item(s), ₹1,250.50)');
+    expect(sms).toMatchObject({
+      channel: NotificationChannel.SMS,
+      recipient: '+919876543210',
+      subject: null,
+    });
+  });
+
+  it('sends SMS only when the user has no email, and falls back to English', async () => {
+    const user = await userRepository.create({ phoneNumber: '+919876543210' });
+
+    const queued = await service.notify({
+      userId: user.id,
+      template: 'PAYMENT_VERIFIED',
+      data: { orderId: 'order-1' },
+      dedupeKey: 'event-1',
+      locale: 'hi',
+    });
+
+    expect(queued.map((message) => message.channel)).toEqual([
+      NotificationChannel.SMS,
+      NotificationChannel.IN_APP,
+    ]);
+    expect(queued[0]).toMatchObject({ channel: NotificationChannel.SMS, locale: 'en' });
+  });
+
+  it('uses the template for the requested locale when there is one', async () => {
+    const user = await userRepository.create({ phoneNumber: '+919876543210' });
+
+    const [sms] = await service.notify({
+      userId: user.id,
+      template: 'PAYMENT_DUE_REMINDER',
+      data: { orderId: 'order-1', amount: '₹100.00', dueAt: '2 Feb 2026' },
+      dedupeKey: 'event-1',
+      locale: 'hi',
+    });
+
+    expect(sms.locale).toBe('hi');
+    expect(sms.body).toContain('ऑर्डर order-1');
+  });
+
+  it('queues each message once when an event is delivered twice', async () => {
+    const user = await userRepository.create({
+      phoneNumber: '+919876543210',
+      email: 'asha@example.com',
+    });
+    const handler = new OrderNotificationHandler(
+      new EventBus(new InMemoryOutboxRepository()),
+      service,
+    );
+    const event = createOrderConfirmedEvent({
+      orderId: 'order-1',
+      userId: user.id,
+      total: Money.fromMajorUnits(100, 'INR'),
+      items: [],
+    });
+
+    await handler.handle(event, { eventId: 'event-1', attempt: 1 });
+    await handler.handle(event, { eventId: 'event-1', attempt: 2 });
+
+    expect(await service.getNotificationHistory(user.id)).toHaveLength(3);
+  });
+
+  it('stores an in-app message as sent and counts it as unread', async () => {
+    const user = await userRepository.create({ phoneNumber: '+919876543210' });
+
+    await service.notify({
+      userId: user.id,
+      template: 'ORDER_DELIVERED',
+      data: { orderId: 'order-1' },
+      dedupeKey: 'event-1',
+    });
+
+    const inbox = await service.getInbox(user.id, 20);
+    expect(inbox.unreadCount).toBe(1);
+    expect(inbox.notifications).toHaveLength(1);
+    expect(inbox.notifications[0]).toMatchObject({
+      channel: NotificationChannel.IN_APP,
+      recipient: user.id,
+      subject: 'Order order-1 delivered',
+      status: NotificationStatus.SENT,
+      provider: 'in-app',
+      readAt: null,
+    });
+  });
+
+  it('skips channels the user switched off for the category', async () => {
+    const user = await userRepository.create({
+      phoneNumber: '+919876543210',
+      email: 'asha@example.com',
+    });
+    await preferencesService.updatePreferences(user.id, {
+      ORDER_UPDATES: { SMS: false, IN_APP: false },
+    });
+
+    const queued = await service.notify({
+      userId: user.id,
+      template: 'ORDER_DELIVERED',
+      data: { orderId: 'order-1' },
+      dedupeKey: 'event-1',
+    });
+    const payment = await service.notify({
+      userId: user.id,
+      template: 'PAYMENT_VERIFIED',
+      data: { orderId: 'order-1' },
+      dedupeKey: 'event-2',
+    });
+
+    expect(queued.map((message) => message.channel)).toEqual([NotificationChannel.EMAIL]);
+    expect(payment).toHaveLength(3);
+  });
+
+  it('sends account messages regardless of preferences, outside the inbox', async () => {
+    const user = await userRepository.create({
+      phoneNumber: '+919876543210',
+      email: 'asha@example.com',
+    });
+    await preferencesService.updatePreferences(user.id, {
+      ORDER_UPDATES: { EMAIL: false, SMS: false, IN_APP: false },
+      PAYMENT_UPDATES: { EMAIL: false, SMS: false, IN_APP: false },
+      PRESCRIPTION_REVIEWS: { EMAIL: false, SMS: false, IN_APP: false },
+    });
+
+    await service.sendPasswordReset(user.id, 'token-1');
+
+    const history = await service.getNotificationHistory(user.id);
+    expect(history.map((message) => message.channel)).toEqual([NotificationChannel.EMAIL]);
+    expect((await service.getInbox(user.id, 20)).unreadCount).toBe(0);
+  });
+
+  it('marks in-app messages read, one at a time or all at once', async () => {
+    const user = await userRepository.create({ phoneNumber: '+919876543210' });
+    for (const orderId of ['order-1', 'order-2', 'order-3']) {
+      await service.notify({
+        userId: user.id,
+        template: 'ORDER_DELIVERED',
+        data: { orderId },
+        dedupeKey: `event-${orderId}`,
+      });
+    }
+    const [latest] = (await service.getInbox(user.id, 20)).notifications;
+
+    const read = await service.markAsRead(user.id, latest.id);
+    expect(read.readAt).toBeInstanceOf(Date);
+    expect((await service.getInbox(user.id, 20)).unreadCount).toBe(2);
+
+    expect(await service.markAllAsRead(user.id)).toBe(2);
+    expect((await service.getInbox(user.id, 20)).unreadCount).toBe(0);
+  });
+
+  it("does not let a user mark another user's message read", async () => {
+    const owner = await userRepository.create({ phoneNumber: '+919876543210' });
+    const other = await userRepository.create({ phoneNumber: '+919876543211' });
+    const [, inApp] = await service.notify({
+      userId: owner.id,
+      template: 'ORDER_DELIVERED',
+      data: { orderId: 'order-1' },
+      dedupeKey: 'event-1',
+    });
+
+    await expect(service.markAsRead(other.id, inApp.id)).rejects.toBeInstanceOf(
+      NotificationNotFoundException,
+    );
+  });
+
+  it('skips users that no longer exist', async () => {
+    const queued = await service.notify({
+      userId: 'missing-user',
+      template: 'ORDER_DELIVERED',
+      data: { orderId: 'order-1' },
+      dedupeKey: 'event-1',
+    });
+
+    expect(queued).toEqual([]);
+  });
+
+  it('records a sign-in code that could not be sent as failed, with the code masked', async () => {
+    jest.spyOn(smsProvider, 'send').mockRejectedValue(new Error('connection refused'));
+
+    const notification = await service.sendLoginOtp({
+      phoneNumber: '+919876543210',
+      code: '482913',
+      expiresInMinutes: 5,
+      challengeId: 'challenge-1',
+    });
+
+    expect(smsProvider.send).toHaveBeenCalledWith(
+      expect.objectContaining({ body: expect.stringMatching(/^482913 is your/) }),
+    );
+    expect(notification).toMatchObject({
+      status: NotificationStatus.FAILED,
+      attempts: 1,
+      lastError: 'sms-gateway: connection refused',
+    });
+    const stored = await notificationRepository.findById(notification.id);
+    expect(stored?.body).toMatch(/^\*{6} is your/);
+    expect(JSON.stringify(stored)).not.toContain('482913');
+  });
+
+  it('rejects a template variable with no value', async () => {
+    const user = await userRepository.create({ phoneNumber: '+919876543210' });
+
+    await expect(
+      service.notify({
+        userId: user.id,
+        template: 'ORDER_DELIVERED',
+        data: {},
+        dedupeKey: 'event-1',
+      }),
+    ).rejects.toThrow("Template variable 'orderId' has no value");
+  });
+});
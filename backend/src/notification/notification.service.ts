@@ -1,97 +1,535 @@
-import { Injectable } from '@nestjs/common';
+import { Inject, Injectable } from '@nestjs/common';
+import { logWithCorrelation } from '../common/logging/logger';
+import { Money } from '../catalog/domain/money';
+import { UserService } from '../user/user.service';
+import {
+  NewNotification,
+  Notification,
+  NotificationChannel,
+  NotificationStatus,
+  createNotification,
+  isChannelEnabled,
+  markNotificationRead,
+  markNotificationSent,
+  recordNotificationFailure,
+} from './domain';
+import { NOTIFICATION_REPOSITORY, INotificationRepository } from './repositories';
+import {
+  NOTIFICATION_TEMPLATE_CATEGORIES,
+  NotificationTemplateKey,
+  TemplateData,
+  findTemplate,
+  renderTemplateText,
+} from './templates';
+import { NotificationConfig, getNotificationConfig } from './config/notification.config';
+import { NotificationPreferencesService } from './notification-preferences.service';
+import { NotificationNotFoundException } from './exceptions';
+import { SMS_CHANNEL_PROVIDER, ChannelProvider } from './channels';
+
+/** Amount as carried on domain events (major units) */
+type MoneyAmount = { readonly amount: number; readonly currency: string };
+
+/**
+ * Order updates after confirmation
+ */
+export type OrderStatusUpdate =
+  | { status: 'CANCELLED'; total: MoneyAmount }
+  | {
+      status: 'SHIPPED';
+      carrier: string;
+      trackingNumber: string;
+      /** ISO date, if the carrier gave one */
+      expectedDeliveryDate: string | null;
+    }
+  | { status: 'DELIVERED' };
+
+/**
+ * Outcome of a customer's payment attempt
+ */
+export type PaymentStatusUpdate =
+  { status: 'VERIFIED' } | { status: 'REJECTED'; reason: string | null };
+
+/**
+ * A templated message to a customer
+ */
+export interface NotifyRequest {
+  userId: string;
+  template: NotificationTemplateKey;
+  /** Template variables; `name` is filled in from the user */
+  data: TemplateData;
+  /**
+   * Stable ID for this occurrence, usually the outbox event ID. At most one
+   * message per channel is queued for it, so redelivered events are safe.
+   */
+  dedupeKey: string;
+  /** Defaults to NOTIFICATION_DEFAULT_LOCALE */
+  locale?: string;
+  correlationId?: string;
+}
+
+/**
+ * A sign-in code for a phone number
+ */
+export interface LoginOtpRequest {
+  /** Normalized phone number; may not belong to a user yet */
+  phoneNumber: string;
+  code: string;
+  expiresInMinutes: number;
+  /** Challenge the code belongs to; the message is recorded once per challenge */
+  challengeId: string;
+  /** Registered user with this number, if any */
+  userId?: string | null;
+  locale?: string;
+  correlationId?: string;
+}
+
+/**
+ * A page of the in-app inbox
+ */
+export interface Inbox {
+  notifications: Notification[];
+  /** Unread messages in the whole inbox */
+  unreadCount: number;
+}
+
+/** Messages returned by getNotificationHistory */
+const HISTORY_LIMIT = 50;
+
+/** Recorded as the provider of in-app messages */
+const IN_APP_PROVIDER = 'in-app';
+
+/** Stands in for each digit of a sign-in code in the stored message */
+const MASKED_DIGIT = '*';
+
+/** Delivery dates and deadlines are shown in Indian time */
+const DISPLAY_TIME_ZONE = 'Asia/Kolkata';
 
 /**
  * Notification Service
  *
  * Handles all notification delivery across channels.
  * This is a cross-cutting service available to other modules.
- * Currently contains placeholder implementations.
  *
- * Supported channels (future):
- * - Email
- * - SMS
- * - Push notifications
- * - In-app notifications
+ * Messages are rendered from versioned templates (see templates/) and
+ * queued; NotificationDispatchJob sends them through the channel providers
+ * and retries failures. The queue doubles as the notification log behind
+ * getNotificationHistory.
+ *
+ * Channels:
+ * - Email, if the user has an email address
+ * - SMS, to the user's phone number
+ * - In-app, stored in the user's inbox (messages with both an email and an
+ *   SMS template: the email subject as title, the SMS text as body)
+ *
+ * Each channel is skipped if the user switched it off for the template's
+ * category. Account messages (no category) ignore preferences.
+ *
+ * Sign-in codes bypass the queue: they are sent at once and stored with
+ * the code masked, so the plaintext code is never written to the database.
  */
 @Injectable()
 export class NotificationService {
+  private readonly config: NotificationConfig = getNotificationConfig();
+
+  constructor(
+    @Inject(NOTIFICATION_REPOSITORY)
+    private readonly notificationRepository: INotificationRepository,
+    private readonly userService: UserService,
+    private readonly preferencesService: NotificationPreferencesService,
+    @Inject(SMS_CHANNEL_PROVIDER)
+    private readonly smsProvider: ChannelProvider,
+  ) {}
+
   /**
-   * Send an email notification
-   */
-  async sendEmail(emailData: EmailNotificationDto): Promise<unknown> {
-    // TODO: Integrate with email service (SendGrid, SES, etc.)
-    return {
-      notificationId: 'notif-' + Date.now(),
-      channel: 'email',
-      status: 'sent',
-      recipient: emailData.to,
-      sentAt: new Date().toISOString(),
-    };
+   * Queue a templated message on every channel the template and the user
+   * have and the user's preferences allow. Returns the queued (or previously
+   * queued) messages; none if the user no longer exists.
+   */
+  async notify(request: NotifyRequest): Promise<Notification[]> {
+    const correlationId = request.correlationId ?? request.dedupeKey;
+    const user = await this.userService.getUserEntity(request.userId);
+    if (!user) {
+      logWithCorrelation(
+        'WARN',
+        correlationId,
+        'Notification skipped: user not found',
+        'NotificationService',
+        { userId: request.userId, template: request.template },
+      );
+      return [];
+    }
+
+    const template = findTemplate(
+      request.template,
+      request.locale ?? this.config.defaultLocale,
+      this.config.defaultLocale,
+    );
+    const data: TemplateData = { name: user.name ?? 'there', ...request.data };
+    const rendered = { templateKey: template.key, templateVersion: template.version };
+
+    const category = NOTIFICATION_TEMPLATE_CATEGORIES[template.key];
+    const preferences = category ? await this.preferencesService.getPreferences(user.id) : null;
+    const wants = (channel: NotificationChannel) =>
+      !category || !preferences || isChannelEnabled(preferences, category, channel);
+
+    const messages: NewNotification[] = [];
+    if (template.email && user.email && wants(NotificationChannel.EMAIL)) {
+      messages.push({
+        ...rendered,
+        userId: user.id,
+        channel: NotificationChannel.EMAIL,
+        recipient: user.email,
+        locale: template.locale,
+        subject: renderTemplateText(template.email.subject, data),
+        body: renderTemplateText(template.email.body, data),
+      });
+    }
+    if (template.sms && wants(NotificationChannel.SMS)) {
+      messages.push({
+        ...rendered,
+        userId: user.id,
+        channel: NotificationChannel.SMS,
+        recipient: user.phoneNumber,
+        locale: template.locale,
+        body: renderTemplateText(template.sms, data),
+      });
+    }
+    if (category && template.email && template.sms && wants(NotificationChannel.IN_APP)) {
+      messages.push({
+        ...rendered,
+        userId: user.id,
+        channel: NotificationChannel.IN_APP,
+        recipient: user.id,
+        locale: template.locale,
+        subject: renderTemplateText(template.email.subject, data),
+        body: renderTemplateText(template.sms, data),
+      });
+    }
+
+    const queued: Notification[] = [];
+    for (const message of messages) {
+      const dedupeKey = `${request.dedupeKey}:${message.channel}`;
+      const notification = createNotification({ ...message, dedupeKey });
+      queued.push(
+        await this.notificationRepository.enqueue(
+          message.channel === NotificationChannel.IN_APP
+            ? markNotificationSent(notification, IN_APP_PROVIDER, null, notification.createdAt)
+            : notification,
+        ),
+      );
+    }
+
+    logWithCorrelation('INFO', correlationId, 'Notification queued', 'NotificationService', {
+      userId: user.id,
+      template: template.key,
+      version: template.version,
+      locale: template.locale,
+      channels: queued.map((notification) => notification.channel),
+    });
+    return queued;
   }
 
   /**
-   * Send an SMS notification
+   * Queue an email to an address, outside the templates
    */
-  async sendSms(smsData: SmsNotificationDto): Promise<unknown> {
-    // TODO: Integrate with SMS service (Twilio, etc.)
-    return {
-      notificationId: 'notif-' + Date.now(),
-      channel: 'sms',
-      status: 'sent',
-      recipient: smsData.phoneNumber,
-      sentAt: new Date().toISOString(),
-    };
+  async sendEmail(emailData: EmailNotificationDto): Promise<Notification> {
+    return this.notificationRepository.enqueue(
+      createNotification({
+        userId: emailData.userId ?? null,
+        channel: NotificationChannel.EMAIL,
+        recipient: emailData.to,
+        subject: emailData.subject,
+        body: emailData.body,
+      }),
+    );
   }
 
   /**
-   * Send a push notification
+   * Queue an SMS to a phone number, outside the templates
    */
-  async sendPush(pushData: PushNotificationDto): Promise<unknown> {
-    // TODO: Integrate with push service (FCM, APNs, etc.)
-    return {
-      notificationId: 'notif-' + Date.now(),
-      channel: 'push',
-      status: 'sent',
-      recipient: pushData.userId,
-      sentAt: new Date().toISOString(),
-    };
+  async sendSms(smsData: SmsNotificationDto): Promise<Notification> {
+    return this.notificationRepository.enqueue(
+      createNotification({
+        userId: smsData.userId ?? null,
+        channel: NotificationChannel.SMS,
+        recipient: smsData.phoneNumber,
+        body: smsData.message,
+      }),
+    );
   }
 
   /**
    * Send order confirmation notification
    */
-  async sendOrderConfirmation(orderId: string, userId: string): Promise<void> {
-    // TODO: Implement order confirmation notification
+  async sendOrderConfirmation(
+    orderId: string,
+    userId: string,
+    total: MoneyAmount,
+    itemCount: number,
+    dedupeKey: string,
+  ): Promise<void> {
+    await this.notify({
+      userId,
+      template: 'ORDER_CONFIRMED',
+      data: { orderId, total: formatMoney(total), itemCount: String(itemCount) },
+      dedupeKey,
+    });
   }
 
   /**
    * Send order status update notification
    */
-  async sendOrderStatusUpdate(orderId: string, status: string): Promise<void> {
-    // TODO: Implement order status notification
+  async sendOrderStatusUpdate(
+    orderId: string,
+    userId: string,
+    update: OrderStatusUpdate,
+    dedupeKey: string,
+  ): Promise<void> {
+    switch (update.status) {
+      case 'CANCELLED':
+        await this.notify({
+          userId,
+          template: 'ORDER_CANCELLED',
+          data: { orderId, total: formatMoney(update.total) },
+          dedupeKey,
+        });
+        break;
+      case 'SHIPPED':
+        await this.notify({
+          userId,
+          template: 'ORDER_SHIPPED',
+          data: {
+            orderId,
+            carrier: update.carrier,
+            trackingNumber: update.trackingNumber,
+            expectedDelivery: update.expectedDeliveryDate
+              ? formatDate(update.expectedDeliveryDate)
+              : 'to be confirmed',
+          },
+          dedupeKey,
+        });
+        break;
+      case 'DELIVERED':
+        await this.notify({ userId, template: 'ORDER_DELIVERED', data: { orderId }, dedupeKey });
+        break;
+    }
+  }
+
+  /**
+   * Remind a customer to pay for a confirmed order before it is cancelled
+   */
+  async sendPaymentReminder(
+    orderId: string,
+    userId: string,
+    amount: MoneyAmount,
+    dueAt: string,
+    dedupeKey: string,
+  ): Promise<void> {
+    await this.notify({
+      userId,
+      template: 'PAYMENT_DUE_REMINDER',
+      data: { orderId, amount: formatMoney(amount), dueAt: formatDateTime(dueAt) },
+      dedupeKey,
+    });
+  }
+
+  /**
+   * Tell a customer whether their payment was accepted
+   */
+  async sendPaymentStatusUpdate(
+    orderId: string,
+    userId: string,
+    update: PaymentStatusUpdate,
+    dedupeKey: string,
+  ): Promise<void> {
+    if (update.status === 'VERIFIED') {
+      await this.notify({ userId, template: 'PAYMENT_VERIFIED', data: { orderId }, dedupeKey });
+      return;
+    }
+    await this.notify({
+      userId,
+      template: 'PAYMENT_REJECTED',
+      data: { orderId, reason: update.reason ?? 'the payment could not be matched' },
+      dedupeKey,
+    });
   }
 
   /**
    * Send prescription verification notification
    */
-  async sendPrescriptionVerified(prescriptionId: string, userId: string): Promise<void> {
-    // TODO: Implement prescription notification
+  async sendPrescriptionVerified(
+    prescriptionId: string,
+    userId: string,
+    dedupeKey: string,
+  ): Promise<void> {
+    await this.notify({
+      userId,
+      template: 'PRESCRIPTION_APPROVED',
+      data: { prescriptionId },
+      dedupeKey,
+    });
+  }
+
+  /**
+   * Tell a customer their prescription was not approved, and why
+   */
+  async sendPrescriptionRejected(
+    prescriptionId: string,
+    userId: string,
+    reason: string | null,
+    dedupeKey: string,
+  ): Promise<void> {
+    await this.notify({
+      userId,
+      template: 'PRESCRIPTION_REJECTED',
+      data: { prescriptionId, reason: reason ?? 'no reason given' },
+      dedupeKey,
+    });
   }
 
   /**
    * Send password reset notification
    */
   async sendPasswordReset(userId: string, resetToken: string): Promise<void> {
-    // TODO: Implement password reset notification
+    await this.notify({
+      userId,
+      template: 'PASSWORD_RESET',
+      data: { resetToken },
+      dedupeKey: `password-reset:${resetToken}`,
+    });
+  }
+
+  /**
+   * Send a sign-in code by SMS. The number need not be registered, and
+   * preferences do not apply: the customer asked for the code.
+   *
+   * Sent directly rather than queued, since a queued message would have to
+   * hold the code until the dispatcher picked it up. The stored message has
+   * the code masked and is SENT, or FAILED without a retry: the code expires
+   * in minutes and the customer can request another.
+   */
+  async sendLoginOtp(request: LoginOtpRequest): Promise<Notification> {
+    const template = findTemplate(
+      'LOGIN_OTP',
+      request.locale ?? this.config.defaultLocale,
+      this.config.defaultLocale,
+    );
+    if (!template.sms) {
+      throw new Error(`Template LOGIN_OTP v${template.version} has no SMS text`);
+    }
+    const minutes = String(request.expiresInMinutes);
+
+    const notification = createNotification({
+      userId: request.userId ?? null,
+      channel: NotificationChannel.SMS,
+      recipient: request.phoneNumber,
+      templateKey: template.key,
+      templateVersion: template.version,
+      locale: template.locale,
+      body: renderTemplateText(template.sms, {
+        code: MASKED_DIGIT.repeat(request.code.length),
+        minutes,
+      }),
+      dedupeKey: `login-otp:${request.challengeId}`,
+    });
+    const correlationId = request.correlationId ?? notification.id;
+
+    let delivered: Notification;
+    try {
+      const { providerMessageId } = await this.smsProvider.send({
+        id: notification.id,
+        channel: NotificationChannel.SMS,
+        to: request.phoneNumber,
+        subject: null,
+        body: renderTemplateText(template.sms, { code: request.code, minutes }),
+      });
+      delivered = markNotificationSent(notification, this.smsProvider.name, providerMessageId);
+    } catch (error) {
+      delivered = recordNotificationFailure(
+        notification,
+        `${this.smsProvider.name}: ${error instanceof Error ? error.message : String(error)}`,
+        { maxAttempts: 1, baseDelayMs: 0 },
+      );
+      logWithCorrelation('ERROR', correlationId, 'Login code not sent', 'NotificationService', {
+        userId: request.userId ?? null,
+        error: delivered.lastError,
+      });
+    }
+
+    const stored = await this.notificationRepository.enqueue(delivered);
+    if (delivered.status === NotificationStatus.SENT) {
+      logWithCorrelation('INFO', correlationId, 'Login code sent', 'NotificationService', {
+        userId: request.userId ?? null,
+        template: template.key,
+        version: template.version,
+      });
+    }
+    return stored;
+  }
+
+  /**
+   * Get notification history for a user, most recent first
+   */
+  async getNotificationHistory(userId: string): Promise<Notification[]> {
+    return this.notificationRepository.findByUserId(userId, HISTORY_LIMIT);
   }
 
   /**
-   * Get notification history for a user
+   * A user's in-app messages, most recent first, with the unread count
    */
-  async getNotificationHistory(userId: string): Promise<unknown[]> {
-    // TODO: Implement with database
-    return [];
+  async getInbox(userId: string, limit: number): Promise<Inbox> {
+    const [notifications, unreadCount] = await Promise.all([
+      this.notificationRepository.findInbox(userId, limit),
+      this.notificationRepository.countUnread(userId),
+    ]);
+    return { notifications, unreadCount };
   }
+
+  /**
+   * Mark one of the user's in-app messages as read
+   * @throws NotificationNotFoundException if it is not in the user's inbox
+   */
+  async markAsRead(userId: string, notificationId: string): Promise<Notification> {
+    const notification = await this.notificationRepository.findById(notificationId);
+    if (
+      !notification ||
+      notification.userId !== userId ||
+      notification.channel !== NotificationChannel.IN_APP
+    ) {
+      throw new NotificationNotFoundException(notificationId);
+    }
+    if (notification.readAt) {
+      return notification;
+    }
+    return this.notificationRepository.save(markNotificationRead(notification));
+  }
+
+  /**
+   * Mark the user's whole inbox as read
+   * @returns number of messages that were unread
+   */
+  async markAllAsRead(userId: string): Promise<number> {
+    return this.notificationRepository.markAllRead(userId, new Date());
+  }
+}
+
+function formatMoney(money: MoneyAmount): string {
+  return Money.fromMajorUnits(money.amount, money.currency).format();
+}
+
+function formatDate(iso: string): string {
+  return new Intl.DateTimeFormat('en-IN', {
+    dateStyle: 'medium',
+    timeZone: DISPLAY_TIME_ZONE,
+  }).format(new Date(iso));
+}
+
+function formatDateTime(iso: string): string {
+  return new Intl.DateTimeFormat('en-IN', {
+    dateStyle: 'medium',
+    timeStyle: 'short',
+    timeZone: DISPLAY_TIME_ZONE,
+  }).format(new Date(iso));
 }
 
 /**
@@ -101,8 +539,8 @@ interface EmailNotificationDto {
   to: string;
   subject: string;
   body: string;
-  template?: string;
-  templateData?: Record<string, unknown>;
+  /** Customer the email is about, if any; shown in their history */
+  userId?: string;
 }
 
 /**
@@ -111,14 +549,6 @@ interface EmailNotificationDto {
 interface SmsNotificationDto {
   phoneNumber: string;
   message: string;
-}
-
-/**
- * DTO for push notifications
- */
-interface PushNotificationDto {
-  userId: string;
-  title: string;
-  body: string;
-  data?: Record<string, unknown>;
+  /** Customer the SMS is about, if any; shown in their history */
+  userId?: string;
 }
@@ -0,0 +1,77 @@
+import { Injectable, OnModuleInit } from '@nestjs/common';
+import { EventBus } from '../events/event-bus';
+import { DomainEventHandler, EventHandlingContext } from '../events/domain-event-handler.interface';
+import { DomainEvent } from '../events/domain';
+import type {
+  OrderCancelledEvent,
+  OrderConfirmedEvent,
+  OrderDeliveredEvent,
+  OrderShippedEvent,
+} from '../order/domain';
+import { NotificationService } from './notification.service';
+
+/**
+ * Order Notification Handler
+ *
+ * Tells customers when their order is confirmed, cancelled, shipped or
+ * delivered. Messages are keyed by event ID, so redelivery queues nothing new.
+ */
+@Injectable()
+export class OrderNotificationHandler implements DomainEventHandler, OnModuleInit {
+  readonly name = 'order-notifications';
+  readonly eventTypes = ['ORDER_CONFIRMED', 'ORDER_CANCELLED', 'ORDER_SHIPPED', 'ORDER_DELIVERED'];
+
+  constructor(
+    private readonly eventBus: EventBus,
+    private readonly notificationService: NotificationService,
+  ) {}
+
+  onModuleInit(): void {
+    this.eventBus.subscribe(this);
+  }
+
+  async handle(event: DomainEvent, context: EventHandlingContext): Promise<void> {
+    const orderEvent = event as
+      OrderConfirmedEvent | OrderCancelledEvent | OrderShippedEvent | OrderDeliveredEvent;
+    switch (orderEvent.type) {
+      case 'ORDER_CONFIRMED':
+        await this.notificationService.sendOrderConfirmation(
+          orderEvent.orderId,
+          orderEvent.userId,
+          orderEvent.total,
+          orderEvent.itemCount,
+          context.eventId,
+        );
+        break;
+      case 'ORDER_CANCELLED':
+        await this.notificationService.sendOrderStatusUpdate(
+          orderEvent.orderId,
+          orderEvent.userId,
+          { status: 'CANCELLED', total: orderEvent.total },
+          context.eventId,
+        );
+        break;
+      case 'ORDER_SHIPPED':
+        await this.notificationService.sendOrderStatusUpdate(
+          orderEvent.orderId,
+          orderEvent.userId,
+          {
+            status: 'SHIPPED',
+            carrier: orderEvent.carrier,
+            trackingNumber: orderEvent.trackingNumber,
+            expectedDeliveryDate: orderEvent.expectedDeliveryDate,
+          },
+          context.eventId,
+        );
+        break;
+      case 'ORDER_DELIVERED':
+        await this.notificationService.sendOrderStatusUpdate(
+          orderEvent.orderId,
+          orderEvent.userId,
+          { status: 'DELIVERED' },
+          context.eventId,
+        );
+        break;
+    }
+  }
+}
@@ -0,0 +1,64 @@
+import { Injectable, OnModuleInit } from '@nestjs/common';
+import { EventBus } from '../events/event-bus';
+import { DomainEventHandler, EventHandlingContext } from '../events/domain-event-handler.interface';
+import { DomainEvent } from '../events/domain';
+import type {
+  PaymentDueReminderEvent,
+  PaymentRejectedEvent,
+  PaymentVerifiedEvent,
+} from '../payment/domain/payment-events';
+import { NotificationService } from './notification.service';
+
+/**
+ * Payment Notification Handler
+ *
+ * Reminds customers to pay before their unpaid order is cancelled, and tells
+ * them whether a payment was accepted. Expired payments are not announced
+ * here: the order cancellation that follows is.
+ */
+@Injectable()
+export class PaymentNotificationHandler implements DomainEventHandler, OnModuleInit {
+  readonly name = 'payment-notifications';
+  readonly eventTypes = ['PAYMENT_DUE_REMINDER', 'PAYMENT_VERIFIED', 'PAYMENT_REJECTED'];
+
+  constructor(
+    private readonly eventBus: EventBus,
+    private readonly notificationService: NotificationService,
+  ) {}
+
+  onModuleInit(): void {
+    this.eventBus.subscribe(this);
+  }
+
+  async handle(event: DomainEvent, context: EventHandlingContext): Promise<void> {
+    const paymentEvent = event as
+      PaymentDueReminderEvent | PaymentVerifiedEvent | PaymentRejectedEvent;
+    switch (paymentEvent.type) {
+      case 'PAYMENT_DUE_REMINDER':
+        await this.notificationService.sendPaymentReminder(
+          paymentEvent.orderId,
+          paymentEvent.userId,
+          paymentEvent.amount,
+          paymentEvent.dueAt,
+          context.eventId,
+        );
+        break;
+      case 'PAYMENT_VERIFIED':
+        await this.notificationService.sendPaymentStatusUpdate(
+          paymentEvent.orderId,
+          paymentEvent.userId,
+          { status: 'VERIFIED' },
+          context.eventId,
+        );
+        break;
+      case 'PAYMENT_REJECTED':
+        await this.notificationService.sendPaymentStatusUpdate(
+          paymentEvent.orderId,
+          paymentEvent.userId,
+          { status: 'REJECTED', reason: paymentEvent.rejectionReason },
+          context.eventId,
+        );
+        break;
+    }
+  }
+}
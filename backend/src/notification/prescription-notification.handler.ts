@@ -0,0 +1,47 @@
+import { Injectable, OnModuleInit } from '@nestjs/common';
+import { EventBus } from '../events/event-bus';
+import { DomainEventHandler, EventHandlingContext } from '../events/domain-event-handler.interface';
+import { DomainEvent } from '../events/domain';
+import type {
+  PrescriptionApprovedEvent,
+  PrescriptionRejectedEvent,
+} from '../prescription/domain/prescription-events';
+import { NotificationService } from './notification.service';
+
+/**
+ * Prescription Notification Handler
+ *
+ * Tells customers the outcome of a pharmacist's prescription review.
+ */
+@Injectable()
+export class PrescriptionNotificationHandler implements DomainEventHandler, OnModuleInit {
+  readonly name = 'prescription-notifications';
+  readonly eventTypes = ['PRESCRIPTION_APPROVED', 'PRESCRIPTION_REJECTED'];
+
+  constructor(
+    private readonly eventBus: EventBus,
+    private readonly notificationService: NotificationService,
+  ) {}
+
+  onModuleInit(): void {
+    this.eventBus.subscribe(this);
+  }
+
+  async handle(event: DomainEvent, context: EventHandlingContext): Promise<void> {
+    const review = event as PrescriptionApprovedEvent | PrescriptionRejectedEvent;
+    if (review.type === 'PRESCRIPTION_APPROVED') {
+      await this.notificationService.sendPrescriptionVerified(
+        review.prescriptionId,
+        review.userId,
+        context.eventId,
+      );
+      return;
+    }
+    await this.notificationService.sendPrescriptionRejected(
+      review.prescriptionId,
+      review.userId,
+      review.rejectionReason,
+      context.eventId,
+    );
+  }
+}
@@ -0,0 +1,29 @@
+import { Injectable } from '@nestjs/common';
+import { NotificationPreferences } from '../domain';
+import { INotificationPreferencesRepository } from './notification-preferences-repository.interface';
+
+/**
+ * In-Memory Notification Preferences Repository
+ *
+ * Development and test implementation. Data resets on restart.
+ */
+@Injectable()
+export class InMemoryNotificationPreferencesRepository implements INotificationPreferencesRepository {
+  private preferences: Map<string, NotificationPreferences> = new Map();
+
+  async findByUserId(userId: string): Promise<NotificationPreferences | null> {
+    return this.preferences.get(userId) ?? null;
+  }
+
+  async save(preferences: NotificationPreferences): Promise<NotificationPreferences> {
+    this.preferences.set(preferences.userId, preferences);
+    return preferences;
+  }
+
+  /**
+   * Clear all preferences (for testing)
+   */
+  clear(): void {
+    this.preferences.clear();
+  }
+}
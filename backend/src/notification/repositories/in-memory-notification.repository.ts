@@ -0,0 +1,94 @@
+import { Injectable } from '@nestjs/common';
+import { Notification, NotificationChannel, NotificationStatus } from '../domain';
+import { INotificationRepository } from './notification-repository.interface';
+
+/**
+ * In-Memory Notification Repository
+ *
+ * Development and test implementation. Data resets on restart.
+ */
+@Injectable()
+export class InMemoryNotificationRepository implements INotificationRepository {
+  private notifications: Map<string, Notification> = new Map();
+
+  async enqueue(notification: Notification): Promise<Notification> {
+    if (notification.dedupeKey) {
+      const existing = [...this.notifications.values()].find(
+        (candidate) => candidate.dedupeKey === notification.dedupeKey,
+      );
+      if (existing) {
+        return existing;
+      }
+    }
+    this.notifications.set(notification.id, notification);
+    return notification;
+  }
+
+  async claimDue(now: Date, limit: number, leaseUntil: Date): Promise<Notification[]> {
+    const due = [...this.notifications.values()]
+      .filter(
+        (notification) =>
+          notification.status === NotificationStatus.QUEUED &&
+          notification.nextAttemptAt.getTime() <= now.getTime(),
+      )
+      .sort((a, b) => a.createdAt.getTime() - b.createdAt.getTime())
+      .slice(0, limit);
+
+    return due.map((notification) => {
+      const claimed = { ...notification, nextAttemptAt: leaseUntil };
+      this.notifications.set(notification.id, claimed);
+      return claimed;
+    });
+  }
+
+  async save(notification: Notification): Promise<Notification> {
+    this.notifications.set(notification.id, notification);
+    return notification;
+  }
+
+  async findById(id: string): Promise<Notification | null> {
+    return this.notifications.get(id) ?? null;
+  }
+
+  async findByUserId(userId: string, limit: number): Promise<Notification[]> {
+    return [...this.notifications.values()]
+      .filter((notification) => notification.userId === userId)
+      .sort((a, b) => b.createdAt.getTime() - a.createdAt.getTime())
+      .slice(0, limit);
+  }
+
+  async findInbox(userId: string, limit: number): Promise<Notification[]> {
+    return [...this.notifications.values()]
+      .filter((notification) => this.isInboxMessage(notification, userId))
+      .sort((a, b) => b.createdAt.getTime() - a.createdAt.getTime())
+      .slice(0, limit);
+  }
+
+  async countUnread(userId: string): Promise<number> {
+    return [...this.notifications.values()].filter(
+      (notification) => this.isInboxMessage(notification, userId) && !notification.readAt,
+    ).length;
+  }
+
+  async markAllRead(userId: string, now: Date): Promise<number> {
+    let marked = 0;
+    for (const notification of this.notifications.values()) {
+      if (this.isInboxMessage(notification, userId) && !notification.readAt) {
+        this.notifications.set(notification.id, { ...notification, readAt: now });
+        marked++;
+      }
+    }
+    return marked;
+  }
+
+  /**
+   * Clear all notifications (for testing)
+   */
+  clear(): void {
+    this.notifications.clear();
+  }
+
+  private isInboxMessage(notification: Notification, userId: string): boolean {
+    return notification.userId === userId && notification.channel === NotificationChannel.IN_APP;
+  }
+}
@@ -0,0 +1,12 @@
+export {
+  NOTIFICATION_REPOSITORY,
+  INotificationRepository,
+} from './notification-repository.interface';
+export { InMemoryNotificationRepository } from './in-memory-notification.repository';
+export { PrismaNotificationRepository } from './prisma-notification.repository';
+export {
+  NOTIFICATION_PREFERENCES_REPOSITORY,
+  INotificationPreferencesRepository,
+} from './notification-preferences-repository.interface';
+export { InMemoryNotificationPreferencesRepository } from './in-memory-notification-preferences.repository';
+export { PrismaNotificationPreferencesRepository } from './prisma-notification-preferences.repository';
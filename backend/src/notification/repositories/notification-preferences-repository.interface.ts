@@ -0,0 +1,20 @@
+import { NotificationPreferences } from '../domain';
+
+/**
+ * Notification Preferences Repository Interface
+ *
+ * One row per user who has saved preferences.
+ */
+export interface INotificationPreferencesRepository {
+  /**
+   * Saved preferences, or null if the user is on the defaults
+   */
+  findByUserId(userId: string): Promise<NotificationPreferences | null>;
+
+  /**
+   * Create or replace a user's preferences
+   */
+  save(preferences: NotificationPreferences): Promise<NotificationPreferences>;
+}
+
+export const NOTIFICATION_PREFERENCES_REPOSITORY = 'NOTIFICATION_PREFERENCES_REPOSITORY';
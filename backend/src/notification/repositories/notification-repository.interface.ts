@@ -0,0 +1,47 @@
+import { Notification } from '../domain';
+
+/**
+ * Notification Repository Interface
+ *
+ * Backs the delivery queue, the notification log and the in-app inbox.
+ */
+export interface INotificationRepository {
+  /**
+   * Queue a message. If one with the same dedupeKey already exists, nothing
+   * is written and the existing message is returned.
+   */
+  enqueue(notification: Notification): Promise<Notification>;
+
+  /**
+   * Claim QUEUED messages due at `now`, oldest first. Claimed messages are
+   * not due again until `leaseUntil`, so concurrent dispatchers skip them.
+   */
+  claimDue(now: Date, limit: number, leaseUntil: Date): Promise<Notification[]>;
+
+  save(notification: Notification): Promise<Notification>;
+
+  findById(id: string): Promise<Notification | null>;
+
+  /**
+   * A user's messages, most recent first
+   */
+  findByUserId(userId: string, limit: number): Promise<Notification[]>;
+
+  /**
+   * A user's IN_APP messages, most recent first
+   */
+  findInbox(userId: string, limit: number): Promise<Notification[]>;
+
+  /**
+   * Unread IN_APP messages for a user
+   */
+  countUnread(userId: string): Promise<number>;
+
+  /**
+   * Mark every unread IN_APP message for a user as read
+   * @returns number of messages marked
+   */
+  markAllRead(userId: string, now: Date): Promise<number>;
+}
+
+export const NOTIFICATION_REPOSITORY = 'NOTIFICATION_REPOSITORY';
@@ -0,0 +1,45 @@
+import { Injectable } from '@nestjs/common';
+import { Prisma, NotificationPreferences as PrismaNotificationPreferences } from '@prisma/client';
+import { PrismaService } from '../../database/prisma.service';
+import { NotificationPreferences } from '../domain';
+import { INotificationPreferencesRepository } from './notification-preferences-repository.interface';
+
+/**
+ * Prisma Notification Preferences Repository
+ *
+ * Categories are stored as one JSON column; updateNotificationPreferences
+ * fills in categories and channels added since the row was written.
+ */
+@Injectable()
+export class PrismaNotificationPreferencesRepository implements INotificationPreferencesRepository {
+  constructor(private readonly prisma: PrismaService) {}
+
+  async findByUserId(userId: string): Promise<NotificationPreferences | null> {
+    const preferences = await this.prisma.notificationPreferences.findUnique({
+      where: { userId },
+    });
+    return preferences ? this.toDomain(preferences) : null;
+  }
+
+  async save(preferences: NotificationPreferences): Promise<NotificationPreferences> {
+    const categories = preferences.categories as unknown as Prisma.InputJsonObject;
+    const saved = await this.prisma.notificationPreferences.upsert({
+      where: { userId: preferences.userId },
+      create: { userId: preferences.userId, categories, updatedAt: preferences.updatedAt },
+      update: { categories, updatedAt: preferences.updatedAt },
+    });
+    return this.toDomain(saved);
+  }
+
+  // ==========================================================================
+  // Private Helpers
+  // ==========================================================================
+
+  private toDomain(preferences: PrismaNotificationPreferences): NotificationPreferences {
+    return {
+      userId: preferences.userId,
+      categories: preferences.categories as unknown as NotificationPreferences['categories'],
+      updatedAt: preferences.updatedAt,
+    };
+  }
+}
@@ -0,0 +1,175 @@
+import { Injectable } from '@nestjs/common';
+import {
+  Notification as PrismaNotification,
+  NotificationChannel as PrismaNotificationChannel,
+  NotificationStatus as PrismaNotificationStatus,
+} from '@prisma/client';
+import { PrismaService } from '../../database/prisma.service';
+import { Notification, NotificationChannel, NotificationStatus } from '../domain';
+import { INotificationRepository } from './notification-repository.interface';
+
+/**
+ * Prisma Notification Repository
+ *
+ * dedupeKey is unique, so two instances queueing the same message race on
+ * the insert and the loser reads the winner's row. Claims use a conditional
+ * update on nextAttemptAt, like the outbox.
+ */
+@Injectable()
+export class PrismaNotificationRepository implements INotificationRepository {
+  constructor(private readonly prisma: PrismaService) {}
+
+  async enqueue(notification: Notification): Promise<Notification> {
+    try {
+      const created = await this.prisma.notification.create({
+        data: {
+          id: notification.id,
+          userId: notification.userId,
+          channel: notification.channel as PrismaNotificationChannel,
+          recipient: notification.recipient,
+          templateKey: notification.templateKey,
+          templateVersion: notification.templateVersion,
+          locale: notification.locale,
+          subject: notification.subject,
+          body: notification.body,
+          dedupeKey: notification.dedupeKey,
+          status: notification.status as PrismaNotificationStatus,
+          attempts: notification.attempts,
+          lastError: notification.lastError,
+          nextAttemptAt: notification.nextAttemptAt,
+          provider: notification.provider,
+          providerMessageId: notification.providerMessageId,
+          sentAt: notification.sentAt,
+          readAt: notification.readAt,
+          createdAt: notification.createdAt,
+        },
+      });
+      return this.toDomain(created);
+    } catch (error) {
+      if (notification.dedupeKey && this.hasErrorCode(error, 'P2002')) {
+        const existing = await this.prisma.notification.findUnique({
+          where: { dedupeKey: notification.dedupeKey },
+        });
+        if (existing) {
+          return this.toDomain(existing);
+        }
+      }
+      throw error;
+    }
+  }
+
+  async claimDue(now: Date, limit: number, leaseUntil: Date): Promise<Notification[]> {
+    const due = await this.prisma.notification.findMany({
+      where: { status: PrismaNotificationStatus.QUEUED, nextAttemptAt: { lte: now } },
+      orderBy: { createdAt: 'asc' },
+      take: limit,
+    });
+
+    const claimed: Notification[] = [];
+    for (const notification of due) {
+      const { count } = await this.prisma.notification.updateMany({
+        where: {
+          id: notification.id,
+          status: PrismaNotificationStatus.QUEUED,
+          nextAttemptAt: notification.nextAttemptAt,
+        },
+        data: { nextAttemptAt: leaseUntil },
+      });
+      if (count === 1) {
+        claimed.push(this.toDomain({ ...notification, nextAttemptAt: leaseUntil }));
+      }
+    }
+    return claimed;
+  }
+
+  async save(notification: Notification): Promise<Notification> {
+    const saved = await this.prisma.notification.update({
+      where: { id: notification.id },
+      data: {
+        status: notification.status as PrismaNotificationStatus,
+        attempts: notification.attempts,
+        lastError: notification.lastError,
+        nextAttemptAt: notification.nextAttemptAt,
+        provider: notification.provider,
+        providerMessageId: notification.providerMessageId,
+        sentAt: notification.sentAt,
+        readAt: notification.readAt,
+      },
+    });
+    return this.toDomain(saved);
+  }
+
+  async findById(id: string): Promise<Notification | null> {
+    const notification = await this.prisma.notification.findUnique({ where: { id } });
+    return notification ? this.toDomain(notification) : null;
+  }
+
+  async findByUserId(userId: string, limit: number): Promise<Notification[]> {
+    const notifications = await this.prisma.notification.findMany({
+      where: { userId },
+      orderBy: { createdAt: 'desc' },
+      take: limit,
+    });
+    return notifications.map((notification) => this.toDomain(notification));
+  }
+
+  async findInbox(userId: string, limit: number): Promise<Notification[]> {
+    const notifications = await this.prisma.notification.findMany({
+      where: { userId, channel: PrismaNotificationChannel.IN_APP },
+      orderBy: { createdAt: 'desc' },
+      take: limit,
+    });
+    return notifications.map((notification) => this.toDomain(notification));
+  }
+
+  async countUnread(userId: string): Promise<number> {
+    return this.prisma.notification.count({
+      where: { userId, channel: PrismaNotificationChannel.IN_APP, readAt: null },
+    });
+  }
+
+  async markAllRead(userId: string, now: Date): Promise<number> {
+    const { count } = await this.prisma.notification.updateMany({
+      where: { userId, channel: PrismaNotificationChannel.IN_APP, readAt: null },
+      data: { readAt: now },
+    });
+    return count;
+  }
+
+  // ==========================================================================
+  // Private Helpers
+  // ==========================================================================
+
+  private toDomain(notification: PrismaNotification): Notification {
+    return {
+      id: notification.id,
+      userId: notification.userId,
+      channel: notification.channel as NotificationChannel,
+      recipient: notification.recipient,
+      templateKey: notification.templateKey,
+      templateVersion: notification.templateVersion,
+      locale: notification.locale,
+      subject: notification.subject,
+      body: notification.body,
+      dedupeKey: notification.dedupeKey,
+      status: notification.status as NotificationStatus,
+      attempts: notification.attempts,
+      lastError: notification.lastError,
+      nextAttemptAt: notification.nextAttemptAt,
+      provider: notification.provider,
+      providerMessageId: notification.providerMessageId,
+      sentAt: notification.sentAt,
+      readAt: notification.readAt,
+      createdAt: notification.createdAt,
+    };
+  }
+
+  private hasErrorCode(error: unknown, code: string): boolean {
+    return (
+      typeof error === 'object' &&
+      error !== null &&
+      'code' in error &&
+      (error as { code: string }).code === code
+    );
+  }
+}
@@ -0,0 +1,9 @@
+export {
+  NOTIFICATION_TEMPLATE_KEYS,
+  type NotificationTemplateKey,
+  NOTIFICATION_TEMPLATE_CATEGORIES,
+  type NotificationTemplate,
+  type TemplateData,
+  renderTemplateText,
+} from './notification-template';
+export { NOTIFICATION_TEMPLATES, findTemplate } from './notification-templates';
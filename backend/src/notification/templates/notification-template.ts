@@ -0,0 +1,74 @@
+import { NotificationCategory } from '../domain/notification-category';
+
+/**
+ * Message types the platform sends. Event-driven ones share the event's name.
+ */
+export const NOTIFICATION_TEMPLATE_KEYS = [
+  'ORDER_CONFIRMED',
+  'ORDER_CANCELLED',
+  'ORDER_SHIPPED',
+  'ORDER_DELIVERED',
+  'PAYMENT_DUE_REMINDER',
+  'PAYMENT_VERIFIED',
+  'PAYMENT_REJECTED',
+  'PRESCRIPTION_APPROVED',
+  'PRESCRIPTION_REJECTED',
+  'PASSWORD_RESET',
+  'LOGIN_OTP',
+] as const;
+
+export type NotificationTemplateKey = (typeof NOTIFICATION_TEMPLATE_KEYS)[number];
+
+/**
+ * Preference category of each message type. Account messages (null) are
+ * always sent and do not appear in the in-app inbox.
+ */
+export const NOTIFICATION_TEMPLATE_CATEGORIES: Readonly<
+  Record<NotificationTemplateKey, NotificationCategory | null>
+> = {
+  ORDER_CONFIRMED: NotificationCategory.ORDER_UPDATES,
+  ORDER_CANCELLED: NotificationCategory.ORDER_UPDATES,
+  ORDER_SHIPPED: NotificationCategory.ORDER_UPDATES,
+  ORDER_DELIVERED: NotificationCategory.ORDER_UPDATES,
+  PAYMENT_DUE_REMINDER: NotificationCategory.PAYMENT_UPDATES,
+  PAYMENT_VERIFIED: NotificationCategory.PAYMENT_UPDATES,
+  PAYMENT_REJECTED: NotificationCategory.PAYMENT_UPDATES,
+  PRESCRIPTION_APPROVED: NotificationCategory.PRESCRIPTION_REVIEWS,
+  PRESCRIPTION_REJECTED: NotificationCategory.PRESCRIPTION_REVIEWS,
+  PASSWORD_RESET: null,
+  LOGIN_OTP: null,
+};
+
+/**
+ * Notification Template
+ *
+ * Wording of one message type in one locale. Text uses {{variable}}
+ * placeholders. A channel left out is not used for that message type.
+ *
+ * Versions: to change the wording, add an entry with the next version
+ * instead of editing one that has been sent. The highest version is used,
+ * and each notification records the version it was rendered from.
+ */
+export interface NotificationTemplate {
+  readonly key: NotificationTemplateKey;
+  readonly locale: string;
+  readonly version: number;
+  readonly email?: { readonly subject: string; readonly body: string };
+  readonly sms?: string;
+}
+
+export type TemplateData = Readonly<Record<string, string>>;
+
+/**
+ * Replace {{variable}} placeholders
+ * @throws Error if a placeholder has no value (a bug in the caller or template)
+ */
+export function renderTemplateText(text: string, data: TemplateData): string {
+  return text.replace(/\{\{\s*(\w+)\s*\}\}/g, (_, name: string) => {
+    const value = data[name];
+    if (value === undefined) {
+      throw new Error(`Template variable '${name}' has no value`);
+    }
+    return value;
+  });
+}
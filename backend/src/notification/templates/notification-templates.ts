@@ -0,0 +1,203 @@
+import { NotificationTemplate, NotificationTemplateKey } from './notification-template';
+
+/**
+ * Template registry
+ *
+ * Every message type must have an 'en' template, the fallback for locales
+ * without their own. SMS text is kept under 160 characters where possible.
+ */
+export const NOTIFICATION_TEMPLATES: readonly NotificationTemplate[] = [
+  // ---------------------------------------------------------------------------
+  // Orders
+  // ---------------------------------------------------------------------------
+  {
+    key: 'ORDER_CONFIRMED',
+    locale: 'en',
+    version: 1,
+    email: {
+      subject: 'Order {{orderId}} confirmed',
+      body:
+        'Hi {{name}},\n\n' +
+        'Thank you for your order. We have confirmed order {{orderId}} ' +
+        '({{itemCount}} item(s), {{total}}).\n\n' +
+        'Please complete the payment so we can pack it.',
+    },
+    sms: 'Order {{orderId}} confirmed: {{itemCount}} item(s), {{total}}. Please complete the payment so we can pack it.',
+  },
+  {
+    key: 'ORDER_CONFIRMED',
+    locale: 'hi',
+    version: 1,
+    email: {
+      subject: 'ऑर्डर {{orderId}} की पुष्टि हो गई है',
+      body:
+        'नमस्ते,\n\n' +
+        'आपका ऑर्डर {{orderId}} ({{itemCount}} आइटम, {{total}}) कन्फ़र्म हो गया है।\n\n' +
+        'कृपया भुगतान पूरा करें ताकि हम ऑर्डर पैक कर सकें।',
+    },
+    sms: 'ऑर्डर {{orderId}} कन्फ़र्म: {{itemCount}} आइटम, {{total}}। कृपया भुगतान पूरा करें।',
+  },
+  {
+    key: 'ORDER_CANCELLED',
+    locale: 'en',
+    version: 1,
+    email: {
+      subject: 'Order {{orderId}} cancelled',
+      body:
+        'Hi {{name}},\n\n' +
+        'Order {{orderId}} ({{total}}) has been cancelled. ' +
+        'If you had already paid, your refund is on its way.',
+    },
+    sms: 'Order {{orderId}} ({{total}}) has been cancelled. Any payment made will be refunded.',
+  },
+  {
+    key: 'ORDER_SHIPPED',
+    locale: 'en',
+    version: 1,
+    email: {
+      subject: 'Order {{orderId}} has shipped',
+      body:
+        'Hi {{name}},\n\n' +
+        'Order {{orderId}} is on its way with {{carrier}} (tracking number {{trackingNumber}}). ' +
+        'Expected delivery: {{expectedDelivery}}.',
+    },
+    sms: 'Order {{orderId}} shipped with {{carrier}}, tracking {{trackingNumber}}. Expected delivery: {{expectedDelivery}}.',
+  },
+  {
+    key: 'ORDER_DELIVERED',
+    locale: 'en',
+    version: 1,
+    email: {
+      subject: 'Order {{orderId}} delivered',
+      body: 'Hi {{name}},\n\nOrder {{orderId}} has been delivered. Thank you for shopping with us.',
+    },
+    sms: 'Order {{orderId}} has been delivered. Thank you for shopping with us.',
+  },
+
+  // ---------------------------------------------------------------------------
+  // Payments
+  // ---------------------------------------------------------------------------
+  {
+    key: 'PAYMENT_DUE_REMINDER',
+    locale: 'en',
+    version: 1,
+    email: {
+      subject: 'Payment due for order {{orderId}}',
+      body:
+        'Hi {{name}},\n\n' +
+        'We have not yet received {{amount}} for order {{orderId}}. ' +
+        'Please pay by {{dueAt}}, or the order will be cancelled.',
+    },
+    sms: 'Please pay {{amount}} for order {{orderId}} by {{dueAt}}, or the order will be cancelled.',
+  },
+  {
+    key: 'PAYMENT_DUE_REMINDER',
+    locale: 'hi',
+    version: 1,
+    email: {
+      subject: 'ऑर्डर {{orderId}} का भुगतान बाकी है',
+      body:
+        'नमस्ते,\n\n' +
+        'ऑर्डर {{orderId}} के लिए {{amount}} का भुगतान अभी तक नहीं मिला है। ' +
+        'कृपया {{dueAt}} तक भुगतान करें, नहीं तो ऑर्डर रद्द हो जाएगा।',
+    },
+    sms: 'ऑर्डर {{orderId}} के लिए {{amount}} का भुगतान {{dueAt}} तक करें, नहीं तो ऑर्डर रद्द हो जाएगा।',
+  },
+  {
+    key: 'PAYMENT_VERIFIED',
+    locale: 'en',
+    version: 1,
+    email: {
+      subject: 'Payment received for order {{orderId}}',
+      body: 'Hi {{name}},\n\nWe have received your payment for order {{orderId}}. We will let you know when it ships.',
+    },
+    sms: 'Payment received for order {{orderId}}. We will let you know when it ships.',
+  },
+  {
+    key: 'PAYMENT_REJECTED',
+    locale: 'en',
+    version: 1,
+    email: {
+      subject: 'Payment for order {{orderId}} could not be confirmed',
+      body:
+        'Hi {{name}},\n\n' +
+        'We could not confirm your payment for order {{orderId}}: {{reason}}\n\n' +
+        'Please try again from the order page.',
+    },
+    sms: 'Payment for order {{orderId}} could not be confirmed: {{reason}}. Please try again from the order page.',
+  },
+
+  // ---------------------------------------------------------------------------
+  // Prescriptions
+  // ---------------------------------------------------------------------------
+  {
+    key: 'PRESCRIPTION_APPROVED',
+    locale: 'en',
+    version: 1,
+    email: {
+      subject: 'Prescription approved',
+      body: 'Hi {{name}},\n\nYour prescription {{prescriptionId}} has been approved by our pharmacist.',
+    },
+    sms: 'Your prescription {{prescriptionId}} has been approved by our pharmacist.',
+  },
+  {
+    key: 'PRESCRIPTION_REJECTED',
+    locale: 'en',
+    version: 1,
+    email: {
+      subject: 'Prescription could not be approved',
+      body:
+        'Hi {{name}},\n\n' +
+        'Our pharmacist could not approve prescription {{prescriptionId}}: {{reason}}\n\n' +
+        'Please upload a clearer or current prescription.',
+    },
+    sms: 'Prescription {{prescriptionId}} could not be approved: {{reason}}. Please upload it again.',
+  },
+
+  // ---------------------------------------------------------------------------
+  // Account
+  // ---------------------------------------------------------------------------
+  {
+    key: 'PASSWORD_RESET',
+    locale: 'en',
+    version: 1,
+    email: {
+      subject: 'Reset your password',
+      body:
+        'Hi {{name}},\n\n' +
+        'Use this code to reset your password: {{resetToken}}\n\n' +
+        'If you did not ask for a reset, you can ignore this email.',
+    },
+  },
+  {
+    key: 'LOGIN_OTP',
+    locale: 'en',
+    version: 1,
+    sms: '{{code}} is your Janta Pharmacy sign-in code. It expires in {{minutes}} minutes. Do not share it with anyone.',
+  },
+];
+
+/**
+ * Latest template for a message type in `locale`, falling back to the
+ * latest in `defaultLocale`
+ * @throws Error if neither locale has one (caught by the registry spec)
+ */
+export function findTemplate(
+  key: NotificationTemplateKey,
+  locale: string,
+  defaultLocale: string,
+): NotificationTemplate {
+  const latest = (candidateLocale: string) =>
+    NOTIFICATION_TEMPLATES.filter(
+      (template) => template.key === key && template.locale === candidateLocale,
+    ).reduce<NotificationTemplate | undefined>(
+      (best, template) => (!best || template.version > best.version ? template : best),
+      undefined,
+    );
+
+  const template = latest(locale) ?? latest(defaultLocale);
+  if (!template) {
+    throw new Error(`No '${key}' template for locale '${locale}' or '${defaultLocale}'`);
+  }
+  return template;
+}
@@ -13,6 +13,11 @@ import {
   InvalidOrderStateTransitionException,
 } from './exceptions/order.exceptions';
 import { ProductNotFoundException } from '../catalog/exceptions';
+import { InventoryService } from '../inventory/inventory.service';
+import { InMemoryStockRepository } from '../inventory/repositories/in-memory-stock.repository';
+import { InsufficientStockException } from '../inventory/exceptions';
+import { InMemoryOutboxRepository } from '../events/repositories/in-memory-outbox.repository';
+import { OutboxStatus } from '../events/domain';
 
 /**
  * CartService Tests
@@ -34,6 +39,9 @@ describe('CartService', () => {
   let orderRepository: InMemoryOrderRepository;
   let productRepository: InMemoryProductRepository;
   let catalogQueryService: CatalogQueryService;
+  let stockRepository: InMemoryStockRepository;
+  let inventoryService: InventoryService;
+  let outboxRepository: InMemoryOutboxRepository;
 
   const correlationId = 'test-correlation-id';
   const userId = 'user-123';
@@ -46,10 +54,13 @@ describe('CartService', () => {
 
   beforeEach(() => {
     // Fresh instances for each test
-    orderRepository = new InMemoryOrderRepository();
+    outboxRepository = new InMemoryOutboxRepository();
+    orderRepository = new InMemoryOrderRepository(outboxRepository);
     productRepository = new InMemoryProductRepository();
-    catalogQueryService = new CatalogQueryService(productRepository);
-    cartService = new CartService(orderRepository, catalogQueryService);
+    stockRepository = new InMemoryStockRepository();
+    inventoryService = new InventoryService(stockRepository);
+    catalogQueryService = new CatalogQueryService(productRepository, inventoryService);
+    cartService = new CartService(orderRepository, catalogQueryService, inventoryService);
   });
 
   afterEach(() => {
@@ -423,7 +434,9 @@ describe('CartService', () => {
       const cart = await cartService.getCart(userId, correlationId);
 
       // Manually transition to CONFIRMED (simulating checkout flow)
-      await orderRepository.updateStatus(cart!.id, OrderStatus.CONFIRMED);
+      await orderRepository.updateStatus(cart!.id, OrderStatus.CONFIRMED, {
+        actorId: 'test-setup',
+      });
 
       // getCart should return null since it only finds DRAFT orders
       const result = await cartService.getCart(userId, correlationId);
@@ -444,7 +457,9 @@ describe('CartService', () => {
       // Create a cart and transition to CONFIRMED
       await cartService.addItemToCart(userId, validProductId, 1, correlationId);
       const cart = await cartService.getCart(userId, correlationId);
-      await orderRepository.updateStatus(cart!.id, OrderStatus.CONFIRMED);
+      await orderRepository.updateStatus(cart!.id, OrderStatus.CONFIRMED, {
+        actorId: 'test-setup',
+      });
 
       // Try to remove item - should fail since no DRAFT exists
       await expect(
@@ -456,7 +471,9 @@ describe('CartService', () => {
       // Create a cart and transition to CONFIRMED
       await cartService.addItemToCart(userId, validProductId, 2, correlationId);
       const cart = await cartService.getCart(userId, correlationId);
-      await orderRepository.updateStatus(cart!.id, OrderStatus.CONFIRMED);
+      await orderRepository.updateStatus(cart!.id, OrderStatus.CONFIRMED, {
+        actorId: 'test-setup',
+      });
 
       // Try to update quantity - should fail since no DRAFT exists
       await expect(
@@ -479,7 +496,9 @@ describe('CartService', () => {
       // Create a cart and confirm it
       await cartService.addItemToCart(userId, validProductId, 1, correlationId);
       const cart = await cartService.getCart(userId, correlationId);
-      await orderRepository.updateStatus(cart!.id, OrderStatus.CONFIRMED);
+      await orderRepository.updateStatus(cart!.id, OrderStatus.CONFIRMED, {
+        actorId: 'test-setup',
+      });
 
       // Should be able to create a new draft
       const newCart = await cartService.createDraftOrder(userId, correlationId);
@@ -494,7 +513,9 @@ describe('CartService', () => {
       // Create a cart and confirm it
       await cartService.addItemToCart(userId, validProductId, 1, correlationId);
       const cart = await cartService.getCart(userId, correlationId);
-      await orderRepository.updateStatus(cart!.id, OrderStatus.CONFIRMED);
+      await orderRepository.updateStatus(cart!.id, OrderStatus.CONFIRMED, {
+        actorId: 'test-setup',
+      });
 
       // Should be able to add items (creates new draft)
       const newCart = await cartService.addItemToCart(userId, validProductId2, 2, correlationId);
@@ -652,6 +673,40 @@ describe('CartService', () => {
     });
   });
 
+  describe('stock validation', () => {
+    const lowStockProductId = 'prod-008'; // 4 units on hand
+
+    it('should reject adding more than the available stock', async () => {
+      await expect(
+        cartService.addItemToCart(userId, lowStockProductId, 5, correlationId),
+      ).rejects.toThrow(InsufficientStockException);
+    });
+
+    it('should include quantity already in the cart when adding', async () => {
+      await cartService.addItemToCart(userId, lowStockProductId, 3, correlationId);
+
+      await expect(
+        cartService.addItemToCart(userId, lowStockProductId, 2, correlationId),
+      ).rejects.toThrow(InsufficientStockException);
+    });
+
+    it('should reject updating quantity beyond the available stock', async () => {
+      await cartService.addItemToCart(userId, lowStockProductId, 1, correlationId);
+
+      await expect(
+        cartService.updateItemQuantity(userId, lowStockProductId, 5, correlationId),
+      ).rejects.toThrow(InsufficientStockException);
+    });
+
+    it('should not hold stock for items only in a cart', async () => {
+      await cartService.addItemToCart(userId, lowStockProductId, 4, correlationId);
+
+      await expect(
+        cartService.addItemToCart(otherUserId, lowStockProductId, 4, correlationId),
+      ).resolves.toBeDefined();
+    });
+  });
+
   // ============================================================
   // Checkout (confirmDraftOrder) Tests
   // ============================================================
@@ -922,6 +977,37 @@ describe('CartService', () => {
       });
     });
 
+    describe('stock reservation', () => {
+      it('should reserve stock for every item on confirmation', async () => {
+        await cartService.addItemToCart(userId, validProductId, 2, correlationId);
+        await cartService.addItemToCart(userId, validProductId2, 1, correlationId);
+
+        const result = await cartService.confirmDraftOrder(userId, correlationId);
+
+        const reservations = await stockRepository.findReservationsByOrderId(result.order.id);
+        expect(reservations.map((r) => [r.productId, r.quantity]).sort()).toEqual([
+          [validProductId, 2],
+          [validProductId2, 1],
+        ]);
+        expect((await stockRepository.findByProductId(validProductId))!.reserved).toBe(2);
+      });
+
+      it('should leave the order in DRAFT when stock ran out before checkout', async () => {
+        await cartService.addItemToCart(userId, validProductId, 1, correlationId);
+        await cartService.addItemToCart(userId, 'prod-008', 3, correlationId);
+        await cartService.addItemToCart(otherUserId, 'prod-008', 2, correlationId);
+        await cartService.confirmDraftOrder(otherUserId, correlationId);
+
+        await expect(cartService.confirmDraftOrder(userId, correlationId)).rejects.toThrow(
+          InsufficientStockException,
+        );
+
+        const cart = await cartService.getCart(userId);
+        expect(cart!.status).toBe(OrderStatus.DRAFT);
+        expect((await stockRepository.findByProductId(validProductId))!.reserved).toBe(0);
+      });
+    });
+
     describe('domain event correctness', () => {
       it('should capture correct total in event', async () => {
         // Setup: 3 x 25 + 2 x 45 = 75 + 90 = 165
@@ -960,6 +1046,21 @@ describe('CartService', () => {
         expect(result.events[0].occurredAt.getTime()).toBeGreaterThanOrEqual(beforeTime.getTime());
         expect(result.events[0].occurredAt.getTime()).toBeLessThanOrEqual(afterTime.getTime());
       });
+
+      it('should write the event to the outbox with the confirmation', async () => {
+        await cartService.addItemToCart(userId, validProductId, 1, correlationId);
+
+        const result = await cartService.confirmDraftOrder(userId, correlationId);
+
+        const pending = await outboxRepository.findByStatus(OutboxStatus.PENDING, 10);
+        expect(pending).toEqual([
+          expect.objectContaining({
+            eventType: 'ORDER_CONFIRMED',
+            correlationId,
+            payload: expect.objectContaining({ orderId: result.order.id, userId }),
+          }),
+        ]);
+      });
     });
   });
 });
@@ -23,6 +23,7 @@ import {
 import { CatalogQueryService } from '../catalog/catalog-query.service';
 import { ProductNotFoundException } from '../catalog/exceptions';
 import { Money } from '../catalog/domain/money';
+import { InventoryService } from '../inventory/inventory.service';
 import { logWithCorrelation } from '../common/logging/logger';
 
 /**
@@ -47,6 +48,7 @@ export interface ConfirmOrderResult {
  * - Command-style methods for all mutations
  * - One active draft per user
  * - Product existence validation via CatalogQueryService
+ * - Stock availability via InventoryService (reserved at confirmation)
  * - Price captured at add-time (snapshot)
  * - Ownership enforcement on all operations
  *
@@ -62,6 +64,7 @@ export class CartService {
     @Inject(ORDER_REPOSITORY)
     private readonly orderRepository: IOrderRepository,
     private readonly catalogQueryService: CatalogQueryService,
+    private readonly inventoryService: InventoryService,
   ) {}
 
   // ============================================================
@@ -144,6 +147,7 @@ export class CartService {
    * - Captures price at add-time
    * - If product already in cart, increments quantity
    * - Quantity must be positive
+   * - Resulting cart quantity must be in stock
    */
   async addItemToCart(
     userId: string,
@@ -171,6 +175,13 @@ export class CartService {
       );
     }
 
+    // Validate stock for the resulting cart quantity
+    const existingItem = await this.orderRepository.getItem(draft.id, productId);
+    await this.inventoryService.assertAvailable(
+      productId,
+      (existingItem?.quantity ?? 0) + quantity,
+    );
+
     // Create order item with product snapshot
     const orderItem = createOrderItem({
       productId: product.id,
@@ -235,6 +246,7 @@ export class CartService {
    * - Only DRAFT orders can be modified
    * - Item must exist in cart
    * - Quantity must be positive
+   * - New quantity must be in stock
    */
   async updateItemQuantity(
     userId: string,
@@ -253,6 +265,8 @@ export class CartService {
       throw new OrderItemNotFoundException(draft.id, productId);
     }
 
+    await this.inventoryService.assertAvailable(productId, quantity);
+
     const previousQuantity = item.quantity;
     const updatedCart = await this.orderRepository.updateItemQuantity(
       draft.id,
@@ -305,7 +319,12 @@ export class CartService {
   async abandonCart(userId: string, correlationId: string): Promise<void> {
     const draft = await this.getDraftWithOwnershipCheck(userId, correlationId);
 
-    await this.orderRepository.updateStatus(draft.id, OrderStatus.CANCELLED);
+    await this.orderRepository.updateStatus(draft.id, OrderStatus.CANCELLED, {
+      actorId: userId,
+      reason: 'Cart abandoned',
+      correlationId,
+      expectedStatus: OrderStatus.DRAFT,
+    });
 
     logWithCorrelation('INFO', correlationId, `Abandoned cart (cancelled draft)`, 'CartService', {
       orderId: draft.id,
@@ -333,11 +352,13 @@ export class CartService {
    * - Cart must have at least one item
    * - State transition must be valid per state machine
    * - Total is finalized at confirmation time
+   * - Stock for every item is reserved atomically before the order is confirmed
    *
    * @throws NoDraftOrderException - No active cart found
    * @throws UnauthorizedOrderAccessException - User doesn't own the cart
    * @throws EmptyCartException - Cart has no items
    * @throws InvalidOrderStateTransitionException - State transition not allowed
+   * @throws InsufficientStockException - An item is no longer in stock
    */
   async confirmDraftOrder(userId: string, correlationId: string): Promise<ConfirmOrderResult> {
     // 1. Get draft with ownership check
@@ -378,20 +399,21 @@ export class CartService {
       );
     }
 
-    // 5. Transition to CONFIRMED
-    const confirmedOrder = await this.orderRepository.updateStatus(draft.id, OrderStatus.CONFIRMED);
+    // 5. Reserve stock (all-or-nothing)
+    await this.inventoryService.reserveForOrder(
+      draft.id,
+      draft.items.map((item) => ({ productId: item.productId, quantity: item.quantity })),
+      correlationId,
+    );
 
     // 6. Create domain event
     const eventCollector = new DomainEventCollector();
     const orderConfirmedEvent = createOrderConfirmedEvent(
       {
-        orderId: confirmedOrder.id,
-        userId: confirmedOrder.userId,
-        total: Money.fromMinorUnits(
-          Math.round(confirmedOrder.total.amount * 100),
-          confirmedOrder.total.currency,
-        ),
-        items: confirmedOrder.items.map((item) => ({
+        orderId: draft.id,
+        userId: draft.userId,
+        total: Money.fromMinorUnits(Math.round(draft.total.amount * 100), draft.total.currency),
+        items: draft.items.map((item) => ({
           productId: item.productId,
           productName: item.productName,
           quantity: item.quantity,
@@ -405,7 +427,22 @@ export class CartService {
     );
     eventCollector.add(orderConfirmedEvent);
 
-    // 7. Log success
+    // 7. Transition to CONFIRMED with the event (outbox), releasing the reservation if that fails
+    let confirmedOrder: OrderDto;
+    try {
+      confirmedOrder = await this.orderRepository.updateStatus(draft.id, OrderStatus.CONFIRMED, {
+        actorId: userId,
+        reason: 'Order placed at checkout',
+        correlationId,
+        expectedStatus: OrderStatus.DRAFT,
+        events: eventCollector.getEvents(),
+      });
+    } catch (error) {
+      await this.inventoryService.releaseForOrder(draft.id, correlationId);
+      throw error;
+    }
+
+    // 8. Log success
     logWithCorrelation('INFO', correlationId, `Order confirmed successfully`, 'CartService', {
       orderId: confirmedOrder.id,
       userId,
@@ -1,4 +1,7 @@
 import { Money } from '../../catalog/domain/money';
+import { DomainEvent } from '../../events/domain/domain-event';
+
+export { DomainEvent };
 
 /**
  * Domain Events for Order Aggregate
@@ -9,26 +12,9 @@ import { Money } from '../../catalog/domain/money';
  * Design principles:
  * - Events are immutable records of what happened
  * - Events contain all relevant data at time of occurrence
- * - Events are dispatched in-process (no async infrastructure)
- * - Events can be collected and processed synchronously
- *
- * Current scope:
- * - In-process event collection only
- * - No external messaging or persistence
- * - Foundation for future async workflows
- */
-
-/**
- * Base interface for all domain events
+ * - Events are written to the outbox with the status change that raised them
+ *   (OrderStatusChange.events) and delivered to handlers by the events module
  */
-export interface DomainEvent {
-  /** Event type discriminator */
-  readonly type: string;
-  /** When the event occurred */
-  readonly occurredAt: Date;
-  /** Correlation ID for tracing */
-  readonly correlationId?: string;
-}
 
 /**
  * Order Confirmed Event
@@ -143,19 +129,117 @@ export function createOrderCancelledEvent(
   };
 }
 
+/**
+ * Order Shipped Event
+ *
+ * Emitted when staff dispatch a paid order with a carrier.
+ *
+ * Contains:
+ * - Order and shipment identification
+ * - Carrier and tracking number, for customer notifications
+ * - The staff member who dispatched it
+ */
+export interface OrderShippedEvent extends DomainEvent {
+  readonly type: 'ORDER_SHIPPED';
+  readonly orderId: string;
+  readonly userId: string;
+  readonly shipmentId: string;
+  readonly carrier: string;
+  readonly trackingNumber: string;
+  /** Expected delivery date (YYYY-MM-DD), if the carrier gave one */
+  readonly expectedDeliveryDate: string | null;
+  readonly shippedBy: string;
+}
+
+/**
+ * Factory function to create an OrderShipped event
+ */
+export function createOrderShippedEvent(
+  data: {
+    orderId: string;
+    userId: string;
+    shipmentId: string;
+    carrier: string;
+    trackingNumber: string;
+    expectedDeliveryDate: string | null;
+    shippedBy: string;
+  },
+  correlationId?: string,
+): OrderShippedEvent {
+  return {
+    type: 'ORDER_SHIPPED',
+    occurredAt: new Date(),
+    correlationId,
+    orderId: data.orderId,
+    userId: data.userId,
+    shipmentId: data.shipmentId,
+    carrier: data.carrier,
+    trackingNumber: data.trackingNumber,
+    expectedDeliveryDate: data.expectedDeliveryDate,
+    shippedBy: data.shippedBy,
+  };
+}
+
+/**
+ * Order Delivered Event
+ *
+ * Emitted when staff confirm delivery. DELIVERED is terminal.
+ *
+ * Contains:
+ * - Order and shipment identification
+ * - The staff member who confirmed delivery
+ */
+export interface OrderDeliveredEvent extends DomainEvent {
+  readonly type: 'ORDER_DELIVERED';
+  readonly orderId: string;
+  readonly userId: string;
+  /** Null for orders shipped before shipments were recorded */
+  readonly shipmentId: string | null;
+  readonly deliveredBy: string;
+}
+
+/**
+ * Factory function to create an OrderDelivered event
+ */
+export function createOrderDeliveredEvent(
+  data: {
+    orderId: string;
+    userId: string;
+    shipmentId: string | null;
+    deliveredBy: string;
+  },
+  correlationId?: string,
+): OrderDeliveredEvent {
+  return {
+    type: 'ORDER_DELIVERED',
+    occurredAt: new Date(),
+    correlationId,
+    orderId: data.orderId,
+    userId: data.userId,
+    shipmentId: data.shipmentId,
+    deliveredBy: data.deliveredBy,
+  };
+}
+
+/**
+ * Every event raised by the order aggregate
+ */
+export type OrderDomainEvent =
+  OrderConfirmedEvent | OrderCancelledEvent | OrderShippedEvent | OrderDeliveredEvent;
+
 /**
  * Simple in-process event collector
  *
- * Collects domain events during a use case execution.
- * Events can be processed after the transaction completes.
+ * Collects domain events during a use case execution so they can be
+ * written to the outbox with the status change and returned to the caller.
  *
  * Usage:
  *   const collector = new DomainEventCollector();
  *   collector.add(createOrderConfirmedEvent(...));
- *   // After success:
- *   for (const event of collector.getEvents()) {
- *     // Log, notify, etc.
- *   }
+ *   await orderRepository.updateStatus(orderId, status, {
+ *     ...,
+ *     events: collector.getEvents(),
+ *   });
  */
 export class DomainEventCollector {
   private readonly events: DomainEvent[] = [];
@@ -32,7 +32,18 @@ export {
   type DomainEvent,
   type OrderConfirmedEvent,
   type OrderCancelledEvent,
+  type OrderShippedEvent,
+  type OrderDeliveredEvent,
+  type OrderDomainEvent,
   createOrderConfirmedEvent,
   createOrderCancelledEvent,
+  createOrderShippedEvent,
+  createOrderDeliveredEvent,
   DomainEventCollector,
 } from './domain-events';
+
+export {
+  SYSTEM_ACTOR,
+  type OrderStatusChange,
+  type OrderStatusHistoryEntry,
+} from './order-status-history';
@@ -0,0 +1,49 @@
+import { OrderStatus } from './order-status';
+import { DomainEvent } from './domain-events';
+
+/**
+ * Order Status History
+ *
+ * Every order status change is recorded by the repository in the same
+ * transaction as the status update, so the history cannot drift from the
+ * order. Entries are append-only.
+ */
+
+/**
+ * Actor ID for changes made by the system rather than a person
+ * (e.g. scheduled jobs)
+ */
+export const SYSTEM_ACTOR = 'SYSTEM';
+
+/**
+ * Who made a status change and why, passed with every status update
+ */
+export interface OrderStatusChange {
+  /** User or staff ID, or SYSTEM_ACTOR */
+  readonly actorId: string;
+  /** Human-readable reason, e.g. 'Cancelled by customer' */
+  readonly reason?: string;
+  readonly correlationId?: string;
+  /** Domain events raised by the change; written to the outbox in the same transaction */
+  readonly events?: readonly DomainEvent[];
+  /**
+   * Status the caller read the order in. If the order has moved on since
+   * (e.g. paid while the expiry job was cancelling it), nothing is written
+   * and OrderStatusConflictException is thrown.
+   */
+  readonly expectedStatus?: OrderStatus;
+}
+
+/**
+ * A recorded status change
+ */
+export interface OrderStatusHistoryEntry {
+  readonly id: string;
+  readonly orderId: string;
+  readonly previousStatus: OrderStatus;
+  readonly nextStatus: OrderStatus;
+  readonly actorId: string;
+  readonly reason: string | null;
+  readonly correlationId: string | null;
+  readonly occurredAt: Date;
+}
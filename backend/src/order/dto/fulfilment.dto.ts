@@ -0,0 +1,71 @@
+import {
+  IsDateString,
+  IsNotEmpty,
+  IsOptional,
+  IsString,
+  Matches,
+  MaxLength,
+  ValidateBy,
+  ValidationOptions,
+} from 'class-validator';
+
+const NOT_BLANK = /\S/;
+
+/**
+ * Date (UTC) is today or later
+ */
+function IsNotPastDate(validationOptions?: ValidationOptions): PropertyDecorator {
+  return ValidateBy(
+    {
+      name: 'isNotPastDate',
+      validator: {
+        validate: (value: unknown) => {
+          const date = typeof value === 'string' ? new Date(value) : null;
+          return (
+            !!date &&
+            !Number.isNaN(date.getTime()) &&
+            date.toISOString().slice(0, 10) >= new Date().toISOString().slice(0, 10)
+          );
+        },
+        defaultMessage: () => '$property cannot be in the past',
+      },
+    },
+    validationOptions,
+  );
+}
+
+/**
+ * Request body for POST /admin/fulfilment/orders/:id/ship
+ */
+export class ShipOrderDto {
+  /** Courier, e.g. "Blue Dart", or a carrier adapter code such as "LOCAL" (store riders) */
+  @IsString()
+  @IsNotEmpty()
+  @Matches(NOT_BLANK, { message: 'carrier must not be blank' })
+  @MaxLength(100)
+  carrier!: string;
+
+  @IsString()
+  @IsNotEmpty()
+  @Matches(NOT_BLANK, { message: 'trackingNumber must not be blank' })
+  @MaxLength(100)
+  trackingNumber!: string;
+
+  /** YYYY-MM-DD; defaults to the carrier's estimate, if it gives one */
+  @IsOptional()
+  @IsDateString()
+  @IsNotPastDate()
+  expectedDeliveryDate?: string;
+}
+
+/**
+ * Request body for POST /admin/fulfilment/orders/:id/deliver
+ */
+export class DeliverOrderDto {
+  /** Proof-of-delivery note: who received the parcel, OTP or signature reference, etc. */
+  @IsString()
+  @IsNotEmpty()
+  @Matches(NOT_BLANK, { message: 'note must not be blank' })
+  @MaxLength(500)
+  note!: string;
+}
@@ -1,8 +1,10 @@
 import { IsOptional, IsInt, Min, Max } from 'class-validator';
 import { Type } from 'class-transformer';
 import { OrderStatus } from '../domain/order-status';
+import { OrderStatusHistoryEntry, SYSTEM_ACTOR } from '../domain/order-status-history';
 import { OrderDto, OrderPriceDto, OrderItemDto } from './order.dto';
 import { PaginationMeta, DEFAULT_PAGE, DEFAULT_LIMIT, MAX_LIMIT } from '../queries';
+import { ShipmentDto } from '../../shipment/dto';
 
 /**
  * Order History DTOs
@@ -111,8 +113,53 @@ export interface OrderDetailComplianceDto {
  * Payment info on order detail (Phase 6 — manual payment v1)
  */
 export interface OrderDetailPaymentDto {
-  method: 'COD' | 'UPI';
-  status: 'PENDING' | 'SUBMITTED' | 'VERIFIED' | 'REJECTED';
+  method: 'COD' | 'UPI' | 'ONLINE';
+  status: 'PENDING' | 'SUBMITTED' | 'VERIFIED' | 'REJECTED' | 'REFUNDED' | 'EXPIRED';
+  /** Why the payment was rejected; the customer can retry */
+  rejectionReason: string | null;
+  /** Earlier attempts, oldest first. Present only after a retry. */
+  previousAttempts?: OrderDetailPaymentAttemptDto[];
+}
+
+/**
+ * Earlier payment attempt on order detail
+ */
+export interface OrderDetailPaymentAttemptDto {
+  method: 'COD' | 'UPI' | 'ONLINE';
+  status: 'PENDING' | 'SUBMITTED' | 'VERIFIED' | 'REJECTED' | 'REFUNDED' | 'EXPIRED';
+  referenceId: string | null;
+  rejectionReason: string | null;
+  createdAt: string;
+}
+
+/**
+ * Refund on order detail, as shown to the customer
+ */
+export interface OrderDetailRefundDto {
+  amount: OrderPriceDto;
+  status: 'REQUESTED' | 'APPROVED' | 'PROCESSED' | 'FAILED';
+  reason: string;
+  /** UPI reference of the payout, once processed */
+  upiReference: string | null;
+  requestedAt: string;
+  processedAt: string | null;
+}
+
+/**
+ * Who made a status change, as shown to the customer.
+ * Staff IDs and correlation IDs stay internal.
+ */
+export type OrderTimelineActor = 'CUSTOMER' | 'PHARMACY' | 'SYSTEM';
+
+/**
+ * One status change on the order timeline
+ */
+export interface OrderTimelineEntryDto {
+  previousState: OrderStatus;
+  state: OrderStatus;
+  changedBy: OrderTimelineActor;
+  reason: string | null;
+  occurredAt: string;
 }
 
 /**
@@ -121,6 +168,9 @@ export interface OrderDetailPaymentDto {
  * Complete order information including all items.
  * compliance is optional; included only when order has prescription-required items (ADR-0055).
  * payment is optional; included when order has a payment intent (Phase 6).
+ * shipment is optional; included once the order has shipped.
+ * refunds is optional; included once a refund has been requested.
+ * timeline lists every status change, oldest first.
  */
 export interface OrderDetailDto {
   /** Order ID */
@@ -149,6 +199,15 @@ export interface OrderDetailDto {
 
   /** Payment method and status (Phase 6); present when payment intent exists */
   payment?: OrderDetailPaymentDto;
+
+  /** Carrier, tracking number and tracking timeline; present once the order has shipped */
+  shipment?: ShipmentDto;
+
+  /** Refunds, oldest first; present once a refund has been requested */
+  refunds?: OrderDetailRefundDto[];
+
+  /** Status changes, oldest first */
+  timeline: OrderTimelineEntryDto[];
 }
 
 /**
@@ -178,9 +237,33 @@ export function toOrderSummaryDto(order: OrderDto): OrderSummaryDto {
 }
 
 /**
- * Convert OrderDto to OrderDetailDto
+ * Convert a status history entry to a timeline entry for the order's owner
+ */
+export function toOrderTimelineEntryDto(
+  entry: OrderStatusHistoryEntry,
+  ownerUserId: string,
+): OrderTimelineEntryDto {
+  return {
+    previousState: entry.previousStatus,
+    state: entry.nextStatus,
+    changedBy:
+      entry.actorId === ownerUserId
+        ? 'CUSTOMER'
+        : entry.actorId === SYSTEM_ACTOR
+          ? 'SYSTEM'
+          : 'PHARMACY',
+    reason: entry.reason,
+    occurredAt: entry.occurredAt.toISOString(),
+  };
+}
+
+/**
+ * Convert OrderDto and its status history to OrderDetailDto
  */
-export function toOrderDetailDto(order: OrderDto): OrderDetailDto {
+export function toOrderDetailDto(
+  order: OrderDto,
+  statusHistory: OrderStatusHistoryEntry[],
+): OrderDetailDto {
   return {
     orderId: order.id,
     state: order.status,
@@ -195,6 +278,7 @@ export function toOrderDetailDto(order: OrderDto): OrderDetailDto {
     total: order.total,
     createdAt: order.createdAt.toISOString(),
     updatedAt: order.updatedAt.toISOString(),
+    timeline: statusHistory.map((entry) => toOrderTimelineEntryDto(entry, order.userId)),
   };
 }
 
@@ -122,6 +122,27 @@ export class OrderAlreadyConfirmedException extends BusinessException {
   }
 }
 
+/**
+ * Order status conflict exception
+ *
+ * Thrown when an order changed status between being read and being updated,
+ * so the update was not applied.
+ */
+export class OrderStatusConflictException extends BusinessException {
+  public readonly expectedStatus: OrderStatus;
+  public readonly currentStatus: OrderStatus;
+
+  constructor(orderId: string, expectedStatus: OrderStatus, currentStatus: OrderStatus) {
+    super(
+      'ORDER_STATUS_CONFLICT',
+      `Order '${orderId}' is now '${currentStatus}', not '${expectedStatus}'; the update was not applied`,
+      HttpStatus.CONFLICT,
+    );
+    this.expectedStatus = expectedStatus;
+    this.currentStatus = currentStatus;
+  }
+}
+
 // ============================================================
 // Cart / Draft Order Exceptions
 // ============================================================
@@ -0,0 +1,166 @@
+import {
+  Body,
+  Controller,
+  Get,
+  Headers,
+  HttpCode,
+  HttpStatus,
+  Param,
+  Post,
+  UseGuards,
+} from '@nestjs/common';
+import { ApiResponse } from '../common/api/api-response';
+import { JwtAuthGuard } from '../auth/guards/jwt-auth.guard';
+import { RolesGuard } from '../auth/guards/roles.guard';
+import { Roles } from '../auth/decorators/roles.decorator';
+import { CurrentUser } from '../auth/decorators/current-user.decorator';
+import { UserRole } from '../auth/interfaces/auth-user.interface';
+import { ShipmentService } from '../shipment/shipment.service';
+import { AddTrackingEventDto, StaffShipmentDto } from '../shipment/dto';
+import { OrderService, FulfilmentResult } from './order.service';
+import { OrderDto } from './dto/order.dto';
+import { DeliverOrderDto, ShipOrderDto } from './dto/fulfilment.dto';
+
+/**
+ * Fulfilment Controller
+ *
+ * Shipping and delivery for pharmacy staff. The staff member performing each
+ * step is recorded on the order's shipment.
+ *
+ * GET  /api/v1/admin/fulfilment/orders/ready-to-ship
+ * GET  /api/v1/admin/fulfilment/orders/awaiting-delivery
+ * POST /api/v1/admin/fulfilment/orders/:id/ship
+ * POST /api/v1/admin/fulfilment/orders/:id/deliver
+ * GET  /api/v1/admin/fulfilment/orders/:id/shipment
+ * POST /api/v1/admin/fulfilment/orders/:id/shipment/events
+ * POST /api/v1/admin/fulfilment/orders/:id/shipment/refresh
+ */
+@Controller('admin/fulfilment/orders')
+@UseGuards(JwtAuthGuard, RolesGuard)
+@Roles(UserRole.STAFF, UserRole.PHARMACIST, UserRole.ADMIN)
+export class FulfilmentController {
+  constructor(
+    private readonly orderService: OrderService,
+    private readonly shipmentService: ShipmentService,
+  ) {}
+
+  /**
+   * Paid, compliance-approved orders, oldest first
+   * GET /api/v1/admin/fulfilment/orders/ready-to-ship
+   */
+  @Get('ready-to-ship')
+  async getReadyToShip(): Promise<ApiResponse<OrderDto[]>> {
+    const orders = await this.orderService.getOrdersReadyToShip();
+    return ApiResponse.success(orders, 'Orders ready to ship retrieved successfully');
+  }
+
+  /**
+   * Shipped orders not yet delivered, with their shipments, oldest first
+   * GET /api/v1/admin/fulfilment/orders/awaiting-delivery
+   */
+  @Get('awaiting-delivery')
+  async getAwaitingDelivery(): Promise<ApiResponse<FulfilmentResult[]>> {
+    const orders = await this.orderService.getOrdersAwaitingDelivery();
+    return ApiResponse.success(orders, 'Orders awaiting delivery retrieved successfully');
+  }
+
+  /**
+   * Ship an order with carrier and tracking number
+   * POST /api/v1/admin/fulfilment/orders/:id/ship
+   *
+   * Transitions: PAID → SHIPPED.
+   * ADR-0055: Blocked until compliance approval (prescription or consultation).
+   */
+  @Post(':id/ship')
+  @HttpCode(HttpStatus.OK)
+  async shipOrder(
+    @Param('id') orderId: string,
+    @Body() dto: ShipOrderDto,
+    @CurrentUser('id') staffId: string,
+    @Headers('x-correlation-id') correlationId: string,
+  ): Promise<ApiResponse<FulfilmentResult>> {
+    const result = await this.orderService.shipOrder(
+      orderId,
+      staffId,
+      {
+        carrier: dto.carrier.trim(),
+        trackingNumber: dto.trackingNumber.trim(),
+        expectedDeliveryDate: dto.expectedDeliveryDate
+          ? new Date(dto.expectedDeliveryDate)
+          : undefined,
+      },
+      correlationId,
+    );
+    return ApiResponse.success(result, 'Order shipped successfully');
+  }
+
+  /**
+   * Mark an order delivered with a proof-of-delivery note
+   * POST /api/v1/admin/fulfilment/orders/:id/deliver
+   *
+   * Transitions: SHIPPED → DELIVERED.
+   */
+  @Post(':id/deliver')
+  @HttpCode(HttpStatus.OK)
+  async deliverOrder(
+    @Param('id') orderId: string,
+    @Body() dto: DeliverOrderDto,
+    @CurrentUser('id') staffId: string,
+    @Headers('x-correlation-id') correlationId: string,
+  ): Promise<ApiResponse<FulfilmentResult>> {
+    const result = await this.orderService.deliverOrder(
+      orderId,
+      staffId,
+      { note: dto.note.trim() },
+      correlationId,
+    );
+    return ApiResponse.success(result, 'Order delivered successfully');
+  }
+
+  /**
+   * Shipment with its tracking timeline
+   * GET /api/v1/admin/fulfilment/orders/:id/shipment
+   */
+  @Get(':id/shipment')
+  async getShipment(@Param('id') orderId: string): Promise<ApiResponse<StaffShipmentDto>> {
+    const shipment = await this.shipmentService.getShipment(orderId);
+    return ApiResponse.success(shipment, 'Shipment retrieved successfully');
+  }
+
+  /**
+   * Add a tracking update by hand (carriers without an adapter)
+   * POST /api/v1/admin/fulfilment/orders/:id/shipment/events
+   */
+  @Post(':id/shipment/events')
+  async addTrackingEvent(
+    @Param('id') orderId: string,
+    @Body() dto: AddTrackingEventDto,
+    @Headers('x-correlation-id') correlationId: string,
+  ): Promise<ApiResponse<StaffShipmentDto>> {
+    const shipment = await this.shipmentService.addTrackingEvent(
+      orderId,
+      {
+        status: dto.status,
+        description: dto.description.trim(),
+        location: dto.location?.trim() || null,
+        occurredAt: dto.occurredAt ? new Date(dto.occurredAt) : new Date(),
+      },
+      correlationId,
+    );
+    return ApiResponse.success(shipment, 'Tracking event added successfully');
+  }
+
+  /**
+   * Pull the latest tracking events from the carrier
+   * POST /api/v1/admin/fulfilment/orders/:id/shipment/refresh
+   */
+  @Post(':id/shipment/refresh')
+  @HttpCode(HttpStatus.OK)
+  async refreshTracking(
+    @Param('id') orderId: string,
+    @Headers('x-correlation-id') correlationId: string,
+  ): Promise<ApiResponse<StaffShipmentDto>> {
+    const shipment = await this.shipmentService.refreshTracking(orderId, correlationId);
+    return ApiResponse.success(shipment, 'Tracking refreshed successfully');
+  }
+}
@@ -0,0 +1,48 @@
+import { Injectable, OnModuleInit } from '@nestjs/common';
+import { EventBus } from '../events/event-bus';
+import { DomainEventHandler, EventHandlingContext } from '../events/domain-event-handler.interface';
+import { DomainEvent } from '../events/domain';
+import type {
+  PaymentIntentCreatedEvent,
+  PaymentVerifiedEvent,
+} from '../payment/domain/payment-events';
+import { PaymentMethod } from '../payment/domain/payment-method';
+import { OrderService } from './order.service';
+
+/**
+ * Order Payment Event Handler
+ *
+ * Moves a confirmed order to PAID once its payment is settled: on
+ * PaymentVerified (UPI verified by an admin, ONLINE captured by the gateway),
+ * and on PaymentIntentCreated for COD, which is created already VERIFIED.
+ * recordPaymentVerified is idempotent, so redelivery is harmless.
+ */
+@Injectable()
+export class OrderPaymentEventHandler implements DomainEventHandler, OnModuleInit {
+  readonly name = 'order-payment';
+  readonly eventTypes = ['PAYMENT_VERIFIED', 'PAYMENT_INTENT_CREATED'];
+
+  constructor(
+    private readonly eventBus: EventBus,
+    private readonly orderService: OrderService,
+  ) {}
+
+  onModuleInit(): void {
+    this.eventBus.subscribe(this);
+  }
+
+  async handle(event: DomainEvent, context: EventHandlingContext): Promise<void> {
+    const paymentEvent = event as PaymentVerifiedEvent | PaymentIntentCreatedEvent;
+    if (
+      paymentEvent.type === 'PAYMENT_INTENT_CREATED' &&
+      paymentEvent.method !== PaymentMethod.COD
+    ) {
+      return;
+    }
+    await this.orderService.recordPaymentVerified(
+      paymentEvent.orderId,
+      paymentEvent.paymentIntentId,
+      paymentEvent.correlationId ?? context.eventId,
+    );
+  }
+}
@@ -2,6 +2,8 @@ import { OrderQueryService } from './order-query.service';
 import { InMemoryOrderRepository } from './repositories/in-memory-order.repository';
 import { OrderComplianceService } from '../compliance/order-compliance.service';
 import { PaymentIntentService } from '../payment/payment-intent.service';
+import { RefundService } from '../payment/refund.service';
+import { ShipmentService } from '../shipment/shipment.service';
 import { InMemoryProductRepository } from '../catalog/repositories/in-memory-product.repository';
 import { InMemoryPrescriptionRepository } from '../prescription/repositories/in-memory-prescription.repository';
 import { InMemoryConsultationRequestRepository } from '../consultation/repositories/in-memory-consultation-request.repository';
@@ -37,6 +39,14 @@ describe('OrderQueryService - order detail compliance', () => {
     getByOrderId: () => Promise.resolve(null),
   } as unknown as PaymentIntentService;
 
+  const mockShipmentService = {
+    getForOrder: () => Promise.resolve(null),
+  } as unknown as ShipmentService;
+
+  const mockRefundService = {
+    getForOrder: () => Promise.resolve([]),
+  } as unknown as RefundService;
+
   beforeEach(() => {
     orderRepository = new InMemoryOrderRepository();
     productRepository = new InMemoryProductRepository();
@@ -56,6 +66,8 @@ describe('OrderQueryService - order detail compliance', () => {
       orderRepository,
       complianceService,
       mockPaymentIntentService,
+      mockShipmentService,
+      mockRefundService,
     );
   });
 
@@ -75,7 +87,7 @@ describe('OrderQueryService - order detail compliance', () => {
       });
       await orderRepository.addItem(order.id, item);
     }
-    await orderRepository.updateStatus(order.id, status);
+    await orderRepository.updateStatus(order.id, status, { actorId: 'test-setup' });
     const updated = await orderRepository.findById(order.id);
     return updated!.id;
   }
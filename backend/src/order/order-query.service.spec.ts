@@ -1,12 +1,17 @@
 import { OrderQueryService } from './order-query.service';
 import { InMemoryOrderRepository } from './repositories/in-memory-order.repository';
-import { OrderStatus } from './domain';
+import { OrderStatus, SYSTEM_ACTOR } from './domain';
 import {
   OrderNotFoundException,
   UnauthorizedOrderAccessException,
 } from './exceptions/order.exceptions';
 import { OrderComplianceService } from '../compliance/order-compliance.service';
 import { PaymentIntentService } from '../payment/payment-intent.service';
+import { RefundService } from '../payment/refund.service';
+import { ShipmentService } from '../shipment/shipment.service';
+import { InMemoryShipmentRepository } from '../shipment/repositories/in-memory-shipment.repository';
+import { LocalCarrierAdapter } from '../shipment/carriers';
+import { TrackingEventStatus } from '../shipment/domain';
 
 /**
  * OrderQueryService Tests
@@ -16,6 +21,7 @@ import { PaymentIntentService } from '../payment/payment-intent.service';
  * - Order detail fetching
  * - Ownership enforcement
  * - Not-found scenarios
+ * - Shipment and status timelines on the detail
  *
  * Design decisions:
  * - Uses real in-memory repository (no mocks)
@@ -25,6 +31,7 @@ import { PaymentIntentService } from '../payment/payment-intent.service';
 describe('OrderQueryService', () => {
   let queryService: OrderQueryService;
   let orderRepository: InMemoryOrderRepository;
+  let shipmentService: ShipmentService;
 
   const correlationId = 'test-correlation-id';
   const userId = 'user-123';
@@ -38,12 +45,21 @@ describe('OrderQueryService', () => {
     getByOrderId: () => Promise.resolve(null),
   } as unknown as PaymentIntentService;
 
+  const mockRefundService = {
+    getForOrder: () => Promise.resolve([]),
+  } as unknown as RefundService;
+
   beforeEach(() => {
     orderRepository = new InMemoryOrderRepository();
+    shipmentService = new ShipmentService(new InMemoryShipmentRepository(), [
+      new LocalCarrierAdapter(),
+    ]);
     queryService = new OrderQueryService(
       orderRepository,
       mockComplianceService,
       mockPaymentIntentService,
+      shipmentService,
+      mockRefundService,
     );
   });
 
@@ -340,6 +356,69 @@ describe('OrderQueryService', () => {
           expect(result.state).toBe(status);
         }
       });
+
+      it('should omit shipment until the order ships', async () => {
+        const order = await orderRepository.createOrder(userId, OrderStatus.PAID);
+
+        const result = await queryService.getOrderById(order.id, userId, correlationId);
+
+        expect(result.shipment).toBeUndefined();
+      });
+
+      it('should include the shipment and its tracking timeline once shipped', async () => {
+        const order = await orderRepository.createOrder(userId, OrderStatus.SHIPPED);
+        await shipmentService.createShipment(order.id, 'staff-1', {
+          carrier: 'Blue Dart',
+          trackingNumber: 'BD123',
+        });
+        await shipmentService.addTrackingEvent(order.id, {
+          status: TrackingEventStatus.IN_TRANSIT,
+          description: 'Arrived at Pune hub',
+          location: 'Pune',
+          occurredAt: new Date(Date.now() + 60_000),
+        });
+
+        const result = await queryService.getOrderById(order.id, userId, correlationId);
+
+        expect(result.shipment).toMatchObject({
+          carrier: 'Blue Dart',
+          trackingNumber: 'BD123',
+          deliveredAt: null,
+        });
+        expect(result.shipment!.events.map((e) => e.status)).toEqual([
+          TrackingEventStatus.DISPATCHED,
+          TrackingEventStatus.IN_TRANSIT,
+        ]);
+        expect(result.shipment).not.toHaveProperty('dispatchedBy');
+      });
+
+      it('should include status changes as a timeline, oldest first', async () => {
+        const order = await orderRepository.createOrder(userId, OrderStatus.DRAFT);
+        await orderRepository.updateStatus(order.id, OrderStatus.CONFIRMED, {
+          actorId: userId,
+          reason: 'Order placed at checkout',
+          correlationId,
+        });
+        await orderRepository.updateStatus(order.id, OrderStatus.PAID, { actorId: SYSTEM_ACTOR });
+        await orderRepository.updateStatus(order.id, OrderStatus.SHIPPED, {
+          actorId: 'staff-1',
+          reason: 'Shipped with Blue Dart (BD123)',
+        });
+
+        const result = await queryService.getOrderById(order.id, userId, correlationId);
+
+        expect(result.timeline).toEqual([
+          {
+            previousState: OrderStatus.DRAFT,
+            state: OrderStatus.CONFIRMED,
+            changedBy: 'CUSTOMER',
+            reason: 'Order placed at checkout',
+            occurredAt: expect.any(String),
+          },
+          expect.objectContaining({ state: OrderStatus.PAID, changedBy: 'SYSTEM', reason: null }),
+          expect.objectContaining({ state: OrderStatus.SHIPPED, changedBy: 'PHARMACY' }),
+        ]);
+      });
     });
 
     describe('not found scenarios', () => {
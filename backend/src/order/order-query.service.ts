@@ -15,6 +15,8 @@ import {
 import { logWithCorrelation } from '../common/logging/logger';
 import { OrderComplianceService } from '../compliance/order-compliance.service';
 import { PaymentIntentService } from '../payment/payment-intent.service';
+import { RefundService } from '../payment/refund.service';
+import { ShipmentService } from '../shipment/shipment.service';
 
 /**
  * Order Query Service
@@ -37,6 +39,8 @@ export class OrderQueryService {
     private readonly orderRepository: IOrderRepository,
     private readonly orderComplianceService: OrderComplianceService,
     private readonly paymentIntentService: PaymentIntentService,
+    private readonly shipmentService: ShipmentService,
+    private readonly refundService: RefundService,
   ) {}
 
   // ============================================================
@@ -80,7 +84,7 @@ export class OrderQueryService {
   /**
    * Get order details by ID
    *
-   * Returns full order details including all items.
+   * Returns full order details including all items and the status timeline.
    * Enforces ownership - users can only view their own orders.
    *
    * When the order contains prescription-required items, the response includes
@@ -135,7 +139,8 @@ export class OrderQueryService {
       });
     }
 
-    const detail = toOrderDetailDto(order);
+    const statusHistory = await this.orderRepository.findStatusHistory(orderId);
+    const detail = toOrderDetailDto(order, statusHistory);
 
     // Read-only compliance info for UI (ADR-0055). Omit when order does not require prescription.
     const complianceInfo = await this.orderComplianceService.getComplianceInfo(orderId);
@@ -154,7 +159,38 @@ export class OrderQueryService {
       detail.payment = {
         method: paymentIntent.method,
         status: paymentIntent.status,
+        rejectionReason: paymentIntent.rejectionReason,
       };
+      const attempts = await this.paymentIntentService.getAttempts(orderId);
+      const previous = attempts.filter((attempt) => attempt.id !== paymentIntent.id);
+      if (previous.length > 0) {
+        detail.payment.previousAttempts = previous.map((attempt) => ({
+          method: attempt.method,
+          status: attempt.status,
+          referenceId: attempt.referenceId,
+          rejectionReason: attempt.rejectionReason,
+          createdAt: attempt.createdAt.toISOString(),
+        }));
+      }
+    }
+
+    // Shipment with tracking timeline. Omit until the order ships.
+    const shipment = await this.shipmentService.getForOrder(orderId);
+    if (shipment) {
+      detail.shipment = shipment;
+    }
+
+    // Refund status. Omit until a refund is requested.
+    const refunds = await this.refundService.getForOrder(orderId);
+    if (refunds.length > 0) {
+      detail.refunds = refunds.map((refund) => ({
+        amount: refund.amount.toJSON(),
+        status: refund.status,
+        reason: refund.reason,
+        upiReference: refund.upiReference,
+        requestedAt: refund.createdAt.toISOString(),
+        processedAt: refund.processedAt?.toISOString() ?? null,
+      }));
     }
 
     return detail;
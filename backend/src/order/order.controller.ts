@@ -9,6 +9,8 @@ import {
   HttpStatus,
   UseGuards,
   Headers,
+  Header,
+  StreamableFile,
 } from '@nestjs/common';
 import { OrderService } from './order.service';
 import { OrderQueryService } from './order-query.service';
@@ -32,9 +34,13 @@ import {
 } from './dto/order-history.dto';
 import { CreatePaymentDto } from '../payment/dto/create-payment.dto';
 import { UpiProofDto } from '../payment/dto/upi-proof.dto';
+import { UpiQrCodeQueryDto } from '../payment/dto/upi-qr-code.dto';
+import { UPI_QR_CODE_CONTENT_TYPES } from '../payment/upi';
 import {
   toPaymentIntentResponseDto,
+  UpiInstructionsDto,
   CreatePaymentUpiResponseDto,
+  CreatePaymentOnlineResponseDto,
   PaymentIntentResponseDto,
 } from '../payment/dto/payment-response.dto';
 import { logWithCorrelation } from '../common/logging/logger';
@@ -127,6 +133,42 @@ export class OrderController {
     return ApiResponse.success(order, 'Order retrieved successfully');
   }
 
+  /**
+   * UPI instructions for the current UPI payment (deep link, inline QR code, steps)
+   * GET /api/v1/orders/:id/payment/upi
+   *
+   * Lets the payment page pick up a UPI payment started earlier.
+   */
+  @Get(':id/payment/upi')
+  async getUpiInstructions(
+    @Param('id') orderId: string,
+    @CurrentUser() user: AuthUser,
+  ): Promise<ApiResponse<UpiInstructionsDto>> {
+    const instructions = await this.paymentIntentService.getUpiInstructions(orderId, user.id);
+    return ApiResponse.success(instructions, 'UPI instructions retrieved successfully');
+  }
+
+  /**
+   * UPI deep link as a QR code image
+   * GET /api/v1/orders/:id/payment/upi/qr
+   * GET /api/v1/orders/:id/payment/upi/qr?format=svg
+   */
+  @Get(':id/payment/upi/qr')
+  @Header('Cache-Control', 'private, no-store')
+  async getUpiQrCode(
+    @Param('id') orderId: string,
+    @Query() query: UpiQrCodeQueryDto,
+    @CurrentUser() user: AuthUser,
+  ): Promise<StreamableFile> {
+    const format = query.format ?? 'png';
+    const image = await this.paymentIntentService.getUpiQrCode(orderId, user.id, format);
+    return new StreamableFile(image, {
+      type: UPI_QR_CODE_CONTENT_TYPES[format],
+      length: image.length,
+      disposition: `inline; filename="upi-${orderId}.${format}"`,
+    });
+  }
+
   // ============================================================
   // COMMANDS - Intent-based state transitions
   // ============================================================
@@ -230,7 +272,8 @@ export class OrderController {
    * POST /api/v1/orders/:id/payment
    *
    * COD: creates PaymentIntent VERIFIED (pay at delivery).
-   * UPI: creates PaymentIntent PENDING, returns UPI instructions (VPA, steps).
+   * UPI: creates PaymentIntent PENDING, returns UPI instructions (deep link, QR code, steps).
+   * ONLINE: creates PaymentIntent PENDING with a gateway order, returns checkout details.
    */
   @Post(':id/payment')
   @HttpCode(HttpStatus.OK)
@@ -239,7 +282,11 @@ export class OrderController {
     @Body() dto: CreatePaymentDto,
     @CurrentUser() user: AuthUser,
     @Headers('x-correlation-id') correlationId: string,
-  ): Promise<ApiResponse<PaymentIntentResponseDto | CreatePaymentUpiResponseDto>> {
+  ): Promise<
+    ApiResponse<
+      PaymentIntentResponseDto | CreatePaymentUpiResponseDto | CreatePaymentOnlineResponseDto
+    >
+  > {
     const result = await this.paymentIntentService.createForOrder(
       orderId,
       dto.method,
@@ -252,6 +299,13 @@ export class OrderController {
         'Cash on delivery selected',
       );
     }
+    if (dto.method === 'ONLINE') {
+      const online: CreatePaymentOnlineResponseDto = {
+        paymentIntent: toPaymentIntentResponseDto(result.paymentIntent),
+        gatewayCheckout: result.gatewayCheckout!,
+      };
+      return ApiResponse.success(online, 'Complete the payment at checkout');
+    }
     const response: CreatePaymentUpiResponseDto = {
       paymentIntent: toPaymentIntentResponseDto(result.paymentIntent),
       upiInstructions: result.upiInstructions!,
@@ -259,24 +313,6 @@ export class OrderController {
     return ApiResponse.success(response, 'Payment received and pending verification');
   }
 
-  /**
-   * Ship an order (fulfilment)
-   * POST /api/v1/orders/:id/ship
-   *
-   * Transitions: PAID → SHIPPED.
-   * ADR-0055: Blocked until compliance approval (prescription or consultation).
-   */
-  @Post(':id/ship')
-  @HttpCode(HttpStatus.OK)
-  async shipOrder(
-    @Param('id') orderId: string,
-    @CurrentUser() user: AuthUser,
-    @Headers('x-correlation-id') correlationId: string,
-  ): Promise<ApiResponse<OrderDto>> {
-    const order = await this.orderService.shipOrder(orderId, user.id, correlationId);
-    return ApiResponse.success(order, 'Order shipped successfully');
-  }
-
   /**
    * Cancel an order
    * POST /api/v1/orders/:id/cancel
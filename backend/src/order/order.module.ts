@@ -1,15 +1,19 @@
 import { Module, forwardRef } from '@nestjs/common';
 import { OrderController } from './order.controller';
 import { CartController } from './cart.controller';
+import { FulfilmentController } from './fulfilment.controller';
 import { OrderService } from './order.service';
 import { OrderQueryService } from './order-query.service';
 import { CartService } from './cart.service';
+import { OrderPaymentEventHandler } from './order-payment-event.handler';
 import { ORDER_REPOSITORY } from './repositories/order-repository.interface';
 import { OrderRepositoryProvider } from '../database/repository.providers';
 import { AuthModule } from '../auth/auth.module';
 import { CatalogModule } from '../catalog/catalog.module';
+import { InventoryModule } from '../inventory/inventory.module';
 import { ComplianceModule } from '../compliance/compliance.module';
 import { PaymentModule } from '../payment/payment.module';
+import { ShipmentModule } from '../shipment/shipment.module';
 
 /**
  * Order Module
@@ -21,6 +25,13 @@ import { PaymentModule } from '../payment/payment.module';
  * - OrderQueryService: Read-only queries (history, details)
  * - CartService: Cart (draft order) management
  *
+ * Event handlers:
+ * - OrderPaymentEventHandler: CONFIRMED → PAID once the payment is verified (or COD chosen)
+ *
+ * Controllers:
+ * - OrderController, CartController: customer-facing
+ * - FulfilmentController: staff shipping and delivery
+ *
  * Repository Selection:
  * - Uses REPOSITORY_TYPE env var or auto-detects from DATABASE_URL
  * - 'memory': InMemoryOrderRepository (tests, dev without DB)
@@ -30,11 +41,19 @@ import { PaymentModule } from '../payment/payment.module';
   imports: [
     AuthModule, // For JwtAuthGuard
     CatalogModule, // For product validation in CartService
+    InventoryModule, // Stock checks and reservations
     forwardRef(() => ComplianceModule), // Fulfilment gate (ADR-0055)
     forwardRef(() => PaymentModule), // Phase 6 — payment intent
+    ShipmentModule, // Shipment created on ship, shown on order detail
+  ],
+  controllers: [OrderController, CartController, FulfilmentController],
+  providers: [
+    OrderService,
+    OrderQueryService,
+    CartService,
+    OrderRepositoryProvider,
+    OrderPaymentEventHandler,
   ],
-  controllers: [OrderController, CartController],
-  providers: [OrderService, OrderQueryService, CartService, OrderRepositoryProvider],
   exports: [OrderService, OrderQueryService, CartService, ORDER_REPOSITORY],
 })
 export class OrderModule {}
@@ -1,14 +1,39 @@
 import { OrderService } from './order.service';
 import { InMemoryOrderRepository } from './repositories/in-memory-order.repository';
 import { OrderStatus } from './domain';
+import { createOrderItem } from './domain/order-item';
+import { Money } from '../catalog/domain/money';
 import {
   OrderNotFoundException,
   UnauthorizedOrderAccessException,
   OrderTerminalStateException,
   OrderCannotBeCancelledException,
+  InvalidOrderStateTransitionException,
+  OrderComplianceNotApprovedException,
 } from './exceptions/order.exceptions';
 import { OrderComplianceService } from '../compliance/order-compliance.service';
 import { ComplianceStatus } from '../compliance/compliance-status';
+import { InventoryService } from '../inventory/inventory.service';
+import { InMemoryStockRepository } from '../inventory/repositories/in-memory-stock.repository';
+import { InsufficientStockException } from '../inventory/exceptions';
+import { InvalidShipmentException } from '../shipment/exceptions';
+import { ShipmentService } from '../shipment/shipment.service';
+import { InMemoryShipmentRepository } from '../shipment/repositories/in-memory-shipment.repository';
+import { LocalCarrierAdapter } from '../shipment/carriers';
+import { TrackingEventStatus } from '../shipment/domain';
+import { InMemoryOutboxRepository } from '../events/repositories/in-memory-outbox.repository';
+import { EventBus } from '../events/event-bus';
+import { OutboxDispatcher } from '../events/outbox-dispatcher';
+import { OutboxStatus } from '../events/domain';
+import { InventoryEventHandler } from '../inventory/inventory-event.handler';
+import { OrderPaymentEventHandler } from './order-payment-event.handler';
+import { PaymentIntentService } from '../payment/payment-intent.service';
+import { InMemoryPaymentIntentRepository } from '../payment/repositories/in-memory-payment-intent.repository';
+import { PaymentMethod } from '../payment/domain/payment-method';
+import { SandboxPaymentGateway } from '../payment/gateway/sandbox-payment.gateway';
+import { FileService } from '../files/file.service';
+import { InMemoryStoredFileRepository } from '../files/repositories/in-memory-stored-file.repository';
+import { InMemoryFileStorage } from '../files/storage/in-memory-file.storage';
 
 /**
  * OrderService Tests - Cancel Order
@@ -19,6 +44,9 @@ import { ComplianceStatus } from '../compliance/compliance-status';
  * - Ownership enforcement
  * - Idempotency / double-cancel attempts
  * - Domain event emission
+ * - Stock reservation on confirm, release on cancel (via the outbox), commit on ship
+ * - Staff fulfilment: ready-to-ship queue, ship and deliver with who did each step
+ * - Payment to shipment: a verified payment (or COD) moves the order to PAID
  *
  * Design decisions:
  * - Uses real in-memory repository (no mocks)
@@ -28,6 +56,9 @@ import { ComplianceStatus } from '../compliance/compliance-status';
 describe('OrderService - cancelOrder', () => {
   let orderService: OrderService;
   let orderRepository: InMemoryOrderRepository;
+  let stockRepository: InMemoryStockRepository;
+  let outboxRepository: InMemoryOutboxRepository;
+  let outboxDispatcher: OutboxDispatcher;
 
   const correlationId = 'test-correlation-id';
   const userId = 'user-123';
@@ -39,8 +70,19 @@ describe('OrderService - cancelOrder', () => {
   } as unknown as OrderComplianceService;
 
   beforeEach(() => {
-    orderRepository = new InMemoryOrderRepository();
-    orderService = new OrderService(orderRepository, mockComplianceService);
+    outboxRepository = new InMemoryOutboxRepository();
+    orderRepository = new InMemoryOrderRepository(outboxRepository);
+    stockRepository = new InMemoryStockRepository();
+    const inventoryService = new InventoryService(stockRepository);
+    const eventBus = new EventBus(outboxRepository);
+    new InventoryEventHandler(eventBus, inventoryService).onModuleInit();
+    outboxDispatcher = new OutboxDispatcher(outboxRepository, eventBus);
+    orderService = new OrderService(
+      orderRepository,
+      mockComplianceService,
+      inventoryService,
+      new ShipmentService(new InMemoryShipmentRepository(), [new LocalCarrierAdapter()]),
+    );
   });
 
   afterEach(() => {
@@ -106,6 +148,22 @@ describe('OrderService - cancelOrder', () => {
       expect(persistedOrder).not.toBeNull();
       expect(persistedOrder!.status).toBe(OrderStatus.CANCELLED);
     });
+
+    it('should record the cancellation in status history', async () => {
+      const order = await orderRepository.createOrder(userId, OrderStatus.CONFIRMED);
+
+      await orderService.cancelOrder(order.id, userId, correlationId);
+
+      expect(await orderRepository.findStatusHistory(order.id)).toEqual([
+        expect.objectContaining({
+          previousStatus: OrderStatus.CONFIRMED,
+          nextStatus: OrderStatus.CANCELLED,
+          actorId: userId,
+          reason: 'Cancelled by customer',
+          correlationId,
+        }),
+      ]);
+    });
   });
 
   // ============================================================
@@ -143,6 +201,21 @@ describe('OrderService - cancelOrder', () => {
       expect(result.events[0].correlationId).toBe(correlationId);
     });
 
+    it('should write the event to the outbox with the cancellation', async () => {
+      const order = await orderRepository.createOrder(userId, OrderStatus.CONFIRMED);
+
+      await orderService.cancelOrder(order.id, userId, correlationId);
+
+      const pending = await outboxRepository.findByStatus(OutboxStatus.PENDING, 10);
+      expect(pending).toEqual([
+        expect.objectContaining({
+          eventType: 'ORDER_CANCELLED',
+          correlationId,
+          payload: expect.objectContaining({ orderId: order.id, previousState: 'CONFIRMED' }),
+        }),
+      ]);
+    });
+
     it('should set occurredAt timestamp', async () => {
       const beforeTime = new Date();
       const order = await orderRepository.createOrder(userId, OrderStatus.CONFIRMED);
@@ -355,4 +428,486 @@ describe('OrderService - cancelOrder', () => {
       }
     });
   });
+
+  // ============================================================
+  // Stock Reservation Tests
+  // ============================================================
+
+  describe('stock reservation', () => {
+    const productId = 'prod-001'; // 100 units on hand
+
+    async function createOrderWithItem(status: OrderStatus, quantity: number): Promise<string> {
+      const order = await orderRepository.createOrder(userId, OrderStatus.DRAFT);
+      await orderRepository.addItem(
+        order.id,
+        createOrderItem({
+          productId,
+          productName: 'Paracetamol 500mg',
+          unitPrice: Money.fromMajorUnits(25),
+          quantity,
+        }),
+      );
+      await orderRepository.updateStatus(order.id, status, { actorId: 'test-setup' });
+      return order.id;
+    }
+
+    it('should reserve stock when an order is confirmed', async () => {
+      const orderId = await createOrderWithItem(OrderStatus.CREATED, 3);
+
+      await orderService.confirmOrder(orderId, userId, correlationId);
+
+      const stock = await stockRepository.findByProductId(productId);
+      expect(stock!.reserved).toBe(3);
+      expect(stock!.onHand).toBe(100);
+    });
+
+    it('should not confirm an order when stock is insufficient', async () => {
+      const orderId = await createOrderWithItem(OrderStatus.CREATED, 101);
+
+      await expect(orderService.confirmOrder(orderId, userId, correlationId)).rejects.toThrow(
+        InsufficientStockException,
+      );
+
+      const order = await orderRepository.findById(orderId);
+      expect(order!.status).toBe(OrderStatus.CREATED);
+    });
+
+    it('should release reserved stock when an order is cancelled', async () => {
+      const orderId = await createOrderWithItem(OrderStatus.CREATED, 3);
+      await orderService.confirmOrder(orderId, userId, correlationId);
+
+      await orderService.cancelOrder(orderId, userId, correlationId);
+      await outboxDispatcher.dispatchPending(new Date(Date.now() + 1000));
+
+      const stock = await stockRepository.findByProductId(productId);
+      expect(stock!.reserved).toBe(0);
+      expect(stock!.onHand).toBe(100);
+    });
+
+    it('should deduct reserved stock from on-hand when an order ships', async () => {
+      const orderId = await createOrderWithItem(OrderStatus.CREATED, 3);
+      await orderService.confirmOrder(orderId, userId, correlationId);
+      await orderRepository.updateStatus(orderId, OrderStatus.PAID, { actorId: 'test-setup' });
+
+      await orderService.shipOrder(
+        orderId,
+        'staff-1',
+        { carrier: 'India Post', trackingNumber: 'EE123456789IN' },
+        correlationId,
+      );
+
+      const stock = await stockRepository.findByProductId(productId);
+      expect(stock!.reserved).toBe(0);
+      expect(stock!.onHand).toBe(97);
+    });
+
+    it('should ship on retry after the status update failed', async () => {
+      const orderId = await createOrderWithItem(OrderStatus.CREATED, 3);
+      await orderService.confirmOrder(orderId, userId, correlationId);
+      await orderRepository.updateStatus(orderId, OrderStatus.PAID, { actorId: 'test-setup' });
+      const input = { carrier: 'India Post', trackingNumber: 'EE123456789IN' };
+      jest
+        .spyOn(orderRepository, 'updateStatus')
+        .mockRejectedValueOnce(new Error('database unavailable'));
+
+      await expect(
+        orderService.shipOrder(orderId, 'staff-1', input, correlationId),
+      ).rejects.toThrow('database unavailable');
+      const result = await orderService.shipOrder(orderId, 'staff-1', input, correlationId);
+
+      expect(result.order.status).toBe(OrderStatus.SHIPPED);
+      expect(result.shipment).toMatchObject({ orderId, trackingNumber: 'EE123456789IN' });
+      const stock = await stockRepository.findByProductId(productId);
+      expect(stock!.reserved).toBe(0);
+      expect(stock!.onHand).toBe(97);
+    });
+
+    it('should not commit stock when the shipment is rejected', async () => {
+      const orderId = await createOrderWithItem(OrderStatus.CREATED, 3);
+      await orderService.confirmOrder(orderId, userId, correlationId);
+      await orderRepository.updateStatus(orderId, OrderStatus.PAID, { actorId: 'test-setup' });
+
+      await expect(
+        orderService.shipOrder(
+          orderId,
+          'staff-1',
+          {
+            carrier: 'India Post',
+            trackingNumber: 'EE123456789IN',
+            expectedDeliveryDate: new Date('2020-01-01'),
+          },
+          correlationId,
+        ),
+      ).rejects.toThrow(InvalidShipmentException);
+
+      const stock = await stockRepository.findByProductId(productId);
+      expect(stock!.reserved).toBe(3);
+      expect(stock!.onHand).toBe(100);
+      const order = await orderRepository.findById(orderId);
+      expect(order!.status).toBe(OrderStatus.PAID);
+    });
+  });
+});
+
+describe('OrderService - fulfilment', () => {
+  let orderService: OrderService;
+  let orderRepository: InMemoryOrderRepository;
+  let outboxRepository: InMemoryOutboxRepository;
+  let approvedOrderIds: Set<string>;
+
+  const correlationId = 'test-correlation-id';
+  const customerId = 'user-123';
+  const staffId = 'staff-1';
+  const shipment = { carrier: 'India Post', trackingNumber: 'EE123456789IN' };
+
+  beforeEach(() => {
+    outboxRepository = new InMemoryOutboxRepository();
+    orderRepository = new InMemoryOrderRepository(outboxRepository);
+    approvedOrderIds = new Set();
+    const complianceService = {
+      canFulfil: (orderId: string) => Promise.resolve(approvedOrderIds.has(orderId)),
+    } as unknown as OrderComplianceService;
+    orderService = new OrderService(
+      orderRepository,
+      complianceService,
+      new InventoryService(new InMemoryStockRepository()),
+      new ShipmentService(new InMemoryShipmentRepository(), [new LocalCarrierAdapter()]),
+    );
+  });
+
+  afterEach(() => {
+    orderRepository.clear();
+  });
+
+  async function createOrder(status: OrderStatus, approved = true): Promise<string> {
+    const order = await orderRepository.createOrder(customerId, status);
+    if (approved) {
+      approvedOrderIds.add(order.id);
+    }
+    return order.id;
+  }
+
+  describe('getOrdersReadyToShip', () => {
+    it('should list only paid, compliance-approved orders', async () => {
+      const ready = await createOrder(OrderStatus.PAID);
+      await createOrder(OrderStatus.PAID, false);
+      await createOrder(OrderStatus.CONFIRMED);
+      await createOrder(OrderStatus.SHIPPED);
+
+      const orders = await orderService.getOrdersReadyToShip();
+
+      expect(orders.map((o) => o.id)).toEqual([ready]);
+    });
+  });
+
+  describe('shipOrder', () => {
+    it("should ship another customer's order and record carrier, tracking and staff", async () => {
+      const orderId = await createOrder(OrderStatus.PAID);
+
+      const result = await orderService.shipOrder(orderId, staffId, shipment, correlationId);
+
+      expect(result.order.status).toBe(OrderStatus.SHIPPED);
+      expect(result.order.userId).toBe(customerId);
+      expect(result.shipment).toMatchObject({
+        orderId,
+        carrier: 'India Post',
+        trackingNumber: 'EE123456789IN',
+        dispatchedBy: staffId,
+        expectedDeliveryDate: null,
+        deliveredBy: null,
+      });
+      expect(result.shipment!.events.map((e) => e.status)).toEqual([
+        TrackingEventStatus.DISPATCHED,
+      ]);
+
+      const awaiting = await orderService.getOrdersAwaitingDelivery();
+      expect(awaiting.map((a) => a.shipment?.trackingNumber)).toEqual(['EE123456789IN']);
+    });
+
+    it('should quote an expected delivery date for carriers with an adapter', async () => {
+      const orderId = await createOrder(OrderStatus.PAID);
+
+      const result = await orderService.shipOrder(
+        orderId,
+        staffId,
+        { carrier: 'local', trackingNumber: 'RIDER-7' },
+        correlationId,
+      );
+
+      const tomorrow = new Date(Date.now() + 24 * 60 * 60 * 1000).toISOString().slice(0, 10);
+      expect(result.shipment!.expectedDeliveryDate).toBe(tomorrow);
+    });
+
+    it('should not ship an order without compliance approval', async () => {
+      const orderId = await createOrder(OrderStatus.PAID, false);
+
+      await expect(
+        orderService.shipOrder(orderId, staffId, shipment, correlationId),
+      ).rejects.toThrow(OrderComplianceNotApprovedException);
+
+      const order = await orderRepository.findById(orderId);
+      expect(order!.status).toBe(OrderStatus.PAID);
+    });
+
+    it('should not ship an unpaid order', async () => {
+      const orderId = await createOrder(OrderStatus.CONFIRMED);
+
+      await expect(
+        orderService.shipOrder(orderId, staffId, shipment, correlationId),
+      ).rejects.toThrow(InvalidOrderStateTransitionException);
+    });
+
+    it('should throw OrderNotFoundException for a missing order', async () => {
+      await expect(
+        orderService.shipOrder('missing', staffId, shipment, correlationId),
+      ).rejects.toThrow(OrderNotFoundException);
+    });
+  });
+
+  describe('deliverOrder', () => {
+    it('should deliver a shipped order and record the note and staff', async () => {
+      const orderId = await createOrder(OrderStatus.PAID);
+      await orderService.shipOrder(orderId, staffId, shipment, correlationId);
+
+      const result = await orderService.deliverOrder(
+        orderId,
+        'staff-2',
+        { note: 'Received by customer, OTP verified' },
+        correlationId,
+      );
+
+      expect(result.order.status).toBe(OrderStatus.DELIVERED);
+      expect(result.shipment).toMatchObject({
+        carrier: 'India Post',
+        dispatchedBy: staffId,
+        deliveredBy: 'staff-2',
+        deliveryNote: 'Received by customer, OTP verified',
+      });
+      expect(result.shipment!.deliveredAt).not.toBeNull();
+      expect(result.shipment!.events.map((e) => e.status)).toEqual([
+        TrackingEventStatus.DISPATCHED,
+        TrackingEventStatus.DELIVERED,
+      ]);
+      expect(await orderService.getOrdersAwaitingDelivery()).toHaveLength(0);
+    });
+
+    it('should record the staff member for each fulfilment step in status history', async () => {
+      const orderId = await createOrder(OrderStatus.PAID);
+      await orderService.shipOrder(orderId, staffId, shipment, correlationId);
+      await orderService.deliverOrder(orderId, 'staff-2', { note: 'Left at door' }, correlationId);
+
+      const history = await orderRepository.findStatusHistory(orderId);
+
+      expect(history.map((h) => [h.previousStatus, h.nextStatus, h.actorId])).toEqual([
+        [OrderStatus.PAID, OrderStatus.SHIPPED, staffId],
+        [OrderStatus.SHIPPED, OrderStatus.DELIVERED, 'staff-2'],
+      ]);
+      expect(history[0].reason).toBe('Shipped with India Post (EE123456789IN)');
+    });
+
+    it('should write OrderShipped and OrderDelivered events to the outbox', async () => {
+      const orderId = await createOrder(OrderStatus.PAID);
+      const { shipment: shipped } = await orderService.shipOrder(
+        orderId,
+        staffId,
+        shipment,
+        correlationId,
+      );
+      await orderService.deliverOrder(orderId, 'staff-2', { note: 'Left at door' }, correlationId);
+
+      const pending = await outboxRepository.findByStatus(OutboxStatus.PENDING, 10);
+      const payloads = pending.map((message) => ({ type: message.eventType, ...message.payload }));
+      expect(payloads).toEqual(
+        expect.arrayContaining([
+          expect.objectContaining({
+            type: 'ORDER_SHIPPED',
+            orderId,
+            userId: customerId,
+            shipmentId: shipped!.id,
+            carrier: 'India Post',
+            trackingNumber: 'EE123456789IN',
+            shippedBy: staffId,
+          }),
+          expect.objectContaining({
+            type: 'ORDER_DELIVERED',
+            orderId,
+            userId: customerId,
+            shipmentId: shipped!.id,
+            deliveredBy: 'staff-2',
+          }),
+        ]),
+      );
+    });
+
+    it('should list and deliver an order shipped before shipments were recorded', async () => {
+      const orderId = await createOrder(OrderStatus.SHIPPED);
+
+      const awaiting = await orderService.getOrdersAwaitingDelivery();
+      expect(awaiting).toEqual([expect.objectContaining({ shipment: null })]);
+      expect(awaiting[0].order.id).toBe(orderId);
+
+      const result = await orderService.deliverOrder(
+        orderId,
+        staffId,
+        { note: 'Left with neighbour' },
+        correlationId,
+      );
+
+      expect(result.order.status).toBe(OrderStatus.DELIVERED);
+      expect(result.shipment).toBeNull();
+      const history = await orderRepository.findStatusHistory(orderId);
+      expect(history[history.length - 1].reason).toBe(
+        'Delivery confirmed by staff: Left with neighbour',
+      );
+    });
+
+    it('should not deliver an order that has not shipped', async () => {
+      const orderId = await createOrder(OrderStatus.PAID);
+
+      await expect(
+        orderService.deliverOrder(orderId, staffId, { note: 'Left at door' }, correlationId),
+      ).rejects.toThrow(InvalidOrderStateTransitionException);
+    });
+
+    it('should not deliver an order twice', async () => {
+      const orderId = await createOrder(OrderStatus.DELIVERED);
+
+      await expect(
+        orderService.deliverOrder(orderId, staffId, { note: 'Again' }, correlationId),
+      ).rejects.toThrow(InvalidOrderStateTransitionException);
+    });
+  });
+});
+
+describe('OrderService - payment to shipment', () => {
+  let orderService: OrderService;
+  let orderRepository: InMemoryOrderRepository;
+  let paymentIntentService: PaymentIntentService;
+  let outboxDispatcher: OutboxDispatcher;
+
+  const correlationId = 'test-correlation-id';
+  const customerId = 'user-123';
+  const staffId = 'staff-1';
+
+  beforeEach(() => {
+    const outboxRepository = new InMemoryOutboxRepository();
+    orderRepository = new InMemoryOrderRepository(outboxRepository);
+    const complianceService = {
+      canFulfil: () => Promise.resolve(true),
+    } as unknown as OrderComplianceService;
+    orderService = new OrderService(
+      orderRepository,
+      complianceService,
+      new InventoryService(new InMemoryStockRepository()),
+      new ShipmentService(new InMemoryShipmentRepository(), [new LocalCarrierAdapter()]),
+    );
+    const eventBus = new EventBus(outboxRepository);
+    new OrderPaymentEventHandler(eventBus, orderService).onModuleInit();
+    outboxDispatcher = new OutboxDispatcher(outboxRepository, eventBus);
+    paymentIntentService = new PaymentIntentService(
+      new InMemoryPaymentIntentRepository(outboxRepository),
+      orderRepository,
+      new FileService(new InMemoryStoredFileRepository(), new InMemoryFileStorage()),
+      new SandboxPaymentGateway('test-webhook-secret'),
+    );
+  });
+
+  afterEach(() => {
+    orderRepository.clear();
+  });
+
+  async function placeOrder(): Promise<string> {
+    const order = await orderRepository.createOrder(customerId, OrderStatus.DRAFT);
+    await orderRepository.addItem(
+      order.id,
+      createOrderItem({
+        productId: 'prod-001',
+        productName: 'Paracetamol 500mg',
+        unitPrice: Money.fromMajorUnits(25),
+        quantity: 2,
+      }),
+    );
+    await orderRepository.updateStatus(order.id, OrderStatus.CREATED, { actorId: 'test-setup' });
+    await orderService.confirmOrder(order.id, customerId, correlationId);
+    return order.id;
+  }
+
+  async function dispatchEvents(): Promise<void> {
+    await outboxDispatcher.dispatchPending(new Date(Date.now() + 1000));
+  }
+
+  it('should ship an order once its UPI payment is verified', async () => {
+    const orderId = await placeOrder();
+    const { paymentIntent } = await paymentIntentService.createForOrder(
+      orderId,
+      PaymentMethod.UPI,
+      customerId,
+      correlationId,
+    );
+    await paymentIntentService.submitUpiProof(
+      orderId,
+      { referenceId: 'UPI-REF-1' },
+      customerId,
+      correlationId,
+    );
+    await dispatchEvents();
+    expect(await orderService.getOrdersReadyToShip()).toHaveLength(0);
+
+    await paymentIntentService.verify(
+      paymentIntent.id,
+      correlationId,
+      Money.fromMajorUnits(50, 'INR'),
+    );
+    await dispatchEvents();
+
+    const ready = await orderService.getOrdersReadyToShip();
+    expect(ready.map((o) => o.id)).toEqual([orderId]);
+
+    const result = await orderService.shipOrder(
+      orderId,
+      staffId,
+      { carrier: 'India Post', trackingNumber: 'EE123456789IN' },
+      correlationId,
+    );
+    expect(result.order.status).toBe(OrderStatus.SHIPPED);
+
+    const history = await orderRepository.findStatusHistory(orderId);
+    expect(history.map((h) => [h.previousStatus, h.nextStatus])).toEqual(
+      expect.arrayContaining([
+        [OrderStatus.CONFIRMED, OrderStatus.PAID],
+        [OrderStatus.PAID, OrderStatus.SHIPPED],
+      ]),
+    );
+  });
+
+  it('should make a cash-on-delivery order ready to ship', async () => {
+    const orderId = await placeOrder();
+
+    await paymentIntentService.createForOrder(
+      orderId,
+      PaymentMethod.COD,
+      customerId,
+      correlationId,
+    );
+    await dispatchEvents();
+
+    const ready = await orderService.getOrdersReadyToShip();
+    expect(ready.map((o) => o.id)).toEqual([orderId]);
+  });
+
+  it('should ignore redelivery and leave a cancelled order cancelled', async () => {
+    const paidId = await placeOrder();
+    await orderService.recordPaymentVerified(paidId, 'intent-1', correlationId);
+    const again = await orderService.recordPaymentVerified(paidId, 'intent-1', correlationId);
+    expect(again.status).toBe(OrderStatus.PAID);
+
+    const cancelledId = await placeOrder();
+    await orderService.cancelOrder(cancelledId, customerId, correlationId);
+    const cancelled = await orderService.recordPaymentVerified(
+      cancelledId,
+      'intent-2',
+      correlationId,
+    );
+    expect(cancelled.status).toBe(OrderStatus.CANCELLED);
+  });
 });
@@ -7,10 +7,16 @@ import {
   canCancel,
   isTerminalStatus,
   createOrderCancelledEvent,
+  createOrderShippedEvent,
+  createOrderDeliveredEvent,
   DomainEventCollector,
+  SYSTEM_ACTOR,
   type OrderCancelledEvent,
 } from './domain';
 import { OrderComplianceService } from '../compliance/order-compliance.service';
+import { InventoryService } from '../inventory/inventory.service';
+import { ShipmentService, CreateShipmentInput } from '../shipment/shipment.service';
+import { StaffShipmentDto } from '../shipment/dto';
 import {
   OrderNotFoundException,
   UnauthorizedOrderAccessException,
@@ -35,6 +41,23 @@ export interface CancelOrderResult {
   events: ReadonlyArray<OrderCancelledEvent>;
 }
 
+/**
+ * Delivery details entered by staff
+ */
+export interface DeliverOrderInput {
+  /** Proof-of-delivery note (who received it, where it was left, etc.) */
+  note: string;
+}
+
+/**
+ * Result of a staff fulfilment step (ship or deliver)
+ */
+export interface FulfilmentResult {
+  order: OrderDto;
+  /** Null only for orders shipped before shipments were recorded */
+  shipment: StaffShipmentDto | null;
+}
+
 /**
  * Order Service
  *
@@ -53,6 +76,8 @@ export class OrderService {
     @Inject(ORDER_REPOSITORY)
     private readonly orderRepository: IOrderRepository,
     private readonly orderComplianceService: OrderComplianceService,
+    private readonly inventoryService: InventoryService,
+    private readonly shipmentService: ShipmentService,
   ) {}
 
   // ============================================================
@@ -91,6 +116,31 @@ export class OrderService {
     return this.orderRepository.findByUserId(userId, status);
   }
 
+  /**
+   * Orders staff can ship now: PAID and compliance APPROVED, oldest first
+   */
+  async getOrdersReadyToShip(): Promise<OrderDto[]> {
+    const paidOrders = await this.orderRepository.findByStatus(OrderStatus.PAID);
+    const fulfillable = await Promise.all(
+      paidOrders.map((order) => this.orderComplianceService.canFulfil(order.id)),
+    );
+    return paidOrders.filter((_, index) => fulfillable[index]);
+  }
+
+  /**
+   * Shipped orders awaiting delivery with their shipments, oldest first.
+   * Orders shipped before shipments were recorded are listed with a null shipment.
+   */
+  async getOrdersAwaitingDelivery(): Promise<FulfilmentResult[]> {
+    const shippedOrders = await this.orderRepository.findByStatus(OrderStatus.SHIPPED);
+    return Promise.all(
+      shippedOrders.map(async (order) => ({
+        order,
+        shipment: await this.shipmentService.findShipmentByOrderId(order.id),
+      })),
+    );
+  }
+
   // ============================================================
   // COMMANDS - State Transitions
   // ============================================================
@@ -122,6 +172,7 @@ export class OrderService {
    * Business rules:
    * - Order must be in CREATED status
    * - Only order owner can confirm
+   * - Stock for every item is reserved atomically
    */
   async confirmOrder(orderId: string, userId: string, correlationId: string): Promise<OrderDto> {
     const order = await this.getOrderById(orderId, userId, correlationId);
@@ -142,7 +193,24 @@ export class OrderService {
       'CONFIRM',
     );
 
-    const updatedOrder = await this.orderRepository.updateStatus(orderId, targetState);
+    await this.inventoryService.reserveForOrder(
+      orderId,
+      order.items.map((item) => ({ productId: item.productId, quantity: item.quantity })),
+      correlationId,
+    );
+
+    let updatedOrder: OrderDto;
+    try {
+      updatedOrder = await this.orderRepository.updateStatus(orderId, targetState, {
+        actorId: userId,
+        reason: 'Confirmed by customer',
+        correlationId,
+        expectedStatus: previousState,
+      });
+    } catch (error) {
+      await this.inventoryService.releaseForOrder(orderId, correlationId);
+      throw error;
+    }
 
     this.logStateTransition(correlationId, {
       orderId,
@@ -156,7 +224,8 @@ export class OrderService {
   }
 
   /**
-   * @deprecated Payment status is tracked in PaymentIntent.
+   * @deprecated Payment status is tracked in PaymentIntent; the order moves to
+   * PAID through recordPaymentVerified once the intent is verified.
    * Kept for backward compatibility; no order state mutation occurs.
    */
   async payForOrder(orderId: string, userId: string, correlationId: string): Promise<OrderDto> {
@@ -175,26 +244,70 @@ export class OrderService {
   }
 
   /**
-   * @deprecated Payment status is tracked in PaymentIntent.
-   * Kept for backward compatibility; no order state mutation occurs.
+   * Mark a confirmed order paid once its payment intent is VERIFIED (system action).
+   * Transition: CONFIRMED → PAID, recorded with SYSTEM_ACTOR.
+   * Called from OrderPaymentEventHandler for PaymentVerified and COD intents.
+   *
+   * Idempotent for event redelivery: an order already PAID or further along is
+   * returned unchanged. A cancelled order is left cancelled.
+   *
+   * @throws OrderNotFoundException - Order doesn't exist
+   * @throws OrderNotConfirmedException - Order has not been confirmed yet
    */
-  async recordPaymentVerified(orderId: string, correlationId: string): Promise<OrderDto> {
-    const order = await this.orderRepository.findById(orderId);
-    if (!order) {
-      logWithCorrelation('WARN', correlationId, `Order not found`, 'OrderService', { orderId });
-      throw new OrderNotFoundException(orderId);
+  async recordPaymentVerified(
+    orderId: string,
+    paymentIntentId: string,
+    correlationId: string,
+  ): Promise<OrderDto> {
+    const order = await this.getOrderForFulfilment(orderId, correlationId);
+    const previousState = order.status;
+    const targetState = OrderStatus.PAID;
+
+    if (order.status === OrderStatus.CANCELLED) {
+      logWithCorrelation(
+        'WARN',
+        correlationId,
+        'Payment verified for a cancelled order; order left cancelled',
+        'OrderService',
+        { orderId, paymentIntentId },
+      );
+      return order;
+    }
+    if (
+      order.status === OrderStatus.PAID ||
+      order.status === OrderStatus.SHIPPED ||
+      order.status === OrderStatus.DELIVERED
+    ) {
+      return order;
     }
     if (order.status !== OrderStatus.CONFIRMED) {
       throw new OrderNotConfirmedException(orderId, order.status);
     }
-    logWithCorrelation(
-      'INFO',
+
+    this.validateAndLogTransition(
       correlationId,
-      'Payment verified in PaymentIntent; order state unchanged',
-      'OrderService',
-      { orderId, userId: order.userId, state: order.status },
+      orderId,
+      SYSTEM_ACTOR,
+      previousState,
+      targetState,
+      'PAY',
     );
-    return order;
+
+    const updatedOrder = await this.orderRepository.updateStatus(orderId, targetState, {
+      actorId: SYSTEM_ACTOR,
+      reason: `Payment ${paymentIntentId} verified`,
+      correlationId,
+      expectedStatus: previousState,
+    });
+
+    this.logStateTransition(correlationId, {
+      orderId,
+      userId: SYSTEM_ACTOR,
+      previousState,
+      nextState: targetState,
+      action: 'PAY',
+    });
+    return updatedOrder;
   }
 
   /**
@@ -211,6 +324,7 @@ export class OrderService {
    * - Cannot cancel DELIVERED or already CANCELLED orders (terminal states)
    * - Only order owner can cancel
    * - Cancellation goes through state machine validation
+   * - Any stock reservation is released by the OrderCancelled event handler
    *
    * @throws OrderNotFoundException - Order doesn't exist
    * @throws UnauthorizedOrderAccessException - User doesn't own the order
@@ -258,23 +372,29 @@ export class OrderService {
       'CANCEL',
     );
 
-    // Perform the state transition
-    const updatedOrder = await this.orderRepository.updateStatus(orderId, targetState);
-
-    // Create domain event
+    // Create domain event; its handlers release reserved stock
     const eventCollector = new DomainEventCollector();
     const orderCancelledEvent = createOrderCancelledEvent(
       {
-        orderId: updatedOrder.id,
-        userId: updatedOrder.userId,
+        orderId: order.id,
+        userId: order.userId,
         previousState,
-        total: updatedOrder.total,
-        itemCount: updatedOrder.itemCount,
+        total: order.total,
+        itemCount: order.itemCount,
       },
       correlationId,
     );
     eventCollector.add(orderCancelledEvent);
 
+    // Perform the state transition, writing the event to the outbox with it
+    const updatedOrder = await this.orderRepository.updateStatus(orderId, targetState, {
+      actorId: userId,
+      reason: 'Cancelled by customer',
+      correlationId,
+      expectedStatus: previousState,
+      events: eventCollector.getEvents(),
+    });
+
     // Log successful transition
     this.logStateTransition(correlationId, {
       orderId,
@@ -291,22 +411,93 @@ export class OrderService {
   }
 
   /**
-   * Ship an order (fulfilment path).
+   * Cancel a confirmed order that was not paid in time (system action).
+   * Transition: CONFIRMED → CANCELLED, recorded with SYSTEM_ACTOR.
+   * Emits OrderCancelled, so reserved stock is released as for a customer cancellation.
+   *
+   * @throws OrderNotFoundException - Order doesn't exist
+   * @throws OrderCannotBeCancelledException - Order is no longer CONFIRMED
+   * @throws OrderStatusConflictException - Order left CONFIRMED (e.g. was paid) while cancelling
+   */
+  async cancelUnpaidOrder(
+    orderId: string,
+    reason: string,
+    correlationId: string,
+  ): Promise<CancelOrderResult> {
+    const order = await this.getOrderForFulfilment(orderId, correlationId);
+    const previousState = order.status;
+    const targetState = OrderStatus.CANCELLED;
+
+    if (order.status !== OrderStatus.CONFIRMED) {
+      throw new OrderCannotBeCancelledException(orderId, order.status);
+    }
+
+    this.validateAndLogTransition(
+      correlationId,
+      orderId,
+      SYSTEM_ACTOR,
+      previousState,
+      targetState,
+      'EXPIRE',
+    );
+
+    const orderCancelledEvent = createOrderCancelledEvent(
+      {
+        orderId: order.id,
+        userId: order.userId,
+        previousState,
+        total: order.total,
+        itemCount: order.itemCount,
+      },
+      correlationId,
+    );
+
+    const updatedOrder = await this.orderRepository.updateStatus(orderId, targetState, {
+      actorId: SYSTEM_ACTOR,
+      reason,
+      correlationId,
+      expectedStatus: previousState,
+      events: [orderCancelledEvent],
+    });
+
+    this.logStateTransition(correlationId, {
+      orderId,
+      userId: SYSTEM_ACTOR,
+      previousState,
+      nextState: targetState,
+      action: 'EXPIRE',
+    });
+    return { order: updatedOrder, previousState, events: [orderCancelledEvent] };
+  }
+
+  /**
+   * Ship an order (staff fulfilment).
    * Transition: PAID → SHIPPED.
    * ADR-0055: Fulfilment is blocked until compliance approval (prescription or consultation).
    * Payment is never blocked by compliance.
+   * Reserved stock is committed (deducted from on-hand) on shipping and batches
+   * are allocated first-expiring-first-out; the batch numbers are recorded.
+   * A shipment records the carrier, tracking number and the staff member who shipped it.
+   * Dispatch details are validated before stock is committed. Committing is a
+   * no-op once done and a retry reuses the shipment a failed attempt recorded,
+   * so a failed attempt can simply be retried.
+   * Emits OrderShipped.
    */
-  async shipOrder(orderId: string, userId: string, correlationId: string): Promise<OrderDto> {
-    const order = await this.getOrderById(orderId, userId, correlationId);
+  async shipOrder(
+    orderId: string,
+    staffId: string,
+    input: CreateShipmentInput,
+    correlationId: string,
+  ): Promise<FulfilmentResult> {
+    const order = await this.getOrderForFulfilment(orderId, correlationId);
     const previousState = order.status;
     const targetState = OrderStatus.SHIPPED;
 
     if (order.status !== OrderStatus.PAID) {
-      throw new InvalidOrderStateTransitionException(
-        previousState,
-        targetState,
-        [OrderStatus.SHIPPED, OrderStatus.CANCELLED],
-      );
+      throw new InvalidOrderStateTransitionException(previousState, targetState, [
+        OrderStatus.SHIPPED,
+        OrderStatus.CANCELLED,
+      ]);
     }
 
     const canFulfil = await this.orderComplianceService.canFulfil(orderId);
@@ -317,29 +508,129 @@ export class OrderService {
     this.validateAndLogTransition(
       correlationId,
       orderId,
-      userId,
+      staffId,
       previousState,
       targetState,
       'SHIP',
     );
 
-    const updatedOrder = await this.orderRepository.updateStatus(orderId, targetState);
+    // Reject bad dispatch details before any stock moves
+    this.shipmentService.validateShipment(input);
+
+    // Deduct stock and allocate batches (FEFO) before recording the shipment:
+    // expired stock blocks shipping
+    await this.inventoryService.commitForOrder(orderId, correlationId);
+
+    // A PAID order only has a shipment if an earlier attempt failed after recording it
+    const shipment =
+      (await this.shipmentService.findShipmentByOrderId(orderId)) ??
+      (await this.shipmentService.createShipment(orderId, staffId, input, correlationId));
+
+    const orderShippedEvent = createOrderShippedEvent(
+      {
+        orderId,
+        userId: order.userId,
+        shipmentId: shipment.id,
+        carrier: shipment.carrier,
+        trackingNumber: shipment.trackingNumber,
+        expectedDeliveryDate: shipment.expectedDeliveryDate,
+        shippedBy: staffId,
+      },
+      correlationId,
+    );
+
+    const updatedOrder = await this.orderRepository.updateStatus(orderId, targetState, {
+      actorId: staffId,
+      reason: `Shipped with ${shipment.carrier} (${shipment.trackingNumber})`,
+      correlationId,
+      expectedStatus: previousState,
+      events: [orderShippedEvent],
+    });
 
     this.logStateTransition(correlationId, {
       orderId,
-      userId,
+      userId: staffId,
       previousState,
       nextState: targetState,
       action: 'SHIP',
     });
 
-    return updatedOrder;
+    return { order: updatedOrder, shipment };
+  }
+
+  /**
+   * Mark a shipped order delivered (staff fulfilment).
+   * Transition: SHIPPED → DELIVERED (terminal).
+   * The proof-of-delivery note and delivering staff member are recorded on the shipment;
+   * for orders shipped before shipments were recorded, the note goes in the status history.
+   * Emits OrderDelivered.
+   */
+  async deliverOrder(
+    orderId: string,
+    staffId: string,
+    delivery: DeliverOrderInput,
+    correlationId: string,
+  ): Promise<FulfilmentResult> {
+    const order = await this.getOrderForFulfilment(orderId, correlationId);
+    const previousState = order.status;
+    const targetState = OrderStatus.DELIVERED;
+
+    this.validateAndLogTransition(
+      correlationId,
+      orderId,
+      staffId,
+      previousState,
+      targetState,
+      'DELIVER',
+    );
+
+    const existing = await this.shipmentService.findShipmentByOrderId(orderId);
+    const shipment = existing
+      ? await this.shipmentService.recordDelivery(orderId, staffId, delivery.note, correlationId)
+      : null;
+
+    const orderDeliveredEvent = createOrderDeliveredEvent(
+      { orderId, userId: order.userId, shipmentId: shipment?.id ?? null, deliveredBy: staffId },
+      correlationId,
+    );
+
+    const updatedOrder = await this.orderRepository.updateStatus(orderId, targetState, {
+      actorId: staffId,
+      reason: shipment
+        ? 'Delivery confirmed by staff'
+        : `Delivery confirmed by staff: ${delivery.note}`,
+      correlationId,
+      expectedStatus: previousState,
+      events: [orderDeliveredEvent],
+    });
+
+    this.logStateTransition(correlationId, {
+      orderId,
+      userId: staffId,
+      previousState,
+      nextState: targetState,
+      action: 'DELIVER',
+    });
+
+    return { order: updatedOrder, shipment };
   }
 
   // ============================================================
   // PRIVATE HELPERS
   // ============================================================
 
+  /**
+   * Load an order for staff fulfilment or a system action (no ownership check)
+   */
+  private async getOrderForFulfilment(orderId: string, correlationId: string): Promise<OrderDto> {
+    const order = await this.orderRepository.findById(orderId);
+    if (!order) {
+      logWithCorrelation('WARN', correlationId, `Order not found`, 'OrderService', { orderId });
+      throw new OrderNotFoundException(orderId);
+    }
+    return order;
+  }
+
   /**
    * Validate state transition and log if invalid
    */
@@ -1,11 +1,15 @@
 import { Injectable } from '@nestjs/common';
 import { v4 as uuidv4 } from 'uuid';
 import { IOrderRepository } from './order-repository.interface';
-import { OrderDto, OrderItemDto, OrderPriceDto } from '../dto/order.dto';
+import { OrderDto, OrderItemDto } from '../dto/order.dto';
 import { OrderStatus } from '../domain/order-status';
+import { OrderStatusChange, OrderStatusHistoryEntry } from '../domain/order-status-history';
 import { OrderItem, orderItemToDTO, calculateItemSubtotal } from '../domain/order-item';
 import { Money } from '../../catalog/domain/money';
 import { PaginationParams, PaginatedResult, createPaginatedResult } from '../queries';
+import { IOutboxRepository } from '../../events/repositories/outbox-repository.interface';
+import { createOutboxMessage } from '../../events/domain';
+import { OrderStatusConflictException } from '../exceptions/order.exceptions';
 
 /**
  * Internal order representation with domain items
@@ -35,6 +39,13 @@ interface InternalOrder {
 @Injectable()
 export class InMemoryOrderRepository implements IOrderRepository {
   private orders: Map<string, InternalOrder> = new Map();
+  private statusHistory: Map<string, OrderStatusHistoryEntry[]> = new Map();
+
+  /**
+   * @param outboxRepository - Receives events raised by status changes.
+   *   Without one (most unit tests) the events are discarded.
+   */
+  constructor(private readonly outboxRepository?: IOutboxRepository) {}
 
   // ============================================================
   // Standard Order Operations
@@ -107,27 +118,66 @@ export class InMemoryOrderRepository implements IOrderRepository {
     );
   }
 
-  async updateStatus(orderId: string, status: OrderStatus): Promise<OrderDto> {
+  async updateStatus(
+    orderId: string,
+    status: OrderStatus,
+    change: OrderStatusChange,
+  ): Promise<OrderDto> {
     const order = this.orders.get(orderId);
 
     if (!order) {
       throw new Error(`Order ${orderId} not found`);
     }
+    if (change.expectedStatus && order.status !== change.expectedStatus) {
+      throw new OrderStatusConflictException(orderId, change.expectedStatus, order.status);
+    }
 
+    const now = new Date();
     const updatedOrder: InternalOrder = {
       ...order,
       status,
-      updatedAt: new Date(),
+      updatedAt: now,
     };
 
     this.orders.set(orderId, updatedOrder);
+    this.statusHistory.set(orderId, [
+      ...(this.statusHistory.get(orderId) ?? []),
+      {
+        id: uuidv4(),
+        orderId,
+        previousStatus: order.status,
+        nextStatus: status,
+        actorId: change.actorId,
+        reason: change.reason ?? null,
+        correlationId: change.correlationId ?? null,
+        occurredAt: now,
+      },
+    ]);
+    if (this.outboxRepository && change.events?.length) {
+      await this.outboxRepository.add(
+        change.events.map((event) => createOutboxMessage(event, now)),
+      );
+    }
     return this.toDto(updatedOrder);
   }
 
+  async findStatusHistory(orderId: string): Promise<OrderStatusHistoryEntry[]> {
+    return [...(this.statusHistory.get(orderId) ?? [])];
+  }
+
   async exists(orderId: string): Promise<boolean> {
     return this.orders.has(orderId);
   }
 
+  async findByStatus(status: OrderStatus): Promise<OrderDto[]> {
+    const matching = [...this.orders.values()].filter((order) => order.status === status);
+
+    // Sort by createdAt ascending (oldest first)
+    matching.sort((a, b) => a.createdAt.getTime() - b.createdAt.getTime());
+
+    return matching.map((o) => this.toDto(o));
+  }
+
   // ============================================================
   // Draft Order / Cart Operations
   // ============================================================
@@ -314,6 +364,7 @@ export class InMemoryOrderRepository implements IOrderRepository {
    */
   clear(): void {
     this.orders.clear();
+    this.statusHistory.clear();
   }
 
   /**
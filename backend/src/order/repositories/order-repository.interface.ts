@@ -1,5 +1,6 @@
 import { OrderDto, OrderItemDto } from '../dto/order.dto';
 import { OrderStatus } from '../domain/order-status';
+import { OrderStatusChange, OrderStatusHistoryEntry } from '../domain/order-status-history';
 import { OrderItem } from '../domain/order-item';
 import { PaginationParams, PaginatedResult } from '../queries';
 
@@ -43,16 +44,28 @@ export interface IOrderRepository {
   ): Promise<PaginatedResult<OrderDto>>;
 
   /**
-   * Update order status
+   * Update order status, appending a status history entry and writing
+   * change.events to the outbox in the same transaction
    * Note: Does NOT validate transition - that's the service's job
    */
-  updateStatus(orderId: string, status: OrderStatus): Promise<OrderDto>;
+  updateStatus(orderId: string, status: OrderStatus, change: OrderStatusChange): Promise<OrderDto>;
+
+  /**
+   * Status history for an order, oldest first
+   */
+  findStatusHistory(orderId: string): Promise<OrderStatusHistoryEntry[]>;
 
   /**
    * Check if an order exists
    */
   exists(orderId: string): Promise<boolean>;
 
+  /**
+   * Find all orders in a status, across users
+   * Returns orders sorted by createdAt ascending (oldest first, queue order)
+   */
+  findByStatus(status: OrderStatus): Promise<OrderDto[]>;
+
   // ============================================================
   // Draft Order / Cart Operations
   // ============================================================
@@ -3,13 +3,18 @@ import { PrismaService } from '../../database/prisma.service';
 import { IOrderRepository } from './order-repository.interface';
 import { OrderDto, OrderItemDto } from '../dto/order.dto';
 import { OrderStatus } from '../domain/order-status';
+import { OrderStatusChange, OrderStatusHistoryEntry } from '../domain/order-status-history';
 import { OrderItem, orderItemToDTO, calculateItemSubtotal } from '../domain/order-item';
 import { Money } from '../../catalog/domain/money';
 import { PaginatedResult, PaginationParams, createPaginatedResult } from '../queries/pagination';
+import { createOutboxMessage } from '../../events/domain';
+import { toOutboxRecord } from '../../events/repositories/prisma-outbox.repository';
+import { OrderStatusConflictException } from '../exceptions/order.exceptions';
 import {
   Order as PrismaOrder,
   OrderItem as PrismaOrderItem,
   OrderStatus as PrismaOrderStatus,
+  OrderStatusHistory as PrismaOrderStatusHistory,
 } from '@prisma/client';
 
 // Type for order with items included
@@ -26,6 +31,7 @@ type OrderWithItems = PrismaOrder & { items: PrismaOrderItem[] };
  * - Draft order (cart) management
  * - Item management with proper totals calculation
  * - Pagination support
+ * - Status history and outbox events written in the same transaction as status updates
  */
 @Injectable()
 export class PrismaOrderRepository implements IOrderRepository {
@@ -97,16 +103,78 @@ export class PrismaOrderRepository implements IOrderRepository {
     );
   }
 
-  async updateStatus(orderId: string, status: OrderStatus): Promise<OrderDto> {
-    const order = await this.prisma.order.update({
-      where: { id: orderId },
-      data: { status: this.toPrismaStatus(status) },
-      include: { items: true },
+  async updateStatus(
+    orderId: string,
+    status: OrderStatus,
+    change: OrderStatusChange,
+  ): Promise<OrderDto> {
+    const order = await this.prisma.getClient().$transaction(async (tx) => {
+      const current = await tx.order.findUniqueOrThrow({
+        where: { id: orderId },
+        select: { status: true },
+      });
+      if (change.expectedStatus && current.status !== this.toPrismaStatus(change.expectedStatus)) {
+        throw new OrderStatusConflictException(
+          orderId,
+          change.expectedStatus,
+          this.toDomainStatus(current.status),
+        );
+      }
+
+      // Conditional on the status just read, so a concurrent change is not overwritten
+      const { count } = await tx.order.updateMany({
+        where: { id: orderId, status: current.status },
+        data: { status: this.toPrismaStatus(status) },
+      });
+      if (count === 0) {
+        const latest = await tx.order.findUniqueOrThrow({
+          where: { id: orderId },
+          select: { status: true },
+        });
+        throw new OrderStatusConflictException(
+          orderId,
+          this.toDomainStatus(current.status),
+          this.toDomainStatus(latest.status),
+        );
+      }
+      const updated = await tx.order.findUniqueOrThrow({
+        where: { id: orderId },
+        include: { items: true },
+      });
+
+      await tx.orderStatusHistory.create({
+        data: {
+          orderId,
+          previousStatus: current.status,
+          nextStatus: updated.status,
+          actorId: change.actorId,
+          reason: change.reason ?? null,
+          correlationId: change.correlationId ?? null,
+        },
+      });
+
+      if (change.events?.length) {
+        const now = new Date();
+        await tx.outboxMessage.createMany({
+          data: change.events.map((event) => toOutboxRecord(createOutboxMessage(event, now))),
+        });
+      }
+
+      return updated;
     });
 
     return this.toDto(order);
   }
 
+  async findStatusHistory(orderId: string): Promise<OrderStatusHistoryEntry[]> {
+    const entries = await this.prisma.orderStatusHistory.findMany({
+      where: { orderId },
+      orderBy: { createdAt: 'asc' },
+    });
+
+    return entries.map((entry) => this.historyEntryToDomain(entry));
+  }
+
   async exists(orderId: string): Promise<boolean> {
     const count = await this.prisma.order.count({
       where: { id: orderId },
@@ -114,6 +182,16 @@ export class PrismaOrderRepository implements IOrderRepository {
     return count > 0;
   }
 
+  async findByStatus(status: OrderStatus): Promise<OrderDto[]> {
+    const orders = await this.prisma.order.findMany({
+      where: { status: this.toPrismaStatus(status) },
+      include: { items: true },
+      orderBy: { createdAt: 'asc' },
+    });
+
+    return orders.map((order) => this.toDto(order));
+  }
+
   // ============================================================
   // Draft Order / Cart Operations
   // ============================================================
@@ -275,6 +353,22 @@ export class PrismaOrderRepository implements IOrderRepository {
     };
   }
 
+  /**
+   * Convert Prisma status history row to domain entry
+   */
+  private historyEntryToDomain(entry: PrismaOrderStatusHistory): OrderStatusHistoryEntry {
+    return {
+      id: entry.id,
+      orderId: entry.orderId,
+      previousStatus: this.toDomainStatus(entry.previousStatus),
+      nextStatus: this.toDomainStatus(entry.nextStatus),
+      actorId: entry.actorId,
+      reason: entry.reason,
+      correlationId: entry.correlationId,
+      occurredAt: entry.createdAt,
+    };
+  }
+
   /**
    * Convert Prisma order item to DTO
    */
@@ -0,0 +1,36 @@
+/**
+ * Payment Expiry Configuration
+ *
+ * How long a confirmed order may stay unpaid, and when the customer is
+ * reminded before it is cancelled.
+ */
+
+export interface PaymentExpiryConfig {
+  /** Time from confirmation until an unpaid order is cancelled */
+  paymentWindowMinutes: number;
+  /** How long before the deadline the customer is reminded; 0 disables reminders */
+  reminderLeadMinutes: number;
+  /** How often the expiry job runs; 0 disables the timer */
+  intervalMs: number;
+}
+
+function readInt(name: string, fallback: number, min: number): number {
+  const value = parseInt(process.env[name] || String(fallback), 10);
+  return Number.isNaN(value) ? fallback : Math.max(min, value);
+}
+
+/**
+ * Get payment expiry configuration from environment
+ */
+export function getPaymentExpiryConfig(): PaymentExpiryConfig {
+  const paymentWindowMinutes = readInt('PAYMENT_WINDOW_MINUTES', 24 * 60, 1);
+  return {
+    paymentWindowMinutes,
+    // A reminder at or before confirmation would be sent straight away
+    reminderLeadMinutes: Math.min(
+      readInt('PAYMENT_REMINDER_LEAD_MINUTES', 3 * 60, 0),
+      paymentWindowMinutes - 1,
+    ),
+    intervalMs: readInt('PAYMENT_EXPIRY_INTERVAL_MS', 60_000, 0),
+  };
+}
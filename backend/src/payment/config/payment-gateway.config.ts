@@ -0,0 +1,40 @@
+/**
+ * Payment Gateway Configuration
+ *
+ * Selects the provider behind ONLINE payments.
+ *
+ * Security notes:
+ * - PAYMENT_WEBHOOK_SECRET must be set via environment variable in production;
+ *   gateway callbacks are only trusted when their signature matches it
+ */
+
+export type PaymentGatewayDriver = 'sandbox';
+
+export interface PaymentGatewayConfig {
+  /** Provider behind ONLINE payments; only the local sandbox exists so far */
+  driver: PaymentGatewayDriver;
+
+  /** Secret the gateway signs callbacks with */
+  webhookSecret: string;
+}
+
+/**
+ * Get payment gateway configuration from environment
+ */
+export function getPaymentGatewayConfig(): PaymentGatewayConfig {
+  const driver = process.env.PAYMENT_GATEWAY_DRIVER || 'sandbox';
+  if (driver !== 'sandbox') {
+    throw new Error(`Unknown PAYMENT_GATEWAY_DRIVER '${driver}'`);
+  }
+
+  const webhookSecret = process.env.PAYMENT_WEBHOOK_SECRET;
+  if (!webhookSecret && process.env.NODE_ENV === 'production') {
+    throw new Error('PAYMENT_WEBHOOK_SECRET must be set in production');
+  }
+
+  return {
+    driver,
+    // Use env variable or fallback for development
+    webhookSecret: webhookSecret || 'dev-payment-webhook-secret-do-not-use-in-production',
+  };
+}
@@ -0,0 +1,22 @@
+/**
+ * UPI Configuration
+ *
+ * Payee shown to the customer and encoded in the UPI deep link / QR code.
+ */
+
+export interface UpiConfig {
+  /** Virtual payment address payments are sent to */
+  vpa: string;
+  /** Payee name shown by the customer's UPI app */
+  payeeName: string;
+}
+
+/**
+ * Get UPI payee configuration from environment
+ */
+export function getUpiConfig(): UpiConfig {
+  return {
+    vpa: process.env.UPI_VPA || '9009090467@ptyes',
+    payeeName: process.env.UPI_PAYEE_NAME || 'Pharmacy',
+  };
+}
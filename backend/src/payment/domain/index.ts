@@ -1,3 +1,8 @@
 export * from './payment-method';
 export * from './payment-intent-status';
 export * from './payment-intent.entity';
+export * from './payment-events';
+export * from './refund.entity';
+export * from './refund-events';
+export * from './payment-webhook-event.entity';
+export * from './payment-reminder.entity';
@@ -0,0 +1,243 @@
+import type { DomainEvent } from '../../events/domain/domain-event';
+import { PaymentMethod } from './payment-method';
+
+/**
+ * Domain Events for Payment Intent Aggregate
+ *
+ * Emitted by PaymentIntentService after the intent is saved and delivered
+ * to handlers through the outbox. Every event carries the order and the
+ * customer so handlers never need to load the intent to act on it.
+ */
+
+interface PaymentEventData {
+  paymentIntentId: string;
+  orderId: string;
+  userId: string;
+}
+
+/**
+ * Payment Intent Created Event
+ *
+ * Emitted when a customer chooses how to pay for a confirmed order.
+ * COD intents are created already VERIFIED, so no PaymentVerified follows.
+ */
+export interface PaymentIntentCreatedEvent extends DomainEvent {
+  readonly type: 'PAYMENT_INTENT_CREATED';
+  readonly paymentIntentId: string;
+  readonly orderId: string;
+  readonly userId: string;
+  readonly method: PaymentMethod;
+  /** Order total the customer is expected to pay */
+  readonly amount: {
+    readonly amount: number;
+    readonly currency: string;
+  };
+}
+
+/**
+ * Factory function to create a PaymentIntentCreated event
+ */
+export function createPaymentIntentCreatedEvent(
+  data: PaymentEventData & {
+    method: PaymentMethod;
+    amount: { amount: number; currency: string };
+  },
+  correlationId?: string,
+): PaymentIntentCreatedEvent {
+  return {
+    type: 'PAYMENT_INTENT_CREATED',
+    occurredAt: new Date(),
+    correlationId,
+    paymentIntentId: data.paymentIntentId,
+    orderId: data.orderId,
+    userId: data.userId,
+    method: data.method,
+    amount: data.amount,
+  };
+}
+
+/**
+ * UPI Proof Submitted Event
+ *
+ * Emitted when a customer submits the UPI transaction reference (and
+ * optionally a screenshot) for admin verification.
+ */
+export interface UpiProofSubmittedEvent extends DomainEvent {
+  readonly type: 'UPI_PROOF_SUBMITTED';
+  readonly paymentIntentId: string;
+  readonly orderId: string;
+  readonly userId: string;
+  readonly referenceId: string;
+  /** Stored file ID of the screenshot, if one was uploaded */
+  readonly proofReference: string | null;
+}
+
+/**
+ * Factory function to create an UpiProofSubmitted event
+ */
+export function createUpiProofSubmittedEvent(
+  data: PaymentEventData & { referenceId: string; proofReference: string | null },
+  correlationId?: string,
+): UpiProofSubmittedEvent {
+  return {
+    type: 'UPI_PROOF_SUBMITTED',
+    occurredAt: new Date(),
+    correlationId,
+    paymentIntentId: data.paymentIntentId,
+    orderId: data.orderId,
+    userId: data.userId,
+    referenceId: data.referenceId,
+    proofReference: data.proofReference,
+  };
+}
+
+/**
+ * Payment Verified Event
+ *
+ * Emitted when an admin verifies a submitted UPI payment or the gateway
+ * captures an ONLINE one. The order then moves to PAID.
+ */
+export interface PaymentVerifiedEvent extends DomainEvent {
+  readonly type: 'PAYMENT_VERIFIED';
+  readonly paymentIntentId: string;
+  readonly orderId: string;
+  readonly userId: string;
+  readonly method: PaymentMethod;
+}
+
+/**
+ * Factory function to create a PaymentVerified event
+ */
+export function createPaymentVerifiedEvent(
+  data: PaymentEventData & { method: PaymentMethod },
+  correlationId?: string,
+): PaymentVerifiedEvent {
+  return {
+    type: 'PAYMENT_VERIFIED',
+    occurredAt: new Date(),
+    correlationId,
+    paymentIntentId: data.paymentIntentId,
+    orderId: data.orderId,
+    userId: data.userId,
+    method: data.method,
+  };
+}
+
+/**
+ * Payment Rejected Event
+ *
+ * Emitted when an admin rejects a submitted UPI payment (reference not
+ * found, amount mismatch, etc.) or the gateway declines an ONLINE payment.
+ * The customer can then retry with a new payment attempt.
+ */
+export interface PaymentRejectedEvent extends DomainEvent {
+  readonly type: 'PAYMENT_REJECTED';
+  readonly paymentIntentId: string;
+  readonly orderId: string;
+  readonly userId: string;
+  /** Reference the customer submitted, for follow-up */
+  readonly referenceId: string | null;
+  /** Shown to the customer so they can retry */
+  readonly rejectionReason: string | null;
+}
+
+/**
+ * Factory function to create a PaymentRejected event
+ */
+export function createPaymentRejectedEvent(
+  data: PaymentEventData & { referenceId: string | null; rejectionReason: string | null },
+  correlationId?: string,
+): PaymentRejectedEvent {
+  return {
+    type: 'PAYMENT_REJECTED',
+    occurredAt: new Date(),
+    correlationId,
+    paymentIntentId: data.paymentIntentId,
+    orderId: data.orderId,
+    userId: data.userId,
+    referenceId: data.referenceId,
+    rejectionReason: data.rejectionReason,
+  };
+}
+
+/**
+ * Payment Expired Event
+ *
+ * Emitted when a PENDING intent is still unpaid as the payment window
+ * closes. The order is cancelled in the same run (OrderCancelled follows).
+ */
+export interface PaymentExpiredEvent extends DomainEvent {
+  readonly type: 'PAYMENT_EXPIRED';
+  readonly paymentIntentId: string;
+  readonly orderId: string;
+  readonly userId: string;
+  readonly method: PaymentMethod;
+}
+
+/**
+ * Factory function to create a PaymentExpired event
+ */
+export function createPaymentExpiredEvent(
+  data: PaymentEventData & { method: PaymentMethod },
+  correlationId?: string,
+): PaymentExpiredEvent {
+  return {
+    type: 'PAYMENT_EXPIRED',
+    occurredAt: new Date(),
+    correlationId,
+    paymentIntentId: data.paymentIntentId,
+    orderId: data.orderId,
+    userId: data.userId,
+    method: data.method,
+  };
+}
+
+/**
+ * Payment Due Reminder Event
+ *
+ * Emitted once per order when a confirmed order is still unpaid shortly
+ * before its payment window closes. Raised for the order rather than an
+ * intent: the customer may not have chosen how to pay yet.
+ */
+export interface PaymentDueReminderEvent extends DomainEvent {
+  readonly type: 'PAYMENT_DUE_REMINDER';
+  readonly orderId: string;
+  readonly userId: string;
+  readonly amount: { readonly amount: number; readonly currency: string };
+  /** ISO time after which the order is cancelled if still unpaid */
+  readonly dueAt: string;
+}
+
+/**
+ * Factory function to create a PaymentDueReminder event
+ */
+export function createPaymentDueReminderEvent(
+  data: {
+    orderId: string;
+    userId: string;
+    amount: { amount: number; currency: string };
+    dueAt: Date;
+  },
+  correlationId?: string,
+): PaymentDueReminderEvent {
+  return {
+    type: 'PAYMENT_DUE_REMINDER',
+    occurredAt: new Date(),
+    correlationId,
+    orderId: data.orderId,
+    userId: data.userId,
+    amount: data.amount,
+    dueAt: data.dueAt.toISOString(),
+  };
+}
+
+/**
+ * Every event raised by the payment intent aggregate and its payment window
+ */
+export type PaymentDomainEvent =
+  | PaymentIntentCreatedEvent
+  | UpiProofSubmittedEvent
+  | PaymentVerifiedEvent
+  | PaymentRejectedEvent
+  | PaymentExpiredEvent
+  | PaymentDueReminderEvent;
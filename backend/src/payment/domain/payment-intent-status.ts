@@ -1,10 +1,15 @@
 /**
  * Payment intent status (Phase 6 — manual payment v1)
  * COD: created as VERIFIED; UPI: PENDING → SUBMITTED → VERIFIED (admin)
+ * ONLINE: PENDING → VERIFIED (gateway captured) or REJECTED (payment failed)
+ * VERIFIED → REFUNDED once processed refunds cover the whole amount collected.
+ * PENDING → EXPIRED when the payment window closes and the order is cancelled.
  */
 export enum PaymentIntentStatus {
   PENDING = 'PENDING',
   SUBMITTED = 'SUBMITTED',
   VERIFIED = 'VERIFIED',
   REJECTED = 'REJECTED',
+  REFUNDED = 'REFUNDED',
+  EXPIRED = 'EXPIRED',
 }
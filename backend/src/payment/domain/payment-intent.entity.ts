@@ -3,7 +3,8 @@ import { PaymentIntentStatus } from './payment-intent-status';
 
 /**
  * Payment intent aggregate (Phase 6 — manual payment v1)
- * One active PaymentIntent per order.
+ * One active PaymentIntent per order: the latest. A retry after a rejection
+ * creates a new intent, so an order's intents are its payment attempts.
  */
 export interface PaymentIntent {
   readonly id: string;
@@ -12,16 +13,23 @@ export interface PaymentIntent {
   readonly status: PaymentIntentStatus;
   readonly referenceId: string | null;
   readonly proofReference: string | null;
+  /** ONLINE only: order ID at the payment gateway; referenceId holds the gateway payment ID */
+  readonly gatewayOrderId: string | null;
+  /** Why the admin rejected the UPI proof, or why the gateway declined the payment */
+  readonly rejectionReason: string | null;
   readonly createdAt: Date;
   readonly verifiedAt: Date | null;
 }
 
 export interface CreatePaymentIntentData {
+  /** Generated when omitted; pass one to raise events about the intent with it */
+  id?: string;
   orderId: string;
   method: PaymentMethod;
   status: PaymentIntentStatus;
   referenceId?: string | null;
   proofReference?: string | null;
+  gatewayOrderId?: string | null;
 }
 
 export interface UpdatePaymentIntentData {
@@ -29,4 +37,5 @@ export interface UpdatePaymentIntentData {
   referenceId?: string | null;
   proofReference?: string | null;
   verifiedAt?: Date | null;
+  rejectionReason?: string | null;
 }
@@ -1,7 +1,9 @@
 /**
  * Payment method (Phase 6 — manual payment v1)
+ * ONLINE is paid through the configured payment gateway.
  */
 export enum PaymentMethod {
   COD = 'COD',
   UPI = 'UPI',
+  ONLINE = 'ONLINE',
 }
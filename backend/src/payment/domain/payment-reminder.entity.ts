@@ -0,0 +1,13 @@
+/**
+ * Payment Reminder
+ *
+ * Reminder sent to a customer whose confirmed order is still unpaid as the
+ * payment window closes. One per order: recording it is how the expiry job,
+ * running in every instance, makes sure the customer is reminded only once.
+ */
+export interface PaymentReminder {
+  readonly orderId: string;
+  /** When the order will be cancelled if still unpaid */
+  readonly dueAt: Date;
+  readonly sentAt: Date;
+}
@@ -0,0 +1,21 @@
+import { PaymentIntentStatus } from './payment-intent-status';
+
+/**
+ * Payment Webhook Event
+ *
+ * A gateway callback that has been processed. Providers deliver callbacks at
+ * least once, so each (provider, eventId) is recorded after it is applied and
+ * later deliveries of the same event are ignored. Callbacks that fail (bad
+ * signature, capture timeout) are not recorded, so a redelivery is retried.
+ */
+export interface PaymentWebhookEvent {
+  readonly provider: string;
+  readonly eventId: string;
+  /** Normalised gateway event type, e.g. PAYMENT_AUTHORIZED */
+  readonly eventType: string;
+  readonly gatewayOrderId: string;
+  readonly paymentIntentId: string;
+  /** Intent status after the event was applied (unchanged if it was ignored) */
+  readonly intentStatus: PaymentIntentStatus;
+  readonly receivedAt: Date;
+}
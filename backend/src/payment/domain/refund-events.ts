@@ -0,0 +1,87 @@
+import type { DomainEvent } from '../../events/domain/domain-event';
+import { Refund, RefundStatus } from './refund.entity';
+
+/**
+ * Domain Events for Refund Aggregate
+ *
+ * Emitted by RefundService after the refund is saved and delivered to
+ * handlers through the outbox.
+ */
+
+interface RefundEventBase extends DomainEvent {
+  readonly refundId: string;
+  readonly orderId: string;
+  readonly userId: string;
+  readonly amount: {
+    readonly amount: number;
+    readonly currency: string;
+  };
+}
+
+/**
+ * Refund Requested Event
+ *
+ * Emitted when a refund is raised, by order cancellation or by an admin.
+ */
+export interface RefundRequestedEvent extends RefundEventBase {
+  readonly type: 'REFUND_REQUESTED';
+  readonly reason: string;
+}
+
+/**
+ * Refund Approved Event
+ */
+export interface RefundApprovedEvent extends RefundEventBase {
+  readonly type: 'REFUND_APPROVED';
+  readonly approvedBy: string;
+}
+
+/**
+ * Refund Processed Event
+ *
+ * Emitted when the payout is made; carries the UPI reference to show the customer.
+ */
+export interface RefundProcessedEvent extends RefundEventBase {
+  readonly type: 'REFUND_PROCESSED';
+  readonly upiReference: string;
+}
+
+/**
+ * Refund Failed Event
+ */
+export interface RefundFailedEvent extends RefundEventBase {
+  readonly type: 'REFUND_FAILED';
+  readonly failureReason: string;
+}
+
+export type RefundDomainEvent =
+  RefundRequestedEvent | RefundApprovedEvent | RefundProcessedEvent | RefundFailedEvent;
+
+/**
+ * Factory function to create the event for a refund's current status
+ */
+export function createRefundEvent(
+  refund: Refund,
+  userId: string,
+  correlationId?: string,
+): RefundDomainEvent {
+  const base = {
+    occurredAt: new Date(),
+    correlationId,
+    refundId: refund.id,
+    orderId: refund.orderId,
+    userId,
+    amount: refund.amount.toJSON(),
+  };
+
+  switch (refund.status) {
+    case RefundStatus.REQUESTED:
+      return { ...base, type: 'REFUND_REQUESTED', reason: refund.reason };
+    case RefundStatus.APPROVED:
+      return { ...base, type: 'REFUND_APPROVED', approvedBy: refund.approvedBy ?? '' };
+    case RefundStatus.PROCESSED:
+      return { ...base, type: 'REFUND_PROCESSED', upiReference: refund.upiReference ?? '' };
+    case RefundStatus.FAILED:
+      return { ...base, type: 'REFUND_FAILED', failureReason: refund.failureReason ?? '' };
+  }
+}
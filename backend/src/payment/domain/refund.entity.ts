@@ -0,0 +1,143 @@
+import { randomUUID } from 'crypto';
+import { Money } from '../../catalog/domain/money';
+
+/**
+ * Refund
+ *
+ * Money returned to a customer against a collected payment. An order can
+ * have several refunds (e.g. a partial refund for a damaged item, then the
+ * rest on cancellation); together they never exceed the amount collected.
+ *
+ * Lifecycle: REQUESTED → APPROVED → PROCESSED, or APPROVED → FAILED.
+ * Payouts are made by UPI outside the system and the admin records the UPI
+ * reference when marking a refund processed; ONLINE payments can instead be
+ * refunded through the payment gateway. A FAILED refund no longer
+ * counts against the balance, so the amount can be refunded again.
+ */
+export enum RefundStatus {
+  REQUESTED = 'REQUESTED',
+  APPROVED = 'APPROVED',
+  PROCESSED = 'PROCESSED',
+  FAILED = 'FAILED',
+}
+
+const REFUND_TRANSITIONS: Record<RefundStatus, readonly RefundStatus[]> = {
+  [RefundStatus.REQUESTED]: [RefundStatus.APPROVED],
+  [RefundStatus.APPROVED]: [RefundStatus.PROCESSED, RefundStatus.FAILED],
+  [RefundStatus.PROCESSED]: [],
+  [RefundStatus.FAILED]: [],
+};
+
+export interface Refund {
+  readonly id: string;
+  readonly orderId: string;
+  readonly paymentIntentId: string;
+  readonly amount: Money;
+  readonly reason: string;
+  readonly status: RefundStatus;
+  /** Customer, admin or SYSTEM (order cancellation) */
+  readonly requestedBy: string;
+  readonly approvedBy: string | null;
+  readonly approvedAt: Date | null;
+  readonly processedBy: string | null;
+  readonly processedAt: Date | null;
+  /** UPI transaction reference of the payout, or the gateway refund ID */
+  readonly upiReference: string | null;
+  readonly failureReason: string | null;
+  readonly createdAt: Date;
+  readonly updatedAt: Date;
+}
+
+export interface CreateRefundData {
+  orderId: string;
+  paymentIntentId: string;
+  amount: Money;
+  reason: string;
+  requestedBy: string;
+}
+
+export function createRefund(data: CreateRefundData, now: Date = new Date()): Refund {
+  return {
+    id: randomUUID(),
+    orderId: data.orderId,
+    paymentIntentId: data.paymentIntentId,
+    amount: data.amount,
+    reason: data.reason,
+    status: RefundStatus.REQUESTED,
+    requestedBy: data.requestedBy,
+    approvedBy: null,
+    approvedAt: null,
+    processedBy: null,
+    processedAt: null,
+    upiReference: null,
+    failureReason: null,
+    createdAt: now,
+    updatedAt: now,
+  };
+}
+
+export function canTransitionRefund(from: RefundStatus, to: RefundStatus): boolean {
+  return REFUND_TRANSITIONS[from].includes(to);
+}
+
+export function approveRefund(refund: Refund, approvedBy: string, now: Date = new Date()): Refund {
+  return {
+    ...refund,
+    status: RefundStatus.APPROVED,
+    approvedBy,
+    approvedAt: now,
+    updatedAt: now,
+  };
+}
+
+export function markRefundProcessed(
+  refund: Refund,
+  data: { processedBy: string; upiReference: string },
+  now: Date = new Date(),
+): Refund {
+  return {
+    ...refund,
+    status: RefundStatus.PROCESSED,
+    processedBy: data.processedBy,
+    processedAt: now,
+    upiReference: data.upiReference,
+    updatedAt: now,
+  };
+}
+
+export function markRefundFailed(
+  refund: Refund,
+  data: { processedBy: string; failureReason: string },
+  now: Date = new Date(),
+): Refund {
+  return {
+    ...refund,
+    status: RefundStatus.FAILED,
+    processedBy: data.processedBy,
+    failureReason: data.failureReason,
+    updatedAt: now,
+  };
+}
+
+/**
+ * Amount still refundable: collected minus every refund that has not failed
+ */
+export function refundableBalance(collected: Money, refunds: readonly Refund[]): Money {
+  const committed = refunds
+    .filter((refund) => refund.status !== RefundStatus.FAILED)
+    .reduce((sum, refund) => sum + refund.amount.getAmountInMinorUnits(), 0);
+  return Money.fromMinorUnits(
+    Math.max(collected.getAmountInMinorUnits() - committed, 0),
+    collected.getCurrency(),
+  );
+}
+
+/**
+ * Whether processed refunds add up to the whole amount collected
+ */
+export function isFullyRefunded(collected: Money, refunds: readonly Refund[]): boolean {
+  const processed = refunds
+    .filter((refund) => refund.status === RefundStatus.PROCESSED)
+    .reduce((sum, refund) => sum + refund.amount.getAmountInMinorUnits(), 0);
+  return processed >= collected.getAmountInMinorUnits();
+}
@@ -1,3 +1,8 @@
 export * from './create-payment.dto';
 export * from './upi-proof.dto';
+export * from './upi-qr-code.dto';
+export * from './verify-payment.dto';
+export * from './reject-payment.dto';
 export * from './payment-response.dto';
+export * from './refund.dto';
+export * from './reconciliation.dto';
@@ -1,6 +1,7 @@
 import type { PaymentIntent } from '../domain/payment-intent.entity';
 import { PaymentMethod } from '../domain/payment-method';
 import { PaymentIntentStatus } from '../domain/payment-intent-status';
+import type { Money } from '../../catalog/domain/money';
 
 /**
  * Payment intent summary for API responses
@@ -12,6 +13,8 @@ export interface PaymentIntentResponseDto {
   status: PaymentIntentStatus;
   referenceId?: string | null;
   proofReference?: string | null;
+  gatewayOrderId?: string | null;
+  rejectionReason?: string | null;
   createdAt: string;
   verifiedAt?: string | null;
 }
@@ -24,16 +27,39 @@ export function toPaymentIntentResponseDto(intent: PaymentIntent): PaymentIntent
     status: intent.status,
     referenceId: intent.referenceId,
     proofReference: intent.proofReference,
+    gatewayOrderId: intent.gatewayOrderId,
+    rejectionReason: intent.rejectionReason,
     createdAt: intent.createdAt.toISOString(),
     verifiedAt: intent.verifiedAt?.toISOString() ?? null,
   };
 }
 
+/**
+ * SUBMITTED payment awaiting admin review, with the amount the customer owes
+ */
+export interface PendingPaymentResponseDto extends PaymentIntentResponseDto {
+  expectedAmount: { amount: number; currency: string };
+}
+
+export function toPendingPaymentResponseDto(
+  intent: PaymentIntent,
+  expectedAmount: Money,
+): PendingPaymentResponseDto {
+  return { ...toPaymentIntentResponseDto(intent), expectedAmount: expectedAmount.toJSON() };
+}
+
 /**
  * UPI instructions returned when method is UPI (Phase 6)
  */
 export interface UpiInstructionsDto {
   vpa: string;
+  payeeName: string;
+  /** Order total the customer must pay */
+  amount: { amount: number; currency: string };
+  /** upi:// link that opens a UPI app with payee, amount and order pre-filled */
+  deepLink: string;
+  /** The deep link as an SVG QR code, for scanning from another device */
+  qrCodeSvg: string;
   steps: string[];
 }
 
@@ -44,3 +70,21 @@ export interface CreatePaymentUpiResponseDto {
   paymentIntent: PaymentIntentResponseDto;
   upiInstructions: UpiInstructionsDto;
 }
+
+/**
+ * Gateway checkout details returned when method is ONLINE.
+ * The client opens the provider's checkout for gatewayOrderId.
+ */
+export interface GatewayCheckoutDto {
+  provider: string;
+  gatewayOrderId: string;
+  amount: { amount: number; currency: string };
+}
+
+/**
+ * Response for POST /orders/:orderId/payment when method is ONLINE
+ */
+export interface CreatePaymentOnlineResponseDto {
+  paymentIntent: PaymentIntentResponseDto;
+  gatewayCheckout: GatewayCheckoutDto;
+}
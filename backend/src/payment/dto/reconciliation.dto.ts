@@ -0,0 +1,54 @@
+/**
+ * Bank statement reconciliation DTOs
+ */
+import type { StatementRowError } from '../reconciliation/bank-statement';
+
+/**
+ * Outcome for one statement credit, or for a submitted payment with no credit:
+ * - MATCHED: reference and amount match one submitted payment (proposed for verification)
+ * - VERIFIED: MATCHED, and verified by this run
+ * - VERIFY_FAILED: MATCHED, but verification failed (the payment changed meanwhile)
+ * - AMOUNT_MISMATCH: reference matches a submitted payment but the amount differs
+ * - DUPLICATE: reference is on several statement rows or several payments
+ * - ALREADY_VERIFIED: credit belongs to a payment verified earlier
+ * - UNMATCHED_CREDIT: no submitted payment has this reference
+ * - UNMATCHED_PAYMENT: submitted payment whose reference is not on the statement
+ */
+export type ReconciliationItemStatus =
+  | 'MATCHED'
+  | 'VERIFIED'
+  | 'VERIFY_FAILED'
+  | 'AMOUNT_MISMATCH'
+  | 'DUPLICATE'
+  | 'ALREADY_VERIFIED'
+  | 'UNMATCHED_CREDIT'
+  | 'UNMATCHED_PAYMENT';
+
+export interface ReconciliationItemDto {
+  status: ReconciliationItemStatus;
+  /** Statement row (header is row 1); null for UNMATCHED_PAYMENT */
+  row: number | null;
+  referenceId: string;
+  /** Credited amount on the statement; null for UNMATCHED_PAYMENT */
+  amountReceived: { amount: number; currency: string } | null;
+  paymentIntentId: string | null;
+  orderId: string | null;
+  /** Order total of the matched payment */
+  expectedAmount: { amount: number; currency: string } | null;
+  date: string | null;
+  description: string | null;
+  message: string;
+}
+
+/**
+ * Reconciliation report. For a dry run MATCHED items are only proposed;
+ * otherwise each one has been verified (VERIFIED) or failed (VERIFY_FAILED).
+ */
+export interface ReconciliationReportDto {
+  dryRun: boolean;
+  totalCredits: number;
+  summary: Record<ReconciliationItemStatus, number>;
+  items: ReconciliationItemDto[];
+  /** Statement rows that could not be read */
+  errors: StatementRowError[];
+}
@@ -0,0 +1,99 @@
+import {
+  IsEnum,
+  IsNotEmpty,
+  IsNumber,
+  IsOptional,
+  IsPositive,
+  IsString,
+  Length,
+} from 'class-validator';
+import { Refund, RefundStatus } from '../domain/refund.entity';
+
+/**
+ * Request body for POST /admin/refunds
+ * amount (major units) defaults to the whole refundable balance
+ */
+export class RequestRefundDto {
+  @IsString()
+  @IsNotEmpty()
+  orderId!: string;
+
+  @IsOptional()
+  @IsNumber({ maxDecimalPlaces: 2 })
+  @IsPositive()
+  amount?: number;
+
+  @IsString()
+  @IsNotEmpty()
+  @Length(1, 500)
+  reason!: string;
+}
+
+/**
+ * Request body for POST /admin/refunds/:id/process
+ */
+export class ProcessRefundDto {
+  /** UPI transaction reference of the payout */
+  @IsString()
+  @IsNotEmpty()
+  @Length(1, 100)
+  upiReference!: string;
+}
+
+/**
+ * Request body for POST /admin/refunds/:id/fail
+ */
+export class FailRefundDto {
+  @IsString()
+  @IsNotEmpty()
+  @Length(1, 500)
+  reason!: string;
+}
+
+/**
+ * Query for GET /admin/refunds
+ */
+export class RefundQueryDto {
+  @IsOptional()
+  @IsEnum(RefundStatus)
+  status?: RefundStatus;
+}
+
+/**
+ * Refund as shown to admins
+ */
+export interface RefundResponseDto {
+  id: string;
+  orderId: string;
+  paymentIntentId: string;
+  amount: { amount: number; currency: string };
+  reason: string;
+  status: RefundStatus;
+  requestedBy: string;
+  approvedBy: string | null;
+  approvedAt: string | null;
+  processedBy: string | null;
+  processedAt: string | null;
+  upiReference: string | null;
+  failureReason: string | null;
+  createdAt: string;
+}
+
+export function toRefundResponseDto(refund: Refund): RefundResponseDto {
+  return {
+    id: refund.id,
+    orderId: refund.orderId,
+    paymentIntentId: refund.paymentIntentId,
+    amount: refund.amount.toJSON(),
+    reason: refund.reason,
+    status: refund.status,
+    requestedBy: refund.requestedBy,
+    approvedBy: refund.approvedBy,
+    approvedAt: refund.approvedAt?.toISOString() ?? null,
+    processedBy: refund.processedBy,
+    processedAt: refund.processedAt?.toISOString() ?? null,
+    upiReference: refund.upiReference,
+    failureReason: refund.failureReason,
+    createdAt: refund.createdAt.toISOString(),
+  };
+}
@@ -0,0 +1,12 @@
+import { IsOptional, IsString, Length } from 'class-validator';
+
+/**
+ * Request body for POST /admin/payments/:id/reject
+ */
+export class RejectPaymentDto {
+  /** Shown to the customer, who can then retry the payment */
+  @IsOptional()
+  @IsString()
+  @Length(1, 500)
+  rejectionReason?: string;
+}
@@ -9,7 +9,7 @@ export class UpiProofDto {
   @IsNotEmpty()
   referenceId!: string;
 
-  /** File/image reference for payment screenshot */
+  /** Id of the payment screenshot uploaded via POST /files (purpose PAYMENT_PROOF) */
   @IsString()
   @IsOptional()
   proofReference?: string;
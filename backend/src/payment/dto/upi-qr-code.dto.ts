@@ -0,0 +1,12 @@
+import { IsIn, IsOptional } from 'class-validator';
+import type { UpiQrCodeFormat } from '../upi/upi-qr-code';
+
+/**
+ * Query string for GET /orders/:id/payment/upi/qr
+ */
+export class UpiQrCodeQueryDto {
+  /** Image format; defaults to png */
+  @IsOptional()
+  @IsIn(['png', 'svg'])
+  format?: UpiQrCodeFormat;
+}
@@ -0,0 +1,11 @@
+import { IsNumber, Min } from 'class-validator';
+
+/**
+ * Request body for POST /admin/payments/:id/verify
+ */
+export class VerifyPaymentDto {
+  /** Amount the admin sees received against the reference, in rupees */
+  @IsNumber({ maxDecimalPlaces: 2 })
+  @Min(0.01)
+  amountReceived: number;
+}
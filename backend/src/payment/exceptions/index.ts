@@ -1 +1,4 @@
 export * from './payment-intent.exceptions';
+export * from './refund.exceptions';
+export * from './payment-gateway.exceptions';
+export * from './reconciliation.exceptions';
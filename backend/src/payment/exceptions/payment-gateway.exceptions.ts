@@ -0,0 +1,45 @@
+import { HttpStatus } from '@nestjs/common';
+import { BusinessException } from '../../common/exceptions/business.exception';
+
+/**
+ * Payment gateway did not answer in time. The outcome is unknown, so the
+ * payment intent is left as it was; the gateway redelivers its callback.
+ */
+export class PaymentGatewayTimeoutException extends BusinessException {
+  constructor(provider: string, operation: string) {
+    super(
+      'PAYMENT_GATEWAY_TIMEOUT',
+      `Payment gateway '${provider}' timed out during ${operation}.`,
+      HttpStatus.GATEWAY_TIMEOUT,
+      { provider, operation },
+    );
+  }
+}
+
+/**
+ * Gateway callback failed signature verification or could not be parsed
+ */
+export class InvalidGatewayWebhookException extends BusinessException {
+  constructor(provider: string, reason: string) {
+    super(
+      'INVALID_GATEWAY_WEBHOOK',
+      `Invalid webhook from payment gateway '${provider}': ${reason}`,
+      HttpStatus.BAD_REQUEST,
+      { provider },
+    );
+  }
+}
+
+/**
+ * Webhook addressed to a provider that is not the configured gateway
+ */
+export class UnknownPaymentProviderException extends BusinessException {
+  constructor(provider: string) {
+    super(
+      'UNKNOWN_PAYMENT_PROVIDER',
+      `Payment provider '${provider}' is not configured.`,
+      HttpStatus.NOT_FOUND,
+      { provider },
+    );
+  }
+}
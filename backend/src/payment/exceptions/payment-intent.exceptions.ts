@@ -1,5 +1,6 @@
 import { HttpStatus } from '@nestjs/common';
 import { BusinessException } from '../../common/exceptions/business.exception';
+import { Money } from '../../catalog/domain/money';
 
 /**
  * Order already has a payment intent
@@ -35,3 +36,17 @@ export class PaymentIntentInvalidStateException extends BusinessException {
     );
   }
 }
+
+/**
+ * Amount received against a payment reference differs from the order total
+ */
+export class PaymentAmountMismatchException extends BusinessException {
+  constructor(paymentIntentId: string, expected: Money, received: Money) {
+    super(
+      'PAYMENT_AMOUNT_MISMATCH',
+      `Payment intent '${paymentIntentId}': received ${received.format()} but the order total is ${expected.format()}.`,
+      HttpStatus.CONFLICT,
+      { expected: expected.toJSON(), received: received.toJSON() },
+    );
+  }
+}
@@ -0,0 +1,26 @@
+import { HttpStatus } from '@nestjs/common';
+import { BusinessException } from '../../common/exceptions/business.exception';
+
+/**
+ * Reconciliation request has no statement file attached
+ */
+export class BankStatementFileRequiredException extends BusinessException {
+  constructor() {
+    super(
+      'BANK_STATEMENT_FILE_REQUIRED',
+      'A bank statement CSV file is required',
+      HttpStatus.BAD_REQUEST,
+    );
+  }
+}
+
+/**
+ * Statement file cannot be read at all (bad CSV, unrecognised header, too many rows)
+ */
+export class InvalidBankStatementException extends BusinessException {
+  constructor(reason: string, row = 1) {
+    super('INVALID_BANK_STATEMENT', `Invalid bank statement: ${reason}`, HttpStatus.BAD_REQUEST, {
+      row,
+    });
+  }
+}
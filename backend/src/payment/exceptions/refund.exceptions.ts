@@ -0,0 +1,57 @@
+import { HttpStatus } from '@nestjs/common';
+import { BusinessException } from '../../common/exceptions/business.exception';
+
+/**
+ * Refund not found
+ */
+export class RefundNotFoundException extends BusinessException {
+  constructor(refundId: string) {
+    super('REFUND_NOT_FOUND', `Refund '${refundId}' not found.`, HttpStatus.NOT_FOUND, {
+      refundId,
+    });
+  }
+}
+
+/**
+ * Nothing has been collected for the order, so there is nothing to refund
+ */
+export class RefundNotAllowedException extends BusinessException {
+  constructor(orderId: string, reason: string) {
+    super(
+      'REFUND_NOT_ALLOWED',
+      `Order '${orderId}' cannot be refunded: ${reason}`,
+      HttpStatus.CONFLICT,
+      {
+        orderId,
+      },
+    );
+  }
+}
+
+/**
+ * Requested amount is more than what is left to refund
+ */
+export class RefundExceedsBalanceException extends BusinessException {
+  constructor(orderId: string, requested: string, balance: string) {
+    super(
+      'REFUND_EXCEEDS_BALANCE',
+      `Refund of ${requested} exceeds the refundable balance of ${balance} for order '${orderId}'.`,
+      HttpStatus.CONFLICT,
+      { orderId, requested, balance },
+    );
+  }
+}
+
+/**
+ * Refund is not in a state that allows the requested action
+ */
+export class RefundInvalidStateException extends BusinessException {
+  constructor(refundId: string, currentStatus: string, targetStatus: string) {
+    super(
+      'REFUND_INVALID_STATE',
+      `Refund '${refundId}' cannot move from ${currentStatus} to ${targetStatus}.`,
+      HttpStatus.CONFLICT,
+      { refundId, currentStatus, targetStatus },
+    );
+  }
+}
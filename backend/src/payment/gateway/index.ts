@@ -0,0 +1,13 @@
+export {
+  GatewayCaptureResult,
+  GatewayOrder,
+  GatewayRefundResult,
+  GatewayWebhookEvent,
+  PAYMENT_GATEWAY,
+  PaymentGateway,
+} from './payment-gateway.interface';
+export {
+  SandboxPaymentGateway,
+  SandboxPaymentOutcome,
+  SandboxWebhook,
+} from './sandbox-payment.gateway';
@@ -0,0 +1,77 @@
+import { Money } from '../../catalog/domain/money';
+
+/**
+ * Order created at the gateway for one payment intent. The customer pays
+ * against gatewayOrderId in the gateway's checkout.
+ */
+export interface GatewayOrder {
+  readonly gatewayOrderId: string;
+  readonly amount: Money;
+}
+
+export type GatewayCaptureResult =
+  | { readonly status: 'CAPTURED'; readonly gatewayPaymentId: string }
+  | {
+      readonly status: 'FAILED';
+      readonly gatewayPaymentId: string;
+      readonly failureReason: string;
+    };
+
+export type GatewayRefundResult =
+  | { readonly status: 'PROCESSED'; readonly gatewayRefundId: string }
+  | { readonly status: 'FAILED'; readonly failureReason: string };
+
+/**
+ * Gateway callback, normalised across providers.
+ * PAYMENT_AUTHORIZED: the customer paid and the payment can be captured.
+ * PAYMENT_FAILED: the customer's payment attempt failed.
+ */
+export interface GatewayWebhookEvent {
+  /** Provider's event ID; the same event may be delivered more than once */
+  readonly eventId: string;
+  readonly type: 'PAYMENT_AUTHORIZED' | 'PAYMENT_FAILED';
+  readonly gatewayOrderId: string;
+  readonly gatewayPaymentId: string;
+  readonly failureReason: string | null;
+  readonly occurredAt: Date;
+}
+
+/**
+ * Payment Gateway Port
+ *
+ * Integration point for an online payment provider (card, netbanking,
+ * UPI collect). PaymentIntentService drives ONLINE intents through these
+ * operations; nothing outside the payment module sees the provider.
+ *
+ * Implementations throw PaymentGatewayTimeoutException when the provider
+ * does not answer, and InvalidGatewayWebhookException from verifyWebhook.
+ */
+export interface PaymentGateway {
+  /** Provider name, e.g. 'sandbox'; webhooks arrive at /payments/webhooks/:provider */
+  readonly provider: string;
+
+  /** Request header carrying the callback signature (lower case) */
+  readonly signatureHeader: string;
+
+  /**
+   * Create a gateway order for the amount; receipt is our reference (order ID)
+   */
+  createOrder(input: { receipt: string; amount: Money }): Promise<GatewayOrder>;
+
+  /**
+   * Capture an authorized payment. Capturing an already captured payment succeeds.
+   */
+  capture(gatewayPaymentId: string, amount: Money): Promise<GatewayCaptureResult>;
+
+  /**
+   * Refund part or all of a captured payment; receipt is our refund ID
+   */
+  refund(gatewayPaymentId: string, amount: Money, receipt: string): Promise<GatewayRefundResult>;
+
+  /**
+   * Check the callback signature over the raw request body and parse it
+   */
+  verifyWebhook(rawBody: string, signature: string): GatewayWebhookEvent;
+}
+
+export const PAYMENT_GATEWAY = 'PAYMENT_GATEWAY';
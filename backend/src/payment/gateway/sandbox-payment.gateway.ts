@@ -0,0 +1,192 @@
+import { createHmac, timingSafeEqual } from 'crypto';
+import { Money } from '../../catalog/domain/money';
+import {
+  InvalidGatewayWebhookException,
+  PaymentGatewayTimeoutException,
+} from '../exceptions/payment-gateway.exceptions';
+import {
+  GatewayCaptureResult,
+  GatewayOrder,
+  GatewayRefundResult,
+  GatewayWebhookEvent,
+  PaymentGateway,
+} from './payment-gateway.interface';
+
+/**
+ * Outcome of a simulated customer payment:
+ * - success: authorized, captures normally
+ * - failure: declined, the gateway sends payment.failed
+ * - timeout: authorized, but the first capture times out (later captures succeed)
+ */
+export type SandboxPaymentOutcome = 'success' | 'failure' | 'timeout';
+
+/** Signed callback as the gateway would POST it */
+export interface SandboxWebhook {
+  rawBody: string;
+  signature: string;
+}
+
+interface SandboxPayment {
+  gatewayOrderId: string;
+  outcome: SandboxPaymentOutcome;
+  capturedMinorUnits: number;
+  refundedMinorUnits: number;
+  captureAttempts: number;
+}
+
+/**
+ * Wire format of sandbox callbacks (Razorpay-style envelope)
+ */
+interface SandboxWebhookBody {
+  id: string;
+  event: 'payment.authorized' | 'payment.failed';
+  created_at: number;
+  payload: {
+    order_id: string;
+    payment_id: string;
+    error_description?: string;
+  };
+}
+
+/**
+ * Sandbox Payment Gateway
+ *
+ * Deterministic in-process gateway for development and tests. There is no
+ * checkout page: simulatePayment() stands in for the customer paying and
+ * returns the signed callback the gateway would send. IDs are sequential,
+ * so the same calls always produce the same payloads.
+ */
+export class SandboxPaymentGateway implements PaymentGateway {
+  readonly provider = 'sandbox';
+
+  readonly signatureHeader = 'x-sandbox-signature';
+
+  private readonly orders = new Map<string, Money>();
+  private readonly payments = new Map<string, SandboxPayment>();
+  private sequence = 0;
+
+  constructor(private readonly webhookSecret: string) {}
+
+  async createOrder(input: { receipt: string; amount: Money }): Promise<GatewayOrder> {
+    const gatewayOrderId = `order_sandbox_${this.nextId()}`;
+    this.orders.set(gatewayOrderId, input.amount);
+    return { gatewayOrderId, amount: input.amount };
+  }
+
+  async capture(gatewayPaymentId: string, amount: Money): Promise<GatewayCaptureResult> {
+    const payment = this.payments.get(gatewayPaymentId);
+    if (!payment || payment.outcome === 'failure') {
+      return { status: 'FAILED', gatewayPaymentId, failureReason: 'Payment not authorized' };
+    }
+
+    payment.captureAttempts += 1;
+    if (payment.outcome === 'timeout' && payment.captureAttempts === 1) {
+      throw new PaymentGatewayTimeoutException(this.provider, 'capture');
+    }
+
+    const orderAmount = this.orders.get(payment.gatewayOrderId)!;
+    if (!orderAmount.equals(amount)) {
+      return {
+        status: 'FAILED',
+        gatewayPaymentId,
+        failureReason: `Capture amount ${amount.format()} does not match order amount ${orderAmount.format()}`,
+      };
+    }
+
+    payment.capturedMinorUnits = amount.getAmountInMinorUnits();
+    return { status: 'CAPTURED', gatewayPaymentId };
+  }
+
+  async refund(
+    gatewayPaymentId: string,
+    amount: Money,
+    receipt: string,
+  ): Promise<GatewayRefundResult> {
+    const payment = this.payments.get(gatewayPaymentId);
+    if (!payment || payment.capturedMinorUnits === 0) {
+      return { status: 'FAILED', failureReason: 'Payment has not been captured' };
+    }
+
+    const remaining = payment.capturedMinorUnits - payment.refundedMinorUnits;
+    if (amount.getAmountInMinorUnits() > remaining) {
+      return { status: 'FAILED', failureReason: `Refund ${receipt} exceeds the captured balance` };
+    }
+
+    payment.refundedMinorUnits += amount.getAmountInMinorUnits();
+    return { status: 'PROCESSED', gatewayRefundId: `rfnd_sandbox_${this.nextId()}` };
+  }
+
+  verifyWebhook(rawBody: string, signature: string): GatewayWebhookEvent {
+    const expected = Buffer.from(this.sign(rawBody));
+    const given = Buffer.from(signature ?? '');
+    if (expected.length !== given.length || !timingSafeEqual(expected, given)) {
+      throw new InvalidGatewayWebhookException(this.provider, 'signature mismatch');
+    }
+
+    let body: SandboxWebhookBody;
+    try {
+      body = JSON.parse(rawBody) as SandboxWebhookBody;
+    } catch {
+      throw new InvalidGatewayWebhookException(this.provider, 'body is not JSON');
+    }
+    if (body.event !== 'payment.authorized' && body.event !== 'payment.failed') {
+      throw new InvalidGatewayWebhookException(this.provider, `unknown event '${body.event}'`);
+    }
+
+    return {
+      eventId: body.id,
+      type: body.event === 'payment.authorized' ? 'PAYMENT_AUTHORIZED' : 'PAYMENT_FAILED',
+      gatewayOrderId: body.payload.order_id,
+      gatewayPaymentId: body.payload.payment_id,
+      failureReason: body.payload.error_description ?? null,
+      occurredAt: new Date(body.created_at * 1000),
+    };
+  }
+
+  /**
+   * Simulate the customer paying a gateway order; returns the signed callback
+   */
+  simulatePayment(
+    gatewayOrderId: string,
+    outcome: SandboxPaymentOutcome,
+    now: Date = new Date(),
+  ): SandboxWebhook {
+    if (!this.orders.has(gatewayOrderId)) {
+      throw new Error(`Unknown sandbox order '${gatewayOrderId}'`);
+    }
+
+    const gatewayPaymentId = `pay_sandbox_${this.nextId()}`;
+    this.payments.set(gatewayPaymentId, {
+      gatewayOrderId,
+      outcome,
+      capturedMinorUnits: 0,
+      refundedMinorUnits: 0,
+      captureAttempts: 0,
+    });
+
+    const body: SandboxWebhookBody = {
+      id: `evt_sandbox_${this.nextId()}`,
+      event: outcome === 'failure' ? 'payment.failed' : 'payment.authorized',
+      created_at: Math.floor(now.getTime() / 1000),
+      payload: {
+        order_id: gatewayOrderId,
+        payment_id: gatewayPaymentId,
+        ...(outcome === 'failure' && { error_description: 'Payment declined by bank' }),
+      },
+    };
+    const rawBody = JSON.stringify(body);
+    return { rawBody, signature: this.sign(rawBody) };
+  }
+
+  /**
+   * Hex HMAC-SHA256 of the raw body with the webhook secret
+   */
+  sign(rawBody: string): string {
+    return createHmac('sha256', this.webhookSecret).update(rawBody).digest('hex');
+  }
+
+  private nextId(): string {
+    this.sequence += 1;
+    return String(this.sequence).padStart(6, '0');
+  }
+}
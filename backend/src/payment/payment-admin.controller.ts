@@ -7,20 +7,29 @@ import {
   HttpStatus,
   UseGuards,
   Headers,
+  Body,
 } from '@nestjs/common';
 import { ApiResponse } from '../common/api/api-response';
 import { JwtAuthGuard } from '../auth/guards/jwt-auth.guard';
 import { RolesGuard } from '../auth/guards/roles.guard';
 import { Roles } from '../auth/decorators/roles.decorator';
 import { UserRole } from '../auth/interfaces/auth-user.interface';
+import { Audited } from '../audit/decorators/audited.decorator';
 import { PaymentIntentService } from './payment-intent.service';
-import { toPaymentIntentResponseDto } from './dto/payment-response.dto';
+import {
+  toPaymentIntentResponseDto,
+  toPendingPaymentResponseDto,
+  PendingPaymentResponseDto,
+} from './dto/payment-response.dto';
+import { RejectPaymentDto } from './dto/reject-payment.dto';
+import { VerifyPaymentDto } from './dto/verify-payment.dto';
+import { Money } from '../catalog/domain/money';
 
 /**
  * Payment Admin Controller (Phase 6)
  *
- * GET /api/v1/admin/payments/pending
- * POST /api/v1/admin/payments/:id/verify
+ * GET /api/v1/admin/payments/pending (with the expected amount for each)
+ * POST /api/v1/admin/payments/:id/verify (amountReceived must match the order total)
  * POST /api/v1/admin/payments/:id/reject
  */
 @Controller('admin/payments')
@@ -30,31 +39,41 @@ export class PaymentAdminController {
   constructor(private readonly paymentIntentService: PaymentIntentService) {}
 
   @Get('pending')
-  async getPending(): Promise<ApiResponse<ReturnType<typeof toPaymentIntentResponseDto>[]>> {
-    const list = await this.paymentIntentService.listPending();
+  async getPending(): Promise<ApiResponse<PendingPaymentResponseDto[]>> {
+    const list = await this.paymentIntentService.listPendingReviews();
     return ApiResponse.success(
-      list.map(toPaymentIntentResponseDto),
+      list.map((review) =>
+        toPendingPaymentResponseDto(review.paymentIntent, review.expectedAmount),
+      ),
       'Pending payments retrieved successfully',
     );
   }
 
   @Post(':id/verify')
   @HttpCode(HttpStatus.OK)
+  @Audited('payment', 'verify')
   async verify(
     @Param('id') id: string,
+    @Body() dto: VerifyPaymentDto,
     @Headers('x-correlation-id') correlationId: string,
   ): Promise<ApiResponse<ReturnType<typeof toPaymentIntentResponseDto>>> {
-    const intent = await this.paymentIntentService.verify(id, correlationId);
+    const intent = await this.paymentIntentService.verify(
+      id,
+      correlationId,
+      Money.fromMajorUnits(dto.amountReceived),
+    );
     return ApiResponse.success(toPaymentIntentResponseDto(intent), 'Payment verified successfully');
   }
 
   @Post(':id/reject')
   @HttpCode(HttpStatus.OK)
+  @Audited('payment', 'reject')
   async reject(
     @Param('id') id: string,
+    @Body() dto: RejectPaymentDto,
     @Headers('x-correlation-id') correlationId: string,
   ): Promise<ApiResponse<ReturnType<typeof toPaymentIntentResponseDto>>> {
-    const intent = await this.paymentIntentService.reject(id, correlationId);
+    const intent = await this.paymentIntentService.reject(id, correlationId, dto.rejectionReason);
     return ApiResponse.success(toPaymentIntentResponseDto(intent), 'Payment rejected');
   }
 }
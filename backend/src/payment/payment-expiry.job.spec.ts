@@ -0,0 +1,220 @@
+import { PaymentExpiryJob } from './payment-expiry.job';
+import { PaymentIntentService } from './payment-intent.service';
+import { InMemoryPaymentIntentRepository } from './repositories/in-memory-payment-intent.repository';
+import { InMemoryPaymentReminderRepository } from './repositories/in-memory-payment-reminder.repository';
+import { SandboxPaymentGateway } from './gateway/sandbox-payment.gateway';
+import { PaymentMethod } from './domain/payment-method';
+import { PaymentIntentStatus } from './domain/payment-intent-status';
+import { OrderService } from '../order/order.service';
+import { InMemoryOrderRepository } from '../order/repositories/in-memory-order.repository';
+import { OrderStatus, SYSTEM_ACTOR } from '../order/domain';
+import { createOrderItem } from '../order/domain/order-item';
+import { Money } from '../catalog/domain/money';
+import { OrderComplianceService } from '../compliance/order-compliance.service';
+import { InventoryService } from '../inventory/inventory.service';
+import { InMemoryStockRepository } from '../inventory/repositories/in-memory-stock.repository';
+import { ShipmentService } from '../shipment/shipment.service';
+import { InMemoryShipmentRepository } from '../shipment/repositories/in-memory-shipment.repository';
+import { LocalCarrierAdapter } from '../shipment/carriers';
+import { FileService } from '../files/file.service';
+import { InMemoryStoredFileRepository } from '../files/repositories/in-memory-stored-file.repository';
+import { InMemoryFileStorage } from '../files/storage/in-memory-file.storage';
+import { OutboxStatus } from '../events/domain';
+import { InMemoryOutboxRepository } from '../events/repositories/in-memory-outbox.repository';
+import { JobScheduler } from '../scheduler/job-scheduler';
+import { ManualClock } from '../scheduler/clock';
+
+const HOUR = 60 * 60_000;
+
+/**
+ * Payment Expiry Job Tests
+ *
+ * Runs the job through JobScheduler with a ManualClock and the in-memory
+ * repositories, using the default window (24h) and reminder lead (3h).
+ */
+describe('PaymentExpiryJob', () => {
+  let clock: ManualClock;
+  let scheduler: JobScheduler;
+  let orderRepository: InMemoryOrderRepository;
+  let paymentIntentRepository: InMemoryPaymentIntentRepository;
+  let paymentIntentService: PaymentIntentService;
+  let outbox: InMemoryOutboxRepository;
+
+  const userId = 'user-1';
+  const correlationId = 'test-correlation-id';
+
+  const mockComplianceService = {
+    canFulfil: () => Promise.resolve(true),
+  } as unknown as OrderComplianceService;
+
+  beforeEach(() => {
+    clock = new ManualClock();
+    scheduler = new JobScheduler(clock);
+    outbox = new InMemoryOutboxRepository();
+    orderRepository = new InMemoryOrderRepository(outbox);
+    paymentIntentRepository = new InMemoryPaymentIntentRepository(outbox);
+    paymentIntentService = new PaymentIntentService(
+      paymentIntentRepository,
+      orderRepository,
+      new FileService(new InMemoryStoredFileRepository(), new InMemoryFileStorage()),
+      new SandboxPaymentGateway('test-webhook-secret'),
+    );
+    const orderService = new OrderService(
+      orderRepository,
+      mockComplianceService,
+      new InventoryService(new InMemoryStockRepository()),
+      new ShipmentService(new InMemoryShipmentRepository(), [new LocalCarrierAdapter()]),
+    );
+    new PaymentExpiryJob(
+      scheduler,
+      orderRepository,
+      paymentIntentRepository,
+      new InMemoryPaymentReminderRepository(outbox),
+      paymentIntentService,
+      orderService,
+    ).onModuleInit();
+  });
+
+  async function createConfirmedOrder(): Promise<string> {
+    const order = await orderRepository.createOrder(userId, OrderStatus.DRAFT);
+    await orderRepository.addItem(
+      order.id,
+      createOrderItem({
+        productId: 'prod-1',
+        productName: 'Product 1',
+        unitPrice: Money.fromMajorUnits(100, 'INR'),
+        quantity: 1,
+      }),
+    );
+    await orderRepository.updateStatus(order.id, OrderStatus.CONFIRMED, { actorId: userId });
+    return order.id;
+  }
+
+  async function runAfter(ms: number) {
+    clock.set(new Date(Date.now() + ms));
+    const run = await scheduler.runJob('payment-expiry', correlationId);
+    expect(run.status).toBe('SUCCEEDED');
+    return run.result;
+  }
+
+  async function publishedEvents(type: string) {
+    const pending = await outbox.findByStatus(OutboxStatus.PENDING, 50);
+    return pending.filter((message) => message.eventType === type);
+  }
+
+  async function statusOf(orderId: string): Promise<OrderStatus> {
+    const order = await orderRepository.findById(orderId);
+    return order!.status;
+  }
+
+  it('leaves an unpaid order alone before the reminder window', async () => {
+    const orderId = await createConfirmedOrder();
+
+    expect(await runAfter(20 * HOUR)).toEqual({ reminded: 0, expired: 0, failed: 0 });
+    expect(await statusOf(orderId)).toBe(OrderStatus.CONFIRMED);
+  });
+
+  it('reminds the customer once before the deadline', async () => {
+    const orderId = await createConfirmedOrder();
+    await paymentIntentService.createForOrder(orderId, PaymentMethod.UPI, userId, correlationId);
+
+    expect(await runAfter(22 * HOUR)).toEqual({ reminded: 1, expired: 0, failed: 0 });
+    expect(await runAfter(23 * HOUR)).toEqual({ reminded: 0, expired: 0, failed: 0 });
+
+    const reminders = await publishedEvents('PAYMENT_DUE_REMINDER');
+    expect(reminders).toHaveLength(1);
+    expect(reminders[0].payload).toMatchObject({
+      orderId,
+      userId,
+      amount: { amount: 100, currency: 'INR' },
+    });
+    expect(await statusOf(orderId)).toBe(OrderStatus.CONFIRMED);
+  });
+
+  it('retries a reminder whose event could not be written', async () => {
+    const orderId = await createConfirmedOrder();
+    jest.spyOn(outbox, 'add').mockRejectedValueOnce(new Error('database unavailable'));
+
+    expect(await runAfter(22 * HOUR)).toEqual({ reminded: 0, expired: 0, failed: 1 });
+    expect(await runAfter(23 * HOUR)).toEqual({ reminded: 1, expired: 0, failed: 0 });
+
+    const reminders = await publishedEvents('PAYMENT_DUE_REMINDER');
+    expect(reminders).toHaveLength(1);
+    expect(reminders[0].payload).toMatchObject({ orderId });
+  });
+
+  it('expires the UPI intent and cancels the order after the deadline', async () => {
+    const orderId = await createConfirmedOrder();
+    await paymentIntentService.createForOrder(orderId, PaymentMethod.UPI, userId, correlationId);
+
+    expect(await runAfter(25 * HOUR)).toEqual({ reminded: 0, expired: 1, failed: 0 });
+
+    expect(await statusOf(orderId)).toBe(OrderStatus.CANCELLED);
+    const intent = await paymentIntentRepository.findByOrderId(orderId);
+    expect(intent!.status).toBe(PaymentIntentStatus.EXPIRED);
+    const history = await orderRepository.findStatusHistory(orderId);
+    expect(history[history.length - 1]).toMatchObject({
+      nextStatus: OrderStatus.CANCELLED,
+      actorId: SYSTEM_ACTOR,
+      reason: 'Payment not received within the payment window',
+    });
+    const cancelled = await publishedEvents('ORDER_CANCELLED');
+    expect(cancelled).toHaveLength(1);
+    expect(cancelled[0].payload).toMatchObject({ orderId, previousState: OrderStatus.CONFIRMED });
+    expect(await publishedEvents('PAYMENT_EXPIRED')).toHaveLength(1);
+  });
+
+  it('cancels orders with no payment chosen or a rejected attempt', async () => {
+    const noPayment = await createConfirmedOrder();
+    const rejected = await createConfirmedOrder();
+    await paymentIntentService.createForOrder(rejected, PaymentMethod.UPI, userId, correlationId);
+    await paymentIntentService.submitUpiProof(
+      rejected,
+      { referenceId: 'r1' },
+      userId,
+      correlationId,
+    );
+    const intent = await paymentIntentRepository.findByOrderId(rejected);
+    await paymentIntentService.reject(intent!.id, correlationId, 'Reference not found');
+
+    expect(await runAfter(25 * HOUR)).toEqual({ reminded: 0, expired: 2, failed: 0 });
+    expect(await statusOf(noPayment)).toBe(OrderStatus.CANCELLED);
+    expect(await statusOf(rejected)).toBe(OrderStatus.CANCELLED);
+    expect((await paymentIntentRepository.findByOrderId(rejected))!.status).toBe(
+      PaymentIntentStatus.REJECTED,
+    );
+  });
+
+  it('keeps orders paid by COD or waiting for UPI verification', async () => {
+    const cod = await createConfirmedOrder();
+    await paymentIntentService.createForOrder(cod, PaymentMethod.COD, userId, correlationId);
+    const submitted = await createConfirmedOrder();
+    await paymentIntentService.createForOrder(submitted, PaymentMethod.UPI, userId, correlationId);
+    await paymentIntentService.submitUpiProof(
+      submitted,
+      { referenceId: 'r1' },
+      userId,
+      correlationId,
+    );
+
+    expect(await runAfter(25 * HOUR)).toEqual({ reminded: 0, expired: 0, failed: 0 });
+    expect(await statusOf(cod)).toBe(OrderStatus.CONFIRMED);
+    expect(await statusOf(submitted)).toBe(OrderStatus.CONFIRMED);
+    expect(await publishedEvents('PAYMENT_DUE_REMINDER')).toHaveLength(0);
+  });
+
+  it('does not cancel an order that was paid while the job was cancelling it', async () => {
+    const orderId = await createConfirmedOrder();
+    const findById = orderRepository.findById.bind(orderRepository);
+    jest.spyOn(orderRepository, 'findById').mockImplementationOnce(async (id) => {
+      const order = await findById(id);
+      // The payment handler moves the order to PAID after the job has read it
+      await orderRepository.updateStatus(id, OrderStatus.PAID, { actorId: SYSTEM_ACTOR });
+      return order;
+    });
+
+    expect(await runAfter(25 * HOUR)).toEqual({ reminded: 0, expired: 0, failed: 1 });
+    expect(await statusOf(orderId)).toBe(OrderStatus.PAID);
+    expect(await publishedEvents('ORDER_CANCELLED')).toHaveLength(0);
+  });
+});
@@ -0,0 +1,148 @@
+import { Inject, Injectable, OnModuleInit } from '@nestjs/common';
+import { logWithCorrelation } from '../common/logging/logger';
+import { JobScheduler } from '../scheduler/job-scheduler';
+import { ScheduledJob } from '../scheduler/scheduled-job.interface';
+import { OrderService } from '../order/order.service';
+import { OrderStatus } from '../order/domain/order-status';
+import type { OrderDto } from '../order/dto/order.dto';
+import { ORDER_REPOSITORY } from '../order/repositories/order-repository.interface';
+import type { IOrderRepository } from '../order/repositories/order-repository.interface';
+import { PaymentIntentService } from './payment-intent.service';
+import { PaymentIntentStatus } from './domain/payment-intent-status';
+import type { PaymentIntent } from './domain/payment-intent.entity';
+import { createPaymentDueReminderEvent } from './domain/payment-events';
+import { PAYMENT_INTENT_REPOSITORY } from './repositories/payment-intent-repository.interface';
+import type { IPaymentIntentRepository } from './repositories/payment-intent-repository.interface';
+import { PAYMENT_REMINDER_REPOSITORY } from './repositories/payment-reminder-repository.interface';
+import type { IPaymentReminderRepository } from './repositories/payment-reminder-repository.interface';
+import { PaymentExpiryConfig, getPaymentExpiryConfig } from './config/payment-expiry.config';
+
+/**
+ * Outcome of one expiry run
+ */
+export interface PaymentExpirySummary {
+  reminded: number;
+  expired: number;
+  failed: number;
+}
+
+/**
+ * Intent statuses that leave a confirmed order unpaid. SUBMITTED is not one:
+ * the customer has paid and is waiting on an admin, so the order is kept.
+ */
+const UNPAID_STATUSES: ReadonlySet<PaymentIntentStatus> = new Set([
+  PaymentIntentStatus.PENDING,
+  PaymentIntentStatus.REJECTED,
+  PaymentIntentStatus.EXPIRED,
+]);
+
+const EXPIRY_REASON = 'Payment not received within the payment window';
+
+/**
+ * Payment Expiry Job
+ *
+ * A confirmed order must be paid within PAYMENT_WINDOW_MINUTES of
+ * confirmation. Orders still unpaid (no payment chosen, UPI proof never
+ * submitted, or last attempt rejected) are:
+ * - reminded once, PAYMENT_REMINDER_LEAD_MINUTES before the deadline
+ *   (PaymentDueReminder → notification handler)
+ * - after the deadline, their PENDING intent is expired and the order is
+ *   cancelled through OrderService (OrderCancelled releases the stock)
+ *
+ * Each run re-reads the order and intent, so a payment made since the last
+ * run is never cancelled.
+ */
+@Injectable()
+export class PaymentExpiryJob implements ScheduledJob, OnModuleInit {
+  readonly name = 'payment-expiry';
+  private readonly config: PaymentExpiryConfig = getPaymentExpiryConfig();
+  readonly intervalMs = this.config.intervalMs;
+
+  constructor(
+    private readonly jobScheduler: JobScheduler,
+    @Inject(ORDER_REPOSITORY)
+    private readonly orderRepository: IOrderRepository,
+    @Inject(PAYMENT_INTENT_REPOSITORY)
+    private readonly paymentIntentRepository: IPaymentIntentRepository,
+    @Inject(PAYMENT_REMINDER_REPOSITORY)
+    private readonly paymentReminderRepository: IPaymentReminderRepository,
+    private readonly paymentIntentService: PaymentIntentService,
+    private readonly orderService: OrderService,
+  ) {}
+
+  onModuleInit(): void {
+    this.jobScheduler.register(this);
+  }
+
+  async run(now: Date, correlationId: string): Promise<PaymentExpirySummary> {
+    const summary: PaymentExpirySummary = { reminded: 0, expired: 0, failed: 0 };
+    const confirmed = await this.orderRepository.findByStatus(OrderStatus.CONFIRMED);
+
+    for (const order of confirmed) {
+      const intent = await this.paymentIntentRepository.findByOrderId(order.id);
+      if (intent && !UNPAID_STATUSES.has(intent.status)) {
+        continue;
+      }
+
+      const dueAt = this.dueAt(order);
+      try {
+        if (now >= dueAt) {
+          await this.expire(order, intent, correlationId);
+          summary.expired++;
+        } else if (this.isReminderDue(dueAt, now)) {
+          if (await this.remind(order, dueAt, now, correlationId)) {
+            summary.reminded++;
+          }
+        }
+      } catch (error) {
+        summary.failed++;
+        logWithCorrelation('WARN', correlationId, 'Payment expiry failed', 'PaymentExpiryJob', {
+          orderId: order.id,
+          error: error instanceof Error ? error.message : String(error),
+        });
+      }
+    }
+    return summary;
+  }
+
+  // ==========================================================================
+  // Private Helpers
+  // ==========================================================================
+
+  /**
+   * Payment deadline; a CONFIRMED order's updatedAt is its confirmation time
+   */
+  private dueAt(order: OrderDto): Date {
+    return new Date(order.updatedAt.getTime() + this.config.paymentWindowMinutes * 60_000);
+  }
+
+  private isReminderDue(dueAt: Date, now: Date): boolean {
+    const leadMs = this.config.reminderLeadMinutes * 60_000;
+    return leadMs > 0 && now.getTime() >= dueAt.getTime() - leadMs;
+  }
+
+  private async remind(
+    order: OrderDto,
+    dueAt: Date,
+    now: Date,
+    correlationId: string,
+  ): Promise<boolean> {
+    return this.paymentReminderRepository.record({ orderId: order.id, dueAt, sentAt: now }, [
+      createPaymentDueReminderEvent(
+        { orderId: order.id, userId: order.userId, amount: order.total, dueAt },
+        correlationId,
+      ),
+    ]);
+  }
+
+  private async expire(
+    order: OrderDto,
+    intent: PaymentIntent | null,
+    correlationId: string,
+  ): Promise<void> {
+    if (intent?.status === PaymentIntentStatus.PENDING) {
+      await this.paymentIntentService.expire(intent.id, correlationId);
+    }
+    await this.orderService.cancelUnpaidOrder(order.id, EXPIRY_REASON, correlationId);
+  }
+}
@@ -10,29 +10,71 @@ import {
   PaymentIntentAlreadyExistsException,
   PaymentIntentNotFoundException,
   PaymentIntentInvalidStateException,
+  PaymentAmountMismatchException,
 } from './exceptions/payment-intent.exceptions';
-import { OrderNotFoundException } from '../order/exceptions/order.exceptions';
+import {
+  OrderNotFoundException,
+  UnauthorizedOrderAccessException,
+} from '../order/exceptions/order.exceptions';
+import { FileService } from '../files/file.service';
+import { FilePurpose } from '../files/domain';
+import { InMemoryStoredFileRepository } from '../files/repositories/in-memory-stored-file.repository';
+import { InMemoryFileStorage } from '../files/storage/in-memory-file.storage';
+import { FileNotFoundException, FilePurposeMismatchException } from '../files/exceptions';
+import { OutboxStatus } from '../events/domain';
+import { InMemoryOutboxRepository } from '../events/repositories/in-memory-outbox.repository';
+import { SandboxPaymentGateway } from './gateway/sandbox-payment.gateway';
+import { PaymentGatewayTimeoutException } from './exceptions/payment-gateway.exceptions';
 
 /**
  * Payment Intent Service Tests (Phase 6 — manual payment v1)
  *
  * COD: create VERIFIED. UPI: PENDING → SUBMITTED → VERIFIED (admin).
- * One active PaymentIntent per order.
+ * ONLINE: PENDING → VERIFIED / REJECTED through sandbox gateway callbacks.
+ * One active PaymentIntent per order; a REJECTED one can be retried as a new attempt.
  */
 describe('PaymentIntentService', () => {
   let service: PaymentIntentService;
   let paymentIntentRepository: InMemoryPaymentIntentRepository;
   let orderRepository: InMemoryOrderRepository;
+  let fileService: FileService;
+  let outbox: InMemoryOutboxRepository;
+  let gateway: SandboxPaymentGateway;
 
   const userId = 'user-1';
   const correlationId = 'test-correlation-id';
+  const orderTotal = Money.fromMajorUnits(100, 'INR');
 
   beforeEach(() => {
-    paymentIntentRepository = new InMemoryPaymentIntentRepository();
+    outbox = new InMemoryOutboxRepository();
+    paymentIntentRepository = new InMemoryPaymentIntentRepository(outbox);
     orderRepository = new InMemoryOrderRepository();
-    service = new PaymentIntentService(paymentIntentRepository, orderRepository);
+    fileService = new FileService(new InMemoryStoredFileRepository(), new InMemoryFileStorage());
+    gateway = new SandboxPaymentGateway('test-webhook-secret');
+    service = new PaymentIntentService(
+      paymentIntentRepository,
+      orderRepository,
+      fileService,
+      gateway,
+    );
   });
 
+  async function publishedEventTypes(): Promise<string[]> {
+    const pending = await outbox.findByStatus(OutboxStatus.PENDING, 20);
+    return pending.map((message) => message.eventType).sort();
+  }
+
+  async function uploadFile(forUserId: string, purpose: FilePurpose): Promise<string> {
+    const png = Buffer.from([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a, 0x00]);
+    const file = await fileService.upload(forUserId, purpose, {
+      originalname: 'proof.png',
+      mimetype: 'image/png',
+      size: png.length,
+      buffer: png,
+    });
+    return file.id;
+  }
+
   async function createConfirmedOrder(forUserId: string): Promise<string> {
     const order = await orderRepository.createOrder(forUserId, OrderStatus.DRAFT);
     const item = createOrderItem({
@@ -42,7 +84,7 @@ describe('PaymentIntentService', () => {
       quantity: 1,
     });
     await orderRepository.addItem(order.id, item);
-    await orderRepository.updateStatus(order.id, OrderStatus.CONFIRMED);
+    await orderRepository.updateStatus(order.id, OrderStatus.CONFIRMED, { actorId: 'test-setup' });
     const updated = await orderRepository.findById(order.id);
     return updated!.id;
   }
@@ -78,7 +120,7 @@ describe('PaymentIntentService', () => {
 
     it('throws when order not CONFIRMED', async () => {
       const order = await orderRepository.createOrder(userId, OrderStatus.DRAFT);
-      await orderRepository.updateStatus(order.id, OrderStatus.CREATED);
+      await orderRepository.updateStatus(order.id, OrderStatus.CREATED, { actorId: 'test-setup' });
       await expect(
         service.createForOrder(order.id, PaymentMethod.COD, userId, correlationId),
       ).rejects.toThrow();
@@ -104,15 +146,42 @@ describe('PaymentIntentService', () => {
     it('updates UPI intent from PENDING to SUBMITTED with referenceId and proofReference', async () => {
       const orderId = await createConfirmedOrder(userId);
       await service.createForOrder(orderId, PaymentMethod.UPI, userId, correlationId);
+      const proofReference = await uploadFile(userId, FilePurpose.PAYMENT_PROOF);
       const updated = await service.submitUpiProof(
         orderId,
-        { referenceId: 'ref-123', proofReference: 'proof-url' },
+        { referenceId: 'ref-123', proofReference },
         userId,
         correlationId,
       );
       expect(updated.status).toBe(PaymentIntentStatus.SUBMITTED);
       expect(updated.referenceId).toBe('ref-123');
-      expect(updated.proofReference).toBe('proof-url');
+      expect(updated.proofReference).toBe(proofReference);
+    });
+
+    it('rejects a proofReference that was not uploaded as a payment proof', async () => {
+      const orderId = await createConfirmedOrder(userId);
+      await service.createForOrder(orderId, PaymentMethod.UPI, userId, correlationId);
+      const prescriptionFile = await uploadFile(userId, FilePurpose.PRESCRIPTION);
+
+      await expect(
+        service.submitUpiProof(
+          orderId,
+          { referenceId: 'ref-123', proofReference: 'proof-url' },
+          userId,
+          correlationId,
+        ),
+      ).rejects.toThrow(FileNotFoundException);
+      await expect(
+        service.submitUpiProof(
+          orderId,
+          { referenceId: 'ref-123', proofReference: prescriptionFile },
+          userId,
+          correlationId,
+        ),
+      ).rejects.toThrow(FilePurposeMismatchException);
+
+      const intent = await paymentIntentRepository.findByOrderId(orderId);
+      expect(intent!.status).toBe(PaymentIntentStatus.PENDING);
     });
 
     it('throws when no payment intent for order', async () => {
@@ -159,13 +228,62 @@ describe('PaymentIntentService', () => {
       await service.createForOrder(orderId, PaymentMethod.UPI, userId, correlationId);
       await service.submitUpiProof(orderId, { referenceId: 'r1' }, userId, correlationId);
       const intent = await paymentIntentRepository.findByOrderId(orderId);
-      const updated = await service.verify(intent!.id, correlationId);
+      const updated = await service.verify(intent!.id, correlationId, orderTotal);
       expect(updated.status).toBe(PaymentIntentStatus.VERIFIED);
       expect(updated.verifiedAt).toBeDefined();
     });
 
+    it('publishes an event for each step of the UPI flow', async () => {
+      const orderId = await createConfirmedOrder(userId);
+      const { paymentIntent } = await service.createForOrder(
+        orderId,
+        PaymentMethod.UPI,
+        userId,
+        correlationId,
+      );
+      await service.submitUpiProof(orderId, { referenceId: 'r1' }, userId, correlationId);
+      await service.verify(paymentIntent.id, correlationId, orderTotal);
+
+      expect(await publishedEventTypes()).toEqual([
+        'PAYMENT_INTENT_CREATED',
+        'PAYMENT_VERIFIED',
+        'UPI_PROOF_SUBMITTED',
+      ]);
+      const messages = await outbox.findByStatus(OutboxStatus.PENDING, 20);
+      const verified = messages.find((message) => message.eventType === 'PAYMENT_VERIFIED');
+      expect(verified?.payload).toMatchObject({
+        paymentIntentId: paymentIntent.id,
+        orderId,
+        userId,
+        method: PaymentMethod.UPI,
+      });
+    });
+
+    it('leaves the intent SUBMITTED when its event cannot be written, so it can be verified again', async () => {
+      const orderId = await createConfirmedOrder(userId);
+      const { paymentIntent } = await service.createForOrder(
+        orderId,
+        PaymentMethod.UPI,
+        userId,
+        correlationId,
+      );
+      await service.submitUpiProof(orderId, { referenceId: 'r1' }, userId, correlationId);
+      jest.spyOn(outbox, 'add').mockRejectedValueOnce(new Error('outbox unavailable'));
+
+      await expect(service.verify(paymentIntent.id, correlationId, orderTotal)).rejects.toThrow(
+        'outbox unavailable',
+      );
+      expect((await paymentIntentRepository.findById(paymentIntent.id))?.status).toBe(
+        PaymentIntentStatus.SUBMITTED,
+      );
+
+      const verified = await service.verify(paymentIntent.id, correlationId, orderTotal);
+      expect(verified.status).toBe(PaymentIntentStatus.VERIFIED);
+      expect(await publishedEventTypes()).toContain('PAYMENT_VERIFIED');
+    });
+
     it('throws when intent not found', async () => {
-      await expect(service.verify('non-existent', correlationId)).rejects.toThrow(
+      await expect(service.verify('non-existent', correlationId, orderTotal)).rejects.toThrow(
         PaymentIntentNotFoundException,
       );
     });
@@ -173,7 +291,89 @@ describe('PaymentIntentService', () => {
     it('throws when intent is not SUBMITTED', async () => {
       const orderId = await createConfirmedOrder(userId);
       const result = await service.createForOrder(orderId, PaymentMethod.UPI, userId, correlationId);
-      await expect(service.verify(result.paymentIntent.id, correlationId)).rejects.toThrow(
+      await expect(
+        service.verify(result.paymentIntent.id, correlationId, orderTotal),
+      ).rejects.toThrow(PaymentIntentInvalidStateException);
+    });
+
+    it('leaves the intent SUBMITTED when the amount received does not match the order total', async () => {
+      const orderId = await createConfirmedOrder(userId);
+      const { paymentIntent } = await service.createForOrder(
+        orderId,
+        PaymentMethod.UPI,
+        userId,
+        correlationId,
+      );
+      await service.submitUpiProof(orderId, { referenceId: 'r1' }, userId, correlationId);
+
+      await expect(
+        service.verify(paymentIntent.id, correlationId, Money.fromMajorUnits(10, 'INR')),
+      ).rejects.toThrow(PaymentAmountMismatchException);
+      const intent = await paymentIntentRepository.findById(paymentIntent.id);
+      expect(intent!.status).toBe(PaymentIntentStatus.SUBMITTED);
+      expect(await publishedEventTypes()).not.toContain('PAYMENT_VERIFIED');
+    });
+  });
+
+  describe('listPendingReviews', () => {
+    it('returns each SUBMITTED intent with the order total it must match', async () => {
+      const orderId = await createConfirmedOrder(userId);
+      await service.createForOrder(orderId, PaymentMethod.UPI, userId, correlationId);
+      await service.submitUpiProof(orderId, { referenceId: 'r1' }, userId, correlationId);
+
+      const reviews = await service.listPendingReviews();
+      expect(reviews).toHaveLength(1);
+      expect(reviews[0].paymentIntent.orderId).toBe(orderId);
+      expect(reviews[0].expectedAmount.equals(orderTotal)).toBe(true);
+    });
+  });
+
+  describe('UPI deep link and QR code', () => {
+    it('returns a deep link with the order total and ID, and an SVG QR code', async () => {
+      const orderId = await createConfirmedOrder(userId);
+      const { upiInstructions } = await service.createForOrder(
+        orderId,
+        PaymentMethod.UPI,
+        userId,
+        correlationId,
+      );
+
+      expect(upiInstructions!.amount).toEqual({ amount: 100, currency: 'INR' });
+      expect(upiInstructions!.deepLink).toMatch(/^upi:\/\/pay\?/);
+      expect(upiInstructions!.deepLink).toContain('am=100.00');
+      expect(upiInstructions!.deepLink).toContain(`tr=${orderId}`);
+      expect(upiInstructions!.qrCodeSvg).toContain('<svg');
+    });
+
+    it('returns the same instructions when the payment page is reopened', async () => {
+      const orderId = await createConfirmedOrder(userId);
+      const { upiInstructions } = await service.createForOrder(
+        orderId,
+        PaymentMethod.UPI,
+        userId,
+        correlationId,
+      );
+
+      expect(await service.getUpiInstructions(orderId, userId)).toEqual(upiInstructions);
+    });
+
+    it('renders the QR code as PNG', async () => {
+      const orderId = await createConfirmedOrder(userId);
+      await service.createForOrder(orderId, PaymentMethod.UPI, userId, correlationId);
+
+      const png = await service.getUpiQrCode(orderId, userId, 'png');
+      expect(png.subarray(0, 4)).toEqual(Buffer.from([0x89, 0x50, 0x4e, 0x47]));
+    });
+
+    it('refuses once the proof is submitted, or for another customer', async () => {
+      const orderId = await createConfirmedOrder(userId);
+      await service.createForOrder(orderId, PaymentMethod.UPI, userId, correlationId);
+
+      await expect(service.getUpiInstructions(orderId, 'other-user')).rejects.toThrow(
+        UnauthorizedOrderAccessException,
+      );
+      await service.submitUpiProof(orderId, { referenceId: 'r1' }, userId, correlationId);
+      await expect(service.getUpiQrCode(orderId, userId, 'svg')).rejects.toThrow(
         PaymentIntentInvalidStateException,
       );
     });
@@ -187,6 +387,21 @@ describe('PaymentIntentService', () => {
       const intent = await paymentIntentRepository.findByOrderId(orderId);
       const updated = await service.reject(intent!.id, correlationId);
       expect(updated.status).toBe(PaymentIntentStatus.REJECTED);
+      expect(await publishedEventTypes()).toContain('PAYMENT_REJECTED');
+    });
+
+    it('stores the rejection reason and includes it in the event', async () => {
+      const orderId = await createConfirmedOrder(userId);
+      await service.createForOrder(orderId, PaymentMethod.UPI, userId, correlationId);
+      await service.submitUpiProof(orderId, { referenceId: 'r1' }, userId, correlationId);
+      const intent = await paymentIntentRepository.findByOrderId(orderId);
+
+      const updated = await service.reject(intent!.id, correlationId, 'Amount does not match');
+
+      expect(updated.rejectionReason).toBe('Amount does not match');
+      const messages = await outbox.findByStatus(OutboxStatus.PENDING, 20);
+      const rejected = messages.find((message) => message.eventType === 'PAYMENT_REJECTED');
+      expect(rejected?.payload).toMatchObject({ rejectionReason: 'Amount does not match' });
     });
 
     it('throws when intent is not SUBMITTED', async () => {
@@ -198,6 +413,244 @@ describe('PaymentIntentService', () => {
     });
   });
 
+  describe('retry after rejection', () => {
+    async function createRejectedUpiOrder(): Promise<{ orderId: string; rejectedId: string }> {
+      const orderId = await createConfirmedOrder(userId);
+      await service.createForOrder(orderId, PaymentMethod.UPI, userId, correlationId);
+      await service.submitUpiProof(orderId, { referenceId: 'r1' }, userId, correlationId);
+      const intent = await paymentIntentRepository.findByOrderId(orderId);
+      await service.reject(intent!.id, correlationId, 'Reference not found in statement');
+      return { orderId, rejectedId: intent!.id };
+    }
+
+    it('resubmits UPI proof as a new attempt and keeps the rejected one', async () => {
+      const { orderId, rejectedId } = await createRejectedUpiOrder();
+
+      const retried = await service.submitUpiProof(
+        orderId,
+        { referenceId: 'r2' },
+        userId,
+        correlationId,
+      );
+
+      expect(retried.id).not.toBe(rejectedId);
+      expect(retried.status).toBe(PaymentIntentStatus.SUBMITTED);
+      expect(retried.referenceId).toBe('r2');
+      const attempts = await service.getAttempts(orderId);
+      expect(attempts.map((attempt) => [attempt.referenceId, attempt.status])).toEqual([
+        ['r1', PaymentIntentStatus.REJECTED],
+        ['r2', PaymentIntentStatus.SUBMITTED],
+      ]);
+      expect(attempts[0].rejectionReason).toBe('Reference not found in statement');
+      expect((await service.listPending()).map((intent) => intent.id)).toEqual([retried.id]);
+    });
+
+    it('lets the customer switch method after a rejection', async () => {
+      const { orderId } = await createRejectedUpiOrder();
+
+      const result = await service.createForOrder(
+        orderId,
+        PaymentMethod.COD,
+        userId,
+        correlationId,
+      );
+
+      expect(result.paymentIntent.method).toBe(PaymentMethod.COD);
+      expect(result.paymentIntent.status).toBe(PaymentIntentStatus.VERIFIED);
+      const current = await service.getByOrderId(orderId);
+      expect(current!.id).toBe(result.paymentIntent.id);
+      expect(await service.getAttempts(orderId)).toHaveLength(2);
+    });
+
+    it('still refuses a new payment while the current one is not rejected', async () => {
+      const { orderId } = await createRejectedUpiOrder();
+      await service.submitUpiProof(orderId, { referenceId: 'r2' }, userId, correlationId);
+
+      await expect(
+        service.createForOrder(orderId, PaymentMethod.COD, userId, correlationId),
+      ).rejects.toThrow(PaymentIntentAlreadyExistsException);
+    });
+
+    it('lets only one of two concurrent retries create the next attempt', async () => {
+      const { orderId } = await createRejectedUpiOrder();
+
+      const results = await Promise.allSettled([
+        service.createForOrder(orderId, PaymentMethod.COD, userId, correlationId),
+        service.createForOrder(orderId, PaymentMethod.UPI, userId, correlationId),
+      ]);
+
+      expect(results.map((r) => r.status).sort()).toEqual(['fulfilled', 'rejected']);
+      const failure = results.find((r) => r.status === 'rejected') as PromiseRejectedResult;
+      expect(failure.reason).toBeInstanceOf(PaymentIntentAlreadyExistsException);
+      expect(await service.getAttempts(orderId)).toHaveLength(2);
+    });
+
+    it('ignores a late authorization for an attempt the customer has moved on from', async () => {
+      const orderId = await createConfirmedOrder(userId);
+      const first = await service.createForOrder(
+        orderId,
+        PaymentMethod.ONLINE,
+        userId,
+        correlationId,
+      );
+      const gatewayOrderId = first.gatewayCheckout!.gatewayOrderId;
+      const failed = gateway.simulatePayment(gatewayOrderId, 'failure');
+      const paid = gateway.simulatePayment(gatewayOrderId, 'success');
+      await service.handleGatewayEvent(
+        gateway.verifyWebhook(failed.rawBody, failed.signature),
+        correlationId,
+      );
+      await service.createForOrder(orderId, PaymentMethod.COD, userId, correlationId);
+
+      const late = await service.handleGatewayEvent(
+        gateway.verifyWebhook(paid.rawBody, paid.signature),
+        correlationId,
+      );
+
+      expect(late.status).toBe(PaymentIntentStatus.REJECTED);
+      expect(late.rejectionReason).toBe('Payment declined by bank');
+      expect((await service.getByOrderId(orderId))!.method).toBe(PaymentMethod.COD);
+    });
+
+    it('does not capture a late authorization once the order is cancelled', async () => {
+      const orderId = await createConfirmedOrder(userId);
+      const first = await service.createForOrder(
+        orderId,
+        PaymentMethod.ONLINE,
+        userId,
+        correlationId,
+      );
+      const gatewayOrderId = first.gatewayCheckout!.gatewayOrderId;
+      const failed = gateway.simulatePayment(gatewayOrderId, 'failure');
+      const paid = gateway.simulatePayment(gatewayOrderId, 'success');
+      await service.handleGatewayEvent(
+        gateway.verifyWebhook(failed.rawBody, failed.signature),
+        correlationId,
+      );
+      await orderRepository.updateStatus(orderId, OrderStatus.CANCELLED, {
+        actorId: 'test-setup',
+      });
+      const capture = jest.spyOn(gateway, 'capture');
+
+      const late = await service.handleGatewayEvent(
+        gateway.verifyWebhook(paid.rawBody, paid.signature),
+        correlationId,
+      );
+
+      expect(late.status).toBe(PaymentIntentStatus.REJECTED);
+      expect(capture).not.toHaveBeenCalled();
+      expect(await publishedEventTypes()).toEqual(['PAYMENT_INTENT_CREATED', 'PAYMENT_REJECTED']);
+    });
+  });
+
+  describe('online payments (sandbox gateway)', () => {
+    async function createOnlineIntent(): Promise<string> {
+      const orderId = await createConfirmedOrder(userId);
+      const result = await service.createForOrder(
+        orderId,
+        PaymentMethod.ONLINE,
+        userId,
+        correlationId,
+      );
+      return result.gatewayCheckout!.gatewayOrderId;
+    }
+
+    it('creates a gateway order and a PENDING intent', async () => {
+      const orderId = await createConfirmedOrder(userId);
+      const result = await service.createForOrder(
+        orderId,
+        PaymentMethod.ONLINE,
+        userId,
+        correlationId,
+      );
+      expect(result.paymentIntent.status).toBe(PaymentIntentStatus.PENDING);
+      expect(result.gatewayCheckout).toEqual({
+        provider: 'sandbox',
+        gatewayOrderId: result.paymentIntent.gatewayOrderId,
+        amount: { amount: 100, currency: 'INR' },
+      });
+      expect(result.upiInstructions).toBeUndefined();
+    });
+
+    it('captures an authorized payment and marks the intent VERIFIED', async () => {
+      const gatewayOrderId = await createOnlineIntent();
+      const webhook = gateway.simulatePayment(gatewayOrderId, 'success');
+
+      const intent = await service.handleGatewayEvent(
+        gateway.verifyWebhook(webhook.rawBody, webhook.signature),
+        correlationId,
+      );
+
+      expect(intent.status).toBe(PaymentIntentStatus.VERIFIED);
+      expect(intent.referenceId).toMatch(/^pay_sandbox_/);
+      expect(intent.verifiedAt).not.toBeNull();
+      expect(await publishedEventTypes()).toEqual(['PAYMENT_INTENT_CREATED', 'PAYMENT_VERIFIED']);
+    });
+
+    it('marks the intent REJECTED when the payment fails', async () => {
+      const gatewayOrderId = await createOnlineIntent();
+      const webhook = gateway.simulatePayment(gatewayOrderId, 'failure');
+
+      const intent = await service.handleGatewayEvent(
+        gateway.verifyWebhook(webhook.rawBody, webhook.signature),
+        correlationId,
+      );
+
+      expect(intent.status).toBe(PaymentIntentStatus.REJECTED);
+      expect(await publishedEventTypes()).toEqual(['PAYMENT_INTENT_CREATED', 'PAYMENT_REJECTED']);
+    });
+
+    it('leaves the intent PENDING when capture times out, and captures on redelivery', async () => {
+      const gatewayOrderId = await createOnlineIntent();
+      const webhook = gateway.simulatePayment(gatewayOrderId, 'timeout');
+      const event = gateway.verifyWebhook(webhook.rawBody, webhook.signature);
+
+      await expect(service.handleGatewayEvent(event, correlationId)).rejects.toThrow(
+        PaymentGatewayTimeoutException,
+      );
+      const pending = await paymentIntentRepository.findByGatewayOrderId(gatewayOrderId);
+      expect(pending!.status).toBe(PaymentIntentStatus.PENDING);
+
+      const intent = await service.handleGatewayEvent(event, correlationId);
+      expect(intent.status).toBe(PaymentIntentStatus.VERIFIED);
+    });
+
+    it('ignores a failure callback once the payment is captured', async () => {
+      const gatewayOrderId = await createOnlineIntent();
+      const paid = gateway.simulatePayment(gatewayOrderId, 'success');
+      const failed = gateway.simulatePayment(gatewayOrderId, 'failure');
+      await service.handleGatewayEvent(
+        gateway.verifyWebhook(paid.rawBody, paid.signature),
+        correlationId,
+      );
+
+      const intent = await service.handleGatewayEvent(
+        gateway.verifyWebhook(failed.rawBody, failed.signature),
+        correlationId,
+      );
+
+      expect(intent.status).toBe(PaymentIntentStatus.VERIFIED);
+      expect(await publishedEventTypes()).toEqual(['PAYMENT_INTENT_CREATED', 'PAYMENT_VERIFIED']);
+    });
+
+    it('throws when no intent matches the gateway order', async () => {
+      await createOnlineIntent();
+      await expect(
+        service.handleGatewayEvent(
+          {
+            eventId: 'evt-1',
+            type: 'PAYMENT_FAILED',
+            gatewayOrderId: 'order_unknown',
+            gatewayPaymentId: 'pay_unknown',
+            failureReason: null,
+            occurredAt: new Date(),
+          },
+          correlationId,
+        ),
+      ).rejects.toThrow(PaymentIntentNotFoundException);
+    });
+  });
+
   describe('getByOrderId', () => {
     it('returns payment intent when exists', async () => {
       const orderId = await createConfirmedOrder(userId);
@@ -1,7 +1,9 @@
 import { Inject, Injectable } from '@nestjs/common';
+import { randomUUID } from 'crypto';
 import { ORDER_REPOSITORY } from '../order/repositories/order-repository.interface';
 import type { IOrderRepository } from '../order/repositories/order-repository.interface';
 import { OrderStatus } from '../order/domain/order-status';
+import type { OrderDto } from '../order/dto/order.dto';
 import {
   OrderNotFoundException,
   UnauthorizedOrderAccessException,
@@ -9,33 +11,58 @@ import {
 } from '../order/exceptions/order.exceptions';
 import { PaymentMethod } from './domain/payment-method';
 import { PaymentIntentStatus } from './domain/payment-intent-status';
-import type { PaymentIntent } from './domain/payment-intent.entity';
+import type { CreatePaymentIntentData, PaymentIntent } from './domain/payment-intent.entity';
+import {
+  createPaymentExpiredEvent,
+  createPaymentIntentCreatedEvent,
+  createPaymentRejectedEvent,
+  createPaymentVerifiedEvent,
+  createUpiProofSubmittedEvent,
+} from './domain/payment-events';
 import { PAYMENT_INTENT_REPOSITORY } from './repositories/payment-intent-repository.interface';
 import type { IPaymentIntentRepository } from './repositories/payment-intent-repository.interface';
 import {
   PaymentIntentAlreadyExistsException,
   PaymentIntentNotFoundException,
   PaymentIntentInvalidStateException,
+  PaymentAmountMismatchException,
 } from './exceptions/payment-intent.exceptions';
-import type { CreatePaymentUpiResponseDto, UpiInstructionsDto } from './dto/payment-response.dto';
+import type { GatewayCheckoutDto, UpiInstructionsDto } from './dto/payment-response.dto';
 import type { UpiProofDto } from './dto/upi-proof.dto';
 import { logWithCorrelation } from '../common/logging/logger';
+import { FileService } from '../files/file.service';
+import { FilePurpose } from '../files/domain';
+import { Money } from '../catalog/domain/money';
+import { PAYMENT_GATEWAY } from './gateway/payment-gateway.interface';
+import type { GatewayWebhookEvent, PaymentGateway } from './gateway/payment-gateway.interface';
+import { getUpiConfig } from './config/upi.config';
+import { buildUpiPaymentLink, renderUpiQrCode, UpiQrCodeFormat } from './upi';
 
-/** Phase 6 — UPI instructions (configurable; no gateway) */
-const UPI_VPA = process.env.UPI_VPA || '9009090467@ptyes';
-const UPI_STEPS = [
-  'Open your UPI app (GPay, PhonePe, Paytm, etc.)',
-  `Send payment to VPA: ${UPI_VPA}`,
-  'Enter the order total amount',
-  'Complete the payment and note the transaction reference number',
-  'Upload the payment screenshot and reference number on this page',
-];
+/**
+ * SUBMITTED payment with the order total it must match
+ */
+export interface PendingPaymentReview {
+  paymentIntent: PaymentIntent;
+  expectedAmount: Money;
+}
 
 /**
  * Payment Intent Service (Phase 6 — manual payment v1)
  *
  * One active PaymentIntent per order.
  * COD: created as VERIFIED. UPI: PENDING → SUBMITTED → VERIFIED (admin).
+ * ONLINE: PENDING with a gateway order; gateway callbacks capture the payment
+ * (→ VERIFIED) or record the failure (→ REJECTED).
+ * After a rejection the customer retries with a new intent (any method, or
+ * resubmitted UPI proof); earlier intents are kept as the attempt history.
+ * A PENDING intent still unpaid when the payment window closes → EXPIRED.
+ * Every transition raises a payment domain event, written to the outbox by
+ * the repository in the same transaction as the intent; PaymentVerified (and
+ * PaymentIntentCreated for COD) moves the order to PAID.
+ *
+ * ADR-0055 boundary: Payment is allowed after order confirmation regardless of
+ * prescription or consultation status. Do NOT import compliance logic here.
+ * Fulfilment (not payment) is gated by compliance.
  */
 @Injectable()
 export class PaymentIntentService {
@@ -44,19 +71,28 @@ export class PaymentIntentService {
     private readonly paymentIntentRepository: IPaymentIntentRepository,
     @Inject(ORDER_REPOSITORY)
     private readonly orderRepository: IOrderRepository,
+    private readonly fileService: FileService,
+    @Inject(PAYMENT_GATEWAY)
+    private readonly paymentGateway: PaymentGateway,
   ) {}
 
   /**
    * Create payment intent for an order (user).
-   * COD: create VERIFIED (pay at delivery, order remains CONFIRMED).
+   * COD: create VERIFIED (pay at delivery; the order moves to PAID so it can ship).
    * UPI: create PENDING, return UPI instructions.
+   * ONLINE: create a gateway order and a PENDING intent, return checkout details.
+   * Allowed again once the current intent is REJECTED (retry, possibly with another method).
    */
   async createForOrder(
     orderId: string,
     method: PaymentMethod,
     userId: string,
     correlationId: string,
-  ): Promise<{ paymentIntent: PaymentIntent; upiInstructions?: UpiInstructionsDto }> {
+  ): Promise<{
+    paymentIntent: PaymentIntent;
+    upiInstructions?: UpiInstructionsDto;
+    gatewayCheckout?: GatewayCheckoutDto;
+  }> {
     const order = await this.orderRepository.findById(orderId);
     if (!order) {
       logWithCorrelation('WARN', correlationId, 'Order not found for payment', 'PaymentIntentService', {
@@ -73,18 +109,36 @@ export class PaymentIntentService {
     }
 
     const existing = await this.paymentIntentRepository.findByOrderId(orderId);
-    if (existing) {
+    if (existing && existing.status !== PaymentIntentStatus.REJECTED) {
       throw new PaymentIntentAlreadyExistsException(orderId);
     }
+    if (existing) {
+      logWithCorrelation(
+        'INFO',
+        correlationId,
+        'Retrying rejected payment',
+        'PaymentIntentService',
+        {
+          orderId,
+          rejectedPaymentIntentId: existing.id,
+          method,
+        },
+      );
+    }
 
     if (method === PaymentMethod.COD) {
-      const intent = await this.paymentIntentRepository.create({
-        orderId,
-        method: PaymentMethod.COD,
-        status: PaymentIntentStatus.VERIFIED,
-        referenceId: null,
-        proofReference: null,
-      });
+      const intent = await this.createIntent(
+        {
+          orderId,
+          method: PaymentMethod.COD,
+          status: PaymentIntentStatus.VERIFIED,
+          referenceId: null,
+          proofReference: null,
+        },
+        userId,
+        order.total,
+        correlationId,
+      );
       logWithCorrelation('INFO', correlationId, 'Payment intent created (COD, VERIFIED)', 'PaymentIntentService', {
         orderId,
         paymentIntentId: intent.id,
@@ -93,32 +147,74 @@ export class PaymentIntentService {
     }
 
     if (method === PaymentMethod.UPI) {
-      const intent = await this.paymentIntentRepository.create({
-        orderId,
-        method: PaymentMethod.UPI,
-        status: PaymentIntentStatus.PENDING,
-        referenceId: null,
-        proofReference: null,
-      });
+      const intent = await this.createIntent(
+        {
+          orderId,
+          method: PaymentMethod.UPI,
+          status: PaymentIntentStatus.PENDING,
+          referenceId: null,
+          proofReference: null,
+        },
+        userId,
+        order.total,
+        correlationId,
+      );
       logWithCorrelation('INFO', correlationId, 'Payment intent created (UPI, PENDING)', 'PaymentIntentService', {
         orderId,
         paymentIntentId: intent.id,
       });
-      const upiInstructions: UpiInstructionsDto = {
-        vpa: UPI_VPA,
-        steps: UPI_STEPS,
-      };
+      const upiInstructions = await this.buildUpiInstructions(orderId, order.total);
       return { paymentIntent: intent, upiInstructions };
     }
 
+    if (method === PaymentMethod.ONLINE) {
+      const gatewayOrder = await this.paymentGateway.createOrder({
+        receipt: orderId,
+        amount: Money.fromMajorUnits(order.total.amount, order.total.currency),
+      });
+      const intent = await this.createIntent(
+        {
+          orderId,
+          method: PaymentMethod.ONLINE,
+          status: PaymentIntentStatus.PENDING,
+          referenceId: null,
+          proofReference: null,
+          gatewayOrderId: gatewayOrder.gatewayOrderId,
+        },
+        userId,
+        order.total,
+        correlationId,
+      );
+      logWithCorrelation(
+        'INFO',
+        correlationId,
+        'Payment intent created (ONLINE, PENDING)',
+        'PaymentIntentService',
+        {
+          orderId,
+          paymentIntentId: intent.id,
+          provider: this.paymentGateway.provider,
+          gatewayOrderId: gatewayOrder.gatewayOrderId,
+        },
+      );
+      const gatewayCheckout: GatewayCheckoutDto = {
+        provider: this.paymentGateway.provider,
+        gatewayOrderId: gatewayOrder.gatewayOrderId,
+        amount: gatewayOrder.amount.toJSON(),
+      };
+      return { paymentIntent: intent, gatewayCheckout };
+    }
+
     throw new PaymentIntentInvalidStateException(
       orderId,
-      `Unsupported payment method: ${method}. Use COD or UPI.`,
+      `Unsupported payment method: ${method}. Use COD, UPI or ONLINE.`,
     );
   }
 
   /**
    * Submit UPI proof (referenceId, proofReference). Transitions PENDING → SUBMITTED.
+   * proofReference, when given, must be a PAYMENT_PROOF file the user uploaded.
+   * Resubmitting after a rejected UPI attempt creates a new attempt with the new proof.
    */
   async submitUpiProof(
     orderId: string,
@@ -130,23 +226,58 @@ export class PaymentIntentService {
     if (!order) throw new OrderNotFoundException(orderId);
     if (order.userId !== userId) throw new UnauthorizedOrderAccessException();
 
-    const intent = await this.paymentIntentRepository.findByOrderId(orderId);
-    if (!intent) throw new PaymentIntentNotFoundException(orderId);
-    if (intent.method !== PaymentMethod.UPI) {
-      throw new PaymentIntentInvalidStateException(intent.id, 'Only UPI payment can submit proof.');
+    const current = await this.paymentIntentRepository.findByOrderId(orderId);
+    if (!current) throw new PaymentIntentNotFoundException(orderId);
+    if (current.method !== PaymentMethod.UPI) {
+      throw new PaymentIntentInvalidStateException(
+        current.id,
+        'Only UPI payment can submit proof.',
+      );
     }
-    if (intent.status !== PaymentIntentStatus.PENDING) {
+    if (
+      current.status !== PaymentIntentStatus.PENDING &&
+      current.status !== PaymentIntentStatus.REJECTED
+    ) {
       throw new PaymentIntentInvalidStateException(
-        intent.id,
-        `Proof can only be submitted when status is PENDING. Current: ${intent.status}`,
+        current.id,
+        `Proof can only be submitted when status is PENDING or REJECTED. Current: ${current.status}`,
+      );
+    }
+    if (dto.proofReference) {
+      await this.fileService.getAttachableFile(
+        dto.proofReference,
+        userId,
+        FilePurpose.PAYMENT_PROOF,
       );
     }
 
-    const updated = await this.paymentIntentRepository.update(intent.id, {
-      status: PaymentIntentStatus.SUBMITTED,
-      referenceId: dto.referenceId,
-      proofReference: dto.proofReference ?? null,
-    });
+    let intent = current;
+    if (current.status === PaymentIntentStatus.REJECTED) {
+      intent = await this.createIntent(
+        { orderId, method: PaymentMethod.UPI, status: PaymentIntentStatus.PENDING },
+        userId,
+        order.total,
+        correlationId,
+      );
+    }
+
+    const proofReference = dto.proofReference ?? null;
+    const updated = await this.paymentIntentRepository.update(
+      intent.id,
+      { status: PaymentIntentStatus.SUBMITTED, referenceId: dto.referenceId, proofReference },
+      [
+        createUpiProofSubmittedEvent(
+          {
+            paymentIntentId: intent.id,
+            orderId,
+            userId,
+            referenceId: dto.referenceId,
+            proofReference,
+          },
+          correlationId,
+        ),
+      ],
+    );
     if (!updated) throw new PaymentIntentNotFoundException(intent.id);
     logWithCorrelation('INFO', correlationId, 'UPI proof submitted', 'PaymentIntentService', {
       orderId,
@@ -156,12 +287,36 @@ export class PaymentIntentService {
   }
 
   /**
-   * Get payment intent by order ID (for order detail).
+   * UPI instructions for the order's current UPI attempt (payment page reload).
+   * Also available after a rejection, since the customer pays again before resubmitting.
+   */
+  async getUpiInstructions(orderId: string, userId: string): Promise<UpiInstructionsDto> {
+    const order = await this.getPayableUpiOrder(orderId, userId);
+    return this.buildUpiInstructions(orderId, order.total);
+  }
+
+  /**
+   * UPI deep link for the order's current UPI attempt, rendered as a QR code image.
+   */
+  async getUpiQrCode(orderId: string, userId: string, format: UpiQrCodeFormat): Promise<Buffer> {
+    const order = await this.getPayableUpiOrder(orderId, userId);
+    return renderUpiQrCode(this.buildUpiLink(orderId, order.total), format);
+  }
+
+  /**
+   * Get the current payment intent by order ID (for order detail).
    */
   async getByOrderId(orderId: string): Promise<PaymentIntent | null> {
     return this.paymentIntentRepository.findByOrderId(orderId);
   }
 
+  /**
+   * Every payment attempt for an order, oldest first; the last is the current intent.
+   */
+  async getAttempts(orderId: string): Promise<PaymentIntent[]> {
+    return this.paymentIntentRepository.findAllByOrderId(orderId);
+  }
+
   /**
    * List payment intents pending admin verification (SUBMITTED).
    */
@@ -169,11 +324,31 @@ export class PaymentIntentService {
     return this.paymentIntentRepository.findPending();
   }
 
+  /**
+   * Pending payments with the order total each one must match (admin review list).
+   */
+  async listPendingReviews(): Promise<PendingPaymentReview[]> {
+    const pending = await this.paymentIntentRepository.findPending();
+    const reviews: PendingPaymentReview[] = [];
+    for (const paymentIntent of pending) {
+      const order = await this.orderRepository.findById(paymentIntent.orderId);
+      if (!order) continue;
+      reviews.push({
+        paymentIntent,
+        expectedAmount: Money.fromMajorUnits(order.total.amount, order.total.currency),
+      });
+    }
+    return reviews;
+  }
+
   /**
    * Admin: verify payment intent (SUBMITTED → VERIFIED).
-   * Payment verification is tracked in PaymentIntent; order state remains CONFIRMED.
+   * amountReceived is what the admin sees credited against the submitted
+   * reference; it must equal the order total. On a mismatch the intent stays
+   * SUBMITTED so the admin can reject it with a reason.
+   * PaymentVerified moves the order to PAID (OrderPaymentEventHandler).
    */
-  async verify(id: string, correlationId: string): Promise<PaymentIntent> {
+  async verify(id: string, correlationId: string, amountReceived: Money): Promise<PaymentIntent> {
     const intent = await this.paymentIntentRepository.findById(id);
     if (!intent) throw new PaymentIntentNotFoundException(id);
     if (intent.status !== PaymentIntentStatus.SUBMITTED) {
@@ -182,10 +357,41 @@ export class PaymentIntentService {
         `Only SUBMITTED payments can be verified. Current: ${intent.status}`,
       );
     }
-    const updated = await this.paymentIntentRepository.update(id, {
-      status: PaymentIntentStatus.VERIFIED,
-      verifiedAt: new Date(),
-    });
+    const order = await this.orderRepository.findById(intent.orderId);
+    if (!order) throw new OrderNotFoundException(intent.orderId);
+    const expected = Money.fromMajorUnits(order.total.amount, order.total.currency);
+    if (!expected.equals(amountReceived)) {
+      logWithCorrelation(
+        'WARN',
+        correlationId,
+        'Payment amount does not match order total',
+        'PaymentIntentService',
+        {
+          paymentIntentId: id,
+          orderId: intent.orderId,
+          referenceId: intent.referenceId,
+          expected: expected.toJSON(),
+          received: amountReceived.toJSON(),
+        },
+      );
+      throw new PaymentAmountMismatchException(id, expected, amountReceived);
+    }
+    const userId = order.userId;
+    const updated = await this.paymentIntentRepository.update(
+      id,
+      { status: PaymentIntentStatus.VERIFIED, verifiedAt: new Date() },
+      [
+        createPaymentVerifiedEvent(
+          {
+            paymentIntentId: id,
+            orderId: intent.orderId,
+            userId,
+            method: intent.method,
+          },
+          correlationId,
+        ),
+      ],
+    );
     if (!updated) throw new PaymentIntentNotFoundException(id);
     logWithCorrelation('INFO', correlationId, 'Payment intent verified', 'PaymentIntentService', {
       paymentIntentId: id,
@@ -195,9 +401,13 @@ export class PaymentIntentService {
   }
 
   /**
-   * Admin: reject payment intent.
+   * Admin: reject payment intent. The reason is shown to the customer, who can retry.
    */
-  async reject(id: string, correlationId: string): Promise<PaymentIntent> {
+  async reject(
+    id: string,
+    correlationId: string,
+    rejectionReason?: string,
+  ): Promise<PaymentIntent> {
     const intent = await this.paymentIntentRepository.findById(id);
     if (!intent) throw new PaymentIntentNotFoundException(id);
     if (intent.status !== PaymentIntentStatus.SUBMITTED) {
@@ -206,12 +416,272 @@ export class PaymentIntentService {
         `Only SUBMITTED payments can be rejected. Current: ${intent.status}`,
       );
     }
-    const updated = await this.paymentIntentRepository.update(id, { status: PaymentIntentStatus.REJECTED });
+    const userId = await this.getOrderOwner(intent.orderId);
+    const updated = await this.paymentIntentRepository.update(
+      id,
+      { status: PaymentIntentStatus.REJECTED, rejectionReason: rejectionReason ?? null },
+      [
+        createPaymentRejectedEvent(
+          {
+            paymentIntentId: id,
+            orderId: intent.orderId,
+            userId,
+            referenceId: intent.referenceId,
+            rejectionReason: rejectionReason ?? null,
+          },
+          correlationId,
+        ),
+      ],
+    );
     if (!updated) throw new PaymentIntentNotFoundException(id);
     logWithCorrelation('INFO', correlationId, 'Payment intent rejected', 'PaymentIntentService', {
       paymentIntentId: id,
       orderId: intent.orderId,
+      rejectionReason: updated.rejectionReason,
     });
     return updated;
   }
+
+  /**
+   * System: expire a PENDING intent whose payment window has closed.
+   * Called by PaymentExpiryJob before it cancels the order.
+   */
+  async expire(id: string, correlationId: string): Promise<PaymentIntent> {
+    const intent = await this.paymentIntentRepository.findById(id);
+    if (!intent) throw new PaymentIntentNotFoundException(id);
+    if (intent.status !== PaymentIntentStatus.PENDING) {
+      throw new PaymentIntentInvalidStateException(
+        id,
+        `Only PENDING payments can expire. Current: ${intent.status}`,
+      );
+    }
+    const userId = await this.getOrderOwner(intent.orderId);
+    const updated = await this.paymentIntentRepository.update(
+      id,
+      { status: PaymentIntentStatus.EXPIRED },
+      [
+        createPaymentExpiredEvent(
+          { paymentIntentId: id, orderId: intent.orderId, userId, method: intent.method },
+          correlationId,
+        ),
+      ],
+    );
+    if (!updated) throw new PaymentIntentNotFoundException(id);
+    logWithCorrelation('INFO', correlationId, 'Payment intent expired', 'PaymentIntentService', {
+      paymentIntentId: id,
+      orderId: intent.orderId,
+    });
+    return updated;
+  }
+
+  /**
+   * Gateway callback for an ONLINE intent (PENDING → VERIFIED / REJECTED).
+   * PAYMENT_AUTHORIZED captures the payment; PAYMENT_FAILED rejects the intent.
+   *
+   * Callbacks only move an intent forward, so redelivered or out-of-order
+   * callbacks are ignored: a failure never touches an intent that has left
+   * PENDING, and an authorization still captures a REJECTED intent (the
+   * customer retried at checkout after a failed attempt). Callbacks for an
+   * order that is no longer CONFIRMED (cancelled, or already paid) are ignored
+   * too, so money is never captured for a cancelled order; the uncaptured
+   * authorization lapses at the gateway. If the capture times out the intent
+   * is unchanged and PaymentGatewayTimeoutException propagates, so the gateway
+   * redelivers the callback.
+   */
+  async handleGatewayEvent(
+    event: GatewayWebhookEvent,
+    correlationId: string,
+  ): Promise<PaymentIntent> {
+    const intent = await this.paymentIntentRepository.findByGatewayOrderId(event.gatewayOrderId);
+    if (!intent) throw new PaymentIntentNotFoundException(event.gatewayOrderId);
+    const order = await this.orderRepository.findById(intent.orderId);
+    if (!order) throw new OrderNotFoundException(intent.orderId);
+
+    if (!(await this.acceptsGatewayEvent(intent, order, event))) {
+      logWithCorrelation('INFO', correlationId, 'Gateway event ignored', 'PaymentIntentService', {
+        paymentIntentId: intent.id,
+        eventId: event.eventId,
+        eventType: event.type,
+        status: intent.status,
+        orderStatus: order.status,
+      });
+      return intent;
+    }
+
+    let failureReason = event.failureReason ?? 'Payment failed';
+    if (event.type === 'PAYMENT_AUTHORIZED') {
+      const capture = await this.paymentGateway.capture(
+        event.gatewayPaymentId,
+        Money.fromMajorUnits(order.total.amount, order.total.currency),
+      );
+      if (capture.status === 'CAPTURED') {
+        const updated = await this.paymentIntentRepository.update(
+          intent.id,
+          {
+            status: PaymentIntentStatus.VERIFIED,
+            referenceId: capture.gatewayPaymentId,
+            verifiedAt: new Date(),
+            rejectionReason: null,
+          },
+          [
+            createPaymentVerifiedEvent(
+              {
+                paymentIntentId: intent.id,
+                orderId: intent.orderId,
+                userId: order.userId,
+                method: intent.method,
+              },
+              correlationId,
+            ),
+          ],
+        );
+        if (!updated) throw new PaymentIntentNotFoundException(intent.id);
+        logWithCorrelation(
+          'INFO',
+          correlationId,
+          'Online payment captured',
+          'PaymentIntentService',
+          {
+            paymentIntentId: intent.id,
+            orderId: intent.orderId,
+            gatewayPaymentId: capture.gatewayPaymentId,
+          },
+        );
+        return updated;
+      }
+      failureReason = capture.failureReason;
+    }
+
+    const updated = await this.paymentIntentRepository.update(
+      intent.id,
+      {
+        status: PaymentIntentStatus.REJECTED,
+        referenceId: event.gatewayPaymentId,
+        rejectionReason: failureReason,
+      },
+      [
+        createPaymentRejectedEvent(
+          {
+            paymentIntentId: intent.id,
+            orderId: intent.orderId,
+            userId: order.userId,
+            referenceId: event.gatewayPaymentId,
+            rejectionReason: failureReason,
+          },
+          correlationId,
+        ),
+      ],
+    );
+    if (!updated) throw new PaymentIntentNotFoundException(intent.id);
+    logWithCorrelation('INFO', correlationId, 'Online payment failed', 'PaymentIntentService', {
+      paymentIntentId: intent.id,
+      orderId: intent.orderId,
+      gatewayPaymentId: event.gatewayPaymentId,
+      failureReason,
+    });
+    return updated;
+  }
+
+  /**
+   * Only orders still awaiting payment (CONFIRMED) accept callbacks. A late
+   * authorization may still settle a REJECTED intent, unless the customer has
+   * since started another attempt.
+   */
+  private async acceptsGatewayEvent(
+    intent: PaymentIntent,
+    order: OrderDto,
+    event: GatewayWebhookEvent,
+  ): Promise<boolean> {
+    if (intent.method !== PaymentMethod.ONLINE) return false;
+    if (order.status !== OrderStatus.CONFIRMED) return false;
+    if (intent.status === PaymentIntentStatus.PENDING) return true;
+    if (intent.status !== PaymentIntentStatus.REJECTED || event.type !== 'PAYMENT_AUTHORIZED') {
+      return false;
+    }
+    const current = await this.paymentIntentRepository.findByOrderId(intent.orderId);
+    return current?.id === intent.id;
+  }
+
+  /**
+   * Add an intent, with its PaymentIntentCreated event
+   */
+  private async createIntent(
+    data: Omit<CreatePaymentIntentData, 'id'>,
+    userId: string,
+    amount: { amount: number; currency: string },
+    correlationId: string,
+  ): Promise<PaymentIntent> {
+    const id = randomUUID();
+    return this.paymentIntentRepository.create({ ...data, id }, [
+      createPaymentIntentCreatedEvent(
+        { paymentIntentId: id, orderId: data.orderId, userId, method: data.method, amount },
+        correlationId,
+      ),
+    ]);
+  }
+
+  /**
+   * Order whose current attempt is an unpaid UPI intent owned by userId
+   */
+  private async getPayableUpiOrder(orderId: string, userId: string): Promise<OrderDto> {
+    const order = await this.orderRepository.findById(orderId);
+    if (!order) throw new OrderNotFoundException(orderId);
+    if (order.userId !== userId) throw new UnauthorizedOrderAccessException();
+
+    const current = await this.paymentIntentRepository.findByOrderId(orderId);
+    if (!current) throw new PaymentIntentNotFoundException(orderId);
+    if (
+      current.method !== PaymentMethod.UPI ||
+      (current.status !== PaymentIntentStatus.PENDING &&
+        current.status !== PaymentIntentStatus.REJECTED)
+    ) {
+      throw new PaymentIntentInvalidStateException(
+        current.id,
+        `No UPI payment is awaiting payment. Current: ${current.method} ${current.status}`,
+      );
+    }
+    return order;
+  }
+
+  private buildUpiLink(orderId: string, total: { amount: number; currency: string }): string {
+    const upi = getUpiConfig();
+    return buildUpiPaymentLink({
+      vpa: upi.vpa,
+      payeeName: upi.payeeName,
+      amount: Money.fromMajorUnits(total.amount, total.currency),
+      orderId,
+    });
+  }
+
+  private async buildUpiInstructions(
+    orderId: string,
+    total: { amount: number; currency: string },
+  ): Promise<UpiInstructionsDto> {
+    const upi = getUpiConfig();
+    const amount = Money.fromMajorUnits(total.amount, total.currency);
+    const deepLink = this.buildUpiLink(orderId, total);
+    const qrCodeSvg = (await renderUpiQrCode(deepLink, 'svg')).toString('utf8');
+    return {
+      vpa: upi.vpa,
+      payeeName: upi.payeeName,
+      amount: amount.toJSON(),
+      deepLink,
+      qrCodeSvg,
+      steps: [
+        'Scan the QR code with any UPI app (GPay, PhonePe, Paytm, etc.), or tap "Pay with UPI app" on your phone',
+        `Check that the payee is ${upi.payeeName} (${upi.vpa}) and the amount is ${amount.format()}`,
+        'Complete the payment and note the UPI transaction reference number',
+        'Enter the reference number and upload the payment screenshot on this page',
+      ],
+    };
+  }
+
+  /**
+   * Customer who owns the order an intent belongs to (admin actions only know the intent)
+   */
+  private async getOrderOwner(orderId: string): Promise<string> {
+    const order = await this.orderRepository.findById(orderId);
+    if (!order) throw new OrderNotFoundException(orderId);
+    return order.userId;
+  }
 }
@@ -0,0 +1,177 @@
+import { PaymentReconciliationService } from './payment-reconciliation.service';
+import { PaymentIntentService } from './payment-intent.service';
+import { InMemoryPaymentIntentRepository } from './repositories/in-memory-payment-intent.repository';
+import { InMemoryOrderRepository } from '../order/repositories/in-memory-order.repository';
+import { OrderStatus } from '../order/domain/order-status';
+import { createOrderItem } from '../order/domain/order-item';
+import { Money } from '../catalog/domain/money';
+import { FileService } from '../files/file.service';
+import { InMemoryStoredFileRepository } from '../files/repositories/in-memory-stored-file.repository';
+import { InMemoryFileStorage } from '../files/storage/in-memory-file.storage';
+import { SandboxPaymentGateway } from './gateway/sandbox-payment.gateway';
+import { PaymentMethod } from './domain/payment-method';
+import { PaymentIntentStatus } from './domain/payment-intent-status';
+import { InvalidBankStatementException } from './exceptions/reconciliation.exceptions';
+
+/**
+ * PaymentReconciliationService tests
+ *
+ * Verifies:
+ * - Statement columns are found by header name, debits and blank credits are skipped
+ * - Credits match SUBMITTED payments by reference and amount
+ * - Mismatches, duplicates, unmatched credits and unmatched payments are reported
+ * - A dry run changes nothing; applying verifies only the matches
+ */
+describe('PaymentReconciliationService', () => {
+  let service: PaymentReconciliationService;
+  let paymentIntentService: PaymentIntentService;
+  let paymentIntentRepository: InMemoryPaymentIntentRepository;
+  let orderRepository: InMemoryOrderRepository;
+
+  const userId = 'user-1';
+  const correlationId = 'test-correlation-id';
+
+  beforeEach(() => {
+    paymentIntentRepository = new InMemoryPaymentIntentRepository();
+    orderRepository = new InMemoryOrderRepository();
+    paymentIntentService = new PaymentIntentService(
+      paymentIntentRepository,
+      orderRepository,
+      new FileService(new InMemoryStoredFileRepository(), new InMemoryFileStorage()),
+      new SandboxPaymentGateway('test-webhook-secret'),
+    );
+    service = new PaymentReconciliationService(paymentIntentRepository, paymentIntentService);
+  });
+
+  /** Confirmed order for `rupees`, paid by UPI with proof `referenceId` submitted */
+  async function submittedPayment(referenceId: string, rupees: number): Promise<string> {
+    const order = await orderRepository.createOrder(userId, OrderStatus.DRAFT);
+    await orderRepository.addItem(
+      order.id,
+      createOrderItem({
+        productId: 'prod-1',
+        productName: 'Product 1',
+        unitPrice: Money.fromMajorUnits(rupees, 'INR'),
+        quantity: 1,
+      }),
+    );
+    await orderRepository.updateStatus(order.id, OrderStatus.CONFIRMED, { actorId: 'test-setup' });
+    const { paymentIntent } = await paymentIntentService.createForOrder(
+      order.id,
+      PaymentMethod.UPI,
+      userId,
+      correlationId,
+    );
+    await paymentIntentService.submitUpiProof(order.id, { referenceId }, userId, correlationId);
+    return paymentIntent.id;
+  }
+
+  async function statusOf(paymentIntentId: string): Promise<PaymentIntentStatus> {
+    return (await paymentIntentRepository.findById(paymentIntentId))!.status;
+  }
+
+  it('matches by reference and amount, and reports everything else', async () => {
+    const matched = await submittedPayment('412345678901', 250);
+    const mismatched = await submittedPayment('412345678902', 300);
+    const missing = await submittedPayment('412345678903', 100);
+    const duplicated = await submittedPayment('412345678904', 120);
+
+    const report = await service.reconcile(
+      [
+        'Txn Date,Narration,UTR No,Credit,Type',
+        '01/02/2026,UPI payment,412345678901,250.00,CR',
+        '01/02/2026,UPI payment,412345678902,"3,000.00",CR',
+        '01/02/2026,UPI payment,412345678904,120,CR',
+        '02/02/2026,UPI payment,412345678904,120,CR',
+        '02/02/2026,Unknown payer,499999999999,75,CR',
+        '02/02/2026,Card bill,,500,DR',
+      ].join('\n'),
+      true,
+      correlationId,
+    );
+
+    expect(report.totalCredits).toBe(5);
+    expect(report.items.map((item) => [item.status, item.row, item.paymentIntentId])).toEqual([
+      ['MATCHED', 2, matched],
+      ['AMOUNT_MISMATCH', 3, mismatched],
+      ['DUPLICATE', 4, duplicated],
+      ['DUPLICATE', 5, duplicated],
+      ['UNMATCHED_CREDIT', 6, null],
+      ['UNMATCHED_PAYMENT', null, missing],
+    ]);
+    expect(report.items[1].message).toBe('Received ₹3,000.00 but the order total is ₹300.00');
+    expect(report.summary.MATCHED).toBe(1);
+    expect(await statusOf(matched)).toBe(PaymentIntentStatus.SUBMITTED);
+  });
+
+  it('verifies only the matched payments when applied', async () => {
+    const matched = await submittedPayment('412345678901', 250);
+    const mismatched = await submittedPayment('412345678902', 300);
+
+    const report = await service.reconcile(
+      'Reference,Amount\n412345678901,250\n412345678902,299\n',
+      false,
+      correlationId,
+    );
+
+    expect(report.summary).toMatchObject({ VERIFIED: 1, MATCHED: 0, AMOUNT_MISMATCH: 1 });
+    expect(await statusOf(matched)).toBe(PaymentIntentStatus.VERIFIED);
+    expect(await statusOf(mismatched)).toBe(PaymentIntentStatus.SUBMITTED);
+
+    const again = await service.reconcile(
+      'Reference,Amount\n412345678901,250\n',
+      true,
+      correlationId,
+    );
+    expect(again.items[0].status).toBe('ALREADY_VERIFIED');
+  });
+
+  it('flags a reference reused for a second order', async () => {
+    const first = await submittedPayment('412345678901', 250);
+    await service.reconcile('Reference,Amount\n412345678901,250\n', false, correlationId);
+    const reused = await submittedPayment('412345678901', 250);
+
+    const report = await service.reconcile(
+      'Reference,Amount\n412345678901,250\n',
+      false,
+      correlationId,
+    );
+
+    expect(report.items).toHaveLength(1);
+    expect(report.items[0].status).toBe('DUPLICATE');
+    expect(report.items[0].message).toContain('VERIFIED');
+    expect(await statusOf(first)).toBe(PaymentIntentStatus.VERIFIED);
+    expect(await statusOf(reused)).toBe(PaymentIntentStatus.SUBMITTED);
+  });
+
+  it('takes the reference from the description when there is no reference column', async () => {
+    const paymentIntentId = await submittedPayment('412345678901', 250);
+
+    const report = await service.reconcile(
+      'Date,Description,Deposits\n01/02/2026,UPI/412345678901/payer@okbank,"₹250"\n',
+      true,
+      correlationId,
+    );
+
+    expect(report.items[0]).toMatchObject({ status: 'MATCHED', paymentIntentId });
+  });
+
+  it('reports unreadable rows and rejects unreadable files', async () => {
+    const report = await service.reconcile(
+      'Reference,Amount\n412345678901,abc\n,100\n',
+      true,
+      correlationId,
+    );
+    expect(report.errors).toEqual([
+      { row: 2, message: 'Invalid amount: abc' },
+      { row: 3, message: 'No transaction reference' },
+    ]);
+
+    await expect(service.reconcile('Reference,Payer\nx,y\n', true, correlationId)).rejects.toThrow(
+      InvalidBankStatementException,
+    );
+    await expect(service.reconcile('', true, correlationId)).rejects.toThrow(
+      InvalidBankStatementException,
+    );
+  });
+});
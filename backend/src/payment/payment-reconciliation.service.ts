@@ -0,0 +1,224 @@
+import { Inject, Injectable } from '@nestjs/common';
+import { logWithCorrelation } from '../common/logging/logger';
+import { BusinessException } from '../common/exceptions/business.exception';
+import { Money } from '../catalog/domain/money';
+import { PaymentIntentService, PendingPaymentReview } from './payment-intent.service';
+import { PaymentIntentStatus } from './domain/payment-intent-status';
+import type { PaymentIntent } from './domain/payment-intent.entity';
+import { PAYMENT_INTENT_REPOSITORY } from './repositories/payment-intent-repository.interface';
+import type { IPaymentIntentRepository } from './repositories/payment-intent-repository.interface';
+import { parseBankStatement, StatementCredit } from './reconciliation/bank-statement';
+import type {
+  ReconciliationItemDto,
+  ReconciliationItemStatus,
+  ReconciliationReportDto,
+} from './dto/reconciliation.dto';
+
+/** Other intents with the same reference that make a credit ambiguous */
+const CONFLICTING_STATUSES = [PaymentIntentStatus.SUBMITTED, PaymentIntentStatus.VERIFIED];
+
+/**
+ * Payment Reconciliation Service
+ *
+ * Matches credits on an uploaded bank / UPI statement (see
+ * reconciliation/bank-statement.ts for the format) to SUBMITTED UPI payments
+ * by reference and amount, and reports everything that does not line up.
+ *
+ * Like the product import it is report-then-apply: a dry run only proposes
+ * the MATCHED payments; applying the same file verifies them one at a time
+ * through PaymentIntentService.verify, which re-checks the amount. Nothing
+ * else in the report is acted on; the admin resolves it on the review page.
+ */
+@Injectable()
+export class PaymentReconciliationService {
+  constructor(
+    @Inject(PAYMENT_INTENT_REPOSITORY)
+    private readonly paymentIntentRepository: IPaymentIntentRepository,
+    private readonly paymentIntentService: PaymentIntentService,
+  ) {}
+
+  /**
+   * @throws InvalidBankStatementException if the statement cannot be read
+   */
+  async reconcile(
+    csv: string,
+    dryRun: boolean,
+    correlationId: string,
+  ): Promise<ReconciliationReportDto> {
+    const { credits, errors } = parseBankStatement(csv);
+    const pending = await this.paymentIntentService.listPendingReviews();
+    const reviewsById = new Map(pending.map((review) => [review.paymentIntent.id, review]));
+
+    const creditsByReference = groupBy(credits, (credit) => credit.reference);
+    const references = new Set([
+      ...creditsByReference.keys(),
+      ...pending.map((review) => review.paymentIntent.referenceId!),
+    ]);
+    const intentsByReference = groupBy(
+      await this.paymentIntentRepository.findUpiByReferenceIds([...references]),
+      (intent) => intent.referenceId!,
+    );
+
+    const items = credits.map((credit) =>
+      this.matchCredit(
+        credit,
+        creditsByReference.get(credit.reference)!,
+        intentsByReference.get(credit.reference) ?? [],
+        reviewsById,
+      ),
+    );
+    for (const review of pending) {
+      if (!creditsByReference.has(review.paymentIntent.referenceId!)) {
+        items.push(this.unmatchedPayment(review));
+      }
+    }
+
+    if (!dryRun) {
+      for (const item of items.filter((candidate) => candidate.status === 'MATCHED')) {
+        await this.verifyMatched(item, correlationId);
+      }
+    }
+
+    const report: ReconciliationReportDto = {
+      dryRun,
+      totalCredits: credits.length,
+      summary: summarize(items),
+      items,
+      errors,
+    };
+    logWithCorrelation(
+      'INFO',
+      correlationId,
+      dryRun ? 'Bank statement reconciled (dry run)' : 'Bank statement reconciled',
+      'PaymentReconciliationService',
+      {
+        totalCredits: report.totalCredits,
+        unreadableRows: errors.length,
+        ...report.summary,
+      },
+    );
+    return report;
+  }
+
+  private matchCredit(
+    credit: StatementCredit,
+    sameReference: StatementCredit[],
+    intents: PaymentIntent[],
+    reviewsById: Map<string, PendingPaymentReview>,
+  ): ReconciliationItemDto {
+    const item = (
+      status: ReconciliationItemStatus,
+      message: string,
+      review?: PendingPaymentReview,
+    ): ReconciliationItemDto => ({
+      status,
+      row: credit.row,
+      referenceId: credit.reference,
+      amountReceived: credit.amount.toJSON(),
+      paymentIntentId: review?.paymentIntent.id ?? null,
+      orderId: review?.paymentIntent.orderId ?? null,
+      expectedAmount: review?.expectedAmount.toJSON() ?? null,
+      date: credit.date,
+      description: credit.description,
+      message,
+    });
+
+    const submitted = intents.filter((intent) => reviewsById.has(intent.id));
+    const review = submitted.length === 1 ? reviewsById.get(submitted[0].id) : undefined;
+
+    if (sameReference.length > 1) {
+      const rows = sameReference.map((other) => other.row).join(', ');
+      return item('DUPLICATE', `Reference appears on statement rows ${rows}`, review);
+    }
+
+    if (submitted.length === 0) {
+      const verified = intents.find((intent) => intent.status === PaymentIntentStatus.VERIFIED);
+      if (verified) {
+        return item('ALREADY_VERIFIED', `Already verified for order ${verified.orderId}`);
+      }
+      const latest = intents[intents.length - 1];
+      return item(
+        'UNMATCHED_CREDIT',
+        latest
+          ? `No payment awaiting review; payment for order ${latest.orderId} is ${latest.status}`
+          : 'No submitted payment has this reference',
+      );
+    }
+
+    const conflicting = intents.filter((intent) => CONFLICTING_STATUSES.includes(intent.status));
+    if (conflicting.length > 1) {
+      const orders = conflicting.map((intent) => `${intent.orderId} (${intent.status})`);
+      return item('DUPLICATE', `Reference used for several payments: ${orders.join(', ')}`);
+    }
+
+    if (!review!.expectedAmount.equals(credit.amount)) {
+      return item(
+        'AMOUNT_MISMATCH',
+        `Received ${credit.amount.format()} but the order total is ${review!.expectedAmount.format()}`,
+        review,
+      );
+    }
+    return item('MATCHED', 'Reference and amount match', review);
+  }
+
+  private unmatchedPayment(review: PendingPaymentReview): ReconciliationItemDto {
+    return {
+      status: 'UNMATCHED_PAYMENT',
+      row: null,
+      referenceId: review.paymentIntent.referenceId!,
+      amountReceived: null,
+      paymentIntentId: review.paymentIntent.id,
+      orderId: review.paymentIntent.orderId,
+      expectedAmount: review.expectedAmount.toJSON(),
+      date: null,
+      description: null,
+      message: 'Reference not found on the statement',
+    };
+  }
+
+  /**
+   * Verify a MATCHED item in place. Failures are reported, not thrown, so one
+   * payment that changed meanwhile does not stop the rest.
+   */
+  private async verifyMatched(item: ReconciliationItemDto, correlationId: string): Promise<void> {
+    const { amount, currency } = item.amountReceived!;
+    try {
+      await this.paymentIntentService.verify(
+        item.paymentIntentId!,
+        correlationId,
+        Money.fromMajorUnits(amount, currency),
+      );
+      item.status = 'VERIFIED';
+      item.message = 'Verified';
+    } catch (error) {
+      if (!(error instanceof BusinessException)) throw error;
+      item.status = 'VERIFY_FAILED';
+      item.message = error.message;
+    }
+  }
+}
+
+function groupBy<T>(values: T[], key: (value: T) => string): Map<string, T[]> {
+  const groups = new Map<string, T[]>();
+  for (const value of values) {
+    const group = groups.get(key(value));
+    if (group) group.push(value);
+    else groups.set(key(value), [value]);
+  }
+  return groups;
+}
+
+function summarize(items: ReconciliationItemDto[]): Record<ReconciliationItemStatus, number> {
+  const summary: Record<ReconciliationItemStatus, number> = {
+    MATCHED: 0,
+    VERIFIED: 0,
+    VERIFY_FAILED: 0,
+    AMOUNT_MISMATCH: 0,
+    DUPLICATE: 0,
+    ALREADY_VERIFIED: 0,
+    UNMATCHED_CREDIT: 0,
+    UNMATCHED_PAYMENT: 0,
+  };
+  for (const item of items) summary[item.status]++;
+  return summary;
+}
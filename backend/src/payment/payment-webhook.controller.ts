@@ -0,0 +1,47 @@
+import {
+  Controller,
+  Headers,
+  HttpCode,
+  HttpStatus,
+  Param,
+  Post,
+  RawBodyRequest,
+  Req,
+} from '@nestjs/common';
+import { Request } from 'express';
+import { ApiResponse } from '../common/api/api-response';
+import { PaymentWebhookService, WebhookResult } from './payment-webhook.service';
+
+/**
+ * Payment Webhook Controller
+ *
+ * POST /api/v1/payments/webhooks/:provider
+ *
+ * Called by the payment gateway, not by users: there is no JWT. Requests are
+ * authenticated by the provider's HMAC signature over the raw body, which
+ * main.ts keeps (rawBody: true). A 2xx response tells the provider to stop
+ * redelivering; errors make it retry.
+ */
+@Controller('payments/webhooks')
+export class PaymentWebhookController {
+  constructor(private readonly paymentWebhookService: PaymentWebhookService) {}
+
+  @Post(':provider')
+  @HttpCode(HttpStatus.OK)
+  async receive(
+    @Param('provider') provider: string,
+    @Req() request: RawBodyRequest<Request>,
+    @Headers('x-correlation-id') correlationId: string,
+  ): Promise<ApiResponse<WebhookResult>> {
+    const result = await this.paymentWebhookService.handle(
+      provider,
+      request.rawBody?.toString('utf8'),
+      request.headers,
+      correlationId,
+    );
+    return ApiResponse.success(
+      result,
+      result.duplicate ? 'Webhook already processed' : 'Webhook processed',
+    );
+  }
+}
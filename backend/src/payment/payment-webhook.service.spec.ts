@@ -0,0 +1,191 @@
+import { PaymentWebhookService } from './payment-webhook.service';
+import { PaymentIntentService } from './payment-intent.service';
+import { InMemoryPaymentIntentRepository } from './repositories/in-memory-payment-intent.repository';
+import { InMemoryPaymentWebhookEventRepository } from './repositories/in-memory-payment-webhook-event.repository';
+import { InMemoryOrderRepository } from '../order/repositories/in-memory-order.repository';
+import { OrderStatus } from '../order/domain/order-status';
+import { createOrderItem } from '../order/domain/order-item';
+import { Money } from '../catalog/domain/money';
+import { FileService } from '../files/file.service';
+import { InMemoryStoredFileRepository } from '../files/repositories/in-memory-stored-file.repository';
+import { InMemoryFileStorage } from '../files/storage/in-memory-file.storage';
+import { OutboxStatus } from '../events/domain';
+import { InMemoryOutboxRepository } from '../events/repositories/in-memory-outbox.repository';
+import { SandboxPaymentGateway } from './gateway/sandbox-payment.gateway';
+import { PaymentMethod } from './domain/payment-method';
+import { PaymentIntentStatus } from './domain/payment-intent-status';
+import {
+  InvalidGatewayWebhookException,
+  UnknownPaymentProviderException,
+} from './exceptions/payment-gateway.exceptions';
+
+/**
+ * Callbacks captured from the sandbox gateway. Order A is paid at the first
+ * attempt; order B fails once, then the customer retries and pays.
+ */
+const CAPTURED = {
+  orderAPaid:
+    '{"id":"evt_sandbox_000003","event":"payment.authorized","created_at":1768471200,"payload":{"order_id":"order_sandbox_000001","payment_id":"pay_sandbox_000002"}}',
+  orderBFailed:
+    '{"id":"evt_sandbox_000006","event":"payment.failed","created_at":1768471200,"payload":{"order_id":"order_sandbox_000004","payment_id":"pay_sandbox_000005","error_description":"Payment declined by bank"}}',
+  orderBPaid:
+    '{"id":"evt_sandbox_000008","event":"payment.authorized","created_at":1768471320,"payload":{"order_id":"order_sandbox_000004","payment_id":"pay_sandbox_000007"}}',
+};
+
+/**
+ * Payment Webhook Service Tests
+ *
+ * Replays captured sandbox callbacks: signature checks, duplicate delivery
+ * and out-of-order delivery.
+ */
+describe('PaymentWebhookService', () => {
+  let service: PaymentWebhookService;
+  let gateway: SandboxPaymentGateway;
+  let paymentIntentRepository: InMemoryPaymentIntentRepository;
+  let orderRepository: InMemoryOrderRepository;
+  let paymentIntentService: PaymentIntentService;
+  let outbox: InMemoryOutboxRepository;
+
+  const userId = 'user-1';
+  const correlationId = 'test-correlation-id';
+  let orderA: string;
+  let orderB: string;
+
+  beforeEach(async () => {
+    gateway = new SandboxPaymentGateway('test-webhook-secret');
+    outbox = new InMemoryOutboxRepository();
+    paymentIntentRepository = new InMemoryPaymentIntentRepository(outbox);
+    orderRepository = new InMemoryOrderRepository();
+    paymentIntentService = new PaymentIntentService(
+      paymentIntentRepository,
+      orderRepository,
+      new FileService(new InMemoryStoredFileRepository(), new InMemoryFileStorage()),
+      gateway,
+    );
+    service = new PaymentWebhookService(
+      gateway,
+      new InMemoryPaymentWebhookEventRepository(),
+      paymentIntentService,
+    );
+
+    // Same calls, in the same order, as when the payloads were captured
+    orderA = await createOnlineOrder();
+    expect(await simulate(orderA, 'success', '2026-01-15T10:00:00Z')).toBe(CAPTURED.orderAPaid);
+    orderB = await createOnlineOrder();
+    expect(await simulate(orderB, 'failure', '2026-01-15T10:00:00Z')).toBe(CAPTURED.orderBFailed);
+    expect(await simulate(orderB, 'success', '2026-01-15T10:02:00Z')).toBe(CAPTURED.orderBPaid);
+  });
+
+  async function createOnlineOrder(): Promise<string> {
+    const order = await orderRepository.createOrder(userId, OrderStatus.DRAFT);
+    await orderRepository.addItem(
+      order.id,
+      createOrderItem({
+        productId: 'prod-1',
+        productName: 'Product 1',
+        unitPrice: Money.fromMajorUnits(100, 'INR'),
+        quantity: 1,
+      }),
+    );
+    await orderRepository.updateStatus(order.id, OrderStatus.CONFIRMED, { actorId: 'test-setup' });
+    await paymentIntentService.createForOrder(
+      order.id,
+      PaymentMethod.ONLINE,
+      userId,
+      correlationId,
+    );
+    return order.id;
+  }
+
+  async function simulate(
+    orderId: string,
+    outcome: 'success' | 'failure',
+    at: string,
+  ): Promise<string> {
+    const intent = await paymentIntentRepository.findByOrderId(orderId);
+    return gateway.simulatePayment(intent!.gatewayOrderId!, outcome, new Date(at)).rawBody;
+  }
+
+  function deliver(rawBody: string, signature = gateway.sign(rawBody)) {
+    return service.handle('sandbox', rawBody, { 'x-sandbox-signature': signature }, correlationId);
+  }
+
+  async function statusOf(orderId: string): Promise<PaymentIntentStatus> {
+    const intent = await paymentIntentRepository.findByOrderId(orderId);
+    return intent!.status;
+  }
+
+  async function publishedEventTypes(): Promise<string[]> {
+    const pending = await outbox.findByStatus(OutboxStatus.PENDING, 20);
+    return pending.map((message) => message.eventType).sort();
+  }
+
+  it('captures the payment for an authorized callback', async () => {
+    const result = await deliver(CAPTURED.orderAPaid);
+
+    expect(result).toEqual({
+      eventId: 'evt_sandbox_000003',
+      duplicate: false,
+      intentStatus: PaymentIntentStatus.VERIFIED,
+    });
+    const intent = await paymentIntentRepository.findByOrderId(orderA);
+    expect(intent!.referenceId).toBe('pay_sandbox_000002');
+  });
+
+  it('ignores a redelivered event', async () => {
+    await deliver(CAPTURED.orderAPaid);
+    const again = await deliver(CAPTURED.orderAPaid);
+
+    expect(again).toEqual({
+      eventId: 'evt_sandbox_000003',
+      duplicate: true,
+      intentStatus: null,
+    });
+    const verified = (await publishedEventTypes()).filter((type) => type === 'PAYMENT_VERIFIED');
+    expect(verified).toHaveLength(1);
+  });
+
+  it('verifies a payment retried after a failed attempt', async () => {
+    await deliver(CAPTURED.orderBFailed);
+    expect(await statusOf(orderB)).toBe(PaymentIntentStatus.REJECTED);
+
+    await deliver(CAPTURED.orderBPaid);
+    expect(await statusOf(orderB)).toBe(PaymentIntentStatus.VERIFIED);
+  });
+
+  it('does not move a VERIFIED intent backwards when a failure arrives late', async () => {
+    await deliver(CAPTURED.orderBPaid);
+    const late = await deliver(CAPTURED.orderBFailed);
+
+    expect(late.intentStatus).toBe(PaymentIntentStatus.VERIFIED);
+    expect(await statusOf(orderB)).toBe(PaymentIntentStatus.VERIFIED);
+    expect(await publishedEventTypes()).not.toContain('PAYMENT_REJECTED');
+  });
+
+  it('rejects callbacks with a bad signature and does not record them', async () => {
+    const forged = new SandboxPaymentGateway('wrong-secret').sign(CAPTURED.orderAPaid);
+
+    await expect(deliver(CAPTURED.orderAPaid, forged)).rejects.toThrow(
+      InvalidGatewayWebhookException,
+    );
+    expect(await statusOf(orderA)).toBe(PaymentIntentStatus.PENDING);
+
+    const genuine = await deliver(CAPTURED.orderAPaid);
+    expect(genuine.duplicate).toBe(false);
+  });
+
+  it('rejects callbacks with no signature or body', async () => {
+    await expect(service.handle('sandbox', CAPTURED.orderAPaid, {}, correlationId)).rejects.toThrow(
+      InvalidGatewayWebhookException,
+    );
+    await expect(
+      service.handle('sandbox', undefined, { 'x-sandbox-signature': 'x' }, correlationId),
+    ).rejects.toThrow(InvalidGatewayWebhookException);
+  });
+
+  it('rejects callbacks for an unknown provider', async () => {
+    await expect(
+      service.handle('razorpay', CAPTURED.orderAPaid, {}, correlationId),
+    ).rejects.toThrow(UnknownPaymentProviderException);
+  });
+});
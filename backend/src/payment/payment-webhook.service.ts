@@ -0,0 +1,100 @@
+import { Inject, Injectable } from '@nestjs/common';
+import { logWithCorrelation } from '../common/logging/logger';
+import { PaymentIntentService } from './payment-intent.service';
+import { PaymentIntentStatus } from './domain/payment-intent-status';
+import { PAYMENT_GATEWAY } from './gateway/payment-gateway.interface';
+import type { PaymentGateway } from './gateway/payment-gateway.interface';
+import { PAYMENT_WEBHOOK_EVENT_REPOSITORY } from './repositories/payment-webhook-event-repository.interface';
+import type { IPaymentWebhookEventRepository } from './repositories/payment-webhook-event-repository.interface';
+import {
+  InvalidGatewayWebhookException,
+  UnknownPaymentProviderException,
+} from './exceptions/payment-gateway.exceptions';
+
+/**
+ * Result of a webhook delivery
+ */
+export interface WebhookResult {
+  eventId: string;
+  /** True if the event had already been processed and was ignored */
+  duplicate: boolean;
+  /** Payment intent status after the event; null for duplicates */
+  intentStatus: PaymentIntentStatus | null;
+}
+
+/**
+ * Payment Webhook Service
+ *
+ * Entry point for gateway callbacks: checks the provider and signature,
+ * skips events already processed, and hands the event to
+ * PaymentIntentService, which applies it to the ONLINE intent. The event is
+ * recorded only once applied, so a failed delivery is retried in full.
+ */
+@Injectable()
+export class PaymentWebhookService {
+  constructor(
+    @Inject(PAYMENT_GATEWAY)
+    private readonly paymentGateway: PaymentGateway,
+    @Inject(PAYMENT_WEBHOOK_EVENT_REPOSITORY)
+    private readonly webhookEventRepository: IPaymentWebhookEventRepository,
+    private readonly paymentIntentService: PaymentIntentService,
+  ) {}
+
+  /**
+   * @throws UnknownPaymentProviderException if provider is not the configured gateway
+   * @throws InvalidGatewayWebhookException on a missing body or bad signature
+   * @throws PaymentIntentNotFoundException if no intent matches the gateway order
+   */
+  async handle(
+    provider: string,
+    rawBody: string | undefined,
+    headers: Record<string, string | string[] | undefined>,
+    correlationId: string,
+  ): Promise<WebhookResult> {
+    if (provider !== this.paymentGateway.provider) {
+      throw new UnknownPaymentProviderException(provider);
+    }
+    if (!rawBody) {
+      throw new InvalidGatewayWebhookException(provider, 'empty body');
+    }
+
+    const signature = headers[this.paymentGateway.signatureHeader];
+    const event = this.paymentGateway.verifyWebhook(
+      rawBody,
+      Array.isArray(signature) ? signature[0] : (signature ?? ''),
+    );
+
+    if (await this.webhookEventRepository.exists(provider, event.eventId)) {
+      logWithCorrelation(
+        'INFO',
+        correlationId,
+        'Duplicate webhook ignored',
+        'PaymentWebhookService',
+        {
+          provider,
+          eventId: event.eventId,
+        },
+      );
+      return { eventId: event.eventId, duplicate: true, intentStatus: null };
+    }
+
+    const intent = await this.paymentIntentService.handleGatewayEvent(event, correlationId);
+    await this.webhookEventRepository.record({
+      provider,
+      eventId: event.eventId,
+      eventType: event.type,
+      gatewayOrderId: event.gatewayOrderId,
+      paymentIntentId: intent.id,
+      intentStatus: intent.status,
+      receivedAt: new Date(),
+    });
+    logWithCorrelation('INFO', correlationId, 'Webhook processed', 'PaymentWebhookService', {
+      provider,
+      eventId: event.eventId,
+      eventType: event.type,
+      paymentIntentId: intent.id,
+      status: intent.status,
+    });
+    return { eventId: event.eventId, duplicate: false, intentStatus: intent.status };
+  }
+}
@@ -1,9 +1,26 @@
 import { Module, forwardRef } from '@nestjs/common';
 import { PaymentIntentService } from './payment-intent.service';
 import { PaymentAdminController } from './payment-admin.controller';
-import { PaymentIntentRepositoryProvider } from '../database/repository.providers';
+import { RefundService } from './refund.service';
+import { RefundAdminController } from './refund-admin.controller';
+import { RefundEventHandler } from './refund-event.handler';
+import { PaymentWebhookService } from './payment-webhook.service';
+import { PaymentWebhookController } from './payment-webhook.controller';
+import { PaymentExpiryJob } from './payment-expiry.job';
+import { PaymentReconciliationService } from './payment-reconciliation.service';
+import { ReconciliationAdminController } from './reconciliation-admin.controller';
+import {
+  PaymentIntentRepositoryProvider,
+  PaymentWebhookEventRepositoryProvider,
+  PaymentReminderRepositoryProvider,
+  RefundRepositoryProvider,
+} from '../database/repository.providers';
 import { AuthModule } from '../auth/auth.module';
 import { OrderModule } from '../order/order.module';
+import { FileModule } from '../files/file.module';
+import { PAYMENT_GATEWAY } from './gateway/payment-gateway.interface';
+import { SandboxPaymentGateway } from './gateway/sandbox-payment.gateway';
+import { getPaymentGatewayConfig } from './config/payment-gateway.config';
 
 /**
  * Payment Module (Phase 6 — manual payment v1)
@@ -11,11 +28,47 @@ import { OrderModule } from '../order/order.module';
  * PaymentIntent: one per order. COD → VERIFIED; UPI → PENDING → SUBMITTED → VERIFIED (admin).
  * User APIs are on OrderController (POST :id/payment, POST :id/payment/upi-proof).
  * Admin APIs: GET /admin/payments/pending, POST /admin/payments/:id/verify, POST /admin/payments/:id/reject.
+ *
+ * ONLINE payments go through the PAYMENT_GATEWAY port. PAYMENT_GATEWAY_DRIVER=sandbox
+ * (default, and the only driver so far) uses the deterministic local sandbox.
+ * Gateway callbacks: POST /payments/webhooks/:provider (HMAC-signed, each event applied once).
+ *
+ * Reconciliation: POST /admin/payments/reconciliation matches an uploaded bank /
+ * UPI statement CSV to SUBMITTED payments by reference and amount, and verifies
+ * the matches unless dryRun=true.
+ *
+ * Payment window: PaymentExpiryJob (scheduler) reminds customers of unpaid
+ * confirmed orders, then expires the intent and cancels the order once
+ * PAYMENT_WINDOW_MINUTES have passed.
+ *
+ * Refund: REQUESTED → APPROVED → PROCESSED / FAILED, full or partial. Requested
+ * automatically when an order whose payment was collected is cancelled; admin APIs
+ * under /admin/refunds.
  */
 @Module({
-  imports: [AuthModule, forwardRef(() => OrderModule)],
-  controllers: [PaymentAdminController],
-  providers: [PaymentIntentService, PaymentIntentRepositoryProvider],
-  exports: [PaymentIntentService],
+  imports: [AuthModule, FileModule, forwardRef(() => OrderModule)],
+  controllers: [
+    PaymentAdminController,
+    ReconciliationAdminController,
+    RefundAdminController,
+    PaymentWebhookController,
+  ],
+  providers: [
+    PaymentIntentService,
+    PaymentIntentRepositoryProvider,
+    {
+      provide: PAYMENT_GATEWAY,
+      useFactory: () => new SandboxPaymentGateway(getPaymentGatewayConfig().webhookSecret),
+    },
+    PaymentWebhookService,
+    PaymentWebhookEventRepositoryProvider,
+    PaymentExpiryJob,
+    PaymentReminderRepositoryProvider,
+    PaymentReconciliationService,
+    RefundService,
+    RefundRepositoryProvider,
+    RefundEventHandler,
+  ],
+  exports: [PaymentIntentService, RefundService],
 })
 export class PaymentModule {}
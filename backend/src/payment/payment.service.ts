@@ -1,106 +0,0 @@
-import { Injectable } from '@nestjs/common';
-
-/**
- * Payment Service
- *
- * Handles payment processing and management.
- * This is a cross-cutting service available to other modules.
- * Currently contains placeholder implementations.
- *
- * ADR-0055 boundary: Payment is allowed after order confirmation regardless of
- * prescription or consultation status. Do NOT import compliance logic here.
- * Fulfilment (not payment) is gated by compliance.
- *
- * Future integration points:
- * - Payment gateway (Stripe, Razorpay, etc.)
- * - Refund processing
- * - Payment status webhooks
- */
-@Injectable()
-export class PaymentService {
-  /**
-   * Initialize a payment
-   */
-  async initializePayment(paymentData: InitializePaymentDto): Promise<unknown> {
-    // TODO: Integrate with payment gateway
-    return {
-      paymentId: 'pay-' + Date.now(),
-      status: 'initialized',
-      amount: paymentData.amount,
-      currency: paymentData.currency || 'INR',
-      createdAt: new Date().toISOString(),
-    };
-  }
-
-  /**
-   * Process a payment
-   */
-  async processPayment(paymentId: string, paymentDetails: unknown): Promise<unknown> {
-    // TODO: Integrate with payment gateway
-    return {
-      paymentId,
-      status: 'processed',
-      processedAt: new Date().toISOString(),
-    };
-  }
-
-  /**
-   * Get payment status
-   */
-  async getPaymentStatus(paymentId: string): Promise<unknown> {
-    // TODO: Integrate with payment gateway
-    return {
-      paymentId,
-      status: 'pending',
-      lastChecked: new Date().toISOString(),
-    };
-  }
-
-  /**
-   * Process refund
-   */
-  async processRefund(paymentId: string, refundData: RefundDto): Promise<unknown> {
-    // TODO: Integrate with payment gateway
-    return {
-      refundId: 'ref-' + Date.now(),
-      paymentId,
-      amount: refundData.amount,
-      status: 'processed',
-      processedAt: new Date().toISOString(),
-    };
-  }
-
-  /**
-   * Handle payment webhook
-   */
-  async handleWebhook(webhookData: unknown): Promise<void> {
-    // TODO: Implement webhook handling
-  }
-
-  /**
-   * Validate payment data
-   */
-  async validatePaymentData(paymentData: unknown): Promise<boolean> {
-    // TODO: Implement validation
-    return true;
-  }
-}
-
-/**
- * DTO for initializing a payment
- */
-interface InitializePaymentDto {
-  orderId: string;
-  amount: number;
-  currency?: string;
-  customerId?: string;
-  metadata?: Record<string, unknown>;
-}
-
-/**
- * DTO for processing a refund
- */
-interface RefundDto {
-  amount: number;
-  reason?: string;
-}
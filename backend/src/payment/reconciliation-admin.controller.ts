@@ -0,0 +1,66 @@
+import {
+  Controller,
+  Headers,
+  HttpCode,
+  HttpStatus,
+  Post,
+  Query,
+  UploadedFile,
+  UseGuards,
+  UseInterceptors,
+} from '@nestjs/common';
+import { FileInterceptor } from '@nestjs/platform-express';
+import { ApiResponse } from '../common/api/api-response';
+import { JwtAuthGuard } from '../auth/guards/jwt-auth.guard';
+import { RolesGuard } from '../auth/guards/roles.guard';
+import { Roles } from '../auth/decorators/roles.decorator';
+import { UserRole } from '../auth/interfaces/auth-user.interface';
+import { UploadedFilePayload } from '../files/dto';
+import { PaymentReconciliationService } from './payment-reconciliation.service';
+import { BANK_STATEMENT_MAX_BYTES } from './reconciliation/bank-statement';
+import { BankStatementFileRequiredException } from './exceptions/reconciliation.exceptions';
+import type { ReconciliationReportDto } from './dto/reconciliation.dto';
+
+/**
+ * Reconciliation Admin Controller
+ *
+ * POST /api/v1/admin/payments/reconciliation?dryRun=true
+ * POST /api/v1/admin/payments/reconciliation
+ *
+ * Upload a bank / UPI statement CSV (multipart/form-data: `file`). A dry run
+ * reports matches, mismatches, duplicates and unmatched credits; without
+ * dryRun the matched payments are also verified.
+ */
+@Controller('admin/payments/reconciliation')
+@UseGuards(JwtAuthGuard, RolesGuard)
+@Roles(UserRole.ADMIN)
+export class ReconciliationAdminController {
+  constructor(private readonly reconciliationService: PaymentReconciliationService) {}
+
+  @Post()
+  @HttpCode(HttpStatus.OK)
+  @UseInterceptors(
+    FileInterceptor('file', { limits: { fileSize: BANK_STATEMENT_MAX_BYTES, files: 1 } }),
+  )
+  async reconcile(
+    @UploadedFile() file: UploadedFilePayload | undefined,
+    @Headers('x-correlation-id') correlationId: string,
+    @Query('dryRun') dryRun?: string,
+  ): Promise<ApiResponse<ReconciliationReportDto>> {
+    if (!file) {
+      throw new BankStatementFileRequiredException();
+    }
+    const isDryRun = dryRun?.toLowerCase() === 'true';
+    const report = await this.reconciliationService.reconcile(
+      file.buffer.toString('utf8'),
+      isDryRun,
+      correlationId,
+    );
+    return ApiResponse.success(
+      report,
+      isDryRun
+        ? 'Statement reconciled (dry run)'
+        : `Statement reconciled; ${report.summary.VERIFIED} payment(s) verified`,
+    );
+  }
+}
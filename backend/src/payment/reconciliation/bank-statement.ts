@@ -0,0 +1,158 @@
+import { Money } from '../../catalog/domain/money';
+import { CsvSyntaxError, parseCsv } from '../../common/csv/csv-parser';
+import { InvalidBankStatementException } from '../exceptions/reconciliation.exceptions';
+
+/**
+ * Bank / UPI statement CSV format
+ *
+ * Exports differ between banks and UPI apps, so columns are found by header
+ * name (case-insensitive, in any order) rather than position:
+ * - reference: the UPI transaction reference (UTR). If there is no reference
+ *   column, the first 12-digit number in the description is used, which is
+ *   where most banks put it ("UPI/412345678901/...")
+ * - amount: the credited amount in rupees ("1,250.00" and "₹1250" are accepted)
+ * - date, description: optional, shown in the report
+ * - type: optional; rows marked DR / DEBIT are skipped
+ *
+ * Rows with no credited amount (debits in a separate column) are skipped.
+ * Rows are numbered as in a spreadsheet: the header is row 1.
+ */
+const COLUMN_ALIASES = {
+  reference: [
+    'reference',
+    'reference id',
+    'reference no',
+    'ref no',
+    'utr',
+    'utr no',
+    'upi ref no',
+    'transaction id',
+  ],
+  amount: ['amount', 'credit', 'credit amount', 'deposit', 'deposits'],
+  date: ['date', 'transaction date', 'txn date', 'value date'],
+  description: ['description', 'narration', 'particulars', 'remarks'],
+  type: ['type', 'cr/dr', 'dr/cr'],
+} as const;
+
+type StatementColumn = keyof typeof COLUMN_ALIASES;
+
+export const BANK_STATEMENT_MAX_BYTES = 1024 * 1024;
+export const BANK_STATEMENT_MAX_ROWS = 5000;
+
+const UTR_IN_TEXT = /(?<!\d)\d{12}(?!\d)/;
+const AMOUNT_PATTERN = /^\d+(\.\d{1,2})?$/;
+
+/**
+ * One credit on the statement
+ */
+export interface StatementCredit {
+  row: number;
+  reference: string;
+  amount: Money;
+  date: string | null;
+  description: string | null;
+}
+
+/**
+ * A statement row that could not be read as a credit
+ */
+export interface StatementRowError {
+  row: number;
+  message: string;
+}
+
+/**
+ * Parse a statement CSV into credits. Unreadable rows are returned as errors;
+ * a file that cannot be read at all throws.
+ * @throws InvalidBankStatementException on bad CSV, a missing amount or reference column, or too many rows
+ */
+export function parseBankStatement(text: string): {
+  credits: StatementCredit[];
+  errors: StatementRowError[];
+} {
+  let records: string[][];
+  try {
+    records = parseCsv(text.replace(/^\uFEFF/, ''));
+  } catch (error) {
+    if (error instanceof CsvSyntaxError) {
+      throw new InvalidBankStatementException(error.message, error.row);
+    }
+    throw error;
+  }
+
+  const isBlank = (record: string[]) => record.every((cell) => cell.trim() === '');
+  const [header, ...data] = records;
+  if (!header || isBlank(header)) {
+    throw new InvalidBankStatementException('file is empty');
+  }
+
+  const columns = findColumns(header);
+  if (columns.amount === undefined) {
+    throw new InvalidBankStatementException(
+      `no amount column (expected one of: ${COLUMN_ALIASES.amount.join(', ')})`,
+    );
+  }
+  if (columns.reference === undefined && columns.description === undefined) {
+    throw new InvalidBankStatementException(
+      `no reference or description column (expected one of: ${[
+        ...COLUMN_ALIASES.reference,
+        ...COLUMN_ALIASES.description,
+      ].join(', ')})`,
+    );
+  }
+
+  const dataRows = data
+    .map((cells, index) => ({ row: index + 2, cells }))
+    .filter(({ cells }) => !isBlank(cells));
+  if (dataRows.length > BANK_STATEMENT_MAX_ROWS) {
+    throw new InvalidBankStatementException(`more than ${BANK_STATEMENT_MAX_ROWS} rows`);
+  }
+
+  const credits: StatementCredit[] = [];
+  const errors: StatementRowError[] = [];
+  for (const { row, cells } of dataRows) {
+    const cell = (column: StatementColumn) => {
+      const index = columns[column];
+      return index === undefined ? '' : (cells[index] ?? '').trim();
+    };
+
+    if (/^(dr|debit)$/i.test(cell('type'))) continue;
+    const rawAmount = cell('amount').replace(/[₹,\s]/g, '');
+    if (rawAmount === '' || /^0+(\.0+)?$/.test(rawAmount)) continue;
+    if (!AMOUNT_PATTERN.test(rawAmount)) {
+      errors.push({ row, message: `Invalid amount: ${cell('amount')}` });
+      continue;
+    }
+
+    const description = cell('description') || null;
+    const reference = cell('reference') || description?.match(UTR_IN_TEXT)?.[0];
+    if (!reference) {
+      errors.push({ row, message: 'No transaction reference' });
+      continue;
+    }
+
+    credits.push({
+      row,
+      reference,
+      amount: Money.fromMajorUnits(Number(rawAmount)),
+      date: cell('date') || null,
+      description,
+    });
+  }
+
+  return { credits, errors };
+}
+
+/**
+ * Index of each known column in the header; the first matching header wins
+ */
+function findColumns(header: string[]): Partial<Record<StatementColumn, number>> {
+  const names = header.map((cell) => cell.trim().toLowerCase().replace(/[._]/g, ' '));
+  const columns: Partial<Record<StatementColumn, number>> = {};
+  for (const column of Object.keys(COLUMN_ALIASES) as StatementColumn[]) {
+    const aliases: readonly string[] = COLUMN_ALIASES[column];
+    const index = names.findIndex((name) => aliases.includes(name));
+    if (index >= 0) columns[column] = index;
+  }
+  return columns;
+}
@@ -0,0 +1,7 @@
+export {
+  BANK_STATEMENT_MAX_BYTES,
+  BANK_STATEMENT_MAX_ROWS,
+  StatementCredit,
+  StatementRowError,
+  parseBankStatement,
+} from './bank-statement';
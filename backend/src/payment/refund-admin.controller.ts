@@ -0,0 +1,146 @@
+import {
+  Body,
+  Controller,
+  Get,
+  Headers,
+  HttpCode,
+  HttpStatus,
+  Param,
+  Post,
+  Query,
+  UseGuards,
+} from '@nestjs/common';
+import { ApiResponse } from '../common/api/api-response';
+import { JwtAuthGuard } from '../auth/guards/jwt-auth.guard';
+import { RolesGuard } from '../auth/guards/roles.guard';
+import { Roles } from '../auth/decorators/roles.decorator';
+import { CurrentUser } from '../auth/decorators/current-user.decorator';
+import { UserRole } from '../auth/interfaces/auth-user.interface';
+import { Money } from '../catalog/domain/money';
+import { RefundService } from './refund.service';
+import {
+  FailRefundDto,
+  ProcessRefundDto,
+  RefundQueryDto,
+  RefundResponseDto,
+  RequestRefundDto,
+  toRefundResponseDto,
+} from './dto/refund.dto';
+
+/**
+ * Refund Admin Controller
+ *
+ * GET  /api/v1/admin/refunds
+ * POST /api/v1/admin/refunds
+ * POST /api/v1/admin/refunds/:id/approve
+ * POST /api/v1/admin/refunds/:id/process
+ * POST /api/v1/admin/refunds/:id/gateway-refund
+ * POST /api/v1/admin/refunds/:id/fail
+ */
+@Controller('admin/refunds')
+@UseGuards(JwtAuthGuard, RolesGuard)
+@Roles(UserRole.ADMIN)
+export class RefundAdminController {
+  constructor(private readonly refundService: RefundService) {}
+
+  /**
+   * Refunds, oldest first; filter with ?status=REQUESTED etc.
+   * GET /api/v1/admin/refunds
+   */
+  @Get()
+  async list(@Query() query: RefundQueryDto): Promise<ApiResponse<RefundResponseDto[]>> {
+    const refunds = await this.refundService.list(query.status);
+    return ApiResponse.success(refunds.map(toRefundResponseDto), 'Refunds retrieved successfully');
+  }
+
+  /**
+   * Raise a full or partial refund for an order
+   * POST /api/v1/admin/refunds
+   */
+  @Post()
+  async request(
+    @Body() dto: RequestRefundDto,
+    @CurrentUser('id') adminId: string,
+    @Headers('x-correlation-id') correlationId: string,
+  ): Promise<ApiResponse<RefundResponseDto>> {
+    const refund = await this.refundService.requestRefund(
+      dto.orderId,
+      {
+        amount: dto.amount !== undefined ? Money.fromMajorUnits(dto.amount) : undefined,
+        reason: dto.reason,
+        requestedBy: adminId,
+      },
+      correlationId,
+    );
+    return ApiResponse.success(toRefundResponseDto(refund), 'Refund requested');
+  }
+
+  /**
+   * POST /api/v1/admin/refunds/:id/approve
+   */
+  @Post(':id/approve')
+  @HttpCode(HttpStatus.OK)
+  async approve(
+    @Param('id') id: string,
+    @CurrentUser('id') adminId: string,
+    @Headers('x-correlation-id') correlationId: string,
+  ): Promise<ApiResponse<RefundResponseDto>> {
+    const refund = await this.refundService.approve(id, adminId, correlationId);
+    return ApiResponse.success(toRefundResponseDto(refund), 'Refund approved');
+  }
+
+  /**
+   * Record the UPI payout
+   * POST /api/v1/admin/refunds/:id/process
+   */
+  @Post(':id/process')
+  @HttpCode(HttpStatus.OK)
+  async process(
+    @Param('id') id: string,
+    @Body() dto: ProcessRefundDto,
+    @CurrentUser('id') adminId: string,
+    @Headers('x-correlation-id') correlationId: string,
+  ): Promise<ApiResponse<RefundResponseDto>> {
+    const refund = await this.refundService.markProcessed(
+      id,
+      adminId,
+      dto.upiReference,
+      correlationId,
+    );
+    return ApiResponse.success(toRefundResponseDto(refund), 'Refund processed');
+  }
+
+  /**
+   * Pay out through the payment gateway (ONLINE payments only)
+   * POST /api/v1/admin/refunds/:id/gateway-refund
+   */
+  @Post(':id/gateway-refund')
+  @HttpCode(HttpStatus.OK)
+  async refundThroughGateway(
+    @Param('id') id: string,
+    @CurrentUser('id') adminId: string,
+    @Headers('x-correlation-id') correlationId: string,
+  ): Promise<ApiResponse<RefundResponseDto>> {
+    const refund = await this.refundService.refundThroughGateway(id, adminId, correlationId);
+    return ApiResponse.success(
+      toRefundResponseDto(refund),
+      refund.status === 'PROCESSED' ? 'Refund processed' : 'Refund failed at the gateway',
+    );
+  }
+
+  /**
+   * Record a failed payout; the amount can be refunded again
+   * POST /api/v1/admin/refunds/:id/fail
+   */
+  @Post(':id/fail')
+  @HttpCode(HttpStatus.OK)
+  async fail(
+    @Param('id') id: string,
+    @Body() dto: FailRefundDto,
+    @CurrentUser('id') adminId: string,
+    @Headers('x-correlation-id') correlationId: string,
+  ): Promise<ApiResponse<RefundResponseDto>> {
+    const refund = await this.refundService.markFailed(id, adminId, dto.reason, correlationId);
+    return ApiResponse.success(toRefundResponseDto(refund), 'Refund marked failed');
+  }
+}
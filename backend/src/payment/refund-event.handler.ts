@@ -0,0 +1,35 @@
+import { Injectable, OnModuleInit } from '@nestjs/common';
+import { EventBus } from '../events/event-bus';
+import { DomainEventHandler, EventHandlingContext } from '../events/domain-event-handler.interface';
+import { DomainEvent } from '../events/domain';
+import type { OrderCancelledEvent } from '../order/domain';
+import { RefundService } from './refund.service';
+
+/**
+ * Refund Event Handler
+ *
+ * Requests a full refund when an order is cancelled. Whether anything is due
+ * is decided from the payment, not the order state: a payment can be verified
+ * before the order has moved to PAID. RefundService does nothing when no
+ * payment was collected and only refunds the remaining balance, so
+ * redelivery is harmless.
+ */
+@Injectable()
+export class RefundEventHandler implements DomainEventHandler, OnModuleInit {
+  readonly name = 'refunds';
+  readonly eventTypes = ['ORDER_CANCELLED'];
+
+  constructor(
+    private readonly eventBus: EventBus,
+    private readonly refundService: RefundService,
+  ) {}
+
+  onModuleInit(): void {
+    this.eventBus.subscribe(this);
+  }
+
+  async handle(event: DomainEvent, context: EventHandlingContext): Promise<void> {
+    const { orderId, correlationId } = event as OrderCancelledEvent;
+    await this.refundService.refundCancelledOrder(orderId, correlationId ?? context.eventId);
+  }
+}
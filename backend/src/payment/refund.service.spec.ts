@@ -0,0 +1,340 @@
+import { RefundService } from './refund.service';
+import { RefundEventHandler } from './refund-event.handler';
+import { InMemoryRefundRepository } from './repositories/in-memory-refund.repository';
+import { InMemoryPaymentIntentRepository } from './repositories/in-memory-payment-intent.repository';
+import { InMemoryOrderRepository } from '../order/repositories/in-memory-order.repository';
+import { OrderStatus, createOrderCancelledEvent } from '../order/domain';
+import { createOrderItem } from '../order/domain/order-item';
+import { Money } from '../catalog/domain/money';
+import { EventBus } from '../events/event-bus';
+import { OutboxDispatcher } from '../events/outbox-dispatcher';
+import { OutboxStatus } from '../events/domain';
+import { InMemoryOutboxRepository } from '../events/repositories/in-memory-outbox.repository';
+import { SandboxPaymentGateway } from './gateway/sandbox-payment.gateway';
+import { PaymentMethod, PaymentIntentStatus, RefundStatus } from './domain';
+import {
+  RefundExceedsBalanceException,
+  RefundInvalidStateException,
+  RefundNotAllowedException,
+} from './exceptions';
+
+/**
+ * Refund Service Tests
+ *
+ * REQUESTED → APPROVED → PROCESSED / FAILED, full and partial amounts,
+ * and the automatic refund when a paid order is cancelled.
+ */
+describe('RefundService', () => {
+  let service: RefundService;
+  let refundRepository: InMemoryRefundRepository;
+  let paymentIntentRepository: InMemoryPaymentIntentRepository;
+  let orderRepository: InMemoryOrderRepository;
+  let outbox: InMemoryOutboxRepository;
+  let eventBus: EventBus;
+  let gateway: SandboxPaymentGateway;
+
+  const userId = 'user-1';
+  const adminId = 'admin-1';
+  const correlationId = 'test-correlation-id';
+
+  beforeEach(() => {
+    outbox = new InMemoryOutboxRepository();
+    refundRepository = new InMemoryRefundRepository(outbox);
+    paymentIntentRepository = new InMemoryPaymentIntentRepository();
+    orderRepository = new InMemoryOrderRepository();
+    eventBus = new EventBus(outbox);
+    gateway = new SandboxPaymentGateway('test-webhook-secret');
+    service = new RefundService(
+      refundRepository,
+      paymentIntentRepository,
+      orderRepository,
+      gateway,
+    );
+  });
+
+  /** Order totalling ₹250 with a payment intent in the given state */
+  async function createPaidOrder(
+    status: OrderStatus,
+    method = PaymentMethod.UPI,
+    paymentStatus = PaymentIntentStatus.VERIFIED,
+  ): Promise<string> {
+    const order = await orderRepository.createOrder(userId, OrderStatus.DRAFT);
+    await orderRepository.addItem(
+      order.id,
+      createOrderItem({
+        productId: 'prod-1',
+        productName: 'Product 1',
+        unitPrice: Money.fromMajorUnits(125, 'INR'),
+        quantity: 2,
+      }),
+    );
+    await orderRepository.updateStatus(order.id, status, { actorId: 'test-setup' });
+    await paymentIntentRepository.create({ orderId: order.id, method, status: paymentStatus });
+    return order.id;
+  }
+
+  describe('requestRefund', () => {
+    it('refunds the whole balance when no amount is given', async () => {
+      const orderId = await createPaidOrder(OrderStatus.CANCELLED);
+
+      const refund = await service.requestRefund(
+        orderId,
+        { reason: 'Out of stock', requestedBy: adminId },
+        correlationId,
+      );
+
+      expect(refund.status).toBe(RefundStatus.REQUESTED);
+      expect(refund.amount.toJSON()).toEqual({ amount: 250, currency: 'INR' });
+      const [message] = await outbox.findByStatus(OutboxStatus.PENDING, 10);
+      expect(message.eventType).toBe('REFUND_REQUESTED');
+      expect(message.payload).toMatchObject({ orderId, userId, refundId: refund.id });
+    });
+
+    it('allows partial refunds up to the amount collected', async () => {
+      const orderId = await createPaidOrder(OrderStatus.SHIPPED);
+      const input = { reason: 'Damaged strip', requestedBy: adminId };
+
+      await service.requestRefund(
+        orderId,
+        { ...input, amount: Money.fromMajorUnits(100) },
+        correlationId,
+      );
+      await expect(
+        service.requestRefund(
+          orderId,
+          { ...input, amount: Money.fromMajorUnits(150.01) },
+          correlationId,
+        ),
+      ).rejects.toThrow(RefundExceedsBalanceException);
+
+      const rest = await service.requestRefund(orderId, input, correlationId);
+      expect(rest.amount.toJSON()).toEqual({ amount: 150, currency: 'INR' });
+      await expect(service.requestRefund(orderId, input, correlationId)).rejects.toThrow(
+        RefundNotAllowedException,
+      );
+    });
+
+    it('rejects refunds when nothing has been collected', async () => {
+      const unverified = await createPaidOrder(
+        OrderStatus.CANCELLED,
+        PaymentMethod.UPI,
+        PaymentIntentStatus.SUBMITTED,
+      );
+      const codNotDelivered = await createPaidOrder(OrderStatus.SHIPPED, PaymentMethod.COD);
+      const input = { reason: 'Goodwill', requestedBy: adminId };
+
+      await expect(service.requestRefund(unverified, input, correlationId)).rejects.toThrow(
+        RefundNotAllowedException,
+      );
+      await expect(service.requestRefund(codNotDelivered, input, correlationId)).rejects.toThrow(
+        RefundNotAllowedException,
+      );
+    });
+
+    it('allows refunds of cash collected on delivery', async () => {
+      const orderId = await createPaidOrder(OrderStatus.DELIVERED, PaymentMethod.COD);
+
+      const refund = await service.requestRefund(
+        orderId,
+        { reason: 'Wrong item', requestedBy: adminId, amount: Money.fromMajorUnits(125) },
+        correlationId,
+      );
+
+      expect(refund.amount.toJSON()).toEqual({ amount: 125, currency: 'INR' });
+    });
+  });
+
+  describe('lifecycle', () => {
+    it('approves and processes a refund, marking the payment REFUNDED when fully refunded', async () => {
+      const orderId = await createPaidOrder(OrderStatus.CANCELLED);
+      const requested = await service.requestRefund(
+        orderId,
+        { reason: 'Order cancelled', requestedBy: adminId },
+        correlationId,
+      );
+
+      const approved = await service.approve(requested.id, adminId, correlationId);
+      expect(approved).toMatchObject({ status: RefundStatus.APPROVED, approvedBy: adminId });
+
+      const processed = await service.markProcessed(
+        requested.id,
+        adminId,
+        'UPI-REF-1',
+        correlationId,
+      );
+      expect(processed).toMatchObject({
+        status: RefundStatus.PROCESSED,
+        upiReference: 'UPI-REF-1',
+        processedBy: adminId,
+      });
+      expect(processed.processedAt).not.toBeNull();
+
+      const intent = await paymentIntentRepository.findByOrderId(orderId);
+      expect(intent!.status).toBe(PaymentIntentStatus.REFUNDED);
+    });
+
+    it('keeps the payment VERIFIED after a partial refund', async () => {
+      const orderId = await createPaidOrder(OrderStatus.SHIPPED);
+      const refund = await service.requestRefund(
+        orderId,
+        { reason: 'Damaged strip', requestedBy: adminId, amount: Money.fromMajorUnits(50) },
+        correlationId,
+      );
+      await service.approve(refund.id, adminId, correlationId);
+      await service.markProcessed(refund.id, adminId, 'UPI-REF-2', correlationId);
+
+      const intent = await paymentIntentRepository.findByOrderId(orderId);
+      expect(intent!.status).toBe(PaymentIntentStatus.VERIFIED);
+    });
+
+    it('returns the amount to the balance when a payout fails', async () => {
+      const orderId = await createPaidOrder(OrderStatus.CANCELLED);
+      const input = { reason: 'Order cancelled', requestedBy: adminId };
+      const refund = await service.requestRefund(orderId, input, correlationId);
+      await service.approve(refund.id, adminId, correlationId);
+
+      const failed = await service.markFailed(refund.id, adminId, 'VPA inactive', correlationId);
+      expect(failed).toMatchObject({ status: RefundStatus.FAILED, failureReason: 'VPA inactive' });
+
+      const retry = await service.requestRefund(orderId, input, correlationId);
+      expect(retry.amount.toJSON()).toEqual({ amount: 250, currency: 'INR' });
+    });
+
+    it('rejects out-of-order transitions', async () => {
+      const orderId = await createPaidOrder(OrderStatus.CANCELLED);
+      const refund = await service.requestRefund(
+        orderId,
+        { reason: 'Order cancelled', requestedBy: adminId },
+        correlationId,
+      );
+
+      await expect(
+        service.markProcessed(refund.id, adminId, 'UPI-REF-3', correlationId),
+      ).rejects.toThrow(RefundInvalidStateException);
+      await service.approve(refund.id, adminId, correlationId);
+      await expect(service.approve(refund.id, adminId, correlationId)).rejects.toThrow(
+        RefundInvalidStateException,
+      );
+    });
+  });
+
+  describe('refundThroughGateway', () => {
+    /** ONLINE payment of ₹250 captured by the sandbox gateway */
+    async function createOnlineOrder(): Promise<string> {
+      const orderId = await createPaidOrder(
+        OrderStatus.CANCELLED,
+        PaymentMethod.ONLINE,
+        PaymentIntentStatus.PENDING,
+      );
+      const amount = Money.fromMajorUnits(250);
+      const { gatewayOrderId } = await gateway.createOrder({ receipt: orderId, amount });
+      const webhook = gateway.simulatePayment(gatewayOrderId, 'success');
+      const { gatewayPaymentId } = gateway.verifyWebhook(webhook.rawBody, webhook.signature);
+      await gateway.capture(gatewayPaymentId, amount);
+
+      const intent = await paymentIntentRepository.findByOrderId(orderId);
+      await paymentIntentRepository.update(intent!.id, {
+        status: PaymentIntentStatus.VERIFIED,
+        referenceId: gatewayPaymentId,
+      });
+      return orderId;
+    }
+
+    it('refunds through the gateway and records the gateway refund ID', async () => {
+      const orderId = await createOnlineOrder();
+      const refund = await service.requestRefund(
+        orderId,
+        { reason: 'Order cancelled', requestedBy: adminId },
+        correlationId,
+      );
+      await service.approve(refund.id, adminId, correlationId);
+
+      const processed = await service.refundThroughGateway(refund.id, adminId, correlationId);
+
+      expect(processed.status).toBe(RefundStatus.PROCESSED);
+      expect(processed.upiReference).toMatch(/^rfnd_sandbox_/);
+      const intent = await paymentIntentRepository.findByOrderId(orderId);
+      expect(intent!.status).toBe(PaymentIntentStatus.REFUNDED);
+    });
+
+    it('rejects gateway refunds for payments not made online', async () => {
+      const orderId = await createPaidOrder(OrderStatus.CANCELLED);
+      const refund = await service.requestRefund(
+        orderId,
+        { reason: 'Order cancelled', requestedBy: adminId },
+        correlationId,
+      );
+      await service.approve(refund.id, adminId, correlationId);
+
+      await expect(service.refundThroughGateway(refund.id, adminId, correlationId)).rejects.toThrow(
+        RefundNotAllowedException,
+      );
+    });
+  });
+
+  describe('order cancellation', () => {
+    let dispatcher: OutboxDispatcher;
+
+    beforeEach(() => {
+      new RefundEventHandler(eventBus, service).onModuleInit();
+      dispatcher = new OutboxDispatcher(outbox, eventBus);
+    });
+
+    async function cancel(orderId: string, previousState: OrderStatus): Promise<void> {
+      await eventBus.publish([
+        createOrderCancelledEvent(
+          {
+            orderId,
+            userId,
+            previousState,
+            total: { amount: 250, currency: 'INR' },
+            itemCount: 2,
+          },
+          correlationId,
+        ),
+      ]);
+      await dispatcher.dispatchPending(new Date(Date.now() + 1000));
+    }
+
+    it('requests a full refund when a paid order is cancelled', async () => {
+      const orderId = await createPaidOrder(OrderStatus.CANCELLED);
+
+      await cancel(orderId, OrderStatus.PAID);
+      await cancel(orderId, OrderStatus.PAID);
+
+      const refunds = await service.getForOrder(orderId);
+      expect(refunds).toHaveLength(1);
+      expect(refunds[0]).toMatchObject({
+        status: RefundStatus.REQUESTED,
+        requestedBy: 'SYSTEM',
+        reason: 'Order cancelled',
+      });
+      expect(refunds[0].amount.toJSON()).toEqual({ amount: 250, currency: 'INR' });
+    });
+
+    it('requests a refund when a confirmed order with a verified UPI payment is cancelled', async () => {
+      const orderId = await createPaidOrder(OrderStatus.CANCELLED);
+
+      await cancel(orderId, OrderStatus.CONFIRMED);
+
+      const refunds = await service.getForOrder(orderId);
+      expect(refunds).toHaveLength(1);
+      expect(refunds[0].amount.toJSON()).toEqual({ amount: 250, currency: 'INR' });
+    });
+
+    it('does nothing for orders cancelled before payment was collected', async () => {
+      const unverified = await createPaidOrder(
+        OrderStatus.CANCELLED,
+        PaymentMethod.UPI,
+        PaymentIntentStatus.SUBMITTED,
+      );
+      const codShipped = await createPaidOrder(OrderStatus.CANCELLED, PaymentMethod.COD);
+
+      await cancel(unverified, OrderStatus.CONFIRMED);
+      await cancel(codShipped, OrderStatus.SHIPPED);
+
+      expect(await service.getForOrder(unverified)).toHaveLength(0);
+      expect(await service.getForOrder(codShipped)).toHaveLength(0);
+    });
+  });
+});
@@ -0,0 +1,304 @@
+import { Inject, Injectable } from '@nestjs/common';
+import { ORDER_REPOSITORY } from '../order/repositories/order-repository.interface';
+import type { IOrderRepository } from '../order/repositories/order-repository.interface';
+import { OrderStatus } from '../order/domain/order-status';
+import { SYSTEM_ACTOR } from '../order/domain/order-status-history';
+import { OrderNotFoundException } from '../order/exceptions/order.exceptions';
+import { Money } from '../catalog/domain/money';
+import { logWithCorrelation } from '../common/logging/logger';
+import { PaymentMethod } from './domain/payment-method';
+import { PaymentIntentStatus } from './domain/payment-intent-status';
+import type { PaymentIntent } from './domain/payment-intent.entity';
+import {
+  Refund,
+  RefundStatus,
+  approveRefund,
+  canTransitionRefund,
+  createRefund,
+  isFullyRefunded,
+  markRefundFailed,
+  markRefundProcessed,
+  refundableBalance,
+} from './domain/refund.entity';
+import { createRefundEvent } from './domain/refund-events';
+import { PAYMENT_GATEWAY } from './gateway/payment-gateway.interface';
+import type { PaymentGateway } from './gateway/payment-gateway.interface';
+import { PAYMENT_INTENT_REPOSITORY } from './repositories/payment-intent-repository.interface';
+import type { IPaymentIntentRepository } from './repositories/payment-intent-repository.interface';
+import { REFUND_REPOSITORY } from './repositories/refund-repository.interface';
+import type { IRefundRepository } from './repositories/refund-repository.interface';
+import {
+  RefundExceedsBalanceException,
+  RefundInvalidStateException,
+  RefundNotAllowedException,
+  RefundNotFoundException,
+} from './exceptions/refund.exceptions';
+
+/**
+ * Refund request; amount defaults to the whole refundable balance
+ */
+export interface RequestRefundInput {
+  amount?: Money;
+  reason: string;
+  requestedBy: string;
+}
+
+/**
+ * Refund Service
+ *
+ * Refunds against collected payments: UPI and ONLINE once verified, COD once
+ * the order is delivered (cash is only collected at the door). Cancelling an
+ * order with a collected payment requests a full refund of the balance
+ * automatically; admins can also raise partial refunds, then approve and record the UPI
+ * payout, or for ONLINE payments refund through the payment gateway.
+ *
+ * When processed refunds cover the whole amount the payment intent becomes REFUNDED.
+ * Every refund change raises a RefundEvent, written to the outbox by the
+ * repository in the same transaction as the refund.
+ */
+@Injectable()
+export class RefundService {
+  constructor(
+    @Inject(REFUND_REPOSITORY)
+    private readonly refundRepository: IRefundRepository,
+    @Inject(PAYMENT_INTENT_REPOSITORY)
+    private readonly paymentIntentRepository: IPaymentIntentRepository,
+    @Inject(ORDER_REPOSITORY)
+    private readonly orderRepository: IOrderRepository,
+    @Inject(PAYMENT_GATEWAY)
+    private readonly paymentGateway: PaymentGateway,
+  ) {}
+
+  /**
+   * Refunds for an order, oldest first
+   */
+  async getForOrder(orderId: string): Promise<Refund[]> {
+    return this.refundRepository.findByOrderId(orderId);
+  }
+
+  /**
+   * Admin: refunds, oldest first, optionally filtered by status
+   */
+  async list(status?: RefundStatus): Promise<Refund[]> {
+    return this.refundRepository.findAll(status);
+  }
+
+  /**
+   * Request a full or partial refund for an order.
+   * @throws OrderNotFoundException
+   * @throws RefundNotAllowedException if no payment has been collected or it is all refunded
+   * @throws RefundExceedsBalanceException if amount is more than the refundable balance
+   */
+  async requestRefund(
+    orderId: string,
+    input: RequestRefundInput,
+    correlationId: string,
+  ): Promise<Refund> {
+    const { userId, intent, collected } = await this.getCollectedPayment(orderId);
+    const balance = refundableBalance(
+      collected,
+      await this.refundRepository.findByOrderId(orderId),
+    );
+    if (balance.isZero()) {
+      throw new RefundNotAllowedException(orderId, 'the payment has already been refunded');
+    }
+
+    const amount = input.amount ?? balance;
+    if (amount.getAmountInMinorUnits() > balance.getAmountInMinorUnits()) {
+      throw new RefundExceedsBalanceException(orderId, amount.format(), balance.format());
+    }
+
+    const requested = createRefund({
+      orderId,
+      paymentIntentId: intent.id,
+      amount,
+      reason: input.reason,
+      requestedBy: input.requestedBy,
+    });
+    const refund = await this.refundRepository.create(requested, [
+      createRefundEvent(requested, userId, correlationId),
+    ]);
+    logWithCorrelation('INFO', correlationId, 'Refund requested', 'RefundService', {
+      orderId,
+      refundId: refund.id,
+      amount: refund.amount.toJSON(),
+      requestedBy: input.requestedBy,
+    });
+    return refund;
+  }
+
+  /**
+   * Request a full refund of the balance for a cancelled order.
+   * Returns null when there is nothing to refund (not collected, or already refunded),
+   * so redelivered cancellation events are harmless.
+   */
+  async refundCancelledOrder(orderId: string, correlationId: string): Promise<Refund | null> {
+    try {
+      return await this.requestRefund(
+        orderId,
+        { reason: 'Order cancelled', requestedBy: SYSTEM_ACTOR },
+        correlationId,
+      );
+    } catch (error) {
+      if (error instanceof RefundNotAllowedException) {
+        logWithCorrelation(
+          'INFO',
+          correlationId,
+          'No refund due for cancelled order',
+          'RefundService',
+          {
+            orderId,
+            reason: error.message,
+          },
+        );
+        return null;
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * Admin: approve a requested refund (REQUESTED → APPROVED)
+   */
+  async approve(id: string, adminId: string, correlationId: string): Promise<Refund> {
+    const refund = await this.getTransitionable(id, RefundStatus.APPROVED);
+    return this.save(approveRefund(refund, adminId), correlationId);
+  }
+
+  /**
+   * Admin: record the UPI payout (APPROVED → PROCESSED)
+   */
+  async markProcessed(
+    id: string,
+    adminId: string,
+    upiReference: string,
+    correlationId: string,
+  ): Promise<Refund> {
+    const refund = await this.getTransitionable(id, RefundStatus.PROCESSED);
+    const processed = await this.save(
+      markRefundProcessed(refund, { processedBy: adminId, upiReference }),
+      correlationId,
+    );
+
+    const { intent, collected } = await this.getCollectedPayment(processed.orderId);
+    const refunds = await this.refundRepository.findByOrderId(processed.orderId);
+    if (isFullyRefunded(collected, refunds)) {
+      await this.paymentIntentRepository.update(intent.id, {
+        status: PaymentIntentStatus.REFUNDED,
+      });
+    }
+    return processed;
+  }
+
+  /**
+   * Admin: refund an ONLINE payment through the gateway (APPROVED → PROCESSED,
+   * or FAILED when the gateway declines). The gateway refund ID is recorded as
+   * the payout reference.
+   * @throws RefundNotAllowedException if the payment was not captured by the gateway
+   */
+  async refundThroughGateway(id: string, adminId: string, correlationId: string): Promise<Refund> {
+    const refund = await this.getTransitionable(id, RefundStatus.PROCESSED);
+    const intent = await this.paymentIntentRepository.findById(refund.paymentIntentId);
+    if (!intent || intent.method !== PaymentMethod.ONLINE || !intent.referenceId) {
+      throw new RefundNotAllowedException(
+        refund.orderId,
+        'the payment was not made through the payment gateway',
+      );
+    }
+
+    const result = await this.paymentGateway.refund(intent.referenceId, refund.amount, refund.id);
+    if (result.status === 'PROCESSED') {
+      return this.markProcessed(id, adminId, result.gatewayRefundId, correlationId);
+    }
+    return this.markFailed(id, adminId, result.failureReason, correlationId);
+  }
+
+  /**
+   * Admin: record a failed payout (APPROVED → FAILED). The amount becomes refundable again.
+   */
+  async markFailed(
+    id: string,
+    adminId: string,
+    failureReason: string,
+    correlationId: string,
+  ): Promise<Refund> {
+    const refund = await this.getTransitionable(id, RefundStatus.FAILED);
+    return this.save(
+      markRefundFailed(refund, { processedBy: adminId, failureReason }),
+      correlationId,
+    );
+  }
+
+  // ==========================================================================
+  // Private Helpers
+  // ==========================================================================
+
+  /**
+   * @throws RefundNotFoundException
+   * @throws RefundInvalidStateException
+   */
+  private async getTransitionable(id: string, target: RefundStatus): Promise<Refund> {
+    const refund = await this.refundRepository.findById(id);
+    if (!refund) {
+      throw new RefundNotFoundException(id);
+    }
+    if (!canTransitionRefund(refund.status, target)) {
+      throw new RefundInvalidStateException(id, refund.status, target);
+    }
+    return refund;
+  }
+
+  private async save(refund: Refund, correlationId: string): Promise<Refund> {
+    const order = await this.orderRepository.findById(refund.orderId);
+    const saved = await this.refundRepository.update(refund, [
+      createRefundEvent(refund, order?.userId ?? SYSTEM_ACTOR, correlationId),
+    ]);
+    logWithCorrelation(
+      'INFO',
+      correlationId,
+      `Refund ${saved.status.toLowerCase()}`,
+      'RefundService',
+      {
+        orderId: saved.orderId,
+        refundId: saved.id,
+        status: saved.status,
+      },
+    );
+    return saved;
+  }
+
+  /**
+   * The order's collected payment
+   * @throws OrderNotFoundException
+   * @throws RefundNotAllowedException if nothing has been collected
+   */
+  private async getCollectedPayment(
+    orderId: string,
+  ): Promise<{ userId: string; intent: PaymentIntent; collected: Money }> {
+    const order = await this.orderRepository.findById(orderId);
+    if (!order) {
+      throw new OrderNotFoundException(orderId);
+    }
+
+    const intent = await this.paymentIntentRepository.findByOrderId(orderId);
+    if (!intent || !this.isCollected(intent, order.status)) {
+      throw new RefundNotAllowedException(orderId, 'no payment has been collected');
+    }
+
+    return {
+      userId: order.userId,
+      intent,
+      collected: Money.fromMajorUnits(order.total.amount, order.total.currency),
+    };
+  }
+
+  private isCollected(intent: PaymentIntent, orderStatus: OrderStatus): boolean {
+    if (intent.status === PaymentIntentStatus.REFUNDED) {
+      return true;
+    }
+    if (intent.status !== PaymentIntentStatus.VERIFIED) {
+      return false;
+    }
+    return intent.method !== PaymentMethod.COD || orderStatus === OrderStatus.DELIVERED;
+  }
+}
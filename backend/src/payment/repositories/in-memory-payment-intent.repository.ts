@@ -4,13 +4,25 @@ import type { PaymentIntent } from '../domain/payment-intent.entity';
 import type { CreatePaymentIntentData, UpdatePaymentIntentData } from '../domain/payment-intent.entity';
 import { PaymentIntentStatus } from '../domain/payment-intent-status';
 import type { IPaymentIntentRepository } from './payment-intent-repository.interface';
+import { PaymentIntentAlreadyExistsException } from '../exceptions/payment-intent.exceptions';
+import { IOutboxRepository } from '../../events/repositories/outbox-repository.interface';
+import { DomainEvent, createOutboxMessage } from '../../events/domain';
 
 @Injectable()
 export class InMemoryPaymentIntentRepository implements IPaymentIntentRepository {
   private readonly intents = new Map<string, PaymentIntent>();
 
-  async create(data: CreatePaymentIntentData): Promise<PaymentIntent> {
-    const id = randomUUID();
+  constructor(private readonly outboxRepository?: IOutboxRepository) {}
+
+  async create(
+    data: CreatePaymentIntentData,
+    events: readonly DomainEvent[] = [],
+  ): Promise<PaymentIntent> {
+    const current = this.latestForOrder(data.orderId);
+    if (current && current.status !== PaymentIntentStatus.REJECTED) {
+      throw new PaymentIntentAlreadyExistsException(data.orderId);
+    }
+    const id = data.id ?? randomUUID();
     const intent: PaymentIntent = {
       id,
       orderId: data.orderId,
@@ -18,10 +30,19 @@ export class InMemoryPaymentIntentRepository implements IPaymentIntentRepository
       status: data.status,
       referenceId: data.referenceId ?? null,
       proofReference: data.proofReference ?? null,
+      gatewayOrderId: data.gatewayOrderId ?? null,
+      rejectionReason: null,
       createdAt: new Date(),
       verifiedAt: data.status === PaymentIntentStatus.VERIFIED ? new Date() : null,
     };
+    // Set before awaiting so a concurrent create sees this attempt
     this.intents.set(id, intent);
+    try {
+      await this.addToOutbox(events);
+    } catch (error) {
+      this.intents.delete(id);
+      throw error;
+    }
     return intent;
   }
 
@@ -30,13 +51,33 @@ export class InMemoryPaymentIntentRepository implements IPaymentIntentRepository
   }
 
   async findByOrderId(orderId: string): Promise<PaymentIntent | null> {
+    return this.latestForOrder(orderId);
+  }
+
+  async findAllByOrderId(orderId: string): Promise<PaymentIntent[]> {
+    // Map preserves insertion order, so this is oldest first
+    return Array.from(this.intents.values()).filter((i) => i.orderId === orderId);
+  }
+
+  async findByGatewayOrderId(gatewayOrderId: string): Promise<PaymentIntent | null> {
     for (const intent of this.intents.values()) {
-      if (intent.orderId === orderId) return intent;
+      if (intent.gatewayOrderId === gatewayOrderId) return intent;
     }
     return null;
   }
 
-  async update(id: string, data: UpdatePaymentIntentData): Promise<PaymentIntent | null> {
+  async findUpiByReferenceIds(referenceIds: string[]): Promise<PaymentIntent[]> {
+    const wanted = new Set(referenceIds);
+    return Array.from(this.intents.values()).filter(
+      (i) => i.method === 'UPI' && i.referenceId !== null && wanted.has(i.referenceId),
+    );
+  }
+
+  async update(
+    id: string,
+    data: UpdatePaymentIntentData,
+    events: readonly DomainEvent[] = [],
+  ): Promise<PaymentIntent | null> {
     const existing = this.intents.get(id);
     if (!existing) return null;
     const updated: PaymentIntent = {
@@ -45,7 +86,10 @@ export class InMemoryPaymentIntentRepository implements IPaymentIntentRepository
       referenceId: data.referenceId !== undefined ? data.referenceId : existing.referenceId,
       proofReference: data.proofReference !== undefined ? data.proofReference : existing.proofReference,
       verifiedAt: data.verifiedAt !== undefined ? data.verifiedAt : existing.verifiedAt,
+      rejectionReason:
+        data.rejectionReason !== undefined ? data.rejectionReason : existing.rejectionReason,
     };
+    await this.addToOutbox(events);
     this.intents.set(id, updated);
     return updated;
   }
@@ -55,4 +99,17 @@ export class InMemoryPaymentIntentRepository implements IPaymentIntentRepository
       .filter((i) => i.status === PaymentIntentStatus.SUBMITTED && i.method === 'UPI')
       .sort((a, b) => a.createdAt.getTime() - b.createdAt.getTime());
   }
+
+  private async addToOutbox(events: readonly DomainEvent[]): Promise<void> {
+    if (this.outboxRepository && events.length) {
+      const now = new Date();
+      await this.outboxRepository.add(events.map((event) => createOutboxMessage(event, now)));
+    }
+  }
+
+  private latestForOrder(orderId: string): PaymentIntent | null {
+    // Map preserves insertion order, so the last match is the latest
+    const intents = Array.from(this.intents.values()).filter((i) => i.orderId === orderId);
+    return intents[intents.length - 1] ?? null;
+  }
 }
@@ -0,0 +1,29 @@
+import { Injectable } from '@nestjs/common';
+import { PaymentReminder } from '../domain/payment-reminder.entity';
+import type { IPaymentReminderRepository } from './payment-reminder-repository.interface';
+import { IOutboxRepository } from '../../events/repositories/outbox-repository.interface';
+import { DomainEvent, createOutboxMessage } from '../../events/domain';
+
+@Injectable()
+export class InMemoryPaymentReminderRepository implements IPaymentReminderRepository {
+  private readonly reminders = new Map<string, PaymentReminder>();
+
+  constructor(private readonly outboxRepository?: IOutboxRepository) {}
+
+  async record(reminder: PaymentReminder, events: readonly DomainEvent[]): Promise<boolean> {
+    if (this.reminders.has(reminder.orderId)) {
+      return false;
+    }
+    if (this.outboxRepository && events.length) {
+      await this.outboxRepository.add(
+        events.map((event) => createOutboxMessage(event, reminder.sentAt)),
+      );
+    }
+    this.reminders.set(reminder.orderId, reminder);
+    return true;
+  }
+
+  clear(): void {
+    this.reminders.clear();
+  }
+}
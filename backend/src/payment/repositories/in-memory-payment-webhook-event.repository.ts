@@ -0,0 +1,29 @@
+import { Injectable } from '@nestjs/common';
+import { PaymentWebhookEvent } from '../domain/payment-webhook-event.entity';
+import type { IPaymentWebhookEventRepository } from './payment-webhook-event-repository.interface';
+
+@Injectable()
+export class InMemoryPaymentWebhookEventRepository implements IPaymentWebhookEventRepository {
+  private readonly events = new Map<string, PaymentWebhookEvent>();
+
+  async exists(provider: string, eventId: string): Promise<boolean> {
+    return this.events.has(this.key(provider, eventId));
+  }
+
+  async record(event: PaymentWebhookEvent): Promise<boolean> {
+    const key = this.key(event.provider, event.eventId);
+    if (this.events.has(key)) {
+      return false;
+    }
+    this.events.set(key, event);
+    return true;
+  }
+
+  clear(): void {
+    this.events.clear();
+  }
+
+  private key(provider: string, eventId: string): string {
+    return `${provider}:${eventId}`;
+  }
+}
@@ -0,0 +1,55 @@
+import { Injectable } from '@nestjs/common';
+import { Refund, RefundStatus } from '../domain/refund.entity';
+import { RefundNotFoundException } from '../exceptions/refund.exceptions';
+import type { IRefundRepository } from './refund-repository.interface';
+import { IOutboxRepository } from '../../events/repositories/outbox-repository.interface';
+import { DomainEvent, createOutboxMessage } from '../../events/domain';
+
+@Injectable()
+export class InMemoryRefundRepository implements IRefundRepository {
+  private readonly refunds = new Map<string, Refund>();
+
+  constructor(private readonly outboxRepository?: IOutboxRepository) {}
+
+  async create(refund: Refund, events: readonly DomainEvent[] = []): Promise<Refund> {
+    await this.addToOutbox(events);
+    this.refunds.set(refund.id, refund);
+    return refund;
+  }
+
+  async findById(id: string): Promise<Refund | null> {
+    return this.refunds.get(id) ?? null;
+  }
+
+  async findByOrderId(orderId: string): Promise<Refund[]> {
+    return this.sorted([...this.refunds.values()].filter((r) => r.orderId === orderId));
+  }
+
+  async findAll(status?: RefundStatus): Promise<Refund[]> {
+    return this.sorted([...this.refunds.values()].filter((r) => !status || r.status === status));
+  }
+
+  async update(refund: Refund, events: readonly DomainEvent[] = []): Promise<Refund> {
+    if (!this.refunds.has(refund.id)) {
+      throw new RefundNotFoundException(refund.id);
+    }
+    await this.addToOutbox(events);
+    this.refunds.set(refund.id, refund);
+    return refund;
+  }
+
+  clear(): void {
+    this.refunds.clear();
+  }
+
+  private async addToOutbox(events: readonly DomainEvent[]): Promise<void> {
+    if (this.outboxRepository && events.length) {
+      const now = new Date();
+      await this.outboxRepository.add(events.map((event) => createOutboxMessage(event, now)));
+    }
+  }
+
+  private sorted(refunds: Refund[]): Refund[] {
+    return refunds.sort((a, b) => a.createdAt.getTime() - b.createdAt.getTime());
+  }
+}
@@ -1,3 +1,12 @@
 export * from './payment-intent-repository.interface';
 export * from './in-memory-payment-intent.repository';
 export * from './prisma-payment-intent.repository';
+export * from './refund-repository.interface';
+export * from './in-memory-refund.repository';
+export * from './prisma-refund.repository';
+export * from './payment-webhook-event-repository.interface';
+export * from './in-memory-payment-webhook-event.repository';
+export * from './prisma-payment-webhook-event.repository';
+export * from './payment-reminder-repository.interface';
+export * from './in-memory-payment-reminder.repository';
+export * from './prisma-payment-reminder.repository';
@@ -1,18 +1,46 @@
+import { DomainEvent } from '../../events/domain';
 import { PaymentIntent } from '../domain/payment-intent.entity';
 import { CreatePaymentIntentData, UpdatePaymentIntentData } from '../domain/payment-intent.entity';
 import { PaymentIntentStatus } from '../domain/payment-intent-status';
 
 /**
  * Payment intent repository interface (Phase 6)
+ *
+ * Writes take the domain events raised by the change and write them to the
+ * outbox in the same transaction, so an intent never changes without its event.
  */
 export interface IPaymentIntentRepository {
-  create(data: CreatePaymentIntentData): Promise<PaymentIntent>;
+  /**
+   * Add the order's next intent. Checked and written atomically, so concurrent
+   * requests cannot leave an order with two active intents.
+   * @throws PaymentIntentAlreadyExistsException if the current intent is not REJECTED
+   */
+  create(data: CreatePaymentIntentData, events?: readonly DomainEvent[]): Promise<PaymentIntent>;
 
   findById(id: string): Promise<PaymentIntent | null>;
 
+  /**
+   * The order's current (latest) intent
+   */
   findByOrderId(orderId: string): Promise<PaymentIntent | null>;
 
-  update(id: string, data: UpdatePaymentIntentData): Promise<PaymentIntent | null>;
+  /**
+   * Every intent for the order, oldest first
+   */
+  findAllByOrderId(orderId: string): Promise<PaymentIntent[]>;
+
+  findByGatewayOrderId(gatewayOrderId: string): Promise<PaymentIntent | null>;
+
+  /**
+   * Every UPI intent, in any status, whose referenceId is one of the given references
+   */
+  findUpiByReferenceIds(referenceIds: string[]): Promise<PaymentIntent[]>;
+
+  update(
+    id: string,
+    data: UpdatePaymentIntentData,
+    events?: readonly DomainEvent[],
+  ): Promise<PaymentIntent | null>;
 
   findPending(): Promise<PaymentIntent[]>;
 }
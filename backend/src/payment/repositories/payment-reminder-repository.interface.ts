@@ -0,0 +1,18 @@
+import { DomainEvent } from '../../events/domain';
+import { PaymentReminder } from '../domain/payment-reminder.entity';
+
+/**
+ * Payment Reminder Repository Interface
+ *
+ * orderId is unique.
+ */
+export interface IPaymentReminderRepository {
+  /**
+   * Record a reminder, writing `events` (the reminder itself) to the outbox
+   * in the same transaction. Returns false, and writes nothing, if one was
+   * already recorded for the order (another run got there first).
+   */
+  record(reminder: PaymentReminder, events: readonly DomainEvent[]): Promise<boolean>;
+}
+
+export const PAYMENT_REMINDER_REPOSITORY = 'PAYMENT_REMINDER_REPOSITORY';
@@ -0,0 +1,18 @@
+import { PaymentWebhookEvent } from '../domain/payment-webhook-event.entity';
+
+/**
+ * Payment Webhook Event Repository Interface
+ *
+ * (provider, eventId) is unique.
+ */
+export interface IPaymentWebhookEventRepository {
+  exists(provider: string, eventId: string): Promise<boolean>;
+
+  /**
+   * Record a processed event. Returns false if it was already recorded
+   * (a concurrent delivery of the same event got there first).
+   */
+  record(event: PaymentWebhookEvent): Promise<boolean>;
+}
+
+export const PAYMENT_WEBHOOK_EVENT_REPOSITORY = 'PAYMENT_WEBHOOK_EVENT_REPOSITORY';
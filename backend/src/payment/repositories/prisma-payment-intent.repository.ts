@@ -5,26 +5,59 @@ import type { CreatePaymentIntentData, UpdatePaymentIntentData } from '../domain
 import { PaymentMethod } from '../domain/payment-method';
 import { PaymentIntentStatus } from '../domain/payment-intent-status';
 import type { IPaymentIntentRepository } from './payment-intent-repository.interface';
+import { PaymentIntentAlreadyExistsException } from '../exceptions/payment-intent.exceptions';
+import { DomainEvent, createOutboxMessage } from '../../events/domain';
+import { toOutboxRecord } from '../../events/repositories/prisma-outbox.repository';
 import {
+  Prisma,
   PaymentMethod as PrismaPaymentMethod,
   PaymentIntentStatus as PrismaPaymentIntentStatus,
   PaymentIntent as PrismaPaymentIntentRow,
 } from '@prisma/client';
 
+/** Advisory lock namespace for per-order intent creation; any constant works */
+const PAYMENT_INTENT_LOCK = 4_210_002;
+
+/**
+ * Prisma Payment Intent Repository
+ *
+ * Creating an intent takes a transaction-scoped advisory lock on the order,
+ * so the "current intent is REJECTED or absent" check and the insert cannot
+ * interleave with another request for the same order.
+ */
 @Injectable()
 export class PrismaPaymentIntentRepository implements IPaymentIntentRepository {
   constructor(private readonly prisma: PrismaService) {}
 
-  async create(data: CreatePaymentIntentData): Promise<PaymentIntent> {
-    const row = await this.prisma.paymentIntent.create({
-      data: {
-        orderId: data.orderId,
-        method: this.toPrismaMethod(data.method),
-        status: this.toPrismaStatus(data.status),
-        referenceId: data.referenceId ?? null,
-        proofReference: data.proofReference ?? null,
-        verifiedAt: data.status === PaymentIntentStatus.VERIFIED ? new Date() : null,
-      },
+  async create(
+    data: CreatePaymentIntentData,
+    events: readonly DomainEvent[] = [],
+  ): Promise<PaymentIntent> {
+    const row = await this.prisma.getClient().$transaction(async (tx) => {
+      await tx.$executeRaw`SELECT pg_advisory_xact_lock(${PAYMENT_INTENT_LOCK}::int, hashtext(${data.orderId}))`;
+
+      const current = await tx.paymentIntent.findFirst({
+        where: { orderId: data.orderId },
+        orderBy: { createdAt: 'desc' },
+      });
+      if (current && current.status !== PrismaPaymentIntentStatus.REJECTED) {
+        throw new PaymentIntentAlreadyExistsException(data.orderId);
+      }
+
+      const created = await tx.paymentIntent.create({
+        data: {
+          ...(data.id !== undefined && { id: data.id }),
+          orderId: data.orderId,
+          method: this.toPrismaMethod(data.method),
+          status: this.toPrismaStatus(data.status),
+          referenceId: data.referenceId ?? null,
+          proofReference: data.proofReference ?? null,
+          gatewayOrderId: data.gatewayOrderId ?? null,
+          verifiedAt: data.status === PaymentIntentStatus.VERIFIED ? new Date() : null,
+        },
+      });
+      await this.addToOutbox(tx, events);
+      return created;
     });
     return this.toDomain(row);
   }
@@ -35,19 +68,56 @@ export class PrismaPaymentIntentRepository implements IPaymentIntentRepository {
   }
 
   async findByOrderId(orderId: string): Promise<PaymentIntent | null> {
-    const row = await this.prisma.paymentIntent.findUnique({ where: { orderId } });
+    const row = await this.prisma.paymentIntent.findFirst({
+      where: { orderId },
+      orderBy: { createdAt: 'desc' },
+    });
+    return row ? this.toDomain(row) : null;
+  }
+
+  async findAllByOrderId(orderId: string): Promise<PaymentIntent[]> {
+    const rows = await this.prisma.paymentIntent.findMany({
+      where: { orderId },
+      orderBy: { createdAt: 'asc' },
+    });
+    return rows.map((row: PrismaPaymentIntentRow) => this.toDomain(row));
+  }
+
+  async findByGatewayOrderId(gatewayOrderId: string): Promise<PaymentIntent | null> {
+    const row = await this.prisma.paymentIntent.findUnique({ where: { gatewayOrderId } });
     return row ? this.toDomain(row) : null;
   }
 
-  async update(id: string, data: UpdatePaymentIntentData): Promise<PaymentIntent | null> {
-    const row = await this.prisma.paymentIntent.update({
-      where: { id },
-      data: {
-        ...(data.status !== undefined && { status: this.toPrismaStatus(data.status) }),
-        ...(data.referenceId !== undefined && { referenceId: data.referenceId }),
-        ...(data.proofReference !== undefined && { proofReference: data.proofReference }),
-        ...(data.verifiedAt !== undefined && { verifiedAt: data.verifiedAt }),
+  async findUpiByReferenceIds(referenceIds: string[]): Promise<PaymentIntent[]> {
+    if (referenceIds.length === 0) return [];
+    const rows = await this.prisma.paymentIntent.findMany({
+      where: {
+        method: PrismaPaymentMethod.UPI,
+        referenceId: { in: referenceIds },
       },
+      orderBy: { createdAt: 'asc' },
+    });
+    return rows.map((row: PrismaPaymentIntentRow) => this.toDomain(row));
+  }
+
+  async update(
+    id: string,
+    data: UpdatePaymentIntentData,
+    events: readonly DomainEvent[] = [],
+  ): Promise<PaymentIntent | null> {
+    const row = await this.prisma.getClient().$transaction(async (tx) => {
+      const updated = await tx.paymentIntent.update({
+        where: { id },
+        data: {
+          ...(data.status !== undefined && { status: this.toPrismaStatus(data.status) }),
+          ...(data.referenceId !== undefined && { referenceId: data.referenceId }),
+          ...(data.proofReference !== undefined && { proofReference: data.proofReference }),
+          ...(data.verifiedAt !== undefined && { verifiedAt: data.verifiedAt }),
+          ...(data.rejectionReason !== undefined && { rejectionReason: data.rejectionReason }),
+        },
+      });
+      await this.addToOutbox(tx, events);
+      return updated;
     });
     return this.toDomain(row);
   }
@@ -63,6 +133,18 @@ export class PrismaPaymentIntentRepository implements IPaymentIntentRepository {
     return rows.map((row: PrismaPaymentIntentRow) => this.toDomain(row));
   }
 
+  private async addToOutbox(
+    tx: Prisma.TransactionClient,
+    events: readonly DomainEvent[],
+  ): Promise<void> {
+    if (events.length) {
+      const now = new Date();
+      await tx.outboxMessage.createMany({
+        data: events.map((event) => toOutboxRecord(createOutboxMessage(event, now))),
+      });
+    }
+  }
+
   private toDomain(row: PrismaPaymentIntentRow): PaymentIntent {
     return {
       id: row.id,
@@ -71,6 +153,8 @@ export class PrismaPaymentIntentRepository implements IPaymentIntentRepository {
       status: row.status as PaymentIntentStatus,
       referenceId: row.referenceId,
       proofReference: row.proofReference,
+      gatewayOrderId: row.gatewayOrderId,
+      rejectionReason: row.rejectionReason,
       createdAt: row.createdAt,
       verifiedAt: row.verifiedAt,
     };
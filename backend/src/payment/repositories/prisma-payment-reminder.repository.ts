@@ -0,0 +1,47 @@
+import { Injectable } from '@nestjs/common';
+import { PrismaService } from '../../database/prisma.service';
+import { PaymentReminder } from '../domain/payment-reminder.entity';
+import { DomainEvent, createOutboxMessage } from '../../events/domain';
+import { toOutboxRecord } from '../../events/repositories/prisma-outbox.repository';
+import type { IPaymentReminderRepository } from './payment-reminder-repository.interface';
+
+@Injectable()
+export class PrismaPaymentReminderRepository implements IPaymentReminderRepository {
+  constructor(private readonly prisma: PrismaService) {}
+
+  async record(reminder: PaymentReminder, events: readonly DomainEvent[]): Promise<boolean> {
+    try {
+      await this.prisma.getClient().$transaction(async (tx) => {
+        await tx.paymentReminder.create({
+          data: {
+            orderId: reminder.orderId,
+            dueAt: reminder.dueAt,
+            sentAt: reminder.sentAt,
+          },
+        });
+        if (events.length) {
+          await tx.outboxMessage.createMany({
+            data: events.map((event) =>
+              toOutboxRecord(createOutboxMessage(event, reminder.sentAt)),
+            ),
+          });
+        }
+      });
+      return true;
+    } catch (error) {
+      if (this.hasErrorCode(error, 'P2002')) {
+        return false;
+      }
+      throw error;
+    }
+  }
+
+  private hasErrorCode(error: unknown, code: string): boolean {
+    return (
+      typeof error === 'object' &&
+      error !== null &&
+      'code' in error &&
+      (error as { code: string }).code === code
+    );
+  }
+}
@@ -0,0 +1,49 @@
+import { Injectable } from '@nestjs/common';
+import { PaymentIntentStatus as PrismaPaymentIntentStatus } from '@prisma/client';
+import { PrismaService } from '../../database/prisma.service';
+import { PaymentWebhookEvent } from '../domain/payment-webhook-event.entity';
+import type { IPaymentWebhookEventRepository } from './payment-webhook-event-repository.interface';
+
+@Injectable()
+export class PrismaPaymentWebhookEventRepository implements IPaymentWebhookEventRepository {
+  constructor(private readonly prisma: PrismaService) {}
+
+  async exists(provider: string, eventId: string): Promise<boolean> {
+    const row = await this.prisma.paymentWebhookEvent.findUnique({
+      where: { provider_eventId: { provider, eventId } },
+      select: { id: true },
+    });
+    return row !== null;
+  }
+
+  async record(event: PaymentWebhookEvent): Promise<boolean> {
+    try {
+      await this.prisma.paymentWebhookEvent.create({
+        data: {
+          provider: event.provider,
+          eventId: event.eventId,
+          eventType: event.eventType,
+          gatewayOrderId: event.gatewayOrderId,
+          paymentIntentId: event.paymentIntentId,
+          intentStatus: event.intentStatus as PrismaPaymentIntentStatus,
+          receivedAt: event.receivedAt,
+        },
+      });
+      return true;
+    } catch (error) {
+      if (this.hasErrorCode(error, 'P2002')) {
+        return false;
+      }
+      throw error;
+    }
+  }
+
+  private hasErrorCode(error: unknown, code: string): boolean {
+    return (
+      typeof error === 'object' &&
+      error !== null &&
+      'code' in error &&
+      (error as { code: string }).code === code
+    );
+  }
+}
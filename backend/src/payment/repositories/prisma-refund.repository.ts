@@ -0,0 +1,124 @@
+import { Injectable } from '@nestjs/common';
+import {
+  Prisma,
+  Refund as PrismaRefundRow,
+  RefundStatus as PrismaRefundStatus,
+} from '@prisma/client';
+import { PrismaService } from '../../database/prisma.service';
+import { Money } from '../../catalog/domain/money';
+import { Refund, RefundStatus } from '../domain/refund.entity';
+import { RefundNotFoundException } from '../exceptions/refund.exceptions';
+import type { IRefundRepository } from './refund-repository.interface';
+import { DomainEvent, createOutboxMessage } from '../../events/domain';
+import { toOutboxRecord } from '../../events/repositories/prisma-outbox.repository';
+
+@Injectable()
+export class PrismaRefundRepository implements IRefundRepository {
+  constructor(private readonly prisma: PrismaService) {}
+
+  async create(refund: Refund, events: readonly DomainEvent[] = []): Promise<Refund> {
+    const row = await this.prisma.getClient().$transaction(async (tx) => {
+      const created = await tx.refund.create({
+        data: {
+          id: refund.id,
+          orderId: refund.orderId,
+          paymentIntentId: refund.paymentIntentId,
+          amount: refund.amount.getAmountInMinorUnits(),
+          currency: refund.amount.getCurrency(),
+          reason: refund.reason,
+          status: refund.status as PrismaRefundStatus,
+          requestedBy: refund.requestedBy,
+          createdAt: refund.createdAt,
+        },
+      });
+      await this.addToOutbox(tx, events);
+      return created;
+    });
+    return this.toDomain(row);
+  }
+
+  async findById(id: string): Promise<Refund | null> {
+    const row = await this.prisma.refund.findUnique({ where: { id } });
+    return row ? this.toDomain(row) : null;
+  }
+
+  async findByOrderId(orderId: string): Promise<Refund[]> {
+    const rows = await this.prisma.refund.findMany({
+      where: { orderId },
+      orderBy: { createdAt: 'asc' },
+    });
+    return rows.map((row) => this.toDomain(row));
+  }
+
+  async findAll(status?: RefundStatus): Promise<Refund[]> {
+    const rows = await this.prisma.refund.findMany({
+      where: status ? { status: status as PrismaRefundStatus } : {},
+      orderBy: { createdAt: 'asc' },
+    });
+    return rows.map((row) => this.toDomain(row));
+  }
+
+  async update(refund: Refund, events: readonly DomainEvent[] = []): Promise<Refund> {
+    try {
+      const row = await this.prisma.getClient().$transaction(async (tx) => {
+        const updated = await tx.refund.update({
+          where: { id: refund.id },
+          data: {
+            status: refund.status as PrismaRefundStatus,
+            approvedBy: refund.approvedBy,
+            approvedAt: refund.approvedAt,
+            processedBy: refund.processedBy,
+            processedAt: refund.processedAt,
+            upiReference: refund.upiReference,
+            failureReason: refund.failureReason,
+          },
+        });
+        await this.addToOutbox(tx, events);
+        return updated;
+      });
+      return this.toDomain(row);
+    } catch (error) {
+      if (
+        typeof error === 'object' &&
+        error !== null &&
+        'code' in error &&
+        (error as { code: string }).code === 'P2025'
+      ) {
+        throw new RefundNotFoundException(refund.id);
+      }
+      throw error;
+    }
+  }
+
+  private async addToOutbox(
+    tx: Prisma.TransactionClient,
+    events: readonly DomainEvent[],
+  ): Promise<void> {
+    if (events.length) {
+      const now = new Date();
+      await tx.outboxMessage.createMany({
+        data: events.map((event) => toOutboxRecord(createOutboxMessage(event, now))),
+      });
+    }
+  }
+
+  private toDomain(row: PrismaRefundRow): Refund {
+    return {
+      id: row.id,
+      orderId: row.orderId,
+      paymentIntentId: row.paymentIntentId,
+      amount: Money.fromMinorUnits(row.amount, row.currency),
+      reason: row.reason,
+      status: row.status as RefundStatus,
+      requestedBy: row.requestedBy,
+      approvedBy: row.approvedBy,
+      approvedAt: row.approvedAt,
+      processedBy: row.processedBy,
+      processedAt: row.processedAt,
+      upiReference: row.upiReference,
+      failureReason: row.failureReason,
+      createdAt: row.createdAt,
+      updatedAt: row.updatedAt,
+    };
+  }
+}
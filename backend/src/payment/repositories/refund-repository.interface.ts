@@ -0,0 +1,27 @@
+import { DomainEvent } from '../../events/domain';
+import { Refund, RefundStatus } from '../domain/refund.entity';
+
+/**
+ * Refund repository interface
+ *
+ * Writes take the domain events raised by the change and write them to the
+ * outbox in the same transaction.
+ */
+export interface IRefundRepository {
+  create(refund: Refund, events?: readonly DomainEvent[]): Promise<Refund>;
+
+  findById(id: string): Promise<Refund | null>;
+
+  /** Oldest first */
+  findByOrderId(orderId: string): Promise<Refund[]>;
+
+  /** Oldest first; every refund when status is omitted */
+  findAll(status?: RefundStatus): Promise<Refund[]>;
+
+  /**
+   * @throws RefundNotFoundException if the refund does not exist
+   */
+  update(refund: Refund, events?: readonly DomainEvent[]): Promise<Refund>;
+}
+
+export const REFUND_REPOSITORY = 'REFUND_REPOSITORY';
@@ -0,0 +1,2 @@
+export { buildUpiPaymentLink, UpiPaymentLinkInput } from './upi-payment-link';
+export { renderUpiQrCode, UpiQrCodeFormat, UPI_QR_CODE_CONTENT_TYPES } from './upi-qr-code';
@@ -0,0 +1,40 @@
+import { buildUpiPaymentLink } from './upi-payment-link';
+import { renderUpiQrCode } from './upi-qr-code';
+import { Money } from '../../catalog/domain/money';
+
+describe('buildUpiPaymentLink', () => {
+  const input = {
+    vpa: 'pharmacy@upi',
+    payeeName: 'City Pharmacy & Co',
+    amount: Money.fromMajorUnits(249.5, 'INR'),
+    orderId: 'ord-123',
+  };
+
+  it('encodes payee, amount with two decimals, and the order ID', () => {
+    expect(buildUpiPaymentLink(input)).toBe(
+      'upi://pay?pa=pharmacy%40upi&pn=City%20Pharmacy%20%26%20Co&am=249.50&cu=INR&tn=Order%20ord-123&tr=ord-123',
+    );
+  });
+
+  it('rejects amounts not in INR', () => {
+    expect(() =>
+      buildUpiPaymentLink({ ...input, amount: Money.fromMajorUnits(10, 'USD') }),
+    ).toThrow('UPI payments must be in INR');
+  });
+});
+
+describe('renderUpiQrCode', () => {
+  it('renders SVG and PNG images', async () => {
+    const link = buildUpiPaymentLink({
+      vpa: 'pharmacy@upi',
+      payeeName: 'Pharmacy',
+      amount: Money.fromMajorUnits(100, 'INR'),
+      orderId: 'ord-1',
+    });
+
+    const svg = (await renderUpiQrCode(link, 'svg')).toString('utf8');
+    expect(svg).toContain('<svg');
+    const png = await renderUpiQrCode(link, 'png');
+    expect(png.subarray(0, 4)).toEqual(Buffer.from([0x89, 0x50, 0x4e, 0x47]));
+  });
+});
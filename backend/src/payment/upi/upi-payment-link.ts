@@ -0,0 +1,38 @@
+import { Money } from '../../catalog/domain/money';
+
+/**
+ * Input for a UPI payment link
+ */
+export interface UpiPaymentLinkInput {
+  vpa: string;
+  payeeName: string;
+  amount: Money;
+  /** Order being paid; sent as the transaction note and reference */
+  orderId: string;
+}
+
+/**
+ * Build a `upi://pay` deep link (NPCI UPI linking specification).
+ *
+ * Opening the link, or scanning it as a QR code, pre-fills the payee, the
+ * exact amount and the order ID in any UPI app, so the customer does not
+ * type them by hand. The order ID comes back in the app's transaction
+ * details, which is what the admin matches against on verification.
+ */
+export function buildUpiPaymentLink(input: UpiPaymentLinkInput): string {
+  if (input.amount.getCurrency() !== 'INR') {
+    throw new Error(`UPI payments must be in INR, got ${input.amount.getCurrency()}`);
+  }
+
+  const params: [string, string][] = [
+    ['pa', input.vpa],
+    ['pn', input.payeeName],
+    ['am', input.amount.getAmount().toFixed(2)],
+    ['cu', 'INR'],
+    ['tn', `Order ${input.orderId}`],
+    ['tr', input.orderId],
+  ];
+  // UPI apps expect %20 rather than '+' for spaces, so URLSearchParams is not used
+  const query = params.map(([key, value]) => `${key}=${encodeURIComponent(value)}`).join('&');
+  return `upi://pay?${query}`;
+}
@@ -0,0 +1,23 @@
+import * as QRCode from 'qrcode';
+
+export type UpiQrCodeFormat = 'png' | 'svg';
+
+/** Content type served for each QR code format */
+export const UPI_QR_CODE_CONTENT_TYPES: Record<UpiQrCodeFormat, string> = {
+  png: 'image/png',
+  svg: 'image/svg+xml',
+};
+
+/**
+ * Render a UPI deep link as a QR code.
+ *
+ * Error correction 'M' keeps the code small enough to scan from a phone
+ * screen held up to another phone's camera.
+ */
+export async function renderUpiQrCode(link: string, format: UpiQrCodeFormat): Promise<Buffer> {
+  if (format === 'svg') {
+    const svg = await QRCode.toString(link, { type: 'svg', errorCorrectionLevel: 'M', margin: 2 });
+    return Buffer.from(svg, 'utf8');
+  }
+  return QRCode.toBuffer(link, { type: 'png', errorCorrectionLevel: 'M', margin: 2, width: 320 });
+}
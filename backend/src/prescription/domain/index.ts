@@ -5,3 +5,12 @@ export {
   UpdatePrescriptionStatusData,
   createPrescription,
 } from './prescription.entity';
+export {
+  PrescriptionSubmittedEvent,
+  PrescriptionApprovedEvent,
+  PrescriptionRejectedEvent,
+  PrescriptionDomainEvent,
+  createPrescriptionSubmittedEvent,
+  createPrescriptionApprovedEvent,
+  createPrescriptionRejectedEvent,
+} from './prescription-events';
@@ -0,0 +1,98 @@
+import type { DomainEvent } from '../../events/domain/domain-event';
+
+/**
+ * Domain Events for Prescription Aggregate
+ *
+ * Emitted by the prescription use cases after the prescription is saved and
+ * delivered to handlers through the outbox.
+ */
+
+/**
+ * Prescription Submitted Event
+ *
+ * Emitted when a customer submits a prescription for pharmacist review.
+ */
+export interface PrescriptionSubmittedEvent extends DomainEvent {
+  readonly type: 'PRESCRIPTION_SUBMITTED';
+  readonly prescriptionId: string;
+  readonly userId: string;
+}
+
+/**
+ * Factory function to create a PrescriptionSubmitted event
+ */
+export function createPrescriptionSubmittedEvent(
+  data: { prescriptionId: string; userId: string },
+  correlationId?: string,
+): PrescriptionSubmittedEvent {
+  return {
+    type: 'PRESCRIPTION_SUBMITTED',
+    occurredAt: new Date(),
+    correlationId,
+    prescriptionId: data.prescriptionId,
+    userId: data.userId,
+  };
+}
+
+/**
+ * Prescription Approved Event
+ *
+ * Emitted when a pharmacist approves a pending prescription. Orders linked
+ * to it become eligible for fulfilment.
+ */
+export interface PrescriptionApprovedEvent extends DomainEvent {
+  readonly type: 'PRESCRIPTION_APPROVED';
+  readonly prescriptionId: string;
+  readonly userId: string;
+}
+
+/**
+ * Factory function to create a PrescriptionApproved event
+ */
+export function createPrescriptionApprovedEvent(
+  data: { prescriptionId: string; userId: string },
+  correlationId?: string,
+): PrescriptionApprovedEvent {
+  return {
+    type: 'PRESCRIPTION_APPROVED',
+    occurredAt: new Date(),
+    correlationId,
+    prescriptionId: data.prescriptionId,
+    userId: data.userId,
+  };
+}
+
+/**
+ * Prescription Rejected Event
+ *
+ * Emitted when a pharmacist rejects a pending prescription.
+ */
+export interface PrescriptionRejectedEvent extends DomainEvent {
+  readonly type: 'PRESCRIPTION_REJECTED';
+  readonly prescriptionId: string;
+  readonly userId: string;
+  readonly rejectionReason: string | null;
+}
+
+/**
+ * Factory function to create a PrescriptionRejected event
+ */
+export function createPrescriptionRejectedEvent(
+  data: { prescriptionId: string; userId: string; rejectionReason: string | null },
+  correlationId?: string,
+): PrescriptionRejectedEvent {
+  return {
+    type: 'PRESCRIPTION_REJECTED',
+    occurredAt: new Date(),
+    correlationId,
+    prescriptionId: data.prescriptionId,
+    userId: data.userId,
+    rejectionReason: data.rejectionReason,
+  };
+}
+
+/**
+ * Every event raised by the prescription aggregate
+ */
+export type PrescriptionDomainEvent =
+  PrescriptionSubmittedEvent | PrescriptionApprovedEvent | PrescriptionRejectedEvent;
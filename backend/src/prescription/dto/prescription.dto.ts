@@ -12,6 +12,7 @@ export interface PrescriptionDto {
 }
 
 export class SubmitPrescriptionDto {
+  /** Id of the prescription image uploaded via POST /files (purpose PRESCRIPTION) */
   @IsString()
   @IsNotEmpty()
   @Length(1, 500)
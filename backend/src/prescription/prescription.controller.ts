@@ -14,6 +14,7 @@ import { RolesGuard } from '../auth/guards/roles.guard';
 import { Roles } from '../auth/decorators/roles.decorator';
 import { CurrentUser } from '../auth/decorators/current-user.decorator';
 import { UserRole } from '../auth/interfaces/auth-user.interface';
+import { Audited } from '../audit/decorators/audited.decorator';
 import { PrescriptionDto, RejectPrescriptionDto, SubmitPrescriptionDto } from './dto';
 import { SubmitPrescriptionUseCase } from './use-cases/submit-prescription.use-case';
 import { GetMyPrescriptionsUseCase } from './use-cases/get-my-prescriptions.use-case';
@@ -85,6 +86,7 @@ export class PrescriptionAdminController {
    * POST /api/v1/admin/prescriptions/:id/approve
    */
   @Post(':id/approve')
+  @Audited('prescription', 'approve')
   async approve(@Param('id') id: string): Promise<ApiResponse<PrescriptionDto>> {
     const prescription = await this.reviewPrescriptionUseCase.execute(id, 'APPROVE');
     return ApiResponse.success(prescription, 'Prescription approved successfully');
@@ -95,6 +97,7 @@ export class PrescriptionAdminController {
    * POST /api/v1/admin/prescriptions/:id/reject
    */
   @Post(':id/reject')
+  @Audited('prescription', 'reject')
   async reject(
     @Param('id') id: string,
     @Body() dto: RejectPrescriptionDto,
@@ -1,5 +1,6 @@
 import { Module } from '@nestjs/common';
 import { AuthModule } from '../auth/auth.module';
+import { FileModule } from '../files/file.module';
 import { PrescriptionAdminController, PrescriptionController } from './prescription.controller';
 import { PrescriptionRepositoryProvider } from '../database/repository.providers';
 import { SubmitPrescriptionUseCase } from './use-cases/submit-prescription.use-case';
@@ -20,7 +21,7 @@ import { PRESCRIPTION_REPOSITORY } from './repositories/prescription-repository.
  * does not directly access other module's data.
  */
 @Module({
-  imports: [AuthModule],
+  imports: [AuthModule, FileModule],
   controllers: [PrescriptionController, PrescriptionAdminController],
   providers: [
     PrescriptionRepositoryProvider,
@@ -5,38 +5,77 @@ import { GetPendingPrescriptionsUseCase } from './get-pending-prescriptions.use-
 import { ReviewPrescriptionUseCase } from './review-prescription.use-case';
 import { PrescriptionStatus } from '../domain';
 import { InvalidPrescriptionStatusException } from '../exceptions';
+import { FileService } from '../../files/file.service';
+import { FilePurpose } from '../../files/domain';
+import { InMemoryStoredFileRepository } from '../../files/repositories/in-memory-stored-file.repository';
+import { InMemoryFileStorage } from '../../files/storage/in-memory-file.storage';
+import { FileAccessDeniedException, FileNotFoundException } from '../../files/exceptions';
+import { EventBus } from '../../events/event-bus';
+import { OutboxStatus } from '../../events/domain';
+import { InMemoryOutboxRepository } from '../../events/repositories/in-memory-outbox.repository';
 
 describe('Prescription Use Cases', () => {
   let repository: InMemoryPrescriptionRepository;
+  let fileService: FileService;
   let submitUseCase: SubmitPrescriptionUseCase;
   let getMyUseCase: GetMyPrescriptionsUseCase;
   let getPendingUseCase: GetPendingPrescriptionsUseCase;
   let reviewUseCase: ReviewPrescriptionUseCase;
+  let outbox: InMemoryOutboxRepository;
 
   beforeEach(() => {
     repository = new InMemoryPrescriptionRepository();
-    submitUseCase = new SubmitPrescriptionUseCase(repository);
+    fileService = new FileService(new InMemoryStoredFileRepository(), new InMemoryFileStorage());
+    outbox = new InMemoryOutboxRepository();
+    const eventBus = new EventBus(outbox);
+    submitUseCase = new SubmitPrescriptionUseCase(repository, fileService, eventBus);
     getMyUseCase = new GetMyPrescriptionsUseCase(repository);
     getPendingUseCase = new GetPendingPrescriptionsUseCase(repository);
-    reviewUseCase = new ReviewPrescriptionUseCase(repository);
+    reviewUseCase = new ReviewPrescriptionUseCase(repository, eventBus);
   });
 
   afterEach(() => {
     repository.clear();
+    outbox.clear();
   });
 
-  it('creates a pending prescription for user', async () => {
-    const result = await submitUseCase.execute('user-1', {
-      fileReference: 'ref://example',
+  async function publishedEvents() {
+    const pending = await outbox.findByStatus(OutboxStatus.PENDING, 10);
+    return pending.map((message) => ({ type: message.eventType, ...message.payload }));
+  }
+
+  async function submit(userId: string) {
+    const jpeg = Buffer.from([0xff, 0xd8, 0xff, 0xe0, 0x00]);
+    const file = await fileService.upload(userId, FilePurpose.PRESCRIPTION, {
+      originalname: 'rx.jpg',
+      mimetype: 'image/jpeg',
+      size: jpeg.length,
+      buffer: jpeg,
     });
+    return submitUseCase.execute(userId, { fileReference: file.id });
+  }
+
+  it('creates a pending prescription for user', async () => {
+    const result = await submit('user-1');
 
     expect(result.userId).toBe('user-1');
     expect(result.status).toBe(PrescriptionStatus.PENDING);
   });
 
+  it('rejects file references that were not uploaded by the user', async () => {
+    await expect(
+      submitUseCase.execute('user-1', { fileReference: 'ref://example' }),
+    ).rejects.toThrow(FileNotFoundException);
+
+    const other = await submit('user-2');
+    await expect(
+      submitUseCase.execute('user-1', { fileReference: other.fileReference }),
+    ).rejects.toThrow(FileAccessDeniedException);
+  });
+
   it('returns prescriptions for authenticated user only', async () => {
-    await submitUseCase.execute('user-1', { fileReference: 'ref://a' });
-    await submitUseCase.execute('user-2', { fileReference: 'ref://b' });
+    await submit('user-1');
+    await submit('user-2');
 
     const mine = await getMyUseCase.execute('user-1');
     expect(mine).toHaveLength(1);
@@ -44,8 +83,8 @@ describe('Prescription Use Cases', () => {
   });
 
   it('returns pending prescriptions for admin review', async () => {
-    await submitUseCase.execute('user-1', { fileReference: 'ref://a' });
-    await submitUseCase.execute('user-2', { fileReference: 'ref://b' });
+    await submit('user-1');
+    await submit('user-2');
 
     const pending = await getPendingUseCase.execute();
     expect(pending).toHaveLength(2);
@@ -53,7 +92,7 @@ describe('Prescription Use Cases', () => {
   });
 
   it('allows admin to approve a pending prescription', async () => {
-    const created = await submitUseCase.execute('user-1', { fileReference: 'ref://a' });
+    const created = await submit('user-1');
 
     const reviewed = await reviewUseCase.execute(created.id, 'APPROVE');
     expect(reviewed.status).toBe(PrescriptionStatus.APPROVED);
@@ -61,15 +100,41 @@ describe('Prescription Use Cases', () => {
   });
 
   it('allows admin to reject a pending prescription', async () => {
-    const created = await submitUseCase.execute('user-1', { fileReference: 'ref://a' });
+    const created = await submit('user-1');
 
     const reviewed = await reviewUseCase.execute(created.id, 'REJECT', 'Unreadable');
     expect(reviewed.status).toBe(PrescriptionStatus.REJECTED);
     expect(reviewed.rejectionReason).toBe('Unreadable');
   });
 
+  it('publishes an event for each submission and review decision', async () => {
+    const approved = await submit('user-1');
+    const rejected = await submit('user-2');
+    await reviewUseCase.execute(approved.id, 'APPROVE');
+    await reviewUseCase.execute(rejected.id, 'REJECT', 'Unreadable');
+
+    expect(await publishedEvents()).toEqual(
+      expect.arrayContaining([
+        expect.objectContaining({ type: 'PRESCRIPTION_SUBMITTED', prescriptionId: approved.id }),
+        expect.objectContaining({ type: 'PRESCRIPTION_SUBMITTED', prescriptionId: rejected.id }),
+        expect.objectContaining({
+          type: 'PRESCRIPTION_APPROVED',
+          prescriptionId: approved.id,
+          userId: 'user-1',
+        }),
+        expect.objectContaining({
+          type: 'PRESCRIPTION_REJECTED',
+          prescriptionId: rejected.id,
+          userId: 'user-2',
+          rejectionReason: 'Unreadable',
+        }),
+      ]),
+    );
+    expect(await publishedEvents()).toHaveLength(4);
+  });
+
   it('prevents invalid transitions once reviewed', async () => {
-    const created = await submitUseCase.execute('user-1', { fileReference: 'ref://a' });
+    const created = await submit('user-1');
     await reviewUseCase.execute(created.id, 'APPROVE');
 
     await expect(reviewUseCase.execute(created.id, 'REJECT')).rejects.toThrow(
@@ -1,21 +1,28 @@
 import { Inject, Injectable } from '@nestjs/common';
 import { PRESCRIPTION_REPOSITORY, IPrescriptionRepository } from '../repositories';
 import { PrescriptionDto, toPrescriptionDto } from '../dto';
-import { PrescriptionStatus } from '../domain';
+import {
+  PrescriptionStatus,
+  createPrescriptionApprovedEvent,
+  createPrescriptionRejectedEvent,
+} from '../domain';
 import { InvalidPrescriptionStatusException, PrescriptionNotFoundException } from '../exceptions';
+import { EventBus } from '../../events/event-bus';
 
 export type ReviewDecision = 'APPROVE' | 'REJECT';
 
 /**
  * ReviewPrescriptionUseCase
  *
- * Approves or rejects a pending prescription.
+ * Approves or rejects a pending prescription and publishes
+ * PrescriptionApproved or PrescriptionRejected.
  */
 @Injectable()
 export class ReviewPrescriptionUseCase {
   constructor(
     @Inject(PRESCRIPTION_REPOSITORY)
     private readonly prescriptionRepository: IPrescriptionRepository,
+    private readonly eventBus: EventBus,
   ) {}
 
   async execute(
@@ -47,6 +54,16 @@ export class ReviewPrescriptionUseCase {
       throw new PrescriptionNotFoundException(prescriptionId);
     }
 
+    await this.eventBus.publish([
+      decision === 'APPROVE'
+        ? createPrescriptionApprovedEvent({ prescriptionId, userId: updated.userId })
+        : createPrescriptionRejectedEvent({
+            prescriptionId,
+            userId: updated.userId,
+            rejectionReason: updated.rejectionReason,
+          }),
+    ]);
+
     return toPrescriptionDto(updated);
   }
 }
@@ -1,24 +1,37 @@
 import { Inject, Injectable } from '@nestjs/common';
 import { PRESCRIPTION_REPOSITORY, IPrescriptionRepository } from '../repositories';
 import { PrescriptionDto, SubmitPrescriptionDto, toPrescriptionDto } from '../dto';
+import { FileService } from '../../files/file.service';
+import { FilePurpose } from '../../files/domain';
+import { EventBus } from '../../events/event-bus';
+import { createPrescriptionSubmittedEvent } from '../domain';
 
 /**
  * SubmitPrescriptionUseCase
  *
  * Creates a new prescription in PENDING status for authenticated user.
+ * The fileReference must be a PRESCRIPTION file the user uploaded via /files.
+ * Publishes PrescriptionSubmitted.
  */
 @Injectable()
 export class SubmitPrescriptionUseCase {
   constructor(
     @Inject(PRESCRIPTION_REPOSITORY)
     private readonly prescriptionRepository: IPrescriptionRepository,
+    private readonly fileService: FileService,
+    private readonly eventBus: EventBus,
   ) {}
 
   async execute(userId: string, dto: SubmitPrescriptionDto): Promise<PrescriptionDto> {
+    await this.fileService.getAttachableFile(dto.fileReference, userId, FilePurpose.PRESCRIPTION);
+
     const prescription = await this.prescriptionRepository.save({
       userId,
       fileReference: dto.fileReference,
     });
+    await this.eventBus.publish([
+      createPrescriptionSubmittedEvent({ prescriptionId: prescription.id, userId }),
+    ]);
     return toPrescriptionDto(prescription);
   }
 }
@@ -0,0 +1,50 @@
+/**
+ * Clock
+ *
+ * Source of the current time for scheduled jobs. Injected through CLOCK so
+ * tests can move time forward instead of waiting for it.
+ */
+export interface Clock {
+  now(): Date;
+}
+
+/**
+ * Injection token for the clock
+ */
+export const CLOCK = 'CLOCK';
+
+/**
+ * Wall-clock time; the default outside tests
+ */
+export class SystemClock implements Clock {
+  now(): Date {
+    return new Date();
+  }
+}
+
+/**
+ * Clock that only moves when told to
+ */
+export class ManualClock implements Clock {
+  private current: Date;
+
+  constructor(start: Date = new Date()) {
+    this.current = new Date(start.getTime());
+  }
+
+  now(): Date {
+    return new Date(this.current.getTime());
+  }
+
+  set(time: Date): void {
+    this.current = new Date(time.getTime());
+  }
+
+  /**
+   * Move forward by ms; returns the new time
+   */
+  advance(ms: number): Date {
+    this.current = new Date(this.current.getTime() + ms);
+    return this.now();
+  }
+}
@@ -0,0 +1 @@
+export { JobRunDto, ScheduledJobDto, toJobRunDto, toScheduledJobDto } from './scheduled-job.dto';
@@ -0,0 +1,41 @@
+import type { JobInfo, JobRun } from '../job-scheduler';
+
+/**
+ * Job run as shown to admins
+ */
+export interface JobRunDto {
+  job: string;
+  status: JobRun['status'];
+  startedAt: string;
+  finishedAt: string;
+  result: unknown;
+  error: string | null;
+}
+
+/**
+ * Scheduled job as shown to admins
+ */
+export interface ScheduledJobDto {
+  name: string;
+  intervalMs: number;
+  lastRun: JobRunDto | null;
+}
+
+export function toJobRunDto(run: JobRun): JobRunDto {
+  return {
+    job: run.job,
+    status: run.status,
+    startedAt: run.startedAt.toISOString(),
+    finishedAt: run.finishedAt.toISOString(),
+    result: run.result ?? null,
+    error: run.error ?? null,
+  };
+}
+
+export function toScheduledJobDto(job: JobInfo): ScheduledJobDto {
+  return {
+    name: job.name,
+    intervalMs: job.intervalMs,
+    lastRun: job.lastRun ? toJobRunDto(job.lastRun) : null,
+  };
+}
@@ -0,0 +1 @@
+export { ScheduledJobNotFoundException } from './scheduler.exceptions';
@@ -0,0 +1,10 @@
+import { HttpStatus } from '@nestjs/common';
+import { BusinessException } from '../../common/exceptions/business.exception';
+
+export class ScheduledJobNotFoundException extends BusinessException {
+  constructor(name: string) {
+    super('SCHEDULED_JOB_NOT_FOUND', `Scheduled job '${name}' not found`, HttpStatus.NOT_FOUND, {
+      name,
+    });
+  }
+}
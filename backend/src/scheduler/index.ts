@@ -0,0 +1,17 @@
+/**
+ * Scheduler Module Public API
+ */
+
+// Module
+export { SchedulerModule } from './scheduler.module';
+
+// Scheduler and clock
+export { JobScheduler, JobInfo, JobRun } from './job-scheduler';
+export { ScheduledJob } from './scheduled-job.interface';
+export { CLOCK, Clock, ManualClock, SystemClock } from './clock';
+
+// DTOs
+export { JobRunDto, ScheduledJobDto } from './dto';
+
+// Exceptions
+export { ScheduledJobNotFoundException } from './exceptions';
@@ -0,0 +1,107 @@
+import { JobScheduler } from './job-scheduler';
+import { ManualClock } from './clock';
+import { ScheduledJob } from './scheduled-job.interface';
+import { ScheduledJobNotFoundException } from './exceptions';
+
+/**
+ * JobScheduler tests
+ *
+ * Verifies:
+ * - Jobs run as of the injected clock's time
+ * - Failures are recorded as the last run, not thrown
+ * - A job never overlaps with itself
+ * - Timers start on bootstrap only for jobs with an interval
+ */
+describe('JobScheduler', () => {
+  const start = new Date('2026-03-01T09:00:00Z');
+  let clock: ManualClock;
+  let scheduler: JobScheduler;
+
+  function recordingJob(
+    name: string,
+    intervalMs = 0,
+    work: (now: Date) => Promise<unknown> = async () => ({ done: true }),
+  ): ScheduledJob & { runs: Date[] } {
+    const runs: Date[] = [];
+    return {
+      name,
+      intervalMs,
+      runs,
+      async run(now) {
+        runs.push(now);
+        return work(now);
+      },
+    };
+  }
+
+  beforeEach(() => {
+    clock = new ManualClock(start);
+    scheduler = new JobScheduler(clock);
+  });
+
+  afterEach(() => {
+    scheduler.onModuleDestroy();
+    jest.useRealTimers();
+  });
+
+  it('runs a job as of the clock time and keeps the result as its last run', async () => {
+    const job = recordingJob('cleanup');
+    scheduler.register(job);
+
+    clock.advance(60_000);
+    const run = await scheduler.runJob('cleanup', 'corr-1');
+
+    expect(job.runs).toEqual([new Date('2026-03-01T09:01:00Z')]);
+    expect(run).toMatchObject({ job: 'cleanup', status: 'SUCCEEDED', result: { done: true } });
+    expect(scheduler.getJobs()).toEqual([{ name: 'cleanup', intervalMs: 0, lastRun: run }]);
+  });
+
+  it('records a failing run instead of throwing', async () => {
+    scheduler.register(
+      recordingJob('flaky', 0, async () => {
+        throw new Error('database unavailable');
+      }),
+    );
+
+    const run = await scheduler.runJob('flaky');
+
+    expect(run.status).toBe('FAILED');
+    expect(run.error).toBe('database unavailable');
+    expect(scheduler.getJobs()[0].lastRun).toBe(run);
+  });
+
+  it('skips a run while the previous one is still going', async () => {
+    let finish: () => void = () => undefined;
+    const job = recordingJob('slow', 0, () => new Promise<void>((resolve) => (finish = resolve)));
+    scheduler.register(job);
+
+    const first = scheduler.runJob('slow');
+    const second = await scheduler.runJob('slow');
+    finish();
+
+    expect(second.status).toBe('SKIPPED');
+    expect((await first).status).toBe('SUCCEEDED');
+    expect(job.runs).toHaveLength(1);
+  });
+
+  it('rejects unknown and duplicate jobs', async () => {
+    scheduler.register(recordingJob('cleanup'));
+
+    expect(() => scheduler.register(recordingJob('cleanup'))).toThrow(/already registered/);
+    await expect(scheduler.runJob('missing')).rejects.toThrow(ScheduledJobNotFoundException);
+  });
+
+  it('starts timers on bootstrap only for jobs with an interval', async () => {
+    jest.useFakeTimers();
+    const ticking = recordingJob('ticking', 1000);
+    const manual = recordingJob('manual', 0);
+    scheduler.register(ticking);
+    scheduler.register(manual);
+
+    scheduler.onApplicationBootstrap();
+    await jest.advanceTimersByTimeAsync(3000);
+
+    expect(ticking.runs).toHaveLength(3);
+    expect(manual.runs).toHaveLength(0);
+  });
+});
@@ -0,0 +1,128 @@
+import { randomUUID } from 'crypto';
+import { Inject, Injectable, OnApplicationBootstrap, OnModuleDestroy } from '@nestjs/common';
+import { logWithCorrelation } from '../common/logging/logger';
+import { CLOCK, Clock } from './clock';
+import { ScheduledJob } from './scheduled-job.interface';
+import { ScheduledJobNotFoundException } from './exceptions';
+
+/**
+ * Outcome of one job run
+ */
+export interface JobRun {
+  job: string;
+  status: 'SUCCEEDED' | 'FAILED' | 'SKIPPED';
+  startedAt: Date;
+  finishedAt: Date;
+  /** Summary returned by the job */
+  result?: unknown;
+  error?: string;
+}
+
+/**
+ * Registered job with its last run
+ */
+export interface JobInfo {
+  name: string;
+  intervalMs: number;
+  lastRun: JobRun | null;
+}
+
+/**
+ * Job Scheduler
+ *
+ * Runs registered jobs on their interval once the application has started.
+ * Time comes from the injected CLOCK, so tests drive jobs with runJob() and
+ * a ManualClock instead of timers.
+ *
+ * A job never overlaps with itself in one instance: a run that starts while
+ * the previous one is still going is skipped. Failures are logged and kept
+ * as the last run; the job runs again on its next tick.
+ */
+@Injectable()
+export class JobScheduler implements OnApplicationBootstrap, OnModuleDestroy {
+  private readonly jobs = new Map<string, ScheduledJob>();
+  private readonly lastRuns = new Map<string, JobRun>();
+  private readonly running = new Set<string>();
+  private readonly timers: NodeJS.Timeout[] = [];
+
+  constructor(@Inject(CLOCK) private readonly clock: Clock) {}
+
+  register(job: ScheduledJob): void {
+    if (this.jobs.has(job.name)) {
+      throw new Error(`Scheduled job '${job.name}' is already registered`);
+    }
+    this.jobs.set(job.name, job);
+  }
+
+  onApplicationBootstrap(): void {
+    for (const job of this.jobs.values()) {
+      if (job.intervalMs > 0) {
+        const timer = setInterval(() => void this.runJob(job.name), job.intervalMs);
+        timer.unref();
+        this.timers.push(timer);
+      }
+    }
+  }
+
+  onModuleDestroy(): void {
+    this.timers.forEach((timer) => clearInterval(timer));
+    this.timers.length = 0;
+  }
+
+  /**
+   * Registered jobs, by name
+   */
+  getJobs(): JobInfo[] {
+    return [...this.jobs.values()]
+      .map((job) => ({
+        name: job.name,
+        intervalMs: job.intervalMs,
+        lastRun: this.lastRuns.get(job.name) ?? null,
+      }))
+      .sort((a, b) => a.name.localeCompare(b.name));
+  }
+
+  /**
+   * Run a job now, as of the clock's current time
+   * @throws ScheduledJobNotFoundException
+   */
+  async runJob(name: string, correlationId: string = `job-${randomUUID()}`): Promise<JobRun> {
+    const job = this.jobs.get(name);
+    if (!job) {
+      throw new ScheduledJobNotFoundException(name);
+    }
+
+    const startedAt = this.clock.now();
+    if (this.running.has(name)) {
+      return { job: name, status: 'SKIPPED', startedAt, finishedAt: startedAt };
+    }
+
+    this.running.add(name);
+    let run: JobRun;
+    try {
+      const result = await job.run(startedAt, correlationId);
+      run = { job: name, status: 'SUCCEEDED', startedAt, finishedAt: this.clock.now(), result };
+      logWithCorrelation('INFO', correlationId, 'Scheduled job finished', 'JobScheduler', {
+        job: name,
+        result,
+      });
+    } catch (error) {
+      run = {
+        job: name,
+        status: 'FAILED',
+        startedAt,
+        finishedAt: this.clock.now(),
+        error: error instanceof Error ? error.message : String(error),
+      };
+      logWithCorrelation('ERROR', correlationId, 'Scheduled job failed', 'JobScheduler', {
+        job: name,
+        error: run.error,
+      });
+    } finally {
+      this.running.delete(name);
+    }
+
+    this.lastRuns.set(name, run);
+    return run;
+  }
+}
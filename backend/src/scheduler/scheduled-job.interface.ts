@@ -0,0 +1,20 @@
+/**
+ * Scheduled Job
+ *
+ * Periodic background work run by JobScheduler. Jobs register themselves in
+ * onModuleInit, the same way event handlers subscribe to the EventBus.
+ *
+ * Every API instance runs the scheduler, so a job must be safe to run
+ * concurrently and to repeat: it should re-check state before changing it.
+ */
+export interface ScheduledJob {
+  /** Unique name, used in logs and the admin API */
+  readonly name: string;
+  /** Time between runs; 0 disables the timer (the job can still be run on demand) */
+  readonly intervalMs: number;
+  /**
+   * Do one round of work as of `now`. The returned summary is logged and kept
+   * as the job's last run.
+   */
+  run(now: Date, correlationId: string): Promise<unknown>;
+}
@@ -0,0 +1,58 @@
+import {
+  Controller,
+  Get,
+  Headers,
+  HttpCode,
+  HttpStatus,
+  Param,
+  Post,
+  UseGuards,
+} from '@nestjs/common';
+import { ApiResponse } from '../common/api/api-response';
+import { JwtAuthGuard } from '../auth/guards/jwt-auth.guard';
+import { RolesGuard } from '../auth/guards/roles.guard';
+import { Roles } from '../auth/decorators/roles.decorator';
+import { UserRole } from '../auth/interfaces/auth-user.interface';
+import { JobScheduler } from './job-scheduler';
+import { JobRunDto, ScheduledJobDto, toJobRunDto, toScheduledJobDto } from './dto';
+
+/**
+ * Scheduler Admin Controller
+ *
+ * Scheduled jobs with their last run, and a way to run one now.
+ *
+ * GET  /api/v1/admin/jobs
+ * POST /api/v1/admin/jobs/:name/run
+ */
+@Controller('admin/jobs')
+@UseGuards(JwtAuthGuard, RolesGuard)
+@Roles(UserRole.ADMIN)
+export class SchedulerAdminController {
+  constructor(private readonly jobScheduler: JobScheduler) {}
+
+  /**
+   * Registered jobs, by name
+   * GET /api/v1/admin/jobs
+   */
+  @Get()
+  async getJobs(): Promise<ApiResponse<ScheduledJobDto[]>> {
+    return ApiResponse.success(
+      this.jobScheduler.getJobs().map(toScheduledJobDto),
+      'Scheduled jobs retrieved successfully',
+    );
+  }
+
+  /**
+   * Run a job now instead of waiting for its next tick
+   * POST /api/v1/admin/jobs/:name/run
+   */
+  @Post(':name/run')
+  @HttpCode(HttpStatus.OK)
+  async runJob(
+    @Param('name') name: string,
+    @Headers('x-correlation-id') correlationId: string,
+  ): Promise<ApiResponse<JobRunDto>> {
+    const run = await this.jobScheduler.runJob(name, correlationId);
+    return ApiResponse.success(toJobRunDto(run), `Job ${run.status.toLowerCase()}`);
+  }
+}
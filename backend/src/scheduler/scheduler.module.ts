@@ -0,0 +1,26 @@
+import { Global, Module } from '@nestjs/common';
+import { AuthModule } from '../auth/auth.module';
+import { CLOCK, SystemClock } from './clock';
+import { JobScheduler } from './job-scheduler';
+import { SchedulerAdminController } from './scheduler-admin.controller';
+
+/**
+ * Scheduler Module
+ *
+ * Periodic background jobs (payment expiry, ...). Modules implement
+ * ScheduledJob and register with JobScheduler in onModuleInit; timers start
+ * once the application has bootstrapped.
+ *
+ * CLOCK is the system clock here; tests construct JobScheduler with a
+ * ManualClock.
+ *
+ * Global so any module can register jobs without importing this module.
+ */
+@Global()
+@Module({
+  imports: [AuthModule], // For JwtAuthGuard
+  controllers: [SchedulerAdminController],
+  providers: [JobScheduler, { provide: CLOCK, useClass: SystemClock }],
+  exports: [JobScheduler, CLOCK],
+})
+export class SchedulerModule {}
@@ -0,0 +1,29 @@
+import { TrackingEventData } from '../domain';
+
+/**
+ * Carrier Adapter
+ *
+ * Integration point for a courier. A shipment whose `carrier` equals an
+ * adapter's `code` (case-insensitive) gets a quoted delivery date on dispatch
+ * and can pull tracking events from the carrier. Shipments with any other
+ * carrier are tracked manually by staff.
+ */
+export interface CarrierAdapter {
+  /** Matched against Shipment.carrier, e.g. 'LOCAL' */
+  readonly code: string;
+
+  /**
+   * Expected delivery date for a parcel dispatched at `dispatchedAt`,
+   * or null if the carrier does not quote one
+   */
+  estimateDelivery(dispatchedAt: Date): Date | null;
+
+  /**
+   * Tracking events the carrier has for a tracking number, in any order.
+   * May repeat events already returned; callers de-duplicate.
+   */
+  fetchTrackingEvents(trackingNumber: string): Promise<TrackingEventData[]>;
+}
+
+/** Injection token for the list of registered carrier adapters */
+export const CARRIER_ADAPTERS = 'CARRIER_ADAPTERS';
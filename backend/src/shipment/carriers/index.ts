@@ -0,0 +1,2 @@
+export { CarrierAdapter, CARRIER_ADAPTERS } from './carrier-adapter.interface';
+export { LocalCarrierAdapter } from './local-carrier.adapter';
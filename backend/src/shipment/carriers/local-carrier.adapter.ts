@@ -0,0 +1,37 @@
+import { Injectable } from '@nestjs/common';
+import { TrackingEventData } from '../domain';
+import { CarrierAdapter } from './carrier-adapter.interface';
+
+/**
+ * Local Carrier Adapter
+ *
+ * The store's own delivery riders (carrier code LOCAL): next-day delivery,
+ * tracking events held in memory. Also the fake carrier for tests and
+ * development; recordEvent() stands in for the carrier's tracking feed.
+ */
+@Injectable()
+export class LocalCarrierAdapter implements CarrierAdapter {
+  static readonly CODE = 'LOCAL';
+
+  readonly code = LocalCarrierAdapter.CODE;
+
+  private events: Map<string, TrackingEventData[]> = new Map();
+
+  estimateDelivery(dispatchedAt: Date): Date {
+    const date = new Date(dispatchedAt);
+    date.setUTCHours(0, 0, 0, 0);
+    date.setUTCDate(date.getUTCDate() + 1);
+    return date;
+  }
+
+  async fetchTrackingEvents(trackingNumber: string): Promise<TrackingEventData[]> {
+    return [...(this.events.get(trackingNumber) ?? [])];
+  }
+
+  /**
+   * Add an event to a parcel's tracking feed
+   */
+  recordEvent(trackingNumber: string, event: TrackingEventData): void {
+    this.events.set(trackingNumber, [...(this.events.get(trackingNumber) ?? []), event]);
+  }
+}
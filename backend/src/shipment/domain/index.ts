@@ -0,0 +1,13 @@
+export {
+  TrackingEventStatus,
+  type TrackingEvent,
+  type Shipment,
+  type CreateShipmentData,
+  type TrackingEventData,
+  type DeliveryData,
+  createShipment,
+  createTrackingEvent,
+  addTrackingEvents,
+  markShipmentDelivered,
+  isShipmentDelivered,
+} from './shipment.entity';
@@ -0,0 +1,166 @@
+import { randomUUID } from 'crypto';
+
+/**
+ * Shipment
+ *
+ * The parcel an order ships in: carrier, tracking number, who dispatched it
+ * and when, the expected delivery date, and a timeline of tracking events.
+ * One shipment per order.
+ *
+ * `carrier` is free text (e.g. "Blue Dart") unless it matches the code of a
+ * registered carrier adapter, which can then quote delivery dates and report
+ * tracking events.
+ *
+ * Delivery is confirmed by staff with a proof-of-delivery note; carrier
+ * events alone never mark a shipment delivered.
+ */
+export enum TrackingEventStatus {
+  DISPATCHED = 'DISPATCHED',
+  IN_TRANSIT = 'IN_TRANSIT',
+  OUT_FOR_DELIVERY = 'OUT_FOR_DELIVERY',
+  DELIVERY_ATTEMPTED = 'DELIVERY_ATTEMPTED',
+  DELIVERED = 'DELIVERED',
+}
+
+export interface TrackingEvent {
+  readonly id: string;
+  readonly status: TrackingEventStatus;
+  readonly description: string;
+  readonly location: string | null;
+  readonly occurredAt: Date;
+}
+
+export interface Shipment {
+  readonly id: string;
+  readonly orderId: string;
+  readonly carrier: string;
+  readonly trackingNumber: string;
+  readonly dispatchedAt: Date;
+  readonly dispatchedBy: string;
+  /** Calendar date (midnight UTC) the parcel is expected */
+  readonly expectedDeliveryDate: Date | null;
+  readonly deliveredAt: Date | null;
+  readonly deliveredBy: string | null;
+  /** Proof-of-delivery note entered by staff */
+  readonly deliveryNote: string | null;
+  /** Oldest first */
+  readonly events: readonly TrackingEvent[];
+  readonly createdAt: Date;
+  readonly updatedAt: Date;
+}
+
+export interface CreateShipmentData {
+  orderId: string;
+  carrier: string;
+  trackingNumber: string;
+  dispatchedBy: string;
+  expectedDeliveryDate: Date | null;
+}
+
+export interface TrackingEventData {
+  status: TrackingEventStatus;
+  description: string;
+  location?: string | null;
+  occurredAt: Date;
+}
+
+export interface DeliveryData {
+  deliveredBy: string;
+  deliveryNote: string;
+}
+
+/**
+ * New shipment, dispatched now, with a DISPATCHED event
+ */
+export function createShipment(data: CreateShipmentData, now: Date = new Date()): Shipment {
+  return {
+    id: randomUUID(),
+    orderId: data.orderId,
+    carrier: data.carrier,
+    trackingNumber: data.trackingNumber,
+    dispatchedAt: now,
+    dispatchedBy: data.dispatchedBy,
+    expectedDeliveryDate: data.expectedDeliveryDate,
+    deliveredAt: null,
+    deliveredBy: null,
+    deliveryNote: null,
+    events: [
+      createTrackingEvent({
+        status: TrackingEventStatus.DISPATCHED,
+        description: `Dispatched with ${data.carrier}`,
+        occurredAt: now,
+      }),
+    ],
+    createdAt: now,
+    updatedAt: now,
+  };
+}
+
+export function createTrackingEvent(data: TrackingEventData): TrackingEvent {
+  return {
+    id: randomUUID(),
+    status: data.status,
+    description: data.description,
+    location: data.location ?? null,
+    occurredAt: data.occurredAt,
+  };
+}
+
+/**
+ * Add events to the timeline, skipping any already recorded (same status,
+ * time and description), and keep it oldest first.
+ */
+export function addTrackingEvents(
+  shipment: Shipment,
+  events: TrackingEventData[],
+  now: Date = new Date(),
+): Shipment {
+  const added = events
+    .filter((event) => !shipment.events.some((existing) => isSameEvent(existing, event)))
+    .map(createTrackingEvent);
+  if (added.length === 0) {
+    return shipment;
+  }
+
+  return {
+    ...shipment,
+    events: [...shipment.events, ...added].sort(
+      (a, b) => a.occurredAt.getTime() - b.occurredAt.getTime(),
+    ),
+    updatedAt: now,
+  };
+}
+
+/**
+ * Record staff-confirmed delivery with a DELIVERED event
+ */
+export function markShipmentDelivered(
+  shipment: Shipment,
+  data: DeliveryData,
+  now: Date = new Date(),
+): Shipment {
+  const withEvent = addTrackingEvents(
+    shipment,
+    [{ status: TrackingEventStatus.DELIVERED, description: 'Delivered', occurredAt: now }],
+    now,
+  );
+  return {
+    ...withEvent,
+    deliveredAt: now,
+    deliveredBy: data.deliveredBy,
+    deliveryNote: data.deliveryNote,
+    updatedAt: now,
+  };
+}
+
+export function isShipmentDelivered(shipment: Shipment): boolean {
+  return shipment.deliveredAt !== null;
+}
+
+function isSameEvent(existing: TrackingEvent, event: TrackingEventData): boolean {
+  return (
+    existing.status === event.status &&
+    existing.occurredAt.getTime() === event.occurredAt.getTime() &&
+    existing.description === event.description
+  );
+}
@@ -0,0 +1,8 @@
+export {
+  AddTrackingEventDto,
+  TrackingEventDto,
+  ShipmentDto,
+  StaffShipmentDto,
+  toShipmentDto,
+  toStaffShipmentDto,
+} from './shipment.dto';
@@ -0,0 +1,88 @@
+import { IsDateString, IsEnum, IsOptional, IsString, Matches, MaxLength } from 'class-validator';
+import { Shipment, TrackingEvent, TrackingEventStatus } from '../domain';
+
+/**
+ * Request body for POST /admin/fulfilment/orders/:id/shipment/events
+ */
+export class AddTrackingEventDto {
+  @IsEnum(TrackingEventStatus)
+  status!: TrackingEventStatus;
+
+  @IsString()
+  @Matches(/\S/, { message: 'description must not be blank' })
+  @MaxLength(200)
+  description!: string;
+
+  @IsOptional()
+  @IsString()
+  @MaxLength(100)
+  location?: string;
+
+  /** ISO 8601; defaults to now */
+  @IsOptional()
+  @IsDateString()
+  occurredAt?: string;
+}
+
+export interface TrackingEventDto {
+  status: TrackingEventStatus;
+  description: string;
+  location: string | null;
+  occurredAt: string;
+}
+
+/**
+ * Shipment as shown to the customer on the order detail
+ */
+export interface ShipmentDto {
+  carrier: string;
+  trackingNumber: string;
+  dispatchedAt: string;
+  /** YYYY-MM-DD */
+  expectedDeliveryDate: string | null;
+  deliveredAt: string | null;
+  deliveryNote: string | null;
+  /** Oldest first */
+  events: TrackingEventDto[];
+}
+
+/**
+ * Shipment with the staff members who dispatched and delivered it
+ */
+export interface StaffShipmentDto extends ShipmentDto {
+  id: string;
+  orderId: string;
+  dispatchedBy: string;
+  deliveredBy: string | null;
+}
+
+export function toShipmentDto(shipment: Shipment): ShipmentDto {
+  return {
+    carrier: shipment.carrier,
+    trackingNumber: shipment.trackingNumber,
+    dispatchedAt: shipment.dispatchedAt.toISOString(),
+    expectedDeliveryDate: shipment.expectedDeliveryDate?.toISOString().slice(0, 10) ?? null,
+    deliveredAt: shipment.deliveredAt?.toISOString() ?? null,
+    deliveryNote: shipment.deliveryNote,
+    events: shipment.events.map(toTrackingEventDto),
+  };
+}
+
+export function toStaffShipmentDto(shipment: Shipment): StaffShipmentDto {
+  return {
+    id: shipment.id,
+    orderId: shipment.orderId,
+    ...toShipmentDto(shipment),
+    dispatchedBy: shipment.dispatchedBy,
+    deliveredBy: shipment.deliveredBy,
+  };
+}
+
+function toTrackingEventDto(event: TrackingEvent): TrackingEventDto {
+  return {
+    status: event.status,
+    description: event.description,
+    location: event.location,
+    occurredAt: event.occurredAt.toISOString(),
+  };
+}
@@ -0,0 +1,6 @@
+export {
+  ShipmentNotFoundException,
+  ShipmentAlreadyExistsException,
+  InvalidShipmentException,
+  ShipmentAlreadyDeliveredException,
+} from './shipment.exceptions';
@@ -0,0 +1,38 @@
+import { HttpStatus } from '@nestjs/common';
+import { BusinessException } from '../../common/exceptions/business.exception';
+
+export class ShipmentNotFoundException extends BusinessException {
+  constructor(orderId: string) {
+    super('SHIPMENT_NOT_FOUND', `Order '${orderId}' has no shipment`, HttpStatus.NOT_FOUND, {
+      orderId,
+    });
+  }
+}
+
+export class ShipmentAlreadyExistsException extends BusinessException {
+  constructor(orderId: string) {
+    super(
+      'SHIPMENT_ALREADY_EXISTS',
+      `Order '${orderId}' has already been shipped`,
+      HttpStatus.CONFLICT,
+      { orderId },
+    );
+  }
+}
+
+export class InvalidShipmentException extends BusinessException {
+  constructor(message: string, details?: Record<string, unknown>) {
+    super('INVALID_SHIPMENT', message, HttpStatus.BAD_REQUEST, details);
+  }
+}
+
+export class ShipmentAlreadyDeliveredException extends BusinessException {
+  constructor(orderId: string) {
+    super(
+      'SHIPMENT_ALREADY_DELIVERED',
+      `The shipment for order '${orderId}' has already been delivered`,
+      HttpStatus.CONFLICT,
+      { orderId },
+    );
+  }
+}
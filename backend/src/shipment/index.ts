@@ -0,0 +1,26 @@
+/**
+ * Shipment Module Public API
+ */
+
+// Module
+export { ShipmentModule } from './shipment.module';
+
+// Service
+export { ShipmentService, CreateShipmentInput } from './shipment.service';
+
+// Domain
+export { Shipment, TrackingEvent, TrackingEventStatus } from './domain';
+
+// Carriers
+export { CarrierAdapter, CARRIER_ADAPTERS, LocalCarrierAdapter } from './carriers';
+
+// DTOs
+export { AddTrackingEventDto, ShipmentDto, StaffShipmentDto, TrackingEventDto } from './dto';
+
+// Exceptions
+export {
+  ShipmentNotFoundException,
+  ShipmentAlreadyExistsException,
+  InvalidShipmentException,
+  ShipmentAlreadyDeliveredException,
+} from './exceptions';
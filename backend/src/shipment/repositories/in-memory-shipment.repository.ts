@@ -0,0 +1,43 @@
+import { Injectable } from '@nestjs/common';
+import { Shipment } from '../domain';
+import { ShipmentAlreadyExistsException, ShipmentNotFoundException } from '../exceptions';
+import { IShipmentRepository } from './shipment-repository.interface';
+
+/**
+ * In-Memory Shipment Repository
+ *
+ * Development and test implementation. Data resets on restart.
+ */
+@Injectable()
+export class InMemoryShipmentRepository implements IShipmentRepository {
+  /** Keyed by order ID (one shipment per order) */
+  private shipments: Map<string, Shipment> = new Map();
+
+  async create(shipment: Shipment): Promise<Shipment> {
+    if (this.shipments.has(shipment.orderId)) {
+      throw new ShipmentAlreadyExistsException(shipment.orderId);
+    }
+    this.shipments.set(shipment.orderId, shipment);
+    return shipment;
+  }
+
+  async findByOrderId(orderId: string): Promise<Shipment | null> {
+    return this.shipments.get(orderId) ?? null;
+  }
+
+  async update(shipment: Shipment): Promise<Shipment> {
+    const existing = this.shipments.get(shipment.orderId);
+    if (!existing || existing.id !== shipment.id) {
+      throw new ShipmentNotFoundException(shipment.orderId);
+    }
+    this.shipments.set(shipment.orderId, shipment);
+    return shipment;
+  }
+
+  /**
+   * Clear all shipments (for testing)
+   */
+  clear(): void {
+    this.shipments.clear();
+  }
+}
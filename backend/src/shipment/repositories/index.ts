@@ -0,0 +1,3 @@
+export { SHIPMENT_REPOSITORY, IShipmentRepository } from './shipment-repository.interface';
+export { InMemoryShipmentRepository } from './in-memory-shipment.repository';
+export { PrismaShipmentRepository } from './prisma-shipment.repository';
@@ -0,0 +1,137 @@
+import { Injectable } from '@nestjs/common';
+import {
+  Shipment as PrismaShipment,
+  ShipmentTrackingEvent as PrismaTrackingEvent,
+  TrackingEventStatus as PrismaTrackingEventStatus,
+} from '@prisma/client';
+import { PrismaService } from '../../database/prisma.service';
+import { Shipment, TrackingEvent, TrackingEventStatus } from '../domain';
+import { ShipmentAlreadyExistsException, ShipmentNotFoundException } from '../exceptions';
+import { IShipmentRepository } from './shipment-repository.interface';
+
+type ShipmentWithEvents = PrismaShipment & { events: PrismaTrackingEvent[] };
+
+/**
+ * Prisma Shipment Repository
+ *
+ * Shipment fields and new tracking events are written in one transaction.
+ */
+@Injectable()
+export class PrismaShipmentRepository implements IShipmentRepository {
+  constructor(private readonly prisma: PrismaService) {}
+
+  async create(shipment: Shipment): Promise<Shipment> {
+    try {
+      const created = await this.prisma.shipment.create({
+        data: {
+          id: shipment.id,
+          orderId: shipment.orderId,
+          carrier: shipment.carrier,
+          trackingNumber: shipment.trackingNumber,
+          dispatchedAt: shipment.dispatchedAt,
+          dispatchedBy: shipment.dispatchedBy,
+          expectedDeliveryDate: shipment.expectedDeliveryDate,
+          deliveredAt: shipment.deliveredAt,
+          deliveredBy: shipment.deliveredBy,
+          deliveryNote: shipment.deliveryNote,
+          createdAt: shipment.createdAt,
+          events: { create: shipment.events.map((event) => this.eventToPersistence(event)) },
+        },
+        include: { events: { orderBy: { occurredAt: 'asc' } } },
+      });
+      return this.toDomain(created);
+    } catch (error) {
+      if (this.hasErrorCode(error, 'P2002')) {
+        throw new ShipmentAlreadyExistsException(shipment.orderId);
+      }
+      throw error;
+    }
+  }
+
+  async findByOrderId(orderId: string): Promise<Shipment | null> {
+    const shipment = await this.prisma.shipment.findUnique({
+      where: { orderId },
+      include: { events: { orderBy: { occurredAt: 'asc' } } },
+    });
+    return shipment ? this.toDomain(shipment) : null;
+  }
+
+  async update(shipment: Shipment): Promise<Shipment> {
+    try {
+      const updated = await this.prisma.getClient().$transaction(async (tx) => {
+        await tx.shipmentTrackingEvent.createMany({
+          data: shipment.events.map((event) => ({
+            ...this.eventToPersistence(event),
+            shipmentId: shipment.id,
+          })),
+          skipDuplicates: true,
+        });
+        return tx.shipment.update({
+          where: { id: shipment.id },
+          data: {
+            carrier: shipment.carrier,
+            trackingNumber: shipment.trackingNumber,
+            expectedDeliveryDate: shipment.expectedDeliveryDate,
+            deliveredAt: shipment.deliveredAt,
+            deliveredBy: shipment.deliveredBy,
+            deliveryNote: shipment.deliveryNote,
+          },
+          include: { events: { orderBy: { occurredAt: 'asc' } } },
+        });
+      });
+      return this.toDomain(updated);
+    } catch (error) {
+      if (this.hasErrorCode(error, 'P2003') || this.hasErrorCode(error, 'P2025')) {
+        throw new ShipmentNotFoundException(shipment.orderId);
+      }
+      throw error;
+    }
+  }
+
+  // ==========================================================================
+  // Private Helpers
+  // ==========================================================================
+
+  private toDomain(shipment: ShipmentWithEvents): Shipment {
+    return {
+      id: shipment.id,
+      orderId: shipment.orderId,
+      carrier: shipment.carrier,
+      trackingNumber: shipment.trackingNumber,
+      dispatchedAt: shipment.dispatchedAt,
+      dispatchedBy: shipment.dispatchedBy,
+      expectedDeliveryDate: shipment.expectedDeliveryDate,
+      deliveredAt: shipment.deliveredAt,
+      deliveredBy: shipment.deliveredBy,
+      deliveryNote: shipment.deliveryNote,
+      events: shipment.events.map((event) => ({
+        id: event.id,
+        status: event.status as TrackingEventStatus,
+        description: event.description,
+        location: event.location,
+        occurredAt: event.occurredAt,
+      })),
+      createdAt: shipment.createdAt,
+      updatedAt: shipment.updatedAt,
+    };
+  }
+
+  private eventToPersistence(event: TrackingEvent) {
+    return {
+      id: event.id,
+      status: event.status as PrismaTrackingEventStatus,
+      description: event.description,
+      location: event.location,
+      occurredAt: event.occurredAt,
+    };
+  }
+
+  private hasErrorCode(error: unknown, code: string): boolean {
+    return (
+      typeof error === 'object' &&
+      error !== null &&
+      'code' in error &&
+      (error as { code: string }).code === code
+    );
+  }
+}
@@ -0,0 +1,23 @@
+import { Shipment } from '../domain';
+
+/**
+ * Shipment Repository Interface
+ *
+ * Tracking events are append-only: update() writes the shipment fields and
+ * any events not yet stored, and never removes events.
+ */
+export interface IShipmentRepository {
+  /**
+   * @throws ShipmentAlreadyExistsException if the order already has a shipment
+   */
+  create(shipment: Shipment): Promise<Shipment>;
+
+  findByOrderId(orderId: string): Promise<Shipment | null>;
+
+  /**
+   * @throws ShipmentNotFoundException if the shipment does not exist
+   */
+  update(shipment: Shipment): Promise<Shipment>;
+}
+
+export const SHIPMENT_REPOSITORY = 'SHIPMENT_REPOSITORY';
@@ -0,0 +1,33 @@
+import { Module } from '@nestjs/common';
+import { ShipmentService } from './shipment.service';
+import { ShipmentRepositoryProvider } from '../database/repository.providers';
+import { CARRIER_ADAPTERS, LocalCarrierAdapter } from './carriers';
+
+/**
+ * Shipment Module
+ *
+ * Shipments (carrier, tracking number, expected delivery, tracking timeline)
+ * for shipped orders. Staff APIs are on the order FulfilmentController; the
+ * customer sees the shipment on the order detail.
+ *
+ * Carrier adapters: register each under CARRIER_ADAPTERS. LocalCarrierAdapter
+ * (code LOCAL) covers store delivery and serves as the fake carrier in tests.
+ *
+ * Repository Selection:
+ * - 'memory': InMemoryShipmentRepository
+ * - 'prisma': PrismaShipmentRepository
+ */
+@Module({
+  providers: [
+    ShipmentService,
+    ShipmentRepositoryProvider,
+    LocalCarrierAdapter,
+    {
+      provide: CARRIER_ADAPTERS,
+      useFactory: (local: LocalCarrierAdapter) => [local],
+      inject: [LocalCarrierAdapter],
+    },
+  ],
+  exports: [ShipmentService],
+})
+export class ShipmentModule {}
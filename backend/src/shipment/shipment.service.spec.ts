@@ -0,0 +1,176 @@
+import { ShipmentService } from './shipment.service';
+import { InMemoryShipmentRepository } from './repositories/in-memory-shipment.repository';
+import { LocalCarrierAdapter } from './carriers';
+import { TrackingEventStatus } from './domain';
+import {
+  InvalidShipmentException,
+  ShipmentAlreadyDeliveredException,
+  ShipmentAlreadyExistsException,
+  ShipmentNotFoundException,
+} from './exceptions';
+
+/**
+ * ShipmentService tests
+ *
+ * Verifies:
+ * - Dispatch creates a shipment with a DISPATCHED event and carrier estimate
+ * - Tracking timeline: manual events, carrier refresh, de-duplication, ordering
+ * - Delivery is recorded once, with a proof-of-delivery note
+ */
+describe('ShipmentService', () => {
+  let service: ShipmentService;
+  let repository: InMemoryShipmentRepository;
+  let localCarrier: LocalCarrierAdapter;
+
+  const orderId = 'order-1';
+  const staffId = 'staff-1';
+  const inHours = (hours: number) => new Date(Date.now() + hours * 60 * 60 * 1000);
+
+  beforeEach(() => {
+    repository = new InMemoryShipmentRepository();
+    localCarrier = new LocalCarrierAdapter();
+    service = new ShipmentService(repository, [localCarrier]);
+  });
+
+  afterEach(() => {
+    repository.clear();
+  });
+
+  describe('createShipment', () => {
+    it('creates a shipment with a DISPATCHED event', async () => {
+      const shipment = await service.createShipment(orderId, staffId, {
+        carrier: 'Blue Dart',
+        trackingNumber: 'BD123',
+        expectedDeliveryDate: inHours(72),
+      });
+
+      expect(shipment).toMatchObject({
+        orderId,
+        carrier: 'Blue Dart',
+        trackingNumber: 'BD123',
+        dispatchedBy: staffId,
+        expectedDeliveryDate: inHours(72).toISOString().slice(0, 10),
+        deliveredAt: null,
+      });
+      expect(shipment.events).toEqual([
+        expect.objectContaining({ status: TrackingEventStatus.DISPATCHED }),
+      ]);
+    });
+
+    it("uses the carrier adapter's estimate when no date is given", async () => {
+      const shipment = await service.createShipment(orderId, staffId, {
+        carrier: 'LOCAL',
+        trackingNumber: 'RIDER-1',
+      });
+
+      expect(shipment.expectedDeliveryDate).toBe(inHours(24).toISOString().slice(0, 10));
+    });
+
+    it('rejects an expected delivery date in the past', async () => {
+      await expect(
+        service.createShipment(orderId, staffId, {
+          carrier: 'Blue Dart',
+          trackingNumber: 'BD123',
+          expectedDeliveryDate: inHours(-48),
+        }),
+      ).rejects.toThrow(InvalidShipmentException);
+    });
+
+    it('allows one shipment per order', async () => {
+      const input = { carrier: 'Blue Dart', trackingNumber: 'BD123' };
+      await service.createShipment(orderId, staffId, input);
+
+      await expect(service.createShipment(orderId, staffId, input)).rejects.toThrow(
+        ShipmentAlreadyExistsException,
+      );
+    });
+  });
+
+  describe('tracking events', () => {
+    beforeEach(async () => {
+      await service.createShipment(orderId, staffId, { carrier: 'LOCAL', trackingNumber: 'R-1' });
+    });
+
+    it('keeps the timeline oldest first and ignores repeated events', async () => {
+      const outForDelivery = {
+        status: TrackingEventStatus.OUT_FOR_DELIVERY,
+        description: 'Out for delivery',
+        occurredAt: inHours(3),
+      };
+      await service.addTrackingEvent(orderId, outForDelivery);
+      await service.addTrackingEvent(orderId, {
+        status: TrackingEventStatus.IN_TRANSIT,
+        description: 'Picked up by rider',
+        location: 'Kothrud store',
+        occurredAt: inHours(1),
+      });
+      const shipment = await service.addTrackingEvent(orderId, outForDelivery);
+
+      expect(shipment.events.map((e) => e.status)).toEqual([
+        TrackingEventStatus.DISPATCHED,
+        TrackingEventStatus.IN_TRANSIT,
+        TrackingEventStatus.OUT_FOR_DELIVERY,
+      ]);
+      expect(shipment.events[1].location).toBe('Kothrud store');
+    });
+
+    it('pulls new events from the carrier adapter', async () => {
+      localCarrier.recordEvent('R-1', {
+        status: TrackingEventStatus.DELIVERY_ATTEMPTED,
+        description: 'Customer not available',
+        occurredAt: inHours(2),
+      });
+
+      await service.refreshTracking(orderId);
+      const shipment = await service.refreshTracking(orderId);
+
+      expect(shipment.events.map((e) => e.status)).toEqual([
+        TrackingEventStatus.DISPATCHED,
+        TrackingEventStatus.DELIVERY_ATTEMPTED,
+      ]);
+      expect(shipment.deliveredAt).toBeNull();
+    });
+
+    it('cannot refresh a carrier without an adapter', async () => {
+      await service.createShipment('order-2', staffId, {
+        carrier: 'Blue Dart',
+        trackingNumber: 'BD123',
+      });
+
+      await expect(service.refreshTracking('order-2')).rejects.toThrow(InvalidShipmentException);
+    });
+
+    it('does not accept DELIVERED as a manual event', async () => {
+      await expect(
+        service.addTrackingEvent(orderId, {
+          status: TrackingEventStatus.DELIVERED,
+          description: 'Delivered',
+          occurredAt: new Date(),
+        }),
+      ).rejects.toThrow(InvalidShipmentException);
+    });
+  });
+
+  describe('recordDelivery', () => {
+    it('records the proof-of-delivery note once', async () => {
+      await service.createShipment(orderId, staffId, { carrier: 'LOCAL', trackingNumber: 'R-1' });
+
+      const shipment = await service.recordDelivery(orderId, 'staff-2', 'Handed to customer');
+
+      expect(shipment).toMatchObject({
+        deliveredBy: 'staff-2',
+        deliveryNote: 'Handed to customer',
+      });
+      expect(shipment.events.at(-1)!.status).toBe(TrackingEventStatus.DELIVERED);
+      await expect(service.recordDelivery(orderId, 'staff-2', 'Again')).rejects.toThrow(
+        ShipmentAlreadyDeliveredException,
+      );
+    });
+
+    it('requires a shipment', async () => {
+      await expect(service.recordDelivery('missing', staffId, 'Note')).rejects.toThrow(
+        ShipmentNotFoundException,
+      );
+    });
+  });
+});
@@ -0,0 +1,247 @@
+import { Inject, Injectable } from '@nestjs/common';
+import { logWithCorrelation } from '../common/logging/logger';
+import {
+  Shipment,
+  TrackingEventData,
+  TrackingEventStatus,
+  addTrackingEvents,
+  createShipment,
+  isShipmentDelivered,
+  markShipmentDelivered,
+} from './domain';
+import { SHIPMENT_REPOSITORY, IShipmentRepository } from './repositories';
+import { CARRIER_ADAPTERS, CarrierAdapter } from './carriers';
+import { ShipmentDto, StaffShipmentDto, toShipmentDto, toStaffShipmentDto } from './dto';
+import {
+  InvalidShipmentException,
+  ShipmentAlreadyDeliveredException,
+  ShipmentNotFoundException,
+} from './exceptions';
+
+/**
+ * Dispatch details entered by staff
+ */
+export interface CreateShipmentInput {
+  carrier: string;
+  trackingNumber: string;
+  /** Overrides the carrier's estimate */
+  expectedDeliveryDate?: Date;
+}
+
+/**
+ * Shipment Service
+ *
+ * Creates the shipment when an order ships and maintains its tracking
+ * timeline. Order status transitions stay in OrderService, which calls this
+ * service when shipping and delivering.
+ *
+ * Tracking events come from staff or, for carriers with an adapter, from the
+ * carrier feed (refreshTracking). DELIVERED is only recorded through
+ * recordDelivery, with a proof-of-delivery note.
+ */
+@Injectable()
+export class ShipmentService {
+  constructor(
+    @Inject(SHIPMENT_REPOSITORY)
+    private readonly shipmentRepository: IShipmentRepository,
+    @Inject(CARRIER_ADAPTERS)
+    private readonly carrierAdapters: CarrierAdapter[],
+  ) {}
+
+  /**
+   * Shipment for the customer's order detail, if the order has shipped
+   */
+  async getForOrder(orderId: string): Promise<ShipmentDto | null> {
+    const shipment = await this.shipmentRepository.findByOrderId(orderId);
+    return shipment ? toShipmentDto(shipment) : null;
+  }
+
+  /**
+   * Staff view of the order's shipment, or null if it has none (orders
+   * shipped before shipments were recorded)
+   */
+  async findShipmentByOrderId(orderId: string): Promise<StaffShipmentDto | null> {
+    const shipment = await this.shipmentRepository.findByOrderId(orderId);
+    return shipment ? toStaffShipmentDto(shipment) : null;
+  }
+
+  /**
+   * @throws ShipmentNotFoundException if the order has no shipment
+   */
+  async getShipment(orderId: string): Promise<StaffShipmentDto> {
+    return toStaffShipmentDto(await this.findShipment(orderId));
+  }
+
+  /**
+   * Check dispatch details without recording anything, so callers can reject
+   * them before other side effects (e.g. committing stock)
+   * @throws InvalidShipmentException if the expected delivery date is in the past
+   */
+  validateShipment(input: CreateShipmentInput): void {
+    this.resolveExpectedDeliveryDate(input, new Date());
+  }
+
+  /**
+   * Record that an order has been handed to a carrier
+   * @throws InvalidShipmentException if the expected delivery date is in the past
+   * @throws ShipmentAlreadyExistsException if the order already has a shipment
+   */
+  async createShipment(
+    orderId: string,
+    staffId: string,
+    input: CreateShipmentInput,
+    correlationId?: string,
+  ): Promise<StaffShipmentDto> {
+    const now = new Date();
+    const expectedDeliveryDate = this.resolveExpectedDeliveryDate(input, now);
+
+    const shipment = await this.shipmentRepository.create(
+      createShipment(
+        {
+          orderId,
+          carrier: input.carrier,
+          trackingNumber: input.trackingNumber,
+          dispatchedBy: staffId,
+          expectedDeliveryDate,
+        },
+        now,
+      ),
+    );
+
+    this.log(correlationId, 'Shipment dispatched', orderId, {
+      carrier: shipment.carrier,
+      trackingNumber: shipment.trackingNumber,
+      staffId,
+    });
+    return toStaffShipmentDto(shipment);
+  }
+
+  /**
+   * Record staff-confirmed delivery with a proof-of-delivery note
+   * @throws ShipmentNotFoundException if the order has no shipment
+   * @throws ShipmentAlreadyDeliveredException if delivery was already recorded
+   */
+  async recordDelivery(
+    orderId: string,
+    staffId: string,
+    deliveryNote: string,
+    correlationId?: string,
+  ): Promise<StaffShipmentDto> {
+    const shipment = await this.findUndeliveredShipment(orderId);
+
+    const updated = await this.shipmentRepository.update(
+      markShipmentDelivered(shipment, { deliveredBy: staffId, deliveryNote }),
+    );
+
+    this.log(correlationId, 'Shipment delivered', orderId, { staffId });
+    return toStaffShipmentDto(updated);
+  }
+
+  /**
+   * Add a tracking update entered by staff (e.g. for carriers without an adapter)
+   * @throws InvalidShipmentException for DELIVERED; use recordDelivery instead
+   */
+  async addTrackingEvent(
+    orderId: string,
+    event: TrackingEventData,
+    correlationId?: string,
+  ): Promise<StaffShipmentDto> {
+    if (event.status === TrackingEventStatus.DELIVERED) {
+      throw new InvalidShipmentException(
+        'Delivery is recorded by marking the order delivered, with a proof-of-delivery note',
+      );
+    }
+    const shipment = await this.findUndeliveredShipment(orderId);
+
+    const updated = await this.save(addTrackingEvents(shipment, [event]), shipment);
+
+    this.log(correlationId, 'Tracking event added', orderId, { status: event.status });
+    return toStaffShipmentDto(updated);
+  }
+
+  /**
+   * Pull new tracking events from the shipment's carrier
+   * @throws InvalidShipmentException if the carrier has no adapter
+   */
+  async refreshTracking(orderId: string, correlationId?: string): Promise<StaffShipmentDto> {
+    const shipment = await this.findShipment(orderId);
+    const adapter = this.findAdapter(shipment.carrier);
+    if (!adapter) {
+      throw new InvalidShipmentException(
+        `Carrier '${shipment.carrier}' does not provide tracking updates`,
+        { carrier: shipment.carrier },
+      );
+    }
+
+    const events = await adapter.fetchTrackingEvents(shipment.trackingNumber);
+    const updated = await this.save(addTrackingEvents(shipment, events), shipment);
+
+    this.log(correlationId, 'Tracking refreshed from carrier', orderId, {
+      carrier: adapter.code,
+      newEvents: updated.events.length - shipment.events.length,
+    });
+    return toStaffShipmentDto(updated);
+  }
+
+  // ==========================================================================
+  // Private Helpers
+  // ==========================================================================
+
+  private async findShipment(orderId: string): Promise<Shipment> {
+    const shipment = await this.shipmentRepository.findByOrderId(orderId);
+    if (!shipment) {
+      throw new ShipmentNotFoundException(orderId);
+    }
+    return shipment;
+  }
+
+  private async findUndeliveredShipment(orderId: string): Promise<Shipment> {
+    const shipment = await this.findShipment(orderId);
+    if (isShipmentDelivered(shipment)) {
+      throw new ShipmentAlreadyDeliveredException(orderId);
+    }
+    return shipment;
+  }
+
+  /** Write only if the timeline changed */
+  private async save(updated: Shipment, original: Shipment): Promise<Shipment> {
+    return updated === original ? original : this.shipmentRepository.update(updated);
+  }
+
+  /** Staff-entered date, else the carrier's estimate; never in the past */
+  private resolveExpectedDeliveryDate(input: CreateShipmentInput, now: Date): Date | null {
+    const expectedDeliveryDate = input.expectedDeliveryDate
+      ? this.toDate(input.expectedDeliveryDate)
+      : (this.findAdapter(input.carrier)?.estimateDelivery(now) ?? null);
+
+    if (expectedDeliveryDate && expectedDeliveryDate < this.toDate(now)) {
+      throw new InvalidShipmentException('Expected delivery date cannot be in the past', {
+        expectedDeliveryDate: expectedDeliveryDate.toISOString().slice(0, 10),
+      });
+    }
+    return expectedDeliveryDate;
+  }
+
+  private findAdapter(carrier: string): CarrierAdapter | undefined {
+    const code = carrier.trim().toUpperCase();
+    return this.carrierAdapters.find((adapter) => adapter.code.toUpperCase() === code);
+  }
+
+  /** Midnight UTC of the given instant's date */
+  private toDate(value: Date): Date {
+    const date = new Date(value);
+    date.setUTCHours(0, 0, 0, 0);
+    return date;
+  }
+
+  private log(
+    correlationId: string | undefined,
+    message: string,
+    orderId: string,
+    meta: Record<string, unknown>,
+  ): void {
+    if (correlationId) {
+      logWithCorrelation('INFO', correlationId, message, 'ShipmentService', { orderId, ...meta });
+    }
+  }
+}
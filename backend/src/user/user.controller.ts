@@ -24,6 +24,7 @@ import {
 } from './dto';
 import { JwtAuthGuard } from '../auth/guards/jwt-auth.guard';
 import { CurrentUser } from '../auth/decorators/current-user.decorator';
+import { Audited } from '../audit/decorators/audited.decorator';
 import { GetMyUserProfileUseCase } from './use-cases/get-my-user-profile.use-case';
 import { UpdateMyUserProfileUseCase } from './use-cases/update-my-user-profile.use-case';
 import { GetMyUserContextUseCase } from './use-cases/get-my-user-context.use-case';
@@ -56,6 +57,7 @@ export class UserController {
    */
   @Post()
   @HttpCode(HttpStatus.CREATED)
+  @Audited('user', 'create')
   async createUser(
     @Body() dto: CreateUserDto,
     @Headers('x-correlation-id') correlationId: string,
@@ -97,6 +99,7 @@ export class UserController {
    */
   @Patch('me')
   @UseGuards(JwtAuthGuard)
+  @Audited('user', 'update_profile')
   async updateCurrentUser(
     @CurrentUser('id') userId: string,
     @Body() dto: UpdateMyUserProfileDto,
@@ -128,6 +131,7 @@ export class UserController {
    * TODO: Requires authentication - user can only update their own profile
    */
   @Put(':id')
+  @Audited('user', 'update')
   async updateUser(
     @Param('id') id: string,
     @Body() dto: UpdateUserDto,
@@ -0,0 +1,410 @@
+'use client';
+
+import { useCallback, useEffect, useState, type FormEvent } from 'react';
+import { ProtectedRoute } from '@/components/ProtectedRoute';
+import { ROUTES } from '@/lib/constants';
+import {
+  fetchAuditLogs,
+  verifyAuditChain,
+  type AuditChainBreak,
+  type AuditChainVerification,
+  type AuditEventType,
+  type AuditLogEntry,
+  type AuditLogFilters,
+} from '@/lib/audit-log-service';
+import type { ApiError, PaginationMeta } from '@/types/api';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+
+const PAGE_SIZE = 25;
+
+const EVENT_TYPES: { value: AuditEventType; label: string }[] = [
+  { value: 'user_action', label: 'User action' },
+  { value: 'data_change', label: 'Data change' },
+  { value: 'security', label: 'Security' },
+  { value: 'system', label: 'System' },
+];
+
+const BREAK_REASONS: Record<AuditChainBreak['reason'], string> = {
+  sequence_gap: 'An entry is missing before this one',
+  prev_hash_mismatch: 'The entry before this one was altered',
+  hash_mismatch: 'This entry was altered',
+};
+
+const EMPTY_FILTERS: AuditLogFilters = {
+  actorId: '',
+  resource: '',
+  resourceId: '',
+  action: '',
+  eventType: undefined,
+  from: '',
+  to: '',
+};
+
+/**
+ * Admin audit log: search who did what to which resource. Read-only;
+ * entries cannot be edited or deleted.
+ */
+export default function AdminAuditLogPage() {
+  const [form, setForm] = useState<AuditLogFilters>(EMPTY_FILTERS);
+  const [filters, setFilters] = useState<AuditLogFilters>(EMPTY_FILTERS);
+  const [page, setPage] = useState(1);
+  const [entries, setEntries] = useState<AuditLogEntry[]>([]);
+  const [pagination, setPagination] = useState<PaginationMeta | null>(null);
+  const [expandedId, setExpandedId] = useState<string | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [verification, setVerification] = useState<AuditChainVerification | null>(null);
+  const [isVerifying, setIsVerifying] = useState(false);
+
+  const loadEntries = useCallback(async () => {
+    setIsLoading(true);
+    setError(null);
+
+    try {
+      const response = await fetchAuditLogs({ ...filters, page, limit: PAGE_SIZE });
+      setEntries(response.data ?? []);
+      setPagination(response.pagination ?? null);
+    } catch (err) {
+      setError(getErrorMessage(err, 'Unable to load audit log'));
+    } finally {
+      setIsLoading(false);
+    }
+  }, [filters, page]);
+
+  useEffect(() => {
+    loadEntries();
+  }, [loadEntries]);
+
+  const handleSearch = (event: FormEvent) => {
+    event.preventDefault();
+    setPage(1);
+    setFilters(form);
+  };
+
+  const handleReset = () => {
+    setForm(EMPTY_FILTERS);
+    setPage(1);
+    setFilters(EMPTY_FILTERS);
+  };
+
+  const handleVerify = async () => {
+    setIsVerifying(true);
+    setError(null);
+
+    try {
+      setVerification(await verifyAuditChain());
+    } catch (err) {
+      setError(getErrorMessage(err, 'Unable to verify audit chain'));
+    } finally {
+      setIsVerifying(false);
+    }
+  };
+
+  const updateField = (field: keyof AuditLogFilters, value: string) =>
+    setForm((prev) => ({ ...prev, [field]: value }));
+
+  return (
+    <ProtectedRoute requiredRoles={['ADMIN']}>
+      <div className="mx-auto flex w-full max-w-6xl flex-col gap-6">
+        <div className="flex flex-col gap-2">
+          <h1 className="text-2xl font-semibold">Audit Log</h1>
+          <p className="text-sm text-muted-foreground">
+            Every recorded admin action, data change, security event and domain event, most recent first.
+          </p>
+          <p className="text-sm text-muted-foreground">Route: {ROUTES.ADMIN_AUDIT_LOGS}</p>
+        </div>
+
+        <Card>
+          <CardHeader>
+            <CardTitle>Search</CardTitle>
+            <CardDescription>All filters are optional and combine. Dates are inclusive.</CardDescription>
+          </CardHeader>
+          <CardContent>
+            <form onSubmit={handleSearch} className="grid gap-4 md:grid-cols-4">
+              <div className="space-y-1">
+                <Label htmlFor="actorId">Actor</Label>
+                <Input
+                  id="actorId"
+                  placeholder="User ID or system"
+                  value={form.actorId ?? ''}
+                  onChange={(event) => updateField('actorId', event.target.value)}
+                />
+              </div>
+              <div className="space-y-1">
+                <Label htmlFor="resource">Resource</Label>
+                <Input
+                  id="resource"
+                  placeholder="e.g. product, domain_event"
+                  value={form.resource ?? ''}
+                  onChange={(event) => updateField('resource', event.target.value)}
+                />
+              </div>
+              <div className="space-y-1">
+                <Label htmlFor="resourceId">Resource ID</Label>
+                <Input
+                  id="resourceId"
+                  value={form.resourceId ?? ''}
+                  onChange={(event) => updateField('resourceId', event.target.value)}
+                />
+              </div>
+              <div className="space-y-1">
+                <Label htmlFor="action">Action</Label>
+                <Input
+                  id="action"
+                  placeholder="e.g. product_update"
+                  value={form.action ?? ''}
+                  onChange={(event) => updateField('action', event.target.value)}
+                />
+              </div>
+              <div className="space-y-1">
+                <Label htmlFor="eventType">Event type</Label>
+                <select
+                  id="eventType"
+                  className="flex h-10 w-full rounded-md border border-input bg-background px-3 py-2 text-sm"
+                  value={form.eventType ?? ''}
+                  onChange={(event) => updateField('eventType', event.target.value)}
+                >
+                  <option value="">Any</option>
+                  {EVENT_TYPES.map((type) => (
+                    <option key={type.value} value={type.value}>
+                      {type.label}
+                    </option>
+                  ))}
+                </select>
+              </div>
+              <div className="space-y-1">
+                <Label htmlFor="from">From</Label>
+                <Input
+                  id="from"
+                  type="date"
+                  value={form.from ?? ''}
+                  onChange={(event) => updateField('from', event.target.value)}
+                />
+              </div>
+              <div className="space-y-1">
+                <Label htmlFor="to">To</Label>
+                <Input
+                  id="to"
+                  type="date"
+                  value={form.to ?? ''}
+                  onChange={(event) => updateField('to', event.target.value)}
+                />
+              </div>
+              <div className="flex items-end gap-2">
+                <Button type="submit" disabled={isLoading}>
+                  Search
+                </Button>
+                <Button type="button" variant="outline" onClick={handleReset} disabled={isLoading}>
+                  Reset
+                </Button>
+              </div>
+            </form>
+          </CardContent>
+        </Card>
+
+        <Card>
+          <CardHeader>
+            <CardTitle>Integrity</CardTitle>
+            <CardDescription>
+              Entries are hash-chained. Verification walks the whole chain and reports the first
+              entry that was altered or removed.
+            </CardDescription>
+          </CardHeader>
+          <CardContent className="flex flex-col gap-3 text-sm">
+            <div>
+              <Button onClick={handleVerify} disabled={isVerifying}>
+                {isVerifying ? 'Verifying...' : 'Verify chain'}
+              </Button>
+            </div>
+            {verification && <ChainVerificationResult verification={verification} />}
+          </CardContent>
+        </Card>
+
+        {error && (
+          <div className="rounded-lg border border-destructive/30 bg-destructive/10 p-3 text-sm text-destructive">
+            {error}
+          </div>
+        )}
+
+        <Card>
+          <CardHeader>
+            <CardTitle>Entries</CardTitle>
+            <CardDescription>
+              {pagination ? `${pagination.total} matching entries` : 'Loading...'}
+            </CardDescription>
+          </CardHeader>
+          <CardContent>
+            {isLoading && <p className="text-sm text-muted-foreground">Loading audit log...</p>}
+
+            {!isLoading && entries.length === 0 && (
+              <div className="rounded-lg border border-dashed p-6 text-center text-sm text-muted-foreground">
+                No entries match these filters.
+              </div>
+            )}
+
+            {!isLoading && entries.length > 0 && (
+              <div className="overflow-x-auto">
+                <table className="w-full text-sm">
+                  <thead>
+                    <tr className="border-b text-left text-muted-foreground">
+                      <th className="py-2 pr-4 font-medium">Time</th>
+                      <th className="py-2 pr-4 font-medium">Actor</th>
+                      <th className="py-2 pr-4 font-medium">Action</th>
+                      <th className="py-2 pr-4 font-medium">Resource</th>
+                      <th className="py-2 pr-4 font-medium">Type</th>
+                      <th className="py-2 font-medium" />
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {entries.map((entry) => (
+                      <AuditLogRow
+                        key={entry.id}
+                        entry={entry}
+                        expanded={expandedId === entry.id}
+                        onToggle={() => setExpandedId(expandedId === entry.id ? null : entry.id)}
+                      />
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+            )}
+
+            {pagination && pagination.totalPages > 1 && (
+              <div className="mt-4 flex items-center justify-between text-sm">
+                <Button
+                  variant="outline"
+                  size="sm"
+                  disabled={!pagination.hasPreviousPage || isLoading}
+                  onClick={() => setPage((prev) => prev - 1)}
+                >
+                  Previous
+                </Button>
+                <span className="text-muted-foreground">
+                  Page {pagination.page} of {pagination.totalPages}
+                </span>
+                <Button
+                  variant="outline"
+                  size="sm"
+                  disabled={!pagination.hasNextPage || isLoading}
+                  onClick={() => setPage((prev) => prev + 1)}
+                >
+                  Next
+                </Button>
+              </div>
+            )}
+          </CardContent>
+        </Card>
+      </div>
+    </ProtectedRoute>
+  );
+}
+
+function AuditLogRow({
+  entry,
+  expanded,
+  onToggle,
+}: {
+  entry: AuditLogEntry;
+  expanded: boolean;
+  onToggle: () => void;
+}) {
+  return (
+    <>
+      <tr className="border-b align-top last:border-0">
+        <td className="whitespace-nowrap py-2 pr-4">
+          {new Date(entry.createdAt).toLocaleString('en-IN', {
+            dateStyle: 'medium',
+            timeStyle: 'medium',
+          })}
+        </td>
+        <td className="break-all py-2 pr-4 font-mono text-xs">{entry.actorId}</td>
+        <td className="py-2 pr-4 font-medium">{entry.action}</td>
+        <td className="py-2 pr-4">
+          {entry.resource}
+          {entry.resourceId && (
+            <span className="block break-all font-mono text-xs text-muted-foreground">
+              {entry.resourceId}
+            </span>
+          )}
+        </td>
+        <td className="py-2 pr-4">
+          <Badge variant={entry.eventType === 'security' ? 'warning' : 'secondary'}>
+            {entry.eventType}
+          </Badge>
+        </td>
+        <td className="py-2 text-right">
+          <Button variant="outline" size="sm" onClick={onToggle}>
+            {expanded ? 'Hide' : 'Details'}
+          </Button>
+        </td>
+      </tr>
+      {expanded && (
+        <tr className="border-b last:border-0">
+          <td colSpan={6} className="pb-3">
+            <p className="mb-1 text-xs text-muted-foreground">
+              Correlation ID: <span className="font-mono">{entry.correlationId ?? '—'}</span>
+            </p>
+            <p className="mb-1 break-all text-xs text-muted-foreground">
+              Sequence {entry.sequence} · Hash: <span className="font-mono">{entry.hash}</span>
+            </p>
+            <pre className="max-h-64 overflow-auto rounded-md bg-muted p-3 text-xs">
+              {JSON.stringify(entry.metadata ?? {}, null, 2)}
+            </pre>
+          </td>
+        </tr>
+      )}
+    </>
+  );
+}
+
+function ChainVerificationResult({ verification }: { verification: AuditChainVerification }) {
+  const { firstBreak } = verification;
+  return (
+    <div className="space-y-1">
+      <p>
+        <Badge variant={verification.valid ? 'success' : 'destructive'}>
+          {verification.valid ? 'Intact' : 'Broken'}
+        </Badge>{' '}
+        {verification.entriesChecked} entries verified at{' '}
+        {new Date(verification.verifiedAt).toLocaleString('en-IN', {
+          dateStyle: 'medium',
+          timeStyle: 'medium',
+        })}
+      </p>
+      {verification.lastVerifiedHash && (
+        <p className="break-all text-xs text-muted-foreground">
+          Last verified: sequence {verification.lastVerifiedSequence} ·{' '}
+          <span className="font-mono">{verification.lastVerifiedHash}</span>
+        </p>
+      )}
+      {firstBreak && (
+        <div className="rounded-lg border border-destructive/30 bg-destructive/10 p-3 text-destructive">
+          <p className="font-medium">
+            Sequence {firstBreak.sequence}: {BREAK_REASONS[firstBreak.reason]}
+          </p>
+          <p className="break-all font-mono text-xs">Entry {firstBreak.entryId}</p>
+          <p className="break-all font-mono text-xs">
+            Expected {String(firstBreak.expected)}, found {String(firstBreak.actual)}
+          </p>
+        </div>
+      )}
+    </div>
+  );
+}
+
+function getErrorMessage(error: unknown, fallback: string): string {
+  if (error && typeof error === 'object' && 'error' in error) {
+    const apiError = error as ApiError;
+    if (apiError.error?.message) {
+      return apiError.error.message;
+    }
+  }
+  if (error instanceof Error) {
+    return error.message;
+  }
+  return fallback;
+}
@@ -0,0 +1,400 @@
+'use client';
+
+import { useCallback, useEffect, useState, type FormEvent } from 'react';
+import { ProtectedRoute } from '@/components/ProtectedRoute';
+import { ROUTES } from '@/lib/constants';
+import { fetchCategories } from '@/lib/catalog-service';
+import {
+  changeProductPrice,
+  createProduct,
+  deactivateProduct,
+  fetchAdminProducts,
+  reactivateProduct,
+  setProductFeatured,
+  updateProduct,
+} from '@/lib/catalog-admin-service';
+import type { AdminProduct, ApiError, Category } from '@/types/api';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+
+interface ProductFormState {
+  name: string;
+  description: string;
+  category: string;
+  price: string;
+  requiresPrescription: boolean;
+}
+
+const EMPTY_FORM: ProductFormState = {
+  name: '',
+  description: '',
+  category: 'GENERAL',
+  price: '',
+  requiresPrescription: false,
+};
+
+/**
+ * Admin catalog management: create, edit, reprice, feature and
+ * deactivate products. Deactivated products stay listed here.
+ */
+export default function AdminCatalogPage() {
+  const [products, setProducts] = useState<AdminProduct[]>([]);
+  const [categories, setCategories] = useState<Category[]>([]);
+  const [search, setSearch] = useState('');
+  const [includeInactive, setIncludeInactive] = useState(true);
+  const [form, setForm] = useState<ProductFormState>(EMPTY_FORM);
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [prices, setPrices] = useState<Record<string, string>>({});
+  const [isLoading, setIsLoading] = useState(true);
+  const [isSaving, setIsSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [success, setSuccess] = useState<string | null>(null);
+
+  const loadProducts = useCallback(async () => {
+    setIsLoading(true);
+    setError(null);
+
+    try {
+      const response = await fetchAdminProducts({ search, includeInactive, limit: 50 });
+      setProducts(response.data ?? []);
+    } catch (err) {
+      setError(getErrorMessage(err, 'Unable to load products'));
+    } finally {
+      setIsLoading(false);
+    }
+  }, [search, includeInactive]);
+
+  useEffect(() => {
+    loadProducts();
+  }, [loadProducts]);
+
+  useEffect(() => {
+    fetchCategories()
+      .then(setCategories)
+      .catch(() => setCategories([]));
+  }, []);
+
+  const replaceProduct = (updated: AdminProduct) => {
+    setProducts((prev) => prev.map((item) => (item.id === updated.id ? updated : item)));
+  };
+
+  const runAction = async (action: () => Promise<AdminProduct>, message: string) => {
+    setError(null);
+    setSuccess(null);
+    setIsSaving(true);
+
+    try {
+      replaceProduct(await action());
+      setSuccess(message);
+    } catch (err) {
+      setError(getErrorMessage(err, 'Unable to update product'));
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleSubmit = async (event: FormEvent) => {
+    event.preventDefault();
+    setError(null);
+    setSuccess(null);
+    setIsSaving(true);
+
+    try {
+      const details = {
+        name: form.name,
+        description: form.description.trim() || null,
+        category: form.category,
+        requiresPrescription: form.requiresPrescription,
+      };
+      if (editingId) {
+        replaceProduct(await updateProduct(editingId, details));
+        setSuccess('Product updated');
+      } else {
+        const created = await createProduct({ ...details, price: Number(form.price) });
+        setProducts((prev) => [created, ...prev]);
+        setSuccess('Product created');
+      }
+      setForm(EMPTY_FORM);
+      setEditingId(null);
+    } catch (err) {
+      setError(getErrorMessage(err, 'Unable to save product'));
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleEdit = (product: AdminProduct) => {
+    setEditingId(product.id);
+    setForm({
+      name: product.name,
+      description: product.description ?? '',
+      category: product.category,
+      price: String(product.price.amount),
+      requiresPrescription: product.requiresPrescription,
+    });
+  };
+
+  const handleCancelEdit = () => {
+    setEditingId(null);
+    setForm(EMPTY_FORM);
+  };
+
+  return (
+    <ProtectedRoute requiredRoles={['ADMIN']}>
+      <div className="mx-auto flex w-full max-w-4xl flex-col gap-6">
+        <div className="flex flex-col gap-2">
+          <h1 className="text-2xl font-semibold">Catalog Management</h1>
+          <p className="text-sm text-muted-foreground">
+            Add products, edit details and prices, and hide products from the storefront.
+          </p>
+          <p className="text-sm text-muted-foreground">Route: {ROUTES.ADMIN_CATALOG}</p>
+        </div>
+
+        {error && (
+          <div className="rounded-lg border border-destructive/30 bg-destructive/10 p-3 text-sm text-destructive">
+            {error}
+          </div>
+        )}
+        {success && (
+          <div className="rounded-lg border border-emerald-300 bg-emerald-50 p-3 text-sm text-emerald-700">
+            {success}
+          </div>
+        )}
+
+        <Card>
+          <CardHeader>
+            <CardTitle>{editingId ? 'Edit Product' : 'New Product'}</CardTitle>
+            <CardDescription>
+              {editingId
+                ? 'Price, featured and active status are changed from the product list.'
+                : 'Prices are in rupees.'}
+            </CardDescription>
+          </CardHeader>
+          <CardContent>
+            <form onSubmit={handleSubmit} className="space-y-4">
+              <div className="space-y-2">
+                <Label htmlFor="product-name">Name</Label>
+                <Input
+                  id="product-name"
+                  value={form.name}
+                  onChange={(event) => setForm({ ...form, name: event.target.value })}
+                  required
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="product-description">Description</Label>
+                <Input
+                  id="product-description"
+                  value={form.description}
+                  onChange={(event) => setForm({ ...form, description: event.target.value })}
+                />
+              </div>
+              <div className="grid gap-4 sm:grid-cols-2">
+                <div className="space-y-2">
+                  <Label htmlFor="product-category">Category</Label>
+                  <select
+                    id="product-category"
+                    className="h-10 w-full rounded-md border border-input bg-background px-3 text-sm"
+                    value={form.category}
+                    onChange={(event) => setForm({ ...form, category: event.target.value })}
+                  >
+                    {categories.map((category) => (
+                      <option key={category.code} value={category.code}>
+                        {category.label}
+                      </option>
+                    ))}
+                  </select>
+                </div>
+                {!editingId && (
+                  <div className="space-y-2">
+                    <Label htmlFor="product-price">Price (₹)</Label>
+                    <Input
+                      id="product-price"
+                      type="number"
+                      min="0.01"
+                      step="0.01"
+                      value={form.price}
+                      onChange={(event) => setForm({ ...form, price: event.target.value })}
+                      required
+                    />
+                  </div>
+                )}
+              </div>
+              <label className="flex items-center gap-2 text-sm">
+                <input
+                  type="checkbox"
+                  checked={form.requiresPrescription}
+                  onChange={(event) =>
+                    setForm({ ...form, requiresPrescription: event.target.checked })
+                  }
+                />
+                Requires prescription
+              </label>
+              <div className="flex flex-wrap gap-2">
+                <Button type="submit" disabled={isSaving}>
+                  {editingId ? 'Save changes' : 'Create product'}
+                </Button>
+                {editingId && (
+                  <Button type="button" variant="outline" onClick={handleCancelEdit}>
+                    Cancel
+                  </Button>
+                )}
+              </div>
+            </form>
+          </CardContent>
+        </Card>
+
+        <Card>
+          <CardHeader>
+            <CardTitle>Products</CardTitle>
+            <CardDescription>Deactivated products are hidden from customers.</CardDescription>
+          </CardHeader>
+          <CardContent>
+            <div className="mb-4 flex flex-wrap items-center gap-3">
+              <Input
+                placeholder="Search products"
+                value={search}
+                onChange={(event) => setSearch(event.target.value)}
+                className="max-w-xs"
+              />
+              <label className="flex items-center gap-2 text-sm">
+                <input
+                  type="checkbox"
+                  checked={includeInactive}
+                  onChange={(event) => setIncludeInactive(event.target.checked)}
+                />
+                Show inactive
+              </label>
+            </div>
+
+            {isLoading && <p className="text-sm text-muted-foreground">Loading products...</p>}
+
+            {!isLoading && products.length === 0 && (
+              <div className="rounded-lg border border-dashed p-6 text-center text-sm text-muted-foreground">
+                No products found.
+              </div>
+            )}
+
+            {!isLoading && products.length > 0 && (
+              <div className="space-y-4">
+                {products.map((product) => (
+                  <div key={product.id} className="rounded-lg border p-4 shadow-sm">
+                    <div className="flex flex-wrap items-center justify-between gap-3">
+                      <div className="flex flex-wrap items-center gap-2">
+                        <h3 className="text-base font-semibold">{product.name}</h3>
+                        {!product.isActive && <Badge variant="destructive">Inactive</Badge>}
+                        {product.isFeatured && <Badge variant="secondary">Featured</Badge>}
+                        {product.requiresPrescription && <Badge variant="outline">Rx</Badge>}
+                      </div>
+                      <span className="text-sm font-medium">{product.price.formatted}</span>
+                    </div>
+
+                    <div className="mt-2 text-sm text-muted-foreground">
+                      <p>ID: {product.id}</p>
+                      <p>Category: {product.categoryLabel}</p>
+                      <p>Updated: {formatDate(product.updatedAt)}</p>
+                    </div>
+
+                    <div className="mt-4 flex flex-wrap items-center gap-2">
+                      <Input
+                        type="number"
+                        min="0.01"
+                        step="0.01"
+                        className="w-28"
+                        aria-label={`New price for ${product.name}`}
+                        value={prices[product.id] ?? String(product.price.amount)}
+                        onChange={(event) =>
+                          setPrices((prev) => ({ ...prev, [product.id]: event.target.value }))
+                        }
+                      />
+                      <Button
+                        variant="outline"
+                        disabled={isSaving}
+                        onClick={() =>
+                          runAction(
+                            () =>
+                              changeProductPrice(
+                                product.id,
+                                Number(prices[product.id] ?? product.price.amount),
+                              ),
+                            'Price updated',
+                          )
+                        }
+                      >
+                        Update price
+                      </Button>
+                      <Button
+                        variant="outline"
+                        disabled={isSaving}
+                        onClick={() => handleEdit(product)}
+                      >
+                        Edit
+                      </Button>
+                      <Button
+                        variant="secondary"
+                        disabled={isSaving}
+                        onClick={() =>
+                          runAction(
+                            () => setProductFeatured(product.id, !product.isFeatured),
+                            product.isFeatured ? 'Product unfeatured' : 'Product featured',
+                          )
+                        }
+                      >
+                        {product.isFeatured ? 'Unfeature' : 'Feature'}
+                      </Button>
+                      {product.isActive ? (
+                        <Button
+                          variant="destructive"
+                          disabled={isSaving}
+                          onClick={() =>
+                            runAction(() => deactivateProduct(product.id), 'Product deactivated')
+                          }
+                        >
+                          Deactivate
+                        </Button>
+                      ) : (
+                        <Button
+                          variant="secondary"
+                          disabled={isSaving}
+                          onClick={() =>
+                            runAction(() => reactivateProduct(product.id), 'Product reactivated')
+                          }
+                        >
+                          Reactivate
+                        </Button>
+                      )}
+                    </div>
+                  </div>
+                ))}
+              </div>
+            )}
+          </CardContent>
+        </Card>
+      </div>
+    </ProtectedRoute>
+  );
+}
+
+function formatDate(value: string) {
+  return new Date(value).toLocaleString('en-IN', {
+    year: 'numeric',
+    month: 'short',
+    day: 'numeric',
+  });
+}
+
+function getErrorMessage(error: unknown, fallback: string): string {
+  if (error && typeof error === 'object' && 'error' in error) {
+    const apiError = error as ApiError;
+    if (apiError.error?.message) {
+      return apiError.error.message;
+    }
+  }
+  if (error instanceof Error) {
+    return error.message;
+  }
+  return fallback;
+}
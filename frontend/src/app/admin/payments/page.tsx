@@ -1,31 +1,43 @@
 'use client';
 
 import { useCallback, useEffect, useState } from 'react';
+import Link from 'next/link';
 import { ProtectedRoute } from '@/components/ProtectedRoute';
 import { apiClient } from '@/lib/api-client';
 import { ROUTES } from '@/lib/constants';
+import { getFileDownloadUrl } from '@/lib/file-service';
 import type { ApiError } from '@/types/api';
 import { Button } from '@/components/ui/button';
 import { Badge } from '@/components/ui/badge';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
 
 interface PaymentIntentReviewItem {
   id: string;
   orderId: string;
-  method: 'UPI' | 'COD';
-  status: 'PENDING' | 'SUBMITTED' | 'VERIFIED' | 'REJECTED';
+  method: 'UPI' | 'COD' | 'ONLINE';
+  status: 'PENDING' | 'SUBMITTED' | 'VERIFIED' | 'REJECTED' | 'REFUNDED' | 'EXPIRED';
   referenceId?: string | null;
   proofReference?: string | null;
+  rejectionReason?: string | null;
   createdAt: string;
   verifiedAt?: string | null;
+  /** Order total; the amount received must match it to verify */
+  expectedAmount: { amount: number; currency: string };
 }
 
+type RejectState = Record<string, string>;
+type AmountState = Record<string, string>;
+
 export default function AdminPaymentsPage() {
   const [payments, setPayments] = useState<PaymentIntentReviewItem[]>([]);
   const [isLoading, setIsLoading] = useState(true);
   const [isSaving, setIsSaving] = useState(false);
   const [error, setError] = useState<string | null>(null);
   const [success, setSuccess] = useState<string | null>(null);
+  const [rejectReasons, setRejectReasons] = useState<RejectState>({});
+  const [amountsReceived, setAmountsReceived] = useState<AmountState>({});
 
   const loadPending = useCallback(async () => {
     setIsLoading(true);
@@ -49,10 +61,18 @@ export default function AdminPaymentsPage() {
   const handleVerify = async (id: string) => {
     setError(null);
     setSuccess(null);
+
+    const amountReceived = Number(amountsReceived[id]);
+    if (!amountsReceived[id] || !Number.isFinite(amountReceived) || amountReceived <= 0) {
+      setError('Enter the amount received against the reference before verifying');
+      return;
+    }
     setIsSaving(true);
 
     try {
-      await apiClient.post<PaymentIntentReviewItem>(`/admin/payments/${id}/verify`);
+      await apiClient.post<PaymentIntentReviewItem>(`/admin/payments/${id}/verify`, {
+        amountReceived,
+      });
       setSuccess('Payment verified');
       setPayments((prev) => prev.filter((item) => item.id !== id));
     } catch (err) {
@@ -68,7 +88,9 @@ export default function AdminPaymentsPage() {
     setIsSaving(true);
 
     try {
-      await apiClient.post<PaymentIntentReviewItem>(`/admin/payments/${id}/reject`);
+      await apiClient.post<PaymentIntentReviewItem>(`/admin/payments/${id}/reject`, {
+        rejectionReason: rejectReasons[id] || undefined,
+      });
       setSuccess('Payment rejected');
       setPayments((prev) => prev.filter((item) => item.id !== id));
     } catch (err) {
@@ -78,15 +100,32 @@ export default function AdminPaymentsPage() {
     }
   };
 
+  const handleViewFile = async (fileId: string) => {
+    setError(null);
+    try {
+      const { url } = await getFileDownloadUrl(fileId);
+      window.open(url, '_blank', 'noopener,noreferrer');
+    } catch (err) {
+      setError(getErrorMessage(err, 'Unable to open payment proof file'));
+    }
+  };
+
   return (
     <ProtectedRoute requiredRoles={['ADMIN']}>
       <div className="mx-auto flex w-full max-w-4xl flex-col gap-6">
         <div className="flex flex-col gap-2">
           <h1 className="text-2xl font-semibold">Payments Review</h1>
           <p className="text-sm text-muted-foreground">
-            Review submitted UPI payments and verify or reject them.
+            Review submitted UPI payments: check the amount received against the reference,
+            then verify or reject them.
           </p>
           <p className="text-sm text-muted-foreground">Route: {ROUTES.ADMIN_PAYMENTS}</p>
+          <Link
+            href={ROUTES.ADMIN_PAYMENT_RECONCILIATION}
+            className="text-sm text-blue-700 no-underline"
+          >
+            Reconcile a bank statement →
+          </Link>
         </div>
 
         <Card>
@@ -132,11 +171,42 @@ export default function AdminPaymentsPage() {
                     <div className="mt-3 text-sm text-muted-foreground">
                       <p>Payment Intent ID: {payment.id}</p>
                       <p>Method: {payment.method}</p>
+                      <p className="font-medium text-foreground">
+                        Expected amount: {formatAmount(payment.expectedAmount)}
+                      </p>
                       <p>Reference ID: {payment.referenceId || 'N/A'}</p>
                       <p>Proof: {payment.proofReference || 'N/A'}</p>
                     </div>
 
-                    <div className="mt-4 flex flex-wrap gap-2">
+                    {payment.proofReference && (
+                      <Button
+                        variant="outline"
+                        className="mt-4"
+                        onClick={() => handleViewFile(payment.proofReference as string)}
+                      >
+                        View proof
+                      </Button>
+                    )}
+
+                    <div className="mt-4 grid gap-3 md:grid-cols-[1fr_auto] md:items-end">
+                      <div className="space-y-2">
+                        <Label htmlFor={`amount-${payment.id}`}>Amount received (₹)</Label>
+                        <Input
+                          id={`amount-${payment.id}`}
+                          type="number"
+                          min="0.01"
+                          step="0.01"
+                          value={amountsReceived[payment.id] ?? ''}
+                          onChange={(event) =>
+                            setAmountsReceived((prev) => ({
+                              ...prev,
+                              [payment.id]: event.target.value,
+                            }))
+                          }
+                          placeholder="As shown for this reference"
+                          disabled={isSaving}
+                        />
+                      </div>
                       <Button
                         variant="secondary"
                         onClick={() => handleVerify(payment.id)}
@@ -144,6 +214,21 @@ export default function AdminPaymentsPage() {
                       >
                         Verify
                       </Button>
+                      <div className="space-y-2">
+                        <Label htmlFor={`reject-${payment.id}`}>Rejection reason</Label>
+                        <Input
+                          id={`reject-${payment.id}`}
+                          value={rejectReasons[payment.id] ?? ''}
+                          onChange={(event) =>
+                            setRejectReasons((prev) => ({
+                              ...prev,
+                              [payment.id]: event.target.value,
+                            }))
+                          }
+                          placeholder="Shown to the customer"
+                          disabled={isSaving}
+                        />
+                      </div>
                       <Button
                         variant="destructive"
                         onClick={() => handleReject(payment.id)}
@@ -171,6 +256,12 @@ function formatDate(value: string) {
   });
 }
 
+function formatAmount(money: { amount: number; currency: string }) {
+  return new Intl.NumberFormat('en-IN', { style: 'currency', currency: money.currency }).format(
+    money.amount,
+  );
+}
+
 function getErrorMessage(error: unknown, fallback: string): string {
   if (error && typeof error === 'object' && 'error' in error) {
     const apiError = error as ApiError;
@@ -0,0 +1,223 @@
+'use client';
+
+import { useState, type FormEvent } from 'react';
+import Link from 'next/link';
+import { ProtectedRoute } from '@/components/ProtectedRoute';
+import { ROUTES } from '@/lib/constants';
+import { reconcileStatement } from '@/lib/reconciliation-service';
+import type {
+  ReconciliationItemStatus,
+  ReconciliationReport,
+} from '@/lib/reconciliation-service';
+import type { ApiError } from '@/types/api';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+
+type BadgeVariant = 'default' | 'secondary' | 'destructive' | 'outline' | 'warning' | 'success';
+
+const STATUS_LABELS: Record<ReconciliationItemStatus, { label: string; variant: BadgeVariant }> = {
+  MATCHED: { label: 'Matched', variant: 'success' },
+  VERIFIED: { label: 'Verified', variant: 'success' },
+  VERIFY_FAILED: { label: 'Verify failed', variant: 'destructive' },
+  AMOUNT_MISMATCH: { label: 'Amount mismatch', variant: 'destructive' },
+  DUPLICATE: { label: 'Duplicate', variant: 'destructive' },
+  ALREADY_VERIFIED: { label: 'Already verified', variant: 'secondary' },
+  UNMATCHED_CREDIT: { label: 'Unmatched credit', variant: 'warning' },
+  UNMATCHED_PAYMENT: { label: 'Not on statement', variant: 'outline' },
+};
+
+/**
+ * Payment Reconciliation Page (admin)
+ *
+ * Route: /admin/payments/reconciliation
+ * Upload a bank / UPI statement CSV, review the report, then verify every
+ * matched payment in one go. Everything else is resolved on the review page.
+ */
+export default function AdminPaymentReconciliationPage() {
+  const [file, setFile] = useState<File | null>(null);
+  const [report, setReport] = useState<ReconciliationReport | null>(null);
+  const [isWorking, setIsWorking] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const run = async (dryRun: boolean) => {
+    if (!file) {
+      setError('Choose a statement CSV first');
+      return;
+    }
+    setError(null);
+    setIsWorking(true);
+    try {
+      setReport(await reconcileStatement(file, dryRun));
+    } catch (err) {
+      setError(getErrorMessage(err, 'Unable to reconcile statement'));
+    } finally {
+      setIsWorking(false);
+    }
+  };
+
+  const handleCheck = (event: FormEvent) => {
+    event.preventDefault();
+    run(true);
+  };
+
+  const matchedCount = report?.dryRun ? report.summary.MATCHED : 0;
+
+  return (
+    <ProtectedRoute requiredRoles={['ADMIN']}>
+      <div className="mx-auto flex w-full max-w-5xl flex-col gap-6">
+        <div className="flex flex-col gap-2">
+          <h1 className="text-2xl font-semibold">Payment Reconciliation</h1>
+          <p className="text-sm text-muted-foreground">
+            Match a bank or UPI statement against submitted UPI payments by reference and amount.
+          </p>
+          <Link href={ROUTES.ADMIN_PAYMENTS} className="text-sm text-blue-700 no-underline">
+            ← Back to payments review
+          </Link>
+        </div>
+
+        <Card>
+          <CardHeader>
+            <CardTitle>Statement</CardTitle>
+            <CardDescription>
+              CSV with a reference (UTR) or narration column and an amount or credit column.
+            </CardDescription>
+          </CardHeader>
+          <CardContent>
+            <form onSubmit={handleCheck} className="flex flex-col gap-3 md:flex-row md:items-end">
+              <div className="flex-1 space-y-2">
+                <Label htmlFor="statement">Statement CSV</Label>
+                <Input
+                  id="statement"
+                  type="file"
+                  accept=".csv,text/csv"
+                  onChange={(event) => {
+                    setFile(event.target.files?.[0] ?? null);
+                    setReport(null);
+                  }}
+                  disabled={isWorking}
+                />
+              </div>
+              <Button type="submit" variant="secondary" disabled={isWorking || !file}>
+                {isWorking ? 'Checking...' : 'Check statement'}
+              </Button>
+            </form>
+
+            {error && (
+              <div className="mt-4 rounded-lg border border-destructive/30 bg-destructive/10 p-3 text-sm text-destructive">
+                {error}
+              </div>
+            )}
+          </CardContent>
+        </Card>
+
+        {report && (
+          <Card>
+            <CardHeader>
+              <CardTitle>{report.dryRun ? 'Proposed' : 'Result'}</CardTitle>
+              <CardDescription>
+                {report.totalCredits} credit(s) on the statement.
+                {report.dryRun
+                  ? ' Nothing has been verified yet.'
+                  : ` ${report.summary.VERIFIED} payment(s) verified.`}
+              </CardDescription>
+            </CardHeader>
+            <CardContent className="space-y-4">
+              <div className="flex flex-wrap gap-2">
+                {(Object.keys(STATUS_LABELS) as ReconciliationItemStatus[])
+                  .filter((status) => report.summary[status] > 0)
+                  .map((status) => (
+                    <Badge key={status} variant={STATUS_LABELS[status].variant}>
+                      {STATUS_LABELS[status].label}: {report.summary[status]}
+                    </Badge>
+                  ))}
+              </div>
+
+              {matchedCount > 0 && (
+                <Button onClick={() => run(false)} disabled={isWorking}>
+                  {isWorking ? 'Verifying...' : `Verify ${matchedCount} matched payment(s)`}
+                </Button>
+              )}
+
+              {report.errors.length > 0 && (
+                <div className="rounded-lg border border-amber-300 bg-amber-50 p-3 text-sm text-amber-800">
+                  <p className="font-medium">Rows that could not be read</p>
+                  <ul className="mt-1 list-disc pl-5">
+                    {report.errors.map((rowError) => (
+                      <li key={rowError.row}>
+                        Row {rowError.row}: {rowError.message}
+                      </li>
+                    ))}
+                  </ul>
+                </div>
+              )}
+
+              {report.items.length === 0 ? (
+                <div className="rounded-lg border border-dashed p-6 text-center text-sm text-muted-foreground">
+                  No credits and no submitted payments to reconcile.
+                </div>
+              ) : (
+                <div className="overflow-x-auto">
+                  <table className="w-full text-left text-sm">
+                    <thead className="text-muted-foreground">
+                      <tr className="border-b">
+                        <th className="py-2 pr-3 font-medium">Row</th>
+                        <th className="py-2 pr-3 font-medium">Reference</th>
+                        <th className="py-2 pr-3 font-medium">Received</th>
+                        <th className="py-2 pr-3 font-medium">Order</th>
+                        <th className="py-2 pr-3 font-medium">Expected</th>
+                        <th className="py-2 pr-3 font-medium">Status</th>
+                      </tr>
+                    </thead>
+                    <tbody>
+                      {report.items.map((item, index) => (
+                        <tr key={`${item.row ?? 'payment'}-${index}`} className="border-b align-top">
+                          <td className="py-2 pr-3">{item.row ?? '—'}</td>
+                          <td className="py-2 pr-3 font-mono">{item.referenceId}</td>
+                          <td className="py-2 pr-3">
+                            {item.amountReceived ? formatAmount(item.amountReceived) : '—'}
+                          </td>
+                          <td className="py-2 pr-3">{item.orderId ?? '—'}</td>
+                          <td className="py-2 pr-3">
+                            {item.expectedAmount ? formatAmount(item.expectedAmount) : '—'}
+                          </td>
+                          <td className="py-2 pr-3">
+                            <Badge variant={STATUS_LABELS[item.status].variant}>
+                              {STATUS_LABELS[item.status].label}
+                            </Badge>
+                            <p className="mt-1 text-xs text-muted-foreground">{item.message}</p>
+                          </td>
+                        </tr>
+                      ))}
+                    </tbody>
+                  </table>
+                </div>
+              )}
+            </CardContent>
+          </Card>
+        )}
+      </div>
+    </ProtectedRoute>
+  );
+}
+
+function formatAmount(money: { amount: number; currency: string }) {
+  return new Intl.NumberFormat('en-IN', { style: 'currency', currency: money.currency }).format(
+    money.amount,
+  );
+}
+
+function getErrorMessage(error: unknown, fallback: string): string {
+  if (error && typeof error === 'object' && 'error' in error) {
+    const apiError = error as ApiError;
+    if (apiError.error?.message) {
+      return apiError.error.message;
+    }
+  }
+  if (error instanceof Error) {
+    return error.message;
+  }
+  return fallback;
+}
@@ -4,6 +4,7 @@ import { useCallback, useEffect, useState } from 'react';
 import { ProtectedRoute } from '@/components/ProtectedRoute';
 import { apiClient } from '@/lib/api-client';
 import { ROUTES } from '@/lib/constants';
+import { getFileDownloadUrl } from '@/lib/file-service';
 import type { ApiError } from '@/types/api';
 import { Button } from '@/components/ui/button';
 import { Badge } from '@/components/ui/badge';
@@ -85,6 +86,16 @@ export default function AdminPrescriptionsPage() {
     }
   };
 
+  const handleViewFile = async (fileId: string) => {
+    setError(null);
+    try {
+      const { url } = await getFileDownloadUrl(fileId);
+      window.open(url, '_blank', 'noopener,noreferrer');
+    } catch (err) {
+      setError(getErrorMessage(err, 'Unable to open prescription file'));
+    }
+  };
+
   return (
     <ProtectedRoute requiredRoles={['ADMIN']}>
       <div className="mx-auto flex w-full max-w-4xl flex-col gap-6">
@@ -143,6 +154,14 @@ export default function AdminPrescriptionsPage() {
                       <p>Reference: {prescription.fileReference}</p>
                     </div>
 
+                    <Button
+                      variant="link"
+                      className="mt-2 h-auto px-0"
+                      onClick={() => handleViewFile(prescription.fileReference)}
+                    >
+                      View prescription file
+                    </Button>
+
                     <div className="mt-4 grid gap-3 md:grid-cols-[1fr_auto_auto] md:items-end">
                       <div className="space-y-2">
                         <Label htmlFor={`reject-${prescription.id}`}>Rejection reason</Label>
@@ -5,7 +5,7 @@ import { useParams } from 'next/navigation';
 import Link from 'next/link';
 import { ROUTES } from '@/lib/constants';
 import { useAuth } from '@/lib/auth-context';
-import { fetchProductById } from '@/lib/catalog-service';
+import { fetchProductById, STOCK_STATUS_LABELS } from '@/lib/catalog-service';
 import {
   addItemToCart,
   updateCartItem,
@@ -114,6 +114,7 @@ export default function ProductDetailPage() {
   };
 
   const qty = getCartQuantity();
+  const isOutOfStock = product?.stockStatus === 'OUT_OF_STOCK';
 
   return (
     <div>
@@ -179,8 +180,8 @@ export default function ProductDetailPage() {
 
             <div style={styles.detailRow}>
               <span style={styles.label}>Status</span>
-              <span style={product.isActive ? styles.statusActive : styles.statusInactive}>
-                {product.isActive ? 'Available' : 'Unavailable'}
+              <span style={getStatusStyle(product)}>
+                {product.isActive ? STOCK_STATUS_LABELS[product.stockStatus] : 'Unavailable'}
               </span>
             </div>
 
@@ -220,10 +221,10 @@ export default function ProductDetailPage() {
                   </span>
                   <button
                     onClick={() => handleUpdateQuantity(qty + 1)}
-                    disabled={isUpdating}
+                    disabled={isUpdating || isOutOfStock}
                     style={{
                       ...styles.quantityButton,
-                      ...(isUpdating ? styles.quantityButtonDisabled : {}),
+                      ...(isUpdating || isOutOfStock ? styles.quantityButtonDisabled : {}),
                     }}
                   >
                     +
@@ -237,13 +238,13 @@ export default function ProductDetailPage() {
               // Show Add to Cart button
               <button
                 onClick={handleAddToCart}
-                disabled={isUpdating || !product.isActive || isAuthLoading}
+                disabled={isUpdating || !product.isActive || isOutOfStock || isAuthLoading}
                 style={{
                   ...styles.addToCartButton,
-                  ...((isUpdating || !product.isActive || isAuthLoading) ? styles.addToCartButtonDisabled : {}),
+                  ...((isUpdating || !product.isActive || isOutOfStock || isAuthLoading) ? styles.addToCartButtonDisabled : {}),
                 }}
               >
-                {isUpdating ? 'Adding...' : 'Add to Cart'}
+                {isOutOfStock ? 'Out of Stock' : isUpdating ? 'Adding...' : 'Add to Cart'}
               </button>
             )}
           </div>
@@ -258,6 +259,12 @@ export default function ProductDetailPage() {
   );
 }
 
+function getStatusStyle(product: Product): React.CSSProperties {
+  if (!product.isActive || product.stockStatus === 'OUT_OF_STOCK') return styles.statusInactive;
+  if (product.stockStatus === 'LOW_STOCK') return styles.statusLowStock;
+  return styles.statusActive;
+}
+
 const styles: Record<string, React.CSSProperties> = {
   backLink: {
     display: 'inline-block',
@@ -365,6 +372,10 @@ const styles: Record<string, React.CSSProperties> = {
     color: '#dc2626',
     fontWeight: '500',
   },
+  statusLowStock: {
+    color: '#b45309',
+    fontWeight: '500',
+  },
   descriptionSection: {
     marginTop: '0.5rem',
     paddingTop: '1rem',
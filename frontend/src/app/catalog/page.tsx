@@ -5,7 +5,7 @@ import { useRouter, useSearchParams } from 'next/navigation';
 import Link from 'next/link';
 import { useAuth } from '@/lib/auth-context';
 import { ROUTES } from '@/lib/constants';
-import { fetchProducts, fetchCategories } from '@/lib/catalog-service';
+import { fetchProducts, fetchCategories, STOCK_STATUS_LABELS } from '@/lib/catalog-service';
 import { addItemToCart, getCart } from '@/lib/cart-service';
 import { calculatePricingDisplay, formatPrice } from '@/lib/pricing-display';
 import type { ProductSummary, PaginationMeta, Category, Cart } from '@/types/api';
@@ -398,6 +398,17 @@ function CatalogPageContent() {
                     </div>
                     <div style={styles.cardBody}>
                       <span style={styles.category}>{product.categoryLabel}</span>
+                      {product.stockStatus !== 'IN_STOCK' && (
+                        <span
+                          style={
+                            product.stockStatus === 'OUT_OF_STOCK'
+                              ? styles.outOfStock
+                              : styles.lowStock
+                          }
+                        >
+                          {STOCK_STATUS_LABELS[product.stockStatus]}
+                        </span>
+                      )}
                       {(() => {
                         const pricing = calculatePricingDisplay(
                           product.price.amount,
@@ -423,6 +434,7 @@ function CatalogPageContent() {
                     {(() => {
                       const qty = getCartQuantity(product.id);
                       const isUpdating = addingToCart === product.id;
+                      const isOutOfStock = product.stockStatus === 'OUT_OF_STOCK';
                       
                       if (qty > 0) {
                         // Show quantity controls + View Cart
@@ -444,10 +456,10 @@ function CatalogPageContent() {
                               </span>
                               <button
                                 onClick={(e) => handleUpdateQuantity(e, product.id, qty + 1)}
-                                disabled={isUpdating}
+                                disabled={isUpdating || isOutOfStock}
                                 style={{
                                   ...styles.quantityButton,
-                                  ...(isUpdating ? styles.quantityButtonDisabled : {}),
+                                  ...(isUpdating || isOutOfStock ? styles.quantityButtonDisabled : {}),
                                 }}
                               >
                                 +
@@ -468,13 +480,13 @@ function CatalogPageContent() {
                       return (
                         <button
                           onClick={(e) => handleAddToCart(e, product.id)}
-                          disabled={isUpdating}
+                          disabled={isUpdating || isOutOfStock}
                           style={{
                             ...styles.addToCartButton,
-                            ...(isUpdating ? styles.addToCartButtonDisabled : {}),
+                            ...(isUpdating || isOutOfStock ? styles.addToCartButtonDisabled : {}),
                           }}
                         >
-                          {isUpdating ? 'Adding...' : 'Add to Cart'}
+                          {isOutOfStock ? 'Out of Stock' : isUpdating ? 'Adding...' : 'Add to Cart'}
                         </button>
                       );
                     })()}
@@ -650,6 +662,16 @@ const styles: Record<string, React.CSSProperties> = {
     fontWeight: '600',
     borderRadius: '4px',
   },
+  lowStock: {
+    fontSize: '0.75rem',
+    fontWeight: '500',
+    color: '#b45309',
+  },
+  outOfStock: {
+    fontSize: '0.75rem',
+    fontWeight: '500',
+    color: '#dc2626',
+  },
   cardBody: {
     display: 'flex',
     justifyContent: 'space-between',
@@ -13,14 +13,20 @@ import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/com
 /**
  * Login Page
  *
- * Phone number + password authentication form.
+ * Phone number + password authentication form, or a one-time code sent
+ * by SMS (which also registers numbers that have no account yet).
  * Redirects to home on successful login.
  */
 export default function LoginPage() {
+  const [mode, setMode] = useState<'password' | 'otp'>('password');
   const [phoneNumber, setPhoneNumber] = useState('');
   const [password, setPassword] = useState('');
+  const [code, setCode] = useState('');
+  const [name, setName] = useState('');
+  const [codeSent, setCodeSent] = useState(false);
   const [localError, setLocalError] = useState<string | null>(null);
-  const { login, isLoading, isAuthenticated, error, clearError } = useAuth();
+  const { login, requestOtp, loginWithOtp, isLoading, isAuthenticated, error, clearError } =
+    useAuth();
   const router = useRouter();
 
   // Redirect if already authenticated
@@ -52,6 +58,55 @@ export default function LoginPage() {
     }
   };
 
+  const handleRequestCode = async (e?: FormEvent) => {
+    e?.preventDefault();
+    setLocalError(null);
+    clearError();
+
+    if (!phoneNumber.trim()) {
+      setLocalError('Phone number is required');
+      return;
+    }
+
+    try {
+      const result = await requestOtp(phoneNumber.trim());
+      setPhoneNumber(result.phoneNumber);
+      setCodeSent(true);
+    } catch {
+      // Error is handled by auth context
+    }
+  };
+
+  const handleVerifyCode = async (e: FormEvent) => {
+    e.preventDefault();
+    setLocalError(null);
+    clearError();
+
+    if (!code.trim()) {
+      setLocalError('Enter the code we sent you');
+      return;
+    }
+
+    try {
+      await loginWithOtp({
+        phoneNumber,
+        code: code.trim(),
+        name: name.trim() || undefined,
+      });
+      router.push(ROUTES.HOME);
+    } catch {
+      // Error is handled by auth context
+    }
+  };
+
+  const switchMode = (next: 'password' | 'otp') => {
+    setMode(next);
+    setCodeSent(false);
+    setCode('');
+    setLocalError(null);
+    clearError();
+  };
+
   const displayError = localError || error;
 
   return (
@@ -69,40 +124,121 @@ export default function LoginPage() {
             </div>
           )}
 
-          <form onSubmit={handleSubmit} className="space-y-4" autoComplete="on">
-            <div className="space-y-2">
-              <Label htmlFor="login-phone">Phone Number</Label>
-              <Input
-                id="login-phone"
-                name="username"
-                type="tel"
-                inputMode="tel"
-                value={phoneNumber}
-                onChange={(e) => setPhoneNumber(e.target.value)}
-                placeholder="+91 900 9090467"
-                autoComplete="username tel"
-                disabled={isLoading}
-              />
-            </div>
+          {mode === 'password' ? (
+            <form onSubmit={handleSubmit} className="space-y-4" autoComplete="on">
+              <div className="space-y-2">
+                <Label htmlFor="login-phone">Phone Number</Label>
+                <Input
+                  id="login-phone"
+                  name="username"
+                  type="tel"
+                  inputMode="tel"
+                  value={phoneNumber}
+                  onChange={(e) => setPhoneNumber(e.target.value)}
+                  placeholder="+91 900 9090467"
+                  autoComplete="username tel"
+                  disabled={isLoading}
+                />
+              </div>
+
+              <div className="space-y-2">
+                <Label htmlFor="login-password">Password</Label>
+                <Input
+                  id="login-password"
+                  name="password"
+                  type="password"
+                  value={password}
+                  onChange={(e) => setPassword(e.target.value)}
+                  placeholder="••••••••"
+                  autoComplete="current-password"
+                  disabled={isLoading}
+                />
+              </div>
+
+              <Button type="submit" className="w-full mt-2" disabled={isLoading}>
+                {isLoading ? 'Signing in...' : 'Sign In'}
+              </Button>
+            </form>
+          ) : codeSent ? (
+            <form onSubmit={handleVerifyCode} className="space-y-4">
+              <p className="text-sm text-muted-foreground">
+                We sent a code to <span className="font-medium text-foreground">{phoneNumber}</span>.
+              </p>
 
-            <div className="space-y-2">
-              <Label htmlFor="login-password">Password</Label>
-              <Input
-                id="login-password"
-                name="password"
-                type="password"
-                value={password}
-                onChange={(e) => setPassword(e.target.value)}
-                placeholder="••••••••"
-                autoComplete="current-password"
+              <div className="space-y-2">
+                <Label htmlFor="login-code">Code</Label>
+                <Input
+                  id="login-code"
+                  name="code"
+                  type="text"
+                  inputMode="numeric"
+                  value={code}
+                  onChange={(e) => setCode(e.target.value)}
+                  placeholder="123456"
+                  autoComplete="one-time-code"
+                  disabled={isLoading}
+                />
+              </div>
+
+              <div className="space-y-2">
+                <Label htmlFor="login-name">Name (new accounts only)</Label>
+                <Input
+                  id="login-name"
+                  name="name"
+                  type="text"
+                  value={name}
+                  onChange={(e) => setName(e.target.value)}
+                  placeholder="Your name"
+                  autoComplete="name"
+                  disabled={isLoading}
+                />
+              </div>
+
+              <Button type="submit" className="w-full mt-2" disabled={isLoading}>
+                {isLoading ? 'Verifying...' : 'Verify and Sign In'}
+              </Button>
+              <Button
+                type="button"
+                variant="ghost"
+                className="w-full"
+                onClick={() => handleRequestCode()}
                 disabled={isLoading}
-              />
-            </div>
+              >
+                Send a new code
+              </Button>
+            </form>
+          ) : (
+            <form onSubmit={handleRequestCode} className="space-y-4" autoComplete="on">
+              <div className="space-y-2">
+                <Label htmlFor="login-otp-phone">Phone Number</Label>
+                <Input
+                  id="login-otp-phone"
+                  name="username"
+                  type="tel"
+                  inputMode="tel"
+                  value={phoneNumber}
+                  onChange={(e) => setPhoneNumber(e.target.value)}
+                  placeholder="+91 900 9090467"
+                  autoComplete="username tel"
+                  disabled={isLoading}
+                />
+              </div>
+
+              <Button type="submit" className="w-full mt-2" disabled={isLoading}>
+                {isLoading ? 'Sending...' : 'Send Code'}
+              </Button>
+            </form>
+          )}
 
-            <Button type="submit" className="w-full mt-2" disabled={isLoading}>
-              {isLoading ? 'Signing in...' : 'Sign In'}
-            </Button>
-          </form>
+          <Button
+            type="button"
+            variant="link"
+            className="w-full mt-2"
+            onClick={() => switchMode(mode === 'password' ? 'otp' : 'password')}
+            disabled={isLoading}
+          >
+            {mode === 'password' ? 'Sign in with a one-time code' : 'Sign in with a password'}
+          </Button>
 
           <p className="mt-6 text-center text-sm text-muted-foreground">
             Don&apos;t have an account?{' '}
@@ -0,0 +1,151 @@
+'use client';
+
+import { useCallback, useEffect, useState } from 'react';
+import Link from 'next/link';
+import { ProtectedRoute } from '@/components/ProtectedRoute';
+import { useAuth } from '@/lib/auth-context';
+import { ROUTES } from '@/lib/constants';
+import {
+  fetchInbox,
+  markAllNotificationsRead,
+  markNotificationRead,
+  type InboxNotification,
+} from '@/lib/notification-service';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+
+/** The backend keeps the inbox newest first; older messages beyond this are not shown */
+const INBOX_LIMIT = 50;
+
+/**
+ * Notifications Page
+ *
+ * The signed-in user's in-app inbox: order, payment and prescription updates.
+ * Opening a message marks it read.
+ */
+export default function NotificationsPage() {
+  const { isAuthenticated, isLoading: isAuthLoading } = useAuth();
+  const [notifications, setNotifications] = useState<InboxNotification[]>([]);
+  const [unreadCount, setUnreadCount] = useState(0);
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  const loadInbox = useCallback(async () => {
+    setIsLoading(true);
+    setError(null);
+
+    try {
+      const inbox = await fetchInbox(INBOX_LIMIT);
+      setNotifications(inbox.notifications);
+      setUnreadCount(inbox.unreadCount);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to load notifications');
+    } finally {
+      setIsLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    if (isAuthLoading || !isAuthenticated) return;
+    loadInbox();
+  }, [isAuthLoading, isAuthenticated, loadInbox]);
+
+  const handleMarkRead = async (notification: InboxNotification) => {
+    if (notification.read) return;
+
+    try {
+      const updated = await markNotificationRead(notification.id);
+      setNotifications((prev) => prev.map((item) => (item.id === updated.id ? updated : item)));
+      setUnreadCount((prev) => Math.max(0, prev - 1));
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to mark notification as read');
+    }
+  };
+
+  const handleMarkAllRead = async () => {
+    try {
+      await markAllNotificationsRead();
+      await loadInbox();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to mark notifications as read');
+    }
+  };
+
+  return (
+    <ProtectedRoute>
+      <div className="mx-auto flex w-full max-w-3xl flex-col gap-6">
+        <div className="flex flex-col gap-2">
+          <h1 className="text-2xl font-semibold">Notifications</h1>
+          <p className="text-sm text-muted-foreground">
+            Updates about your orders, payments and prescriptions.
+          </p>
+          <div className="flex flex-wrap gap-3 text-sm">
+            <Link href={ROUTES.PROFILE_NOTIFICATIONS} className="text-primary hover:underline">
+              Notification settings
+            </Link>
+          </div>
+        </div>
+
+        <Card>
+          <CardHeader className="flex flex-col gap-2 md:flex-row md:items-center md:justify-between">
+            <div>
+              <CardTitle>Inbox</CardTitle>
+              <CardDescription>
+                {unreadCount > 0 ? `${unreadCount} unread` : 'You are all caught up.'}
+              </CardDescription>
+            </div>
+            <Button variant="outline" onClick={handleMarkAllRead} disabled={unreadCount === 0}>
+              Mark all as read
+            </Button>
+          </CardHeader>
+          <CardContent>
+            {isLoading && <p className="text-sm text-muted-foreground">Loading notifications...</p>}
+
+            {!isLoading && error && (
+              <div className="mb-4 rounded-lg border border-destructive/30 bg-destructive/10 p-3 text-sm text-destructive">
+                {error}
+              </div>
+            )}
+
+            {!isLoading && !error && notifications.length === 0 && (
+              <div className="rounded-lg border border-dashed p-6 text-center text-sm text-muted-foreground">
+                You have no notifications yet.
+              </div>
+            )}
+
+            {!isLoading && notifications.length > 0 && (
+              <ul className="space-y-3">
+                {notifications.map((notification) => (
+                  <li key={notification.id}>
+                    <button
+                      type="button"
+                      onClick={() => handleMarkRead(notification)}
+                      className={`w-full rounded-lg border p-4 text-left transition-colors hover:border-muted-foreground/30 ${
+                        notification.read ? '' : 'border-primary/30 bg-primary/5'
+                      }`}
+                    >
+                      <div className="flex flex-wrap items-center justify-between gap-2">
+                        <h3 className="text-sm font-semibold">{notification.title ?? 'Notification'}</h3>
+                        <div className="flex items-center gap-2">
+                          {!notification.read && <Badge>New</Badge>}
+                          <span className="text-xs text-muted-foreground">
+                            {new Date(notification.createdAt).toLocaleString('en-IN', {
+                              dateStyle: 'medium',
+                              timeStyle: 'short',
+                            })}
+                          </span>
+                        </div>
+                      </div>
+                      <p className="mt-2 text-sm text-muted-foreground">{notification.body}</p>
+                    </button>
+                  </li>
+                ))}
+              </ul>
+            )}
+          </CardContent>
+        </Card>
+      </div>
+    </ProtectedRoute>
+  );
+}
@@ -1,9 +1,21 @@
 'use client';
 
-import { useParams } from 'next/navigation';
+import { useCallback, useEffect, useState } from 'react';
+import { useParams, useRouter } from 'next/navigation';
 import Link from 'next/link';
 import { ProtectedRoute } from '@/components/ProtectedRoute';
 import { ROUTES } from '@/lib/constants';
+import { apiClient } from '@/lib/api-client';
+import { useAuth } from '@/lib/auth-context';
+import { linkPrescriptionToOrder } from '@/lib/order-service';
+import type { ApiError } from '@/types/api';
+
+interface Prescription {
+  id: string;
+  fileReference: string;
+  status: 'PENDING' | 'APPROVED' | 'REJECTED';
+  createdAt: string;
+}
 
 /**
  * Order Compliance Choice Page (ADR-0055)
@@ -11,12 +23,45 @@ import { ROUTES } from '@/lib/constants';
  * Shown after checkout when the order contains prescription-required items.
  * Explains that medical approval is required before fulfilment and offers
  * two paths: upload prescription or request doctor consultation.
+ * Existing (non-rejected) prescriptions can be linked to the order directly.
  *
  * No payment blocking. No fulfilment logic. No medical decisions.
  */
 export default function OrderCompliancePage() {
   const params = useParams();
   const orderId = params.orderId as string;
+  const router = useRouter();
+  const { isAuthenticated, isLoading: isAuthLoading } = useAuth();
+  const [prescriptions, setPrescriptions] = useState<Prescription[]>([]);
+  const [linkingId, setLinkingId] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const loadPrescriptions = useCallback(async () => {
+    try {
+      const response = await apiClient.get<Prescription[]>('/prescriptions');
+      // Rejected prescriptions cannot satisfy compliance; backend refuses to link them.
+      setPrescriptions((response.data ?? []).filter((p) => p.status !== 'REJECTED'));
+    } catch {
+      setPrescriptions([]);
+    }
+  }, []);
+
+  useEffect(() => {
+    if (isAuthLoading || !isAuthenticated) return;
+    loadPrescriptions();
+  }, [isAuthLoading, isAuthenticated, loadPrescriptions]);
+
+  const handleLink = async (prescriptionId: string) => {
+    setError(null);
+    setLinkingId(prescriptionId);
+    try {
+      await linkPrescriptionToOrder(orderId, prescriptionId);
+      router.push(ROUTES.ORDER_DETAIL(orderId));
+    } catch (err) {
+      setError(getErrorMessage(err, 'Unable to link prescription'));
+      setLinkingId(null);
+    }
+  };
 
   const uploadUrl = orderId ? `${ROUTES.PRESCRIPTION_NEW}?orderId=${encodeURIComponent(orderId)}` : ROUTES.PRESCRIPTION_NEW;
   const consultUrl = orderId ? `${ROUTES.PRESCRIPTIONS}?mode=consult&orderId=${encodeURIComponent(orderId)}` : ROUTES.PRESCRIPTIONS;
@@ -48,6 +93,33 @@ export default function OrderCompliancePage() {
           </p>
         </div>
 
+        {orderId && prescriptions.length > 0 && (
+          <div style={styles.card}>
+            <h2 style={styles.sectionTitle}>Use an existing prescription</h2>
+            {error && <p style={styles.error}>{error}</p>}
+            <ul style={styles.list}>
+              {prescriptions.map((prescription) => (
+                <li key={prescription.id} style={styles.listItem}>
+                  <div>
+                    <p style={styles.listTitle}>{prescription.fileReference}</p>
+                    <p style={styles.listMeta}>
+                      {prescription.status} · {new Date(prescription.createdAt).toLocaleDateString()}
+                    </p>
+                  </div>
+                  <button
+                    type="button"
+                    style={styles.linkButton}
+                    onClick={() => handleLink(prescription.id)}
+                    disabled={linkingId !== null}
+                  >
+                    {linkingId === prescription.id ? 'Linking...' : 'Use for this order'}
+                  </button>
+                </li>
+              ))}
+            </ul>
+          </div>
+        )}
+
         {orderId && (
           <div style={styles.footer}>
             <Link href={ROUTES.ORDER_DETAIL(orderId)} style={styles.link}>
@@ -60,6 +132,19 @@ export default function OrderCompliancePage() {
   );
 }
 
+function getErrorMessage(error: unknown, fallback: string): string {
+  if (error && typeof error === 'object' && 'error' in error) {
+    const apiError = error as ApiError;
+    if (apiError.error?.message) {
+      return apiError.error.message;
+    }
+  }
+  if (error instanceof Error) {
+    return error.message;
+  }
+  return fallback;
+}
+
 const styles: Record<string, React.CSSProperties> = {
   container: {
     maxWidth: '560px',
@@ -138,6 +223,56 @@ const styles: Record<string, React.CSSProperties> = {
     color: '#6b7280',
     lineHeight: 1.5,
   },
+  sectionTitle: {
+    fontSize: '1rem',
+    fontWeight: '600',
+    color: '#111',
+    marginBottom: '0.75rem',
+  },
+  error: {
+    fontSize: '0.875rem',
+    color: '#dc2626',
+    marginBottom: '0.75rem',
+  },
+  list: {
+    listStyle: 'none',
+    padding: 0,
+    margin: 0,
+    display: 'flex',
+    flexDirection: 'column',
+    gap: '0.5rem',
+  },
+  listItem: {
+    display: 'flex',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    gap: '0.75rem',
+    padding: '0.75rem',
+    background: 'white',
+    border: '1px solid #e5e7eb',
+    borderRadius: '6px',
+  },
+  listTitle: {
+    fontSize: '0.875rem',
+    fontWeight: '500',
+    color: '#111',
+    wordBreak: 'break-all',
+  },
+  listMeta: {
+    fontSize: '0.75rem',
+    color: '#6b7280',
+  },
+  linkButton: {
+    padding: '0.5rem 0.875rem',
+    background: '#059669',
+    color: 'white',
+    border: 'none',
+    borderRadius: '6px',
+    fontWeight: '500',
+    fontSize: '0.8125rem',
+    cursor: 'pointer',
+    whiteSpace: 'nowrap',
+  },
   footer: {
     textAlign: 'center',
   },
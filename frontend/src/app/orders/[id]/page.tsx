@@ -7,7 +7,42 @@ import { ProtectedRoute } from '@/components/ProtectedRoute';
 import { useAuth } from '@/lib/auth-context';
 import { ROUTES } from '@/lib/constants';
 import { fetchOrderById, cancelOrder, canCancelOrder } from '@/lib/order-service';
-import type { OrderDetail, ComplianceStatus } from '@/types/api';
+import type {
+  OrderDetail,
+  ComplianceStatus,
+  OrderTimelineActor,
+  OrderPaymentInfo,
+  RefundStatus,
+} from '@/types/api';
+
+/** Timeline labels for order states */
+const TIMELINE_STATE_LABELS: Record<string, string> = {
+  CREATED: 'Placed',
+  CONFIRMED: 'Confirmed',
+  PAID: 'Paid',
+  SHIPPED: 'Shipped',
+  DELIVERED: 'Delivered',
+  CANCELLED: 'Cancelled',
+};
+
+const PAYMENT_METHOD_LABELS: Record<OrderPaymentInfo['method'], string> = {
+  COD: 'Cash on delivery',
+  UPI: 'UPI',
+  ONLINE: 'Online payment',
+};
+
+const REFUND_STATUS_LABELS: Record<RefundStatus, string> = {
+  REQUESTED: 'Refund requested',
+  APPROVED: 'Refund approved',
+  PROCESSED: 'Refunded',
+  FAILED: 'Refund failed — our team will retry',
+};
+
+const TIMELINE_ACTOR_LABELS: Record<OrderTimelineActor, string> = {
+  CUSTOMER: 'you',
+  PHARMACY: 'pharmacy',
+  SYSTEM: 'system',
+};
 
 /**
  * Order Detail Page
@@ -17,6 +52,9 @@ import type { OrderDetail, ComplianceStatus } from '@/types/api';
  * - All items with quantities and prices
  * - Order total
  * - Timestamps (created, updated)
+ * - Payment (rejection reason, retry link and earlier attempts)
+ * - Refunds (amount, status and UPI reference once paid out)
+ * - Status timeline (every status change, with who made it and why)
  * - Cancel action (if order is cancellable)
  *
  * Backend is the source of truth - no local recalculations.
@@ -97,6 +135,16 @@ export default function OrderDetailPage() {
     });
   };
 
+  // Format a calendar date (YYYY-MM-DD) without shifting it by timezone
+  const formatDeliveryDate = (date: string) => {
+    return new Date(`${date}T00:00:00Z`).toLocaleDateString('en-IN', {
+      year: 'numeric',
+      month: 'long',
+      day: 'numeric',
+      timeZone: 'UTC',
+    });
+  };
+
   // Get status badge styles
   const getStatusStyle = (state: string): React.CSSProperties => {
     const baseStyle: React.CSSProperties = {
@@ -177,23 +225,20 @@ export default function OrderDetailPage() {
                   isActive={true}
                   isComplete={true}
                 />
-                {order.state !== 'DRAFT' && order.state !== 'CANCELLED' && (
-                  <StatusStep
-                    label="Confirmed"
-                    date={order.updatedAt !== order.createdAt ? formatDate(order.updatedAt) : undefined}
-                    isActive={['CONFIRMED', 'PAID', 'SHIPPED', 'DELIVERED'].includes(order.state)}
-                    isComplete={['PAID', 'SHIPPED', 'DELIVERED'].includes(order.state)}
-                  />
-                )}
-                {order.state === 'CANCELLED' && (
+                {order.timeline.map((entry, index) => (
                   <StatusStep
-                    label="Cancelled"
-                    date={formatDate(order.updatedAt)}
+                    key={`${entry.occurredAt}-${index}`}
+                    label={
+                      entry.reason
+                        ? `${TIMELINE_STATE_LABELS[entry.state] ?? entry.state} — ${entry.reason}`
+                        : TIMELINE_STATE_LABELS[entry.state] ?? entry.state
+                    }
+                    date={`${formatDate(entry.occurredAt)} · by ${TIMELINE_ACTOR_LABELS[entry.changedBy]}`}
                     isActive={true}
-                    isComplete={true}
-                    isCancelled={true}
+                    isComplete={index < order.timeline.length - 1}
+                    isCancelled={entry.state === 'CANCELLED'}
                   />
-                )}
+                ))}
               </div>
             </div>
 
@@ -215,7 +260,7 @@ export default function OrderDetailPage() {
               <div style={styles.card}>
                 <h2 style={styles.sectionTitle}>Payment</h2>
                 <p style={styles.paymentMethod}>
-                  Method: {order.payment.method === 'COD' ? 'Cash on delivery' : 'UPI'}
+                  Method: {PAYMENT_METHOD_LABELS[order.payment.method]}
                 </p>
                 <p style={styles.paymentStatus}>
                   Status:{' '}
@@ -229,13 +274,102 @@ export default function OrderDetailPage() {
                           ? 'Waiting for verification'
                           : order.payment.status === 'REJECTED'
                             ? 'Payment rejected'
-                            : order.payment.status}
+                            : order.payment.status === 'REFUNDED'
+                              ? 'Refunded'
+                              : order.payment.status === 'EXPIRED'
+                                ? 'Not paid in time'
+                                : order.payment.status}
                 </p>
                 {order.payment.status === 'PENDING' && order.payment.method === 'UPI' && (
                   <Link href={ROUTES.ORDER_PAYMENT(orderId)} style={styles.paymentLink}>
                     Upload UPI proof →
                   </Link>
                 )}
+                {order.payment.status === 'REJECTED' && (
+                  <>
+                    {order.payment.rejectionReason && (
+                      <p style={styles.paymentStatus}>Reason: {order.payment.rejectionReason}</p>
+                    )}
+                    {order.state === 'CONFIRMED' && (
+                      <Link href={ROUTES.ORDER_PAYMENT(orderId)} style={styles.paymentLink}>
+                        Try again →
+                      </Link>
+                    )}
+                  </>
+                )}
+                {order.payment.previousAttempts && order.payment.previousAttempts.length > 0 && (
+                  <div style={styles.paymentAttempts}>
+                    <p style={styles.paymentMethod}>Earlier attempts</p>
+                    {order.payment.previousAttempts.map((attempt, index) => (
+                      <p key={`${attempt.createdAt}-${index}`} style={styles.paymentStatus}>
+                        {formatDate(attempt.createdAt)} · {PAYMENT_METHOD_LABELS[attempt.method]}
+                        {attempt.referenceId ? ` (${attempt.referenceId})` : ''}
+                        {attempt.status === 'REJECTED'
+                          ? ` · Rejected${attempt.rejectionReason ? `: ${attempt.rejectionReason}` : ''}`
+                          : ` · ${attempt.status}`}
+                      </p>
+                    ))}
+                  </div>
+                )}
+              </div>
+            )}
+
+            {/* Refunds (amount, status and payout reference) */}
+            {order.refunds && order.refunds.length > 0 && (
+              <div style={styles.card}>
+                <h2 style={styles.sectionTitle}>Refund</h2>
+                {order.refunds.map((refund, index) => (
+                  <div key={`${refund.requestedAt}-${index}`} style={styles.refund}>
+                    <p style={styles.paymentMethod}>
+                      {formatPrice(refund.amount.amount, refund.amount.currency)} · {refund.reason}
+                    </p>
+                    <p style={styles.paymentStatus}>
+                      {REFUND_STATUS_LABELS[refund.status]}
+                      {refund.processedAt
+                        ? ` on ${formatDate(refund.processedAt)}`
+                        : ` · requested ${formatDate(refund.requestedAt)}`}
+                    </p>
+                    {refund.upiReference && (
+                      <p style={styles.paymentStatus}>UPI reference: {refund.upiReference}</p>
+                    )}
+                  </div>
+                ))}
+              </div>
+            )}
+
+            {/* Shipment (carrier, tracking number and tracking timeline) */}
+            {order.shipment && (
+              <div style={styles.card}>
+                <h2 style={styles.sectionTitle}>Shipment</h2>
+                <p style={styles.paymentMethod}>
+                  {order.shipment.carrier} · Tracking number: {order.shipment.trackingNumber}
+                </p>
+                {order.shipment.deliveredAt ? (
+                  <p style={styles.paymentStatus}>
+                    Delivered on {formatDate(order.shipment.deliveredAt)}
+                  </p>
+                ) : (
+                  order.shipment.expectedDeliveryDate && (
+                    <p style={styles.paymentStatus}>
+                      Expected delivery: {formatDeliveryDate(order.shipment.expectedDeliveryDate)}
+                    </p>
+                  )
+                )}
+                <div style={{ ...styles.statusTimeline, marginTop: '1rem' }}>
+                  {order.shipment.events.map((event, index) => (
+                    <StatusStep
+                      key={`${event.occurredAt}-${index}`}
+                      label={event.description}
+                      date={
+                        event.location
+                          ? `${formatDate(event.occurredAt)} · ${event.location}`
+                          : formatDate(event.occurredAt)
+                      }
+                      isActive={index === order.shipment!.events.length - 1}
+                      isComplete={true}
+                    />
+                  ))}
+                </div>
               </div>
             )}
 
@@ -536,6 +670,14 @@ const styles: Record<string, React.CSSProperties> = {
     color: '#6b7280',
     margin: '0 0 0.5rem 0',
   },
+  refund: {
+    marginBottom: '0.5rem',
+  },
+  paymentAttempts: {
+    marginTop: '1rem',
+    paddingTop: '0.75rem',
+    borderTop: '1px solid #e5e7eb',
+  },
   paymentLink: {
     fontSize: '0.875rem',
     color: '#2563eb',
@@ -3,12 +3,19 @@
 import { useEffect, useState, useCallback } from 'react';
 import { useParams, useRouter } from 'next/navigation';
 import Link from 'next/link';
+import Image from 'next/image';
 import { ProtectedRoute } from '@/components/ProtectedRoute';
 import { useAuth } from '@/lib/auth-context';
 import { ROUTES } from '@/lib/constants';
-import { fetchOrderById, createPayment, submitUpiProof } from '@/lib/order-service';
+import {
+  fetchOrderById,
+  createPayment,
+  fetchUpiInstructions,
+  submitUpiProof,
+} from '@/lib/order-service';
+import { uploadFile, ACCEPTED_UPLOAD_TYPES } from '@/lib/file-service';
 import type { OrderDetail } from '@/types/api';
-import type { CreatePaymentUpiResponse } from '@/lib/order-service';
+import type { UpiInstructions } from '@/lib/order-service';
 
 type Step = 'choose' | 'cod_done' | 'upi_instructions' | 'upi_submitted';
 
@@ -16,7 +23,8 @@ type Step = 'choose' | 'cod_done' | 'upi_instructions' | 'upi_submitted';
  * Payment Selection Page (Phase 6 — manual payment v1)
  *
  * Route: /orders/[id]/payment
- * Options: Cash on Delivery (COD) or UPI (manual proof upload).
+ * Options: Cash on Delivery (COD) or UPI (QR code / deep link, then manual proof upload).
+ * After a rejected payment the customer chooses again; the reason is shown.
  */
 export default function OrderPaymentPage() {
   const params = useParams();
@@ -29,11 +37,11 @@ export default function OrderPaymentPage() {
   const [error, setError] = useState<string | null>(null);
   const [step, setStep] = useState<Step>('choose');
   const [isSubmitting, setIsSubmitting] = useState(false);
-  const [upiData, setUpiData] = useState<CreatePaymentUpiResponse | null>(null);
+  const [upiData, setUpiData] = useState<UpiInstructions | null>(null);
 
   // UPI proof form
   const [referenceId, setReferenceId] = useState('');
-  const [proofReference, setProofReference] = useState('');
+  const [proofFile, setProofFile] = useState<File | null>(null);
   const [proofError, setProofError] = useState<string | null>(null);
 
   const loadOrder = useCallback(async () => {
@@ -47,6 +55,11 @@ export default function OrderPaymentPage() {
       if (data.payment?.status === 'VERIFIED') {
         setStep('cod_done');
       }
+      // UPI chosen earlier but not paid yet: show the QR code again.
+      if (data.payment?.method === 'UPI' && data.payment.status === 'PENDING') {
+        setUpiData(await fetchUpiInstructions(orderId));
+        setStep('upi_instructions');
+      }
     } catch (err) {
       setError(err instanceof Error ? err.message : 'Failed to load order');
     } finally {
@@ -66,7 +79,7 @@ export default function OrderPaymentPage() {
     try {
       await createPayment(orderId, 'COD');
       setStep('cod_done');
-      setOrder((prev) => (prev ? { ...prev, payment: { method: 'COD', status: 'VERIFIED' } } : null));
+      setOrder((prev) => (prev ? { ...prev, payment: { method: 'COD', status: 'VERIFIED', rejectionReason: null } } : null));
     } catch (err) {
       setError(err instanceof Error ? err.message : 'Something went wrong. Please try again.');
     } finally {
@@ -81,7 +94,7 @@ export default function OrderPaymentPage() {
     try {
       const result = await createPayment(orderId, 'UPI');
       if (result && 'upiInstructions' in result) {
-        setUpiData(result);
+        setUpiData(result.upiInstructions);
         setStep('upi_instructions');
       }
     } catch (err) {
@@ -100,12 +113,13 @@ export default function OrderPaymentPage() {
     setIsSubmitting(true);
     setProofError(null);
     try {
+      const proof = proofFile ? await uploadFile(proofFile, 'PAYMENT_PROOF') : null;
       await submitUpiProof(orderId, {
         referenceId: referenceId.trim(),
-        proofReference: proofReference.trim() || undefined,
+        proofReference: proof?.id,
       });
       setStep('upi_submitted');
-      setOrder((prev) => (prev ? { ...prev, payment: { method: 'UPI', status: 'SUBMITTED' } } : null));
+      setOrder((prev) => (prev ? { ...prev, payment: { method: 'UPI', status: 'SUBMITTED', rejectionReason: null } } : null));
     } catch (err) {
       setProofError(err instanceof Error ? err.message : 'Failed to submit proof. Please try again.');
     } finally {
@@ -155,6 +169,18 @@ export default function OrderPaymentPage() {
               </p>
             </div>
 
+            {step === 'choose' && order.payment?.status === 'REJECTED' && (
+              <div style={styles.rejected}>
+                <p style={styles.rejectedTitle}>Your previous payment was rejected</p>
+                {order.payment.rejectionReason && (
+                  <p style={styles.rejectedReason}>Reason: {order.payment.rejectionReason}</p>
+                )}
+                <p style={styles.rejectedReason}>
+                  Please pay again by UPI with the correct details, or choose Cash on Delivery.
+                </p>
+              </div>
+            )}
+
             {step === 'choose' && (
               <div style={styles.card}>
                 <p style={styles.message}>
@@ -197,13 +223,25 @@ export default function OrderPaymentPage() {
             {step === 'upi_instructions' && upiData && (
               <div style={styles.card}>
                 <h2 style={styles.sectionTitle}>Pay by UPI</h2>
-                <p style={styles.vpaLabel}>Send payment to this VPA:</p>
-                <p style={styles.vpa}>{upiData.upiInstructions.vpa}</p>
+                <div style={styles.qr}>
+                  <Image
+                    src={`data:image/svg+xml;charset=utf-8,${encodeURIComponent(upiData.qrCodeSvg)}`}
+                    alt="UPI payment QR code"
+                    width={200}
+                    height={200}
+                    unoptimized
+                  />
+                </div>
+                <a href={upiData.deepLink} style={{ ...styles.primaryButton, marginBottom: '1rem' }}>
+                  Pay with UPI app
+                </a>
+                <p style={styles.vpaLabel}>Or send payment to {upiData.payeeName} at this VPA:</p>
+                <p style={styles.vpa}>{upiData.vpa}</p>
                 <p style={styles.amount}>
-                  Amount: {formatPrice(order.total.amount, order.total.currency)}
+                  Amount: {formatPrice(upiData.amount.amount, upiData.amount.currency)}
                 </p>
                 <ol style={styles.steps}>
-                  {upiData.upiInstructions.steps.map((s, i) => (
+                  {upiData.steps.map((s, i) => (
                     <li key={i} style={styles.stepItem}>{s}</li>
                   ))}
                 </ol>
@@ -220,12 +258,11 @@ export default function OrderPaymentPage() {
                     />
                   </label>
                   <label style={styles.label}>
-                    Payment screenshot / proof (file reference, optional)
+                    Payment screenshot (image or PDF, optional)
                     <input
-                      type="text"
-                      value={proofReference}
-                      onChange={(e) => setProofReference(e.target.value)}
-                      placeholder="Optional: paste image URL or reference"
+                      type="file"
+                      accept={ACCEPTED_UPLOAD_TYPES}
+                      onChange={(e) => setProofFile(e.target.files?.[0] ?? null)}
                       style={styles.input}
                     />
                   </label>
@@ -288,6 +325,22 @@ const styles: Record<string, React.CSSProperties> = {
   summary: {
     marginBottom: '1.5rem',
   },
+  rejected: {
+    marginBottom: '1.5rem',
+    padding: '1rem',
+    background: '#fef2f2',
+    border: '1px solid #fecaca',
+    borderRadius: '8px',
+  },
+  rejectedTitle: {
+    fontWeight: 600,
+    color: '#dc2626',
+    marginBottom: '0.25rem',
+  },
+  rejectedReason: {
+    fontSize: '0.875rem',
+    color: '#7f1d1d',
+  },
   summaryText: {
     fontSize: '1rem',
     fontWeight: 600,
@@ -361,6 +414,11 @@ const styles: Record<string, React.CSSProperties> = {
     fontWeight: 600,
     marginBottom: '1rem',
   },
+  qr: {
+    display: 'flex',
+    justifyContent: 'center',
+    marginBottom: '1rem',
+  },
   vpaLabel: {
     fontSize: '0.875rem',
     color: '#6b7280',
@@ -1,11 +1,13 @@
 'use client';
 
-import { useState, type FormEvent } from 'react';
-import { useRouter } from 'next/navigation';
+import { Suspense, useState, type FormEvent } from 'react';
+import { useRouter, useSearchParams } from 'next/navigation';
 import Link from 'next/link';
 import { ProtectedRoute } from '@/components/ProtectedRoute';
 import { apiClient } from '@/lib/api-client';
 import { ROUTES } from '@/lib/constants';
+import { linkPrescriptionToOrder } from '@/lib/order-service';
+import { uploadFile, ACCEPTED_UPLOAD_TYPES } from '@/lib/file-service';
 import type { ApiError } from '@/types/api';
 import { Button } from '@/components/ui/button';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
@@ -23,8 +25,22 @@ interface Prescription {
 }
 
 export default function SubmitPrescriptionPage() {
+  return (
+    <Suspense fallback={null}>
+      <SubmitPrescriptionContent />
+    </Suspense>
+  );
+}
+
+/**
+ * When opened with ?orderId=..., the new prescription is linked to that order
+ * (ADR-0055) and the user is sent back to the order.
+ */
+function SubmitPrescriptionContent() {
   const router = useRouter();
-  const [fileName, setFileName] = useState('');
+  const searchParams = useSearchParams();
+  const orderId = searchParams.get('orderId');
+  const [file, setFile] = useState<File | null>(null);
   const [isSubmitting, setIsSubmitting] = useState(false);
   const [error, setError] = useState<string | null>(null);
   const [success, setSuccess] = useState<string | null>(null);
@@ -34,7 +50,7 @@ export default function SubmitPrescriptionPage() {
     setError(null);
     setSuccess(null);
 
-    if (!fileName) {
+    if (!file) {
       setError('Please select a file to submit');
       return;
     }
@@ -42,8 +58,16 @@ export default function SubmitPrescriptionPage() {
     setIsSubmitting(true);
 
     try {
-      const fileReference = `${Date.now()}-${fileName}`;
-      await apiClient.post<Prescription>('/prescriptions', { fileReference });
+      const uploaded = await uploadFile(file, 'PRESCRIPTION');
+      const response = await apiClient.post<Prescription>('/prescriptions', {
+        fileReference: uploaded.id,
+      });
+      if (orderId && response.data) {
+        await linkPrescriptionToOrder(orderId, response.data.id);
+        setSuccess('Prescription submitted and linked to your order');
+        setTimeout(() => router.push(ROUTES.ORDER_DETAIL(orderId)), 600);
+        return;
+      }
       setSuccess('Prescription submitted');
       setTimeout(() => router.push(ROUTES.PRESCRIPTIONS), 600);
     } catch (err) {
@@ -59,7 +83,7 @@ export default function SubmitPrescriptionPage() {
         <div className="flex flex-col gap-2">
           <h1 className="text-2xl font-semibold">Submit Prescription</h1>
           <p className="text-sm text-muted-foreground">
-            Demo-only submission. File content is not uploaded.
+            Upload a clear photo or PDF of your prescription for pharmacist review.
           </p>
           <div className="flex flex-wrap gap-3 text-sm">
             <Link href={ROUTES.PRESCRIPTIONS} className="text-primary hover:underline">
@@ -71,7 +95,7 @@ export default function SubmitPrescriptionPage() {
         <Card>
           <CardHeader>
             <CardTitle>Prescription file</CardTitle>
-            <CardDescription>Attach any file to generate a reference.</CardDescription>
+            <CardDescription>JPEG, PNG, WebP or PDF, up to 5 MB.</CardDescription>
           </CardHeader>
           <CardContent>
             {error && (
@@ -91,14 +115,12 @@ export default function SubmitPrescriptionPage() {
                 <Input
                   id="prescription-file"
                   type="file"
-                  onChange={(event) => {
-                    const file = event.target.files?.[0];
-                    setFileName(file ? file.name : '');
-                  }}
+                  accept={ACCEPTED_UPLOAD_TYPES}
+                  onChange={(event) => setFile(event.target.files?.[0] ?? null)}
                   disabled={isSubmitting}
                 />
-                {fileName && (
-                  <p className="text-xs text-muted-foreground">Selected: {fileName}</p>
+                {file && (
+                  <p className="text-xs text-muted-foreground">Selected: {file.name}</p>
                 )}
               </div>
 
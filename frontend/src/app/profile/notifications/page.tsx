@@ -0,0 +1,169 @@
+'use client';
+
+import { useCallback, useEffect, useState } from 'react';
+import Link from 'next/link';
+import { ProtectedRoute } from '@/components/ProtectedRoute';
+import { useAuth } from '@/lib/auth-context';
+import { ROUTES } from '@/lib/constants';
+import {
+  fetchNotificationPreferences,
+  updateNotificationPreferences,
+  type NotificationCategory,
+  type NotificationChannel,
+  type NotificationPreferences,
+} from '@/lib/notification-service';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+
+const CATEGORIES: { key: NotificationCategory; label: string; description: string }[] = [
+  {
+    key: 'ORDER_UPDATES',
+    label: 'Order updates',
+    description: 'Confirmation, shipping, delivery and cancellation.',
+  },
+  {
+    key: 'PAYMENT_UPDATES',
+    label: 'Payment reminders',
+    description: 'Payment due reminders and payment verification results.',
+  },
+  {
+    key: 'PRESCRIPTION_REVIEWS',
+    label: 'Prescription reviews',
+    description: 'When a pharmacist approves or rejects your prescription.',
+  },
+  {
+    key: 'MARKETING',
+    label: 'Offers and news',
+    description: 'Promotions and health tips. Off unless you opt in.',
+  },
+];
+
+const CHANNELS: { key: NotificationChannel; label: string }[] = [
+  { key: 'EMAIL', label: 'Email' },
+  { key: 'SMS', label: 'SMS' },
+  { key: 'IN_APP', label: 'In-app' },
+];
+
+/**
+ * Notification Settings Page
+ *
+ * Channel switches per category. Each change is saved immediately.
+ * Account messages such as password resets are always sent.
+ */
+export default function NotificationSettingsPage() {
+  const { isAuthenticated, isLoading: isAuthLoading } = useAuth();
+  const [preferences, setPreferences] = useState<NotificationPreferences | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+  const [isSaving, setIsSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const loadPreferences = useCallback(async () => {
+    setIsLoading(true);
+    setError(null);
+
+    try {
+      setPreferences(await fetchNotificationPreferences());
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to load notification settings');
+    } finally {
+      setIsLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    if (isAuthLoading || !isAuthenticated) return;
+    loadPreferences();
+  }, [isAuthLoading, isAuthenticated, loadPreferences]);
+
+  const handleToggle = async (
+    category: NotificationCategory,
+    channel: NotificationChannel,
+    enabled: boolean,
+  ) => {
+    setIsSaving(true);
+    setError(null);
+
+    try {
+      setPreferences(await updateNotificationPreferences({ [category]: { [channel]: enabled } }));
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to save notification settings');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <ProtectedRoute>
+      <div className="mx-auto flex w-full max-w-3xl flex-col gap-6">
+        <div className="flex flex-col gap-2">
+          <h1 className="text-2xl font-semibold">Notification Settings</h1>
+          <p className="text-sm text-muted-foreground">
+            Choose how we contact you. Password resets and other account messages are always sent.
+          </p>
+          <div className="flex flex-wrap gap-3 text-sm">
+            <Link href={ROUTES.PROFILE} className="text-primary hover:underline">
+              Back to profile
+            </Link>
+            <Link href={ROUTES.NOTIFICATIONS} className="text-primary hover:underline">
+              View notifications
+            </Link>
+          </div>
+        </div>
+
+        <Card>
+          <CardHeader>
+            <CardTitle>Channels</CardTitle>
+            <CardDescription>Changes are saved as soon as you make them.</CardDescription>
+          </CardHeader>
+          <CardContent>
+            {isLoading && <p className="text-sm text-muted-foreground">Loading settings...</p>}
+
+            {!isLoading && error && (
+              <div className="mb-4 rounded-lg border border-destructive/30 bg-destructive/10 p-3 text-sm text-destructive">
+                {error}
+              </div>
+            )}
+
+            {!isLoading && preferences && (
+              <table className="w-full text-sm">
+                <thead>
+                  <tr className="border-b text-left text-muted-foreground">
+                    <th className="py-2 font-medium">Category</th>
+                    {CHANNELS.map((channel) => (
+                      <th key={channel.key} className="w-20 py-2 text-center font-medium">
+                        {channel.label}
+                      </th>
+                    ))}
+                  </tr>
+                </thead>
+                <tbody>
+                  {CATEGORIES.map((category) => (
+                    <tr key={category.key} className="border-b last:border-0">
+                      <td className="py-3 pr-4">
+                        <p className="font-medium">{category.label}</p>
+                        <p className="text-xs text-muted-foreground">{category.description}</p>
+                      </td>
+                      {CHANNELS.map((channel) => (
+                        <td key={channel.key} className="py-3 text-center">
+                          <input
+                            type="checkbox"
+                            aria-label={`${category.label} by ${channel.label}`}
+                            className="h-4 w-4"
+                            checked={preferences.categories[category.key][channel.key]}
+                            disabled={isSaving}
+                            onChange={(event) =>
+                              handleToggle(category.key, channel.key, event.target.checked)
+                            }
+                          />
+                        </td>
+                      ))}
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            )}
+          </CardContent>
+        </Card>
+      </div>
+    </ProtectedRoute>
+  );
+}
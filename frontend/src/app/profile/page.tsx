@@ -140,6 +140,9 @@ export default function ProfilePage() {
             <Link href={ROUTES.PROFILE_ADDRESSES} className="text-primary hover:underline">
               Manage addresses
             </Link>
+            <Link href={ROUTES.PROFILE_NOTIFICATIONS} className="text-primary hover:underline">
+              Notification settings
+            </Link>
             <Link href={ROUTES.PROFILE_CONTEXT} className="text-primary hover:underline">
               View context (demo)
             </Link>
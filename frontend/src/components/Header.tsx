@@ -7,6 +7,7 @@ import { useRouter } from "next/navigation"
 import { Menu, Search, ShoppingCart, UserRound } from "lucide-react"
 
 import { AnnouncementBar } from "@/components/home/AnnouncementBar"
+import { NotificationBell } from "@/components/NotificationBell"
 import { Badge } from "@/components/ui/badge"
 import { Button } from "@/components/ui/button"
 import { Input } from "@/components/ui/input"
@@ -243,6 +244,8 @@ export function Header() {
               </Button>
             )}
 
+            {isAuthenticated && !isLoading && <NotificationBell />}
+
             <Link href={ROUTES.CART} className="relative rounded-full p-2 text-slate-700 hover:bg-slate-100">
               <ShoppingCart className="h-5 w-5" />
               {cartItemCount > 0 && (
@@ -263,6 +266,7 @@ export function Header() {
             >
               <Search className="h-5 w-5" />
             </button>
+            {isAuthenticated && !isLoading && <NotificationBell />}
             <Link href={ROUTES.CART} className="relative rounded-full p-2 text-slate-700 hover:bg-slate-100">
               <ShoppingCart className="h-5 w-5" />
               {cartItemCount > 0 && (
@@ -292,6 +296,15 @@ export function Header() {
                         <Link href={ROUTES.ADMIN_PAYMENTS} className="block text-slate-700 no-underline hover:text-blue-700">
                           Admin Payments
                         </Link>
+                        <Link href={ROUTES.ADMIN_CONSULTATIONS} className="block text-slate-700 no-underline hover:text-blue-700">
+                          Admin Consultations
+                        </Link>
+                        <Link href={ROUTES.ADMIN_CATALOG} className="block text-slate-700 no-underline hover:text-blue-700">
+                          Admin Catalog
+                        </Link>
+                        <Link href={ROUTES.ADMIN_AUDIT_LOGS} className="block text-slate-700 no-underline hover:text-blue-700">
+                          Admin Audit Log
+                        </Link>
                       </>
                     )}
                   </nav>
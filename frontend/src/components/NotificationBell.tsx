@@ -0,0 +1,137 @@
+"use client"
+
+import { useCallback, useEffect, useRef, useState } from "react"
+import Link from "next/link"
+import { Bell } from "lucide-react"
+
+import { Badge } from "@/components/ui/badge"
+import { ROUTES } from "@/lib/constants"
+import {
+  fetchInbox,
+  InboxNotification,
+  markAllNotificationsRead,
+  markNotificationRead,
+  onNotificationsUpdated,
+} from "@/lib/notification-service"
+
+/** How often the unread count is refreshed while the page is open */
+const POLL_INTERVAL_MS = 60_000
+const PREVIEW_LIMIT = 5
+
+/**
+ * Header bell with the unread count and the latest in-app notifications.
+ * Render only for signed-in users.
+ */
+export function NotificationBell() {
+  const [notifications, setNotifications] = useState<InboxNotification[]>([])
+  const [unreadCount, setUnreadCount] = useState(0)
+  const [open, setOpen] = useState(false)
+  const containerRef = useRef<HTMLDivElement | null>(null)
+
+  const refresh = useCallback(async () => {
+    try {
+      const inbox = await fetchInbox(PREVIEW_LIMIT)
+      setNotifications(inbox.notifications)
+      setUnreadCount(inbox.unreadCount)
+    } catch {
+      // Keep the last known state; the next poll retries
+    }
+  }, [])
+
+  useEffect(() => {
+    refresh()
+    const interval = window.setInterval(refresh, POLL_INTERVAL_MS)
+    const unsubscribe = onNotificationsUpdated(refresh)
+    return () => {
+      window.clearInterval(interval)
+      unsubscribe()
+    }
+  }, [refresh])
+
+  useEffect(() => {
+    const onOutsideClick = (event: MouseEvent) => {
+      if (!containerRef.current?.contains(event.target as Node)) {
+        setOpen(false)
+      }
+    }
+    window.addEventListener("mousedown", onOutsideClick)
+    return () => window.removeEventListener("mousedown", onOutsideClick)
+  }, [])
+
+  const openNotification = async (notification: InboxNotification) => {
+    if (!notification.read) {
+      await markNotificationRead(notification.id).catch(() => undefined)
+    }
+  }
+
+  return (
+    <div ref={containerRef} className="relative">
+      <button
+        type="button"
+        aria-label={unreadCount > 0 ? `Notifications (${unreadCount} unread)` : "Notifications"}
+        className="relative rounded-full p-2 text-slate-700 hover:bg-slate-100"
+        onClick={() => {
+          setOpen((prev) => !prev)
+          if (!open) {
+            refresh()
+          }
+        }}
+      >
+        <Bell className="h-5 w-5" />
+        {unreadCount > 0 && (
+          <Badge className="absolute -right-1 -top-1 h-5 min-w-5 p-0 text-[10px]">
+            {unreadCount > 99 ? "99+" : unreadCount}
+          </Badge>
+        )}
+      </button>
+
+      {open && (
+        <div className="absolute right-0 top-12 z-50 w-80 rounded-xl border border-slate-200 bg-white shadow-lg">
+          <div className="flex items-center justify-between border-b border-slate-100 px-4 py-2">
+            <p className="text-sm font-semibold text-slate-900">Notifications</p>
+            {unreadCount > 0 && (
+              <button
+                type="button"
+                onClick={() => markAllNotificationsRead().catch(() => undefined)}
+                className="text-xs font-medium text-blue-700"
+              >
+                Mark all as read
+              </button>
+            )}
+          </div>
+          {notifications.length === 0 ? (
+            <p className="px-4 py-3 text-sm text-slate-500">You have no notifications yet.</p>
+          ) : (
+            <ul className="max-h-80 overflow-y-auto py-1">
+              {notifications.map((notification) => (
+                <li key={notification.id}>
+                  <button
+                    type="button"
+                    onClick={() => openNotification(notification)}
+                    className={`block w-full px-4 py-2 text-left hover:bg-slate-50 ${
+                      notification.read ? "" : "bg-blue-50/60"
+                    }`}
+                  >
+                    <span className="block truncate text-sm font-medium text-slate-900">
+                      {notification.title ?? "Notification"}
+                    </span>
+                    <span className="line-clamp-2 text-xs text-slate-500">{notification.body}</span>
+                  </button>
+                </li>
+              ))}
+            </ul>
+          )}
+          <div className="border-t border-slate-100 px-4 py-2">
+            <Link
+              href={ROUTES.NOTIFICATIONS}
+              onClick={() => setOpen(false)}
+              className="text-xs font-medium text-blue-700"
+            >
+              View all notifications
+            </Link>
+          </div>
+        </div>
+      )}
+    </div>
+  )
+}
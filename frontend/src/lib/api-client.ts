@@ -86,8 +86,9 @@ class ApiClient {
    * Build request headers
    */
   private buildHeaders(options: RequestOptions): HeadersInit {
+    // Let fetch set the multipart boundary for FormData bodies
     const headers: Record<string, string> = {
-      'Content-Type': 'application/json',
+      ...(options.body instanceof FormData ? {} : { 'Content-Type': 'application/json' }),
       ...options.headers,
     };
 
@@ -164,7 +165,7 @@ class ApiClient {
     };
 
     if (body && method !== 'GET') {
-      fetchOptions.body = JSON.stringify(body);
+      fetchOptions.body = body instanceof FormData ? body : JSON.stringify(body);
     }
 
     const response = await fetch(url, fetchOptions);
@@ -0,0 +1,92 @@
+/**
+ * Audit Log Service
+ *
+ * Admin search over the backend's append-only audit log, and verification
+ * of its hash chain.
+ */
+
+import { apiClient } from './api-client';
+import type { PaginatedResponse } from '@/types/api';
+
+export type AuditEventType = 'user_action' | 'data_change' | 'security' | 'system';
+
+export interface AuditLogEntry {
+  id: string;
+  /** User ID, or 'system' */
+  actorId: string;
+  action: string;
+  resource: string;
+  resourceId: string | null;
+  eventType: AuditEventType;
+  metadata: Record<string, unknown> | null;
+  correlationId: string | null;
+  createdAt: string;
+  /** Position in the hash chain */
+  sequence: number;
+  prevHash: string | null;
+  hash: string;
+}
+
+export interface AuditChainBreak {
+  sequence: number;
+  entryId: string;
+  reason: 'sequence_gap' | 'prev_hash_mismatch' | 'hash_mismatch';
+  expected: string | number | null;
+  actual: string | number | null;
+}
+
+export interface AuditChainVerification {
+  valid: boolean;
+  entriesChecked: number;
+  lastVerifiedSequence: number | null;
+  lastVerifiedHash: string | null;
+  firstBreak: AuditChainBreak | null;
+  verifiedAt: string;
+}
+
+export interface AuditLogFilters {
+  actorId?: string;
+  resource?: string;
+  resourceId?: string;
+  action?: string;
+  eventType?: AuditEventType;
+  /** YYYY-MM-DD, inclusive */
+  from?: string;
+  /** YYYY-MM-DD, inclusive */
+  to?: string;
+  page?: number;
+  limit?: number;
+}
+
+/**
+ * Search audit entries, most recent first
+ */
+export async function fetchAuditLogs(
+  filters: AuditLogFilters = {},
+): Promise<PaginatedResponse<AuditLogEntry>> {
+  const params = new URLSearchParams();
+  for (const [key, value] of Object.entries(filters)) {
+    if (value !== undefined && String(value).trim() !== '') {
+      params.set(key, String(value).trim());
+    }
+  }
+
+  const queryString = params.toString();
+  const response = await apiClient.get<AuditLogEntry[]>(
+    `/admin/audit-logs${queryString ? `?${queryString}` : ''}`,
+  );
+
+  // The backend returns PaginatedResponse directly
+  return response as unknown as PaginatedResponse<AuditLogEntry>;
+}
+
+/**
+ * Walk the audit hash chain; reports the first broken link
+ */
+export async function verifyAuditChain(): Promise<AuditChainVerification> {
+  const response = await apiClient.get<AuditChainVerification>('/admin/audit-logs/verify');
+  if (!response.data) {
+    throw new Error('Audit chain verification returned no result');
+  }
+  return response.data;
+}
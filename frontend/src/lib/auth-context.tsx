@@ -8,7 +8,7 @@
  *
  * Responsibilities:
  * - Expose auth state (user, isAuthenticated, isLoading)
- * - Expose auth methods (login, register, logout)
+ * - Expose auth methods (login, OTP sign-in, register, logout)
  * - Handle session restoration on app boot
  * - Wire up API client with token provider
  *
@@ -28,7 +28,14 @@ import {
   useRef,
   type ReactNode,
 } from 'react';
-import type { AuthUser, LoginRequest, RegisterRequest, RegisterResponse } from '@/types/api';
+import type {
+  AuthUser,
+  LoginRequest,
+  RegisterRequest,
+  RegisterResponse,
+  RequestOtpResponse,
+  VerifyOtpRequest,
+} from '@/types/api';
 import { authService, AuthError, type AuthResult } from './auth-service';
 import { apiClient, type TokenProvider } from './api-client';
 
@@ -49,6 +56,10 @@ interface AuthState {
 interface AuthContextValue extends Omit<AuthState, 'isInitialized'> {
   /** Login with phone number and password */
   login: (phoneNumber: string, password: string) => Promise<void>;
+  /** Send a one-time sign-in code by SMS */
+  requestOtp: (phoneNumber: string) => Promise<RequestOtpResponse>;
+  /** Sign in with a one-time code (registers the number if it is new) */
+  loginWithOtp: (request: VerifyOtpRequest) => Promise<void>;
   /** Register a new user */
   register: (request: RegisterRequest) => Promise<RegisterResponse>;
   /** Logout and clear all auth state */
@@ -215,6 +226,57 @@ export function AuthProvider({ children }: { children: ReactNode }) {
     [handleAuthSuccess, updateState],
   );
 
+  /**
+   * Send a one-time sign-in code
+   */
+  const requestOtp = useCallback(
+    async (phoneNumber: string): Promise<RequestOtpResponse> => {
+      updateState({ isLoading: true, error: null });
+
+      try {
+        const result = await authService.requestOtp({ phoneNumber });
+        updateState({ isLoading: false });
+        return result;
+      } catch (error) {
+        const message =
+          error instanceof AuthError
+            ? error.message
+            : 'Could not send the code. Please try again.';
+        updateState({
+          isLoading: false,
+          error: message,
+        });
+        throw error;
+      }
+    },
+    [updateState],
+  );
+
+  /**
+   * Sign in with a one-time code
+   */
+  const loginWithOtp = useCallback(
+    async (request: VerifyOtpRequest): Promise<void> => {
+      updateState({ isLoading: true, error: null });
+
+      try {
+        const result = await authService.verifyOtp(request);
+        handleAuthSuccess(result);
+      } catch (error) {
+        const message =
+          error instanceof AuthError
+            ? error.message
+            : 'Sign in failed. Please try again.';
+        updateState({
+          isLoading: false,
+          error: message,
+        });
+        throw error;
+      }
+    },
+    [handleAuthSuccess, updateState],
+  );
+
   /**
    * Register a new user
    */
@@ -265,11 +327,13 @@ export function AuthProvider({ children }: { children: ReactNode }) {
       isLoading: state.isLoading,
       error: state.error,
       login,
+      requestOtp,
+      loginWithOtp,
       register,
       logout,
       clearError,
     }),
-    [state, login, register, logout, clearError],
+    [state, login, requestOtp, loginWithOtp, register, logout, clearError],
   );
 
   return <AuthContext.Provider value={value}>{children}</AuthContext.Provider>;
@@ -5,7 +5,7 @@
  * Communicates with the backend auth endpoints and manages token lifecycle.
  *
  * Responsibilities:
- * - Login, register, refresh, logout flows
+ * - Login, register, OTP sign-in, refresh, logout flows
  * - Token storage coordination
  * - User state derivation from tokens
  *
@@ -27,6 +27,10 @@ import type {
   RegisterResponse,
   RefreshTokenRequest,
   RefreshTokenResponse,
+  RequestOtpRequest,
+  RequestOtpResponse,
+  VerifyOtpRequest,
+  VerifyOtpResponse,
   UserRole,
 } from '@/types/api';
 
@@ -111,6 +115,44 @@ class AuthServiceImpl {
     };
   }
 
+  /**
+   * Send a one-time sign-in code to a phone number by SMS
+   *
+   * @param request - Phone number to send the code to
+   * @returns Normalized number, code lifetime and resend delay (seconds)
+   * @throws AuthError on failure (e.g. AUTH_OTP_REQUEST_TOO_SOON)
+   */
+  async requestOtp(request: RequestOtpRequest): Promise<RequestOtpResponse> {
+    return this.makeRequest<RequestOtpResponse>(
+      '/auth/otp/request',
+      'POST',
+      request,
+    );
+  }
+
+  /**
+   * Sign in with a one-time code, registering the number if it is new
+   *
+   * @param request - Phone number, code and optional name for new accounts
+   * @returns Auth result with user and token info
+   * @throws AuthError on failure
+   */
+  async verifyOtp(request: VerifyOtpRequest): Promise<AuthResult> {
+    const response = await this.makeRequest<VerifyOtpResponse>(
+      '/auth/otp/verify',
+      'POST',
+      request,
+    );
+
+    this.storage.setAccessToken(response.accessToken);
+    this.storage.setRefreshToken(response.refreshToken);
+
+    return {
+      user: this.buildAuthUser(response.user),
+      expiresIn: response.expiresIn,
+    };
+  }
+
   /**
    * Refresh the access token using the stored refresh token
    *
@@ -0,0 +1,122 @@
+/**
+ * Catalog Admin Service
+ *
+ * API functions for admin product management.
+ * Prices are sent in rupees; every change is audit logged by the backend.
+ */
+
+import { apiClient } from './api-client';
+import type { AdminProduct, PaginatedResponse } from '@/types/api';
+
+export interface FetchAdminProductsOptions {
+  search?: string;
+  category?: string;
+  /** Include deactivated products (backend default: true) */
+  includeInactive?: boolean;
+  page?: number;
+  limit?: number;
+}
+
+export interface CreateProductInput {
+  id?: string;
+  name: string;
+  description?: string | null;
+  category: string;
+  price: number;
+  requiresPrescription: boolean;
+  isFeatured?: boolean;
+}
+
+export interface UpdateProductInput {
+  name?: string;
+  description?: string | null;
+  category?: string;
+  requiresPrescription?: boolean;
+}
+
+/**
+ * List products for admins, including inactive ones
+ */
+export async function fetchAdminProducts(
+  options: FetchAdminProductsOptions = {},
+): Promise<PaginatedResponse<AdminProduct>> {
+  const params = new URLSearchParams();
+  if (options.search?.trim()) {
+    params.set('search', options.search.trim());
+  }
+  if (options.category?.trim()) {
+    params.set('category', options.category.trim());
+  }
+  if (options.includeInactive !== undefined) {
+    params.set('includeInactive', String(options.includeInactive));
+  }
+  if (options.page && options.page > 0) {
+    params.set('page', String(options.page));
+  }
+  if (options.limit && options.limit > 0) {
+    params.set('limit', String(options.limit));
+  }
+
+  const queryString = params.toString();
+  const response = await apiClient.get<AdminProduct[]>(
+    `/admin/catalog/products${queryString ? `?${queryString}` : ''}`,
+  );
+
+  // The backend returns PaginatedResponse directly
+  return response as unknown as PaginatedResponse<AdminProduct>;
+}
+
+export async function createProduct(input: CreateProductInput): Promise<AdminProduct> {
+  const response = await apiClient.post<AdminProduct>('/admin/catalog/products', input);
+  return requireData(response.data);
+}
+
+export async function updateProduct(
+  productId: string,
+  input: UpdateProductInput,
+): Promise<AdminProduct> {
+  const response = await apiClient.patch<AdminProduct>(
+    `/admin/catalog/products/${productId}`,
+    input,
+  );
+  return requireData(response.data);
+}
+
+export async function changeProductPrice(productId: string, price: number): Promise<AdminProduct> {
+  const response = await apiClient.put<AdminProduct>(`/admin/catalog/products/${productId}/price`, {
+    price,
+  });
+  return requireData(response.data);
+}
+
+export async function setProductFeatured(
+  productId: string,
+  featured: boolean,
+): Promise<AdminProduct> {
+  const response = await apiClient.put<AdminProduct>(
+    `/admin/catalog/products/${productId}/featured`,
+    { featured },
+  );
+  return requireData(response.data);
+}
+
+export async function deactivateProduct(productId: string): Promise<AdminProduct> {
+  const response = await apiClient.post<AdminProduct>(
+    `/admin/catalog/products/${productId}/deactivate`,
+  );
+  return requireData(response.data);
+}
+
+export async function reactivateProduct(productId: string): Promise<AdminProduct> {
+  const response = await apiClient.post<AdminProduct>(
+    `/admin/catalog/products/${productId}/reactivate`,
+  );
+  return requireData(response.data);
+}
+
+function requireData(data: AdminProduct | undefined | null): AdminProduct {
+  if (!data) {
+    throw new Error('Empty response from catalog admin API');
+  }
+  return data;
+}
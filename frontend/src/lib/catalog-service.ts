@@ -12,8 +12,18 @@ import type {
   Product,
   ProductSummary,
   Category,
+  StockStatus,
 } from '@/types/api';
 
+/**
+ * Display labels for product stock indicators
+ */
+export const STOCK_STATUS_LABELS: Record<StockStatus, string> = {
+  IN_STOCK: 'In stock',
+  LOW_STOCK: 'Only a few left',
+  OUT_OF_STOCK: 'Out of stock',
+};
+
 /**
  * Options for fetching products
  *
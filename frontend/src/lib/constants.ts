@@ -22,10 +22,16 @@ export const ROUTES = {
   PROFILE: '/profile',
   PROFILE_ADDRESSES: '/profile/addresses',
   PROFILE_CONTEXT: '/profile/context',
+  PROFILE_NOTIFICATIONS: '/profile/notifications',
+  NOTIFICATIONS: '/notifications',
   PRESCRIPTIONS: '/prescriptions',
   PRESCRIPTION_NEW: '/prescriptions/new',
   ADMIN_PRESCRIPTIONS: '/admin/prescriptions',
   ADMIN_PAYMENTS: '/admin/payments',
+  ADMIN_PAYMENT_RECONCILIATION: '/admin/payments/reconciliation',
+  ADMIN_CONSULTATIONS: '/admin/consultations',
+  ADMIN_CATALOG: '/admin/catalog',
+  ADMIN_AUDIT_LOGS: '/admin/audit-logs',
 } as const;
 
 // Local storage keys
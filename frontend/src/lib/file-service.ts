@@ -0,0 +1,63 @@
+/**
+ * File Service
+ *
+ * Uploads prescription images / UPI payment screenshots and fetches
+ * short-lived download URLs for them.
+ */
+
+import { apiClient } from './api-client';
+
+export type FilePurpose = 'PRESCRIPTION' | 'PAYMENT_PROOF';
+
+export interface StoredFile {
+  id: string;
+  purpose: FilePurpose;
+  originalName: string;
+  mimeType: string;
+  sizeBytes: number;
+  checksum: string;
+  createdAt: string;
+}
+
+export interface FileDownloadUrl {
+  url: string;
+  expiresAt: string;
+}
+
+/** Accepted by the backend (images and PDFs, max 5 MB) */
+export const ACCEPTED_UPLOAD_TYPES = 'image/jpeg,image/png,image/webp,application/pdf';
+
+/**
+ * Upload a file. The returned id is the reference to submit with a
+ * prescription or UPI proof.
+ */
+export async function uploadFile(file: File, purpose: FilePurpose): Promise<StoredFile> {
+  const form = new FormData();
+  form.append('purpose', purpose);
+  form.append('file', file);
+
+  const response = await apiClient.post<StoredFile>('/files', form, { requiresAuth: true });
+
+  if (!response.data) {
+    throw new Error('Failed to upload file');
+  }
+
+  return response.data;
+}
+
+/**
+ * Get a time-limited URL to view a file (owner or admin).
+ */
+export async function getFileDownloadUrl(fileId: string): Promise<FileDownloadUrl> {
+  const response = await apiClient.post<FileDownloadUrl>(
+    `/files/${fileId}/download-url`,
+    undefined,
+    { requiresAuth: true },
+  );
+
+  if (!response.data) {
+    throw new Error('Failed to get download URL');
+  }
+
+  return response.data;
+}
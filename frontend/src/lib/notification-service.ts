@@ -0,0 +1,149 @@
+/**
+ * Notification Service
+ *
+ * The signed-in user's in-app inbox and the channels they want per
+ * notification category. Email and SMS are sent by the backend; this only
+ * reads what was stored for the inbox.
+ */
+
+import { apiClient } from './api-client';
+
+export type NotificationCategory =
+  | 'ORDER_UPDATES'
+  | 'PAYMENT_UPDATES'
+  | 'PRESCRIPTION_REVIEWS'
+  | 'MARKETING';
+
+export type NotificationChannel = 'EMAIL' | 'SMS' | 'IN_APP';
+
+export interface InboxNotification {
+  id: string;
+  /** Message type, e.g. ORDER_SHIPPED; null for ad hoc messages */
+  type: string | null;
+  title: string | null;
+  body: string;
+  read: boolean;
+  createdAt: string;
+  readAt: string | null;
+}
+
+export interface Inbox {
+  notifications: InboxNotification[];
+  /** Unread messages in the whole inbox */
+  unreadCount: number;
+}
+
+export type ChannelSelection = Record<NotificationChannel, boolean>;
+
+export interface NotificationPreferences {
+  categories: Record<NotificationCategory, ChannelSelection>;
+  updatedAt: string;
+}
+
+/** Categories and channels left out are unchanged */
+export type NotificationPreferencesChanges = Partial<
+  Record<NotificationCategory, Partial<ChannelSelection>>
+>;
+
+/**
+ * Tell the header bell that the unread count changed
+ */
+function dispatchNotificationsUpdate(): void {
+  if (typeof window !== 'undefined') {
+    window.dispatchEvent(new CustomEvent('notifications-updated'));
+  }
+}
+
+/**
+ * Subscribe to read-state changes made elsewhere on the page
+ *
+ * @returns Cleanup function to unsubscribe
+ */
+export function onNotificationsUpdated(callback: () => void): () => void {
+  if (typeof window === 'undefined') {
+    return () => {};
+  }
+
+  window.addEventListener('notifications-updated', callback);
+  return () => window.removeEventListener('notifications-updated', callback);
+}
+
+/**
+ * Fetch the most recent in-app notifications and the unread count
+ */
+export async function fetchInbox(limit = 20): Promise<Inbox> {
+  const response = await apiClient.get<Inbox>(`/notifications?limit=${limit}`, {
+    requiresAuth: true,
+  });
+
+  if (!response.data) {
+    throw new Error('Failed to load notifications');
+  }
+
+  return response.data;
+}
+
+/**
+ * Mark one notification as read
+ */
+export async function markNotificationRead(id: string): Promise<InboxNotification> {
+  const response = await apiClient.post<InboxNotification>(
+    `/notifications/${id}/read`,
+    undefined,
+    { requiresAuth: true },
+  );
+
+  if (!response.data) {
+    throw new Error('Failed to mark notification as read');
+  }
+
+  dispatchNotificationsUpdate();
+  return response.data;
+}
+
+/**
+ * Mark every notification as read
+ * @returns number of notifications that were unread
+ */
+export async function markAllNotificationsRead(): Promise<number> {
+  const response = await apiClient.post<{ marked: number }>('/notifications/read-all', undefined, {
+    requiresAuth: true,
+  });
+
+  dispatchNotificationsUpdate();
+  return response.data?.marked ?? 0;
+}
+
+/**
+ * Fetch the channels the user wants per category
+ */
+export async function fetchNotificationPreferences(): Promise<NotificationPreferences> {
+  const response = await apiClient.get<NotificationPreferences>('/notifications/preferences', {
+    requiresAuth: true,
+  });
+
+  if (!response.data) {
+    throw new Error('Failed to load notification preferences');
+  }
+
+  return response.data;
+}
+
+/**
+ * Switch channels on or off for some categories
+ */
+export async function updateNotificationPreferences(
+  changes: NotificationPreferencesChanges,
+): Promise<NotificationPreferences> {
+  const response = await apiClient.put<NotificationPreferences>(
+    '/notifications/preferences',
+    changes,
+    { requiresAuth: true },
+  );
+
+  if (!response.data) {
+    throw new Error('Failed to update notification preferences');
+  }
+
+  return response.data;
+}
@@ -12,16 +12,18 @@ import type {
   OrderHistoryResponse,
   OrderDetail,
   CancelledOrder,
+  OrderComplianceInfo,
 } from '@/types/api';
 
 /** Phase 6 — Payment intent response (user-facing) */
 export interface PaymentIntentResponse {
   id: string;
   orderId: string;
-  method: 'COD' | 'UPI';
+  method: 'COD' | 'UPI' | 'ONLINE';
   status: string;
   referenceId?: string | null;
   proofReference?: string | null;
+  rejectionReason?: string | null;
   createdAt: string;
   verifiedAt?: string | null;
 }
@@ -29,6 +31,12 @@ export interface PaymentIntentResponse {
 /** Phase 6 — UPI instructions returned when method is UPI */
 export interface UpiInstructions {
   vpa: string;
+  payeeName: string;
+  amount: { amount: number; currency: string };
+  /** upi:// link that opens a UPI app with payee, amount and order pre-filled */
+  deepLink: string;
+  /** The deep link as an SVG QR code */
+  qrCodeSvg: string;
   steps: string[];
 }
 
@@ -38,6 +46,11 @@ export interface CreatePaymentUpiResponse {
   upiInstructions: UpiInstructions;
 }
 
+/** Compliance snapshot returned after linking a prescription or consultation (ADR-0055) */
+export interface OrderComplianceLinkResponse extends OrderComplianceInfo {
+  orderId: string;
+}
+
 /**
  * Pagination parameters for order history
  */
@@ -145,8 +158,9 @@ export function canCancelOrder(state: string): boolean {
 
 /**
  * Create payment intent (Phase 6 — manual payment v1).
- * COD: creates VERIFIED intent (pay at delivery); order remains CONFIRMED.
+ * COD: creates VERIFIED intent (pay at delivery); the order then moves to PAID.
  * UPI: creates PENDING intent and returns UPI instructions.
+ * Also used to pay again after a rejected payment.
  */
 export async function createPayment(
   orderId: string,
@@ -165,6 +179,22 @@ export async function createPayment(
   return response.data;
 }
 
+/**
+ * Fetch UPI instructions (deep link, QR code) for the order's unpaid UPI payment,
+ * e.g. when the payment page is reopened after choosing UPI.
+ */
+export async function fetchUpiInstructions(orderId: string): Promise<UpiInstructions> {
+  const response = await apiClient.get<UpiInstructions>(`/orders/${orderId}/payment/upi`, {
+    requiresAuth: true,
+  });
+
+  if (!response.data) {
+    throw new Error('Failed to load UPI instructions');
+  }
+
+  return response.data;
+}
+
 /**
  * Submit UPI payment proof (Phase 6).
  * Updates PaymentIntent to SUBMITTED; admin verifies later.
@@ -184,4 +214,46 @@ export async function submitUpiProof(
   }
 
   return response.data;
-}
\ No newline at end of file
+}
+
+/**
+ * Link an existing prescription to an order (ADR-0055).
+ * Backend checks that both the order and the prescription belong to the user
+ * and refuses REJECTED prescriptions.
+ */
+export async function linkPrescriptionToOrder(
+  orderId: string,
+  prescriptionId: string,
+): Promise<OrderComplianceLinkResponse> {
+  const response = await apiClient.post<OrderComplianceLinkResponse>(
+    `/orders/${orderId}/prescriptions`,
+    { prescriptionId },
+    { requiresAuth: true },
+  );
+
+  if (!response.data) {
+    throw new Error('Failed to link prescription');
+  }
+
+  return response.data;
+}
+
+/**
+ * Link an existing consultation request to an order (ADR-0055).
+ */
+export async function linkConsultationToOrder(
+  orderId: string,
+  consultationRequestId: string,
+): Promise<OrderComplianceLinkResponse> {
+  const response = await apiClient.post<OrderComplianceLinkResponse>(
+    `/orders/${orderId}/consultations`,
+    { consultationRequestId },
+    { requiresAuth: true },
+  );
+
+  if (!response.data) {
+    throw new Error('Failed to link consultation');
+  }
+
+  return response.data;
+}
@@ -0,0 +1,65 @@
+/**
+ * Reconciliation Service
+ *
+ * Admin upload of a bank / UPI statement CSV, matched by the backend against
+ * submitted UPI payments by reference and amount.
+ */
+
+import { apiClient } from './api-client';
+
+export type ReconciliationItemStatus =
+  | 'MATCHED'
+  | 'VERIFIED'
+  | 'VERIFY_FAILED'
+  | 'AMOUNT_MISMATCH'
+  | 'DUPLICATE'
+  | 'ALREADY_VERIFIED'
+  | 'UNMATCHED_CREDIT'
+  | 'UNMATCHED_PAYMENT';
+
+export interface ReconciliationItem {
+  status: ReconciliationItemStatus;
+  /** Statement row (header is row 1); null for a payment missing from the statement */
+  row: number | null;
+  referenceId: string;
+  amountReceived: { amount: number; currency: string } | null;
+  paymentIntentId: string | null;
+  orderId: string | null;
+  expectedAmount: { amount: number; currency: string } | null;
+  date: string | null;
+  description: string | null;
+  message: string;
+}
+
+export interface ReconciliationReport {
+  dryRun: boolean;
+  totalCredits: number;
+  summary: Record<ReconciliationItemStatus, number>;
+  items: ReconciliationItem[];
+  /** Statement rows that could not be read */
+  errors: { row: number; message: string }[];
+}
+
+/**
+ * Reconcile a statement. With dryRun the report only proposes the matched
+ * payments; otherwise the backend verifies them.
+ */
+export async function reconcileStatement(
+  file: File,
+  dryRun: boolean,
+): Promise<ReconciliationReport> {
+  const form = new FormData();
+  form.append('file', file);
+
+  const response = await apiClient.post<ReconciliationReport>(
+    `/admin/payments/reconciliation?dryRun=${dryRun}`,
+    form,
+    { requiresAuth: true },
+  );
+
+  if (!response.data) {
+    throw new Error('Failed to reconcile statement');
+  }
+
+  return response.data;
+}
@@ -124,6 +124,42 @@ export interface RegisterResponse {
   message: string;
 }
 
+/**
+ * OTP request DTO
+ * Aligned with backend RequestOtpDto
+ */
+export interface RequestOtpRequest {
+  phoneNumber: string;
+}
+
+/**
+ * OTP request response DTO
+ * Aligned with backend RequestOtpResponseDto
+ */
+export interface RequestOtpResponse {
+  phoneNumber: string;
+  expiresIn: number;
+  resendAfter: number;
+}
+
+/**
+ * OTP verify request DTO
+ * Aligned with backend VerifyOtpDto
+ */
+export interface VerifyOtpRequest {
+  phoneNumber: string;
+  code: string;
+  name?: string;
+}
+
+/**
+ * OTP verify response DTO
+ * Aligned with backend VerifyOtpResponseDto
+ */
+export interface VerifyOtpResponse extends LoginResponse {
+  isNewUser: boolean;
+}
+
 /**
  * Refresh token request DTO
  * Aligned with backend RefreshTokenDto
@@ -157,6 +193,12 @@ export interface Price {
   formatted: string;
 }
 
+/**
+ * Customer-facing stock indicator
+ * Aligned with backend StockStatus
+ */
+export type StockStatus = 'IN_STOCK' | 'LOW_STOCK' | 'OUT_OF_STOCK';
+
 /**
  * Product summary for listings
  * Aligned with backend ProductSummaryDto
@@ -170,6 +212,7 @@ export interface ProductSummary {
   price: Price;
   requiresPrescription: boolean;
   isFeatured: boolean;
+  stockStatus: StockStatus;
 }
 
 /**
@@ -186,6 +229,24 @@ export interface Product {
   requiresPrescription: boolean;
   isFeatured: boolean;
   isActive: boolean;
+  stockStatus: StockStatus;
+}
+
+/**
+ * Product as seen in admin catalog management (includes inactive products)
+ */
+export interface AdminProduct {
+  id: string;
+  name: string;
+  description: string | null;
+  category: string;
+  categoryLabel: string;
+  price: Price;
+  requiresPrescription: boolean;
+  isFeatured: boolean;
+  isActive: boolean;
+  createdAt: string;
+  updatedAt: string;
 }
 
 export interface Promotion {
@@ -406,8 +467,88 @@ export interface OrderComplianceInfo {
  * Present when order has a payment intent.
  */
 export interface OrderPaymentInfo {
-  method: 'COD' | 'UPI';
-  status: 'PENDING' | 'SUBMITTED' | 'VERIFIED' | 'REJECTED';
+  method: 'COD' | 'UPI' | 'ONLINE';
+  status: 'PENDING' | 'SUBMITTED' | 'VERIFIED' | 'REJECTED' | 'REFUNDED' | 'EXPIRED';
+  /** Why the payment was rejected; the customer can pay again */
+  rejectionReason: string | null;
+  /** Earlier attempts, oldest first; present only after a retry */
+  previousAttempts?: OrderPaymentAttempt[];
+}
+
+/**
+ * Earlier payment attempt on order detail
+ */
+export interface OrderPaymentAttempt {
+  method: OrderPaymentInfo['method'];
+  status: OrderPaymentInfo['status'];
+  referenceId: string | null;
+  rejectionReason: string | null;
+  createdAt: string;
+}
+
+export type RefundStatus = 'REQUESTED' | 'APPROVED' | 'PROCESSED' | 'FAILED';
+
+/**
+ * Refund on order detail
+ * Aligned with backend OrderDetailRefundDto.
+ */
+export interface OrderRefundInfo {
+  amount: CartPrice;
+  status: RefundStatus;
+  reason: string;
+  /** UPI reference of the payout, once processed */
+  upiReference: string | null;
+  requestedAt: string;
+  processedAt: string | null;
+}
+
+export type ShipmentTrackingStatus =
+  | 'DISPATCHED'
+  | 'IN_TRANSIT'
+  | 'OUT_FOR_DELIVERY'
+  | 'DELIVERY_ATTEMPTED'
+  | 'DELIVERED';
+
+/**
+ * One entry on the shipment tracking timeline
+ */
+export interface ShipmentTrackingEvent {
+  status: ShipmentTrackingStatus;
+  description: string;
+  location: string | null;
+  occurredAt: string;
+}
+
+/**
+ * Shipment on order detail. Present once the order has shipped.
+ * Aligned with backend ShipmentDto; events are oldest first.
+ */
+export interface OrderShipmentInfo {
+  carrier: string;
+  trackingNumber: string;
+  dispatchedAt: string;
+  /** YYYY-MM-DD */
+  expectedDeliveryDate: string | null;
+  deliveredAt: string | null;
+  deliveryNote: string | null;
+  events: ShipmentTrackingEvent[];
+}
+
+/**
+ * Who changed the order status, as shown on the timeline
+ */
+export type OrderTimelineActor = 'CUSTOMER' | 'PHARMACY' | 'SYSTEM';
+
+/**
+ * One status change on the order timeline
+ * Aligned with backend OrderTimelineEntryDto.
+ */
+export interface OrderTimelineEntry {
+  previousState: string;
+  state: string;
+  changedBy: OrderTimelineActor;
+  reason: string | null;
+  occurredAt: string;
 }
 
 /**
@@ -415,6 +556,9 @@ export interface OrderPaymentInfo {
  * Aligned with backend OrderDetailDto.
  * compliance is optional; when present, UI shows compliance awareness section.
  * payment is optional; when present, UI shows payment method and status (Phase 6).
+ * shipment is optional; when present, UI shows carrier, tracking number and timeline.
+ * refunds is optional; when present, UI shows each refund and its status.
+ * timeline lists every status change, oldest first.
  */
 export interface OrderDetail {
   orderId: string;
@@ -428,6 +572,12 @@ export interface OrderDetail {
   compliance?: OrderComplianceInfo;
   /** Payment method and status (Phase 6); present when payment intent exists */
   payment?: OrderPaymentInfo;
+  /** Carrier, tracking number and tracking timeline; present once shipped */
+  shipment?: OrderShipmentInfo;
+  /** Refunds, oldest first; present once a refund has been requested */
+  refunds?: OrderRefundInfo[];
+  /** Status changes, oldest first */
+  timeline: OrderTimelineEntry[];
 }
 
 /**